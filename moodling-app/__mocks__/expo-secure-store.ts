@@ -0,0 +1,23 @@
+/**
+ * In-memory stand-in for the device keystore, picked up automatically by jest.
+ */
+
+const items = new Map<string, string>();
+
+export const WHEN_UNLOCKED_THIS_DEVICE_ONLY = 'WHEN_UNLOCKED_THIS_DEVICE_ONLY';
+
+export async function isAvailableAsync(): Promise<boolean> {
+  return true;
+}
+
+export async function getItemAsync(key: string): Promise<string | null> {
+  return items.get(key) ?? null;
+}
+
+export async function setItemAsync(key: string, value: string): Promise<void> {
+  items.set(key, value);
+}
+
+export async function deleteItemAsync(key: string): Promise<void> {
+  items.delete(key);
+}
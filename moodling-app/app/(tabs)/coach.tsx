@@ -58,7 +58,12 @@ import {
   CommandContext,
   CommandResult,
   initializeSlashCommands,
+  getCommandSuggestions,
+  runMacro,
+  takeDueMacros,
+  subscribeToMacroRuns,
 } from '@/services/slashCommandService';
+import { isPremium } from '@/services/subscriptionService';
 import {
   getTTSSettings,
   speakCoachResponse,
@@ -127,6 +132,8 @@ export default function CoachTabScreen() {
 
   const [messages, setMessages] = useState<DisplayMessage[]>([WELCOME_MESSAGE]);
   const [inputText, setInputText] = useState('');
+  // Slash command autocomplete while typing "/..."
+  const commandSuggestions = useMemo(() => getCommandSuggestions(inputText), [inputText]);
   const [isLoading, setIsLoading] = useState(false);
   const [hasKey, setHasKey] = useState(false);
   const [toneStyles, setToneStyles] = useState<ToneStyle[]>(['balanced']);
@@ -150,6 +157,10 @@ export default function CoachTabScreen() {
   // Ref for handleSend - initialized as null, updated after handleSend is defined
   const handleSendRef = useRef<((text?: string) => Promise<void>) | null>(null);
 
+  // Cancels an in-flight coach reply when leaving the screen
+  const replyAbortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => replyAbortRef.current?.abort(), []);
+
   // First-time experience and tour state
   const [isFirstTime, setIsFirstTime] = useState(false);
   const [tourActive, setTourActive] = useState(false);
@@ -350,28 +361,56 @@ export default function CoachTabScreen() {
           timestamp: m.timestamp instanceof Date ? m.timestamp.toISOString() : new Date().toISOString(),
         }));
 
-      // Send to Claude
-      console.log('[Coach] Sending message to Claude API...');
-      const response: AIResponse = await sendMessage(messageText, {
-        recentMessages: history,
-        toneStyles,
-      });
+      // Send to the active LLM provider, streaming the reply into a placeholder message
+      console.log('[Coach] Sending message to coach...');
+      const replyId = `ai_${Date.now()}`;
+      let streamedText = '';
+      replyAbortRef.current = new AbortController();
+      const response: AIResponse = await sendMessage(
+        messageText,
+        {
+          recentMessages: history,
+          toneStyles,
+        },
+        {
+          signal: replyAbortRef.current.signal,
+          onToken: (token) => {
+            streamedText += token;
+            const partial = streamedText;
+            setMessages((prev) =>
+              prev.some((m) => m.id === replyId)
+                ? prev.map((m) => (m.id === replyId ? { ...m, text: partial } : m))
+                : [...prev, { id: replyId, text: partial, source: 'claudeAPI', timestamp: new Date() }]
+            );
+          },
+          // A provider failed mid-reply and another is answering: drop the partial text
+          onRestart: () => {
+            streamedText = '';
+            setMessages((prev) => prev.filter((m) => m.id !== replyId));
+          },
+        }
+      );
+      replyAbortRef.current = null;
       console.log('[Coach] Got response, source:', response.source, 'text length:', response.text?.length || 0);
 
+      if (response.cancelled) {
+        return;
+      }
+
       // Check if we got a real response
       if (!response.text || response.text.length === 0) {
         console.error('[Coach] Empty response from API');
         throw new Error('Empty response from API');
       }
 
-      // Add AI message
+      // Add AI message (replaces the streamed placeholder; the final text may be cleaned up)
       const aiMessage: DisplayMessage = {
-        id: `ai_${Date.now()}`,
+        id: replyId,
         text: response.text,
         source: response.source === 'crisis' ? 'crisis' : (response.source === 'fallback' ? 'fallback' : 'claudeAPI'),
         timestamp: new Date(),
       };
-      setMessages((prev) => [...prev, aiMessage]);
+      setMessages((prev) => [...prev.filter((m) => m.id !== replyId), aiMessage]);
 
       // TTS if enabled (in separate try/catch so it doesn't break the response)
       try {
@@ -495,6 +534,47 @@ export default function CoachTabScreen() {
     }, [voiceMessage, loadAndSendPendingVoice])
   );
 
+  // Run scheduled macros that came due (time of day or after a quick log)
+  const runningMacrosRef = useRef(false);
+  const runDueMacros = useCallback(async () => {
+    // Focus and the due-listener can fire together; run once
+    if (runningMacrosRef.current) return;
+    runningMacrosRef.current = true;
+    try {
+      const due = await takeDueMacros();
+      if (due.length === 0) return;
+
+      const settings = await getCoachSettings();
+      const context: CommandContext = {
+        currentPersona: settings.selectedPersona,
+        isPremium: await isPremium(),
+      };
+      for (const { macro, reason } of due) {
+        const result = await runMacro(macro, context);
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: `macro_${macro.id}_${Date.now()}`,
+            text: `⏰ ${reason}\n\n${result.message || ''}`,
+            source: 'command',
+            timestamp: new Date(),
+          },
+        ]);
+      }
+    } finally {
+      runningMacrosRef.current = false;
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      runDueMacros().catch((error) => console.error('[Coach] Failed to run scheduled macros:', error));
+      return subscribeToMacroRuns(() => {
+        runDueMacros().catch((error) => console.error('[Coach] Failed to run scheduled macros:', error));
+      });
+    }, [runDueMacros])
+  );
+
   const renderMessage = (message: DisplayMessage) => {
     const isUser = message.source === 'user';
     const isCommand = message.source === 'command';
@@ -582,6 +662,35 @@ export default function CoachTabScreen() {
         )}
       </ScrollView>
 
+      {/* Slash command suggestions */}
+      {commandSuggestions.length > 0 && (
+        <ScrollView
+          horizontal
+          keyboardShouldPersistTaps="handled"
+          showsHorizontalScrollIndicator={false}
+          style={[styles.suggestionBar, { borderTopColor: colors.border }]}
+          contentContainerStyle={styles.suggestionBarContent}
+        >
+          {commandSuggestions.map((suggestion) => (
+            <TouchableOpacity
+              key={suggestion.insertText}
+              style={[styles.suggestionChip, { backgroundColor: colors.card }]}
+              onPress={() => setInputText(suggestion.insertText)}
+            >
+              <Text style={[styles.suggestionLabel, { color: colors.text }]}>
+                {suggestion.emoji ? `${suggestion.emoji} ` : ''}{suggestion.label}
+                {suggestion.requiresPremium ? ' 🔒' : ''}
+              </Text>
+              {suggestion.description && (
+                <Text style={[styles.suggestionDescription, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {suggestion.description}
+                </Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
       {/* Input area */}
       <View style={[styles.inputContainer, { backgroundColor: colors.background, borderTopColor: colors.border }]}>
         <TextInput
@@ -711,6 +820,29 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
   },
+  suggestionBar: {
+    flexGrow: 0,
+    borderTopWidth: 1,
+  },
+  suggestionBarContent: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 8,
+  },
+  suggestionChip: {
+    maxWidth: 220,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  suggestionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  suggestionDescription: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
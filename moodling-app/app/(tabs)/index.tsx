@@ -16,6 +16,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
 import { JournalEntry, createJournalEntry } from '@/types/JournalEntry';
 import { saveEntry, getAllEntries } from '@/services/journalStorage';
+import { linkEntryToEvent } from '@/services/eventCoachingService';
 import { analyzeSentiment } from '@/services/sentimentAnalysis';
 import { voiceRecording, isVoiceRecordingSupported, VoiceRecordingState } from '@/services/voiceRecording';
 import {
@@ -139,12 +140,23 @@ export default function JournalScreen() {
   const PENDING_JOURNAL_MESSAGE_KEY = 'moodleaf_pending_journal_voice';
 
   // Track voice params from tab bar navigation
-  const { voiceMessage, voiceTimestamp } = useLocalSearchParams<{
+  const { voiceMessage, voiceTimestamp, journalPrompt, eventKey } = useLocalSearchParams<{
     voiceMessage?: string;
     voiceTimestamp?: string;
+    journalPrompt?: string;
+    eventKey?: string;
   }>();
   const lastVoiceTimestamp = useRef<string | null>(null);
 
+  // Debrief prompt from an event coaching notification
+  const [debrief, setDebrief] = useState<{ prompt: string; eventKey: string } | null>(null);
+
+  useEffect(() => {
+    if (journalPrompt && eventKey) {
+      setDebrief({ prompt: journalPrompt, eventKey });
+    }
+  }, [journalPrompt, eventKey]);
+
   // Function to save a voice message to journal
   const saveVoiceMessage = useCallback((message: string) => {
     console.log('[Journal] Saving voice message:', message);
@@ -219,6 +231,12 @@ export default function JournalScreen() {
       });
       await saveEntry(newEntry);
 
+      // Link the debrief back to its calendar event
+      if (debrief) {
+        await linkEntryToEvent(debrief.eventKey, newEntry.id);
+        setDebrief(null);
+      }
+
       // Record entry for usage tracking (Unit 13)
       await recordEntry();
 
@@ -349,7 +367,7 @@ export default function JournalScreen() {
         {/* Header */}
         <View style={styles.welcomeContainer}>
           <Text style={[styles.greeting, { color: colors.text }]}>
-            How are you feeling right now?
+            {debrief ? debrief.prompt : 'How are you feeling right now?'}
           </Text>
           <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
             No rush. Take your time.
@@ -19,6 +19,8 @@ import {
 } from '@/services/patternService';
 import {
   generateCorrelationObservations,
+  loadTrackedFactors,
+  CORRELATION_WINDOW_DAYS,
   getConfidenceLabel,
   getConfidenceColor,
   PatternObservation,
@@ -42,14 +44,19 @@ export default function InsightsScreen() {
   const router = useRouter();
 
   const [recentDays, setRecentDays] = useState<DailySummary[]>([]);
+  const [correlationObservations, setCorrelationObservations] = useState<PatternObservation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   // Load data on mount and focus
   const loadData = useCallback(async () => {
     try {
       setIsLoading(true);
-      const summaries = await getRecentSummaries(7);
-      setRecentDays(summaries);
+      // Correlations need a longer history than the weekly view
+      const summaries = await getRecentSummaries(CORRELATION_WINDOW_DAYS);
+      setRecentDays(summaries.slice(-7));
+
+      const trackedFactors = await loadTrackedFactors(summaries);
+      setCorrelationObservations(generateCorrelationObservations(summaries, trackedFactors));
     } catch (error) {
       console.error('Failed to load insights data:', error);
     } finally {
@@ -72,9 +79,6 @@ export default function InsightsScreen() {
   // Generate pattern observations based on data
   const simpleObservations = generateObservations(recentDays);
 
-  // Generate correlation-based observations (more sophisticated)
-  const correlationObservations = generateCorrelationObservations(recentDays);
-
   // Use correlation observations if available, otherwise fall back to simple
   const observations = correlationObservations.length > 0 ? correlationObservations : simpleObservations;
 
@@ -218,6 +222,42 @@ export default function InsightsScreen() {
         </View>
       )}
 
+      {/* Weekly & monthly reviews */}
+      <TouchableOpacity
+        style={[styles.featureLink, { backgroundColor: colors.card, borderColor: colors.border }]}
+        onPress={() => router.push('/reports')}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="document-text-outline" size={22} color={colors.tint} />
+        <View style={styles.featureLinkText}>
+          <Text style={[styles.featureLinkTitle, { color: colors.text }]}>
+            Weekly & Monthly Reviews
+          </Text>
+          <Text style={[styles.featureLinkSubtitle, { color: colors.textMuted }]}>
+            Charts and a summary you can share as PDF or HTML
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+      </TouchableOpacity>
+
+      {/* Psychological profile timeline */}
+      <TouchableOpacity
+        style={[styles.featureLink, { backgroundColor: colors.card, borderColor: colors.border }]}
+        onPress={() => router.push('/patterns')}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="analytics-outline" size={22} color={colors.tint} />
+        <View style={styles.featureLinkText}>
+          <Text style={[styles.featureLinkTitle, { color: colors.text }]}>
+            Patterns Over Time
+          </Text>
+          <Text style={[styles.featureLinkSubtitle, { color: colors.textMuted }]}>
+            How thinking and coping patterns shift, with the entries behind them
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+      </TouchableOpacity>
+
       {/* Social Exposure Ladder (Unit 21) */}
       <TouchableOpacity
         style={[styles.featureLink, { backgroundColor: colors.card, borderColor: colors.border }]}
@@ -41,6 +41,16 @@ import {
   getAllFeedbackOptions,
   FeedbackType,
 } from '@/services/insightFeedbackService';
+import {
+  Experiment,
+  ExperimentProgress,
+  ExperimentVerdict,
+  getExperiments,
+  getExperimentProgress,
+  startExperiment,
+  abandonExperiment,
+  completeDueExperiments,
+} from '@/services/experimentService';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -71,6 +81,14 @@ const STRENGTH_VISUALS: Record<InsightStrength, { emoji: string; label: string;
   strong: { emoji: '🌳', label: 'Rooted', size: 42 },
 };
 
+// How a finished experiment reads on the card
+const VERDICT_VISUALS: Record<ExperimentVerdict, { emoji: string; label: string }> = {
+  supports: { emoji: '🌟', label: 'Experiment supported this' },
+  contradicts: { emoji: '🔄', label: "Experiment didn't support this" },
+  no_change: { emoji: '⚖️', label: 'No noticeable change' },
+  inconclusive: { emoji: '❔', label: 'Experiment was inconclusive' },
+};
+
 export default function SeedsScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
@@ -81,6 +99,8 @@ export default function SeedsScreen() {
   const [selectedCategory, setSelectedCategory] = useState<InsightCategory | 'all'>('all');
   const [expandedInsight, setExpandedInsight] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [experiments, setExperiments] = useState<Record<string, Experiment>>({});
+  const [experimentProgress, setExperimentProgress] = useState<Record<string, ExperimentProgress>>({});
 
   // Animation for new seeds glow
   const glowAnim = useRef(new Animated.Value(0)).current;
@@ -108,12 +128,30 @@ export default function SeedsScreen() {
   }, [newCount, glowAnim]);
 
   const loadData = useCallback(async () => {
-    const [allInsights, count] = await Promise.all([
+    // Finished experiments update their insights before we load them
+    await completeDueExperiments();
+
+    const [allInsights, count, allExperiments] = await Promise.all([
       getInsights(),
       getNewInsightCount(),
+      getExperiments(),
     ]);
+
+    // Latest non-abandoned experiment per insight (list is newest first)
+    const byInsight: Record<string, Experiment> = {};
+    const progress: Record<string, ExperimentProgress> = {};
+    for (const experiment of allExperiments) {
+      if (experiment.status === 'abandoned' || byInsight[experiment.insightId]) continue;
+      byInsight[experiment.insightId] = experiment;
+      if (experiment.status === 'running') {
+        progress[experiment.id] = await getExperimentProgress(experiment);
+      }
+    }
+
     setInsights(allInsights);
     setNewCount(count);
+    setExperiments(byInsight);
+    setExperimentProgress(progress);
   }, []);
 
   useFocusEffect(
@@ -154,6 +192,16 @@ export default function SeedsScreen() {
     console.log('[Seeds] Recorded feedback:', feedbackType, 'for insight:', insight.title);
   };
 
+  const handleStartExperiment = async (insight: Insight) => {
+    await startExperiment(insight);
+    await loadData();
+  };
+
+  const handleAbandonExperiment = async (experiment: Experiment) => {
+    await abandonExperiment(experiment.id);
+    await loadData();
+  };
+
   const handleRunAnalysis = async () => {
     setIsAnalyzing(true);
     try {
@@ -328,6 +376,10 @@ export default function SeedsScreen() {
               onAcknowledge={() => handleAcknowledge(insight)}
               onReaction={(reaction) => handleReaction(insight.id, reaction)}
               onFeedback={handleFeedback}
+              experiment={experiments[insight.id]}
+              experimentProgress={experiments[insight.id] && experimentProgress[experiments[insight.id].id]}
+              onStartExperiment={() => handleStartExperiment(insight)}
+              onAbandonExperiment={handleAbandonExperiment}
               glowAnim={glowAnim}
             />
           ))}
@@ -354,6 +406,10 @@ export default function SeedsScreen() {
               onAcknowledge={() => {}}
               onReaction={(reaction) => handleReaction(insight.id, reaction)}
               onFeedback={handleFeedback}
+              experiment={experiments[insight.id]}
+              experimentProgress={experiments[insight.id] && experimentProgress[experiments[insight.id].id]}
+              onStartExperiment={() => handleStartExperiment(insight)}
+              onAbandonExperiment={handleAbandonExperiment}
             />
           ))}
         </View>
@@ -433,6 +489,10 @@ interface InsightCardProps {
   onAcknowledge: () => void;
   onReaction: (reaction: Insight['userReaction']) => void;
   onFeedback: (insight: Insight, feedbackType: FeedbackType) => void;
+  experiment?: Experiment;
+  experimentProgress?: ExperimentProgress;
+  onStartExperiment: () => void;
+  onAbandonExperiment: (experiment: Experiment) => void;
   glowAnim?: Animated.Value;
 }
 
@@ -445,6 +505,10 @@ function InsightCard({
   onAcknowledge,
   onReaction,
   onFeedback,
+  experiment,
+  experimentProgress,
+  onStartExperiment,
+  onAbandonExperiment,
   glowAnim,
 }: InsightCardProps) {
   const [showFeedbackOptions, setShowFeedbackOptions] = useState(false);
@@ -523,6 +587,39 @@ function InsightCard({
                   <Text style={[styles.experimentText, { color: colors.text }]}>
                     {insight.suggestedExperiment}
                   </Text>
+
+                  {!experiment && (
+                    <TouchableOpacity
+                      style={[styles.experimentButton, { backgroundColor: colors.tint }]}
+                      onPress={onStartExperiment}
+                    >
+                      <Text style={styles.experimentButtonText}>Start experiment</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {experiment?.status === 'running' && experimentProgress && (
+                    <View style={styles.experimentStatus}>
+                      <Text style={[styles.experimentText, { color: colors.textSecondary }]}>
+                        {experimentProgress.phase === 'baseline'
+                          ? `Noticing your usual days first: day ${experimentProgress.day} of ${experimentProgress.phaseLength}`
+                          : `Day ${experimentProgress.day} of ${experimentProgress.phaseLength} · done on ${experimentProgress.adherentDays} so far. Tap the 🧪 twig on days you try it.`}
+                      </Text>
+                      <TouchableOpacity onPress={() => onAbandonExperiment(experiment)}>
+                        <Text style={[styles.experimentLink, { color: colors.textMuted }]}>Stop experiment</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+
+                  {experiment?.status === 'complete' && experiment.result && (
+                    <View style={styles.experimentStatus}>
+                      <Text style={[styles.experimentLabel, { color: colors.textMuted }]}>
+                        {VERDICT_VISUALS[experiment.result.verdict].emoji} {VERDICT_VISUALS[experiment.result.verdict].label}
+                      </Text>
+                      <Text style={[styles.experimentText, { color: colors.textSecondary }]}>
+                        {experiment.result.summary}
+                      </Text>
+                    </View>
+                  )}
                 </View>
               </View>
             )}
@@ -867,6 +964,26 @@ const styles = StyleSheet.create({
     fontSize: 13,
     lineHeight: 18,
   },
+  experimentButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    marginTop: 10,
+  },
+  experimentButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  experimentStatus: {
+    marginTop: 10,
+    gap: 4,
+  },
+  experimentLink: {
+    fontSize: 12,
+    textDecorationLine: 'underline',
+  },
   metaRow: {
     flexDirection: 'row',
     gap: 8,
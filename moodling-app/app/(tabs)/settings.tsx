@@ -34,6 +34,11 @@ import {
   checkAdaptiveReminder,
   AdaptiveSuggestion,
 } from '@/services/notificationService';
+import {
+  getSchedulerSettings,
+  updateSchedulerSettings,
+  NotificationSchedulerSettings,
+} from '@/services/notificationSchedulerService';
 import {
   getTonePreferences,
   toggleToneStyle,
@@ -95,6 +100,9 @@ export default function SettingsScreen() {
   // Adaptive reminder state (Unit 14)
   const [adaptiveSuggestion, setAdaptiveSuggestion] = useState<AdaptiveSuggestion | null>(null);
 
+  // Notification scheduler (quiet hours, daily budget, calendar)
+  const [schedulerSettings, setSchedulerSettings] = useState<NotificationSchedulerSettings | null>(null);
+
   // Tone preferences state (Unit 16)
   const [tonePreferences, setTonePreferences] = useState<TonePreferences>({ selectedStyles: ['balanced'] });
   const [showToneOptions, setShowToneOptions] = useState(false);
@@ -143,6 +151,7 @@ export default function SettingsScreen() {
       setReminderHour(settings.hour);
       setReminderMinute(settings.minute);
       setReminderFrequency(settings.frequency);
+      setSchedulerSettings(await getSchedulerSettings());
 
       // Check for adaptive reminder suggestion (Unit 14)
       if (settings.enabled) {
@@ -245,9 +254,19 @@ export default function SettingsScreen() {
   // Accept adaptive suggestion (Unit 14)
   const handleAcceptAdaptive = async () => {
     if (!adaptiveSuggestion) return;
+    if (adaptiveSuggestion.suggestedHour !== undefined) {
+      await handleTimeChange(adaptiveSuggestion.suggestedHour, 0);
+      setAdaptiveSuggestion(null);
+      return;
+    }
     await handleFrequencyChange(adaptiveSuggestion.suggestedFrequency);
   };
 
+  const handleSchedulerChange = async (updates: Partial<NotificationSchedulerSettings>) => {
+    setSchedulerSettings(prev => (prev ? { ...prev, ...updates } : prev));
+    setSchedulerSettings(await updateSchedulerSettings(updates));
+  };
+
   // Get label for current frequency
   const getCurrentFrequencyLabel = () => {
     const option = FREQUENCY_OPTIONS.find(o => o.value === reminderFrequency);
@@ -715,7 +734,9 @@ export default function SettingsScreen() {
                 onPress={handleAcceptAdaptive}
               >
                 <Text style={styles.adaptiveAcceptText}>
-                  Try {FREQUENCY_OPTIONS.find(o => o.value === adaptiveSuggestion.suggestedFrequency)?.label.toLowerCase()}
+                  Try {adaptiveSuggestion.suggestedHour !== undefined
+                    ? formatTime(adaptiveSuggestion.suggestedHour, 0)
+                    : FREQUENCY_OPTIONS.find(o => o.value === adaptiveSuggestion.suggestedFrequency)?.label.toLowerCase()}
                 </Text>
               </TouchableOpacity>
               <TouchableOpacity
@@ -843,6 +864,107 @@ export default function SettingsScreen() {
           </View>
         )}
 
+        {/* Scheduler rules (apply to every reminder, not just check-ins) */}
+        {schedulerSettings && (
+          <View style={styles.timeSection}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={[styles.settingLabel, { color: colors.text }]}>
+                  Quiet hours
+                </Text>
+                <Text style={[styles.settingDescription, { color: colors.textMuted }]}>
+                  {formatTime(schedulerSettings.quietStartHour, 0)} – {formatTime(schedulerSettings.quietEndHour, 0)}. Only timers you start get through.
+                </Text>
+              </View>
+              <Switch
+                value={schedulerSettings.quietHoursEnabled}
+                onValueChange={(value) => handleSchedulerChange({ quietHoursEnabled: value })}
+                trackColor={{ false: colors.border, true: colors.tint }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={[styles.settingLabel, { color: colors.text }]}>
+                  Work around my calendar
+                </Text>
+                <Text style={[styles.settingDescription, { color: colors.textMuted }]}>
+                  Move reminders out of meetings and events
+                </Text>
+              </View>
+              <Switch
+                value={schedulerSettings.avoidCalendarEvents}
+                onValueChange={(value) => handleSchedulerChange({ avoidCalendarEvents: value })}
+                trackColor={{ false: colors.border, true: colors.tint }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={[styles.settingLabel, { color: colors.text }]}>
+                  Event prep & debriefs
+                </Text>
+                <Text style={[styles.settingDescription, { color: colors.textMuted }]}>
+                  A short skill before interviews, appointments and presentations, and a journal prompt after
+                </Text>
+              </View>
+              <Switch
+                value={schedulerSettings.eventCoaching}
+                onValueChange={(value) => handleSchedulerChange({ eventCoaching: value })}
+                trackColor={{ false: colors.border, true: colors.tint }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={[styles.settingLabel, { color: colors.text }]}>
+                  Daily spark
+                </Text>
+                <Text style={[styles.settingDescription, { color: colors.textMuted }]}>
+                  A creative prompt, sent when you tend to be around
+                </Text>
+              </View>
+              <Switch
+                value={schedulerSettings.sparkNudges}
+                onValueChange={(value) => handleSchedulerChange({ sparkNudges: value })}
+                trackColor={{ false: colors.border, true: colors.tint }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+
+            <Text style={[styles.timeLabel, { color: colors.textSecondary }]}>
+              Most reminders per day
+            </Text>
+            <View style={styles.timeOptions}>
+              {[1, 2, 3, 5].map((budget) => (
+                <TouchableOpacity
+                  key={budget}
+                  style={[
+                    styles.timeOption,
+                    {
+                      backgroundColor:
+                        schedulerSettings.dailyBudget === budget ? colors.tint : colors.background,
+                    },
+                  ]}
+                  onPress={() => handleSchedulerChange({ dailyBudget: budget })}
+                >
+                  <Text
+                    style={[
+                      styles.timeOptionText,
+                      { color: schedulerSettings.dailyBudget === budget ? '#FFFFFF' : colors.text },
+                    ]}
+                  >
+                    {budget}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Test Notification */}
         {reminderEnabled && (
           <TouchableOpacity
@@ -1313,6 +1435,38 @@ export default function SettingsScreen() {
           <Text style={[styles.faqArrow, { color: colors.textMuted }]}>→</Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[styles.faqItem, { backgroundColor: colors.background }]}
+          onPress={() => router.push('/admin/memory-viewer')}
+        >
+          <Text style={styles.faqEmoji}>🧠</Text>
+          <View style={styles.faqContent}>
+            <Text style={[styles.faqTitle, { color: colors.text }]}>
+              Coach Memory
+            </Text>
+            <Text style={[styles.faqSubtitle, { color: colors.textSecondary }]}>
+              See, correct or forget what your coach learned
+            </Text>
+          </View>
+          <Text style={[styles.faqArrow, { color: colors.textMuted }]}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.faqItem, { backgroundColor: colors.background }]}
+          onPress={() => router.push('/settings/pattern-detection')}
+        >
+          <Text style={styles.faqEmoji}>🔍</Text>
+          <View style={styles.faqContent}>
+            <Text style={[styles.faqTitle, { color: colors.text }]}>
+              Pattern Detection
+            </Text>
+            <Text style={[styles.faqSubtitle, { color: colors.textSecondary }]}>
+              Choose frameworks and tune the phrases they look for
+            </Text>
+          </View>
+          <Text style={[styles.faqArrow, { color: colors.textMuted }]}>→</Text>
+        </TouchableOpacity>
+
         <Text style={[styles.coachNote, { color: colors.textMuted }]}>
           Toggle individual data sources on or off to control what your AI coach knows about you.
         </Text>
@@ -1532,6 +1686,38 @@ export default function SettingsScreen() {
         <Text style={[styles.privacyDetail, { color: colors.textMuted }]}>
           Journal entries and patterns stay on-device. Only coaching chat messages are sent to Claude's API (if enabled), and they are not stored by Anthropic.
         </Text>
+
+        <TouchableOpacity
+          style={[styles.faqItem, { backgroundColor: colors.background }]}
+          onPress={() => router.push('/settings/encryption')}
+        >
+          <Text style={styles.faqEmoji}>🔐</Text>
+          <View style={styles.faqContent}>
+            <Text style={[styles.faqTitle, { color: colors.text }]}>
+              Encryption & PIN
+            </Text>
+            <Text style={[styles.faqSubtitle, { color: colors.textSecondary }]}>
+              Encrypted journal and profile data, optional PIN
+            </Text>
+          </View>
+          <Text style={[styles.faqArrow, { color: colors.textMuted }]}>→</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.faqItem, { backgroundColor: colors.background }]}
+          onPress={() => router.push('/settings/app-lock')}
+        >
+          <Text style={styles.faqEmoji}>🔒</Text>
+          <View style={styles.faqContent}>
+            <Text style={[styles.faqTitle, { color: colors.text }]}>
+              App Lock
+            </Text>
+            <Text style={[styles.faqSubtitle, { color: colors.textSecondary }]}>
+              PIN lock, auto-lock, privacy screen, duress PIN
+            </Text>
+          </View>
+          <Text style={[styles.faqArrow, { color: colors.textMuted }]}>→</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Developer Tools Section */}
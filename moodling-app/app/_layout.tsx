@@ -8,6 +8,16 @@ import {
 } from 'react-native';
 import { Colors } from '@/constants/Colors';
 import { isOnboardingComplete } from '@/services/coachPersonalityService';
+import { initNotificationScheduler, onNotificationOpened } from '@/services/notificationSchedulerService';
+import '@/services/notificationSources';
+import { initEncryptedStorage } from '@/services/encryptedStorage';
+import {
+  AppLockState,
+  initAppLock,
+  getAppLockState,
+  subscribeAppLock,
+  noteAppLockActivity,
+} from '@/services/appLockService';
 import {
   nextStep,
   skipTour,
@@ -21,6 +31,8 @@ import {
   subscribeToTargets,
   SpotlightTarget,
 } from '@/components/TourSpotlight';
+import { StorageUnlockScreen } from '@/components/StorageUnlockScreen';
+import { AppLockScreen, PrivacyCover } from '@/components/AppLockScreen';
 
 /**
  * Mood Leaf Root Layout
@@ -36,6 +48,10 @@ export default function RootLayout() {
   const segments = useSegments();
   const [isLoading, setIsLoading] = useState(true);
   const [needsOnboarding, setNeedsOnboarding] = useState(false);
+  const [storageLocked, setStorageLocked] = useState(false);
+  const [appLock, setAppLock] = useState<AppLockState>(getAppLockState());
+  // The navigator mounts after the first unlock, once decoy mode is decided
+  const [navigatorReady, setNavigatorReady] = useState(false);
 
   // Tour state - polled from tour service
   const [tourActive, setTourActive] = useState(false);
@@ -47,6 +63,34 @@ export default function RootLayout() {
     checkOnboarding();
   }, []);
 
+  // PIN lock, auto-lock and privacy cover
+  useEffect(() => subscribeAppLock(setAppLock), []);
+
+  useEffect(() => {
+    if (!isLoading && !storageLocked && !appLock.locked) setNavigatorReady(true);
+  }, [isLoading, storageLocked, appLock.locked]);
+
+  // Plan reminders (quiet hours, daily budget, calendar) and replan on foreground
+  useEffect(() => {
+    initNotificationScheduler().catch(error =>
+      console.error('Failed to start notification scheduler:', error)
+    );
+  }, []);
+
+  // Event coaching taps open the prep skill or a debrief journal prompt
+  useEffect(() => {
+    return onNotificationOpened(data => {
+      if (data.type === 'event_prep' && data.skillId) {
+        router.push({ pathname: '/skills/[id]', params: { id: data.skillId } });
+      } else if (data.type === 'event_debrief') {
+        router.push({
+          pathname: '/(tabs)',
+          params: { journalPrompt: data.prompt, eventKey: data.eventKey },
+        });
+      }
+    });
+  }, []);
+
   // Subscribe to tour state changes (event-based, not polling)
   useEffect(() => {
     const unsubscribe = subscribeTourState((state, step) => {
@@ -111,6 +155,13 @@ export default function RootLayout() {
 
   const checkOnboarding = async () => {
     try {
+      // Encrypted storage: load the key (or wait for the PIN) and migrate plaintext
+      const storage = await initEncryptedStorage();
+      setStorageLocked(storage.locked);
+
+      // Lock at every launch so the duress PIN works from a cold start
+      await initAppLock();
+
       const complete = await isOnboardingComplete();
       setNeedsOnboarding(!complete);
     } catch (error) {
@@ -136,10 +187,26 @@ export default function RootLayout() {
     );
   }
 
+  if (storageLocked) {
+    return <StorageUnlockScreen onUnlocked={() => setStorageLocked(false)} />;
+  }
+
+  // Nothing behind the first lock screen reads real journal data
+  if (!navigatorReady) {
+    return (
+      <View style={{ flex: 1, backgroundColor: colors.background }}>
+        <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+        {appLock.locked && <AppLockScreen />}
+      </View>
+    );
+  }
+
   return (
-    <>
+    <View style={{ flex: 1 }} onTouchStart={noteAppLockActivity}>
       <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      {/* Keyed on decoy mode so every screen remounts and re-reads its data */}
       <Stack
+        key={appLock.decoy ? 'decoy' : 'journal'}
         screenOptions={{
           headerStyle: {
             backgroundColor: colors.background,
@@ -199,6 +266,22 @@ export default function RootLayout() {
             presentation: 'card',
           }}
         />
+        <Stack.Screen
+          name="reports/index"
+          options={{
+            title: 'Reviews',
+            headerShown: false,
+            presentation: 'card',
+          }}
+        />
+        <Stack.Screen
+          name="patterns/index"
+          options={{
+            title: 'Patterns Over Time',
+            headerShown: false,
+            presentation: 'card',
+          }}
+        />
         <Stack.Screen
           name="settings/food"
           options={{
@@ -214,6 +297,27 @@ export default function RootLayout() {
             presentation: 'card',
           }}
         />
+        <Stack.Screen
+          name="settings/encryption"
+          options={{
+            title: 'Encryption & PIN',
+            presentation: 'card',
+          }}
+        />
+        <Stack.Screen
+          name="settings/app-lock"
+          options={{
+            title: 'App Lock',
+            presentation: 'card',
+          }}
+        />
+        <Stack.Screen
+          name="settings/pattern-detection"
+          options={{
+            title: 'Pattern Detection',
+            presentation: 'card',
+          }}
+        />
       </Stack>
 
       {/* Guided Tour Spotlight - at root level so it persists across navigation */}
@@ -227,6 +331,9 @@ export default function RootLayout() {
         onNext={handleTourNext}
         onSkip={handleSkipTour}
       />
-    </>
+
+      {appLock.locked && <AppLockScreen />}
+      {appLock.obscured && !appLock.locked && <PrivacyCover />}
+    </View>
   );
 }
@@ -34,6 +34,7 @@ const SOURCE_COLORS: Record<string, string> = {
   mood_patterns: '#2196F3',
   journal_entries: '#9C27B0',
   memory_tiers: '#FF9800',
+  memory_retrieval: '#FFB74D',
   health_metrics: '#E91E63',
   calendar: '#00BCD4',
   cbt_progress: '#8BC34A',
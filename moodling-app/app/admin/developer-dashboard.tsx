@@ -639,6 +639,13 @@ export default function DeveloperDashboard() {
             >
               <Text style={styles.linkButtonText}>View Coach Memories</Text>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.linkButton, { backgroundColor: '#FF9800', marginTop: 8 }]}
+              onPress={() => router.push('/admin/prompt-assembly')}
+            >
+              <Text style={styles.linkButtonText}>View Prompt Assembly</Text>
+            </TouchableOpacity>
           </View>
         )}
 
@@ -3,6 +3,8 @@
  *
  * Shows what the coach "remembers" about you from past to present.
  * Displays all memory tiers: short-term, mid-term, and long-term.
+ * Long-term facts show where they came from and can be corrected or
+ * forgotten (forgotten facts aren't learned again).
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -15,21 +17,24 @@ import {
   useColorScheme,
   RefreshControl,
   ActivityIndicator,
+  TextInput,
+  Alert,
 } from 'react-native';
 import { Stack } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Colors } from '@/constants/Colors';
 import {
-  getCurrentSession,
-  getMidTermMemories,
-  getLongTermMemory,
   getFullMemoryState,
-  ShortTermMemory,
-  MidTermMemory,
-  LongTermMemory,
+  getMemoryFacts,
+  getForgottenFacts,
+  updateMemoryFact,
+  forgetMemoryFact,
+  unforgetMemoryFact,
+  MemoryFact,
+  ForgottenFact,
 } from '@/services/memoryTierService';
-import { getRecentJournalContextForClaude, getAllEntries } from '@/services/journalStorage';
-import { getLifeContextForClaude, getLifeContext } from '@/services/lifeContextService';
+import { getRecentJournalContextForClaude } from '@/services/journalStorage';
+import { getLifeContextForClaude } from '@/services/lifeContextService';
 import { getCognitiveProfileContextForLLM } from '@/services/cognitiveProfileService';
 import { getContextForClaude } from '@/services/userContextService';
 
@@ -41,6 +46,44 @@ interface MemoryItem {
   tags?: string[];
 }
 
+const FACT_KIND_LABELS: Record<MemoryFact['kind'], string> = {
+  relationship: 'Person',
+  life_event: 'Life event',
+  trigger: 'Trigger',
+  calming_factor: 'What helps',
+  sensitivity: 'Handle carefully',
+};
+
+const SOURCE_LABELS: Record<MemoryFact['provenance']['source'], string> = {
+  session: 'conversation',
+  journal: 'journal entry',
+  user: 'you',
+  unknown: 'earlier memory',
+};
+
+/**
+ * "From 2 conversations · learned Oct 12 · 70% sure"
+ */
+function describeProvenance(fact: MemoryFact): string {
+  const p = fact.provenance;
+  const learned = new Date(p.learnedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const parts: string[] = [];
+
+  if (p.source === 'user') {
+    parts.push('Added by you');
+  } else if (p.sourceIds.length > 0) {
+    const label = SOURCE_LABELS[p.source];
+    parts.push(`From ${p.sourceIds.length} ${label}${p.sourceIds.length === 1 ? '' : 's'}`);
+  } else {
+    parts.push(`From ${SOURCE_LABELS[p.source]}`);
+  }
+  parts.push(`learned ${learned}`);
+  parts.push(p.editedAt ? 'edited by you' : `${Math.round(p.confidence * 100)}% sure`);
+  if (p.timesSeen > 1) parts.push(`seen ${p.timesSeen}×`);
+
+  return parts.join(' · ');
+}
+
 interface MemorySection {
   title: string;
   subtitle: string;
@@ -61,7 +104,7 @@ export default function MemoryViewer() {
   const [sections, setSections] = useState<Record<string, MemorySection>>({
     shortTerm: {
       title: 'Short-Term Memory',
-      subtitle: 'Recent conversations (last hour)',
+      subtitle: 'This conversation',
       data: null,
       items: [],
       expanded: true,
@@ -70,7 +113,7 @@ export default function MemoryViewer() {
     },
     midTerm: {
       title: 'Mid-Term Memory',
-      subtitle: 'Recent patterns (last 24 hours)',
+      subtitle: 'Weekly summaries',
       data: null,
       items: [],
       expanded: false,
@@ -79,7 +122,7 @@ export default function MemoryViewer() {
     },
     longTerm: {
       title: 'Long-Term Memory',
-      subtitle: 'Core knowledge about you',
+      subtitle: 'Facts about you - tap to correct or forget',
       data: null,
       items: [],
       expanded: false,
@@ -120,6 +163,11 @@ export default function MemoryViewer() {
     },
   });
 
+  const [facts, setFacts] = useState<MemoryFact[]>([]);
+  const [forgotten, setForgotten] = useState<ForgottenFact[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
   const [stats, setStats] = useState<{
     shortTermCount: number;
     midTermCount: number;
@@ -139,51 +187,27 @@ export default function MemoryViewer() {
             id: `short_${idx}`,
             content: `${msg.role}: ${msg.content}`,
             timestamp: memState.shortTerm!.startTime,
-            tags: memState.shortTerm!.topics,
+            tags: memState.shortTerm!.topicsDiscussed,
           }))
         : [];
 
       // Convert mid-term memories to items
-      const midTermItems: MemoryItem[] = memState.midTerm.map((mem, idx) => ({
-        id: mem.id || `mid_${idx}`,
+      const midTermItems: MemoryItem[] = memState.midTerm.map(mem => ({
+        id: mem.weekId,
         content: mem.summary,
-        timestamp: mem.compressedAt,
-        importance: mem.importance,
-        tags: mem.topics,
+        timestamp: mem.endDate,
+        tags: mem.themes,
       }));
 
-      // Convert long-term memory to items
-      const longTermItems: MemoryItem[] = [];
-      if (memState.longTerm.coreTraits?.length > 0) {
-        longTermItems.push({
-          id: 'traits',
-          content: `Core Traits: ${memState.longTerm.coreTraits.join(', ')}`,
-          timestamp: new Date().toISOString(),
-        });
-      }
-      if (memState.longTerm.triggers?.length > 0) {
-        longTermItems.push({
-          id: 'triggers',
-          content: `Triggers: ${memState.longTerm.triggers.join(', ')}`,
-          timestamp: new Date().toISOString(),
-        });
-      }
-      if (memState.longTerm.calmingFactors?.length > 0) {
-        longTermItems.push({
-          id: 'calming',
-          content: `Calming Factors: ${memState.longTerm.calmingFactors.join(', ')}`,
-          timestamp: new Date().toISOString(),
-        });
-      }
-      if (memState.longTerm.relationships?.length > 0) {
-        memState.longTerm.relationships.forEach((rel, idx) => {
-          longTermItems.push({
-            id: `rel_${idx}`,
-            content: `${rel.name} (${rel.relationship}): ${rel.notes || 'No notes'}`,
-            timestamp: rel.lastMentioned || new Date().toISOString(),
-          });
-        });
-      }
+      // Long-term facts (rendered with provenance and edit controls)
+      const [longTermFacts, forgottenFacts] = await Promise.all([getMemoryFacts(), getForgottenFacts()]);
+      setFacts(longTermFacts);
+      setForgotten(forgottenFacts);
+      const longTermItems: MemoryItem[] = longTermFacts.map(fact => ({
+        id: fact.id,
+        content: fact.text,
+        timestamp: fact.provenance.lastSeenAt,
+      }));
 
       // Calculate stats
       const memStats = {
@@ -260,6 +284,41 @@ export default function MemoryViewer() {
     }));
   };
 
+  const startEditing = (fact: MemoryFact) => {
+    setEditingId(fact.id);
+    setEditText(fact.text);
+  };
+
+  const saveEdit = async () => {
+    if (!editingId) return;
+    await updateMemoryFact(editingId, editText);
+    setEditingId(null);
+    await loadMemories();
+  };
+
+  const confirmForget = (fact: MemoryFact) => {
+    Alert.alert(
+      'Forget this?',
+      `"${fact.text}" will be removed and your coach won't learn it again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: async () => {
+            await forgetMemoryFact(fact.id);
+            await loadMemories();
+          },
+        },
+      ]
+    );
+  };
+
+  const allowAgain = async (fact: ForgottenFact) => {
+    await unforgetMemoryFact(fact.id);
+    await loadMemories();
+  };
+
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -314,6 +373,84 @@ export default function MemoryViewer() {
     ));
   };
 
+  const renderFacts = (color: string) => {
+    if (facts.length === 0 && forgotten.length === 0) {
+      return (
+        <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+          No lasting facts yet. Your coach picks these up from weekly summaries.
+        </Text>
+      );
+    }
+
+    return (
+      <>
+        {facts.map(fact => (
+          <View key={fact.id} style={[styles.memoryItem, { borderLeftColor: color }]}>
+            <View style={styles.memoryHeader}>
+              <Text style={[styles.factKind, { color }]}>{FACT_KIND_LABELS[fact.kind]}</Text>
+              {fact.detail && (
+                <Text style={[styles.memoryTime, { color: colors.textSecondary }]}>{fact.detail}</Text>
+              )}
+            </View>
+
+            {editingId === fact.id ? (
+              <>
+                <TextInput
+                  style={[styles.factInput, { color: colors.text, borderColor: color + '60' }]}
+                  value={editText}
+                  onChangeText={setEditText}
+                  autoFocus
+                  onSubmitEditing={saveEdit}
+                />
+                <View style={styles.factActions}>
+                  <TouchableOpacity onPress={() => setEditingId(null)}>
+                    <Text style={[styles.factAction, { color: colors.textSecondary }]}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={saveEdit}>
+                    <Text style={[styles.factAction, { color }]}>Save</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : (
+              <>
+                <Text style={[styles.memoryContent, { color: colors.text }]}>{fact.text}</Text>
+                <Text style={[styles.provenanceText, { color: colors.textSecondary }]}>
+                  {describeProvenance(fact)}
+                </Text>
+                <View style={styles.factActions}>
+                  <TouchableOpacity onPress={() => startEditing(fact)}>
+                    <Text style={[styles.factAction, { color }]}>Edit</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => confirmForget(fact)}>
+                    <Text style={[styles.factAction, { color: '#F44336' }]}>Forget</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </View>
+        ))}
+
+        {forgotten.length > 0 && (
+          <View style={styles.forgottenBlock}>
+            <Text style={[styles.forgottenTitle, { color: colors.textSecondary }]}>
+              Forgotten ({forgotten.length}) - won't be learned again
+            </Text>
+            {forgotten.map(fact => (
+              <View key={fact.id} style={styles.forgottenRow}>
+                <Text style={[styles.forgottenText, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {FACT_KIND_LABELS[fact.kind]}: {fact.text}
+                </Text>
+                <TouchableOpacity onPress={() => allowAgain(fact)}>
+                  <Text style={[styles.factAction, { color }]}>Allow again</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+      </>
+    );
+  };
+
   const renderContextData = (data: string | null, color: string) => {
     if (!data) {
       return (
@@ -347,7 +484,7 @@ export default function MemoryViewer() {
     <>
       <Stack.Screen
         options={{
-          title: 'Coach Memory Viewer',
+          title: 'Coach Memory',
           headerShown: true,
         }}
       />
@@ -393,8 +530,9 @@ export default function MemoryViewer() {
         <View style={[styles.infoCard, { backgroundColor: colors.card }]}>
           <Text style={styles.infoIcon}>🧠</Text>
           <Text style={[styles.infoText, { color: colors.textSecondary }]}>
-            This shows what your coach "remembers" about you. Short-term fades after an hour,
-            mid-term after a day. Important things move to long-term memory permanently.
+            This shows what your coach "remembers" about you. Conversations are summarized
+            weekly, and lasting facts move to long-term memory. Correct anything that's wrong,
+            or forget it - you can also type /forget in chat.
           </Text>
         </View>
 
@@ -421,8 +559,10 @@ export default function MemoryViewer() {
 
             {section.expanded && (
               <View style={styles.sectionContent}>
-                {section.items ? (
-                  renderMemoryItems(section.items as MemoryEntry[], section.color)
+                {key === 'longTerm' ? (
+                  renderFacts(section.color)
+                ) : section.items ? (
+                  renderMemoryItems(section.items, section.color)
                 ) : (
                   renderContextData(section.data, section.color)
                 )}
@@ -576,6 +716,54 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '500',
   },
+  factKind: {
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  provenanceText: {
+    fontSize: 11,
+    marginTop: 4,
+  },
+  factActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 6,
+  },
+  factAction: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  factInput: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 13,
+  },
+  forgottenBlock: {
+    marginTop: 8,
+    paddingTop: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#9E9E9E40',
+  },
+  forgottenTitle: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  forgottenRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  forgottenText: {
+    flex: 1,
+    fontSize: 12,
+  },
   contextBox: {
     padding: 12,
     borderRadius: 8,
@@ -0,0 +1,300 @@
+/**
+ * Prompt Assembly Viewer (Developer Tool)
+ *
+ * Shows, per coach message, which context sections made it into the
+ * prompt and which were truncated or dropped to fit the token budget.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  useColorScheme,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Colors } from '@/constants/Colors';
+import {
+  getAssemblyReports,
+  clearAssemblyReports,
+  PromptAssemblyReport,
+  ContextSectionStatus,
+} from '@/services/promptAssemblyService';
+
+const STATUS_COLORS: Record<ContextSectionStatus, string> = {
+  included: '#4CAF50',
+  truncated: '#FF9800',
+  dropped: '#F44336',
+  skipped: '#E57373',
+  empty: '#9E9E9E',
+  unavailable: '#9E9E9E',
+  failed: '#B71C1C',
+};
+
+export default function PromptAssemblyViewer() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const insets = useSafeAreaInsets();
+
+  const [reports, setReports] = useState<PromptAssemblyReport[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showEmpty, setShowEmpty] = useState(false);
+
+  const loadReports = useCallback(async () => {
+    const loaded = await getAssemblyReports();
+    setReports(loaded);
+    if (loaded.length > 0) {
+      setExpandedId(prev => prev ?? loaded[0].id);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const handleClear = async () => {
+    await clearAssemblyReports();
+    setReports([]);
+    setExpandedId(null);
+  };
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Prompt Assembly',
+          headerShown: true,
+        }}
+      />
+      <ScrollView
+        style={[styles.container, { backgroundColor: colors.background }]}
+        contentContainerStyle={{ paddingBottom: insets.bottom + 20 }}
+      >
+        {/* Controls */}
+        <View style={[styles.controlsCard, { backgroundColor: colors.card }]}>
+          <TouchableOpacity
+            style={[styles.controlButton, { backgroundColor: colors.tint }]}
+            onPress={loadReports}
+          >
+            <Text style={styles.controlButtonText}>Refresh</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.controlButton, { backgroundColor: showEmpty ? colors.tint : colors.border }]}
+            onPress={() => setShowEmpty(!showEmpty)}
+          >
+            <Text style={[styles.controlButtonText, { color: showEmpty ? '#fff' : colors.textSecondary }]}>
+              Show empty
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.controlButton, { backgroundColor: '#F44336' }]}
+            onPress={handleClear}
+          >
+            <Text style={styles.controlButtonText}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+
+        {reports.length === 0 ? (
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+            No prompts assembled yet. Send your coach a message.
+          </Text>
+        ) : (
+          reports.map(report => {
+            const expanded = expandedId === report.id;
+            const sections = report.sections.filter(s =>
+              showEmpty || (s.status !== 'empty' && s.status !== 'unavailable')
+            );
+            const trimmed = report.sections.filter(s =>
+              s.status === 'dropped' || s.status === 'skipped' || s.status === 'truncated'
+            ).length;
+            const usage = report.budgetTokens > 0
+              ? Math.min(1, report.usedTokens / report.budgetTokens)
+              : 1;
+
+            return (
+              <View key={report.id} style={[styles.reportCard, { backgroundColor: colors.card }]}>
+                <TouchableOpacity onPress={() => setExpandedId(expanded ? null : report.id)}>
+                  <Text style={[styles.reportTime, { color: colors.textSecondary }]}>
+                    {formatTime(report.timestamp)}
+                    {report.limitingProvider ? ` · window: ${report.limitingProvider}` : ''}
+                  </Text>
+                  <Text style={[styles.reportMessage, { color: colors.text }]} numberOfLines={1}>
+                    "{report.messagePreview}"
+                  </Text>
+                  <View style={[styles.budgetBar, { backgroundColor: colors.border }]}>
+                    <View
+                      style={[
+                        styles.budgetFill,
+                        {
+                          width: `${Math.round(usage * 100)}%`,
+                          backgroundColor: trimmed > 0 ? '#FF9800' : '#4CAF50',
+                        },
+                      ]}
+                    />
+                  </View>
+                  <Text style={[styles.budgetText, { color: colors.textSecondary }]}>
+                    {report.usedTokens} / {report.budgetTokens} tokens
+                    {trimmed > 0 ? ` · ${trimmed} trimmed` : ''}
+                  </Text>
+                </TouchableOpacity>
+
+                {expanded && (
+                  <View style={styles.sectionList}>
+                    {sections.map(section => (
+                      <View
+                        key={section.id}
+                        style={[styles.sectionRow, { borderLeftColor: STATUS_COLORS[section.status] }]}
+                      >
+                        <View style={styles.sectionHeader}>
+                          <Text style={[styles.sectionName, { color: colors.text }]} numberOfLines={1}>
+                            {section.name}
+                          </Text>
+                          <Text style={[styles.sectionStatus, { color: STATUS_COLORS[section.status] }]}>
+                            {section.status}
+                          </Text>
+                        </View>
+                        <Text style={[styles.sectionMeta, { color: colors.textSecondary }]}>
+                          score {section.score} · est {section.estimatedTokens} · got {section.tokens}
+                          {section.includedTokens > 0 ? ` · used ${section.includedTokens}` : ''}
+                        </Text>
+                        {section.error && (
+                          <Text style={[styles.sectionMeta, { color: '#F44336' }]} numberOfLines={2}>
+                            {section.error}
+                          </Text>
+                        )}
+                      </View>
+                    ))}
+                  </View>
+                )}
+              </View>
+            );
+          })
+        )}
+
+        {/* Developer Note */}
+        <View style={[styles.noteCard, { backgroundColor: colors.card }]}>
+          <Text style={styles.noteIcon}>🔧</Text>
+          <Text style={[styles.noteText, { color: colors.textSecondary }]}>
+            Developer Tool: Sections are ranked by priority × relevance to the message.
+            Skipped sections were never fetched because their size estimate didn't fit;
+            dropped ones were fetched but came in larger than the space left.
+          </Text>
+        </View>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  controlsCard: {
+    margin: 16,
+    marginBottom: 8,
+    padding: 14,
+    borderRadius: 12,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  controlButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  controlButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  reportCard: {
+    marginHorizontal: 16,
+    marginVertical: 6,
+    padding: 14,
+    borderRadius: 12,
+  },
+  reportTime: {
+    fontSize: 11,
+    marginBottom: 4,
+  },
+  reportMessage: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  budgetBar: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  budgetFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  budgetText: {
+    fontSize: 11,
+    marginTop: 4,
+  },
+  sectionList: {
+    marginTop: 12,
+    gap: 6,
+  },
+  sectionRow: {
+    borderLeftWidth: 3,
+    paddingLeft: 8,
+    paddingVertical: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionName: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  sectionStatus: {
+    fontSize: 11,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+  sectionMeta: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  noteCard: {
+    margin: 16,
+    padding: 14,
+    borderRadius: 12,
+    flexDirection: 'row',
+    gap: 10,
+  },
+  noteIcon: {
+    fontSize: 18,
+  },
+  noteText: {
+    flex: 1,
+    fontSize: 12,
+    lineHeight: 18,
+  },
+});
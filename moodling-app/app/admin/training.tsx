@@ -5,6 +5,7 @@
  * - Import interview insights
  * - Browse and manage insights
  * - View training readiness
+ * - Train and check the local human-ness scorer
  * - Export training data
  */
 
@@ -46,6 +47,11 @@ import {
   SOURCE_TYPES,
   CONFIDENCE_LEVELS,
 } from '@/services/trainingDataService';
+import {
+  getLocalScorerStatus,
+  trainLocalScorer,
+  LocalScorerStatus,
+} from '@/services/humanScoreService';
 
 type Tab = 'dashboard' | 'import' | 'insights' | 'export';
 
@@ -59,6 +65,8 @@ export default function TrainingAdminScreen() {
 
   // Dashboard state
   const [readiness, setReadiness] = useState<TrainingReadiness | null>(null);
+  const [scorer, setScorer] = useState<LocalScorerStatus | null>(null);
+  const [scorerTraining, setScorerTraining] = useState(false);
 
   // Import state
   const [importMode, setImportMode] = useState<'single' | 'batch'>('single');
@@ -87,12 +95,14 @@ export default function TrainingAdminScreen() {
   const loadData = useCallback(async () => {
     setLoading(true);
     try {
-      const [readinessData, insightsData] = await Promise.all([
+      const [readinessData, insightsData, scorerData] = await Promise.all([
         getTrainingReadiness(),
         getAllInsights(),
+        getLocalScorerStatus(),
       ]);
       setReadiness(readinessData);
       setInsights(insightsData);
+      setScorer(scorerData);
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
@@ -256,6 +266,18 @@ export default function TrainingAdminScreen() {
     }
   };
 
+  // Train the local scorer now
+  const handleTrainScorer = async () => {
+    setScorerTraining(true);
+    const result = await trainLocalScorer();
+    setScorerTraining(false);
+    if (!result.success) {
+      Alert.alert('Not trained', result.error);
+      return;
+    }
+    await loadData();
+  };
+
   // Dashboard tab
   const renderDashboard = () => {
     if (!readiness) return null;
@@ -333,6 +355,63 @@ export default function TrainingAdminScreen() {
           ))}
         </View>
 
+        {/* Local scorer */}
+        {scorer && (
+          <View style={[styles.card, { backgroundColor: colors.card }]}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Local Scorer</Text>
+            <Text style={[styles.phaseDesc, { color: colors.textSecondary }]}>
+              {scorer.mode === 'local'
+                ? 'Scoring locally; Claude audits a sample'
+                : scorer.model
+                  ? `Claude scoring until agreement reaches ${Math.round(scorer.threshold * 100)}%`
+                  : 'No model trained yet'}
+            </Text>
+            {scorer.model && (
+              <>
+                <View style={styles.statsGrid}>
+                  <StatItem
+                    label={`Agreement (v${scorer.model.version})`}
+                    value={Math.round(scorer.model.crossValidation.agreement * 100)}
+                    colors={colors}
+                  />
+                  <StatItem
+                    label="Training examples"
+                    value={scorer.model.examples}
+                    colors={colors}
+                  />
+                </View>
+                {Object.entries(scorer.model.crossValidation.targets).map(([target, accuracy]) => (
+                  <View key={target} style={styles.reqHeader}>
+                    <Text style={[styles.reqName, { color: colors.text }]}>{target}</Text>
+                    <Text style={[styles.reqName, { color: colors.textSecondary }]}>
+                      ±{accuracy.mae.toFixed(1)} · {Math.round(accuracy.agreement * 100)}%
+                    </Text>
+                  </View>
+                ))}
+                {scorer.audits.count > 0 && (
+                  <Text style={[styles.phaseDesc, { color: colors.textSecondary }]}>
+                    Live audits: {Math.round(scorer.audits.agreement * 100)}% agree over {scorer.audits.count}
+                  </Text>
+                )}
+              </>
+            )}
+            <Pressable
+              style={[
+                styles.primaryButton,
+                { backgroundColor: colors.tint, opacity: scorerTraining ? 0.6 : 1 }
+              ]}
+              onPress={handleTrainScorer}
+              disabled={scorerTraining}
+            >
+              {scorerTraining ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Train Now</Text>
+              )}
+            </Pressable>
+          </View>
+        )}
+
         {/* Next milestone */}
         <View style={[styles.card, { backgroundColor: colors.cardBackground }]}>
           <Text style={[styles.cardTitle, { color: colors.text }]}>Next Milestone</Text>
@@ -1,9 +1,10 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   StyleSheet,
   Text,
   View,
   FlatList,
+  TextInput,
   TouchableOpacity,
   useColorScheme,
   RefreshControl,
@@ -12,7 +13,8 @@ import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
 import { JournalEntry } from '@/types/JournalEntry';
-import { getAllEntries } from '@/services/journalStorage';
+import { getEntriesPage } from '@/services/journalStorage';
+import { searchEntries, SearchResult } from '@/services/journalSearchService';
 
 /**
  * History Screen - View All Journal Entries
@@ -23,21 +25,35 @@ import { getAllEntries } from '@/services/journalStorage';
  * - Easy to review past entries
  *
  * Unit 3: Scrollable list, tap to view detail
+ * Entries load a page at a time from the journal index
+ * Search bar runs on-device full-text search (supports "phrases",
+ * prefix*, mood:, tag:, after: and before: filters)
  */
 
+const PAGE_SIZE = 30;
+const SEARCH_DEBOUNCE_MS = 250;
+
 export default function HistoryScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const router = useRouter();
 
   const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const loadEntries = useCallback(async () => {
     try {
-      const stored = await getAllEntries();
-      setEntries(stored);
+      const page = await getEntriesPage({ limit: PAGE_SIZE });
+      setEntries(page.entries);
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.total);
     } catch (error) {
       console.error('Failed to load entries:', error);
     } finally {
@@ -46,10 +62,45 @@ export default function HistoryScreen() {
     }
   }, []);
 
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await getEntriesPage({ cursor: nextCursor, limit: PAGE_SIZE });
+      setEntries((prev) => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.total);
+    } catch (error) {
+      console.error('Failed to load more entries:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
   useEffect(() => {
     loadEntries();
   }, [loadEntries]);
 
+  useEffect(() => {
+    if (searchTimer.current) clearTimeout(searchTimer.current);
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+    searchTimer.current = setTimeout(async () => {
+      const results = await searchEntries(query, { limit: 50 });
+      setSearchResults(results);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      if (searchTimer.current) clearTimeout(searchTimer.current);
+    };
+  }, [searchQuery]);
+
+  const isSearching = searchResults !== null;
+  const snippets = new Map((searchResults || []).map((r) => [r.entryId, r.snippet]));
+  const listData = isSearching ? searchResults.map((r) => r.entry) : entries;
+
   const handleRefresh = () => {
     setIsRefreshing(true);
     loadEntries();
@@ -92,7 +143,7 @@ export default function HistoryScreen() {
         </Text>
       </View>
       <Text style={[styles.entryText, { color: colors.text }]}>
-        {truncateText(item.text)}
+        {snippets.get(item.id) ?? truncateText(item.text)}
       </Text>
       <View style={styles.entryMeta}>
         <Text style={[styles.entryChars, { color: colors.textMuted }]}>
@@ -102,7 +153,16 @@ export default function HistoryScreen() {
     </TouchableOpacity>
   );
 
-  const renderEmpty = () => (
+  const renderEmpty = () => isSearching ? (
+    <View style={styles.emptyContainer}>
+      <Text style={[styles.emptyText, { color: colors.textMuted }]}>
+        No matches
+      </Text>
+      <Text style={[styles.emptySubtext, { color: colors.textMuted }]}>
+        Try fewer words, a prefix like anx*, or remove a filter
+      </Text>
+    </View>
+  ) : (
     <View style={styles.emptyContainer}>
       <Text style={[styles.emptyText, { color: colors.textMuted }]}>
         No entries yet
@@ -126,19 +186,43 @@ export default function HistoryScreen() {
         <Text style={[styles.title, { color: colors.text }]}>Your Entries</Text>
         <View style={styles.headerRight}>
           <Text style={[styles.entryCount, { color: colors.textMuted }]}>
-            {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+            {isSearching
+              ? `${listData.length} ${listData.length === 1 ? 'match' : 'matches'}`
+              : `${totalCount} ${totalCount === 1 ? 'entry' : 'entries'}`}
           </Text>
         </View>
       </View>
 
+      {/* Search */}
+      <View style={[styles.searchBar, { backgroundColor: colors.card, borderColor: colors.border }]}>
+        <Ionicons name="search" size={18} color={colors.textMuted} />
+        <TextInput
+          style={[styles.searchInput, { color: colors.text }]}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholder='Search entries, "phrases", mood:, tag:'
+          placeholderTextColor={colors.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {searchQuery.length > 0 && (
+          <TouchableOpacity onPress={() => setSearchQuery('')}>
+            <Ionicons name="close-circle" size={18} color={colors.textMuted} />
+          </TouchableOpacity>
+        )}
+      </View>
+
       {/* Entry List */}
       <FlatList
-        data={entries}
+        data={listData}
         renderItem={renderEntry}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
         ListEmptyComponent={!isLoading ? renderEmpty : null}
+        onEndReached={isSearching ? undefined : loadMore}
+        onEndReachedThreshold={0.5}
         refreshControl={
           <RefreshControl
             refreshing={isRefreshing}
@@ -185,6 +269,21 @@ const styles = StyleSheet.create({
   entryCount: {
     fontSize: 14,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 10,
+    marginLeft: 8,
+  },
   listContent: {
     padding: 16,
     paddingTop: 8,
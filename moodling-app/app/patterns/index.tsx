@@ -0,0 +1,492 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  useColorScheme,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  LayoutChangeEvent,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import Svg, { Rect, Line, Text as SvgText } from 'react-native-svg';
+import { Colors } from '@/constants/Colors';
+import { psychAnalysisService } from '@/services/psychAnalysisService';
+import {
+  PatternSeries,
+  TimelineBucket,
+  TimelineDimension,
+  TimelineExportFormat,
+  TIMELINE_DIMENSIONS,
+  getDimensionTimeline,
+  exportPsychTimeline,
+} from '@/services/psychTimelineService';
+
+/**
+ * Patterns Over Time - Psychological Profile Timeline
+ *
+ * Following Mood Leaf Ethics:
+ * - Shows wording that came up, not a diagnosis
+ * - Every bar links back to the user's own entries
+ *
+ * How often each pattern showed up per week or month, with the matched
+ * sentences behind every data point and CSV/JSON export
+ */
+
+const RANGE_OPTIONS = [3, 6, 12];
+const CHART_HEIGHT = 140;
+const CHART_LEFT = 32;
+const CHART_BOTTOM = 18;
+
+function formatPeriod(periodStart: string, bucket: TimelineBucket): string {
+  const [year, month, day] = periodStart.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return bucket === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+    : `Week of ${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+}
+
+export default function PatternsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const router = useRouter();
+
+  const [dimension, setDimension] = useState<TimelineDimension>('cognitive_distortion');
+  const [bucket, setBucket] = useState<TimelineBucket>('week');
+  const [months, setMonths] = useState(3);
+  const [series, setSeries] = useState<PatternSeries[]>([]);
+  const [selectedPattern, setSelectedPattern] = useState<string | null>(null);
+  const [selectedPoint, setSelectedPoint] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSynced, setIsSynced] = useState(false);
+  const [exporting, setExporting] = useState<TimelineExportFormat | null>(null);
+  const [chartWidth, setChartWidth] = useState(0);
+
+  // Analyze any entries the timeline hasn't seen yet
+  useEffect(() => {
+    psychAnalysisService
+      .syncTimelineWithJournal()
+      .catch(error => console.error('Failed to sync pattern timeline:', error))
+      .finally(() => setIsSynced(true));
+  }, []);
+
+  const loadSeries = useCallback(async () => {
+    if (!isSynced) return;
+    setIsLoading(true);
+    try {
+      const result = await getDimensionTimeline(dimension, { bucket, months });
+      setSeries(result);
+      setSelectedPattern(prev => (prev && result.some(s => s.pattern === prev) ? prev : result[0]?.pattern ?? null));
+      setSelectedPoint(null);
+    } catch (error) {
+      console.error('Failed to load pattern timeline:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dimension, bucket, months, isSynced]);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const handleExport = async (format: TimelineExportFormat) => {
+    setExporting(format);
+    const result = await exportPsychTimeline(format, dimension, { bucket, months });
+    setExporting(null);
+    if (!result.success) {
+      Alert.alert('Export failed', result.message);
+    }
+  };
+
+  const current = series.find(s => s.pattern === selectedPattern) ?? null;
+  const point = current && selectedPoint !== null ? current.points[selectedPoint] : null;
+
+  const renderChart = (data: PatternSeries) => {
+    const plotWidth = Math.max(chartWidth - CHART_LEFT, 0);
+    const plotHeight = CHART_HEIGHT - CHART_BOTTOM;
+    const maxRate = Math.max(0.25, ...data.points.map(p => p.rate));
+    const slot = data.points.length > 0 ? plotWidth / data.points.length : 0;
+    const barWidth = Math.max(slot * 0.7, 2);
+    const labelEvery = Math.ceil(data.points.length / 6);
+
+    return (
+      <View onLayout={(e: LayoutChangeEvent) => setChartWidth(e.nativeEvent.layout.width)}>
+        {chartWidth > 0 && (
+          <Svg width={chartWidth} height={CHART_HEIGHT}>
+            {[0, 0.5, 1].map(fraction => {
+              const y = plotHeight - fraction * plotHeight;
+              return (
+                <Line
+                  key={fraction}
+                  x1={CHART_LEFT}
+                  x2={chartWidth}
+                  y1={y}
+                  y2={y}
+                  stroke={colors.border}
+                  strokeWidth={1}
+                />
+              );
+            })}
+            {[0, 0.5, 1].map(fraction => (
+              <SvgText
+                key={`label-${fraction}`}
+                x={CHART_LEFT - 4}
+                y={plotHeight - fraction * plotHeight + 4}
+                fontSize={10}
+                fill={colors.textMuted}
+                textAnchor="end"
+              >
+                {`${Math.round(maxRate * fraction * 100)}%`}
+              </SvgText>
+            ))}
+            {data.points.map((p, i) => {
+              const height = (p.rate / maxRate) * plotHeight;
+              const x = CHART_LEFT + i * slot + (slot - barWidth) / 2;
+              return (
+                <Rect
+                  key={p.periodStart}
+                  x={x}
+                  y={plotHeight - height}
+                  width={barWidth}
+                  height={Math.max(height, p.entriesAnalyzed > 0 ? 1 : 0)}
+                  rx={2}
+                  fill={colors.tint}
+                  opacity={selectedPoint === null || selectedPoint === i ? 0.9 : 0.35}
+                  onPress={() => setSelectedPoint(i)}
+                />
+              );
+            })}
+            {data.points.map((p, i) =>
+              i % labelEvery === 0 ? (
+                <SvgText
+                  key={`x-${p.periodStart}`}
+                  x={Math.round(CHART_LEFT + i * slot + slot / 2)}
+                  y={CHART_HEIGHT - 4}
+                  fontSize={10}
+                  fill={colors.textMuted}
+                  textAnchor="middle"
+                >
+                  {p.periodStart.slice(5)}
+                </SvgText>
+              ) : null
+            )}
+          </Svg>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Patterns Over Time</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        {/* Dimension */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+          {(Object.keys(TIMELINE_DIMENSIONS) as TimelineDimension[]).map(d => (
+            <TouchableOpacity
+              key={d}
+              style={[
+                styles.chip,
+                { borderColor: dimension === d ? colors.tint : colors.border },
+                dimension === d && { backgroundColor: colors.tint },
+              ]}
+              onPress={() => setDimension(d)}
+            >
+              <Text style={[styles.chipText, { color: dimension === d ? '#FFFFFF' : colors.text }]}>
+                {TIMELINE_DIMENSIONS[d]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {/* Range & bucket */}
+        <View style={styles.toggleRow}>
+          <View style={[styles.toggle, { backgroundColor: colors.card }]}>
+            {RANGE_OPTIONS.map(m => (
+              <TouchableOpacity
+                key={m}
+                style={[styles.toggleOption, months === m && { backgroundColor: colors.tint }]}
+                onPress={() => setMonths(m)}
+              >
+                <Text style={[styles.toggleText, { color: months === m ? '#FFFFFF' : colors.text }]}>
+                  {m}mo
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={[styles.toggle, { backgroundColor: colors.card }]}>
+            {(['week', 'month'] as TimelineBucket[]).map(b => (
+              <TouchableOpacity
+                key={b}
+                style={[styles.toggleOption, bucket === b && { backgroundColor: colors.tint }]}
+                onPress={() => setBucket(b)}
+              >
+                <Text style={[styles.toggleText, { color: bucket === b ? '#FFFFFF' : colors.text }]}>
+                  {b === 'week' ? 'Weekly' : 'Monthly'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} color={colors.tint} />
+        ) : series.length === 0 ? (
+          <View style={[styles.section, { backgroundColor: colors.card }]}>
+            <Text style={[styles.emptyText, { color: colors.textMuted }]}>
+              Nothing in this area has come up in your entries over this period.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Pattern picker */}
+            <View style={styles.patternList}>
+              {series.map(s => (
+                <TouchableOpacity
+                  key={s.pattern}
+                  style={[
+                    styles.chip,
+                    { borderColor: selectedPattern === s.pattern ? colors.tint : colors.border },
+                  ]}
+                  onPress={() => {
+                    setSelectedPattern(s.pattern);
+                    setSelectedPoint(null);
+                  }}
+                >
+                  <Text style={[styles.chipText, { color: colors.text }]}>
+                    {s.label} · {s.totalEntries}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {current && (
+              <View style={[styles.section, { backgroundColor: colors.card }]}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>{current.label}</Text>
+                <Text style={[styles.chartCaption, { color: colors.textMuted }]}>
+                  Share of entries each {bucket} where this came up. Tap a bar to see the entries.
+                </Text>
+                {renderChart(current)}
+              </View>
+            )}
+
+            {/* Evidence */}
+            {point && (
+              <View style={[styles.section, { backgroundColor: colors.card }]}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                  {formatPeriod(point.periodStart, bucket)}
+                </Text>
+                <Text style={[styles.chartCaption, { color: colors.textMuted }]}>
+                  {point.entriesAnalyzed === 0
+                    ? 'No entries this period.'
+                    : `${point.entriesWithPattern} of ${point.entriesAnalyzed} entries (${Math.round(point.rate * 100)}%)`}
+                </Text>
+                {point.evidence.map(evidence => (
+                  <TouchableOpacity
+                    key={evidence.entryId}
+                    style={[styles.evidence, { borderColor: colors.border }]}
+                    onPress={() => router.push(`/entry/${evidence.entryId}`)}
+                  >
+                    <Text style={[styles.evidenceDate, { color: colors.textMuted }]}>
+                      {new Date(evidence.createdAt).toLocaleDateString(undefined, {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric',
+                      })}
+                    </Text>
+                    {evidence.phrases.map((phrase, i) => (
+                      <Text key={i} style={[styles.evidencePhrase, { color: colors.textSecondary }]}>
+                        “{phrase}”
+                      </Text>
+                    ))}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {/* Export */}
+            <View style={[styles.section, { backgroundColor: colors.card }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Export</Text>
+              <Text style={[styles.exportNote, { color: colors.textMuted }]}>
+                Every pattern in {TIMELINE_DIMENSIONS[dimension].toLowerCase()} for this range,
+                including the matched sentences.
+              </Text>
+              <View style={styles.exportRow}>
+                {(['csv', 'json'] as TimelineExportFormat[]).map(format => (
+                  <TouchableOpacity
+                    key={format}
+                    style={[styles.exportButton, { backgroundColor: colors.tint }]}
+                    onPress={() => handleExport(format)}
+                    disabled={exporting !== null}
+                  >
+                    {exporting === format ? (
+                      <ActivityIndicator color="#FFFFFF" />
+                    ) : (
+                      <Text style={styles.exportButtonText}>Export {format.toUpperCase()}</Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </>
+        )}
+
+        <View style={styles.disclaimer}>
+          <Text style={[styles.disclaimerText, { color: colors.textMuted }]}>
+            These are observations, not diagnoses.{'\n'}
+            You know yourself best.
+          </Text>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  chipScroll: {
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  toggle: {
+    flex: 1,
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+  },
+  toggleOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  toggleText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  patternList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  section: {
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  chartCaption: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  evidence: {
+    borderTopWidth: 1,
+    paddingVertical: 10,
+  },
+  evidenceDate: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  evidencePhrase: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 2,
+  },
+  exportNote: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginBottom: 12,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  exportButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  disclaimer: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  disclaimerText: {
+    fontSize: 13,
+    textAlign: 'center',
+    lineHeight: 19,
+  },
+});
@@ -0,0 +1,363 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  useColorScheme,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import {
+  Report,
+  ReportPeriod,
+  ReportFormat,
+  generateReport,
+  exportReport,
+} from '@/services/reportService';
+
+/**
+ * Reports Screen - Weekly & Monthly Reviews
+ *
+ * Following Mood Leaf Ethics:
+ * - A record to reflect on, not a scorecard
+ * - User decides if and with whom it's shared
+ *
+ * Preview of the review plus HTML/PDF export, e.g. to bring to a therapist
+ */
+
+export default function ReportsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const router = useRouter();
+
+  const [period, setPeriod] = useState<ReportPeriod>('week');
+  const [report, setReport] = useState<Report | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [exporting, setExporting] = useState<ReportFormat | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReport(await generateReport(period));
+    } catch (error) {
+      console.error('Failed to generate report:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleExport = async (format: ReportFormat) => {
+    if (!report) return;
+    setExporting(format);
+    const result = await exportReport(report, format);
+    setExporting(null);
+    if (!result.success) {
+      Alert.alert('Export failed', result.message);
+    } else if (result.format !== format) {
+      Alert.alert('Exported as HTML', 'PDF export isn\'t available on this device, so the report was saved as HTML. It opens in any browser and can be printed from there.');
+    }
+  };
+
+  const renderMoodStrip = (data: Report) => (
+    <View style={styles.moodStrip}>
+      {data.days.map((day) => {
+        // -1..1 mapped onto bar height; missing days stay as an empty slot
+        const height = day.mood === null ? 0 : 8 + ((day.mood + 1) / 2) * 52;
+        return (
+          <View key={day.date} style={styles.moodSlot}>
+            <View
+              style={[
+                styles.moodBar,
+                { height, backgroundColor: colors.tint, opacity: day.mood === null ? 0 : 0.85 },
+              ]}
+            />
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderStat = (label: string, value: string) => (
+    <View style={[styles.stat, { backgroundColor: colors.background }]} key={label}>
+      <Text style={[styles.statValue, { color: colors.text }]}>{value}</Text>
+      <Text style={[styles.statLabel, { color: colors.textMuted }]}>{label}</Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Reviews</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        {/* Period toggle */}
+        <View style={[styles.toggle, { backgroundColor: colors.card }]}>
+          {(['week', 'month'] as ReportPeriod[]).map((p) => (
+            <TouchableOpacity
+              key={p}
+              style={[styles.toggleOption, period === p && { backgroundColor: colors.tint }]}
+              onPress={() => setPeriod(p)}
+            >
+              <Text style={[styles.toggleText, { color: period === p ? '#FFFFFF' : colors.text }]}>
+                {p === 'week' ? 'Past 7 days' : 'Past 30 days'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {isLoading || !report ? (
+          <ActivityIndicator style={styles.loading} color={colors.tint} />
+        ) : (
+          <>
+            {/* Narrative */}
+            <View style={[styles.section, { backgroundColor: colors.card }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Summary</Text>
+              {report.narrative.map((line, i) => (
+                <Text key={i} style={[styles.narrativeLine, { color: colors.textSecondary }]}>
+                  {line}
+                </Text>
+              ))}
+            </View>
+
+            {/* Mood */}
+            <View style={[styles.section, { backgroundColor: colors.card }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Mood</Text>
+              {report.mood.average !== null ? (
+                renderMoodStrip(report)
+              ) : (
+                <Text style={[styles.emptyText, { color: colors.textMuted }]}>
+                  No journal entries in this period.
+                </Text>
+              )}
+            </View>
+
+            {/* At a glance */}
+            <View style={[styles.section, { backgroundColor: colors.card }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>At a Glance</Text>
+              <View style={styles.statGrid}>
+                {renderStat('Entries', String(report.mood.totalEntries))}
+                {renderStat(
+                  'Avg sleep',
+                  report.sleep.averageHours !== null ? `${report.sleep.averageHours.toFixed(1)}h` : '—'
+                )}
+                {renderStat('Twigs', String(report.twigs.reduce((sum, t) => sum + t.total, 0)))}
+                {renderStat('Skills', String(report.skills.reduce((sum, s) => sum + s.times, 0)))}
+              </View>
+            </View>
+
+            {/* Insights */}
+            {report.insights.length > 0 && (
+              <View style={[styles.section, { backgroundColor: colors.card }]}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>Insights</Text>
+                {report.insights.map((insight, i) => (
+                  <View key={i} style={styles.insight}>
+                    <Text style={[styles.insightTitle, { color: colors.text }]}>{insight.title}</Text>
+                    <Text style={[styles.insightText, { color: colors.textSecondary }]}>
+                      {insight.description}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Export */}
+            <View style={[styles.section, { backgroundColor: colors.card }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Share</Text>
+              <Text style={[styles.exportNote, { color: colors.textMuted }]}>
+                The full review includes charts of mood, sleep, twigs and skills. It's a single
+                file that stays on your device until you choose where to send it.
+              </Text>
+              <View style={styles.exportRow}>
+                {(['pdf', 'html'] as ReportFormat[]).map((format) => (
+                  <TouchableOpacity
+                    key={format}
+                    style={[styles.exportButton, { backgroundColor: colors.tint }]}
+                    onPress={() => handleExport(format)}
+                    disabled={exporting !== null}
+                  >
+                    {exporting === format ? (
+                      <ActivityIndicator color="#FFFFFF" />
+                    ) : (
+                      <Text style={styles.exportButtonText}>
+                        {format === 'pdf' ? 'Export PDF' : 'Export HTML'}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </>
+        )}
+
+        <View style={styles.disclaimer}>
+          <Text style={[styles.disclaimerText, { color: colors.textMuted }]}>
+            These are observations, not diagnoses.{'\n'}
+            You know yourself best.
+          </Text>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  toggle: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 16,
+  },
+  toggleOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  toggleText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  section: {
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  narrativeLine: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 6,
+  },
+  moodStrip: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 64,
+  },
+  moodSlot: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 1,
+  },
+  moodBar: {
+    width: '80%',
+    borderRadius: 3,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  statGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  stat: {
+    flexGrow: 1,
+    flexBasis: '45%',
+    borderRadius: 10,
+    padding: 12,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  statLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  insight: {
+    marginBottom: 10,
+  },
+  insightTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  insightText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  exportNote: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginBottom: 12,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  exportButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  disclaimer: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  disclaimerText: {
+    fontSize: 13,
+    textAlign: 'center',
+    lineHeight: 19,
+  },
+});
@@ -0,0 +1,383 @@
+/**
+ * App Lock Settings
+ *
+ * PIN / passphrase lock, auto-lock timing, privacy screen and duress PIN.
+ * Following Mood Leaf Ethics:
+ * - User has full control over how strict the lock is
+ * - Honest about what the duress PIN does and doesn't hide
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Switch,
+  useColorScheme,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Colors } from '@/constants/Colors';
+import {
+  AUTO_LOCK_OPTIONS,
+  getAppLockSettings,
+  setAppLockPin,
+  disableAppLock,
+  setDuressPin,
+  removeDuressPin,
+  setAppLockOptions,
+} from '@/services/appLockService';
+
+const MIN_PIN_LENGTH = 4;
+
+type AppLockSettings = Awaited<ReturnType<typeof getAppLockSettings>>;
+
+function formatAutoLock(minutes: number): string {
+  return minutes === 0 ? 'Immediately' : `${minutes} min`;
+}
+
+export default function AppLockSettingsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const insets = useSafeAreaInsets();
+
+  const [settings, setSettings] = useState<AppLockSettings | null>(null);
+  const [currentPin, setCurrentPin] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [duressPin, setDuressPinInput] = useState('');
+  const [duressCurrentPin, setDuressCurrentPin] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSettings = useCallback(async () => {
+    setSettings(await getAppLockSettings());
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const resetFields = () => {
+    setCurrentPin('');
+    setPin('');
+    setConfirmPin('');
+    setDuressPinInput('');
+    setDuressCurrentPin('');
+  };
+
+  const handleSetPin = async () => {
+    if (pin.length < MIN_PIN_LENGTH) {
+      Alert.alert('PIN too short', `Use at least ${MIN_PIN_LENGTH} characters.`);
+      return;
+    }
+    if (pin !== confirmPin) {
+      Alert.alert('PINs don\'t match', 'Enter the same PIN twice.');
+      return;
+    }
+    setIsSaving(true);
+    const result = await setAppLockPin(pin, currentPin);
+    setIsSaving(false);
+    if (!result.success) {
+      Alert.alert('Couldn\'t set PIN', result.error);
+      return;
+    }
+    resetFields();
+    await loadSettings();
+  };
+
+  const handleDisable = async () => {
+    setIsSaving(true);
+    const disabled = await disableAppLock(currentPin);
+    setIsSaving(false);
+    if (!disabled) {
+      Alert.alert('Wrong PIN', 'Enter your current PIN to turn the lock off.');
+      return;
+    }
+    resetFields();
+    await loadSettings();
+  };
+
+  const handleSetDuress = async () => {
+    if (duressPin.length < MIN_PIN_LENGTH) {
+      Alert.alert('PIN too short', `Use at least ${MIN_PIN_LENGTH} characters.`);
+      return;
+    }
+    setIsSaving(true);
+    const result = await setDuressPin(duressPin, duressCurrentPin);
+    setIsSaving(false);
+    if (!result.success) {
+      Alert.alert('Couldn\'t set duress PIN', result.error);
+      return;
+    }
+    resetFields();
+    await loadSettings();
+  };
+
+  const handleRemoveDuress = async () => {
+    setIsSaving(true);
+    const removed = await removeDuressPin(duressCurrentPin);
+    setIsSaving(false);
+    if (!removed) {
+      Alert.alert('Wrong PIN', 'Enter your current PIN to remove the duress PIN.');
+      return;
+    }
+    resetFields();
+    await loadSettings();
+  };
+
+  const handleOptionChange = async (update: Parameters<typeof setAppLockOptions>[0]) => {
+    setSettings(prev => (prev ? { ...prev, ...update } : prev));
+    await setAppLockOptions(update);
+  };
+
+  if (!settings) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </View>
+    );
+  }
+
+  const inputStyle = [styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }];
+  const pinInputProps = {
+    placeholderTextColor: colors.textMuted,
+    secureTextEntry: true,
+    autoCapitalize: 'none' as const,
+    autoCorrect: false,
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'App Lock',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <ScrollView
+        style={[styles.container, { backgroundColor: colors.background }]}
+        contentContainerStyle={{ paddingBottom: insets.bottom + 40 }}
+      >
+        {/* PIN */}
+        <View style={[styles.section, { backgroundColor: colors.card }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {settings.enabled ? '🔒 App lock is on' : '🔓 App lock is off'}
+          </Text>
+          <Text style={[styles.body, { color: colors.textSecondary }]}>
+            Ask for a PIN or passphrase when Mood Leaf opens and after you've been away.
+          </Text>
+          {settings.enabled && (
+            <TextInput
+              style={inputStyle}
+              value={currentPin}
+              onChangeText={setCurrentPin}
+              placeholder="Current PIN"
+              {...pinInputProps}
+            />
+          )}
+          <TextInput
+            style={inputStyle}
+            value={pin}
+            onChangeText={setPin}
+            placeholder={settings.enabled ? 'New PIN or passphrase' : 'PIN or passphrase'}
+            {...pinInputProps}
+          />
+          <TextInput
+            style={inputStyle}
+            value={confirmPin}
+            onChangeText={setConfirmPin}
+            placeholder="Confirm"
+            {...pinInputProps}
+          />
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.tint }]}
+            onPress={handleSetPin}
+            disabled={isSaving}
+          >
+            <Text style={styles.buttonText}>{settings.enabled ? 'Change PIN' : 'Turn on app lock'}</Text>
+          </TouchableOpacity>
+          {settings.enabled && (
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.buttonSecondary }]}
+              onPress={handleDisable}
+              disabled={isSaving || !currentPin}
+            >
+              <Text style={[styles.buttonText, { color: colors.text }]}>Turn off app lock</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {settings.enabled && (
+          <>
+            {/* Auto-lock */}
+            <View style={[styles.section, { backgroundColor: colors.card }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Auto-lock</Text>
+              <Text style={[styles.body, { color: colors.textSecondary }]}>
+                Lock after this long without use or away from the app.
+              </Text>
+              <View style={styles.optionRow}>
+                {AUTO_LOCK_OPTIONS.map(minutes => {
+                  const selected = settings.autoLockMinutes === minutes;
+                  return (
+                    <TouchableOpacity
+                      key={minutes}
+                      style={[
+                        styles.option,
+                        { borderColor: selected ? colors.tint : colors.border },
+                        selected && { backgroundColor: colors.tint },
+                      ]}
+                      onPress={() => handleOptionChange({ autoLockMinutes: minutes })}
+                    >
+                      <Text style={[styles.optionText, { color: selected ? '#FFFFFF' : colors.text }]}>
+                        {formatAutoLock(minutes)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            {/* Privacy screen */}
+            <View style={[styles.section, { backgroundColor: colors.card }]}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text style={[styles.sectionTitle, { color: colors.text }]}>Privacy screen</Text>
+                  <Text style={[styles.body, { color: colors.textSecondary }]}>
+                    Hide your journal in the app switcher.
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.privacyScreenEnabled}
+                  onValueChange={value => handleOptionChange({ privacyScreenEnabled: value })}
+                  trackColor={{ false: colors.border, true: colors.tint }}
+                />
+              </View>
+            </View>
+
+            {/* Duress PIN */}
+            <View style={[styles.section, { backgroundColor: colors.card }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Duress PIN</Text>
+              <Text style={[styles.body, { color: colors.textSecondary }]}>
+                If someone makes you unlock the app, enter this PIN instead. It opens an empty
+                journal. Your real entries, memories and profile stay hidden until you lock
+                and unlock with your real PIN.
+              </Text>
+              <TextInput
+                style={inputStyle}
+                value={duressCurrentPin}
+                onChangeText={setDuressCurrentPin}
+                placeholder="Current PIN"
+                {...pinInputProps}
+              />
+              {!settings.duressEnabled && (
+                <TextInput
+                  style={inputStyle}
+                  value={duressPin}
+                  onChangeText={setDuressPinInput}
+                  placeholder="Duress PIN"
+                  {...pinInputProps}
+                />
+              )}
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: settings.duressEnabled ? colors.buttonSecondary : colors.tint }]}
+                onPress={settings.duressEnabled ? handleRemoveDuress : handleSetDuress}
+                disabled={isSaving || !duressCurrentPin}
+              >
+                <Text style={[styles.buttonText, settings.duressEnabled && { color: colors.text }]}>
+                  {settings.duressEnabled ? 'Remove duress PIN' : 'Set duress PIN'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+
+        <Text style={[styles.footnote, { color: colors.textMuted }]}>
+          Too many wrong attempts pause unlocking for a while, the same as voice and face checks.
+        </Text>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 14,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  body: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchText: {
+    flex: 1,
+  },
+  footnote: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginHorizontal: 24,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,258 @@
+/**
+ * Encryption Settings
+ *
+ * Shows how journal and profile data is protected at rest and lets the
+ * user add, change or remove a storage PIN.
+ * Following Mood Leaf Ethics:
+ * - User has full control over their data
+ * - Honest about what the protection does and doesn't cover
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Colors } from '@/constants/Colors';
+import {
+  EncryptedStorageStatus,
+  getEncryptedStorageStatus,
+  setStoragePin,
+  removeStoragePin,
+  MIN_STORAGE_PIN_LENGTH,
+} from '@/services/encryptedStorage';
+
+const KEY_LOCATION_TEXT: Record<EncryptedStorageStatus['keyLocation'], string> = {
+  keystore: 'Key held in this device\'s secure keystore',
+  device: 'Key held in app storage (no secure keystore on this platform)',
+  pin: 'Key locked with your PIN',
+};
+
+export default function EncryptionSettingsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const insets = useSafeAreaInsets();
+
+  const [status, setStatus] = useState<EncryptedStorageStatus | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [currentPin, setCurrentPin] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    setStatus(await getEncryptedStorageStatus());
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const resetFields = () => {
+    setPin('');
+    setConfirmPin('');
+    setCurrentPin('');
+  };
+
+  const handleSetPin = async () => {
+    if (pin.length < MIN_STORAGE_PIN_LENGTH) {
+      Alert.alert('PIN too short', `Use at least ${MIN_STORAGE_PIN_LENGTH} characters.`);
+      return;
+    }
+    if (pin !== confirmPin) {
+      Alert.alert('PINs don\'t match', 'Enter the same PIN twice.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await setStoragePin(pin);
+      resetFields();
+      await loadStatus();
+      Alert.alert('PIN set', 'You\'ll be asked for it each time Mood Leaf opens. If you forget it, your data can\'t be recovered.');
+    } catch (error) {
+      console.error('Failed to set storage PIN:', error);
+      Alert.alert('Couldn\'t set PIN', 'Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemovePin = async () => {
+    setIsSaving(true);
+    const removed = await removeStoragePin(currentPin);
+    setIsSaving(false);
+    if (!removed) {
+      Alert.alert('Wrong PIN', 'Enter your current PIN to remove it.');
+      return;
+    }
+    resetFields();
+    await loadStatus();
+  };
+
+  if (!status) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </View>
+    );
+  }
+
+  const inputStyle = [styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }];
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Encryption & PIN',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <ScrollView
+        style={[styles.container, { backgroundColor: colors.background }]}
+        contentContainerStyle={{ paddingBottom: insets.bottom + 40 }}
+      >
+        {/* Status */}
+        <View style={[styles.section, { backgroundColor: colors.card }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>🔐 Encrypted on this device</Text>
+          <Text style={[styles.body, { color: colors.textSecondary }]}>
+            Journal entries, memories, life context, psychological and cognitive profiles,
+            cycle history and safety logs are stored encrypted (AES-256).
+          </Text>
+          <Text style={[styles.statusLine, { color: colors.text }]}>{KEY_LOCATION_TEXT[status.keyLocation]}</Text>
+        </View>
+
+        {/* PIN */}
+        <View style={[styles.section, { backgroundColor: colors.card }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {status.pinEnabled ? 'Change PIN' : 'Add a PIN'}
+          </Text>
+          <Text style={[styles.body, { color: colors.textSecondary }]}>
+            With a PIN, the encryption key only exists while the app is unlocked. A longer
+            passphrase is much harder to guess than a 4-digit PIN.
+          </Text>
+          <TextInput
+            style={inputStyle}
+            value={pin}
+            onChangeText={setPin}
+            placeholder="New PIN or passphrase"
+            placeholderTextColor={colors.textMuted}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TextInput
+            style={inputStyle}
+            value={confirmPin}
+            onChangeText={setConfirmPin}
+            placeholder="Confirm"
+            placeholderTextColor={colors.textMuted}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.tint }]}
+            onPress={handleSetPin}
+            disabled={isSaving}
+          >
+            <Text style={styles.buttonText}>{status.pinEnabled ? 'Change PIN' : 'Set PIN'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {status.pinEnabled && (
+          <View style={[styles.section, { backgroundColor: colors.card }]}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Remove PIN</Text>
+            <TextInput
+              style={inputStyle}
+              value={currentPin}
+              onChangeText={setCurrentPin}
+              placeholder="Current PIN"
+              placeholderTextColor={colors.textMuted}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.buttonSecondary }]}
+              onPress={handleRemovePin}
+              disabled={isSaving || !currentPin}
+            >
+              <Text style={[styles.buttonText, { color: colors.text }]}>Remove PIN</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <Text style={[styles.footnote, { color: colors.textMuted }]}>
+          Backups made on this device stay encrypted. Exports you share are readable, so
+          keep them somewhere safe.
+        </Text>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 14,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  body: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  statusLine: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  footnote: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginHorizontal: 24,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,410 @@
+/**
+ * Pattern Detection Settings
+ *
+ * Turn psychological frameworks on or off, add or remove the phrases each
+ * one looks for, and check accuracy against labeled sample entries.
+ * Following Mood Leaf Ethics:
+ * - User (or their clinician) decides which lenses are applied
+ * - Honest about how accurate simple phrase matching is
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Switch,
+  useColorScheme,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Colors } from '@/constants/Colors';
+import '@/services/psychAnalyzers';
+import {
+  PsychAnalyzer,
+  getPsychAnalyzers,
+  getEffectiveLexicon,
+  getAnalyzerSettings,
+  loadAnalyzerSettings,
+  isPsychAnalyzerEnabled,
+  setPsychAnalyzerEnabled,
+  addAnalyzerPhrase,
+  removeAnalyzerPhrase,
+  resetAnalyzerSettings,
+} from '@/services/psychAnalyzerRegistry';
+import { EvaluationReport, evaluatePsychAnalyzers } from '@/services/psychAnalyzerEvaluation';
+import { formatPatternLabel } from '@/services/psychTimelineService';
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export default function PatternDetectionScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const insets = useSafeAreaInsets();
+
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [, setRevision] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [phraseInputs, setPhraseInputs] = useState<Record<string, string>>({});
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+
+  const refresh = useCallback(() => {
+    setRevision(revision => revision + 1);
+    setReport(null);
+  }, []);
+
+  useEffect(() => {
+    loadAnalyzerSettings().then(() => setIsLoaded(true));
+  }, []);
+
+  const handleToggle = async (analyzer: PsychAnalyzer, enabled: boolean) => {
+    await setPsychAnalyzerEnabled(analyzer.id, enabled);
+    refresh();
+  };
+
+  const handleAddPhrase = async (analyzer: PsychAnalyzer, pattern: string) => {
+    const key = `${analyzer.id}:${pattern}`;
+    const result = await addAnalyzerPhrase(analyzer.id, pattern, phraseInputs[key] ?? '');
+    if (!result.success) {
+      Alert.alert('Couldn\'t add phrase', result.error);
+      return;
+    }
+    setPhraseInputs(prev => ({ ...prev, [key]: '' }));
+    refresh();
+  };
+
+  const handleRemovePhrase = async (analyzer: PsychAnalyzer, pattern: string, phrase: string) => {
+    await removeAnalyzerPhrase(analyzer.id, pattern, phrase);
+    refresh();
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      'Reset pattern detection?',
+      'All frameworks are turned back on and your phrase changes are removed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            await resetAnalyzerSettings();
+            refresh();
+          },
+        },
+      ]
+    );
+  };
+
+  if (!isLoaded) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </View>
+    );
+  }
+
+  const settings = getAnalyzerSettings();
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Pattern Detection',
+          headerShown: true,
+          headerBackTitle: 'Back',
+        }}
+      />
+      <ScrollView
+        style={[styles.container, { backgroundColor: colors.background }]}
+        contentContainerStyle={{ paddingBottom: insets.bottom + 40 }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={[styles.intro, { color: colors.textSecondary }]}>
+          Mood Leaf looks for phrases linked to each framework below. Turn off any you don't
+          want applied to your journal, or tune the phrases. Changes apply to entries analyzed
+          from now on.
+        </Text>
+
+        {getPsychAnalyzers().map(analyzer => {
+          const enabled = isPsychAnalyzerEnabled(analyzer.id);
+          const expanded = expandedId === analyzer.id;
+          const lexicon = getEffectiveLexicon(analyzer);
+          const added = settings.addedPhrases[analyzer.id] ?? {};
+          const muted = settings.mutedPhrases[analyzer.id] ?? {};
+
+          return (
+            <View key={analyzer.id} style={[styles.section, { backgroundColor: colors.card }]}>
+              <View style={styles.switchRow}>
+                <TouchableOpacity
+                  style={styles.switchText}
+                  onPress={() => setExpandedId(expanded ? null : analyzer.id)}
+                >
+                  <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                    {analyzer.name} {expanded ? '▾' : '▸'}
+                  </Text>
+                  <Text style={[styles.body, { color: colors.textSecondary }]}>
+                    {analyzer.framework}
+                    {analyzer.description ? ` · ${analyzer.description}` : ''}
+                  </Text>
+                </TouchableOpacity>
+                <Switch
+                  value={enabled}
+                  onValueChange={value => handleToggle(analyzer, value)}
+                  trackColor={{ false: colors.border, true: colors.tint }}
+                />
+              </View>
+
+              {expanded && Object.entries(lexicon).map(([pattern, phrases]) => {
+                const key = `${analyzer.id}:${pattern}`;
+                const mutedCount = muted[pattern]?.length ?? 0;
+                return (
+                  <View key={pattern} style={[styles.pattern, { borderTopColor: colors.border }]}>
+                    <Text style={[styles.patternTitle, { color: colors.text }]}>
+                      {formatPatternLabel(pattern)}
+                      {mutedCount > 0 && (
+                        <Text style={[styles.mutedNote, { color: colors.textMuted }]}>
+                          {`  ${mutedCount} removed`}
+                        </Text>
+                      )}
+                    </Text>
+                    <View style={styles.chipRow}>
+                      {phrases.map(phrase => {
+                        const custom = added[pattern]?.includes(phrase);
+                        return (
+                          <TouchableOpacity
+                            key={phrase}
+                            style={[
+                              styles.chip,
+                              { borderColor: custom ? colors.tint : colors.border },
+                            ]}
+                            onPress={() => handleRemovePhrase(analyzer, pattern, phrase)}
+                          >
+                            <Text style={[styles.chipText, { color: colors.text }]}>{phrase} ×</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                    <View style={styles.addRow}>
+                      <TextInput
+                        style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                        value={phraseInputs[key] ?? ''}
+                        onChangeText={text => setPhraseInputs(prev => ({ ...prev, [key]: text }))}
+                        onSubmitEditing={() => handleAddPhrase(analyzer, pattern)}
+                        placeholder="Add a phrase"
+                        placeholderTextColor={colors.textMuted}
+                        autoCapitalize="none"
+                      />
+                      <TouchableOpacity
+                        style={[styles.addButton, { backgroundColor: colors.tint }]}
+                        onPress={() => handleAddPhrase(analyzer, pattern)}
+                      >
+                        <Text style={styles.buttonText}>Add</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          );
+        })}
+
+        {/* Accuracy */}
+        <View style={[styles.section, { backgroundColor: colors.card }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Check accuracy</Text>
+          <Text style={[styles.body, { color: colors.textSecondary }]}>
+            Runs every framework, with your changes, over sample entries a reviewer has
+            labeled. Precision is how often a detection was right; recall is how many expected
+            patterns were found.
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.tint }]}
+            onPress={() => setReport(evaluatePsychAnalyzers())}
+          >
+            <Text style={styles.buttonText}>Run check</Text>
+          </TouchableOpacity>
+
+          {report && (
+            <View style={styles.report}>
+              {report.analyzers.map(result => (
+                <View key={result.analyzerId} style={styles.reportRow}>
+                  <Text style={[styles.reportName, { color: colors.text }]}>
+                    {result.name}{result.enabled ? '' : ' (off)'}
+                  </Text>
+                  <Text style={[styles.reportScore, { color: colors.textSecondary }]}>
+                    {formatPercent(result.precision)} / {formatPercent(result.recall)}
+                  </Text>
+                  {result.errors.map(error => (
+                    <Text
+                      key={`${error.sampleId}:${error.pattern}`}
+                      style={[styles.reportError, { color: colors.textMuted }]}
+                    >
+                      {error.kind === 'missed' ? 'Missed' : 'Unexpected'} {formatPatternLabel(error.pattern)} in "{error.sampleId}"
+                    </Text>
+                  ))}
+                </View>
+              ))}
+              <Text style={[styles.reportOverall, { color: colors.text }]}>
+                Overall: {formatPercent(report.overall.precision)} precision, {formatPercent(report.overall.recall)} recall
+                across {report.sampleCount} samples
+              </Text>
+            </View>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.resetButton, { backgroundColor: colors.buttonSecondary }]}
+          onPress={handleReset}
+        >
+          <Text style={[styles.buttonText, { color: colors.text }]}>Reset to defaults</Text>
+        </TouchableOpacity>
+
+        <Text style={[styles.footnote, { color: colors.textMuted }]}>
+          These are reflection aids based on word patterns, not a diagnosis.
+        </Text>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  intro: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginHorizontal: 24,
+    marginTop: 16,
+  },
+  section: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 14,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  body: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchText: {
+    flex: 1,
+  },
+  pattern: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingTop: 12,
+    marginTop: 8,
+  },
+  patternTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  mutedNote: {
+    fontSize: 13,
+    fontWeight: '400',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  addButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 9,
+    borderRadius: 10,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  report: {
+    marginTop: 16,
+    gap: 10,
+  },
+  reportRow: {
+    gap: 2,
+  },
+  reportName: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  reportScore: {
+    fontSize: 14,
+  },
+  reportError: {
+    fontSize: 13,
+  },
+  reportOverall: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  resetButton: {
+    margin: 16,
+    marginBottom: 0,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  footnote: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginHorizontal: 24,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,150 @@
+/**
+ * App Lock Screen
+ *
+ * Covers the app while the PIN lock is engaged (appLockService), plus the
+ * plain cover shown in the app switcher when the privacy screen is on.
+ * Rendered over the navigator so open screens keep their state; at launch
+ * it is shown alone, before the navigator mounts.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { unlockApp } from '@/services/appLockService';
+import { getSecurityState, getActiveLockout } from '@/services/biometricSecurityService';
+
+export function AppLockScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [pin, setPin] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleUnlock = async () => {
+    if (!pin || isChecking) return;
+    setIsChecking(true);
+    setMessage(null);
+    const result = await unlockApp(pin);
+    setIsChecking(false);
+    setPin('');
+    if (result.authenticated) return;
+
+    const lockout = getActiveLockout(await getSecurityState());
+    setMessage(
+      lockout
+        ? `Too many attempts. Try again at ${lockout.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.`
+        : 'That didn\'t match. Try again.'
+    );
+  };
+
+  return (
+    <View style={[StyleSheet.absoluteFill, styles.container, { backgroundColor: colors.background }]}>
+      <Text style={styles.emoji}>🍃</Text>
+      <Text style={[styles.title, { color: colors.text }]}>Mood Leaf is locked</Text>
+      <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+        Enter your PIN to continue.
+      </Text>
+
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: message ? colors.error : colors.border, backgroundColor: colors.card }]}
+        value={pin}
+        onChangeText={setPin}
+        onSubmitEditing={handleUnlock}
+        placeholder="PIN or passphrase"
+        placeholderTextColor={colors.textMuted}
+        secureTextEntry
+        autoFocus
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {message && (
+        <Text style={[styles.error, { color: colors.error }]}>{message}</Text>
+      )}
+
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.tint, opacity: pin ? 1 : 0.5 }]}
+        onPress={handleUnlock}
+        disabled={!pin || isChecking}
+      >
+        {isChecking ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.buttonText}>Unlock</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+/**
+ * Plain cover for the app-switcher snapshot
+ */
+export function PrivacyCover() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  return (
+    <View style={[StyleSheet.absoluteFill, styles.container, { backgroundColor: colors.background }]}>
+      <Text style={styles.emoji}>🍃</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emoji: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  input: {
+    width: '100%',
+    maxWidth: 320,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 18,
+    textAlign: 'center',
+  },
+  error: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  button: {
+    width: '100%',
+    maxWidth: 320,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,140 @@
+/**
+ * Storage Unlock Screen
+ *
+ * Shown at launch when encrypted storage is protected by a PIN.
+ * Nothing that reads journal or profile data can run until it unlocks.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { unlockEncryptedStorage } from '@/services/encryptedStorage';
+
+export interface StorageUnlockScreenProps {
+  onUnlocked: () => void;
+}
+
+export function StorageUnlockScreen({ onUnlocked }: StorageUnlockScreenProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [pin, setPin] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+
+  const handleUnlock = async () => {
+    if (!pin || isChecking) return;
+    setIsChecking(true);
+    setFailed(false);
+    const result = await unlockEncryptedStorage(pin);
+    setIsChecking(false);
+    if (result.unlocked) {
+      onUnlocked();
+    } else {
+      setFailed(true);
+      setLockedUntil(result.lockedUntil ?? null);
+      setPin('');
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <Text style={styles.emoji}>🍃</Text>
+      <Text style={[styles.title, { color: colors.text }]}>Welcome back</Text>
+      <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+        Enter your PIN to open your journal.
+      </Text>
+
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: failed ? colors.error : colors.border, backgroundColor: colors.card }]}
+        value={pin}
+        onChangeText={setPin}
+        onSubmitEditing={handleUnlock}
+        placeholder="PIN or passphrase"
+        placeholderTextColor={colors.textMuted}
+        secureTextEntry
+        autoFocus
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {failed && (
+        <Text style={[styles.error, { color: colors.error }]}>
+          {lockedUntil
+            ? `Too many attempts. Try again after ${lockedUntil.toLocaleTimeString()}.`
+            : 'That didn\'t match. Try again.'}
+        </Text>
+      )}
+
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.tint, opacity: pin ? 1 : 0.5 }]}
+        onPress={handleUnlock}
+        disabled={!pin || isChecking}
+      >
+        {isChecking ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.buttonText}>Unlock</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emoji: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  input: {
+    width: '100%',
+    maxWidth: 320,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 18,
+    textAlign: 'center',
+  },
+  error: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  button: {
+    width: '100%',
+    maxWidth: 320,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,91 @@
+import { getMigrations, migrateKeyData, registerMigration } from '../dataMigrationService';
+
+// Test-only key: v1 stored mood as a 1-5 number, v2 as a label, v3 adds tags
+const KEY = 'test_mood_log';
+const LABELS = ['awful', 'low', 'okay', 'good', 'great'];
+
+registerMigration({
+  key: KEY,
+  fromVersion: 1,
+  toVersion: 2,
+  description: 'mood number to label',
+  migrate: (data: any[], context) =>
+    data.flatMap((record) => {
+      const label = LABELS[record.mood - 1];
+      if (!label) {
+        context.drop(record.id, `mood ${record.mood} out of range`);
+        return [];
+      }
+      return [{ id: record.id, mood: label }];
+    }),
+});
+
+registerMigration({
+  key: KEY,
+  fromVersion: 2,
+  toVersion: 3,
+  description: 'add tags',
+  migrate: (data: any[]) => data.map((record) => ({ ...record, tags: [] })),
+});
+
+describe('migrateKeyData', () => {
+  const v1 = [
+    { id: 'a', mood: 4 },
+    { id: 'b', mood: 9 },
+  ];
+
+  it('steps through every migration in order', () => {
+    const result = migrateKeyData(KEY, v1, 1, 3);
+    expect(result.data).toEqual([{ id: 'a', mood: 'good', tags: [] }]);
+    expect(result.applied).toEqual([
+      `${KEY} v1→v2: mood number to label`,
+      `${KEY} v2→v3: add tags`,
+    ]);
+  });
+
+  it('reports every record a migration drops', () => {
+    const result = migrateKeyData(KEY, v1, 1, 3);
+    expect(result.dropped).toEqual([{ key: KEY, recordId: 'b', reason: 'mood 9 out of range' }]);
+  });
+
+  it('starts from the version the data was exported with', () => {
+    const result = migrateKeyData(KEY, [{ id: 'a', mood: 'good' }], 2, 3);
+    expect(result.data).toEqual([{ id: 'a', mood: 'good', tags: [] }]);
+    expect(result.applied).toHaveLength(1);
+  });
+
+  it('leaves data at the current version untouched', () => {
+    const data = [{ id: 'a', role: 'user' }];
+    const result = migrateKeyData('moodleaf_conversations', data, 1);
+    expect(result.data).toBe(data);
+    expect(result.applied).toEqual([]);
+  });
+
+  it('refuses data from a newer schema', () => {
+    expect(() => migrateKeyData('moodleaf_conversations', [], 2)).toThrow(/newer version of Mood Leaf/);
+  });
+
+  it('fails when a step has no migration', () => {
+    expect(() => migrateKeyData(KEY, [], 1, 4)).toThrow(`No migration registered for ${KEY} from v3`);
+  });
+});
+
+describe('registerMigration', () => {
+  const migrate = (data: unknown) => data;
+
+  it('keeps migrations sorted oldest first', () => {
+    expect(getMigrations(KEY).map((m) => m.fromVersion)).toEqual([1, 2]);
+  });
+
+  it('rejects migrations that skip a version', () => {
+    expect(() =>
+      registerMigration({ key: KEY, fromVersion: 3, toVersion: 5, description: 'skip', migrate })
+    ).toThrow(/one version at a time/);
+  });
+
+  it('rejects a second migration for the same step', () => {
+    expect(() =>
+      registerMigration({ key: KEY, fromVersion: 1, toVersion: 2, description: 'again', migrate })
+    ).toThrow(`Duplicate migration for ${KEY} from v1`);
+  });
+});
@@ -0,0 +1,247 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import EncryptedStorage, { setDecoyMode } from '../encryptedStorage';
+import {
+  compareVersionVectors,
+  exportAllData,
+  getMergeStrategy,
+  importData,
+  mergeSyncValues,
+  syncToCloud,
+  unlockCloudSync,
+  updateSyncConfig,
+} from '../dataPersistenceService';
+import { getAllEntries, saveEntry, updateEntry } from '../journalStorage';
+import baselineExport from './fixtures/baselineExport.v1.json';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-file-system', () => {
+  const files = new Map<string, string>();
+  return {
+    documentDirectory: 'file:///documents/',
+    cacheDirectory: 'file:///cache/',
+    getInfoAsync: async (path: string) => ({ exists: files.has(path) }),
+    makeDirectoryAsync: async () => {},
+    readAsStringAsync: async (path: string) => files.get(path) ?? '',
+    writeAsStringAsync: jest.fn(async (path: string, contents: string) => {
+      files.set(path, contents);
+    }),
+  };
+});
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: async () => false,
+  shareAsync: async () => {},
+}));
+
+// The sync server's own protocol handler, driven in-process instead of over HTTP
+const { createAccount, handleSync } = jest.requireActual('../../../sync-server/syncProtocol');
+
+const baselineData: Record<string, unknown> = baselineExport.data;
+
+async function readStored(key: string): Promise<unknown> {
+  const stored = await EncryptedStorage.getItem(key);
+  return typeof baselineData[key] === 'string' ? stored : JSON.parse(stored ?? 'null');
+}
+
+describe('baseline export round trip', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('imports a format v1 export without migrating or dropping anything', async () => {
+    const result = await importData(JSON.stringify(baselineExport));
+
+    expect(result.success).toBe(true);
+    expect([...result.importedKeys].sort()).toEqual([...baselineExport.keys].sort());
+    for (const keyReport of result.report!.keys) {
+      expect(keyReport.fromSchemaVersion).toBe(1);
+      expect(keyReport.migrationsApplied).toEqual([]);
+      expect(keyReport.dropped).toEqual([]);
+    }
+    for (const key of baselineExport.keys) {
+      expect(await readStored(key)).toEqual(baselineData[key]);
+    }
+  });
+
+  it('exports the imported data in the same shapes', async () => {
+    await importData(JSON.stringify(baselineExport));
+    const exported = await exportAllData();
+
+    expect(exported.success).toBe(true);
+    const written = (FileSystem.writeAsStringAsync as jest.Mock).mock.calls.find(
+      ([path]) => path === exported.filePath
+    );
+    const exportData = JSON.parse(written[1]);
+    expect(exportData.data).toEqual(baselineExport.data);
+    expect(Object.values(exportData.schemaVersions)).toEqual(baselineExport.keys.map(() => 1));
+
+    const reimport = await importData(written[1], { dryRun: true });
+    expect(reimport.report!.totals).toEqual({
+      added: 0,
+      updated: 0,
+      unchanged: baselineExport.keys.length,
+      dropped: 0,
+    });
+  });
+
+  it('skips keys written with a newer schema', async () => {
+    const newer = { ...baselineExport, dataVersion: 2, schemaVersions: { moodleaf_coach_corrections: 2 } };
+    const result = await importData(JSON.stringify(newer));
+
+    expect(result.importedKeys).not.toContain('moodleaf_coach_corrections');
+    const keyReport = result.report!.keys.find(k => k.key === 'moodleaf_coach_corrections');
+    expect(keyReport?.skipped).toMatch(/newer version/);
+  });
+});
+
+describe('compareVersionVectors', () => {
+  it('orders vectors where one device saw everything the other did', () => {
+    expect(compareVersionVectors({ phone: 2, tablet: 1 }, { phone: 2, tablet: 1 })).toBe('equal');
+    expect(compareVersionVectors({ phone: 1 }, { phone: 2, tablet: 1 })).toBe('before');
+    expect(compareVersionVectors({ phone: 3, tablet: 1 }, { phone: 2 })).toBe('after');
+  });
+
+  it('detects concurrent edits', () => {
+    expect(compareVersionVectors({ phone: 2, tablet: 1 }, { phone: 1, tablet: 2 })).toBe('concurrent');
+  });
+});
+
+describe('mergeSyncValues', () => {
+  describe('union', () => {
+    const entry = (id: string, text: string, updatedAt: string) => ({ id, text, updatedAt });
+
+    it('keeps records added on either device', () => {
+      const merged = mergeSyncValues(
+        'union',
+        { value: [entry('a', 'from phone', '2024-05-01T08:00:00Z')], modifiedAt: '2024-05-01T08:00:00Z' },
+        { value: [entry('b', 'from tablet', '2024-05-01T09:00:00Z')], modifiedAt: '2024-05-01T09:00:00Z' }
+      );
+      expect(merged.value.map((e: { id: string }) => e.id)).toEqual(['b', 'a']);
+      expect(merged.modifiedAt).toBe('2024-05-01T09:00:00Z');
+    });
+
+    it('takes the newer copy of a record edited on both devices', () => {
+      const merged = mergeSyncValues(
+        'union',
+        { value: [entry('a', 'phone edit', '2024-05-02T10:00:00Z')], modifiedAt: '2024-05-02T10:00:00Z' },
+        { value: [entry('a', 'tablet edit', '2024-05-02T09:00:00Z')], modifiedAt: '2024-05-02T09:00:00Z' }
+      );
+      expect(merged.value).toEqual([entry('a', 'phone edit', '2024-05-02T10:00:00Z')]);
+    });
+
+    it('drops records tombstoned on either device and keeps the tombstones', () => {
+      const merged = mergeSyncValues(
+        'union',
+        {
+          value: [entry('b', 'kept', '2024-05-03T08:00:00Z')],
+          modifiedAt: '2024-05-03T08:00:00Z',
+          deleted: ['a'],
+        },
+        {
+          value: [entry('a', 'edited after the delete', '2024-05-03T09:00:00Z'), entry('b', 'kept', '2024-05-03T08:00:00Z')],
+          modifiedAt: '2024-05-03T09:00:00Z',
+          deleted: ['c'],
+        }
+      );
+      expect(merged.value).toEqual([entry('b', 'kept', '2024-05-03T08:00:00Z')]);
+      expect([...(merged.deleted || [])].sort()).toEqual(['a', 'c']);
+    });
+
+    it('is used for journal entries and last-writer-wins for settings', () => {
+      expect(getMergeStrategy('journal_entries')).toBe('union');
+      expect(getMergeStrategy('moodleaf_safety_config')).toBe('lww');
+    });
+  });
+
+  describe('last writer wins', () => {
+    const phone = { value: { maxResponseLength: 200 }, modifiedAt: '2024-05-04T08:00:00Z' };
+    const tablet = { value: { maxResponseLength: 400 }, modifiedAt: '2024-05-04T09:00:00Z' };
+
+    it('takes whichever side changed last', () => {
+      expect(mergeSyncValues('lww', phone, tablet)).toBe(tablet);
+      expect(mergeSyncValues('lww', tablet, phone)).toBe(tablet);
+    });
+
+    it('keeps the local value on a tie', () => {
+      const tie = { ...tablet, modifiedAt: phone.modifiedAt };
+      expect(mergeSyncValues('lww', phone, tie)).toBe(phone);
+    });
+  });
+});
+
+describe('runSync against the sync server', () => {
+  const devices = { phone: new Map<string, string>(), tablet: new Map<string, string>() };
+  const realFetch = global.fetch;
+  let account: ReturnType<typeof createAccount>;
+
+  /** Run on one device: swap its storage in, drop in-memory caches, save it back */
+  async function onDevice<T>(name: keyof typeof devices, run: () => Promise<T>): Promise<T> {
+    await AsyncStorage.clear();
+    await AsyncStorage.multiSet(Array.from(devices[name]));
+    setDecoyMode(true);
+    setDecoyMode(false);
+    const result = await run();
+    const keys = await AsyncStorage.getAllKeys();
+    devices[name] = new Map((await AsyncStorage.multiGet(keys)) as [string, string][]);
+    return result;
+  }
+
+  const entry = (id: string, text: string, createdAt: string) => ({ id, text, createdAt, updatedAt: createdAt });
+
+  beforeAll(async () => {
+    account = createAccount();
+    global.fetch = jest.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+      const { status, body } = handleSync(account, JSON.parse(String(init?.body)));
+      const json = JSON.parse(JSON.stringify(body));
+      return { ok: status < 400, status, json: async () => json } as Response;
+    });
+
+    for (const name of ['phone', 'tablet'] as const) {
+      await onDevice(name, () => updateSyncConfig({ enabled: true, endpoint: 'http://sync.test/sync' }));
+    }
+    await onDevice('phone', async () => {
+      expect((await unlockCloudSync('correct horse battery')).success).toBe(true);
+    });
+  });
+
+  afterAll(() => {
+    global.fetch = realFetch;
+  });
+
+  it('merges concurrent journal edits and settles without pushing again', async () => {
+    await onDevice('phone', async () => {
+      await saveEntry(entry('a', 'written on the phone', '2024-05-01T08:00:00.000Z'));
+      expect((await syncToCloud()).syncedKeys).toContain('journal_entries');
+    });
+
+    await onDevice('tablet', async () => {
+      expect((await syncToCloud()).pulledKeys).toContain('journal_entries');
+      await saveEntry(entry('b', 'written on the tablet', '2024-05-02T08:00:00.000Z'));
+      expect((await syncToCloud()).syncedKeys).toContain('journal_entries');
+    });
+
+    await onDevice('phone', async () => {
+      // Edited after the tablet's entry, so merge order differs from storage order
+      await updateEntry('a', { text: 'edited on the phone' });
+      const merged = await syncToCloud();
+      expect(merged.success).toBe(true);
+      expect(merged.mergedKeys).toContain('journal_entries');
+      expect(merged.syncedKeys).toContain('journal_entries');
+
+      const again = await syncToCloud();
+      expect(again.syncedKeys).toEqual([]);
+      expect(again.mergedKeys).toEqual([]);
+    });
+
+    const tabletEntries = await onDevice('tablet', async () => {
+      expect((await syncToCloud()).pulledKeys).toContain('journal_entries');
+      return getAllEntries();
+    });
+    expect(tabletEntries.map(e => [e.id, e.text]).sort()).toEqual([
+      ['a', 'edited on the phone'],
+      ['b', 'written on the tablet'],
+    ]);
+  });
+});
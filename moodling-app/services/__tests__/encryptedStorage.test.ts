@@ -0,0 +1,61 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import EncryptedStorage, {
+  destroyStorageKey,
+  getEncryptedStorageStatus,
+  setStoragePin,
+  unlockEncryptedStorage,
+} from '../encryptedStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const WRAPPED_KEY = 'moodleaf_storage_key_wrapped';
+
+describe('storage PIN', () => {
+  beforeEach(async () => {
+    await destroyStorageKey();
+    await AsyncStorage.clear();
+  });
+
+  it('keeps the PIN-wrapped key in the keystore, not app storage', async () => {
+    await EncryptedStorage.setItem('@moodling/journal_entry_1', 'Dear diary');
+    await setStoragePin('correct horse');
+
+    expect(await AsyncStorage.getItem(WRAPPED_KEY)).toBeNull();
+    expect(await SecureStore.getItemAsync(WRAPPED_KEY)).not.toBeNull();
+    expect(await getEncryptedStorageStatus()).toMatchObject({ pinEnabled: true, keyLocation: 'pin' });
+    expect((await unlockEncryptedStorage('correct horse')).unlocked).toBe(true);
+    expect(await EncryptedStorage.getItem('@moodling/journal_entry_1')).toBe('Dear diary');
+  });
+
+  it('moves a wrapped key left in app storage into the keystore', async () => {
+    await setStoragePin('correct horse');
+    const wrapped = await SecureStore.getItemAsync(WRAPPED_KEY);
+    await SecureStore.deleteItemAsync(WRAPPED_KEY);
+    await AsyncStorage.setItem(WRAPPED_KEY, wrapped!);
+
+    expect((await getEncryptedStorageStatus()).pinEnabled).toBe(true);
+    expect(await AsyncStorage.getItem(WRAPPED_KEY)).toBeNull();
+    expect(await SecureStore.getItemAsync(WRAPPED_KEY)).toBe(wrapped);
+  });
+
+  it('refuses short PINs', async () => {
+    await expect(setStoragePin('1234')).rejects.toThrow(/at least 6/);
+  });
+
+  it('locks out unlocking after repeated wrong PINs', async () => {
+    await setStoragePin('correct horse');
+
+    expect(await unlockEncryptedStorage('wrong one')).toEqual({ unlocked: false });
+    await unlockEncryptedStorage('wrong two');
+    const third = await unlockEncryptedStorage('wrong three');
+    expect(third.unlocked).toBe(false);
+    expect(third.lockedUntil).toBeInstanceOf(Date);
+
+    const correct = await unlockEncryptedStorage('correct horse');
+    expect(correct.unlocked).toBe(false);
+    expect(correct.lockedUntil).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  KeyDerivationParams,
+  base64ToBytes,
+  bytesToBase64,
+  createKeyDerivationParams,
+  decryptString,
+  deriveKeyFromPassphrase,
+  encryptString,
+  generateKey,
+  isEncryptedEnvelope,
+} from '../encryptionService';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
+
+// Cheap scrypt cost so the tests stay fast; production uses createKeyDerivationParams()
+function testParams(): KeyDerivationParams {
+  return { ...createKeyDerivationParams(), N: 2 ** 10 };
+}
+
+describe('encryptString / decryptString', () => {
+  const key = generateKey();
+
+  it('round-trips text, including non-ASCII', () => {
+    const plaintext = 'Felt calmer after the walk 🌿 — día tranquilo';
+    const envelope = encryptString(key, plaintext, 'journal_entries');
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+    expect(envelope.ct).not.toContain('walk');
+    expect(decryptString(key, envelope, 'journal_entries')).toBe(plaintext);
+  });
+
+  it('uses a fresh nonce for every encryption', () => {
+    const first = encryptString(key, 'same text');
+    const second = encryptString(key, 'same text');
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ct).not.toBe(second.ct);
+  });
+
+  it('rejects the wrong key', () => {
+    const envelope = encryptString(key, 'secret');
+    expect(() => decryptString(generateKey(), envelope)).toThrow();
+  });
+
+  it('rejects mismatched associated data', () => {
+    const envelope = encryptString(key, 'secret', 'moodleaf_conversations');
+    expect(() => decryptString(key, envelope, 'moodleaf_score_history')).toThrow();
+    expect(() => decryptString(key, envelope)).toThrow();
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const envelope = encryptString(key, 'secret');
+    const bytes = base64ToBytes(envelope.ct);
+    bytes[0] ^= 1;
+    expect(() => decryptString(key, { ...envelope, ct: bytesToBase64(bytes) })).toThrow();
+  });
+
+  it('rejects unknown envelope versions', () => {
+    const envelope = encryptString(key, 'secret');
+    expect(() => decryptString(key, { ...envelope, v: 2 })).toThrow(/Unsupported envelope/);
+  });
+});
+
+describe('deriveKeyFromPassphrase', () => {
+  it('derives the same key for the same passphrase and salt', async () => {
+    const params = testParams();
+    const envelope = encryptString(await deriveKeyFromPassphrase('correct horse', params), 'synced');
+    const again = await deriveKeyFromPassphrase('correct horse', params);
+    expect(decryptString(again, envelope)).toBe('synced');
+  });
+
+  it('derives a key that cannot open data from another passphrase or salt', async () => {
+    const params = testParams();
+    const envelope = encryptString(await deriveKeyFromPassphrase('correct horse', params), 'synced');
+    const wrongPassphrase = await deriveKeyFromPassphrase('battery staple', params);
+    const wrongSalt = await deriveKeyFromPassphrase('correct horse', testParams());
+    expect(() => decryptString(wrongPassphrase, envelope)).toThrow();
+    expect(() => decryptString(wrongSalt, envelope)).toThrow();
+  });
+
+  it('requires a passphrase', async () => {
+    await expect(deriveKeyFromPassphrase('', testParams())).rejects.toThrow('Passphrase is required');
+  });
+});
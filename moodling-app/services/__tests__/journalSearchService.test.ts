@@ -0,0 +1,118 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { JournalEntry } from '@/types/JournalEntry';
+import { setDecoyMode } from '../encryptedStorage';
+import {
+  detectEntryTags,
+  indexEntry,
+  parseSearchQuery,
+  rebuildSearchIndex,
+  removeEntryFromIndex,
+  searchEntries,
+} from '../journalSearchService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../journalStorage', () => {
+  const entries = new Map<string, JournalEntry>();
+  return {
+    __entries: entries,
+    getAllEntries: async () => Array.from(entries.values()),
+    getEntryById: async (id: string) => entries.get(id) ?? null,
+  };
+});
+jest.mock('../quickLogsService', () => ({
+  getAllQuickLogs: async () => [{ name: 'Took meds' }],
+}));
+
+const entries: Map<string, JournalEntry> = jest.requireMock('../journalStorage').__entries;
+
+function makeEntry(id: string, text: string): JournalEntry {
+  const now = new Date().toISOString();
+  return { id, text, createdAt: now, updatedAt: now };
+}
+
+async function save(id: string, text: string): Promise<void> {
+  const entry = makeEntry(id, text);
+  entries.set(id, entry);
+  await indexEntry(entry);
+}
+
+/** Drop the in-memory index so the next search loads it from storage */
+function reloadIndex(): void {
+  setDecoyMode(true);
+  setDecoyMode(false);
+}
+
+async function searchIds(query: string): Promise<string[]> {
+  return (await searchEntries(query, { limit: 100 })).map(result => result.entryId).sort();
+}
+
+describe('detectEntryTags', () => {
+  it('matches keywords as whole words', async () => {
+    expect(await detectEntryTags('Her outfit had real pizzazz')).not.toContain('food:pizza_slice');
+    expect(await detectEntryTags('Reading about microchips')).not.toContain('food:fries');
+  });
+
+  it('accepts plurals, possessives and multi-word keywords', async () => {
+    expect(await detectEntryTags('Two hamburgers at lunch')).toContain('food:burger');
+    expect(await detectEntryTags("Grabbed lunch at Wendy's")).toContain('food:burger');
+    expect(await detectEntryTags('Ice cream after dinner')).toContain('food:ice_cream');
+  });
+
+  it('matches quick-log names on word boundaries', async () => {
+    expect(await detectEntryTags('Took meds after breakfast')).toContain('log:took_meds');
+    expect(await detectEntryTags('Mistook medsheets for notes')).not.toContain('log:took_meds');
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('expands mood filters to every matching mood', () => {
+    expect(parseSearchQuery('mood:negative').filters.moods).toEqual(
+      expect.arrayContaining(['negative', 'slightly_negative', 'very_negative'])
+    );
+  });
+
+  it('keeps an unknown mood as a search term instead of dropping it', () => {
+    const parsed = parseSearchQuery('mood:happy walk');
+    expect(parsed.filters.moods).toBeUndefined();
+    expect(parsed.terms).toEqual(['happy', 'walk']);
+  });
+});
+
+describe('search index', () => {
+  beforeEach(async () => {
+    entries.clear();
+    await AsyncStorage.clear();
+    await rebuildSearchIndex();
+  });
+
+  it('keeps saves, edits and deletes across a reload', async () => {
+    await save('1', 'Long walk with my sister');
+    await save('2', 'Rainy day, stayed inside');
+    await save('1', 'Quiet evening reading');
+    await removeEntryFromIndex('2');
+    entries.delete('2');
+
+    reloadIndex();
+
+    expect(await searchIds('walk')).toEqual([]);
+    expect(await searchIds('reading')).toEqual(['1']);
+    expect(await searchIds('rainy')).toEqual([]);
+  });
+
+  it('writes a delta per change and folds them into the index later', async () => {
+    const deltaKeys = async () =>
+      (await AsyncStorage.getAllKeys()).filter(key => key.startsWith('@moodling/journal_search_delta/'));
+
+    await save('1', 'First entry');
+    expect(await deltaKeys()).toHaveLength(1);
+
+    for (let i = 2; i <= 60; i++) await save(String(i), `Entry number ${i}`);
+    expect((await deltaKeys()).length).toBeLessThan(50);
+
+    reloadIndex();
+    expect(await searchIds('first')).toEqual(['1']);
+    expect(await searchIds('entry')).toHaveLength(60);
+  });
+});
@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { JournalEntry } from '@/types/JournalEntry';
+import { setDecoyMode } from '../encryptedStorage';
+import {
+  clearMemoryIndex,
+  registerEmbeddingProvider,
+  retrieveRelevantMemories,
+  syncMemoryIndex,
+  updateRetrievalSettings,
+} from '../memoryRetrievalService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../journalStorage', () => {
+  const entries: JournalEntry[] = [];
+  return {
+    __entries: entries,
+    getAllEntries: async () => entries,
+  };
+});
+jest.mock('../memoryTierService', () => ({
+  getCurrentSession: async () => null,
+  getMidTermMemories: async () => [],
+  getPendingForCompression: async () => [],
+}));
+jest.mock('../llmProviderService', () => ({
+  estimateTokens: (text: string) => Math.ceil(text.length / 4),
+  getProviderConfig: async () => ({}),
+}));
+
+const entries: JournalEntry[] = jest.requireMock('../journalStorage').__entries;
+
+const WORDS = [
+  'walked', 'sister', 'rain', 'coffee', 'meeting', 'tired', 'anxious', 'calm', 'garden', 'friend',
+  'music', 'dinner', 'slept', 'early', 'late', 'called', 'mother', 'running', 'park', 'reading',
+  'deadline', 'laughed', 'cried', 'cooked', 'train', 'office', 'headache', 'sunshine', 'dog', 'therapy',
+];
+
+/** A ~600 character entry with varied wording, one chunk each */
+function makeEntry(day: number): JournalEntry {
+  let text = `Day ${day}.`;
+  for (let i = 0; text.length < 580; i++) {
+    text += ` ${WORDS[(day * 7 + i * 13 + (i * i) % 11) % WORDS.length]}${i % 9 === 8 ? '.' : ''}`;
+  }
+  const createdAt = new Date(Date.UTC(2020, 0, 1) + day * 86400000).toISOString();
+  return { id: `entry-${day}`, text, createdAt, updatedAt: createdAt };
+}
+
+async function storedIndexSizes(): Promise<number[]> {
+  const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith('moodleaf_memory_index'));
+  const pairs = await AsyncStorage.multiGet(keys);
+  return pairs.map(([, value]) => value?.length ?? 0);
+}
+
+/** Drop the in-memory index so the next read loads it from storage */
+function reloadIndex(): void {
+  setDecoyMode(true);
+  setDecoyMode(false);
+}
+
+describe('memory index storage', () => {
+  beforeEach(async () => {
+    entries.length = 0;
+    await AsyncStorage.clear();
+    await clearMemoryIndex();
+    await updateRetrievalSettings({ embeddingProvider: 'hashing' });
+  });
+
+  it('splits a full index into rows well below the per-row limit', async () => {
+    for (let day = 0; day < 1500; day++) entries.push(makeEntry(day));
+    expect((await syncMemoryIndex({ force: true })).added).toBe(1500);
+
+    const sizes = await storedIndexSizes();
+    expect(sizes.length).toBeGreaterThan(2);
+    sizes.forEach(size => expect(size).toBeLessThan(512 * 1024));
+
+    reloadIndex();
+    const oldest = await retrieveRelevantMemories(entries[0].text, { limit: 1 });
+    expect(oldest[0]?.chunk.sourceId).toBe('entry-0');
+  });
+
+  it('trims the oldest chunks when model vectors push past the size cap', async () => {
+    registerEmbeddingProvider({
+      id: 'test:dense',
+      embed: async texts => texts.map((_, t) => Array.from({ length: 768 }, (_, i) => Math.sin(t * 768 + i + 1))),
+    });
+    await updateRetrievalSettings({ embeddingProvider: 'test:dense' });
+    for (let day = 0; day < 400; day++) entries.push(makeEntry(day));
+    for (let sync = 0; sync < 4; sync++) await syncMemoryIndex({ force: true });
+
+    const sizes = await storedIndexSizes();
+    sizes.forEach(size => expect(size).toBeLessThan(512 * 1024));
+    expect(sizes.reduce((sum, size) => sum + size, 0)).toBeLessThan(2.5 * 1024 * 1024);
+
+    // Trimmed entries aren't indexed again
+    reloadIndex();
+    expect((await syncMemoryIndex({ force: true })).added).toBe(0);
+    const kept = (await retrieveRelevantMemories(entries[0].text, { limit: 400, minScore: -1 })).map(m => m.chunk.sourceId);
+    expect(kept.length).toBeGreaterThan(0);
+    expect(kept).not.toContain('entry-0');
+    expect(kept).toContain('entry-399');
+  });
+});
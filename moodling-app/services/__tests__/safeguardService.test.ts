@@ -0,0 +1,140 @@
+import {
+  assessConversationRisk,
+  checkSafeguards,
+  severityForScore,
+} from '../safeguardService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('checkSafeguards', () => {
+  it('triggers on a direct statement', () => {
+    const result = checkSafeguards('I want to kill myself');
+    expect(result.triggered).toBe(true);
+    expect(result.category).toBe('self_harm');
+  });
+
+  it('does not trigger on a negated statement', () => {
+    expect(checkSafeguards("I would never hurt myself, don't worry").triggered).toBe(false);
+  });
+
+  it('triggers when the negation itself is in doubt', () => {
+    expect(checkSafeguards("I'm not sure I won't kill myself").triggered).toBe(true);
+    expect(checkSafeguards("I don't know if I won't hurt myself tonight").triggered).toBe(true);
+    expect(checkSafeguards("I'm sure I won't hurt myself").triggered).toBe(false);
+  });
+
+  describe('quotes', () => {
+    it('treats first-person quotes as the person\'s own words', () => {
+      expect(checkSafeguards('I keep thinking "I want to die"').triggered).toBe(true);
+      expect(checkSafeguards('I wrote "I want to kill myself" in my diary').triggered).toBe(true);
+    });
+
+    it('treats unattributed quotes as the person\'s own words', () => {
+      expect(checkSafeguards('"I want to die"').triggered).toBe(true);
+    });
+
+    it('needs a speech verb or source, not just a pronoun, to attribute a quote', () => {
+      expect(checkSafeguards('she doesn\'t know that "I want to die"').triggered).toBe(true);
+      expect(checkSafeguards('they keep asking and "I want to die"').triggered).toBe(true);
+    });
+
+    it('discounts quotes attributed to someone else', () => {
+      expect(checkSafeguards('The song goes "I want to die" and it is so catchy').triggered).toBe(false);
+      expect(checkSafeguards('"I want to die," she said in the movie').triggered).toBe(false);
+    });
+  });
+});
+
+describe('cutting', () => {
+  it.each([
+    ['en', 'I keep cutting myself'],
+    ['es', 'quiero cortarme las venas'],
+    ['fr', 'je veux me couper les veines'],
+    ['de', 'ich will mich ritzen'],
+  ])('%s: catches "%s"', (_language, message) => {
+    expect(checkSafeguards(message).triggered).toBe(true);
+  });
+
+  it.each([
+    ['en', 'I am going to cut my hair short'],
+    ['es', 'voy a cortarme el pelo'],
+    ['es', 'tengo que cortarme las uñas'],
+    ['fr', 'je vais me couper les cheveux'],
+    ['fr', 'je dois me couper les ongles'],
+    ['de', 'ich lasse mir morgen die haare schneiden'],
+  ])('%s: ignores "%s"', (_language, message) => {
+    expect(checkSafeguards(message).triggered).toBe(false);
+  });
+});
+
+describe('typo tolerance', () => {
+  it.each([
+    ['en', 'i wnat to die'],
+    ['en', 'kil myself'],
+    ['en', 'i want to hrut myself'],
+    ['es', 'quiero quitarme la vdia'],
+    ['es', 'me quiero sucidar'],
+    ['fr', 'je vuex mourir'],
+    ['fr', 'je vais me teur'],
+    ['de', 'ich will mihc ritzen'],
+    ['de', 'es gibt kien grund zu leben'],
+  ])('%s: catches "%s"', (_language, message) => {
+    const result = checkSafeguards(message);
+    expect(result.triggered).toBe(true);
+    expect(result.category).toBe('self_harm');
+  });
+
+  it.each([
+    'I am going to tape her show tonight',
+    'we went to the dine-in',
+    'i wnat to dye my hair',
+  ])('ignores "%s"', message => {
+    expect(checkSafeguards(message).triggered).toBe(false);
+  });
+});
+
+describe('assessConversationRisk', () => {
+  it('catches risk that builds over several messages', () => {
+    const history = [
+      'Everything feels hopeless lately',
+      'I feel like such a burden to everyone',
+      'There is no way out of this',
+    ];
+    const assessment = assessConversationRisk('I cant go on like this', history);
+    expect(assessment.category).toBe('self_harm');
+    expect(assessment.severity).toMatch(/high|critical/);
+  });
+
+  it('adds up a run of distress messages', () => {
+    const history = [
+      'I feel so hopeless',
+      'Honestly I feel worthless',
+      'I feel trapped at work and at home',
+      'Nothing matters anymore',
+      'I am tired of everything',
+    ];
+    const assessment = assessConversationRisk('nobody would miss me', history);
+    expect(assessment.category).toBe('self_harm');
+    expect(assessment.severity).toMatch(/high|critical/);
+  });
+
+  it('does not trigger on a single distress signal', () => {
+    const history = ['Work was busy today', 'Had pasta for dinner'];
+    const assessment = assessConversationRisk('I feel a bit hopeless about the project', history);
+    expect(severityForScore(assessment.score)).not.toMatch(/high|critical/);
+  });
+
+  it('only looks at the current message with a window of one', () => {
+    const history = ['I feel so hopeless', 'I feel like such a burden', 'There is no way out'];
+    const assessment = assessConversationRisk('I am tired of everything', history, 1);
+    expect(assessment.messagesConsidered).toBe(1);
+    expect(assessment.score).toBe(assessConversationRisk('I am tired of everything', []).score);
+  });
+
+  it('does not re-trigger on the reply after a crisis message', () => {
+    const assessment = assessConversationRisk('Thanks, I called the line and I feel safer', ['I want to die']);
+    expect(severityForScore(assessment.score)).not.toMatch(/high|critical/);
+  });
+});
@@ -15,6 +15,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, warn, error as logError } from './loggingService';
 import * as Calendar from 'expo-calendar';
 import { Platform } from 'react-native';
+import { requestNotification } from './notificationSchedulerService';
 
 // Optional dependencies - may not be installed
 let Notifications: typeof import('expo-notifications') | null = null;
@@ -975,15 +976,15 @@ export async function sendLimitAlertNotification(
       break;
   }
 
-  if (!Notifications) return;
-
-  await Notifications.scheduleNotificationAsync({
-    content: {
-      title,
-      body,
-      data: { type: 'limit_alert', twigName },
-    },
-    trigger: null, // Immediate
+  // Right away unless it's quiet hours; dropped if still held after 3 hours
+  await requestNotification({
+    id: `limit_${twigName}_${status}`,
+    source: 'limit_alert',
+    priority: 'high',
+    title,
+    body,
+    expiresAt: new Date(Date.now() + 3 * 60 * 60 * 1000).toISOString(),
+    data: { type: 'limit_alert', twigName },
   });
 }
 
@@ -0,0 +1,370 @@
+/**
+ * App Lock Service
+ *
+ * PIN / passphrase lock that works on every platform, alongside the
+ * voice and face modes in biometricSecurityService.
+ *
+ * Features:
+ * 1. Lock on launch and after inactivity (foreground idle or time away)
+ * 2. Privacy screen - content is covered while the app is inactive, so the
+ *    app-switcher snapshot shows nothing, and screenshots are blocked on
+ *    Android via expo-screen-capture
+ * 3. Duress PIN - unlocks into an empty decoy journal (encryptedStorage
+ *    decoy scope); real entries are never read while it is active
+ *
+ * Failed attempts use the shared SecurityState, so a lockout started by
+ * voice or face also blocks the PIN and vice versa.
+ *
+ * Following Mood Leaf Ethics:
+ * - PINs are stored only as salted scrypt hashes
+ * - Off by default; the user decides how strict it is
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as ScreenCapture from 'expo-screen-capture';
+import {
+  KeyDerivationParams,
+  bytesToBase64,
+  createKeyDerivationParams,
+  deriveKeyFromPassphrase,
+} from './encryptionService';
+import { setDecoyMode, isDecoyMode } from './encryptedStorage';
+import {
+  AuthenticationResult,
+  SecuritySettings,
+  getSecuritySettings,
+  saveSecuritySettings,
+  getSecurityState,
+  getActiveLockout,
+  recordAuthOutcome,
+} from './biometricSecurityService';
+import { info, warn } from './loggingService';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const STORAGE_KEY = '@moodleaf_app_lock';
+
+const SCREEN_CAPTURE_TAG = 'app_lock';
+
+/** How often the foreground idle timer is checked */
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AppLockState {
+  /** Lock screen is showing */
+  locked: boolean;
+  /** Unlocked with the duress PIN */
+  decoy: boolean;
+  /** App is inactive/backgrounded and the privacy cover is showing */
+  obscured: boolean;
+}
+
+export interface AppLockOptions {
+  autoLockMinutes: number;
+  privacyScreenEnabled: boolean;
+}
+
+interface PinVerifier {
+  kdf: KeyDerivationParams;
+  hash: string;
+}
+
+interface StoredPins {
+  pin?: PinVerifier;
+  duress?: PinVerifier;
+}
+
+// ============================================
+// STATE
+// ============================================
+
+let lockState: AppLockState = { locked: false, decoy: false, obscured: false };
+let settings: SecuritySettings | null = null;
+let lastActivity = Date.now();
+let backgroundedAt: number | null = null;
+let initialized = false;
+const listeners = new Set<(state: AppLockState) => void>();
+
+function setLockState(update: Partial<AppLockState>): void {
+  lockState = { ...lockState, ...update };
+  listeners.forEach(listener => listener(lockState));
+}
+
+function isLockEnabled(): boolean {
+  return settings?.pinLockEnabled === true;
+}
+
+/**
+ * Subscribe to lock state changes. Returns an unsubscribe function.
+ */
+export function subscribeAppLock(listener: (state: AppLockState) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getAppLockState(): AppLockState {
+  return lockState;
+}
+
+// ============================================
+// PIN STORAGE
+// ============================================
+
+async function readPins(): Promise<StoredPins> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('[AppLock] Failed to read PINs:', error);
+    return {};
+  }
+}
+
+async function writePins(pins: StoredPins): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(pins));
+}
+
+async function createVerifier(pin: string): Promise<PinVerifier> {
+  const kdf = createKeyDerivationParams();
+  return { kdf, hash: bytesToBase64(await deriveKeyFromPassphrase(pin, kdf)) };
+}
+
+async function matches(pin: string, verifier: PinVerifier | undefined): Promise<boolean> {
+  if (!pin || !verifier) return false;
+  return bytesToBase64(await deriveKeyFromPassphrase(pin, verifier.kdf)) === verifier.hash;
+}
+
+// ============================================
+// LOCKING
+// ============================================
+
+function lock(reason: string): void {
+  if (!isLockEnabled() || lockState.locked) return;
+  setLockState({ locked: true });
+  info('privacy', 'App locked', { reason }, 'appLockService');
+}
+
+/**
+ * Record user interaction (resets the foreground idle timer)
+ */
+export function noteAppLockActivity(): void {
+  lastActivity = Date.now();
+}
+
+function checkIdle(): void {
+  if (!settings || !isLockEnabled() || lockState.locked || settings.autoLockMinutes <= 0) return;
+  if (Date.now() - lastActivity >= settings.autoLockMinutes * 60000) {
+    lock('idle');
+  }
+}
+
+function handleAppStateChange(nextState: AppStateStatus): void {
+  if (nextState === 'active') {
+    if (backgroundedAt !== null && settings && Date.now() - backgroundedAt >= settings.autoLockMinutes * 60000) {
+      lock('background');
+    }
+    backgroundedAt = null;
+    lastActivity = Date.now();
+    setLockState({ obscured: false });
+    return;
+  }
+
+  // iOS takes the app-switcher snapshot on 'inactive'
+  if (settings?.privacyScreenEnabled) setLockState({ obscured: true });
+  if (nextState === 'background' && backgroundedAt === null) backgroundedAt = Date.now();
+}
+
+async function applyScreenCapturePolicy(): Promise<void> {
+  try {
+    if (settings?.privacyScreenEnabled && isLockEnabled()) {
+      await ScreenCapture.preventScreenCaptureAsync(SCREEN_CAPTURE_TAG);
+    } else {
+      await ScreenCapture.allowScreenCaptureAsync(SCREEN_CAPTURE_TAG);
+    }
+  } catch (error) {
+    console.error('[AppLock] Failed to update screen capture policy:', error);
+  }
+}
+
+/**
+ * Load settings and start watching app state. Locks immediately when the
+ * app lock is on, so the duress PIN is available at every launch.
+ */
+export async function initAppLock(): Promise<AppLockState> {
+  settings = await getSecuritySettings();
+  if (isLockEnabled()) {
+    lock('launch');
+  }
+
+  if (!initialized) {
+    initialized = true;
+    AppState.addEventListener('change', handleAppStateChange);
+    setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+  }
+
+  await applyScreenCapturePolicy();
+  return lockState;
+}
+
+// ============================================
+// UNLOCKING
+// ============================================
+
+/**
+ * Unlock with the PIN or the duress PIN.
+ * The duress PIN looks like a normal unlock but opens the decoy journal.
+ */
+export async function unlockApp(pin: string): Promise<AuthenticationResult> {
+  const lockout = getActiveLockout(await getSecurityState());
+  if (lockout) {
+    return {
+      authenticated: false,
+      method: 'pin',
+      confidence: 0,
+      anomalies: [],
+      blockReason: `Locked out until ${lockout.toISOString()}`,
+    };
+  }
+
+  const pins = await readPins();
+  const isOwner = await matches(pin, pins.pin);
+  const isDuress = !isOwner && settings?.duressPinEnabled === true && (await matches(pin, pins.duress));
+  const authenticated = isOwner || isDuress;
+
+  const result: AuthenticationResult = {
+    authenticated,
+    method: 'pin',
+    confidence: authenticated ? 100 : 0,
+    recognizedAs: authenticated ? 'owner' : undefined,
+    userLabel: authenticated ? 'Owner' : undefined,
+    accessLevel: authenticated ? 'owner' : undefined,
+    anomalies: [],
+    decoy: isDuress || undefined,
+  };
+
+  // Duress unlocks are recorded as ordinary successes so nothing looks different
+  await recordAuthOutcome(result);
+
+  if (!authenticated) {
+    warn('privacy', 'App unlock failed', undefined, 'appLockService');
+    return result;
+  }
+
+  setDecoyMode(isDuress);
+  lastActivity = Date.now();
+  setLockState({ locked: false, decoy: isDuress });
+  return result;
+}
+
+// ============================================
+// SETTINGS
+// ============================================
+
+/**
+ * Turn the app lock on, or change its PIN.
+ * Changing an existing PIN requires the current one.
+ */
+export async function setAppLockPin(
+  pin: string,
+  currentPin?: string
+): Promise<{ success: boolean; error?: string }> {
+  const pins = await readPins();
+  if (pins.pin && !(await matches(currentPin ?? '', pins.pin))) {
+    return { success: false, error: 'Current PIN is incorrect' };
+  }
+  if (await matches(pin, pins.duress)) {
+    return { success: false, error: 'PIN must be different from the duress PIN' };
+  }
+
+  await writePins({ ...pins, pin: await createVerifier(pin) });
+  await updateSettings({ pinLockEnabled: true });
+  info('privacy', pins.pin ? 'App lock PIN changed' : 'App lock enabled', undefined, 'appLockService');
+  return { success: true };
+}
+
+/**
+ * Turn the app lock off. Also removes the duress PIN.
+ */
+export async function disableAppLock(currentPin: string): Promise<boolean> {
+  const pins = await readPins();
+  if (pins.pin && !(await matches(currentPin, pins.pin))) return false;
+
+  await AsyncStorage.removeItem(STORAGE_KEY);
+  await updateSettings({ pinLockEnabled: false, duressPinEnabled: false });
+  setLockState({ locked: false });
+  info('privacy', 'App lock disabled', undefined, 'appLockService');
+  return true;
+}
+
+/**
+ * Set (or replace) the duress PIN. Requires the real PIN.
+ */
+export async function setDuressPin(
+  duressPin: string,
+  currentPin: string
+): Promise<{ success: boolean; error?: string }> {
+  const pins = await readPins();
+  if (!pins.pin) {
+    return { success: false, error: 'Turn on the app lock first' };
+  }
+  if (!(await matches(currentPin, pins.pin))) {
+    return { success: false, error: 'Current PIN is incorrect' };
+  }
+  if (duressPin === currentPin) {
+    return { success: false, error: 'Duress PIN must be different from your PIN' };
+  }
+
+  await writePins({ ...pins, duress: await createVerifier(duressPin) });
+  await updateSettings({ duressPinEnabled: true });
+  info('privacy', 'Duress PIN set', undefined, 'appLockService');
+  return { success: true };
+}
+
+/**
+ * Remove the duress PIN. Requires the real PIN.
+ */
+export async function removeDuressPin(currentPin: string): Promise<boolean> {
+  const pins = await readPins();
+  if (!(await matches(currentPin, pins.pin))) return false;
+
+  await writePins({ pin: pins.pin });
+  await updateSettings({ duressPinEnabled: false });
+  return true;
+}
+
+/**
+ * Update auto-lock timing and the privacy screen
+ */
+export async function setAppLockOptions(options: Partial<AppLockOptions>): Promise<void> {
+  await updateSettings(options);
+}
+
+/**
+ * Current app lock configuration. The duress setting is hidden while the
+ * decoy journal is open.
+ */
+export async function getAppLockSettings(): Promise<AppLockOptions & { enabled: boolean; duressEnabled: boolean }> {
+  const current = await getSecuritySettings();
+  return {
+    enabled: current.pinLockEnabled,
+    duressEnabled: current.duressPinEnabled && !isDecoyMode(),
+    autoLockMinutes: current.autoLockMinutes,
+    privacyScreenEnabled: current.privacyScreenEnabled,
+  };
+}
+
+async function updateSettings(update: Partial<SecuritySettings>): Promise<void> {
+  await saveSecuritySettings(update);
+  settings = await getSecuritySettings();
+  await applyScreenCapturePolicy();
+}
@@ -9,6 +9,8 @@
  * 3. Anomaly Detection - Slurring, distress, unusual patterns
  * 4. Authorized Users - Allow trusted people if user wants
  * 5. Intruder Detection - Block access if someone else tries to use
+ * 6. PIN / Passphrase Lock - Simple app lock that works everywhere
+ *    (appLockService), sharing the same lockout state
  *
  * Privacy-first approach:
  * - All biometric data stored locally
@@ -85,7 +87,7 @@ export interface AuthorizedUserPermissions {
  */
 export interface AuthenticationResult {
   authenticated: boolean;
-  method: 'voice' | 'face' | 'both' | 'fallback';
+  method: 'voice' | 'face' | 'both' | 'pin' | 'fallback';
   confidence: number;  // 0-100
 
   // Who was recognized
@@ -98,6 +100,9 @@ export interface AuthenticationResult {
 
   // If blocked, why
   blockReason?: string;
+
+  // Unlocked with the duress PIN (decoy journal)
+  decoy?: boolean;
 }
 
 /**
@@ -157,6 +162,12 @@ export interface SecuritySettings {
   // Notifications
   notifyOnUnknownAccess: boolean;
   notifyOnAnomalies: boolean;
+
+  // PIN / passphrase app lock (appLockService)
+  pinLockEnabled: boolean;
+  autoLockMinutes: number;       // 0 = lock whenever the app leaves the foreground
+  privacyScreenEnabled: boolean; // hide content in the app switcher
+  duressPinEnabled: boolean;     // duress PIN opens an empty decoy journal
 }
 
 /**
@@ -167,7 +178,7 @@ export interface SecurityState {
   lockoutUntil?: string;
   failedAttempts: number;
   lastSuccessfulAuth?: string;
-  lastAuthMethod?: 'voice' | 'face' | 'both';
+  lastAuthMethod?: 'voice' | 'face' | 'both' | 'pin';
   currentSession?: {
     authenticatedAs: string;
     accessLevel: 'owner' | 'authorized';
@@ -212,6 +223,11 @@ const DEFAULT_SETTINGS: SecuritySettings = {
 
   notifyOnUnknownAccess: true,
   notifyOnAnomalies: true,
+
+  pinLockEnabled: false,
+  autoLockMinutes: 5,
+  privacyScreenEnabled: true,
+  duressPinEnabled: false,
 };
 
 const DEFAULT_STATE: SecurityState = {
@@ -276,6 +292,50 @@ async function saveSecurityState(state: SecurityState): Promise<void> {
   }
 }
 
+/**
+ * Lockout end time if failed attempts have locked every auth method out
+ */
+export function getActiveLockout(state: SecurityState): Date | null {
+  if (!state.isLocked || !state.lockoutUntil) return null;
+  const until = new Date(state.lockoutUntil);
+  return new Date() < until ? until : null;
+}
+
+/**
+ * Apply an authentication outcome to the shared state: reset on success,
+ * count failures and start a lockout after maxAttempts.
+ * Used by every method (voice, face, PIN) so lockouts stay consistent.
+ */
+export async function recordAuthOutcome(result: AuthenticationResult): Promise<void> {
+  const settings = await getSecuritySettings();
+  const state = await getSecurityState();
+
+  await logAuthAttempt(result);
+
+  if (result.authenticated) {
+    state.isLocked = false;
+    state.lockoutUntil = undefined;
+    state.failedAttempts = 0;
+    state.lastSuccessfulAuth = new Date().toISOString();
+    if (result.method !== 'fallback') state.lastAuthMethod = result.method;
+    state.currentSession = {
+      authenticatedAs: result.recognizedAs!,
+      accessLevel: result.accessLevel as 'owner' | 'authorized',
+      startedAt: new Date().toISOString(),
+    };
+  } else {
+    state.failedAttempts += 1;
+    if (state.failedAttempts >= settings.maxAttempts) {
+      state.isLocked = true;
+      state.lockoutUntil = new Date(
+        Date.now() + settings.lockoutDuration * 60000
+      ).toISOString();
+    }
+  }
+
+  await saveSecurityState(state);
+}
+
 // ============================================================================
 // Voice Print Management
 // ============================================================================
@@ -442,21 +502,19 @@ export async function enrollFaceProfile(
 export async function authenticateByVoice(
   _audioData: any
 ): Promise<AuthenticationResult> {
-  const settings = await getSecuritySettings();
   const state = await getSecurityState();
   const prints = await getVoicePrints();
 
   // Check if locked out
-  if (state.isLocked && state.lockoutUntil) {
-    if (new Date() < new Date(state.lockoutUntil)) {
-      return {
-        authenticated: false,
-        method: 'voice',
-        confidence: 0,
-        anomalies: [],
-        blockReason: `Locked out until ${state.lockoutUntil}`,
-      };
-    }
+  const lockout = getActiveLockout(state);
+  if (lockout) {
+    return {
+      authenticated: false,
+      method: 'voice',
+      confidence: 0,
+      anomalies: [],
+      blockReason: `Locked out until ${lockout.toISOString()}`,
+    };
   }
 
   // Placeholder - real implementation would do voice matching
@@ -481,30 +539,8 @@ export async function authenticateByVoice(
     anomalies,
   };
 
-  // Log the attempt
-  await logAuthAttempt(result);
-
-  // Update state
-  if (result.authenticated) {
-    state.failedAttempts = 0;
-    state.lastSuccessfulAuth = new Date().toISOString();
-    state.lastAuthMethod = 'voice';
-    state.currentSession = {
-      authenticatedAs: result.recognizedAs!,
-      accessLevel: result.accessLevel as 'owner' | 'authorized',
-      startedAt: new Date().toISOString(),
-    };
-  } else {
-    state.failedAttempts += 1;
-    if (state.failedAttempts >= settings.maxAttempts) {
-      state.isLocked = true;
-      state.lockoutUntil = new Date(
-        Date.now() + settings.lockoutDuration * 60000
-      ).toISOString();
-    }
-  }
-
-  await saveSecurityState(state);
+  // Log the attempt and update state
+  await recordAuthOutcome(result);
 
   return result;
 }
@@ -683,7 +719,7 @@ export async function triggerPanicMode(): Promise<void> {
 
 interface AuthLogEntry {
   timestamp: string;
-  method: 'voice' | 'face' | 'both' | 'fallback';
+  method: AuthenticationResult['method'];
   success: boolean;
   recognizedAs?: string;
   anomalies: AnomalyType[];
@@ -19,17 +19,11 @@ import {
   error as logError,
   startTimer,
   endTimer,
-  logCoachAccess,
   logCoachResponse,
   startSession,
   getCurrentSessionId,
 } from './loggingService';
 import { getToneInstruction, getTonePreferences, ToneStyle } from './tonePreferencesService';
-import { getContextForClaude } from './userContextService';
-import { getLifeContextForClaude } from './lifeContextService';
-import { getHealthContextForClaude, isHealthKitEnabled } from './healthKitService';
-import { getCorrelationSummaryForClaude } from './healthInsightService';
-import { getLogsContextForClaude, getDetailedLogsContextForClaude } from './quickLogsService';
 import {
   getAccountabilityContextForCoach,
   shouldMentionLimits,
@@ -38,19 +32,13 @@ import {
 import { getDrinkPacingContextForCoach } from './drinkPacingService';
 import { getHabitContextForCoach } from './habitTimerService';
 import { getSkillRecommendationsForCoach } from './skillRecommendationService';
-import { psychAnalysisService } from './psychAnalysisService';
 import {
   getCoachSettings,
   generatePersonalityPrompt,
   getAdaptivePersona,
-  getChronotypeContextForClaude,
   PERSONAS,
 } from './coachPersonalityService';
 import { getCoachModeSystemPrompt } from './coachModeService';
-import { getLifestyleFactorsContextForClaude } from './patternService';
-import { getExposureContextForClaude } from './exposureLadderService';
-import { getCalendarContextForClaude, isCalendarEnabled } from './calendarService';
-import { getRecentJournalContextForClaude } from './journalStorage';
 import {
   buildConversationContext as buildControllerContext,
   generateResponseDirectives,
@@ -62,12 +50,10 @@ import {
 } from './conversationController';
 import { scoreExchange } from './humanScoreService';
 import {
-  getMemoryContextForLLM,
   addMessageToSession,
   updateSessionTopics,
+  compressPendingMemories,
 } from './memoryTierService';
-import { getCognitiveProfileContextForLLM } from './cognitiveProfileService';
-import { getConnectionContextForLLM } from './socialConnectionHealthService';
 import {
   getPrincipleContextForLLM,
   validateCoachResponse,
@@ -87,6 +73,28 @@ import {
   markAsCelebrated,
   generateCelebrationMessage,
 } from './achievementNotificationService';
+import {
+  getActiveProvider,
+  registerProviderAdapter,
+  createProviderError,
+  isProviderError,
+  estimateTokens,
+  LLMChatMessage,
+  LLMChatOptions,
+  LLMChatRequest,
+  LLMChatResult,
+  LLMProvider,
+  LLMProviderAdapter,
+  LLMProviderConfig,
+} from './llmProviderService';
+import { providerFetch, readLines } from './llmAdapters';
+import { chatWithFailover, getFailoverChain, hasReadyProvider, FailoverOptions } from './llmFailoverService';
+import {
+  assembleContext,
+  getContextTokenBudget,
+  ContextProvider,
+} from './promptAssemblyService';
+import './coachContextProviders';
 
 // Storage keys
 const API_KEY_STORAGE = 'moodling_claude_api_key';
@@ -148,16 +156,31 @@ export interface ConversationContext {
 }
 
 /**
- * AI Response from Claude or fallback
+ * AI Response from the active LLM provider or fallback
+ * ('llm' = any provider other than Claude)
  */
 export interface AIResponse {
   text: string;
-  source: 'claudeAPI' | 'fallback' | 'crisis';
+  source: 'claudeAPI' | 'llm' | 'fallback' | 'crisis';
   cost: number;
   inputTokens?: number;
   outputTokens?: number;
+  provider?: LLMProvider;
+  model?: string;
+  /** The request was aborted via SendMessageOptions.signal */
+  cancelled?: boolean;
+  /** Present when the reply came through the failover chain */
+  failover?: {
+    attempts: number;
+    providersTried: LLMProvider[];
+  };
 }
 
+/**
+ * Streaming, cancellation and restart hooks for sendMessage
+ */
+export type SendMessageOptions = FailoverOptions;
+
 /**
  * Claude API Request format
  */
@@ -166,6 +189,7 @@ interface ClaudeRequest {
   max_tokens: number;
   system: string;
   messages: { role: string; content: string }[];
+  stream?: boolean;
 }
 
 /**
@@ -180,7 +204,7 @@ interface ClaudeAPIResponse {
 }
 
 // Safeguard service handles all safety detection
-import { checkSafeguards, SafeguardResult } from './safeguardService';
+import { checkSafeguardsInContext, loadSafeguardSettings, SafeguardResult } from './safeguardService';
 import {
   getCoachStylePromptSection,
   getPersonaStylePromptSection,
@@ -448,13 +472,13 @@ function buildConversationContext(context: ConversationContext): string {
 }
 
 /**
- * Build messages array for Claude API
+ * Build messages array for the chat request
  */
 function buildMessages(
   currentMessage: string,
   history: ChatMessage[]
-): { role: string; content: string }[] {
-  const messages: { role: string; content: string }[] = [];
+): LLMChatMessage[] {
+  const messages: LLMChatMessage[] = [];
 
   // Include last 6 messages for context (3 turns)
   for (const msg of history.slice(-6)) {
@@ -533,17 +557,117 @@ export async function removeAPIKey(): Promise<void> {
   }
 }
 
+// ============ Claude Adapter ============
+
+/**
+ * Claude Messages API as an LLM provider adapter.
+ * Uses the key from setAPIKey unless the provider config overrides it.
+ */
+function createClaudeAdapter(): LLMProviderAdapter {
+  const provider: LLMProvider = 'claude';
+
+  return {
+    provider,
+    defaultConfig: { baseURL: CLAUDE_CONFIG.baseURL, model: CLAUDE_CONFIG.model },
+
+    isReady: async (config: LLMProviderConfig) => !!(config.apiKey || (await getAPIKey())),
+
+    chat: async (
+      request: LLMChatRequest,
+      config: LLMProviderConfig,
+      options: LLMChatOptions = {}
+    ): Promise<LLMChatResult> => {
+      const apiKey = config.apiKey || (await getAPIKey());
+      if (!apiKey) {
+        throw createProviderError(provider, 'auth', 'No Claude API key configured');
+      }
+      const model = config.model || CLAUDE_CONFIG.model;
+      const stream = !!options.onToken;
+
+      const body: ClaudeRequest = {
+        model,
+        max_tokens: request.maxTokens,
+        system: request.system,
+        messages: request.messages,
+        ...(stream ? { stream: true } : {}),
+      };
+
+      const response = await providerFetch(
+        provider,
+        config.baseURL || CLAUDE_CONFIG.baseURL,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': CLAUDE_CONFIG.apiVersion,
+            'anthropic-dangerous-direct-browser-access': 'true', // For web testing
+          },
+          body: JSON.stringify(body),
+        },
+        options.signal
+      );
+
+      let text = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      if (stream) {
+        // Server-sent events; text arrives in content_block_delta events
+        await readLines(
+          response,
+          (line) => {
+            if (!line.startsWith('data:')) return;
+            const event = JSON.parse(line.slice(5).trim());
+            if (event.type === 'message_start') {
+              inputTokens = event.message?.usage?.input_tokens ?? 0;
+            } else if (event.type === 'content_block_delta' && event.delta?.text) {
+              text += event.delta.text;
+              options.onToken?.(event.delta.text);
+            } else if (event.type === 'message_delta') {
+              outputTokens = event.usage?.output_tokens ?? outputTokens;
+            } else if (event.type === 'error') {
+              throw createProviderError(
+                provider,
+                event.error?.type === 'overloaded_error' ? 'unavailable' : 'invalid_response',
+                event.error?.message || 'Claude stream error'
+              );
+            }
+          },
+          options.signal
+        );
+      } else {
+        const data: ClaudeAPIResponse = await response.json();
+        text = data.content[0]?.text ?? '';
+        inputTokens = data.usage?.input_tokens ?? 0;
+        outputTokens = data.usage?.output_tokens ?? 0;
+      }
+
+      if (options.signal?.aborted) {
+        throw createProviderError(provider, 'cancelled', 'Request cancelled');
+      }
+
+      return {
+        text,
+        provider,
+        model,
+        inputTokens,
+        outputTokens,
+        cost: calculateCost(inputTokens, outputTokens, model),
+      };
+    },
+  };
+}
+
+registerProviderAdapter(createClaudeAdapter());
+
 // ============ Cost Tracking ============
 
 /**
  * Record API usage cost
  */
-async function recordUsage(
-  inputTokens: number,
-  outputTokens: number,
-  model: string
-): Promise<void> {
-  const cost = calculateCost(inputTokens, outputTokens, model);
+async function recordUsage(cost: number): Promise<void> {
+  if (cost <= 0) return;
 
   try {
     // Check monthly reset
@@ -747,11 +871,13 @@ function detectMoodFromMessage(
 // ============ Main API Function ============
 
 /**
- * Send message to Claude and get response
+ * Send message to the active LLM provider and get response.
+ * Pass options.onToken to stream the reply as it's generated.
  */
 export async function sendMessage(
   message: string,
-  context: ConversationContext
+  context: ConversationContext,
+  options: SendMessageOptions = {}
 ): Promise<AIResponse> {
   // Start performance timer for this API call
   const apiTimerId = startTimer('Claude API Call', 'coach', { messageLength: message?.length || 0 });
@@ -765,16 +891,25 @@ export async function sendMessage(
   try {
     await info('coach', 'Starting Claude API call', { messageLength: message?.length || 0 });
 
-    // Check for safety concerns (self-harm, violence, etc.)
+    // Check for safety concerns (self-harm, violence, etc.), including
+    // risk building up over the recent conversation
     let safeguardCheck;
     try {
-      safeguardCheck = checkSafeguards(message);
+      await loadSafeguardSettings();
+      safeguardCheck = await checkSafeguardsInContext(message);
     } catch (safeguardError) {
       console.error('[ClaudeAPI] Safeguard check failed:', safeguardError);
       safeguardCheck = { triggered: false };
     }
 
     if (safeguardCheck.triggered && safeguardCheck.response) {
+      // Keep the exchange in the session so later context checks see it
+      try {
+        await addMessageToSession('user', message, detectUserMood(message), detectUserEnergy(message));
+        await addMessageToSession('assistant', safeguardCheck.response.text);
+      } catch (err) {
+        console.log('Memory tracking error (non-blocking):', err);
+      }
       return {
         text: safeguardCheck.response.text,
         source: 'crisis',
@@ -782,17 +917,20 @@ export async function sendMessage(
       };
     }
 
-    // Get API key
+    // Providers to try, active provider first (see llmFailoverService)
+    let provider = await getActiveProvider();
+    const providerChain = await getFailoverChain();
+
+    // Claude key is still needed for background exchange scoring of Claude replies
     const apiKey = await getAPIKey();
-    if (!apiKey) {
-      console.log('[ClaudeAPI] No API key found');
+    if (!(await hasReadyProvider(providerChain))) {
+      console.log('[ClaudeAPI] No ready LLM provider (missing API key?)');
       return {
         text: "I'd like to chat with you, but I need an API key to be set up first. You can add one in Settings.",
         source: 'fallback',
         cost: 0,
       };
     }
-    console.log('[ClaudeAPI] API key found, length:', apiKey.length);
 
   // Get tone preferences (with fallback to prevent API failure)
   let tonePrefs = context.toneStyles;
@@ -839,7 +977,8 @@ export async function sendMessage(
   }
 
   // Build context and prompt
-  // Combine: rich user context (Unit 18B) + lifetime context + health context + conversation context
+  // Standing sources (profile, memory, health, journals, ...) are registered in
+  // coachContextProviders; promptAssemblyService fits them to the model's window.
   let conversationContext = 'No additional context available.';
   try {
     conversationContext = buildConversationContext(context);
@@ -847,180 +986,11 @@ export async function sendMessage(
     console.log('[ClaudeAPI] Build conversation context failed:', contextError);
   }
 
-  // Get rich user context (must be wrapped in try/catch to prevent full API failure)
-  let richContext = '';
-  try {
-    richContext = await getContextForClaude();
-    dataSourcesAvailable++;
-    if (richContext) {
-      dataSourcesUsed++;
-      await logCoachAccess('profile', 'User Profile Context', true, richContext.length);
-    }
-  } catch (error) {
-    console.log('Could not load rich user context:', error);
-    await logCoachAccess('profile', 'User Profile Context', false);
-  }
-
-  // Get life context (must be wrapped in try/catch to prevent full API failure)
-  let lifeContext = '';
-  try {
-    lifeContext = await getLifeContextForClaude();
-    dataSourcesAvailable++;
-    if (lifeContext) {
-      dataSourcesUsed++;
-      await logCoachAccess('life_context', 'Life Context', true, lifeContext.length);
-    }
-  } catch (error) {
-    console.log('Could not load life context:', error);
-    await logCoachAccess('life_context', 'Life Context', false);
-  }
-
-  // Get health context if HealthKit is enabled
-  let healthContext = '';
-  let correlationContext = '';
-  try {
-    if (await isHealthKitEnabled()) {
-      healthContext = await getHealthContextForClaude();
-      correlationContext = await getCorrelationSummaryForClaude();
-      dataSourcesAvailable += 2;
-      if (healthContext) {
-        dataSourcesUsed++;
-        await logCoachAccess('health_metrics', 'Health Metrics', true, healthContext.length);
-      }
-      if (correlationContext) {
-        dataSourcesUsed++;
-        await logCoachAccess('health_correlations', 'Health Correlations', true, correlationContext.length);
-      }
-    }
-  } catch (error) {
-    console.log('HealthKit not available:', error);
-    await logCoachAccess('health_metrics', 'Health Metrics', false);
-  }
-
-  // Get psychological profile context (cognitive patterns, attachment style, etc.)
-  let psychContext = '';
-  try {
-    psychContext = await psychAnalysisService.getCompressedContext();
-  } catch (error) {
-    console.log('Could not load psych context:', error);
-  }
-
-  // Get chronotype and travel context (rhythm awareness, jet lag, transitions)
-  let chronotypeContext = '';
-  try {
-    chronotypeContext = await getChronotypeContextForClaude();
-  } catch (error) {
-    console.log('Could not load chronotype context:', error);
-  }
-
-  // Get quick logs context - use DETAILED version for comprehensive data access
-  let logsContext = '';
-  try {
-    logsContext = await getDetailedLogsContextForClaude();
-  } catch (error) {
-    console.log('Could not load quick logs context:', error);
-  }
-
-  // Get lifestyle factors context (caffeine, alcohol, exercise, outdoor, social, sleep)
-  let lifestyleContext = '';
-  try {
-    lifestyleContext = await getLifestyleFactorsContextForClaude();
-  } catch (error) {
-    console.log('Could not load lifestyle factors context:', error);
-  }
-
-  // Get exposure ladder context (social anxiety progress)
-  let exposureContext = '';
-  try {
-    exposureContext = await getExposureContextForClaude();
-  } catch (error) {
-    console.log('Could not load exposure context:', error);
-  }
-
-  // Get recent journal entries context (what user actually wrote)
-  let journalContext = '';
-  try {
-    journalContext = await getRecentJournalContextForClaude();
-    dataSourcesAvailable++;
-    if (journalContext) {
-      dataSourcesUsed++;
-      await logCoachAccess('journal_entries', 'Journal Entries', true, journalContext.length);
-    }
-  } catch (error) {
-    console.log('Could not load journal context:', error);
-    await logCoachAccess('journal_entries', 'Journal Entries', false);
-  }
-
-  // Get calendar context if enabled (upcoming events, travel, meetings)
-  let calendarContext = '';
-  try {
-    if (await isCalendarEnabled()) {
-      calendarContext = await getCalendarContextForClaude();
-      dataSourcesAvailable++;
-      if (calendarContext) {
-        dataSourcesUsed++;
-        await logCoachAccess('calendar', 'Calendar Events', true, calendarContext.length);
-      }
-    }
-  } catch (error) {
-    console.log('Could not load calendar context:', error);
-    await logCoachAccess('calendar', 'Calendar Events', false);
-  }
-
-  // Get tiered memory context (short/mid/long term)
-  let memoryContext = '';
-  try {
-    memoryContext = await getMemoryContextForLLM();
-    dataSourcesAvailable++;
-    if (memoryContext) {
-      dataSourcesUsed++;
-      await logCoachAccess('memory_tiers', 'Memory Tiers', true, memoryContext.length);
-    }
-  } catch (error) {
-    console.log('Could not load memory context:', error);
-    await logCoachAccess('memory_tiers', 'Memory Tiers', false);
-  }
-
-  // Track this user message in session memory
-  let userMood = 'neutral';
-  let userEnergy = 'medium';
-  try {
-    userMood = detectUserMood(message);
-    userEnergy = detectUserEnergy(message);
-  } catch (moodError) {
-    console.log('[ClaudeAPI] Mood/energy detection failed:', moodError);
-  }
-  try {
-    await addMessageToSession('user', message, userMood, userEnergy);
-    const topics = extractTopics(message);
-    if (topics.length > 0) {
-      await updateSessionTopics(topics);
-    }
-  } catch (error) {
-    console.log('Could not update session memory:', error);
-  }
-
-  // Get cognitive profile context (how this person thinks/learns)
-  let cognitiveProfileContext = '';
-  try {
-    cognitiveProfileContext = await getCognitiveProfileContextForLLM();
-    dataSourcesAvailable++;
-    if (cognitiveProfileContext) {
-      dataSourcesUsed++;
-      await logCoachAccess('cognitive_profile', 'Cognitive Profile', true, cognitiveProfileContext.length);
-    }
-  } catch (error) {
-    console.log('Could not load cognitive profile context:', error);
-    await logCoachAccess('cognitive_profile', 'Cognitive Profile', false);
-  }
-
-  // Get social connection health context (isolation risk, connection quality)
-  let socialConnectionContext = '';
-  try {
-    socialConnectionContext = await getConnectionContextForLLM();
-  } catch (error) {
-    console.log('Could not load social connection context:', error);
-  }
+  // Fold finished sessions into weekly summaries in the background
+  // (Claude, the active local model, or extractive when offline)
+  compressPendingMemories(apiKey).catch(error =>
+    console.log('Could not compress pending memories:', error)
+  );
 
   // Get user name for personalized address
   let userNameContext = '';
@@ -1035,6 +1005,7 @@ export async function sendMessage(
     console.log('Could not load user name:', error);
   }
 
+
   // Check for achievements to celebrate
   let achievementContext = '';
   let pendingAchievement: any = null;
@@ -1055,6 +1026,7 @@ When appropriate in your response (ideally near the beginning), warmly share thi
     console.log('Could not load achievement context:', error);
   }
 
+
   // Get accountability context (limits, tracked items, AI-created twigs, preferences)
   let accountabilityContext = '';
   let shouldMentionAccountability = false;
@@ -1087,6 +1059,7 @@ When appropriate in your response (ideally near the beginning), warmly share thi
     console.log('Could not load accountability context:', error);
   }
 
+
   // Get skill recommendations based on user's message
   let skillRecommendationsContext = '';
   try {
@@ -1103,34 +1076,6 @@ When appropriate in your response (ideally near the beginning), warmly share thi
     console.log('Could not load skill recommendations:', error);
   }
 
-  // Assemble full context with ALL data sources:
-  // Order: user name (for personalization), achievements to celebrate, cognitive profile,
-  // social connection health, memory context, lifetime overview, psych profile,
-  // chronotype/travel, calendar, health + correlations, detailed tracking logs,
-  // lifestyle factors, exposure progress, recent journals, accountability (limits),
-  // user preferences, then current conversation
-  const contextParts = [
-    userNameContext,     // User's name for personalized address
-    achievementContext,  // Achievements to celebrate (insights, skill completions)
-    cognitiveProfileContext, // How this person thinks/learns (from onboarding)
-    socialConnectionContext, // Social connection health (isolation risk, connection quality)
-    memoryContext,       // Tiered memory (what we know about this person)
-    lifeContext,         // Lifetime overview (people, events, themes)
-    psychContext,        // Psychological profile (cognitive patterns, attachment, values)
-    chronotypeContext,   // Chronotype and travel awareness
-    calendarContext,     // Calendar events (upcoming meetings, travel, deadlines)
-    healthContext,       // HealthKit data (heart rate, sleep, activity)
-    correlationContext,  // Health-mood correlations
-    logsContext,         // DETAILED tracking data (exact counts for exercises, habits, meds)
-    lifestyleContext,    // Lifestyle factors (caffeine, alcohol, outdoor, social time)
-    exposureContext,     // Social exposure ladder progress
-    journalContext,      // Recent journal entries (what user actually wrote)
-    accountabilityContext, // Accountability limits and tracking
-    skillRecommendationsContext, // Skills that might help with current situation
-    richContext,         // User preferences and mood trends
-    conversationContext  // Current conversation context
-  ].filter(Boolean);
-  const fullContext = contextParts.join('\n\n');
 
   // Get active coach mode additions (skill-based coach modifications)
   let coachModeAdditions = '';
@@ -1159,33 +1104,12 @@ When appropriate in your response (ideally near the beginning), warmly share thi
     console.log('Could not build controller context:', error);
   }
 
-  // Build system prompt with coach personality, skill modes, and controller directives
-  const baseSystemPrompt = buildSystemPrompt(fullContext, toneInstruction, personalityPrompt, activePersona);
-  let systemPrompt = baseSystemPrompt;
-
-  // Add coach mode additions
-  if (coachModeAdditions) {
-    systemPrompt = `${systemPrompt}${coachModeAdditions}`;
-  }
-
-  // Add conversation controller directives (human-ness rules)
-  if (controllerModifiers) {
-    systemPrompt = `${systemPrompt}
-
-CONVERSATION STYLE DIRECTIVES (for this specific response):
-${controllerModifiers}`;
-  }
-
-  // Add aliveness qualities context (what makes responses feel alive)
+  // Get aliveness qualities context (what makes responses feel alive)
+  let alivenessContext = '';
   try {
     const alivenessEnabled = await isAlivenessEnabled();
     if (alivenessEnabled) {
-      const alivenessContext = await getAlivenessContextForLLM();
-      if (alivenessContext) {
-        systemPrompt = `${systemPrompt}
-
-${alivenessContext}`;
-      }
+      alivenessContext = await getAlivenessContextForLLM();
     }
   } catch (error) {
     console.log('Could not get aliveness context:', error);
@@ -1206,13 +1130,26 @@ ${alivenessContext}`;
     console.log('Could not detect aliveness signals:', error);
   }
 
+  // Everything appended after the context block, in prompt order
+  let promptSuffix = coachModeAdditions;
+  if (controllerModifiers) {
+    promptSuffix = `${promptSuffix}
+
+CONVERSATION STYLE DIRECTIVES (for this specific response):
+${controllerModifiers}`;
+  }
+  if (alivenessContext) {
+    promptSuffix = `${promptSuffix}
+
+${alivenessContext}`;
+  }
   if (alivenessDirective) {
-    systemPrompt = `${systemPrompt}
+    promptSuffix = `${promptSuffix}
 
 ${alivenessDirective}`;
   }
 
-  let messages;
+  let messages: LLMChatMessage[];
   try {
     messages = buildMessages(message, context.recentMessages || []);
   } catch (buildMsgError) {
@@ -1221,79 +1158,122 @@ ${alivenessDirective}`;
     messages = [{ role: 'user', content: message }];
   }
 
-  const request: ClaudeRequest = {
-    model: CLAUDE_CONFIG.model,
-    max_tokens: CLAUDE_CONFIG.maxTokens,
-    system: systemPrompt,
-    messages,
-  };
+  // Fit context to the smallest window in the failover chain, after reserving
+  // room for the fixed prompt, the conversation history and the reply
+  const reservedTokens =
+    estimateTokens(buildSystemPrompt('', toneInstruction, personalityPrompt, activePersona) + promptSuffix) +
+    estimateTokens(messages.map(m => m.content).join('\n')) +
+    CLAUDE_CONFIG.maxTokens;
+  const { budgetTokens, limitingProvider } = getContextTokenBudget(providerChain, reservedTokens);
+
+  // Per-message sections ride along with the registered providers.
+  // Order: user name, achievements, [registered sources], accountability,
+  // skill recommendations, then the current conversation
+  const messageProviders: ContextProvider[] = [
+    {
+      id: 'user_name',
+      name: "User's Name",
+      priority: 95,
+      order: 10,
+      estimateTokens: 30,
+      getContext: async () => userNameContext,
+    },
+    {
+      id: 'achievements',
+      name: 'Achievements',
+      priority: 70,
+      order: 20,
+      estimateTokens: 120,
+      getContext: async () => achievementContext,
+    },
+    {
+      id: 'accountability',
+      name: 'Accountability',
+      // A limit that needs mentioning must survive even a tiny window
+      priority: shouldMentionAccountability ? 95 : 60,
+      order: 160,
+      estimateTokens: 300,
+      truncatable: !shouldMentionAccountability,
+      getContext: async () => accountabilityContext,
+    },
+    {
+      id: 'skill_recommendations',
+      name: 'Skill Recommendations',
+      priority: 50,
+      order: 170,
+      estimateTokens: 200,
+      truncatable: true,
+      getContext: async () => skillRecommendationsContext,
+    },
+    {
+      id: 'conversation',
+      name: 'Current Conversation',
+      priority: 100,
+      order: 200,
+      estimateTokens: 150,
+      required: true,
+      truncatable: true,
+      getContext: async () => conversationContext,
+    },
+  ];
 
-  console.log('[ClaudeAPI] Making API request to:', CLAUDE_CONFIG.baseURL);
-  console.log('[ClaudeAPI] Using model:', CLAUDE_CONFIG.model);
-  console.log('[ClaudeAPI] System prompt length:', systemPrompt?.length || 0);
-  console.log('[ClaudeAPI] Messages count:', messages?.length || 0);
+  let fullContext = conversationContext;
+  try {
+    const assembled = await assembleContext(
+      { message, recentMessages: context.recentMessages },
+      { budgetTokens, limitingProvider, extraProviders: messageProviders }
+    );
+    fullContext = assembled.text || conversationContext;
+    dataSourcesAvailable += assembled.sourcesAvailable;
+    dataSourcesUsed += assembled.sourcesUsed;
+  } catch (error) {
+    console.log('[ClaudeAPI] Prompt assembly failed, using conversation only:', error);
+  }
 
+  // Track this user message in session memory
+  let userMood = 'neutral';
+  let userEnergy = 'medium';
   try {
+    userMood = detectUserMood(message);
+    userEnergy = detectUserEnergy(message);
+  } catch (moodError) {
+    console.log('[ClaudeAPI] Mood/energy detection failed:', moodError);
+  }
+  try {
+    await addMessageToSession('user', message, userMood, userEnergy);
+    const topics = extractTopics(message);
+    if (topics.length > 0) {
+      await updateSessionTopics(topics);
+    }
+  } catch (error) {
+    console.log('Could not update session memory:', error);
+  }
 
-    const response = await fetch(CLAUDE_CONFIG.baseURL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': CLAUDE_CONFIG.apiVersion,
-        'anthropic-dangerous-direct-browser-access': 'true', // For web testing
-      },
-      body: JSON.stringify(request),
-    });
 
-    console.log('[ClaudeAPI] Response status:', response.status);
+  // Build system prompt with coach personality, skill modes, and controller directives
+  const systemPrompt = `${buildSystemPrompt(fullContext, toneInstruction, personalityPrompt, activePersona)}${promptSuffix}`;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[ClaudeAPI] API error:', response.status, errorText);
+  const chatRequest: LLMChatRequest = {
+    system: systemPrompt,
+    messages,
+    maxTokens: CLAUDE_CONFIG.maxTokens,
+  };
 
-      // Provide more specific error messages
-      if (response.status === 401) {
-        return {
-          text: "My API key seems to be invalid. Could you check it in Settings?",
-          source: 'fallback' as const,
-          cost: 0,
-        };
-      }
-      if (response.status === 429) {
-        return {
-          text: "I'm getting rate limited - let's wait a moment and try again.",
-          source: 'fallback' as const,
-          cost: 0,
-        };
-      }
-      if (response.status === 400) {
-        return {
-          text: "Something went wrong with my request. Let me try a simpler response - what's on your mind?",
-          source: 'fallback' as const,
-          cost: 0,
-        };
-      }
-      throw new Error(`API error: ${response.status}`);
-    }
+  console.log('[ClaudeAPI] Sending chat request, provider chain:', providerChain.join(' -> '));
+  console.log('[ClaudeAPI] System prompt length:', systemPrompt?.length || 0);
+  console.log('[ClaudeAPI] Messages count:', messages?.length || 0);
 
-    const data: ClaudeAPIResponse = await response.json();
-    console.log('[ClaudeAPI] Got response, tokens:', data.usage?.input_tokens, '/', data.usage?.output_tokens);
+  try {
+    const failover = await chatWithFailover(chatRequest, options, providerChain);
+    const result = failover.result;
+    provider = failover.provider;
+    console.log('[ClaudeAPI] Got response, tokens:', result.inputTokens, '/', result.outputTokens);
 
     // Track cost
-    await recordUsage(
-      data.usage.input_tokens,
-      data.usage.output_tokens,
-      CLAUDE_CONFIG.model
-    );
+    await recordUsage(result.cost);
+    const cost = result.cost;
 
-    const cost = calculateCost(
-      data.usage.input_tokens,
-      data.usage.output_tokens,
-      CLAUDE_CONFIG.model
-    );
-
-    let responseText = data.content[0]?.text ?? '';
+    let responseText = result.text;
 
     // Validate and clean coach style (remove any roleplay markers or robotic phrases that slipped through)
     const styleViolations = validateCoachStyle(responseText);
@@ -1314,7 +1294,8 @@ ${alivenessDirective}`;
           messageCount: context.recentMessages.length + 1,
           hourOfDay: new Date().getHours(),
         },
-        { apiKey, skipClaude: false } // Claude scores in background too
+        // Claude only sees exchanges it answered; local conversations never leave the device
+        { apiKey: apiKey ?? undefined, skipClaude: !apiKey || provider !== 'claude' }
       ).catch(err => console.log('Scoring error (non-blocking):', err));
     } catch (err) {
       console.log('Scoring setup error (non-blocking):', err);
@@ -1365,26 +1346,29 @@ ${alivenessDirective}`;
     const responseTimeMs = Date.now() - callStartTime;
     await endTimer(apiTimerId, {
       success: true,
-      inputTokens: data.usage.input_tokens,
-      outputTokens: data.usage.output_tokens,
+      provider,
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
       cost,
     });
 
     // Log comprehensive coach response metrics
     await logCoachResponse({
       responseTimeMs,
-      inputTokens: data.usage.input_tokens,
-      outputTokens: data.usage.output_tokens,
-      totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
+      totalTokens: result.inputTokens + result.outputTokens,
       dataSourcesAvailable,
       dataSourcesUsed,
       success: true,
     });
 
-    await info('coach', 'Claude API call successful', {
+    await info('coach', 'LLM call successful', {
+      provider,
+      model: result.model,
       responseTimeMs,
-      inputTokens: data.usage.input_tokens,
-      outputTokens: data.usage.output_tokens,
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
       cost,
       dataSourcesUsed,
       dataSourcesAvailable,
@@ -1392,16 +1376,52 @@ ${alivenessDirective}`;
 
     return {
       text: responseText,
-      source: 'claudeAPI',
+      source: provider === 'claude' ? 'claudeAPI' : 'llm',
       cost,
-      inputTokens: data.usage.input_tokens,
-      outputTokens: data.usage.output_tokens,
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
+      provider,
+      model: result.model,
+      failover: {
+        attempts: failover.attempts.length,
+        providersTried: Array.from(new Set(failover.attempts.map(a => a.provider))),
+      },
     };
   } catch (apiError: any) {
     console.error('[ClaudeAPI] API request failed:', apiError);
-    await logError('coach', 'Claude API request failed', { error: apiError.message });
+    await logError('coach', 'LLM request failed', { provider: isProviderError(apiError) ? apiError.provider : provider, error: apiError.message });
     await endTimer(apiTimerId, { success: false, error: apiError.message });
 
+    if (isProviderError(apiError)) {
+      switch (apiError.kind) {
+        case 'cancelled':
+          return { text: '', source: 'fallback', cost: 0, provider: apiError.provider, cancelled: true };
+        case 'auth':
+          return {
+            text: apiError.provider === 'claude'
+              ? "My API key seems to be invalid. Could you check it in Settings?"
+              : "The model server rejected my credentials. Could you check the provider settings?",
+            source: 'fallback',
+            cost: 0,
+            provider: apiError.provider,
+          };
+        case 'rate_limit':
+          return {
+            text: "I'm getting rate limited - let's wait a moment and try again.",
+            source: 'fallback',
+            cost: 0,
+            provider: apiError.provider,
+          };
+        case 'bad_request':
+          return {
+            text: "Something went wrong with my request. Let me try a simpler response - what's on your mind?",
+            source: 'fallback',
+            cost: 0,
+            provider: apiError.provider,
+          };
+      }
+    }
+
     // Fallback response for API errors
     return {
       text: "I'm having trouble connecting right now. How about we try again in a moment?",
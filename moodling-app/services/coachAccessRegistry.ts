@@ -154,6 +154,15 @@ export const DEFAULT_DATA_SOURCES: DataSource[] = [
     serviceName: 'memoryTierService',
     contextFunction: 'getMemoryContextForLLM',
   },
+  {
+    id: 'memory_retrieval',
+    name: 'Memory Recall',
+    description: 'Past conversations, journal entries and weeks related to the current message',
+    category: 'context_memories',
+    enabled: true,
+    serviceName: 'memoryRetrievalService',
+    contextFunction: 'getRelevantMemoryContext',
+  },
   {
     id: 'life_context',
     name: 'Life Context',
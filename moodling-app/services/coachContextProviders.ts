@@ -0,0 +1,257 @@
+/**
+ * Coach Context Providers
+ *
+ * Registers every standing context source with promptAssemblyService.
+ * Priorities say what survives a small context window (memory and
+ * profile first, detail like exposure progress last); relevance lifts
+ * a source when the message is about it.
+ *
+ * Per-message sections that also drive behavior (accountability limits,
+ * achievements, the user's name) stay in claudeAPIService and are
+ * passed to assembleContext as extra providers.
+ */
+
+import { registerContextProvider, keywordRelevance } from './promptAssemblyService';
+import { getContextForClaude } from './userContextService';
+import { getLifeContextForClaude } from './lifeContextService';
+import { getHealthContextForClaude, isHealthKitEnabled } from './healthKitService';
+import { getCorrelationSummaryForClaude } from './healthInsightService';
+import { getDetailedLogsContextForClaude } from './quickLogsService';
+import { psychAnalysisService } from './psychAnalysisService';
+import { getChronotypeContextForClaude } from './coachPersonalityService';
+import { getLifestyleFactorsContextForClaude } from './patternService';
+import { getExposureContextForClaude } from './exposureLadderService';
+import { getCalendarContextForClaude, isCalendarEnabled } from './calendarService';
+import { getEventCoachingContextForClaude } from './eventCoachingService';
+import { getRecentJournalContextForClaude } from './journalStorage';
+import { getMemoryContextForLLM } from './memoryTierService';
+import { getRelevantMemoryContext } from './memoryRetrievalService';
+import { getCognitiveProfileContextForLLM } from './cognitiveProfileService';
+import { getConnectionContextForLLM } from './socialConnectionHealthService';
+import { getInsightContextForCoach } from './insightService';
+import { getCycleContextForAI, formatCycleContextForPrompt } from './cycleTrackingService';
+
+// ============================================
+// WHO THEY ARE
+// ============================================
+
+registerContextProvider({
+  id: 'cognitive_profile',
+  name: 'Cognitive Profile',
+  priority: 75,
+  order: 30,
+  estimateTokens: 350,
+  truncatable: true,
+  logAccess: true,
+  getContext: () => getCognitiveProfileContextForLLM(),
+});
+
+registerContextProvider({
+  id: 'social_connection',
+  name: 'Social Connection',
+  priority: 45,
+  order: 40,
+  estimateTokens: 150,
+  relevance: keywordRelevance(['lonely', 'alone', 'friend', 'isolat', 'nobody', 'people', 'social']),
+  getContext: () => getConnectionContextForLLM(),
+});
+
+// ============================================
+// MEMORY
+// ============================================
+
+registerContextProvider({
+  id: 'memory_tiers',
+  name: 'Memory Tiers',
+  priority: 85,
+  order: 50,
+  estimateTokens: 400,
+  truncatable: true,
+  logAccess: true,
+  getContext: () => getMemoryContextForLLM({ recentWeeks: 1 }),
+});
+
+registerContextProvider({
+  id: 'memory_retrieval',
+  name: 'Memory Recall',
+  priority: 80,
+  order: 55,
+  estimateTokens: 350,
+  logAccess: true,
+  getContext: request => getRelevantMemoryContext(request.message),
+});
+
+registerContextProvider({
+  id: 'life_context',
+  name: 'Life Context',
+  priority: 70,
+  order: 60,
+  estimateTokens: 500,
+  truncatable: true,
+  logAccess: true,
+  getContext: () => getLifeContextForClaude(),
+});
+
+registerContextProvider({
+  id: 'psych_analysis',
+  name: 'Psych Profile',
+  priority: 55,
+  order: 70,
+  estimateTokens: 300,
+  truncatable: true,
+  getContext: () => psychAnalysisService.getCompressedContext(),
+});
+
+registerContextProvider({
+  id: 'insights',
+  name: 'Insights',
+  priority: 45,
+  order: 75,
+  estimateTokens: 250,
+  truncatable: true,
+  relevance: keywordRelevance(['pattern', 'always', 'keep', 'why do i', 'notice', 'again']),
+  getContext: () => getInsightContextForCoach(),
+});
+
+// ============================================
+// RHYTHM, SCHEDULE & BODY
+// ============================================
+
+registerContextProvider({
+  id: 'chronotype',
+  name: 'Chronotype & Travel',
+  priority: 40,
+  order: 80,
+  estimateTokens: 200,
+  relevance: keywordRelevance(['sleep', 'morning', 'night', 'jet lag', 'travel', 'flight', 'timezone', 'tired']),
+  getContext: () => getChronotypeContextForClaude(),
+});
+
+registerContextProvider({
+  id: 'calendar',
+  name: 'Calendar Events',
+  priority: 50,
+  order: 90,
+  estimateTokens: 250,
+  truncatable: true,
+  logAccess: true,
+  relevance: keywordRelevance([
+    'meeting', 'tomorrow', 'today', 'schedule', 'week', 'deadline', 'appointment', 'trip', 'event', 'busy',
+  ]),
+  isAvailable: () => isCalendarEnabled(),
+  getContext: () => getCalendarContextForClaude(),
+});
+
+registerContextProvider({
+  id: 'event_coaching',
+  name: 'Event Coaching',
+  priority: 55,
+  order: 95,
+  estimateTokens: 150,
+  relevance: keywordRelevance([
+    'interview', 'doctor', 'appointment', 'presentation', 'exam', 'review', 'meeting', 'nervous', 'went', 'after',
+  ]),
+  getContext: () => getEventCoachingContextForClaude(),
+});
+
+registerContextProvider({
+  id: 'health_metrics',
+  name: 'Health Metrics',
+  priority: 50,
+  order: 100,
+  estimateTokens: 250,
+  truncatable: true,
+  logAccess: true,
+  relevance: keywordRelevance(['sleep', 'tired', 'heart', 'exercise', 'workout', 'steps', 'energy', 'exhausted', 'sick']),
+  isAvailable: () => isHealthKitEnabled(),
+  getContext: () => getHealthContextForClaude(),
+});
+
+registerContextProvider({
+  id: 'health_correlations',
+  name: 'Health Correlations',
+  priority: 40,
+  order: 110,
+  estimateTokens: 200,
+  truncatable: true,
+  logAccess: true,
+  relevance: keywordRelevance(['sleep', 'exercise', 'why', 'pattern', 'energy']),
+  isAvailable: () => isHealthKitEnabled(),
+  getContext: () => getCorrelationSummaryForClaude(),
+});
+
+registerContextProvider({
+  id: 'cycle',
+  name: 'Cycle Tracking',
+  priority: 45,
+  order: 115,
+  estimateTokens: 40,
+  relevance: keywordRelevance(['period', 'cramp', 'pms', 'cycle', 'hormon', 'bloat', 'moody']),
+  getContext: async () => {
+    const cycle = await getCycleContextForAI();
+    return cycle ? formatCycleContextForPrompt(cycle) : '';
+  },
+});
+
+// ============================================
+// TRACKING
+// ============================================
+
+registerContextProvider({
+  id: 'quick_logs',
+  name: 'Quick Logs',
+  priority: 55,
+  order: 120,
+  estimateTokens: 600,
+  truncatable: true,
+  relevance: keywordRelevance(['habit', 'streak', 'meds', 'medication', 'water', 'log', 'track', 'tracking', 'drink', 'quit']),
+  getContext: () => getDetailedLogsContextForClaude(),
+});
+
+registerContextProvider({
+  id: 'lifestyle_patterns',
+  name: 'Lifestyle Factors',
+  priority: 40,
+  order: 130,
+  estimateTokens: 250,
+  truncatable: true,
+  relevance: keywordRelevance(['caffeine', 'coffee', 'alcohol', 'drink', 'outside', 'outdoor', 'social', 'exercise']),
+  getContext: () => getLifestyleFactorsContextForClaude(),
+});
+
+registerContextProvider({
+  id: 'exposure_ladder',
+  name: 'Exposure Ladder',
+  priority: 35,
+  order: 140,
+  estimateTokens: 200,
+  relevance: keywordRelevance(['anxious', 'anxiety', 'social', 'party', 'nervous', 'exposure', 'avoid', 'scared']),
+  getContext: () => getExposureContextForClaude(),
+});
+
+registerContextProvider({
+  id: 'journal_entries',
+  name: 'Journal Entries',
+  priority: 65,
+  order: 150,
+  estimateTokens: 700,
+  truncatable: true,
+  logAccess: true,
+  relevance: keywordRelevance(['wrote', 'journal', 'entry', 'yesterday', 'earlier', 'last night']),
+  getContext: () => getRecentJournalContextForClaude(),
+});
+
+// ============================================
+// PREFERENCES
+// ============================================
+
+registerContextProvider({
+  id: 'profile',
+  name: 'User Profile Context',
+  priority: 75,
+  order: 180,
+  estimateTokens: 400,
+  truncatable: true,
+  logAccess: true,
+  getContext: () => getContextForClaude(),
+});
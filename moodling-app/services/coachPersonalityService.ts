@@ -15,6 +15,7 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, warn, error as logError } from './loggingService';
+import { registerReferenceProvider } from './slashCommandRegistry';
 
 const STORAGE_KEYS = {
   COACH_SETTINGS: 'moodleaf_coach_settings',
@@ -1317,3 +1318,17 @@ export function generateMoodMappings(
 
   return mappings;
 }
+
+// ============================================
+// SLASH COMMAND REFERENCES
+// ============================================
+
+// Lets commands take a persona argument (/persona <name>)
+registerReferenceProvider('persona', () =>
+  Object.values(PERSONAS).map((persona) => ({
+    id: persona.id,
+    label: persona.name,
+    emoji: persona.emoji,
+    description: persona.tagline,
+  }))
+);
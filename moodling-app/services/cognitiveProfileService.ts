@@ -15,7 +15,7 @@
  * Someone who thinks in feelings gets feeling questions.
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import EncryptedStorage from './encryptedStorage';
 import { log, info, warn, error as logError } from './loggingService';
 
 // ============================================
@@ -2052,7 +2052,7 @@ const STORAGE_KEYS = {
  */
 export async function getCognitiveProfile(): Promise<CognitiveProfile> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.PROFILE);
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.PROFILE);
     return stored ? { ...DEFAULT_PROFILE, ...JSON.parse(stored) } : DEFAULT_PROFILE;
   } catch (error) {
     console.error('[CognitiveProfile] Failed to get profile:', error);
@@ -2071,7 +2071,7 @@ export async function saveCognitiveProfile(profile: Partial<CognitiveProfile>):
       ...profile,
       lastUpdated: new Date().toISOString()
     };
-    await AsyncStorage.setItem(STORAGE_KEYS.PROFILE, JSON.stringify(updated));
+    await EncryptedStorage.setItem(STORAGE_KEYS.PROFILE, JSON.stringify(updated));
   } catch (error) {
     console.error('[CognitiveProfile] Failed to save profile:', error);
   }
@@ -2093,7 +2093,7 @@ export interface OnboardingProgress {
  */
 export async function getOnboardingProgress(): Promise<OnboardingProgress> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.ONBOARDING_PROGRESS);
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.ONBOARDING_PROGRESS);
     return stored ? JSON.parse(stored) : {
       currentQuestionIndex: 0,
       answeredQuestions: [],
@@ -2114,7 +2114,7 @@ export async function getOnboardingProgress(): Promise<OnboardingProgress> {
  * Save onboarding progress
  */
 export async function saveOnboardingProgress(progress: OnboardingProgress): Promise<void> {
-  await AsyncStorage.setItem(STORAGE_KEYS.ONBOARDING_PROGRESS, JSON.stringify(progress));
+  await EncryptedStorage.setItem(STORAGE_KEYS.ONBOARDING_PROGRESS, JSON.stringify(progress));
 }
 
 /**
@@ -2272,7 +2272,7 @@ export async function recordOnboardingAnswer(
   // Store raw answer for potential re-analysis
   const answers = await getOnboardingAnswers();
   answers[questionId] = { answer, timestamp: new Date().toISOString() };
-  await AsyncStorage.setItem(STORAGE_KEYS.ONBOARDING_ANSWERS, JSON.stringify(answers));
+  await EncryptedStorage.setItem(STORAGE_KEYS.ONBOARDING_ANSWERS, JSON.stringify(answers));
 }
 
 /**
@@ -2280,7 +2280,7 @@ export async function recordOnboardingAnswer(
  */
 async function getOnboardingAnswers(): Promise<Record<string, any>> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.ONBOARDING_ANSWERS);
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.ONBOARDING_ANSWERS);
     return stored ? JSON.parse(stored) : {};
   } catch {
     return {};
@@ -0,0 +1,477 @@
+/**
+ * Command Macro Service
+ *
+ * User-defined macros that chain slash commands:
+ *   /macro save morning /breathe box then /log water
+ * A saved macro runs as its own command (/morning) and can be
+ * scheduled for a time of day or to follow a quick-log entry.
+ *
+ * This module stores macros and decides when they're due; running them
+ * is slashCommandService's job (runMacro), so there's no import cycle.
+ *
+ * Following Mood Leaf Ethics:
+ * - Macros only ever run commands the user chose
+ * - Scheduled macros are a gentle nudge, never a streak
+ *
+ * Unit: Slash Command System
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCommand, parseCommand } from './slashCommandRegistry';
+import {
+  cancelCommandNotification,
+  showCommandNotification,
+  formatTime,
+  getMillisecondsUntil,
+} from './notificationService';
+import { refreshNotificationSchedule } from './notificationSchedulerService';
+import { getAllQuickLogs, subscribeToLogEntries, LogEntry } from './quickLogsService';
+
+// ============================================
+// STORAGE KEYS
+// ============================================
+
+const STORAGE_KEYS = {
+  COMMAND_MACROS: 'moodleaf_command_macros',
+  PENDING_MACRO_RUNS: 'moodleaf_pending_macro_runs',
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MacroTrigger =
+  | { type: 'time'; hour: number; minute: number }
+  | { type: 'quick_log'; logId: string };
+
+export interface CommandMacro {
+  id: string;
+  /** Lowercase; runs as /name */
+  name: string;
+  /** Each step is a full slash command ("/breathe box") */
+  steps: string[];
+  triggers: MacroTrigger[];
+  createdAt: string;
+  updatedAt: string;
+  /** Last time each time trigger fired, by trigger key (HH:MM) */
+  lastFired?: Record<string, string>;
+}
+
+export interface MacroSaveResult {
+  macro?: CommandMacro;
+  errors: string[];
+}
+
+export interface PendingMacroRun {
+  macroId: string;
+  reason: string;
+  queuedAt: string;
+}
+
+// Most steps one macro can chain
+const MAX_MACRO_STEPS = 10;
+
+// Commands a macro step can't run (no macros inside macros)
+const NON_CHAINABLE_COMMANDS = ['macro'];
+
+const MACRO_NAME_PATTERN = /^[a-z][a-z0-9_-]{1,29}$/;
+
+// ============================================
+// PARSING & VALIDATION
+// ============================================
+
+/**
+ * Split a macro definition into steps.
+ * Steps start with "/" and may be joined with "then", ";" or ",":
+ * "/breathe then /log water" -> ["/breathe", "/log water"]
+ */
+export function parseMacroSteps(definition: string): string[] {
+  return definition
+    .split(/\s+(?=\/)/)
+    .map((step) => step.trim().replace(/(?:\s+then|\s*[;,]|\s+and)$/i, '').trim())
+    .filter((step) => step.length > 1);
+}
+
+/**
+ * Check that every step is a registered, chainable command
+ */
+export function validateMacroSteps(steps: string[]): string[] {
+  const errors: string[] = [];
+  if (steps.length === 0) {
+    errors.push('A macro needs at least one step, like /breathe');
+  }
+  if (steps.length > MAX_MACRO_STEPS) {
+    errors.push(`Macros can have up to ${MAX_MACRO_STEPS} steps`);
+  }
+
+  steps.forEach((step, index) => {
+    const parsed = parseCommand(step);
+    const command = parsed.isCommand ? getCommand(parsed.commandName) : undefined;
+    if (!command) {
+      errors.push(`Step ${index + 1}: /${parsed.commandName || step} isn't a command`);
+    } else if (NON_CHAINABLE_COMMANDS.includes(command.name)) {
+      errors.push(`Step ${index + 1}: /${command.name} can't be used inside a macro`);
+    }
+  });
+
+  return errors;
+}
+
+function validateMacroName(name: string): string | null {
+  if (!MACRO_NAME_PATTERN.test(name)) {
+    return 'Macro names are 2-30 letters, numbers, - or _, starting with a letter';
+  }
+  if (getCommand(name)) {
+    return `/${name} is already a command`;
+  }
+  return null;
+}
+
+function triggerKey(trigger: MacroTrigger): string {
+  return trigger.type === 'time'
+    ? `${String(trigger.hour).padStart(2, '0')}:${String(trigger.minute).padStart(2, '0')}`
+    : `log:${trigger.logId}`;
+}
+
+/**
+ * Parse "07:30", "7:30pm" or "7pm" into hour/minute
+ */
+export function parseTimeOfDay(input: string): { hour: number; minute: number } | null {
+  const match = input.trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  const period = match[3];
+  if (!period && !match[2]) return null; // "7" alone is ambiguous
+  if (period) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (period === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+function generateId(): string {
+  return `macro_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * All saved macros
+ */
+export async function getCommandMacros(): Promise<CommandMacro[]> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.COMMAND_MACROS);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Failed to get command macros:', error);
+    return [];
+  }
+}
+
+/**
+ * Find a macro by name (case-insensitive)
+ */
+export async function getCommandMacro(name: string): Promise<CommandMacro | null> {
+  const macros = await getCommandMacros();
+  return macros.find((m) => m.name === name.toLowerCase()) || null;
+}
+
+async function saveMacros(macros: CommandMacro[]): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEYS.COMMAND_MACROS, JSON.stringify(macros));
+}
+
+/**
+ * Create a macro, or replace the steps of an existing one
+ * (its schedule is kept)
+ */
+export async function saveCommandMacro(name: string, steps: string[]): Promise<MacroSaveResult> {
+  const normalizedName = name.toLowerCase();
+  const macros = await getCommandMacros();
+  const existing = macros.find((m) => m.name === normalizedName);
+
+  const errors = [
+    ...(existing ? [] : [validateMacroName(normalizedName)].filter((e): e is string => !!e)),
+    ...validateMacroSteps(steps),
+  ];
+  if (errors.length > 0) return { errors };
+
+  const now = new Date().toISOString();
+  const macro: CommandMacro = existing
+    ? { ...existing, steps, updatedAt: now }
+    : { id: generateId(), name: normalizedName, steps, triggers: [], createdAt: now, updatedAt: now };
+
+  await saveMacros(existing ? macros.map((m) => (m.id === macro.id ? macro : m)) : [...macros, macro]);
+  return { macro, errors: [] };
+}
+
+/**
+ * Delete a macro and its scheduled notifications
+ */
+export async function deleteCommandMacro(name: string): Promise<boolean> {
+  const macros = await getCommandMacros();
+  const macro = macros.find((m) => m.name === name.toLowerCase());
+  if (!macro) return false;
+
+  await saveMacros(macros.filter((m) => m.id !== macro.id));
+  await rescheduleMacros();
+  return true;
+}
+
+async function updateMacro(macro: CommandMacro): Promise<void> {
+  const macros = await getCommandMacros();
+  await saveMacros(macros.map((m) => (m.id === macro.id ? macro : m)));
+}
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+/** Id older builds used for a time trigger's daily OS notification */
+function legacyNotificationId(macro: CommandMacro, trigger: MacroTrigger): string {
+  return `${macro.id}_${triggerKey(trigger).replace(':', '')}`;
+}
+
+/**
+ * Daily notifications for time triggers, for the scheduler's 'command'
+ * collector (notificationSources). Running the macro doesn't depend on
+ * them: takeDueMacros catches up whenever the coach opens.
+ */
+export async function getMacroReminders(): Promise<{ macro: CommandMacro; hour: number; minute: number }[]> {
+  const macros = await getCommandMacros();
+  return macros.flatMap((macro) =>
+    macro.triggers.flatMap((trigger) =>
+      trigger.type === 'time' ? [{ macro, hour: trigger.hour, minute: trigger.minute }] : []
+    )
+  );
+}
+
+// Wakes subscribers when the next time trigger comes due while the app is open
+let dueTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function armDueTimer(): Promise<void> {
+  if (dueTimer) clearTimeout(dueTimer);
+  dueTimer = null;
+
+  const reminders = await getMacroReminders();
+  if (reminders.length === 0) return;
+  const wait = Math.min(...reminders.map((r) => getMillisecondsUntil(r.hour, r.minute)));
+  dueTimer = setTimeout(() => {
+    dueTimer = null;
+    notifyMacroRunListeners();
+    armDueTimer().catch((error) => console.error('Failed to watch macro schedules:', error));
+  }, wait);
+}
+
+/**
+ * Replan notifications and the due timer after triggers change
+ */
+async function rescheduleMacros(): Promise<void> {
+  await armDueTimer();
+  await refreshNotificationSchedule();
+}
+
+/**
+ * Add a trigger to a macro: a time of day or a quick log
+ */
+export async function addMacroTrigger(name: string, trigger: MacroTrigger): Promise<CommandMacro | null> {
+  const macro = await getCommandMacro(name);
+  if (!macro) return null;
+
+  const key = triggerKey(trigger);
+  if (macro.triggers.some((t) => triggerKey(t) === key)) return macro;
+
+  const updated: CommandMacro = { ...macro, triggers: [...macro.triggers, trigger], updatedAt: new Date().toISOString() };
+
+  // A time that already passed today starts tomorrow, not right now
+  if (trigger.type === 'time' && minutesSinceMidnight(new Date()) >= trigger.hour * 60 + trigger.minute) {
+    updated.lastFired = { ...updated.lastFired, [key]: new Date().toISOString() };
+  }
+
+  await updateMacro(updated);
+  await rescheduleMacros();
+  return updated;
+}
+
+/**
+ * Remove all of a macro's triggers
+ */
+export async function clearMacroTriggers(name: string): Promise<CommandMacro | null> {
+  const macro = await getCommandMacro(name);
+  if (!macro) return null;
+
+  const updated: CommandMacro = { ...macro, triggers: [], lastFired: {}, updatedAt: new Date().toISOString() };
+  await updateMacro(updated);
+  await rescheduleMacros();
+  return updated;
+}
+
+/**
+ * Start watching for due macros (call on app start). Also drops the daily
+ * OS notifications older builds scheduled outside the scheduler.
+ */
+export async function initializeMacroSchedules(): Promise<void> {
+  const macros = await getCommandMacros();
+  for (const macro of macros) {
+    for (const trigger of macro.triggers) {
+      if (trigger.type === 'time') await cancelCommandNotification(legacyNotificationId(macro, trigger));
+    }
+  }
+  await armDueTimer();
+}
+
+/**
+ * Human-readable trigger ("7:30 AM", "after Drank water")
+ */
+export async function describeMacroTriggers(macro: CommandMacro): Promise<string[]> {
+  const logs = macro.triggers.some((t) => t.type === 'quick_log') ? await getAllQuickLogs() : [];
+  return macro.triggers.map((trigger) => {
+    if (trigger.type === 'time') return formatTime(trigger.hour, trigger.minute);
+    const log = logs.find((l) => l.id === trigger.logId);
+    return `after ${log ? `${log.emoji} ${log.name}` : 'a deleted log'}`;
+  });
+}
+
+// ============================================
+// DUE MACROS
+// ============================================
+
+type MacroRunListener = () => void;
+const macroRunListeners = new Set<MacroRunListener>();
+
+/**
+ * Be told when a scheduled macro becomes due while the app is open.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToMacroRuns(listener: MacroRunListener): () => void {
+  macroRunListeners.add(listener);
+  return () => {
+    macroRunListeners.delete(listener);
+  };
+}
+
+function notifyMacroRunListeners(): void {
+  macroRunListeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Macro run listener failed:', error);
+    }
+  });
+}
+
+function minutesSinceMidnight(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+function isSameLocalDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+async function getPendingRuns(): Promise<PendingMacroRun[]> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.PENDING_MACRO_RUNS);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Failed to get pending macro runs:', error);
+    return [];
+  }
+}
+
+async function queueMacroRun(macroId: string, reason: string): Promise<void> {
+  const pending = await getPendingRuns();
+  if (pending.some((run) => run.macroId === macroId)) return;
+  pending.push({ macroId, reason, queuedAt: new Date().toISOString() });
+  await AsyncStorage.setItem(STORAGE_KEYS.PENDING_MACRO_RUNS, JSON.stringify(pending));
+}
+
+/**
+ * Macros that should run now, each at most once: time triggers that
+ * passed today and haven't fired yet, plus queued quick-log triggers.
+ * Marks them as fired, so call this only when about to run them.
+ */
+export async function takeDueMacros(now: Date = new Date()): Promise<{ macro: CommandMacro; reason: string }[]> {
+  const macros = await getCommandMacros();
+  const due: { macro: CommandMacro; reason: string }[] = [];
+  let changed = false;
+
+  for (const macro of macros) {
+    for (const trigger of macro.triggers) {
+      if (trigger.type !== 'time') continue;
+      const key = triggerKey(trigger);
+      const lastFired = macro.lastFired?.[key];
+      const alreadyFiredToday = lastFired ? isSameLocalDay(new Date(lastFired), now) : false;
+      if (!alreadyFiredToday && minutesSinceMidnight(now) >= trigger.hour * 60 + trigger.minute) {
+        macro.lastFired = { ...macro.lastFired, [key]: now.toISOString() };
+        changed = true;
+        if (!due.some((d) => d.macro.id === macro.id)) {
+          due.push({ macro, reason: formatTime(trigger.hour, trigger.minute) });
+        }
+      }
+    }
+  }
+
+  if (changed) await saveMacros(macros);
+
+  const pending = await getPendingRuns();
+  if (pending.length > 0) {
+    await AsyncStorage.removeItem(STORAGE_KEYS.PENDING_MACRO_RUNS);
+    for (const run of pending) {
+      const macro = macros.find((m) => m.id === run.macroId);
+      if (macro && !due.some((d) => d.macro.id === macro.id)) {
+        due.push({ macro, reason: run.reason });
+      }
+    }
+  }
+
+  return due;
+}
+
+// Macros running right now; their own /log steps mustn't trigger macros
+let runningMacros = 0;
+
+/**
+ * Run a macro's steps without its quick-log entries triggering other
+ * macros (or itself, when it logs the quick log it's scheduled after)
+ */
+export async function withMacroTriggersPaused<T>(run: () => Promise<T>): Promise<T> {
+  runningMacros++;
+  try {
+    return await run();
+  } finally {
+    runningMacros--;
+  }
+}
+
+/**
+ * Queue macros that follow this quick log
+ */
+async function handleLogEntry(entry: LogEntry): Promise<void> {
+  if (runningMacros > 0) return;
+
+  const macros = await getCommandMacros();
+  const triggered = macros.filter((macro) =>
+    macro.triggers.some((t) => t.type === 'quick_log' && t.logId === entry.logId)
+  );
+  if (triggered.length === 0) return;
+
+  for (const macro of triggered) {
+    await queueMacroRun(macro.id, 'quick log');
+    await showCommandNotification({
+      id: `${macro.id}_log`,
+      title: `/${macro.name} is ready`,
+      body: 'Open the coach to run it. 🌿',
+      data: { type: 'command_macro', macroId: macro.id },
+    });
+  }
+  notifyMacroRunListeners();
+}
+
+subscribeToLogEntries((entry) => {
+  handleLogEntry(entry).catch((error) => console.error('Failed to trigger macros for log entry:', error));
+});
+
+export { STORAGE_KEYS as MACRO_STORAGE_KEYS };
@@ -0,0 +1,568 @@
+/**
+ * Core Commands
+ *
+ * Help, status, collection and stats, journal search, quick logs,
+ * memory controls, utilities and the easter eggs.
+ *
+ * Unit: Slash Command System
+ */
+
+import { PERSONAS } from './coachPersonalityService';
+import {
+  formatCollectionForChat,
+  getCollectionSummary,
+  getUsageStats,
+} from './collectionService';
+import { searchEntries } from './journalSearchService';
+import { findQuickLogByName, logEntry, getTodayCount } from './quickLogsService';
+import { findMemoryFacts, forgetMemoryFact, getMemoryFacts, MemoryFact } from './memoryTierService';
+import { addPersonAlias, removePersonAlias, getPeople, getPersonAliases } from './lifeContextService';
+import {
+  registerCommand,
+  getAllCommands,
+  CommandCategory,
+  SlashCommand,
+} from './slashCommandRegistry';
+
+// ============================================
+// INFO COMMANDS
+// ============================================
+
+registerCommand({
+  name: 'help',
+  aliases: ['h', '?', 'commands'],
+  description: 'Show available commands',
+  category: 'info',
+  requiresPremium: false,
+  handler: async () => {
+    const commands = getAllCommands();
+    const byCategory: Record<CommandCategory, SlashCommand[]> = {
+      persona: [],
+      skill: [],
+      exercise: [],
+      power: [],
+      info: [],
+      secret: [],
+    };
+
+    commands.forEach((cmd) => {
+      if (cmd.category !== 'secret') {
+        byCategory[cmd.category].push(cmd);
+      }
+    });
+
+    let helpText = `**Available Commands**\n\n`;
+
+    // Persona commands
+    if (byCategory.persona.length > 0) {
+      helpText += `**Persona Switches**\n`;
+      byCategory.persona.forEach((cmd) => {
+        helpText += `\`/${cmd.name}\` — ${cmd.description}\n`;
+      });
+      helpText += '\n';
+    }
+
+    // Skill commands
+    if (byCategory.skill.length > 0) {
+      helpText += `**Skills & Upgrades**\n`;
+      byCategory.skill.forEach((cmd) => {
+        helpText += `\`/${cmd.name}\` — ${cmd.description}\n`;
+      });
+      helpText += '\n';
+    }
+
+    // Exercise commands
+    if (byCategory.exercise.length > 0) {
+      helpText += `**Guided Exercises**\n`;
+      byCategory.exercise.forEach((cmd) => {
+        helpText += `\`/${cmd.name}\` — ${cmd.description}\n`;
+      });
+      helpText += '\n';
+    }
+
+    // Info commands
+    if (byCategory.info.length > 0) {
+      helpText += `**Information**\n`;
+      byCategory.info.forEach((cmd) => {
+        helpText += `\`/${cmd.name}\` — ${cmd.description}\n`;
+      });
+      helpText += '\n';
+    }
+
+    // Power commands
+    if (byCategory.power.length > 0) {
+      helpText += `**Utilities**\n`;
+      byCategory.power.forEach((cmd) => {
+        helpText += `\`/${cmd.name}\` — ${cmd.description}\n`;
+      });
+    }
+
+    return {
+      type: 'message',
+      success: true,
+      message: helpText,
+    };
+  },
+});
+
+registerCommand({
+  name: 'status',
+  aliases: ['info', 'me'],
+  description: 'Show your current status',
+  category: 'info',
+  requiresPremium: false,
+  handler: async (args, context) => {
+    const personaDef = PERSONAS[context.currentPersona];
+
+    let statusText = `**Your Status**\n\n`;
+    statusText += `**Current Coach:** ${personaDef.emoji} ${personaDef.name}\n`;
+    statusText += `**Subscription:** ${context.isPremium ? 'Premium' : 'Free'}\n`;
+
+    return {
+      type: 'message',
+      success: true,
+      message: statusText,
+    };
+  },
+});
+
+// ============================================
+// COLLECTION COMMANDS
+// ============================================
+
+registerCommand({
+  name: 'collection',
+  aliases: ['artifacts', 'inventory', 'bag'],
+  description: 'View your collected artifacts, titles, and unlocks',
+  category: 'info',
+  requiresPremium: false,
+  handler: async () => {
+    const collectionText = await formatCollectionForChat();
+    return {
+      type: 'menu',
+      success: true,
+      message: collectionText,
+      menuType: 'skills' as any,
+    };
+  },
+});
+
+registerCommand({
+  name: 'stats',
+  aliases: ['mystats', 'progress'],
+  description: 'View your activity stats and patterns',
+  category: 'info',
+  requiresPremium: false,
+  handler: async () => {
+    const stats = await getUsageStats();
+    const summary = await getCollectionSummary();
+
+    let text = `**📊 YOUR STATS**\n`;
+    text += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+    // Activity breakdown
+    text += `**Activities**\n`;
+    text += `  🌬️ Breathing: ${stats.breathingCount} sessions\n`;
+    text += `  🦶 Grounding: ${stats.groundingCount} sessions\n`;
+    text += `  📝 Journaling: ${stats.journalCount} entries\n`;
+    text += `  🔍 Body Scans: ${stats.bodyScansCount} sessions\n`;
+    text += `  🧠 Thought Challenges: ${stats.thoughtChallengeCount} sessions\n`;
+    text += `  🎮 Games Played: ${stats.gamesPlayedCount}\n`;
+    text += `  📚 Lessons: ${stats.lessonsCompletedCount}\n\n`;
+
+    // Overall stats
+    text += `**Overall**\n`;
+    text += `  📅 Days Active: ${stats.uniqueDaysUsed.length}\n`;
+    text += `  🔄 Total Sessions: ${stats.totalSessions}\n`;
+
+    if (stats.favoriteActivity) {
+      text += `  ⭐ Favorite: ${stats.favoriteActivity}\n`;
+    }
+
+    // Time of day patterns
+    text += `\n**When You Practice**\n`;
+    text += `  🌅 Morning: ${stats.morningSessionCount}\n`;
+    text += `  🌆 Evening: ${stats.eveningSessionCount}\n`;
+    text += `  🌙 Night: ${stats.nightSessionCount}\n`;
+
+    // Personas
+    if (stats.personasUsed.length > 0) {
+      text += `\n**Coaches Met:** ${stats.personasUsed.length}/7\n`;
+    }
+
+    // Collection summary
+    text += `\n**Collection:** ${summary.totalDiscovered}/${summary.totalAvailable} discovered\n`;
+
+    text += `\n_Type \`/collection\` to see your artifacts._`;
+
+    return {
+      type: 'message',
+      success: true,
+      message: text,
+    };
+  },
+});
+
+// ============================================
+// JOURNAL COMMANDS
+// ============================================
+
+registerCommand({
+  name: 'search',
+  aliases: ['find', 'lookup'],
+  description: 'Search your journal entries',
+  category: 'info',
+  requiresPremium: false,
+  usage: '/search <words | "phrase" | prefix*> [mood:<mood>] [tag:<tag>] [after:YYYY-MM-DD] [before:YYYY-MM-DD]',
+  examples: ['/search sister', '/search "couldn\'t sleep" mood:negative', '/search anx* after:2024-01-01', '/search tag:coffee'],
+  args: [{ name: 'query', type: 'text', description: 'Words, "phrases", prefix* and filters' }],
+  handler: async (args, context, values) => {
+    const query: string = values.query || '';
+    if (!query) {
+      return {
+        type: 'message',
+        success: true,
+        message: `**🔍 Journal Search**\n\nTry \`/search sister\`, \`/search "couldn't sleep"\`, \`/search anx*\` or add filters like \`mood:negative\`, \`tag:coffee\`, \`after:2024-01-01\`.`,
+      };
+    }
+
+    const results = await searchEntries(query, { limit: 5 });
+    if (results.length === 0) {
+      return {
+        type: 'message',
+        success: true,
+        message: `No journal entries matched "${query}".`,
+        data: { query, results: [] },
+      };
+    }
+
+    let text = `**🔍 Journal matches for "${query}"**\n\n`;
+    for (const result of results) {
+      const dateStr = new Date(result.createdAt).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      });
+      text += `**${dateStr}** — ${result.snippet}\n\n`;
+    }
+    text += `_Open History to search everything._`;
+
+    return {
+      type: 'message',
+      success: true,
+      message: text,
+      data: { query, results: results.map((r) => ({ entryId: r.entryId, createdAt: r.createdAt })) },
+    };
+  },
+});
+
+// ============================================
+// QUICK LOG COMMANDS
+// ============================================
+
+registerCommand({
+  name: 'log',
+  aliases: ['track', 'twig'],
+  description: 'Log one of your quick logs',
+  category: 'power',
+  requiresPremium: false,
+  usage: '/log <quick log name>',
+  examples: ['/log water', '/log took meds'],
+  args: [{ name: 'log', type: 'text', required: true, description: 'Quick log name' }],
+  handler: async (args, context, values) => {
+    const log = await findQuickLogByName(values.log);
+    if (!log) {
+      return {
+        type: 'error',
+        success: false,
+        message: `No quick log matching "${values.log}".\n\nCreate one from the home screen, then log it here.`,
+      };
+    }
+
+    await logEntry(log.id);
+    const count = await getTodayCount(log.id);
+    const target = log.targetPerDay ? `/${log.targetPerDay}` : '';
+
+    return {
+      type: 'message',
+      success: true,
+      message: `${log.emoji} Logged **${log.name}** (${count}${target} today)`,
+      data: { logId: log.id },
+    };
+  },
+});
+
+// ============================================
+// MEMORY COMMANDS
+// ============================================
+
+const FACT_KIND_LABELS: Record<MemoryFact['kind'], string> = {
+  relationship: 'Person',
+  life_event: 'Life event',
+  trigger: 'Trigger',
+  calming_factor: 'What helps',
+  sensitivity: 'Handle carefully',
+};
+
+function formatFactList(facts: MemoryFact[]): string {
+  return facts.map((f) => `• ${FACT_KIND_LABELS[f.kind]}: ${f.text}`).join('\n');
+}
+
+registerCommand({
+  name: 'forget',
+  aliases: ['unlearn'],
+  description: 'Make the coach forget something it learned about you',
+  category: 'power',
+  requiresPremium: false,
+  usage: '/forget <what to forget> [--all]',
+  examples: ['/forget deadlines', '/forget Sarah', '/forget work --all'],
+  args: [
+    { name: 'all', type: 'flag', description: 'Forget every match' },
+    { name: 'fact', type: 'text', description: 'Words from the memory to forget' },
+  ],
+  handler: async (args, context, values) => {
+    const query: string = values.fact || '';
+    if (!query) {
+      const facts = await getMemoryFacts();
+      if (facts.length === 0) {
+        return { type: 'message', success: true, message: "I haven't learned any lasting facts about you yet." };
+      }
+      return {
+        type: 'message',
+        success: true,
+        message: `**🧠 What I remember**\n\n${formatFactList(facts.slice(0, 15))}\n\nUse \`/forget <words>\` to remove one. Open Settings → Coach Memory to edit.`,
+      };
+    }
+
+    const matches = await findMemoryFacts(query);
+    if (matches.length === 0) {
+      return {
+        type: 'error',
+        success: false,
+        message: `Nothing in my memory matches "${query}". Try \`/forget\` to see what I remember.`,
+      };
+    }
+
+    if (matches.length > 1 && !values.all) {
+      return {
+        type: 'message',
+        success: true,
+        message: `A few things match "${query}":\n\n${formatFactList(matches)}\n\nBe more specific, or use \`/forget ${query} --all\` to forget all of them.`,
+        data: { matches: matches.map((f) => f.id) },
+      };
+    }
+
+    for (const fact of matches) {
+      await forgetMemoryFact(fact.id);
+    }
+
+    return {
+      type: 'message',
+      success: true,
+      message: `🍂 Forgotten:\n${formatFactList(matches)}\n\nI won't pick ${matches.length === 1 ? 'it' : 'them'} up again.`,
+      data: { forgotten: matches.map((f) => f.id) },
+    };
+  },
+});
+
+registerCommand({
+  name: 'people',
+  aliases: ['alias'],
+  description: 'See who your journal mentions, and merge names for the same person',
+  category: 'power',
+  requiresPremium: false,
+  usage: '/people [other name = name] [--split other name]',
+  examples: ['/people', '/people mum = Mom', '/people Sam = Samantha', '/people --split Sam'],
+  args: [
+    { name: 'split', type: 'flag', description: 'Undo a merge' },
+    { name: 'names', type: 'text', description: '"other name = name", or the name to split off' },
+  ],
+  handler: async (args, context, values) => {
+    const input: string = (values.names || '').trim();
+
+    if (values.split) {
+      if (!input) {
+        return { type: 'error', success: false, message: 'Which name should I split off? e.g. `/people --split Sam`' };
+      }
+      const aliases = await getPersonAliases();
+      const before = Object.keys(aliases).length;
+      await removePersonAlias(input);
+      const after = Object.keys(await getPersonAliases()).length;
+      return after < before
+        ? { type: 'message', success: true, message: `✂️ "${input}" is its own person again.` }
+        : { type: 'error', success: false, message: `"${input}" isn't merged with anyone.` };
+    }
+
+    if (input.includes('=')) {
+      const [alias, name] = input.split('=').map((part) => part.trim());
+      if (!alias || !name) {
+        return { type: 'error', success: false, message: 'Use `/people other name = name`, e.g. `/people mum = Mom`' };
+      }
+      await addPersonAlias(alias, name);
+      return {
+        type: 'message',
+        success: true,
+        message: `🔗 Got it: "${alias}" is ${name}. I'll treat them as one person from now on.`,
+      };
+    }
+
+    const people = await getPeople();
+    if (people.length === 0) {
+      return { type: 'message', success: true, message: "I haven't noticed anyone in your journal yet." };
+    }
+    const list = people.slice(0, 15).map((p) => {
+      const role = p.detail && p.detail.toLowerCase() !== p.value.toLowerCase() ? ` (${p.detail})` : '';
+      const aka = p.aliases?.length ? ` — also "${p.aliases.join('", "')}"` : '';
+      return `• ${p.value}${role}: ${p.mentionCount} mention${p.mentionCount === 1 ? '' : 's'}${aka}`;
+    });
+    return {
+      type: 'message',
+      success: true,
+      message: `**👥 People in your journal**\n\n${list.join('\n')}\n\nSame person under two names? \`/people other name = name\``,
+    };
+  },
+});
+
+// ============================================
+// POWER COMMANDS
+// ============================================
+
+registerCommand({
+  name: 'clear',
+  aliases: ['cls', 'reset'],
+  description: 'Clear conversation history',
+  category: 'power',
+  requiresPremium: false,
+  handler: async () => {
+    return {
+      type: 'action',
+      success: true,
+      message: 'Conversation cleared. Fresh start!',
+      data: { action: 'clear_conversation' },
+    };
+  },
+});
+
+registerCommand({
+  name: 'settings',
+  aliases: ['config', 'preferences'],
+  description: 'Open coach settings',
+  category: 'power',
+  requiresPremium: false,
+  handler: async () => {
+    return {
+      type: 'navigation',
+      success: true,
+      message: 'Opening settings...',
+      navigateTo: '/coach/settings',
+    };
+  },
+});
+
+registerCommand({
+  name: 'modes',
+  aliases: ['mode', 'enhance', 'skills-mode'],
+  description: 'Open coach modes picker to enhance how the coach helps you',
+  category: 'power',
+  requiresPremium: false,
+  handler: async () => {
+    return {
+      type: 'action',
+      success: true,
+      message: '✨ Opening Coach Modes...\n\nSelect modes to enhance how I help you — breathing guides, CBT techniques, mindfulness, and more.',
+      data: { action: 'show_modes_picker' },
+    };
+  },
+});
+
+registerCommand({
+  name: 'tour',
+  aliases: ['walkthrough', 'guide', 'show-around'],
+  description: 'Start the guided tour of the app',
+  category: 'power',
+  requiresPremium: false,
+  usage: '/tour [reset]',
+  examples: ['/tour', '/tour reset'],
+  args: [{ name: 'action', type: 'enum', values: ['reset'] }],
+  handler: async (args, context, values) => {
+    if (values.action === 'reset') {
+      return {
+        type: 'action',
+        success: true,
+        message: '🔄 Tour reset! You can now take it again.',
+        data: { action: 'reset_tour' },
+      };
+    }
+    return {
+      type: 'action',
+      success: true,
+      message: '🗺️ Starting guided tour...\n\nI\'ll walk you through all the features!',
+      data: { action: 'start_tour' },
+    };
+  },
+});
+
+// ============================================
+// SECRET COMMANDS (Easter Eggs)
+// ============================================
+
+registerCommand({
+  name: 'love',
+  aliases: ['heart'],
+  description: 'A little reminder',
+  category: 'secret',
+  requiresPremium: false,
+  handler: async () => {
+    const messages = [
+      "You're doing better than you think. 💚",
+      "Hey. You matter. That's not nothing. 💚",
+      "The fact that you're here, trying? That's strength. 💚",
+      "You deserve the kindness you give others. 💚",
+      "Progress isn't always visible. But you're making it. 💚",
+    ];
+    return {
+      type: 'message',
+      success: true,
+      message: messages[Math.floor(Math.random() * messages.length)],
+    };
+  },
+});
+
+registerCommand({
+  name: 'hug',
+  aliases: ['hugs'],
+  description: 'Virtual hug',
+  category: 'secret',
+  requiresPremium: false,
+  handler: async () => {
+    return {
+      type: 'message',
+      success: true,
+      message: `*wraps you in a warm virtual hug* 🤗\n\nYou're not alone in this.`,
+    };
+  },
+});
+
+registerCommand({
+  name: 'wisdom',
+  aliases: ['quote', 'inspire'],
+  description: 'Random wisdom',
+  category: 'secret',
+  requiresPremium: false,
+  handler: async () => {
+    const wisdoms = [
+      "You don't have to feel ready to start. You just have to start.",
+      "The only way out is through — but you don't have to rush.",
+      "Your nervous system is trying to protect you. Thank it, then correct it.",
+      "What would you do if you felt 10% better? Do that thing anyway.",
+      "Rest is not a reward for productivity. It's a requirement for life.",
+      "You're not behind. You're on your own timeline.",
+      "Feelings are visitors. Let them come and go.",
+    ];
+    return {
+      type: 'message',
+      success: true,
+      message: `💡 ${wisdoms[Math.floor(Math.random() * wisdoms.length)]}`,
+    };
+  },
+});
@@ -4,6 +4,12 @@
  * Calculates statistical correlations between lifestyle factors and mood.
  * Used to generate data-driven pattern observations.
  *
+ * Every factor is tested against mood on the same day and the day after
+ * (lag 1), using Spearman rank correlation. Each test gets a permutation
+ * p-value, the whole family of tests is corrected with Benjamini-Hochberg,
+ * and confidence comes from the adjusted p-value and a confidence interval
+ * rather than a fixed |r| cut-off.
+ *
  * Following Mood Leaf Ethics:
  * - Observations are tentative ("might", "seems")
  * - Correlation ≠ causation (we're clear about this)
@@ -12,8 +18,11 @@
  * Unit 12: Correlation Engine
  */
 
-import { DailySummary } from '@/types/DailySummary';
-import { log, info } from './loggingService';
+import { DailySummary, LifestyleFactors, formatDateString, parseDateString } from '@/types/DailySummary';
+import { FOOD_TAGS } from '@/types/PeriodCorrelation';
+import { getQuickLogs, getAllLogEntries } from './quickLogsService';
+import { getLogsForRange } from './periodCorrelationService';
+import { info, warn } from './loggingService';
 
 /**
  * Confidence level for pattern observations
@@ -23,7 +32,16 @@ export type ConfidenceLevel = 'low' | 'moderate' | 'high';
 /**
  * Factor types that can be correlated
  */
-export type FactorType = 'sleep' | 'exercise' | 'social' | 'caffeine' | 'alcohol' | 'outdoor' | 'mood';
+export type FactorType =
+  | 'sleep'
+  | 'exercise'
+  | 'social'
+  | 'caffeine'
+  | 'alcohol'
+  | 'outdoor'
+  | 'mood'
+  | 'quick_log'
+  | 'food';
 
 /**
  * Pattern observation with confidence
@@ -34,9 +52,82 @@ export interface PatternObservation {
   text: string;
   confidence: ConfidenceLevel;
   factors: FactorType[];
-  correlation: number; // -1 to +1
+  correlation: number; // -1 to +1 (Spearman)
+  /** 0 = same day, 1 = factor the day before the mood */
+  lag: number;
+  sampleSize: number;
+  pValue: number;
+  /** Benjamini-Hochberg adjusted p-value (false discovery rate) */
+  adjustedPValue: number;
+  /** 95% confidence interval for the correlation */
+  interval: [number, number];
+}
+
+/**
+ * A daily series that can be tested against mood
+ */
+export interface CorrelationFactor {
+  id: string;
+  type: FactorType;
+  label: string;
+  emoji: string;
+  /** Value by date (YYYY-MM-DD); missing dates are skipped, not zero */
+  values: Record<string, number>;
+  /** "On days with more exercise" */
+  sameDayPhrase: string;
+  /** "The day after more exercise" */
+  nextDayPhrase: string;
+}
+
+/**
+ * Result of one factor/lag test
+ */
+export interface CorrelationTest {
+  factor: CorrelationFactor;
+  lag: number;
+  sampleSize: number;
+  correlation: number;
+  pValue: number;
+  adjustedPValue: number;
+  interval: [number, number];
+  confidence: ConfidenceLevel;
 }
 
+export interface CorrelationOptions {
+  /** Lags (in days) to test each factor at */
+  lags: number[];
+  /** Permutations per test */
+  iterations: number;
+  /** Fewest paired days a test needs */
+  minPairedDays: number;
+  /** Largest adjusted p-value worth showing */
+  maxFalseDiscoveryRate: number;
+  /** Seed for the permutation shuffles (same data, same answer) */
+  seed: number;
+}
+
+export const DEFAULT_CORRELATION_OPTIONS: CorrelationOptions = {
+  lags: [0, 1],
+  iterations: 1999,
+  minPairedDays: 14,
+  maxFalseDiscoveryRate: 0.1,
+  seed: 42,
+};
+
+/** How many days of history the Insights tab analyzes */
+export const CORRELATION_WINDOW_DAYS = 60;
+
+// A binary factor needs at least this many days on each side
+const MIN_DAYS_PER_GROUP = 3;
+
+// Permutation tests stop early when the p-value is plainly large
+const EARLY_STOP_ITERATIONS = 199;
+const EARLY_STOP_P_VALUE = 0.2;
+
+// ============================================
+// STATISTICS
+// ============================================
+
 /**
  * Calculate Pearson correlation coefficient
  * Returns value between -1 (negative correlation) and +1 (positive correlation)
@@ -78,174 +169,438 @@ export function calculateCorrelation(x: number[], y: number[]): number {
 }
 
 /**
- * Get confidence level based on correlation strength and sample size
+ * Rank values from 1..n, giving ties their average rank
  */
-function getConfidence(correlation: number, sampleSize: number): ConfidenceLevel {
-  const absCorr = Math.abs(correlation);
-
-  if (sampleSize < 5) return 'low';
-  if (sampleSize < 7 && absCorr < 0.5) return 'low';
+export function rankValues(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    i = j + 1;
+  }
 
-  if (absCorr >= 0.6 && sampleSize >= 7) return 'high';
-  if (absCorr >= 0.4 && sampleSize >= 5) return 'moderate';
+  return ranks;
+}
 
-  return 'low';
+/**
+ * Spearman rank correlation: robust to outliers and non-linear
+ * (but monotonic) relationships, like diminishing returns from sleep
+ */
+export function calculateRankCorrelation(x: number[], y: number[]): number {
+  if (x.length !== y.length || x.length < 3) {
+    return 0;
+  }
+  return calculateCorrelation(rankValues(x), rankValues(y));
 }
 
 /**
- * Generate pattern observations from daily summaries using correlation analysis
+ * Small seeded PRNG (mulberry32) so permutation results are repeatable
  */
-export function generateCorrelationObservations(days: DailySummary[]): PatternObservation[] {
-  const observations: PatternObservation[] = [];
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
-  // Extract mood data (sentiment scores)
-  const daysWithMood = days.filter((d) => d.averageSentiment !== null);
-  if (daysWithMood.length < 3) {
-    return observations;
+/**
+ * Two-sided permutation p-value for a rank correlation: how often does
+ * shuffling the mood days give a correlation at least this strong?
+ */
+export function permutationPValue(
+  x: number[],
+  y: number[],
+  iterations: number = DEFAULT_CORRELATION_OPTIONS.iterations,
+  seed: number = DEFAULT_CORRELATION_OPTIONS.seed
+): number {
+  if (x.length !== y.length || x.length < 3) return 1;
+
+  // Ranks don't change under shuffling, so center them once and compare
+  // dot products instead of recomputing full correlations
+  const center = (ranks: number[]) => {
+    const mean = ranks.reduce((a, b) => a + b, 0) / ranks.length;
+    return ranks.map((r) => r - mean);
+  };
+  const centeredX = center(rankValues(x));
+  const shuffled = center(rankValues(y));
+  const dot = () => {
+    let sum = 0;
+    for (let i = 0; i < centeredX.length; i++) sum += centeredX[i] * shuffled[i];
+    return sum;
+  };
+
+  const observed = Math.abs(dot());
+  const random = createRandom(seed);
+
+  let atLeastAsExtreme = 0;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      const swap = shuffled[i];
+      shuffled[i] = shuffled[j];
+      shuffled[j] = swap;
+    }
+    // Small tolerance so exact ties with the observed value count
+    if (Math.abs(dot()) >= observed - 1e-9) {
+      atLeastAsExtreme++;
+    }
+    // Clearly unremarkable: no need for the full run to know it
+    if (iteration + 1 === EARLY_STOP_ITERATIONS && atLeastAsExtreme / (iteration + 1) > EARLY_STOP_P_VALUE) {
+      return (atLeastAsExtreme + 1) / (iteration + 2);
+    }
   }
 
-  const moods = daysWithMood.map((d) => d.averageSentiment!);
-
-  // Sleep correlation
-  const daysWithSleep = daysWithMood.filter((d) => d.factors.sleepHours !== undefined);
-  if (daysWithSleep.length >= 3) {
-    const sleeps = daysWithSleep.map((d) => d.factors.sleepHours!);
-    const sleepMoods = daysWithSleep.map((d) => d.averageSentiment!);
-    const sleepCorr = calculateCorrelation(sleeps, sleepMoods);
-
-    if (Math.abs(sleepCorr) >= 0.3) {
-      const confidence = getConfidence(sleepCorr, daysWithSleep.length);
-      observations.push({
-        id: 'sleep-mood',
-        emoji: '😴',
-        text:
-          sleepCorr > 0
-            ? 'More sleep seems connected to more positive entries.'
-            : 'Interestingly, less sleep might correlate with your mood.',
-        confidence,
-        factors: ['sleep', 'mood'],
-        correlation: sleepCorr,
-      });
-    }
+  // +1 on both sides: the observed ordering is one of the permutations
+  return (atLeastAsExtreme + 1) / (iterations + 1);
+}
+
+/**
+ * Benjamini-Hochberg adjustment: controls the share of reported patterns
+ * that are false discoveries when many factors/lags are tested at once
+ */
+export function adjustPValues(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+
+  let runningMin = 1;
+  for (let rank = m; rank >= 1; rank--) {
+    const { p, index } = order[rank - 1];
+    runningMin = Math.min(runningMin, (p * m) / rank);
+    adjusted[index] = runningMin;
   }
 
-  // Exercise correlation
-  const daysWithExercise = daysWithMood.filter((d) => d.factors.exerciseMinutes !== undefined);
-  if (daysWithExercise.length >= 3) {
-    const exercises = daysWithExercise.map((d) => d.factors.exerciseMinutes!);
-    const exerciseMoods = daysWithExercise.map((d) => d.averageSentiment!);
-    const exerciseCorr = calculateCorrelation(exercises, exerciseMoods);
-
-    if (Math.abs(exerciseCorr) >= 0.3) {
-      const confidence = getConfidence(exerciseCorr, daysWithExercise.length);
-      observations.push({
-        id: 'exercise-mood',
-        emoji: '🏃',
-        text:
-          exerciseCorr > 0
-            ? 'Exercise days tend to come with brighter entries.'
-            : 'You might notice different moods on active days.',
-        confidence,
-        factors: ['exercise', 'mood'],
-        correlation: exerciseCorr,
-      });
+  return adjusted;
+}
+
+/**
+ * 95% confidence interval for a Spearman correlation
+ * (Fisher z with the Bonett-Wright standard error)
+ */
+export function correlationInterval(correlation: number, sampleSize: number): [number, number] {
+  if (sampleSize <= 3) return [-1, 1];
+
+  const r = Math.max(-0.9999, Math.min(0.9999, correlation));
+  const z = Math.atanh(r);
+  const standardError = Math.sqrt((1 + (r * r) / 2) / (sampleSize - 3));
+  return [Math.tanh(z - 1.96 * standardError), Math.tanh(z + 1.96 * standardError)];
+}
+
+/**
+ * Confidence from real uncertainty: the adjusted p-value and how close
+ * the interval comes to zero
+ */
+function getConfidence(adjustedPValue: number, interval: [number, number]): ConfidenceLevel {
+  // Weakest plausible effect size
+  const weakest = interval[0] > 0 ? interval[0] : interval[1] < 0 ? -interval[1] : 0;
+
+  if (adjustedPValue <= 0.01 && weakest >= 0.3) return 'high';
+  if (adjustedPValue <= 0.05 && weakest > 0) return 'moderate';
+  return 'low';
+}
+
+// ============================================
+// FACTORS
+// ============================================
+
+const LIFESTYLE_FACTORS: {
+  key: keyof LifestyleFactors;
+  type: FactorType;
+  label: string;
+  emoji: string;
+  sameDayPhrase: string;
+  nextDayPhrase: string;
+}[] = [
+  {
+    key: 'sleepHours',
+    type: 'sleep',
+    label: 'Sleep',
+    emoji: '😴',
+    // sleepHours is already the night before, so lag 1 is two days after it
+    sameDayPhrase: 'After nights with more sleep',
+    nextDayPhrase: 'Two days after a night with more sleep',
+  },
+  {
+    key: 'exerciseMinutes',
+    type: 'exercise',
+    label: 'Exercise',
+    emoji: '🏃',
+    sameDayPhrase: 'On days with more exercise',
+    nextDayPhrase: 'The day after more exercise',
+  },
+  {
+    key: 'socialMinutes',
+    type: 'social',
+    label: 'Social time',
+    emoji: '👥',
+    sameDayPhrase: 'On days with more time around others',
+    nextDayPhrase: 'The day after more time around others',
+  },
+  {
+    key: 'outdoorMinutes',
+    type: 'outdoor',
+    label: 'Time outside',
+    emoji: '🌳',
+    sameDayPhrase: 'On days with more time outside',
+    nextDayPhrase: 'The day after more time outside',
+  },
+  {
+    key: 'caffeineCount',
+    type: 'caffeine',
+    label: 'Caffeine',
+    emoji: '☕',
+    sameDayPhrase: 'On days with more caffeine',
+    nextDayPhrase: 'The day after more caffeine',
+  },
+  {
+    key: 'alcoholCount',
+    type: 'alcohol',
+    label: 'Alcohol',
+    emoji: '🍺',
+    sameDayPhrase: 'On days with more drinks',
+    nextDayPhrase: 'The day after more drinks',
+  },
+];
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+function shiftDate(date: string, days: number): string {
+  const shifted = parseDateString(date);
+  shifted.setDate(shifted.getDate() + days);
+  return formatDateString(shifted);
+}
+
+function isoToLocalDate(isoTimestamp: string): string {
+  return formatDateString(new Date(isoTimestamp));
+}
+
+/**
+ * Lifestyle factors stored on the daily summaries
+ */
+export function getLifestyleFactors(days: DailySummary[]): CorrelationFactor[] {
+  return LIFESTYLE_FACTORS.map((definition) => {
+    const values: Record<string, number> = {};
+    for (const day of days) {
+      const value = day.factors[definition.key];
+      if (value !== undefined) values[day.date] = value;
     }
-  }
+    return {
+      id: definition.type,
+      type: definition.type,
+      label: definition.label,
+      emoji: definition.emoji,
+      values,
+      sameDayPhrase: definition.sameDayPhrase,
+      nextDayPhrase: definition.nextDayPhrase,
+    };
+  });
+}
 
-  // Social correlation
-  const daysWithSocial = daysWithMood.filter((d) => d.factors.socialMinutes !== undefined);
-  if (daysWithSocial.length >= 3) {
-    const socials = daysWithSocial.map((d) => d.factors.socialMinutes!);
-    const socialMoods = daysWithSocial.map((d) => d.averageSentiment!);
-    const socialCorr = calculateCorrelation(socials, socialMoods);
-
-    if (Math.abs(socialCorr) >= 0.3) {
-      const confidence = getConfidence(socialCorr, daysWithSocial.length);
-      observations.push({
-        id: 'social-mood',
-        emoji: '👥',
-        text:
-          socialCorr > 0
-            ? 'Time with others might be connected to how you feel.'
-            : 'Social time shows an interesting pattern with your mood.',
-        confidence,
-        factors: ['social', 'mood'],
-        correlation: socialCorr,
+/**
+ * Quick-log twigs (taps per day) and food tags (present or not on days
+ * with a food log) for the dates the summaries cover
+ */
+export async function loadTrackedFactors(days: DailySummary[]): Promise<CorrelationFactor[]> {
+  if (days.length === 0) return [];
+
+  const dates = days.map((d) => d.date).sort();
+  const startDate = dates[0];
+  const endDate = dates[dates.length - 1];
+  const factors: CorrelationFactor[] = [];
+
+  try {
+    const logs = await getQuickLogs();
+    const entries = await getAllLogEntries();
+
+    for (const quickLog of logs) {
+      const counts: Record<string, number> = {};
+      for (const entry of entries) {
+        if (entry.logId !== quickLog.id) continue;
+        const date = isoToLocalDate(entry.timestamp);
+        counts[date] = (counts[date] || 0) + 1;
+      }
+
+      // Days before the twig existed are unknown, not zero
+      const createdDate = isoToLocalDate(quickLog.createdAt);
+      const values: Record<string, number> = {};
+      for (const date of dates) {
+        if (date >= createdDate) values[date] = counts[date] || 0;
+      }
+
+      factors.push({
+        id: `log_${quickLog.id}`,
+        type: 'quick_log',
+        label: quickLog.name,
+        emoji: quickLog.emoji,
+        values,
+        sameDayPhrase: `On days you log "${quickLog.name}" more`,
+        nextDayPhrase: `The day after you log "${quickLog.name}" more`,
       });
     }
+  } catch (error) {
+    warn('services', 'Quick logs unavailable for correlation', { error: String(error) }, 'correlationService');
   }
 
-  // Outdoor correlation
-  const daysWithOutdoor = daysWithMood.filter((d) => d.factors.outdoorMinutes !== undefined);
-  if (daysWithOutdoor.length >= 3) {
-    const outdoors = daysWithOutdoor.map((d) => d.factors.outdoorMinutes!);
-    const outdoorMoods = daysWithOutdoor.map((d) => d.averageSentiment!);
-    const outdoorCorr = calculateCorrelation(outdoors, outdoorMoods);
-
-    if (Math.abs(outdoorCorr) >= 0.3) {
-      const confidence = getConfidence(outdoorCorr, daysWithOutdoor.length);
-      observations.push({
-        id: 'outdoor-mood',
-        emoji: '🌳',
-        text:
-          outdoorCorr > 0
-            ? 'Time outside seems to correlate with brighter days.'
-            : 'Outdoor time shows a pattern worth noticing.',
-        confidence,
-        factors: ['outdoor', 'mood'],
-        correlation: outdoorCorr,
+  try {
+    const foodLogs = await getLogsForRange(startDate, endDate);
+    const loggedDays = foodLogs.filter((l) => l.foodTags.length > 0);
+
+    for (const tag of FOOD_TAGS) {
+      const values: Record<string, number> = {};
+      for (const day of loggedDays) {
+        values[day.date] = day.foodTags.includes(tag.id) ? 1 : 0;
+      }
+      factors.push({
+        id: `food_${tag.id}`,
+        type: 'food',
+        label: tag.label,
+        emoji: tag.emoji,
+        values,
+        sameDayPhrase: `On days with ${tag.label.toLowerCase()}`,
+        nextDayPhrase: `The day after ${tag.label.toLowerCase()}`,
       });
     }
+  } catch (error) {
+    warn('services', 'Food tags unavailable for correlation', { error: String(error) }, 'correlationService');
   }
 
-  // Caffeine correlation
-  const daysWithCaffeine = daysWithMood.filter((d) => d.factors.caffeineCount !== undefined);
-  if (daysWithCaffeine.length >= 3) {
-    const caffeines = daysWithCaffeine.map((d) => d.factors.caffeineCount!);
-    const caffeineMoods = daysWithCaffeine.map((d) => d.averageSentiment!);
-    const caffeineCorr = calculateCorrelation(caffeines, caffeineMoods);
-
-    if (Math.abs(caffeineCorr) >= 0.3) {
-      const confidence = getConfidence(caffeineCorr, daysWithCaffeine.length);
-      observations.push({
-        id: 'caffeine-mood',
-        emoji: '☕',
-        text:
-          caffeineCorr > 0
-            ? 'Caffeine intake shows a positive pattern with your mood.'
-            : 'You might notice a pattern between caffeine and how you feel.',
-        confidence,
-        factors: ['caffeine', 'mood'],
-        correlation: caffeineCorr,
-      });
-    }
+  return factors;
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Enough spread to test: at least two distinct values, and for yes/no
+ * factors a few days on each side
+ */
+function hasVariation(values: number[]): boolean {
+  const distinct = new Set(values);
+  if (distinct.size < 2) return false;
+  if (distinct.size === 2) {
+    const [first] = Array.from(distinct);
+    const firstCount = values.filter((v) => v === first).length;
+    return Math.min(firstCount, values.length - firstCount) >= MIN_DAYS_PER_GROUP;
   }
+  return true;
+}
 
-  // Alcohol correlation
-  const daysWithAlcohol = daysWithMood.filter((d) => d.factors.alcoholCount !== undefined);
-  if (daysWithAlcohol.length >= 3) {
-    const alcohols = daysWithAlcohol.map((d) => d.factors.alcoholCount!);
-    const alcoholMoods = daysWithAlcohol.map((d) => d.averageSentiment!);
-    const alcoholCorr = calculateCorrelation(alcohols, alcoholMoods);
-
-    if (Math.abs(alcoholCorr) >= 0.3) {
-      const confidence = getConfidence(alcoholCorr, daysWithAlcohol.length);
-      observations.push({
-        id: 'alcohol-mood',
-        emoji: '🍺',
-        text:
-          alcoholCorr > 0
-            ? 'Alcohol shows a pattern worth exploring with your mood.'
-            : 'You might notice how alcohol connects to your entries.',
-        confidence,
-        factors: ['alcohol', 'mood'],
-        correlation: alcoholCorr,
+/**
+ * Test every factor at every lag against mood (average sentiment),
+ * with permutation p-values adjusted across the whole family of tests.
+ * Returns all tests, most significant first.
+ */
+export function analyzeCorrelations(
+  days: DailySummary[],
+  extraFactors: CorrelationFactor[] = [],
+  options: Partial<CorrelationOptions> = {}
+): CorrelationTest[] {
+  const settings = { ...DEFAULT_CORRELATION_OPTIONS, ...options };
+
+  const moodByDate: Record<string, number> = {};
+  for (const day of days) {
+    if (day.averageSentiment !== null) moodByDate[day.date] = day.averageSentiment;
+  }
+  const moodDates = Object.keys(moodByDate).sort();
+  if (moodDates.length < settings.minPairedDays) return [];
+
+  const factors = [...getLifestyleFactors(days), ...extraFactors];
+  const pending: Omit<CorrelationTest, 'adjustedPValue' | 'confidence'>[] = [];
+
+  factors.forEach((factor, factorIndex) => {
+    for (const lag of settings.lags) {
+      const x: number[] = [];
+      const y: number[] = [];
+      for (const date of moodDates) {
+        const value = factor.values[shiftDate(date, -lag)];
+        if (value === undefined) continue;
+        x.push(value);
+        y.push(moodByDate[date]);
+      }
+
+      if (x.length < settings.minPairedDays || !hasVariation(x) || !hasVariation(y)) continue;
+
+      const correlation = calculateRankCorrelation(x, y);
+      pending.push({
+        factor,
+        lag,
+        sampleSize: x.length,
+        correlation,
+        pValue: permutationPValue(x, y, settings.iterations, settings.seed + factorIndex * 31 + lag),
+        interval: correlationInterval(correlation, x.length),
       });
     }
-  }
+  });
 
-  // Sort by correlation strength (most significant first)
-  observations.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+  const adjusted = adjustPValues(pending.map((t) => t.pValue));
+  const tests: CorrelationTest[] = pending.map((test, index) => ({
+    ...test,
+    adjustedPValue: adjusted[index],
+    confidence: getConfidence(adjusted[index], test.interval),
+  }));
+
+  tests.sort((a, b) => a.adjustedPValue - b.adjustedPValue || Math.abs(b.correlation) - Math.abs(a.correlation));
+
+  info('services', 'Correlation analysis complete', {
+    factors: factors.length,
+    tests: tests.length,
+    significant: tests.filter((t) => t.adjustedPValue <= settings.maxFalseDiscoveryRate).length,
+  }, 'correlationService');
+
+  return tests;
+}
+
+function describeTest(test: CorrelationTest): string {
+  const when = test.lag === 0 ? test.factor.sameDayPhrase : test.factor.nextDayPhrase;
+  return test.correlation > 0
+    ? `${when}, your entries tend to be brighter.`
+    : `${when}, your entries tend to be heavier.`;
+}
+
+/**
+ * Generate pattern observations from daily summaries using correlation analysis.
+ * Only patterns that survive the false discovery rate correction are shown,
+ * one per factor (its strongest lag), at most three.
+ */
+export function generateCorrelationObservations(
+  days: DailySummary[],
+  extraFactors: CorrelationFactor[] = [],
+  options: Partial<CorrelationOptions> = {}
+): PatternObservation[] {
+  const maxFalseDiscoveryRate = options.maxFalseDiscoveryRate ?? DEFAULT_CORRELATION_OPTIONS.maxFalseDiscoveryRate;
+  const observations: PatternObservation[] = [];
+  const seenFactors = new Set<string>();
+
+  for (const test of analyzeCorrelations(days, extraFactors, options)) {
+    if (test.adjustedPValue > maxFalseDiscoveryRate) break;
+    if (seenFactors.has(test.factor.id)) continue;
+    seenFactors.add(test.factor.id);
+
+    observations.push({
+      id: `${test.factor.id}-mood-lag${test.lag}`,
+      emoji: test.factor.emoji,
+      text: describeTest(test),
+      confidence: test.confidence,
+      factors: [test.factor.type, 'mood'],
+      correlation: test.correlation,
+      lag: test.lag,
+      sampleSize: test.sampleSize,
+      pValue: test.pValue,
+      adjustedPValue: test.adjustedPValue,
+      interval: test.interval,
+    });
+  }
 
   return observations.slice(0, 3); // Max 3 observations
 }
@@ -5,11 +5,11 @@
  * Handles period logging, phase calculation, symptom tracking,
  * and integration with other app features (Sparks, Fireflies, Guide).
  *
- * Privacy: All data stored locally via AsyncStorage.
+ * Privacy: All data stored locally; cycle history is encrypted at rest.
  * Only phase summaries shared with AI guide.
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import EncryptedStorage from './encryptedStorage';
 import { log, info, warn, error as logError } from './loggingService';
 import {
   CycleData,
@@ -53,7 +53,7 @@ const PMS_DAYS_BEFORE_PERIOD = 7;
 
 export async function getCycleData(): Promise<CycleData> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.CYCLE_DATA);
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.CYCLE_DATA);
     if (stored) {
       return JSON.parse(stored);
     }
@@ -67,7 +67,7 @@ export async function getCycleData(): Promise<CycleData> {
 export async function saveCycleData(data: CycleData): Promise<void> {
   try {
     data.lastUpdated = new Date().toISOString();
-    await AsyncStorage.setItem(STORAGE_KEYS.CYCLE_DATA, JSON.stringify(data));
+    await EncryptedStorage.setItem(STORAGE_KEYS.CYCLE_DATA, JSON.stringify(data));
   } catch (error) {
     console.error('Error saving cycle data:', error);
     throw error;
@@ -76,7 +76,7 @@ export async function saveCycleData(data: CycleData): Promise<void> {
 
 export async function getCycleSettings(): Promise<CycleSettings> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.CYCLE_SETTINGS);
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.CYCLE_SETTINGS);
     if (stored) {
       // Merge with defaults to handle new settings added in updates
       return { ...createDefaultCycleSettings(), ...JSON.parse(stored) };
@@ -90,7 +90,7 @@ export async function getCycleSettings(): Promise<CycleSettings> {
 
 export async function saveCycleSettings(settings: CycleSettings): Promise<void> {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.CYCLE_SETTINGS, JSON.stringify(settings));
+    await EncryptedStorage.setItem(STORAGE_KEYS.CYCLE_SETTINGS, JSON.stringify(settings));
   } catch (error) {
     console.error('Error saving cycle settings:', error);
     throw error;
@@ -657,8 +657,8 @@ async function updateAverages(data: CycleData): Promise<void> {
 }
 
 export async function clearAllCycleData(): Promise<void> {
-  await AsyncStorage.removeItem(STORAGE_KEYS.CYCLE_DATA);
-  await AsyncStorage.removeItem(STORAGE_KEYS.CYCLE_SETTINGS);
+  await EncryptedStorage.removeItem(STORAGE_KEYS.CYCLE_DATA);
+  await EncryptedStorage.removeItem(STORAGE_KEYS.CYCLE_SETTINGS);
 }
 
 export async function exportCycleData(): Promise<string> {
@@ -0,0 +1,146 @@
+/**
+ * Data Migration Service
+ *
+ * Registry of per-key schema migrations used when importing exports
+ * made by older builds. Each stored dataset has a schema version; an
+ * export records the versions it was written with, and on import the
+ * data is stepped forward one migration at a time to the current
+ * version.
+ *
+ * Following Mood Leaf Ethics:
+ * - Imports never silently lose data: every record a migration has to
+ *   drop is reported with a reason
+ *
+ * Every key is still at schema v1. Format v1 exports (no
+ * schemaVersions) only ever held the backup keys, whose stored shapes
+ * haven't changed since; journal, quick-log and cycle data were first
+ * exported with schema versions recorded. A migration belongs here only
+ * once a stored shape actually changes.
+ *
+ * Adding a migration:
+ * 1. Bump the key's entry in CURRENT_SCHEMA_VERSIONS
+ * 2. registerMigration({ key, fromVersion, toVersion, migrate })
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DroppedRecord {
+  key: string;
+  recordId: string | null;
+  reason: string;
+}
+
+/**
+ * Passed to each migration so it can report records it can't keep
+ */
+export interface MigrationContext {
+  key: string;
+  drop: (recordId: string | null, reason: string) => void;
+}
+
+export interface SchemaMigration {
+  key: string;
+  fromVersion: number;
+  toVersion: number;
+  description: string;
+  migrate: (data: any, context: MigrationContext) => any;
+}
+
+export interface MigrationResult {
+  data: any;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  dropped: DroppedRecord[];
+}
+
+// ============================================
+// SCHEMA VERSIONS
+// ============================================
+
+/**
+ * Schema version each key is written with by this build.
+ * Keys not listed are at version 1.
+ */
+const CURRENT_SCHEMA_VERSIONS: Record<string, number> = {};
+
+export function getCurrentSchemaVersion(key: string): number {
+  return CURRENT_SCHEMA_VERSIONS[key] ?? 1;
+}
+
+/**
+ * Schema versions for a set of keys (written into exports)
+ */
+export function getSchemaVersions(keys: string[]): Record<string, number> {
+  const versions: Record<string, number> = {};
+  for (const key of keys) {
+    versions[key] = getCurrentSchemaVersion(key);
+  }
+  return versions;
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+const migrationRegistry = new Map<string, SchemaMigration[]>();
+
+/**
+ * Register a migration for one key and version step
+ */
+export function registerMigration(migration: SchemaMigration): void {
+  if (migration.toVersion !== migration.fromVersion + 1) {
+    throw new Error(`Migrations must step one version at a time (${migration.key} ${migration.fromVersion} -> ${migration.toVersion})`);
+  }
+  const existing = migrationRegistry.get(migration.key) || [];
+  if (existing.some((m) => m.fromVersion === migration.fromVersion)) {
+    throw new Error(`Duplicate migration for ${migration.key} from v${migration.fromVersion}`);
+  }
+  migrationRegistry.set(
+    migration.key,
+    [...existing, migration].sort((a, b) => a.fromVersion - b.fromVersion)
+  );
+}
+
+/**
+ * All registered migrations for a key, oldest first
+ */
+export function getMigrations(key: string): SchemaMigration[] {
+  return migrationRegistry.get(key) || [];
+}
+
+/**
+ * Step data for one key forward to a schema version (the current one by default)
+ */
+export function migrateKeyData(
+  key: string,
+  data: any,
+  fromVersion: number,
+  toVersion: number = getCurrentSchemaVersion(key)
+): MigrationResult {
+  const dropped: DroppedRecord[] = [];
+  const applied: string[] = [];
+
+  if (fromVersion > toVersion) {
+    throw new Error(`${key} was exported by a newer version of Mood Leaf (schema v${fromVersion}, this build reads up to v${toVersion})`);
+  }
+
+  const context: MigrationContext = {
+    key,
+    drop: (recordId, reason) => dropped.push({ key, recordId, reason }),
+  };
+
+  let current = data;
+  for (let version = fromVersion; version < toVersion; version++) {
+    const migration = getMigrations(key).find((m) => m.fromVersion === version);
+    if (!migration) {
+      throw new Error(`No migration registered for ${key} from v${version}`);
+    }
+    current = migration.migrate(current, context);
+    applied.push(`${key} v${migration.fromVersion}→v${migration.toVersion}: ${migration.description}`);
+  }
+
+  return { data: current, fromVersion, toVersion, applied, dropped };
+}
@@ -12,15 +12,36 @@
  * Features:
  * - Auto-backup to file system periodically
  * - Auto-recovery if AsyncStorage is empty but files exist
- * - Manual export/import for dev workflows
- * - Cloud sync for multi-device and backup
- * - Incremental sync (only changed data)
+ * - Manual export/import with schema migrations, dry runs and
+ *   selective import by category
+ * - End-to-end encrypted cloud sync for multi-device and backup
+ * - Export, import and sync read/write through encryptedStorage, so
+ *   they see plaintext; file backups keep the encrypted form
+ * - Incremental sync (only changed data) with per-dataset merging
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import EncryptedStorage from './encryptedStorage';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { log, info, warn, error as logError, startTimer, endTimer } from './loggingService';
+import {
+  EncryptedEnvelope,
+  KeyDerivationParams,
+  createKeyDerivationParams,
+  deriveKeyFromPassphrase,
+  encryptString,
+  decryptString,
+  sha256Hex,
+} from './encryptionService';
+import { JournalEntry } from '@/types/JournalEntry';
+import { getAllEntries, upsertEntries, deleteEntry } from './journalStorage';
+import {
+  DroppedRecord,
+  getCurrentSchemaVersion,
+  getSchemaVersions,
+  migrateKeyData,
+} from './dataMigrationService';
 
 // ============================================
 // CONFIGURATION
@@ -79,6 +100,8 @@ export interface ExportData {
   exportedAt: string;
   appVersion: string;
   dataVersion: number;
+  /** Schema version per key (absent in v1 exports) */
+  schemaVersions?: Record<string, number>;
   keys: string[];
   data: Record<string, any>;
   checksum: string;
@@ -186,7 +209,9 @@ async function checkNeedsRecovery(): Promise<boolean> {
 // ============================================
 
 /**
- * Backup all training data to file system
+ * Backup all training data to file system.
+ * Values are copied as stored, so encrypted keys stay encrypted in the
+ * backup files and restore with this install's storage key.
  */
 export async function backupToFileSystem(): Promise<{
   success: boolean;
@@ -365,6 +390,90 @@ export function stopAutoBackup(): void {
 // EXPORT / IMPORT
 // ============================================
 
+// Export format version. v1 exports carry no schemaVersions and are
+// treated as schema v1 for every key.
+const EXPORT_DATA_VERSION = 2;
+
+const JOURNAL_EXPORT_KEY = 'journal_entries';
+
+/**
+ * User-facing groups for selective import
+ */
+export type DataCategory = 'journal' | 'quick_logs' | 'cycle' | 'conversations' | 'profile' | 'training';
+
+// Keys exported in addition to ALL_BACKUP_KEYS
+const EXPORT_ONLY_KEYS = [
+  'moodleaf_quick_logs',
+  'moodleaf_log_entries',
+  'moodleaf_log_streaks',
+  'moodleaf_cycle_data',
+  'moodleaf_cycle_settings',
+];
+
+const EXPORT_KEYS = [JOURNAL_EXPORT_KEY, ...EXPORT_ONLY_KEYS, ...ALL_BACKUP_KEYS];
+
+const KEY_CATEGORIES: Record<string, DataCategory> = {
+  [JOURNAL_EXPORT_KEY]: 'journal',
+  moodleaf_quick_logs: 'quick_logs',
+  moodleaf_log_entries: 'quick_logs',
+  moodleaf_log_streaks: 'quick_logs',
+  moodleaf_cycle_data: 'cycle',
+  moodleaf_cycle_settings: 'cycle',
+  moodleaf_conversations: 'conversations',
+  moodleaf_moodprint: 'profile',
+  moodleaf_cognitive_profile: 'profile',
+  moodleaf_score_history: 'profile',
+};
+
+/**
+ * Category a stored key belongs to (training data by default)
+ */
+export function getDataCategory(key: string): DataCategory {
+  return KEY_CATEGORIES[key] ?? 'training';
+}
+
+export interface ImportOptions {
+  /** Report what would change without writing anything */
+  dryRun?: boolean;
+  /** Only import these categories (default: all) */
+  categories?: DataCategory[];
+}
+
+export interface ImportKeyReport {
+  key: string;
+  category: DataCategory;
+  fromSchemaVersion: number;
+  toSchemaVersion: number;
+  migrationsApplied: string[];
+  added: number;
+  updated: number;
+  unchanged: number;
+  dropped: DroppedRecord[];
+  skipped?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  exportedAt: string;
+  dataVersion: number;
+  keys: ImportKeyReport[];
+  totals: { added: number; updated: number; unchanged: number; dropped: number };
+}
+
+async function readExportValue(key: string): Promise<any | null> {
+  if (key === JOURNAL_EXPORT_KEY) {
+    const entries = await getAllEntries();
+    return entries.length > 0 ? entries : null;
+  }
+  const value = await EncryptedStorage.getItem(key);
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
 /**
  * Export all data to a shareable file
  * Useful for manual backup during development
@@ -378,23 +487,19 @@ export async function exportAllData(): Promise<{
     const data: Record<string, any> = {};
     const keys: string[] = [];
 
-    for (const key of ALL_BACKUP_KEYS) {
-      const value = await AsyncStorage.getItem(key);
-      if (value) {
-        try {
-          data[key] = JSON.parse(value);
-          keys.push(key);
-        } catch {
-          data[key] = value;
-          keys.push(key);
-        }
+    for (const key of EXPORT_KEYS) {
+      const value = await readExportValue(key);
+      if (value !== null) {
+        data[key] = value;
+        keys.push(key);
       }
     }
 
     const exportData: ExportData = {
       exportedAt: new Date().toISOString(),
       appVersion: '1.0.0',
-      dataVersion: 1,
+      dataVersion: EXPORT_DATA_VERSION,
+      schemaVersions: getSchemaVersions(keys),
       keys,
       data,
       checksum: simpleChecksum(JSON.stringify(data)),
@@ -423,12 +528,46 @@ export async function exportAllData(): Promise<{
 }
 
 /**
- * Import data from an export file
+ * Compare incoming data with what's stored locally.
+ * Arrays are compared record by record (by id); anything else as a whole.
+ */
+function diffImportValue(local: any, incoming: any): { added: number; updated: number; unchanged: number; merged: any } {
+  if (Array.isArray(incoming) && (Array.isArray(local) || local === null)) {
+    const localById = new Map<string, any>((local || []).map((item: any) => [recordId(item), item]));
+    let added = 0;
+    let updated = 0;
+    let unchanged = 0;
+    for (const item of incoming) {
+      const id = recordId(item);
+      const existing = localById.get(id);
+      if (existing === undefined) added++;
+      else if (JSON.stringify(existing) === JSON.stringify(item)) unchanged++;
+      else updated++;
+      localById.set(id, item);
+    }
+    // Imported records win; local-only records are kept
+    return { added, updated, unchanged, merged: Array.from(localById.values()) };
+  }
+
+  if (local === null) return { added: 1, updated: 0, unchanged: 0, merged: incoming };
+  const same = JSON.stringify(local) === JSON.stringify(incoming);
+  return { added: 0, updated: same ? 0 : 1, unchanged: same ? 1 : 0, merged: incoming };
+}
+
+/**
+ * Import data from an export file.
+ * Older exports are migrated key by key to the current schema. Array
+ * data is merged by record id (imported records win), so an import
+ * never deletes local records.
  */
-export async function importData(jsonString: string): Promise<{
+export async function importData(
+  jsonString: string,
+  options: ImportOptions = {}
+): Promise<{
   success: boolean;
   importedKeys: string[];
   message: string;
+  report?: ImportReport;
 }> {
   try {
     const exportData: ExportData = JSON.parse(jsonString);
@@ -439,26 +578,104 @@ export async function importData(jsonString: string): Promise<{
       return { success: false, importedKeys: [], message: 'Data integrity check failed' };
     }
 
-    const importedKeys: string[] = [];
+    if ((exportData.dataVersion ?? 1) > EXPORT_DATA_VERSION) {
+      return {
+        success: false,
+        importedKeys: [],
+        message: `This export was made by a newer version of Mood Leaf (format v${exportData.dataVersion})`,
+      };
+    }
+
+    const dryRun = options.dryRun === true;
+    const report: ImportReport = {
+      dryRun,
+      exportedAt: exportData.exportedAt,
+      dataVersion: exportData.dataVersion ?? 1,
+      keys: [],
+      totals: { added: 0, updated: 0, unchanged: 0, dropped: 0 },
+    };
+    const writes: { key: string; value: any }[] = [];
 
     for (const key of exportData.keys) {
-      if (ALL_BACKUP_KEYS.includes(key) && exportData.data[key]) {
-        const value = typeof exportData.data[key] === 'string'
-          ? exportData.data[key]
-          : JSON.stringify(exportData.data[key]);
+      const category = getDataCategory(key);
+      const fromVersion = exportData.schemaVersions?.[key] ?? 1;
+      const keyReport: ImportKeyReport = {
+        key,
+        category,
+        fromSchemaVersion: fromVersion,
+        toSchemaVersion: getCurrentSchemaVersion(key),
+        migrationsApplied: [],
+        added: 0,
+        updated: 0,
+        unchanged: 0,
+        dropped: [],
+      };
+      report.keys.push(keyReport);
+
+      if (!EXPORT_KEYS.includes(key) || exportData.data[key] === undefined || exportData.data[key] === null) {
+        keyReport.skipped = 'not a recognized key';
+        continue;
+      }
+      if (options.categories && !options.categories.includes(category)) {
+        keyReport.skipped = 'category not selected';
+        continue;
+      }
+
+      let migrated;
+      try {
+        migrated = migrateKeyData(key, exportData.data[key], fromVersion);
+      } catch (error) {
+        keyReport.skipped = error instanceof Error ? error.message : 'migration failed';
+        continue;
+      }
+      keyReport.migrationsApplied = migrated.applied;
+      keyReport.dropped = migrated.dropped;
+
+      const local = await readExportValue(key);
+      const diff = diffImportValue(local, migrated.data);
+      keyReport.added = diff.added;
+      keyReport.updated = diff.updated;
+      keyReport.unchanged = diff.unchanged;
+
+      report.totals.added += diff.added;
+      report.totals.updated += diff.updated;
+      report.totals.unchanged += diff.unchanged;
+      report.totals.dropped += migrated.dropped.length;
+
+      if (diff.added > 0 || diff.updated > 0) {
+        writes.push({ key, value: key === JOURNAL_EXPORT_KEY ? migrated.data : diff.merged });
+      }
+    }
+
+    if (dryRun) {
+      return {
+        success: true,
+        importedKeys: [],
+        message: `Dry run: ${report.totals.added} to add, ${report.totals.updated} to update, ${report.totals.dropped} dropped`,
+        report,
+      };
+    }
 
-        await AsyncStorage.setItem(key, value);
-        importedKeys.push(key);
+    const importedKeys: string[] = [];
+    for (const { key, value } of writes) {
+      if (key === JOURNAL_EXPORT_KEY) {
+        await upsertEntries(value as JournalEntry[]);
+      } else {
+        await EncryptedStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value));
       }
+      importedKeys.push(key);
     }
 
     // Backup immediately after import
     await backupToFileSystem();
 
+    await info('storage', 'Data imported', { ...report.totals, keys: importedKeys.length });
+
     return {
       success: true,
       importedKeys,
       message: `Imported ${importedKeys.length} keys from export dated ${exportData.exportedAt}`,
+      report,
     };
   } catch (error) {
     return {
@@ -470,10 +687,254 @@ export async function importData(jsonString: string): Promise<{
 }
 
 // ============================================
-// CLOUD SYNC (Optional)
+// CLOUD SYNC (Optional, end-to-end encrypted)
 // ============================================
+//
+// Every dataset is encrypted on device with a key derived from the
+// user's sync passphrase. The server only stores ciphertext plus a
+// version vector per dataset, so it can order writes without reading
+// them.
+//
+// Sync round:
+// 1. Detect local changes (content hash differs from last sync) and
+//    bump this device's counter in the dataset's version vector
+// 2. Pull records changed on the server since our cursor
+// 3. Compare vectors: take remote if it's strictly newer, keep local
+//    if it's newer, merge with the dataset's strategy if concurrent
+// 4. Push only the datasets that changed (incremental deltas); the
+//    server rejects a push whose vector doesn't dominate what it has,
+//    in which case we pull and merge again
 
 const SYNC_CONFIG_KEY = 'moodleaf_sync_config';
+const SYNC_STATE_KEY = 'moodleaf_sync_state';
+const JOURNAL_SYNC_KEY = 'journal_entries';
+const SYNC_VERIFIER_TEXT = 'moodleaf-sync-verifier';
+const MAX_SYNC_ROUNDS = 3;
+
+/**
+ * How concurrent edits to a dataset are combined
+ * - union: arrays of records; union by id, newer record wins, deletions tracked as tombstones
+ * - lww: last writer wins, by local modification time
+ */
+export type MergeStrategy = 'union' | 'lww';
+
+export type VersionVector = Record<string, number>;
+
+export type VectorComparison = 'equal' | 'before' | 'after' | 'concurrent';
+
+interface SyncDataset {
+  key: string;
+  strategy: MergeStrategy;
+  read: () => Promise<any | null>;
+  write: (value: any) => Promise<void>;
+}
+
+interface SyncKeyState {
+  vector: VersionVector;
+  /** Hash of the local value as of the last successful sync */
+  hash: string | null;
+  /** When this device last changed the value */
+  modifiedAt: string | null;
+  /** Record ids present at last sync (union datasets) */
+  knownIds?: string[];
+  /** Record ids deleted anywhere (union datasets) */
+  deleted?: string[];
+}
+
+interface SyncState {
+  deviceId: string;
+  cursor: number;
+  keys: Record<string, SyncKeyState>;
+}
+
+/**
+ * Decrypted payload stored on the server for one dataset
+ */
+interface SyncPayload {
+  value: any;
+  modifiedAt: string | null;
+  deleted?: string[];
+}
+
+/**
+ * Record as stored by the sync server (payload is ciphertext)
+ */
+export interface RemoteSyncRecord {
+  key: string;
+  vector: VersionVector;
+  payload: EncryptedEnvelope;
+  deviceId: string;
+  seq: number;
+}
+
+export interface SyncResult {
+  success: boolean;
+  syncedKeys: string[];
+  pulledKeys: string[];
+  mergedKeys: string[];
+  message: string;
+}
+
+// Union-merged keys; everything else is last-writer-wins
+const UNION_SYNC_KEYS = new Set<string>([
+  JOURNAL_SYNC_KEY,
+  'moodleaf_conversations',
+  'moodleaf_score_history',
+  'moodleaf_interview_insights',
+  'moodleaf_coach_corrections',
+  'moodleaf_pending_insights',
+  'moodleaf_youtube_queue',
+  'moodleaf_processed_videos',
+  'moodleaf_youtube_pending_insights',
+  'moodleaf_youtube_approved_insights',
+  'moodleaf_curated_channels',
+  'moodleaf_insight_hashes',
+  'moodleaf_model_versions',
+  'moodleaf_version_history',
+  'moodleaf_rollback_log',
+]);
+
+/**
+ * Merge strategy for a synced key
+ */
+export function getMergeStrategy(key: string): MergeStrategy {
+  return UNION_SYNC_KEYS.has(key) ? 'union' : 'lww';
+}
+
+function getSyncDatasets(): SyncDataset[] {
+  const storageDatasets: SyncDataset[] = ALL_BACKUP_KEYS.map((key) => ({
+    key,
+    strategy: getMergeStrategy(key),
+    read: async () => {
+      const value = await EncryptedStorage.getItem(key);
+      if (!value) return null;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    },
+    write: async (value: any) => {
+      await EncryptedStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value));
+    },
+  }));
+
+  const journalDataset: SyncDataset = {
+    key: JOURNAL_SYNC_KEY,
+    strategy: 'union',
+    read: async () => {
+      const entries = await getAllEntries();
+      return entries.length > 0 ? entries : null;
+    },
+    write: async (value: JournalEntry[]) => {
+      const merged = Array.isArray(value) ? value : [];
+      const local = await getAllEntries();
+      const mergedIds = new Set(merged.map((e) => e.id));
+      const localById = new Map(local.map((e) => [e.id, e]));
+
+      const changed = merged.filter((e) => {
+        const existing = localById.get(e.id);
+        return !existing || JSON.stringify(existing) !== JSON.stringify(e);
+      });
+      await upsertEntries(changed);
+
+      for (const entry of local) {
+        if (!mergedIds.has(entry.id)) await deleteEntry(entry.id);
+      }
+    },
+  };
+
+  return [journalDataset, ...storageDatasets];
+}
+
+// ============================================
+// VERSION VECTORS & MERGING
+// ============================================
+
+/**
+ * Compare two version vectors
+ * - before: a happened before b (b is newer)
+ * - after: a happened after b (a is newer)
+ */
+export function compareVersionVectors(a: VersionVector, b: VersionVector): VectorComparison {
+  let aGreater = false;
+  let bGreater = false;
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const av = a[device] || 0;
+    const bv = b[device] || 0;
+    if (av > bv) aGreater = true;
+    if (bv > av) bGreater = true;
+  }
+  if (aGreater && bGreater) return 'concurrent';
+  if (aGreater) return 'after';
+  if (bGreater) return 'before';
+  return 'equal';
+}
+
+function mergeVersionVectors(a: VersionVector, b: VersionVector): VersionVector {
+  const merged: VersionVector = { ...a };
+  for (const [device, counter] of Object.entries(b)) {
+    merged[device] = Math.max(merged[device] || 0, counter);
+  }
+  return merged;
+}
+
+/**
+ * Stable identity for a record inside a union dataset
+ */
+function recordId(item: any): string {
+  if (item && typeof item === 'object' && typeof item.id === 'string') return item.id;
+  return JSON.stringify(item);
+}
+
+function recordTimestamp(item: any): string {
+  if (!item || typeof item !== 'object') return '';
+  return item.updatedAt || item.timestamp || item.createdAt || '';
+}
+
+function collectIds(value: any): string[] {
+  return Array.isArray(value) ? value.map(recordId) : [];
+}
+
+/**
+ * Combine two versions of a dataset edited concurrently
+ */
+export function mergeSyncValues(
+  strategy: MergeStrategy,
+  local: SyncPayload,
+  remote: SyncPayload
+): SyncPayload {
+  if (strategy === 'union' && (Array.isArray(local.value) || local.value === null) && (Array.isArray(remote.value) || remote.value === null)) {
+    const deleted = new Set([...(local.deleted || []), ...(remote.deleted || [])]);
+    const byId = new Map<string, any>();
+    for (const item of [...(local.value || []), ...(remote.value || [])]) {
+      const id = recordId(item);
+      if (deleted.has(id)) continue;
+      const existing = byId.get(id);
+      if (!existing || recordTimestamp(item) > recordTimestamp(existing)) {
+        byId.set(id, item);
+      }
+    }
+    // Keep newest-first ordering where records carry timestamps
+    const value = Array.from(byId.values()).sort((a, b) =>
+      recordTimestamp(b).localeCompare(recordTimestamp(a))
+    );
+    return {
+      value,
+      modifiedAt: [local.modifiedAt, remote.modifiedAt].filter(Boolean).sort().pop() || null,
+      deleted: Array.from(deleted),
+    };
+  }
+
+  // Last writer wins (ties keep the local value)
+  return (remote.modifiedAt || '') > (local.modifiedAt || '') ? remote : local;
+}
+
+// ============================================
+// SYNC KEY (passphrase)
+// ============================================
+
+let syncKey: Uint8Array | null = null;
 
 /**
  * Get sync configuration
@@ -498,122 +959,303 @@ export async function updateSyncConfig(updates: Partial<SyncConfig>): Promise<vo
   await AsyncStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(updated));
 }
 
+async function syncRequest<T>(config: SyncConfig, body: Record<string, any>): Promise<T> {
+  if (!config.endpoint) {
+    throw new Error('Cloud sync not configured');
+  }
+  const response = await fetch(config.endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Sync server responded ${response.status}`);
+  }
+  return response.json();
+}
+
 /**
- * Sync data to cloud endpoint
- * Can be used with any backend (Firebase, Supabase, custom server)
+ * Unlock cloud sync with the user's passphrase.
+ * The first device to unlock sets the passphrase for the account; other
+ * devices must use the same one. The passphrase itself never leaves
+ * the device, and the derived key is only kept in memory.
  */
-export async function syncToCloud(): Promise<{
+export async function unlockCloudSync(passphrase: string): Promise<{
   success: boolean;
-  syncedKeys: string[];
+  created: boolean;
   message: string;
 }> {
   const config = await getSyncConfig();
-
   if (!config.enabled || !config.endpoint) {
-    return { success: false, syncedKeys: [], message: 'Cloud sync not configured' };
+    return { success: false, created: false, message: 'Cloud sync not configured' };
   }
 
   try {
-    // Gather data to sync
-    const data: Record<string, any> = {};
-    const keys: string[] = [];
-
-    for (const key of ALL_BACKUP_KEYS) {
-      const value = await AsyncStorage.getItem(key);
-      if (value) {
-        data[key] = JSON.parse(value);
-        keys.push(key);
-      }
+    const keyInfo = await syncRequest<{ kdf?: KeyDerivationParams; verifier?: EncryptedEnvelope }>(
+      config,
+      { action: 'keyinfo' }
+    );
+
+    if (!keyInfo.kdf || !keyInfo.verifier) {
+      const kdf = createKeyDerivationParams();
+      const key = await deriveKeyFromPassphrase(passphrase, kdf);
+      const verifier = encryptString(key, SYNC_VERIFIER_TEXT, 'verifier');
+      await syncRequest(config, { action: 'init', kdf, verifier });
+      syncKey = key;
+      await info('network', 'Cloud sync passphrase created');
+      return { success: true, created: true, message: 'Sync passphrase set' };
     }
 
-    // Send to cloud
-    const response = await fetch(config.endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
-      },
-      body: JSON.stringify({
-        action: 'sync',
-        timestamp: new Date().toISOString(),
-        data,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Sync failed: ${response.status}`);
+    const key = await deriveKeyFromPassphrase(passphrase, keyInfo.kdf);
+    try {
+      if (decryptString(key, keyInfo.verifier, 'verifier') !== SYNC_VERIFIER_TEXT) {
+        throw new Error('Verifier mismatch');
+      }
+    } catch {
+      return { success: false, created: false, message: 'Wrong sync passphrase' };
     }
 
-    // Update last sync time
-    await updateSyncConfig({ lastSyncAt: new Date().toISOString() });
-
-    return { success: true, syncedKeys: keys, message: `Synced ${keys.length} keys to cloud` };
+    syncKey = key;
+    return { success: true, created: false, message: 'Cloud sync unlocked' };
   } catch (error) {
+    await logError('network', 'Failed to unlock cloud sync', { error: error instanceof Error ? error.message : String(error) });
     return {
       success: false,
-      syncedKeys: [],
-      message: `Cloud sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      created: false,
+      message: `Unlock failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
     };
   }
 }
 
 /**
- * Restore data from cloud
+ * Forget the in-memory sync key
  */
-export async function restoreFromCloud(): Promise<{
-  success: boolean;
-  restoredKeys: string[];
-  message: string;
-}> {
-  const config = await getSyncConfig();
+export function lockCloudSync(): void {
+  syncKey = null;
+}
+
+export function isCloudSyncUnlocked(): boolean {
+  return syncKey !== null;
+}
+
+// ============================================
+// SYNC STATE
+// ============================================
 
+async function getSyncState(): Promise<SyncState> {
+  const stored = await AsyncStorage.getItem(SYNC_STATE_KEY);
+  if (stored) return JSON.parse(stored);
+  return {
+    deviceId: `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    cursor: 0,
+    keys: {},
+  };
+}
+
+async function saveSyncState(state: SyncState): Promise<void> {
+  await AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+}
+
+function emptyKeyState(): SyncKeyState {
+  return { vector: {}, hash: null, modifiedAt: null };
+}
+
+/**
+ * Hash of a dataset as stored on this device. Every path that records
+ * ks.hash uses this form, so change detection compares like with like.
+ */
+async function readDatasetHash(dataset: SyncDataset): Promise<{ value: any; hash: string | null }> {
+  const value = await dataset.read();
+  return { value, hash: value === null ? null : sha256Hex(JSON.stringify(value)) };
+}
+
+// ============================================
+// SYNC
+// ============================================
+
+/**
+ * Run one sync round against the configured server
+ */
+async function runSync(options: { fullPull: boolean }): Promise<SyncResult> {
+  const config = await getSyncConfig();
   if (!config.enabled || !config.endpoint) {
-    return { success: false, restoredKeys: [], message: 'Cloud sync not configured' };
+    return { success: false, syncedKeys: [], pulledKeys: [], mergedKeys: [], message: 'Cloud sync not configured' };
   }
+  if (!syncKey) {
+    return { success: false, syncedKeys: [], pulledKeys: [], mergedKeys: [], message: 'Cloud sync is locked. Enter your sync passphrase.' };
+  }
+  const key = syncKey;
+  const timerId = startTimer('Cloud sync', 'network');
 
   try {
-    const response = await fetch(config.endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
-      },
-      body: JSON.stringify({ action: 'restore' }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Restore failed: ${response.status}`);
+    const state = await getSyncState();
+    if (options.fullPull) state.cursor = 0;
+
+    const datasets = getSyncDatasets();
+    const localPayloads = new Map<string, SyncPayload>();
+    const dirty = new Set<string>();
+    const pulledKeys = new Set<string>();
+    const mergedKeys = new Set<string>();
+    const syncedKeys: string[] = [];
+
+    // 1. Detect local changes
+    for (const dataset of datasets) {
+      const ks = state.keys[dataset.key] || emptyKeyState();
+      const { value, hash } = await readDatasetHash(dataset);
+
+      if (hash !== ks.hash) {
+        ks.vector = { ...ks.vector, [state.deviceId]: (ks.vector[state.deviceId] || 0) + 1 };
+        ks.modifiedAt = new Date().toISOString();
+        if (dataset.strategy === 'union') {
+          const currentIds = new Set(collectIds(value));
+          const removed = (ks.knownIds || []).filter((id) => !currentIds.has(id));
+          ks.deleted = Array.from(new Set([...(ks.deleted || []), ...removed]));
+        }
+        dirty.add(dataset.key);
+      }
+
+      state.keys[dataset.key] = ks;
+      localPayloads.set(dataset.key, { value, modifiedAt: ks.modifiedAt, deleted: ks.deleted });
     }
 
-    const result = await response.json();
-    const restoredKeys: string[] = [];
+    for (let round = 0; round < MAX_SYNC_ROUNDS; round++) {
+      // 2. Pull remote changes
+      const pulled = await syncRequest<{ records: RemoteSyncRecord[]; cursor: number }>(config, {
+        action: 'pull',
+        since: state.cursor,
+      });
+
+      // 3. Reconcile
+      for (const record of pulled.records) {
+        const dataset = datasets.find((d) => d.key === record.key);
+        if (!dataset) continue;
+
+        const ks = state.keys[record.key] || emptyKeyState();
+        const comparison = compareVersionVectors(ks.vector, record.vector);
+        if (comparison === 'after' || comparison === 'equal') continue;
+
+        const remote: SyncPayload = JSON.parse(decryptString(key, record.payload, record.key));
+        const local = localPayloads.get(record.key) || { value: null, modifiedAt: null };
+
+        let next: SyncPayload;
+        if (comparison === 'before') {
+          next = remote;
+          ks.vector = { ...record.vector };
+          pulledKeys.add(record.key);
+          dirty.delete(record.key);
+        } else {
+          next = mergeSyncValues(dataset.strategy, local, remote);
+          ks.vector = mergeVersionVectors(ks.vector, record.vector);
+          ks.vector[state.deviceId] = (ks.vector[state.deviceId] || 0) + 1;
+          mergedKeys.add(record.key);
+          dirty.add(record.key);
+        }
 
-    if (result.data) {
-      for (const [key, value] of Object.entries(result.data)) {
-        if (ALL_BACKUP_KEYS.includes(key)) {
-          await AsyncStorage.setItem(key, JSON.stringify(value));
-          restoredKeys.push(key);
+        if (next.value !== null) {
+          await dataset.write(next.value);
         }
+        ks.modifiedAt = next.modifiedAt;
+        ks.deleted = next.deleted;
+        ks.knownIds = dataset.strategy === 'union' ? collectIds(next.value) : undefined;
+        ks.hash = next.value === null ? null : (await readDatasetHash(dataset)).hash;
+        state.keys[record.key] = ks;
+        localPayloads.set(record.key, next);
       }
+      state.cursor = pulled.cursor;
+
+      if (dirty.size === 0) break;
+
+      // 4. Push changed datasets only
+      const records = Array.from(dirty).map((datasetKey) => {
+        const payload = localPayloads.get(datasetKey)!;
+        return {
+          key: datasetKey,
+          vector: state.keys[datasetKey].vector,
+          payload: encryptString(key, JSON.stringify(payload), datasetKey),
+        };
+      });
+
+      const pushed = await syncRequest<{ accepted: string[]; rejected: string[]; cursor: number }>(config, {
+        action: 'push',
+        deviceId: state.deviceId,
+        records,
+      });
+
+      for (const datasetKey of pushed.accepted) {
+        const payload = localPayloads.get(datasetKey);
+        const dataset = datasets.find((d) => d.key === datasetKey);
+        const ks = state.keys[datasetKey];
+        // A merged payload is in merge order; hash what's stored, as step 1 does
+        ks.hash = payload?.value == null || !dataset ? null : (await readDatasetHash(dataset)).hash;
+        ks.knownIds = getMergeStrategy(datasetKey) === 'union' ? collectIds(payload?.value) : undefined;
+        dirty.delete(datasetKey);
+        syncedKeys.push(datasetKey);
+      }
+
+      // Rejected pushes mean another device wrote first; pull and merge again
+      if (pushed.rejected.length === 0) break;
     }
 
-    // Backup locally after restore
-    await backupToFileSystem();
+    await saveSyncState(state);
+    await updateSyncConfig({ lastSyncAt: new Date().toISOString() });
+
+    if (pulledKeys.size > 0 || mergedKeys.size > 0) {
+      await backupToFileSystem();
+    }
+
+    const message = dirty.size > 0
+      ? `Synced ${syncedKeys.length} keys; ${dirty.size} still conflicting, will retry next sync`
+      : `Synced ${syncedKeys.length} keys, pulled ${pulledKeys.size}, merged ${mergedKeys.size}`;
+    await endTimer(timerId, { synced: syncedKeys.length, pulled: pulledKeys.size, merged: mergedKeys.size });
+    await info('network', 'Cloud sync complete', { synced: syncedKeys.length, pulled: pulledKeys.size, merged: mergedKeys.size });
 
     return {
-      success: true,
-      restoredKeys,
-      message: `Restored ${restoredKeys.length} keys from cloud`,
+      success: dirty.size === 0,
+      syncedKeys,
+      pulledKeys: Array.from(pulledKeys),
+      mergedKeys: Array.from(mergedKeys),
+      message,
     };
   } catch (error) {
-    return {
-      success: false,
-      restoredKeys: [],
-      message: `Cloud restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    };
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logError('network', 'Cloud sync failed', { error: message });
+    await endTimer(timerId, { error: message });
+    return { success: false, syncedKeys: [], pulledKeys: [], mergedKeys: [], message: `Cloud sync failed: ${message}` };
   }
 }
 
+/**
+ * Sync data with the cloud endpoint (pull, merge, push changes).
+ * Can be used with any backend implementing the sync protocol
+ * (see sync-server/ for a local stand-in).
+ */
+export async function syncToCloud(): Promise<SyncResult> {
+  return runSync({ fullPull: false });
+}
+
+/**
+ * Restore data from cloud.
+ * Pulls everything and merges it with local data rather than
+ * overwriting, so edits made on this device aren't lost.
+ */
+export async function restoreFromCloud(): Promise<{
+  success: boolean;
+  restoredKeys: string[];
+  message: string;
+}> {
+  const result = await runSync({ fullPull: true });
+  return {
+    success: result.success,
+    restoredKeys: [...result.pulledKeys, ...result.mergedKeys],
+    message: result.success
+      ? `Restored ${result.pulledKeys.length + result.mergedKeys.length} keys from cloud`
+      : result.message,
+  };
+}
+
 // ============================================
 // UTILITIES
 // ============================================
@@ -750,10 +1392,14 @@ export default {
   // Export/Import
   exportAllData,
   importData,
+  getDataCategory,
 
   // Cloud sync
   getSyncConfig,
   updateSyncConfig,
+  unlockCloudSync,
+  lockCloudSync,
+  isCloudSyncUnlocked,
   syncToCloud,
   restoreFromCloud,
 
@@ -149,6 +149,16 @@ const SERVICE_TESTERS: Record<string, () => Promise<{ success: boolean; data?: a
     }
   },
 
+  memory_retrieval: async () => {
+    try {
+      const { syncMemoryIndex } = await import('./memoryRetrievalService');
+      const sync = await syncMemoryIndex();
+      return { success: true, data: sync };
+    } catch (e: any) {
+      return { success: false, error: e.message };
+    }
+  },
+
   life_context: async () => {
     try {
       const { getLifeContext } = await import('./lifeContextService');
@@ -15,6 +15,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, warn, error as logError } from './loggingService';
 import { Platform } from 'react-native';
+import { requestNotification, cancelNotificationRequest } from './notificationSchedulerService';
 
 // Optional dependencies - may not be installed
 let Notifications: typeof import('expo-notifications') | null = null;
@@ -221,45 +222,35 @@ async function scheduleNextDrinkReminder(
   session: DrinkPacingSession,
   prefs: DrinkPacingPreferences
 ): Promise<void> {
-  if (!Notifications) {
-    console.log('[DrinkPacing] Notifications not available, skipping reminder');
-    return;
-  }
-
-  // Cancel any existing reminders
-  await Notifications.cancelAllScheduledNotificationsAsync();
-
   // Check if at or over limit
   if (session.maxDrinks && session.drinksConsumed >= session.maxDrinks) {
-    // Schedule a "you've reached your limit" reminder instead
-    await Notifications.scheduleNotificationAsync({
-      content: {
-        title: 'Limit Reached',
-        body: `You've had ${session.drinksConsumed} drinks. Consider switching to water.`,
-        sound: prefs.vibrateOnly ? false : 'default',
-        data: { type: 'drink_pacing_limit' },
-      },
-      trigger: null, // Immediate
+    // Send a "you've reached your limit" reminder instead (replaces the pacing timer)
+    await requestNotification({
+      id: 'drink_pacing',
+      source: 'drink_pacing',
+      priority: 'critical',
+      title: 'Limit Reached',
+      body: `You've had ${session.drinksConsumed} drinks. Consider switching to water.`,
+      sound: !prefs.vibrateOnly,
+      data: { type: 'drink_pacing_limit' },
     });
     return;
   }
 
-  // Schedule next drink reminder
-  const triggerSeconds = session.intervalMinutes * 60;
-
-  await Notifications.scheduleNotificationAsync({
-    content: {
-      title: 'Drink Pacing',
-      body: session.maxDrinks
-        ? `Time for drink ${session.drinksConsumed + 1}/${session.maxDrinks}`
-        : `${session.intervalMinutes} minutes - time to pace`,
-      sound: prefs.vibrateOnly ? false : 'default',
-      data: { type: 'drink_pacing_reminder' },
-    },
-    trigger: {
-      seconds: triggerSeconds,
-      channelId: 'drink-pacing',
-    },
+  // Schedule next drink reminder. The user started this timer, so the
+  // scheduler delivers it exactly, even in quiet hours.
+  await requestNotification({
+    id: 'drink_pacing',
+    source: 'drink_pacing',
+    priority: 'critical',
+    title: 'Drink Pacing',
+    body: session.maxDrinks
+      ? `Time for drink ${session.drinksConsumed + 1}/${session.maxDrinks}`
+      : `${session.intervalMinutes} minutes - time to pace`,
+    at: new Date(Date.now() + session.intervalMinutes * 60 * 1000).toISOString(),
+    sound: !prefs.vibrateOnly,
+    channelId: 'drink-pacing',
+    data: { type: 'drink_pacing_reminder' },
   });
 }
 
@@ -304,10 +295,8 @@ export async function endDrinkPacingSession(): Promise<DrinkPacingHistoryEntry |
   // Clear active session
   await AsyncStorage.removeItem(PACING_SESSION_KEY);
 
-  // Cancel scheduled notifications
-  if (Notifications) {
-    await Notifications.cancelAllScheduledNotificationsAsync();
-  }
+  // Cancel the pacing reminder (leaves other reminders alone)
+  await cancelNotificationRequest('drink_pacing');
 
   return historyEntry;
 }
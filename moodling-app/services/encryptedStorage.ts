@@ -0,0 +1,566 @@
+/**
+ * Encrypted Storage
+ *
+ * Drop-in AsyncStorage wrapper that keeps sensitive values encrypted at
+ * rest. Keys listed in ENCRYPTED_KEY_PREFIXES / ENCRYPTED_KEYS are sealed
+ * with AES-256-GCM (encryptionService) before they reach AsyncStorage;
+ * everything else passes straight through.
+ *
+ * Key handling:
+ * - One random data key per install
+ * - Held in the device keystore (expo-secure-store) on iOS/Android; a
+ *   missing or failing keystore is an error, never a silent fallback
+ * - On web there is no keystore, so it sits in AsyncStorage (obfuscation only)
+ * - With a PIN set, only a PIN-wrapped copy is kept, still inside the
+ *   keystore on native so it can't be copied off and guessed offline, and
+ *   storage stays locked until unlockEncryptedStorage() succeeds
+ * - Failed PIN unlocks count towards the shared lockout
+ *   (biometricSecurityService), like the app lock PIN
+ *
+ * Existing plaintext values are encrypted on first use, and plaintext
+ * written back by an old backup is still readable (and re-encrypted on
+ * the next write).
+ *
+ * A value that fails to decrypt throws on read, and the key is refused
+ * for writes until it is removed, so a caller that falls back to an empty
+ * default can't overwrite data it couldn't read.
+ *
+ * Decoy scope: while setDecoyMode(true) is on (duress PIN, appLockService),
+ * protected keys resolve to a separate, initially empty namespace, so the
+ * journal and profiles look empty and real data is never read or changed.
+ *
+ * Following Mood Leaf Ethics:
+ * - The PIN is never stored; forgetting it means the data is gone
+ * - Deleting the key (destroyStorageKey) makes leftover ciphertext unreadable
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import {
+  EncryptedEnvelope,
+  KeyDerivationParams,
+  bytesToBase64,
+  base64ToBytes,
+  generateKey,
+  createKeyDerivationParams,
+  deriveKeyFromPassphrase,
+  encryptString,
+  decryptString,
+  isEncryptedEnvelope,
+} from './encryptionService';
+import { getSecurityState, getActiveLockout, recordAuthOutcome } from './biometricSecurityService';
+import { info, warn, error as logError } from './loggingService';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** Every key starting with one of these is encrypted */
+const ENCRYPTED_KEY_PREFIXES = [
+  '@moodling/journal_', // entries, index, search index
+  'moodleaf_memory_', // memory tiers and retrieval index
+  'moodling_life_context', // life context, extractions, person aliases
+];
+
+/** Individually encrypted keys */
+const ENCRYPTED_KEYS = new Set([
+  'moodleaf_psychological_profile',
+  'moodleaf_psychological_timeline',
+  'moodleaf_cognitive_profile',
+  'moodleaf_cycle_data',
+  'moodleaf_safeguard_log',
+]);
+
+const STORAGE_KEYS = {
+  // SecureStore only allows [A-Za-z0-9._-]
+  KEYSTORE_KEY: 'moodleaf_storage_key',
+  // Web only; native builds before the keystore was required also used it
+  FALLBACK_KEY: 'moodleaf_storage_key_fallback',
+  // Keystore on native; AsyncStorage on web (and on native before it moved)
+  WRAPPED_KEY: 'moodleaf_storage_key_wrapped',
+};
+
+const WRAPPED_KEY_AAD = 'storage_key';
+
+export const MIN_STORAGE_PIN_LENGTH = 6;
+
+/** Protected keys live under this prefix while in decoy mode */
+const DECOY_PREFIX = 'moodleaf_decoy/';
+
+// Cheap check before parsing: JSON.stringify keeps the envelope's field order
+const ENVELOPE_PREFIX = '{"v":';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StorageKeyLocation = 'keystore' | 'device' | 'pin';
+
+export interface StorageUnlockResult {
+  unlocked: boolean;
+  /** Set while too many wrong PINs keep unlocking blocked */
+  lockedUntil?: Date;
+}
+
+export interface EncryptedStorageStatus {
+  locked: boolean;
+  pinEnabled: boolean;
+  keyLocation: StorageKeyLocation;
+}
+
+type KeyValuePair = [string, string | null];
+
+interface WrappedStorageKey {
+  kdf: KeyDerivationParams;
+  wrapped: EncryptedEnvelope;
+}
+
+// ============================================
+// STATE
+// ============================================
+
+let dataKey: Uint8Array | null = null;
+let readyPromise: Promise<void> | null = null;
+let unlockWaiter: (() => void) | null = null;
+let decoyMode = false;
+const scopeListeners = new Set<(decoy: boolean) => void>();
+/** Stored keys whose value could not be decrypted */
+const unreadableKeys = new Set<string>();
+
+/**
+ * Whether a storage key's value is encrypted at rest
+ */
+export function isEncryptedKey(key: string): boolean {
+  return (
+    key.startsWith(DECOY_PREFIX) ||
+    ENCRYPTED_KEYS.has(key) ||
+    ENCRYPTED_KEY_PREFIXES.some(prefix => key.startsWith(prefix))
+  );
+}
+
+/**
+ * Where a protected key is actually stored in the current scope
+ */
+function scopedKey(key: string): string {
+  return decoyMode && !key.startsWith(DECOY_PREFIX) ? `${DECOY_PREFIX}${key}` : key;
+}
+
+function hasKeystore(): boolean {
+  return Platform.OS !== 'web';
+}
+
+// ============================================
+// KEY STORAGE
+// ============================================
+
+async function assertKeystoreAvailable(): Promise<void> {
+  if (!(await SecureStore.isAvailableAsync())) {
+    throw new Error('Device keystore is unavailable; refusing to store the data key in plain storage');
+  }
+}
+
+async function readWrappedKey(): Promise<WrappedStorageKey | null> {
+  if (!hasKeystore()) {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.WRAPPED_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  await assertKeystoreAvailable();
+  const stored = await SecureStore.getItemAsync(STORAGE_KEYS.WRAPPED_KEY);
+  if (stored) return JSON.parse(stored);
+
+  // Move a wrapped key left in AsyncStorage by an older build into the keystore
+  const legacy = await AsyncStorage.getItem(STORAGE_KEYS.WRAPPED_KEY);
+  if (!legacy) return null;
+  await writeWrappedKey(JSON.parse(legacy));
+  info('storage', 'PIN-wrapped storage key moved to keystore', undefined, 'encryptedStorage');
+  return JSON.parse(legacy);
+}
+
+async function writeWrappedKey(wrapped: WrappedStorageKey): Promise<void> {
+  const encoded = JSON.stringify(wrapped);
+  if (!hasKeystore()) {
+    await AsyncStorage.setItem(STORAGE_KEYS.WRAPPED_KEY, encoded);
+    return;
+  }
+
+  await assertKeystoreAvailable();
+  await SecureStore.setItemAsync(STORAGE_KEYS.WRAPPED_KEY, encoded, {
+    keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+  });
+  if ((await SecureStore.getItemAsync(STORAGE_KEYS.WRAPPED_KEY)) !== encoded) {
+    throw new Error('PIN-wrapped storage key could not be verified in the keystore');
+  }
+  await AsyncStorage.removeItem(STORAGE_KEYS.WRAPPED_KEY);
+}
+
+async function deleteWrappedKey(): Promise<void> {
+  if (hasKeystore()) {
+    await SecureStore.deleteItemAsync(STORAGE_KEYS.WRAPPED_KEY);
+  }
+  await AsyncStorage.removeItem(STORAGE_KEYS.WRAPPED_KEY);
+}
+
+async function readDeviceKey(): Promise<string | null> {
+  if (!hasKeystore()) return AsyncStorage.getItem(STORAGE_KEYS.FALLBACK_KEY);
+
+  await assertKeystoreAvailable();
+  const stored = await SecureStore.getItemAsync(STORAGE_KEYS.KEYSTORE_KEY);
+  if (stored) return stored;
+
+  // Move a key left in AsyncStorage by an older build into the keystore
+  const legacy = await AsyncStorage.getItem(STORAGE_KEYS.FALLBACK_KEY);
+  if (legacy) {
+    await writeDeviceKey(base64ToBytes(legacy));
+    info('storage', 'Storage key moved to keystore', undefined, 'encryptedStorage');
+  }
+  return legacy;
+}
+
+async function writeDeviceKey(key: Uint8Array): Promise<void> {
+  const encoded = bytesToBase64(key);
+  if (!hasKeystore()) {
+    await AsyncStorage.setItem(STORAGE_KEYS.FALLBACK_KEY, encoded);
+    return;
+  }
+
+  await assertKeystoreAvailable();
+  await SecureStore.setItemAsync(STORAGE_KEYS.KEYSTORE_KEY, encoded, {
+    keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+  });
+  // Only drop the plain copy once the keystore really holds the key
+  if ((await SecureStore.getItemAsync(STORAGE_KEYS.KEYSTORE_KEY)) !== encoded) {
+    throw new Error('Storage key could not be verified in the keystore');
+  }
+  await AsyncStorage.removeItem(STORAGE_KEYS.FALLBACK_KEY);
+}
+
+async function deleteDeviceKey(): Promise<void> {
+  if (hasKeystore()) {
+    await SecureStore.deleteItemAsync(STORAGE_KEYS.KEYSTORE_KEY);
+  }
+  await AsyncStorage.removeItem(STORAGE_KEYS.FALLBACK_KEY);
+}
+
+/**
+ * Load the device-held key, creating one on first run.
+ * A missing or failed keystore throws rather than replacing the key.
+ */
+async function loadOrCreateDeviceKey(): Promise<Uint8Array> {
+  const existing = await readDeviceKey();
+  if (existing) return base64ToBytes(existing);
+
+  const key = generateKey();
+  await writeDeviceKey(key);
+  info('storage', 'Storage key created', { keystore: hasKeystore() }, 'encryptedStorage');
+  return key;
+}
+
+// ============================================
+// SEAL / OPEN
+// ============================================
+
+function seal(key: string, value: string): string {
+  return JSON.stringify(encryptString(dataKey!, value, key));
+}
+
+function parseEnvelope(value: string): EncryptedEnvelope | null {
+  if (!value.startsWith(ENVELOPE_PREFIX)) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return isEncryptedEnvelope(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decrypt a stored value. Throws if it can't be decrypted (wrong key or
+ * tampered data) and marks the key unwritable, rather than reporting it
+ * as missing.
+ */
+function open(key: string, value: string | null): string | null {
+  if (value === null) return null;
+  const envelope = parseEnvelope(value);
+  if (!envelope) return value; // not yet migrated, or restored from a plaintext backup
+  try {
+    const plaintext = decryptString(dataKey!, envelope, key);
+    unreadableKeys.delete(key);
+    return plaintext;
+  } catch (err) {
+    unreadableKeys.add(key);
+    logError('storage', 'Failed to decrypt stored value', { key, error: String(err) }, 'encryptedStorage');
+    throw new Error(`Stored value for ${key} could not be decrypted`);
+  }
+}
+
+function assertWritable(key: string): void {
+  if (unreadableKeys.has(key)) {
+    throw new Error(`Refusing to overwrite ${key}: its stored value could not be decrypted`);
+  }
+}
+
+// ============================================
+// INITIALIZATION & MIGRATION
+// ============================================
+
+/**
+ * Encrypt any protected keys still stored as plaintext
+ */
+async function migratePlaintextKeys(): Promise<void> {
+  const keys = (await AsyncStorage.getAllKeys()).filter(isEncryptedKey);
+  if (keys.length === 0) return;
+
+  const pairs = await AsyncStorage.multiGet(keys);
+  const plaintext = pairs.filter((pair): pair is [string, string] => pair[1] !== null && !parseEnvelope(pair[1]));
+  if (plaintext.length === 0) return;
+
+  await AsyncStorage.multiSet(plaintext.map(([key, value]) => [key, seal(key, value)] as [string, string]));
+  info('storage', 'Encrypted existing data', { keys: plaintext.length }, 'encryptedStorage');
+}
+
+async function prepare(): Promise<void> {
+  const wrapped = await readWrappedKey();
+  if (wrapped) {
+    // PIN-protected: everything waits until the user unlocks
+    if (!dataKey) {
+      await new Promise<void>(resolve => {
+        unlockWaiter = resolve;
+      });
+    }
+  } else {
+    dataKey = await loadOrCreateDeviceKey();
+  }
+  await migratePlaintextKeys();
+}
+
+function ensureReady(): Promise<void> {
+  if (!readyPromise) {
+    readyPromise = prepare().catch(err => {
+      // Let the next call retry instead of caching the failure
+      readyPromise = null;
+      throw err;
+    });
+  }
+  return readyPromise;
+}
+
+/**
+ * Start loading the key and migrating plaintext data.
+ * Call on app start; if it reports locked, ask for the PIN.
+ */
+export async function initEncryptedStorage(): Promise<EncryptedStorageStatus> {
+  ensureReady().catch(err =>
+    logError('storage', 'Encrypted storage failed to initialize', { error: String(err) }, 'encryptedStorage')
+  );
+  return getEncryptedStorageStatus();
+}
+
+/**
+ * Current lock state and where the key lives
+ */
+export async function getEncryptedStorageStatus(): Promise<EncryptedStorageStatus> {
+  const pinEnabled = (await readWrappedKey()) !== null;
+  return {
+    locked: pinEnabled && dataKey === null,
+    pinEnabled,
+    keyLocation: pinEnabled ? 'pin' : hasKeystore() ? 'keystore' : 'device',
+  };
+}
+
+// ============================================
+// PIN
+// ============================================
+
+/**
+ * Unlock PIN-protected storage. A wrong PIN counts as a failed attempt;
+ * while locked out no PIN is tried at all.
+ */
+export async function unlockEncryptedStorage(pin: string): Promise<StorageUnlockResult> {
+  const wrapped = await readWrappedKey();
+  if (!wrapped) return { unlocked: true };
+
+  const lockout = getActiveLockout(await getSecurityState());
+  if (lockout) return { unlocked: false, lockedUntil: lockout };
+
+  try {
+    const pinKey = await deriveKeyFromPassphrase(pin, wrapped.kdf);
+    dataKey = base64ToBytes(decryptString(pinKey, wrapped.wrapped, WRAPPED_KEY_AAD));
+  } catch {
+    warn('storage', 'Storage unlock failed', undefined, 'encryptedStorage');
+    await recordAuthOutcome({ authenticated: false, method: 'pin', confidence: 0, anomalies: [] });
+    const lockedUntil = getActiveLockout(await getSecurityState());
+    return { unlocked: false, lockedUntil: lockedUntil ?? undefined };
+  }
+
+  await recordAuthOutcome({
+    authenticated: true,
+    method: 'pin',
+    confidence: 100,
+    recognizedAs: 'owner',
+    userLabel: 'Owner',
+    accessLevel: 'owner',
+    anomalies: [],
+  });
+  const waiter = unlockWaiter;
+  unlockWaiter = null;
+  waiter?.();
+  ensureReady().catch(() => {});
+  info('storage', 'Storage unlocked', undefined, 'encryptedStorage');
+  return { unlocked: true };
+}
+
+/**
+ * Protect the data key with a PIN (or change the PIN).
+ * The device-held copy is removed, so the PIN is needed after every launch.
+ */
+export async function setStoragePin(pin: string): Promise<void> {
+  if (pin.length < MIN_STORAGE_PIN_LENGTH) {
+    throw new Error(`Storage PIN must be at least ${MIN_STORAGE_PIN_LENGTH} characters`);
+  }
+  await ensureReady();
+  const kdf = createKeyDerivationParams();
+  const pinKey = await deriveKeyFromPassphrase(pin, kdf);
+  const wrapped: WrappedStorageKey = {
+    kdf,
+    wrapped: encryptString(pinKey, bytesToBase64(dataKey!), WRAPPED_KEY_AAD),
+  };
+  await writeWrappedKey(wrapped);
+  await deleteDeviceKey();
+  info('storage', 'Storage PIN set', undefined, 'encryptedStorage');
+}
+
+/**
+ * Go back to the device-held key. Requires the current PIN.
+ */
+export async function removeStoragePin(pin: string): Promise<boolean> {
+  if ((await readWrappedKey()) === null) return true;
+  if (!(await unlockEncryptedStorage(pin)).unlocked) return false;
+
+  await writeDeviceKey(dataKey!);
+  await deleteWrappedKey();
+  info('storage', 'Storage PIN removed', undefined, 'encryptedStorage');
+  return true;
+}
+
+/**
+ * Forget every copy of the data key. Anything still encrypted becomes
+ * unreadable; a new key is created on next use.
+ */
+export async function destroyStorageKey(): Promise<void> {
+  await deleteDeviceKey();
+  await deleteWrappedKey();
+  dataKey = null;
+  readyPromise = null;
+  unlockWaiter = null;
+  info('storage', 'Storage key destroyed', undefined, 'encryptedStorage');
+}
+
+// ============================================
+// DECOY SCOPE
+// ============================================
+
+/**
+ * Switch protected keys to (or back from) the decoy namespace.
+ * Listeners drop any in-memory caches of protected data.
+ */
+export function setDecoyMode(enabled: boolean): void {
+  if (decoyMode === enabled) return;
+  decoyMode = enabled;
+  info('privacy', enabled ? 'Decoy storage scope entered' : 'Decoy storage scope left', undefined, 'encryptedStorage');
+  scopeListeners.forEach(listener => listener(enabled));
+}
+
+export function isDecoyMode(): boolean {
+  return decoyMode;
+}
+
+/**
+ * Subscribe to decoy scope changes. Returns an unsubscribe function.
+ */
+export function subscribeStorageScope(listener: (decoy: boolean) => void): () => void {
+  scopeListeners.add(listener);
+  return () => {
+    scopeListeners.delete(listener);
+  };
+}
+
+// ============================================
+// ASYNCSTORAGE-COMPATIBLE API
+// ============================================
+
+async function getItem(key: string): Promise<string | null> {
+  if (!isEncryptedKey(key)) return AsyncStorage.getItem(key);
+  await ensureReady();
+  const stored = scopedKey(key);
+  return open(stored, await AsyncStorage.getItem(stored));
+}
+
+async function setItem(key: string, value: string): Promise<void> {
+  if (!isEncryptedKey(key)) return AsyncStorage.setItem(key, value);
+  await ensureReady();
+  const stored = scopedKey(key);
+  assertWritable(stored);
+  return AsyncStorage.setItem(stored, seal(stored, value));
+}
+
+async function removeItem(key: string): Promise<void> {
+  if (!isEncryptedKey(key)) return AsyncStorage.removeItem(key);
+  await ensureReady();
+  const stored = scopedKey(key);
+  await AsyncStorage.removeItem(stored);
+  unreadableKeys.delete(stored);
+}
+
+async function multiGet(keys: readonly string[]): Promise<readonly KeyValuePair[]> {
+  if (keys.some(isEncryptedKey)) await ensureReady();
+  const stored = keys.map(key => (isEncryptedKey(key) ? scopedKey(key) : key));
+  const pairs = await AsyncStorage.multiGet(stored);
+  return pairs.map(([storedKey, value], i): KeyValuePair => [
+    keys[i],
+    isEncryptedKey(storedKey) ? open(storedKey, value) : value,
+  ]);
+}
+
+async function multiSet(pairs: [string, string][]): Promise<void> {
+  if (pairs.some(([key]) => isEncryptedKey(key))) await ensureReady();
+  const sealed = pairs.map(([key, value]) => {
+    if (!isEncryptedKey(key)) return [key, value] as [string, string];
+    const stored = scopedKey(key);
+    assertWritable(stored);
+    return [stored, seal(stored, value)] as [string, string];
+  });
+  return AsyncStorage.multiSet(sealed);
+}
+
+async function multiRemove(keys: readonly string[]): Promise<void> {
+  if (keys.some(isEncryptedKey)) await ensureReady();
+  const stored = keys.map(key => (isEncryptedKey(key) ? scopedKey(key) : key));
+  await AsyncStorage.multiRemove(stored);
+  stored.forEach(key => unreadableKeys.delete(key));
+}
+
+/**
+ * All keys as seen from the current scope: decoy keys are hidden normally,
+ * and stand in for the real protected keys in decoy mode.
+ */
+async function getAllKeys(): Promise<readonly string[]> {
+  const keys = await AsyncStorage.getAllKeys();
+  if (!decoyMode) return keys.filter(key => !key.startsWith(DECOY_PREFIX));
+  return keys
+    .filter(key => key.startsWith(DECOY_PREFIX) || !isEncryptedKey(key))
+    .map(key => (key.startsWith(DECOY_PREFIX) ? key.slice(DECOY_PREFIX.length) : key));
+}
+
+const EncryptedStorage = {
+  getItem,
+  setItem,
+  removeItem,
+  multiGet,
+  multiSet,
+  multiRemove,
+  getAllKeys,
+};
+
+export default EncryptedStorage;
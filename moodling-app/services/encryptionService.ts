@@ -0,0 +1,209 @@
+/**
+ * Encryption Service
+ *
+ * Small set of symmetric crypto helpers used wherever Mood Leaf data
+ * leaves plaintext storage (cloud sync today).
+ *
+ * Following Mood Leaf Ethics:
+ * - Keys are derived on device; passphrases are never stored or sent
+ * - Servers only ever see ciphertext
+ *
+ * Primitives (pure JS, work on Hermes/web/native):
+ * - AES-256-GCM for authenticated encryption
+ * - scrypt for passphrase -> key derivation
+ * - SHA-256 for content fingerprints
+ */
+
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { getRandomBytes } from 'expo-crypto';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const KEY_LENGTH = 32; // AES-256
+const NONCE_LENGTH = 12; // GCM standard nonce
+const SALT_LENGTH = 16;
+
+// scrypt cost: ~32MB, roughly a second on a mid-range phone
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+const ENVELOPE_VERSION = 1;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Serialized ciphertext. Safe to store or send anywhere.
+ */
+export interface EncryptedEnvelope {
+  v: number;
+  alg: 'aes-256-gcm';
+  /** base64 nonce */
+  iv: string;
+  /** base64 ciphertext + auth tag */
+  ct: string;
+}
+
+export interface KeyDerivationParams {
+  /** base64 salt */
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+}
+
+// ============================================
+// ENCODING
+// ============================================
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode bytes as base64 (no dependency on Buffer/btoa)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (b0 << 16) | (b1 << 8) | b2;
+    out += BASE64_CHARS[(triple >> 18) & 63];
+    out += BASE64_CHARS[(triple >> 12) & 63];
+    out += i + 1 < bytes.length ? BASE64_CHARS[(triple >> 6) & 63] : '=';
+    out += i + 2 < bytes.length ? BASE64_CHARS[triple & 63] : '=';
+  }
+  return out;
+}
+
+/**
+ * Decode base64 into bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  // Padding is implied by the length once '=' is stripped
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const c0 = BASE64_CHARS.indexOf(clean[i]);
+    const c1 = BASE64_CHARS.indexOf(clean[i + 1]);
+    const c2 = i + 2 < clean.length ? BASE64_CHARS.indexOf(clean[i + 2]) : 0;
+    const c3 = i + 3 < clean.length ? BASE64_CHARS.indexOf(clean[i + 3]) : 0;
+    const triple = (c0 << 18) | (c1 << 12) | (c2 << 6) | c3;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = (triple >> 16) & 255;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = (triple >> 8) & 255;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = triple & 255;
+  }
+  return bytes;
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+/**
+ * Cryptographically secure random bytes
+ */
+export function randomBytes(length: number): Uint8Array {
+  return getRandomBytes(length);
+}
+
+/**
+ * Generate a fresh random 256-bit key
+ */
+export function generateKey(): Uint8Array {
+  return randomBytes(KEY_LENGTH);
+}
+
+/**
+ * Create new key derivation parameters with a random salt
+ */
+export function createKeyDerivationParams(): KeyDerivationParams {
+  return { salt: bytesToBase64(randomBytes(SALT_LENGTH)), ...SCRYPT_PARAMS };
+}
+
+/**
+ * Derive a 256-bit key from a passphrase
+ */
+export async function deriveKeyFromPassphrase(
+  passphrase: string,
+  params: KeyDerivationParams
+): Promise<Uint8Array> {
+  if (!passphrase) {
+    throw new Error('Passphrase is required');
+  }
+  return scryptAsync(utf8ToBytes(passphrase.normalize('NFKC')), base64ToBytes(params.salt), {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    dkLen: KEY_LENGTH,
+  });
+}
+
+// ============================================
+// ENCRYPT / DECRYPT
+// ============================================
+
+/**
+ * Encrypt a UTF-8 string. `associatedData` (e.g. the storage key) is
+ * authenticated but not encrypted, so a ciphertext can't be replayed
+ * under a different key name.
+ */
+export function encryptString(
+  key: Uint8Array,
+  plaintext: string,
+  associatedData?: string
+): EncryptedEnvelope {
+  const nonce = randomBytes(NONCE_LENGTH);
+  const aad = associatedData ? utf8ToBytes(associatedData) : undefined;
+  const ciphertext = gcm(key, nonce, aad).encrypt(utf8ToBytes(plaintext));
+  return {
+    v: ENVELOPE_VERSION,
+    alg: 'aes-256-gcm',
+    iv: bytesToBase64(nonce),
+    ct: bytesToBase64(ciphertext),
+  };
+}
+
+/**
+ * Decrypt an envelope produced by encryptString.
+ * Throws if the key is wrong or the data was tampered with.
+ */
+export function decryptString(
+  key: Uint8Array,
+  envelope: EncryptedEnvelope,
+  associatedData?: string
+): string {
+  if (envelope.v !== ENVELOPE_VERSION || envelope.alg !== 'aes-256-gcm') {
+    throw new Error(`Unsupported envelope: v${envelope.v} ${envelope.alg}`);
+  }
+  const aad = associatedData ? utf8ToBytes(associatedData) : undefined;
+  const plaintext = gcm(key, base64ToBytes(envelope.iv), aad).decrypt(base64ToBytes(envelope.ct));
+  return bytesToUtf8(plaintext);
+}
+
+/**
+ * Check whether a parsed value looks like an EncryptedEnvelope
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<EncryptedEnvelope>;
+  return candidate.alg === 'aes-256-gcm' && typeof candidate.iv === 'string' && typeof candidate.ct === 'string';
+}
+
+// ============================================
+// HASHING
+// ============================================
+
+/**
+ * SHA-256 hex digest of a string
+ */
+export function sha256Hex(value: string): string {
+  return bytesToHex(sha256(utf8ToBytes(value)));
+}
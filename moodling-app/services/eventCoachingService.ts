@@ -0,0 +1,452 @@
+/**
+ * Event Coaching Service
+ *
+ * Turns calendar events into coaching moments: spots stressful events
+ * (interviews, medical appointments, presentations...) from their title
+ * and notes, offers a short prep skill beforehand and a debrief prompt
+ * afterward, and links journal moods back to the events around them so
+ * patterns like "post-meeting dips" can surface as insights.
+ *
+ * Following Mood Leaf Ethics:
+ * - Data stays on device
+ * - Only events the user already shared via calendar integration
+ * - Offers, never pushes: prep and debriefs are skippable nudges
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CalendarEvent, fetchUpcomingEvents, isCalendarEnabled } from './calendarService';
+import { getEntriesBetween, getEntryById } from './journalStorage';
+import { info } from './loggingService';
+import { AVAILABLE_SKILLS } from '@/types/SkillProgression';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CoachedEventType =
+  | 'interview'
+  | 'medical'
+  | 'presentation'
+  | 'exam'
+  | 'review'
+  | 'hard_conversation'
+  | 'meeting';
+
+export interface EventTypeDefinition {
+  type: CoachedEventType;
+  /** Plural, for sentences like "after interviews" */
+  label: string;
+  emoji: string;
+  pattern: RegExp;
+  /** Short skill offered beforehand (none for routine events) */
+  prepSkillId?: string;
+  prepLeadMinutes: number;
+  /** Journal prompt offered afterward (none for routine events) */
+  debriefPrompt?: string;
+}
+
+export interface EventClassification {
+  type: CoachedEventType;
+  /** The word or phrase that matched */
+  matched: string;
+  matchedIn: 'title' | 'notes';
+}
+
+/**
+ * A classified calendar event, remembered after it has passed
+ * so it can be debriefed and linked to mood
+ */
+export interface CoachedEvent {
+  /** Calendar id + start, since recurring events share an id */
+  key: string;
+  eventId: string;
+  title: string;
+  type: CoachedEventType;
+  matched: string;
+  startDate: string;
+  endDate: string;
+  /** Journal entries written in response to the debrief prompt */
+  debriefEntryIds: string[];
+  /** Average sentiment (-1..1) of entries in the window before / after */
+  moodBefore?: number;
+  moodAfter?: number;
+  linkedEntryIds?: string[];
+  /** Set once the after-window has closed and moods were linked */
+  linkedAt?: string;
+}
+
+export interface EventMoodStats {
+  type: CoachedEventType;
+  label: string;
+  /** Events with a mood recorded afterward */
+  events: number;
+  avgBefore?: number;
+  avgAfter: number;
+  /** Average sentiment over the baseline period, for comparison */
+  baseline: number;
+  /** avgAfter - baseline */
+  afterDelta: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const COACHED_EVENTS_KEY = 'moodleaf_coached_events';
+
+/** Checked in order; specific types before the catch-all meeting */
+export const EVENT_TYPES: EventTypeDefinition[] = [
+  {
+    type: 'interview',
+    label: 'interviews',
+    emoji: '🤝',
+    pattern: /\b(interview|recruiter|hiring manager|screening call|onsite)\b/i,
+    prepSkillId: 'physiological_sigh',
+    prepLeadMinutes: 45,
+    debriefPrompt: 'How did the interview go? What are you proud of, and what would you do differently?',
+  },
+  {
+    type: 'medical',
+    label: 'medical appointments',
+    emoji: '🩺',
+    pattern: /\b(doctor|dr|dentist|dental|physio|clinic|hospital|surgery|mri|scan|blood test|check-?up|gp|specialist|psychiatrist)\b/i,
+    prepSkillId: 'five_senses',
+    prepLeadMinutes: 60,
+    debriefPrompt: 'How was your appointment? Is there anything you want to remember or follow up on?',
+  },
+  {
+    type: 'presentation',
+    label: 'presentations',
+    emoji: '🎤',
+    pattern: /\b(presentation|presenting|pitch|demo|keynote|speech|webinar|talk at)\b/i,
+    prepSkillId: 'box_breathing',
+    prepLeadMinutes: 30,
+    debriefPrompt: 'You presented today. How did it feel while you were up there, and how do you feel now?',
+  },
+  {
+    type: 'exam',
+    label: 'exams',
+    emoji: '📝',
+    pattern: /\b(exam|midterm|finals|quiz|driving test|viva|thesis defen[cs]e)\b/i,
+    prepSkillId: 'brain_dump',
+    prepLeadMinutes: 60,
+    debriefPrompt: "The exam's done. However it went, what do you need right now?",
+  },
+  {
+    type: 'review',
+    label: 'reviews',
+    emoji: '📋',
+    pattern: /\b(performance review|appraisal|feedback session|1:1|one-on-one|one on one)\b/i,
+    prepSkillId: 'worst_case_best_case',
+    prepLeadMinutes: 30,
+    debriefPrompt: 'What did you hear in your review? Separate what was said from what it felt like.',
+  },
+  {
+    type: 'hard_conversation',
+    label: 'hard conversations',
+    emoji: '💬',
+    pattern: /\b(court|hearing|lawyer|attorney|mediation|custody|divorce|landlord|confront)\b/i,
+    prepSkillId: 'fact_vs_feeling',
+    prepLeadMinutes: 60,
+    debriefPrompt: 'That was a hard one. What happened, and how are you holding up?',
+  },
+  {
+    type: 'meeting',
+    label: 'meetings',
+    emoji: '📅',
+    pattern: /\b(meeting|standup|stand-up|sync|all-hands|catch-up|call with)\b/i,
+    prepLeadMinutes: 0,
+  },
+];
+
+/** Journal entries this long before the start count as "before" */
+const BEFORE_WINDOW_HOURS = 12;
+/** ...and this long after the end count as "after" */
+const AFTER_WINDOW_HOURS = 12;
+const BASELINE_DAYS = 60;
+const RETENTION_DAYS = 90;
+const HOUR = 60 * 60 * 1000;
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+
+export function getEventTypeDefinition(type: CoachedEventType): EventTypeDefinition {
+  return EVENT_TYPES.find(t => t.type === type)!;
+}
+
+/**
+ * Work out what kind of event this is from its title, then its notes.
+ * Notes are only checked for stressful types: invite bodies say
+ * "Join Zoom Meeting" far too often to count as a meeting.
+ */
+export function classifyEvent(event: Pick<CalendarEvent, 'title' | 'notes'>): EventClassification | null {
+  for (const definition of EVENT_TYPES) {
+    const match = event.title.match(definition.pattern);
+    if (match) return { type: definition.type, matched: match[1].toLowerCase(), matchedIn: 'title' };
+  }
+
+  if (!event.notes) return null;
+  for (const definition of EVENT_TYPES) {
+    if (definition.type === 'meeting') continue;
+    const match = event.notes.match(definition.pattern);
+    if (match) return { type: definition.type, matched: match[1].toLowerCase(), matchedIn: 'notes' };
+  }
+
+  return null;
+}
+
+/**
+ * Whether an event of this type gets prep and a debrief
+ */
+export function isStressfulEventType(type: CoachedEventType): boolean {
+  return !!getEventTypeDefinition(type).debriefPrompt;
+}
+
+export function getPrepSkill(type: CoachedEventType) {
+  const skillId = getEventTypeDefinition(type).prepSkillId;
+  return skillId ? AVAILABLE_SKILLS.find(s => s.id === skillId) : undefined;
+}
+
+// ============================================
+// TRACKED EVENTS
+// ============================================
+
+export async function getCoachedEvents(): Promise<CoachedEvent[]> {
+  try {
+    const data = await AsyncStorage.getItem(COACHED_EVENTS_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('[EventCoaching] Failed to load events:', error);
+    return [];
+  }
+}
+
+async function saveCoachedEvents(events: CoachedEvent[]): Promise<void> {
+  await AsyncStorage.setItem(COACHED_EVENTS_KEY, JSON.stringify(events));
+}
+
+/**
+ * Classify the upcoming week's events and remember the ones that matter.
+ * Calendar only returns upcoming events, so past events are kept here
+ * for debriefs and mood linking. Also links moods for finished events.
+ */
+export async function syncCoachedEvents(): Promise<CoachedEvent[]> {
+  try {
+    const stored = await getCoachedEvents();
+    const byKey = new Map(stored.map(e => [e.key, e]));
+
+    if (await isCalendarEnabled()) {
+      const upcoming = await fetchUpcomingEvents(7);
+      const seen = new Set(upcoming.map(e => `${e.id}_${e.startDate}`));
+      const now = Date.now();
+      // Upcoming events that vanished from the calendar were cancelled or moved
+      for (const event of stored) {
+        const start = new Date(event.startDate).getTime();
+        if (start > now && start < now + 7 * 24 * HOUR && !seen.has(event.key)) byKey.delete(event.key);
+      }
+
+      for (const event of upcoming) {
+        if (event.isAllDay) continue;
+        const classification = classifyEvent(event);
+        const key = `${event.id}_${event.startDate}`;
+        if (!classification) {
+          // Renamed into something routine
+          byKey.delete(key);
+          continue;
+        }
+        byKey.set(key, {
+          debriefEntryIds: [],
+          ...byKey.get(key),
+          key,
+          eventId: event.id,
+          title: event.title,
+          type: classification.type,
+          matched: classification.matched,
+          startDate: event.startDate,
+          endDate: event.endDate,
+        });
+      }
+    }
+
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * HOUR;
+    const events = [...byKey.values()]
+      .filter(e => new Date(e.endDate).getTime() > cutoff)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+    const linked = await linkEventMoods(events);
+    await saveCoachedEvents(events);
+    if (linked > 0) {
+      info('services', `Linked mood to ${linked} calendar events`, { tracked: events.length }, 'eventCoachingService');
+    }
+    return events;
+  } catch (error) {
+    console.error('[EventCoaching] Failed to sync events:', error);
+    return getCoachedEvents();
+  }
+}
+
+/**
+ * Record that a journal entry was written as the debrief for an event
+ */
+export async function linkEntryToEvent(eventKey: string, entryId: string): Promise<void> {
+  try {
+    const events = await getCoachedEvents();
+    const event = events.find(e => e.key === eventKey);
+    if (!event || event.debriefEntryIds.includes(entryId)) return;
+    event.debriefEntryIds.push(entryId);
+    // Relink with the debrief included
+    delete event.linkedAt;
+    await saveCoachedEvents(events);
+  } catch (error) {
+    console.error('[EventCoaching] Failed to link entry:', error);
+  }
+}
+
+// ============================================
+// MOOD LINKING
+// ============================================
+
+function averageSentiment(scores: number[]): number | undefined {
+  if (scores.length === 0) return undefined;
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+}
+
+/**
+ * Fill in moodBefore/moodAfter for events whose after-window has closed.
+ * Mutates the events; returns how many were linked.
+ */
+async function linkEventMoods(events: CoachedEvent[]): Promise<number> {
+  const now = Date.now();
+  let linked = 0;
+
+  for (const event of events) {
+    if (event.linkedAt) continue;
+    const start = new Date(event.startDate).getTime();
+    const end = new Date(event.endDate).getTime();
+    if (end + AFTER_WINDOW_HOURS * HOUR > now) continue;
+
+    const [before, after] = await Promise.all([
+      getEntriesBetween(new Date(start - BEFORE_WINDOW_HOURS * HOUR), new Date(start)),
+      getEntriesBetween(new Date(end), new Date(end + AFTER_WINDOW_HOURS * HOUR)),
+    ]);
+
+    // Debriefs count as "after" even when written the next day
+    const afterEntries = [...after.entries];
+    for (const id of event.debriefEntryIds) {
+      if (afterEntries.some(e => e.id === id)) continue;
+      const entry = await getEntryById(id);
+      if (entry) afterEntries.push(entry);
+    }
+
+    const scoresOf = (entries: typeof afterEntries) =>
+      entries.filter(e => e.sentiment).map(e => e.sentiment!.score);
+
+    event.moodBefore = averageSentiment(scoresOf(before.entries));
+    event.moodAfter = averageSentiment(scoresOf(afterEntries));
+    event.linkedEntryIds = [...before.entries, ...afterEntries].map(e => e.id);
+    event.linkedAt = new Date().toISOString();
+    linked++;
+  }
+
+  return linked;
+}
+
+/**
+ * Mood around each event type compared with the user's usual mood
+ */
+export async function getEventMoodStats(): Promise<EventMoodStats[]> {
+  const events = (await getCoachedEvents()).filter(e => e.linkedAt && e.moodAfter !== undefined);
+  if (events.length === 0) return [];
+
+  const now = new Date();
+  const { entries } = await getEntriesBetween(new Date(now.getTime() - BASELINE_DAYS * 24 * HOUR), now);
+  const baseline = averageSentiment(entries.filter(e => e.sentiment).map(e => e.sentiment!.score));
+  if (baseline === undefined) return [];
+
+  const stats: EventMoodStats[] = [];
+  for (const definition of EVENT_TYPES) {
+    const ofType = events.filter(e => e.type === definition.type);
+    if (ofType.length === 0) continue;
+
+    const avgAfter = averageSentiment(ofType.map(e => e.moodAfter!))!;
+    stats.push({
+      type: definition.type,
+      label: definition.label,
+      events: ofType.length,
+      avgBefore: averageSentiment(ofType.filter(e => e.moodBefore !== undefined).map(e => e.moodBefore!)),
+      avgAfter,
+      baseline,
+      afterDelta: avgAfter - baseline,
+    });
+  }
+
+  return stats;
+}
+
+// ============================================
+// COACH CONTEXT
+// ============================================
+
+/**
+ * Upcoming stressful events and how past ones tended to feel
+ */
+export async function getEventCoachingContextForClaude(): Promise<string> {
+  try {
+    const events = await syncCoachedEvents();
+    const now = Date.now();
+    const parts: string[] = [];
+
+    const upcoming = events.filter(e =>
+      isStressfulEventType(e.type) &&
+      new Date(e.startDate).getTime() > now &&
+      new Date(e.startDate).getTime() < now + 48 * HOUR
+    );
+    const recent = events.filter(e =>
+      isStressfulEventType(e.type) &&
+      new Date(e.endDate).getTime() <= now &&
+      new Date(e.endDate).getTime() > now - 24 * HOUR
+    );
+
+    if (upcoming.length > 0) {
+      parts.push('Coming up:');
+      for (const event of upcoming.slice(0, 3)) {
+        const when = new Date(event.startDate).toLocaleString([], {
+          weekday: 'short',
+          hour: 'numeric',
+          minute: '2-digit',
+        });
+        const skill = getPrepSkill(event.type);
+        const prep = skill ? ` (suggested prep: ${skill.name})` : '';
+        parts.push(`  - ${when}: ${event.title} [${event.type}]${prep}`);
+      }
+    }
+
+    if (recent.length > 0) {
+      parts.push('Just happened (a gentle debrief may help):');
+      for (const event of recent.slice(0, 3)) {
+        const debriefed = event.debriefEntryIds.length > 0 ? ', already journaled about it' : '';
+        parts.push(`  - ${event.title} [${event.type}]${debriefed}`);
+      }
+    }
+
+    const patterns = (await getEventMoodStats()).filter(s => s.events >= 3 && Math.abs(s.afterDelta) >= 0.2);
+    if (patterns.length > 0) {
+      parts.push('Mood around events:');
+      for (const stat of patterns) {
+        const direction = stat.afterDelta < 0 ? 'lower' : 'higher';
+        parts.push(`  - After ${stat.label}, mood is usually ${direction} than their norm (${stat.events} events)`);
+      }
+    }
+
+    if (parts.length === 0) return '';
+    return ['EVENT COACHING:', ...parts].join('\n');
+  } catch (error) {
+    console.error('[EventCoaching] Failed to build context:', error);
+    return '';
+  }
+}
+
+export async function clearCoachedEvents(): Promise<void> {
+  await AsyncStorage.removeItem(COACHED_EVENTS_KEY);
+}
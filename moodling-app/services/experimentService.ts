@@ -0,0 +1,523 @@
+/**
+ * Experiment Service
+ *
+ * N-of-1 experiments built on an insight's suggestedExperiment
+ * ("Try going to bed earlier for a week").
+ *
+ * An experiment has a baseline period (by default the days just before it
+ * starts) and an intervention period. Adherence is tracked with a quick log
+ * the user taps on days they did it. When the intervention ends, mood and
+ * lifestyle factors are compared before/after and the result is fed back
+ * into the insight as evidence, nudging its strength up or down.
+ *
+ * Following Mood Leaf Ethics:
+ * - Experiments are invitations, never obligations
+ * - Results describe this person's data, not universal truths
+ * - "No change" is a valid, useful result
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LifestyleFactors, formatDateString, parseDateString } from '@/types/DailySummary';
+import { getDailySummaries } from './patternService';
+import { getAllLogEntries, getAllQuickLogs, createQuickLog, deleteQuickLog } from './quickLogsService';
+import { permutationPValue } from './correlationService';
+import { Insight, getInsights, addInsightEvidence } from './insightService';
+import { info } from './loggingService';
+
+// ============================================
+// STORAGE KEYS
+// ============================================
+
+const STORAGE_KEYS = {
+  EXPERIMENTS: 'moodleaf_experiments',
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ExperimentStatus = 'running' | 'complete' | 'abandoned';
+
+export type ExperimentPhase = 'baseline' | 'intervention' | 'ready' | 'complete' | 'abandoned';
+
+export type ExperimentVerdict = 'supports' | 'contradicts' | 'no_change' | 'inconclusive';
+
+export interface Experiment {
+  id: string;
+  insightId: string;
+  insightTitle: string;
+  /** The suggested experiment text */
+  description: string;
+  /** Quick log tapped on days the user did it */
+  adherenceLogId: string;
+  /** We created the quick log, so we archive it afterwards */
+  createdAdherenceLog: boolean;
+  /** All dates YYYY-MM-DD; baseline runs up to the day before interventionStart */
+  baselineStart: string;
+  interventionStart: string;
+  /** Inclusive */
+  interventionEnd: string;
+  status: ExperimentStatus;
+  createdAt: string;
+  updatedAt: string;
+  result?: ExperimentResult;
+}
+
+/**
+ * Before/after comparison of one daily measure
+ */
+export interface MeasureComparison {
+  id: string;
+  label: string;
+  baselineDays: number;
+  interventionDays: number;
+  baselineMean: number | null;
+  interventionMean: number | null;
+  difference: number | null;
+  /** Hedges' g: difference in pooled standard deviations */
+  effectSize: number | null;
+  /** Permutation p-value (rank test); null when there's too little data */
+  pValue: number | null;
+}
+
+export interface ExperimentResult {
+  analyzedAt: string;
+  /** Share of intervention days the adherence log was tapped (0-1) */
+  adherence: number;
+  /** Same, for the baseline period (were they already doing it?) */
+  baselineAdherence: number;
+  mood: MeasureComparison;
+  factors: MeasureComparison[];
+  verdict: ExperimentVerdict;
+  summary: string;
+}
+
+export interface ExperimentProgress {
+  phase: ExperimentPhase;
+  /** 1-based day within the current phase */
+  day: number;
+  phaseLength: number;
+  /** Intervention days so far with an adherence tap */
+  adherentDays: number;
+}
+
+export interface StartExperimentOptions {
+  /** Defaults to 7 */
+  baselineDays?: number;
+  /** Defaults to the length in the suggestion ("for a week"), else 7 */
+  interventionDays?: number;
+  /** Run the baseline first instead of using the days before today */
+  prospectiveBaseline?: boolean;
+  /** Existing quick log to track adherence with; otherwise one is created */
+  adherenceLogId?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DEFAULT_PERIOD_DAYS = 7;
+
+// Fewest days with data in each period to compare a measure
+const MIN_DAYS_PER_PERIOD = 3;
+
+// Below this adherence the intervention didn't really happen
+const MIN_ADHERENCE = 0.5;
+
+// N-of-1 samples are small, so the bar is p ≤ 0.1 rather than 0.05
+const SIGNIFICANCE_LEVEL = 0.1;
+
+// |g| below this is "no noticeable change"
+const NEGLIGIBLE_EFFECT = 0.2;
+
+const FACTOR_LABELS: Record<keyof LifestyleFactors, string> = {
+  sleepHours: 'Sleep (hours)',
+  exerciseMinutes: 'Exercise (min)',
+  outdoorMinutes: 'Outside (min)',
+  socialMinutes: 'Social (min)',
+  caffeineCount: 'Caffeine',
+  alcoholCount: 'Alcohol',
+};
+
+const VERDICT_ADJUSTMENTS: Record<ExperimentVerdict, { strengthSteps: number; confidenceDelta: number; weight: number }> = {
+  supports: { strengthSteps: 1, confidenceDelta: 0.1, weight: 2 },
+  contradicts: { strengthSteps: -1, confidenceDelta: -0.15, weight: -2 },
+  no_change: { strengthSteps: 0, confidenceDelta: -0.05, weight: -0.5 },
+  inconclusive: { strengthSteps: 0, confidenceDelta: 0, weight: 0 },
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+function generateId(): string {
+  return `exp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function addDays(date: string, days: number): string {
+  const shifted = parseDateString(date);
+  shifted.setDate(shifted.getDate() + days);
+  return formatDateString(shifted);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((parseDateString(to).getTime() - parseDateString(from).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function today(): string {
+  return formatDateString(new Date());
+}
+
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, ten: 10, fourteen: 14 };
+
+/**
+ * Read a duration out of the suggestion text:
+ * "for a week" -> 7, "for two weeks" -> 14, "for 5 days" -> 5
+ */
+export function parseExperimentDuration(text: string): number | null {
+  const match = text.toLowerCase().match(/\b(a|an|\d+|one|two|three|four|five|ten|fourteen)\s+(day|week)s?\b/);
+  if (!match) return null;
+  const count = match[1] === 'a' || match[1] === 'an' ? 1 : NUMBER_WORDS[match[1]] ?? Number(match[1]);
+  const days = match[2] === 'week' ? count * 7 : count;
+  return days >= 3 && days <= 28 ? days : null;
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+/**
+ * All experiments, newest first
+ */
+export async function getExperiments(): Promise<Experiment[]> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.EXPERIMENTS);
+    const experiments: Experiment[] = stored ? JSON.parse(stored) : [];
+    return experiments.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('[Experiments] Error loading experiments:', error);
+    return [];
+  }
+}
+
+async function saveExperiment(experiment: Experiment): Promise<void> {
+  const experiments = await getExperiments();
+  const others = experiments.filter(e => e.id !== experiment.id);
+  await AsyncStorage.setItem(STORAGE_KEYS.EXPERIMENTS, JSON.stringify([experiment, ...others]));
+}
+
+/**
+ * The latest experiment run on an insight, if any
+ */
+export async function getExperimentForInsight(insightId: string): Promise<Experiment | null> {
+  const experiments = await getExperiments();
+  return experiments.find(e => e.insightId === insightId && e.status !== 'abandoned') || null;
+}
+
+/**
+ * Experiments still collecting data
+ */
+export async function getActiveExperiments(): Promise<Experiment[]> {
+  const experiments = await getExperiments();
+  return experiments.filter(e => e.status === 'running');
+}
+
+// ============================================
+// LIFECYCLE
+// ============================================
+
+/**
+ * Start an experiment from an insight's suggestedExperiment.
+ * Returns the running experiment if this insight already has one.
+ */
+export async function startExperiment(
+  insight: Insight,
+  options: StartExperimentOptions = {}
+): Promise<Experiment | null> {
+  if (!insight.suggestedExperiment) return null;
+
+  const existing = await getExperimentForInsight(insight.id);
+  if (existing?.status === 'running') return existing;
+
+  const baselineDays = options.baselineDays ?? DEFAULT_PERIOD_DAYS;
+  const interventionDays =
+    options.interventionDays ?? parseExperimentDuration(insight.suggestedExperiment) ?? DEFAULT_PERIOD_DAYS;
+  const start = today();
+  const interventionStart = options.prospectiveBaseline ? addDays(start, baselineDays) : start;
+
+  let adherenceLogId = options.adherenceLogId;
+  if (!adherenceLogId) {
+    const adherenceLog = await createQuickLog(`Experiment: ${insight.title}`, '🧪', 'custom', {
+      frequency: 'daily',
+      createdFromMessage: insight.suggestedExperiment,
+    });
+    adherenceLogId = adherenceLog.id;
+  }
+
+  const now = new Date().toISOString();
+  const experiment: Experiment = {
+    id: generateId(),
+    insightId: insight.id,
+    insightTitle: insight.title,
+    description: insight.suggestedExperiment,
+    adherenceLogId,
+    createdAdherenceLog: !options.adherenceLogId,
+    baselineStart: options.prospectiveBaseline ? start : addDays(start, -baselineDays),
+    interventionStart,
+    interventionEnd: addDays(interventionStart, interventionDays - 1),
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveExperiment(experiment);
+  info('services', 'Experiment started', { insightId: insight.id, interventionDays }, 'experimentService');
+  return experiment;
+}
+
+/**
+ * Stop an experiment without analyzing it
+ */
+export async function abandonExperiment(experimentId: string): Promise<void> {
+  const experiments = await getExperiments();
+  const experiment = experiments.find(e => e.id === experimentId);
+  if (!experiment || experiment.status !== 'running') return;
+
+  if (experiment.createdAdherenceLog) await deleteQuickLog(experiment.adherenceLogId);
+  await saveExperiment({ ...experiment, status: 'abandoned', updatedAt: new Date().toISOString() });
+}
+
+/**
+ * Where an experiment is today
+ */
+export function getExperimentPhase(experiment: Experiment, date: string = today()): ExperimentPhase {
+  if (experiment.status !== 'running') return experiment.status;
+  if (date < experiment.interventionStart) return 'baseline';
+  if (date <= experiment.interventionEnd) return 'intervention';
+  return 'ready';
+}
+
+/**
+ * Day counts and adherence so far, for showing progress
+ */
+export async function getExperimentProgress(
+  experiment: Experiment,
+  date: string = today()
+): Promise<ExperimentProgress> {
+  const phase = getExperimentPhase(experiment, date);
+  const adherentDates = await getAdherentDates(experiment.adherenceLogId);
+  const interventionLength = daysBetween(experiment.interventionStart, experiment.interventionEnd) + 1;
+
+  const adherentDays = Array.from(adherentDates).filter(
+    d => d >= experiment.interventionStart && d <= experiment.interventionEnd && d <= date
+  ).length;
+
+  if (phase === 'baseline') {
+    return {
+      phase,
+      day: daysBetween(experiment.baselineStart, date) + 1,
+      phaseLength: daysBetween(experiment.baselineStart, experiment.interventionStart),
+      adherentDays,
+    };
+  }
+
+  return {
+    phase,
+    day: Math.min(daysBetween(experiment.interventionStart, date) + 1, interventionLength),
+    phaseLength: interventionLength,
+    adherentDays,
+  };
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+async function getAdherentDates(logId: string): Promise<Set<string>> {
+  const entries = await getAllLogEntries();
+  return new Set(
+    entries.filter(e => e.logId === logId).map(e => formatDateString(new Date(e.timestamp)))
+  );
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / (values.length - 1);
+}
+
+/**
+ * Compare a measure between the two periods
+ */
+export function compareMeasure(
+  id: string,
+  label: string,
+  baseline: number[],
+  intervention: number[]
+): MeasureComparison {
+  const comparison: MeasureComparison = {
+    id,
+    label,
+    baselineDays: baseline.length,
+    interventionDays: intervention.length,
+    baselineMean: baseline.length > 0 ? mean(baseline) : null,
+    interventionMean: intervention.length > 0 ? mean(intervention) : null,
+    difference: null,
+    effectSize: null,
+    pValue: null,
+  };
+
+  if (baseline.length < MIN_DAYS_PER_PERIOD || intervention.length < MIN_DAYS_PER_PERIOD) {
+    return comparison;
+  }
+
+  const difference = comparison.interventionMean! - comparison.baselineMean!;
+  const n1 = baseline.length;
+  const n2 = intervention.length;
+  const pooledSd = Math.sqrt(((n1 - 1) * variance(baseline) + (n2 - 1) * variance(intervention)) / (n1 + n2 - 2));
+  // Small-sample correction for Cohen's d
+  const correction = 1 - 3 / (4 * (n1 + n2) - 9);
+
+  // A rank correlation against the period indicator is a two-sample rank test
+  const period = [...baseline.map(() => 0), ...intervention.map(() => 1)];
+
+  return {
+    ...comparison,
+    difference,
+    effectSize: pooledSd > 0 ? (difference / pooledSd) * correction : 0,
+    pValue: permutationPValue(period, [...baseline, ...intervention]),
+  };
+}
+
+function decideVerdict(mood: MeasureComparison, adherence: number): ExperimentVerdict {
+  if (mood.pValue === null || mood.difference === null || adherence < MIN_ADHERENCE) {
+    return 'inconclusive';
+  }
+  if (mood.pValue <= SIGNIFICANCE_LEVEL) {
+    return mood.difference > 0 ? 'supports' : 'contradicts';
+  }
+  if (Math.abs(mood.effectSize ?? 0) < NEGLIGIBLE_EFFECT) return 'no_change';
+  return 'inconclusive';
+}
+
+function describeResult(
+  verdict: ExperimentVerdict,
+  adherentDays: number,
+  interventionDays: number,
+  mood: MeasureComparison
+): string {
+  const didIt = `You did it on ${adherentDays} of ${interventionDays} days.`;
+  switch (verdict) {
+    case 'supports':
+      return `${didIt} Your entries were noticeably brighter than before the experiment.`;
+    case 'contradicts':
+      return `${didIt} Your entries were heavier than before, so this might not be the lever it seemed.`;
+    case 'no_change':
+      return `${didIt} Your mood looked about the same as before. That's useful to know too.`;
+    case 'inconclusive':
+      if (mood.pValue === null) {
+        return `${didIt} There weren't enough journal days to compare, so this one's a maybe.`;
+      }
+      return adherentDays / interventionDays < MIN_ADHERENCE
+        ? `${didIt} Not quite enough to tell yet. You could try it again when life allows.`
+        : `${didIt} There might be a shift, but it's too early to say.`;
+  }
+}
+
+/**
+ * Compare the baseline and intervention periods.
+ * Mood is average journal sentiment; factors are any lifestyle factors
+ * with data in both periods, plus the adherence quick log itself.
+ */
+export async function analyzeExperiment(experiment: Experiment): Promise<ExperimentResult> {
+  const summaries = await getDailySummaries(experiment.baselineStart, experiment.interventionEnd);
+  const baselineDays = summaries.filter(d => d.date < experiment.interventionStart);
+  const interventionDays = summaries.filter(d => d.date >= experiment.interventionStart);
+  const adherentDates = await getAdherentDates(experiment.adherenceLogId);
+
+  const moodOf = (days: typeof summaries) =>
+    days.filter(d => d.averageSentiment !== null).map(d => d.averageSentiment!);
+  const mood = compareMeasure('mood', 'Mood', moodOf(baselineDays), moodOf(interventionDays));
+
+  const factors: MeasureComparison[] = [];
+  for (const key of Object.keys(FACTOR_LABELS) as (keyof LifestyleFactors)[]) {
+    const valuesOf = (days: typeof summaries) =>
+      days.filter(d => d.factors[key] !== undefined).map(d => d.factors[key]!);
+    const comparison = compareMeasure(key, FACTOR_LABELS[key], valuesOf(baselineDays), valuesOf(interventionDays));
+    if (comparison.pValue !== null) factors.push(comparison);
+  }
+
+  const adherenceLog = (await getAllQuickLogs()).find(l => l.id === experiment.adherenceLogId);
+  const didItOf = (days: typeof summaries) => days.map(d => (adherentDates.has(d.date) ? 1 : 0));
+  if (adherenceLog) {
+    factors.push(compareMeasure('adherence', adherenceLog.name, didItOf(baselineDays), didItOf(interventionDays)));
+  }
+
+  const adherentDays = didItOf(interventionDays).filter(Boolean).length;
+  const adherence = interventionDays.length > 0 ? adherentDays / interventionDays.length : 0;
+  const baselineAdherence =
+    baselineDays.length > 0 ? didItOf(baselineDays).filter(Boolean).length / baselineDays.length : 0;
+  const verdict = decideVerdict(mood, adherence);
+
+  return {
+    analyzedAt: new Date().toISOString(),
+    adherence,
+    baselineAdherence,
+    mood,
+    factors,
+    verdict,
+    summary: describeResult(verdict, adherentDays, interventionDays.length, mood),
+  };
+}
+
+/**
+ * Analyze experiments whose intervention period is over and feed the
+ * results back into their insights. Call when insights are loaded.
+ */
+export async function completeDueExperiments(date: string = today()): Promise<Experiment[]> {
+  const completed: Experiment[] = [];
+
+  for (const experiment of await getActiveExperiments()) {
+    if (getExperimentPhase(experiment, date) !== 'ready') continue;
+
+    const result = await analyzeExperiment(experiment);
+    const finished: Experiment = { ...experiment, status: 'complete', result, updatedAt: new Date().toISOString() };
+    await saveExperiment(finished);
+
+    const adjustment = VERDICT_ADJUSTMENTS[result.verdict];
+    await addInsightEvidence(
+      experiment.insightId,
+      {
+        type: 'experiment',
+        sourceId: experiment.id,
+        description: result.summary,
+        timestamp: result.analyzedAt,
+        weight: adjustment.weight,
+      },
+      adjustment
+    );
+
+    if (experiment.createdAdherenceLog) await deleteQuickLog(experiment.adherenceLogId);
+
+    info('services', 'Experiment complete', {
+      insightId: experiment.insightId,
+      verdict: result.verdict,
+      adherence: result.adherence,
+    }, 'experimentService');
+    completed.push(finished);
+  }
+
+  return completed;
+}
+
+/**
+ * Insights with a suggested experiment that haven't been tried yet
+ */
+export async function getExperimentableInsights(): Promise<Insight[]> {
+  const [insights, experiments] = await Promise.all([getInsights(), getExperiments()]);
+  const tried = new Set(experiments.filter(e => e.status !== 'abandoned').map(e => e.insightId));
+  return insights.filter(i => i.suggestedExperiment && !tried.has(i.id));
+}
@@ -0,0 +1,532 @@
+/**
+ * Game Commands
+ *
+ * /games menu (or /games <game> to open one), /fidget and a shortcut
+ * command per mini-game.
+ *
+ * Unit: Slash Command System
+ */
+
+import { getGameRoute } from './gamesService';
+import { registerCommand, ReferenceOption } from './slashCommandRegistry';
+
+// ============================================
+// GAMES COMMANDS
+// ============================================
+
+export interface Game {
+  id: string;
+  name: string;
+  emoji: string;
+  description: string;
+  purpose: string;
+  tier: 'free' | 'premium';
+  category: 'grounding' | 'calming' | 'skill_building' | 'fidget';
+}
+
+export const GAMES: Game[] = [
+  // ========== GROUNDING GAMES ==========
+  {
+    id: 'breathing_bubble',
+    name: 'Breathing Bubble',
+    emoji: '🫧',
+    description: 'Pop bubbles by breathing at the right rhythm',
+    purpose: 'Makes breathing exercises fun and engaging',
+    tier: 'free',
+    category: 'grounding',
+  },
+  {
+    id: 'grounding_quest',
+    name: 'Grounding Quest',
+    emoji: '🔍',
+    description: 'Scavenger hunt: find things matching prompts around you',
+    purpose: 'Gamified 5-4-3-2-1 grounding',
+    tier: 'free',
+    category: 'grounding',
+  },
+  {
+    id: 'i_spy_ai',
+    name: 'I Spy (AI Camera)',
+    emoji: '📷',
+    description: 'Point camera around — AI spots objects for you to find',
+    purpose: 'Uses ML to create real grounding scavenger hunts',
+    tier: 'premium',
+    category: 'grounding',
+  },
+  {
+    id: 'color_finder',
+    name: 'Color Finder',
+    emoji: '🎯',
+    description: 'Camera detects colors — find 5 blue things, 4 red things...',
+    purpose: 'Visual grounding with real environment',
+    tier: 'premium',
+    category: 'grounding',
+  },
+  {
+    id: 'texture_hunt',
+    name: 'Texture Hunt',
+    emoji: '🖐️',
+    description: 'Find and photograph textures: smooth, rough, soft, bumpy',
+    purpose: 'Tactile grounding through visual search',
+    tier: 'premium',
+    category: 'grounding',
+  },
+
+  // ========== CALMING GAMES ==========
+  {
+    id: 'color_sort',
+    name: 'Color Sort',
+    emoji: '🎨',
+    description: 'Sort colored objects into matching buckets',
+    purpose: 'Calming, mindful distraction',
+    tier: 'free',
+    category: 'calming',
+  },
+  {
+    id: 'calm_puzzles',
+    name: 'Calm Puzzles',
+    emoji: '🧩',
+    description: 'Simple jigsaw puzzles with nature images',
+    purpose: 'Mindful focus and flow state',
+    tier: 'free',
+    category: 'calming',
+  },
+  {
+    id: 'mood_coloring',
+    name: 'Mood Coloring',
+    emoji: '🖍️',
+    description: 'Color mandalas and patterns',
+    purpose: 'Art therapy and self-expression',
+    tier: 'free',
+    category: 'calming',
+  },
+  {
+    id: 'zen_garden',
+    name: 'Zen Garden',
+    emoji: '🪨',
+    description: 'Rake sand patterns, place stones, create calm',
+    purpose: 'Meditative, open-ended creativity',
+    tier: 'premium',
+    category: 'calming',
+  },
+  {
+    id: 'flow_drawing',
+    name: 'Flow Drawing',
+    emoji: '✨',
+    description: 'Draw with particles that flow like water',
+    purpose: 'Mesmerizing, calming visual feedback',
+    tier: 'free',
+    category: 'calming',
+  },
+
+  // ========== SKILL BUILDING GAMES ==========
+  {
+    id: 'gratitude_wheel',
+    name: 'Gratitude Wheel',
+    emoji: '🎡',
+    description: 'Spin the wheel and express gratitude for random categories',
+    purpose: 'Builds gratitude practice through play',
+    tier: 'free',
+    category: 'skill_building',
+  },
+  {
+    id: 'emotion_match',
+    name: 'Emotion Match',
+    emoji: '🎭',
+    description: 'Match emotion faces with feeling words',
+    purpose: 'Expands emotional vocabulary',
+    tier: 'free',
+    category: 'skill_building',
+  },
+  {
+    id: 'word_garden',
+    name: 'Word Garden',
+    emoji: '🌸',
+    description: 'Plant positive words and watch them bloom',
+    purpose: 'Reinforces positive self-talk',
+    tier: 'free',
+    category: 'skill_building',
+  },
+  {
+    id: 'thought_catcher',
+    name: 'Thought Catcher',
+    emoji: '🦋',
+    description: 'Catch helpful thoughts, let unhelpful ones float by',
+    purpose: 'Visualizes CBT defusion technique',
+    tier: 'premium',
+    category: 'skill_building',
+  },
+  {
+    id: 'emotion_detective',
+    name: 'Emotion Detective',
+    emoji: '🕵️',
+    description: 'Read scenarios, identify the emotions involved',
+    purpose: 'Builds empathy and emotional intelligence',
+    tier: 'premium',
+    category: 'skill_building',
+  },
+
+  // ========== FIDGET TOOLS ==========
+  {
+    id: 'fidget_pad',
+    name: 'Fidget Pad',
+    emoji: '🔘',
+    description: 'Digital fidget toys: bubble wrap, sliders, spinners',
+    purpose: 'Quick anxiety relief and grounding',
+    tier: 'free',
+    category: 'fidget',
+  },
+  {
+    id: 'bubble_wrap',
+    name: 'Bubble Wrap',
+    emoji: '🔵',
+    description: 'Endless bubble wrap to pop — with haptic feedback',
+    purpose: 'Satisfying, repetitive stress relief',
+    tier: 'free',
+    category: 'fidget',
+  },
+  {
+    id: 'spinner',
+    name: 'Fidget Spinner',
+    emoji: '🌀',
+    description: 'Flick to spin, watch it go, feel the calm',
+    purpose: 'Visual focus point for anxiety',
+    tier: 'free',
+    category: 'fidget',
+  },
+
+  // ========== CLASSIC GAMES (Mindful Versions) ==========
+  {
+    id: 'mindful_snake',
+    name: 'Mindful Snake',
+    emoji: '🐍',
+    description: 'Classic snake, but slower and set to calming music',
+    purpose: 'Flow state through simple gameplay',
+    tier: 'free',
+    category: 'calming',
+  },
+  {
+    id: 'zen_tetris',
+    name: 'Zen Blocks',
+    emoji: '🧱',
+    description: 'Tetris with no pressure — blocks fall slowly, no game over',
+    purpose: 'Satisfying pattern completion without stress',
+    tier: 'free',
+    category: 'calming',
+  },
+  {
+    id: 'mindful_sudoku',
+    name: 'Calm Sudoku',
+    emoji: '🔢',
+    description: 'Sudoku puzzles with hints and no timer',
+    purpose: 'Logical focus that quiets anxious thoughts',
+    tier: 'free',
+    category: 'calming',
+  },
+  {
+    id: 'gentle_pong',
+    name: 'Gentle Pong',
+    emoji: '🏓',
+    description: 'Slow-motion pong with relaxing visuals',
+    purpose: 'Gentle hand-eye coordination',
+    tier: 'free',
+    category: 'calming',
+  },
+  {
+    id: 'memory_garden',
+    name: 'Memory Garden',
+    emoji: '🌷',
+    description: 'Match pairs of flowers to grow a garden',
+    purpose: 'Memory exercise with beautiful reward',
+    tier: 'free',
+    category: 'skill_building',
+  },
+
+  // ========== AR/CAMERA GAMES ==========
+  {
+    id: 'nature_spotter',
+    name: 'Nature Spotter',
+    emoji: '🌿',
+    description: 'AI identifies plants and animals around you',
+    purpose: 'Gets you outside and noticing nature',
+    tier: 'premium',
+    category: 'grounding',
+  },
+  {
+    id: 'cloud_shapes',
+    name: 'Cloud Shapes',
+    emoji: '☁️',
+    description: 'Point at clouds — AI suggests what shapes they could be',
+    purpose: 'Encourages looking up, imagination',
+    tier: 'premium',
+    category: 'grounding',
+  },
+  {
+    id: 'gratitude_lens',
+    name: 'Gratitude Lens',
+    emoji: '📸',
+    description: 'Photograph things you\'re grateful for, build a collection',
+    purpose: 'Visual gratitude journal',
+    tier: 'premium',
+    category: 'skill_building',
+  },
+];
+
+registerCommand({
+  name: 'games',
+  aliases: ['game', 'play', 'fun'],
+  description: 'Browse mindful games and activities',
+  category: 'skill',
+  requiresPremium: false,
+  usage: '/games [game]',
+  examples: ['/games', '/games pixel_sudoku', '/games breath'],
+  args: [{ name: 'game', type: 'reference', reference: 'game', description: 'Game to open' }],
+  handler: async (args, context, values) => {
+    const game: ReferenceOption | undefined = values.game;
+    const route = game ? getGameRoute(game.id) : null;
+    if (game && route) {
+      return {
+        type: 'navigation',
+        success: true,
+        message: `🎮 Opening ${game.label}...`,
+        navigateTo: route,
+        data: { gameId: game.id },
+      };
+    }
+
+    const availableGames = GAMES.filter(
+      (g) => g.tier === 'free' || context.isPremium
+    );
+    const lockedGames = GAMES.filter(
+      (g) => g.tier === 'premium' && !context.isPremium
+    );
+
+    let menuText = `**🎮 Mindful Games**\n\n`;
+    menuText += `_Games designed to calm, ground, and build skills — not to addict._\n\n`;
+
+    // Group by category
+    const categories = ['grounding', 'calming', 'skill_building', 'fidget'] as const;
+    const categoryNames: Record<string, string> = {
+      grounding: '🦶 Grounding Games',
+      calming: '🌊 Calming Activities',
+      skill_building: '🧠 Skill Builders',
+      fidget: '🔘 Fidget Tools',
+    };
+
+    for (const cat of categories) {
+      const games = availableGames.filter((g) => g.category === cat);
+      if (games.length === 0) continue;
+
+      menuText += `**${categoryNames[cat]}**\n`;
+      for (const game of games) {
+        menuText += `  ${game.emoji} **${game.name}**\n`;
+        menuText += `     _${game.description}_\n`;
+      }
+      menuText += '\n';
+    }
+
+    if (lockedGames.length > 0 && !context.isPremium) {
+      menuText += `**🔒 Premium Games**\n`;
+      for (const game of lockedGames) {
+        menuText += `  ${game.emoji} ${game.name}\n`;
+      }
+      menuText += `\n_Upgrade to unlock all games._\n`;
+    }
+
+    menuText += `\n_Games coming soon! For now, try \`/breathe\` or \`/ground\`._`;
+
+    return {
+      type: 'menu',
+      success: true,
+      message: menuText,
+      menuType: 'games' as any,
+      data: { games: GAMES, availableGames, lockedGames },
+    };
+  },
+});
+
+registerCommand({
+  name: 'fidget',
+  aliases: ['bubble', 'pop'],
+  description: 'Open the fidget pad for quick relief',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => {
+    return {
+      type: 'navigation',
+      success: true,
+      message: '🔘 Opening Fidget Pad...\n\n_Tap, swipe, and interact to ground yourself._',
+      navigateTo: '/games/fidget',
+      data: { gameId: 'fidget_pad' },
+    };
+  },
+});
+
+// Individual game commands
+registerCommand({
+  name: 'snake',
+  aliases: ['mindful_snake'],
+  description: 'Play mindful snake',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🐍 Opening Mindful Snake...\n\n_Classic snake, but slower and calmer._',
+    navigateTo: '/games/snake',
+  }),
+});
+
+registerCommand({
+  name: 'pong',
+  aliases: ['gentle_pong'],
+  description: 'Play gentle pong',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🏓 Opening Gentle Pong...\n\n_Slow-motion pong with relaxing visuals._',
+    navigateTo: '/games/pong',
+  }),
+});
+
+registerCommand({
+  name: 'asteroids',
+  aliases: ['space'],
+  description: 'Play asteroids',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🌌 Opening Asteroids...\n\n_Classic space shooter, calming edition._',
+    navigateTo: '/games/asteroids',
+  }),
+});
+
+registerCommand({
+  name: 'breakout',
+  aliases: ['bricks', 'arkanoid'],
+  description: 'Play breakout',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🧱 Opening Breakout...\n\n_Satisfying brick-breaking action._',
+    navigateTo: '/games/breakout',
+  }),
+});
+
+registerCommand({
+  name: '2048',
+  aliases: ['puzzle'],
+  description: 'Play 2048',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🔢 Opening 2048...\n\n_Slide and merge numbers to reach 2048._',
+    navigateTo: '/games/2048',
+  }),
+});
+
+registerCommand({
+  name: 'memory',
+  aliases: ['match', 'pairs'],
+  description: 'Play memory match',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🃏 Opening Memory Match...\n\n_Find matching pairs to train your memory._',
+    navigateTo: '/games/memory-match',
+  }),
+});
+
+registerCommand({
+  name: 'bubbles',
+  aliases: ['bubblewrap'],
+  description: 'Pop bubble wrap',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🫧 Opening Bubble Wrap...\n\n_Endless popping satisfaction._',
+    navigateTo: '/games/bubble-wrap',
+  }),
+});
+
+registerCommand({
+  name: 'sand',
+  aliases: ['kinetic'],
+  description: 'Play with kinetic sand',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🏖️ Opening Kinetic Sand...\n\n_Satisfying sand simulation._',
+    navigateTo: '/games/kinetic-sand',
+  }),
+});
+
+registerCommand({
+  name: 'rain',
+  aliases: ['window', 'raindrops'],
+  description: 'Watch rain on window',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🌧️ Opening Rain on Window...\n\n_Calming rain drops on glass._',
+    navigateTo: '/games/rain-on-window',
+  }),
+});
+
+registerCommand({
+  name: 'kaleidoscope',
+  aliases: ['kscope'],
+  description: 'View kaleidoscope patterns',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🔮 Opening Kaleidoscope...\n\n_Mesmerizing symmetrical patterns._',
+    navigateTo: '/games/kaleidoscope',
+  }),
+});
+
+registerCommand({
+  name: 'maze',
+  aliases: ['mazewalker'],
+  description: 'Walk through mazes',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🧩 Opening Maze Walker...\n\n_Navigate peaceful mazes._',
+    navigateTo: '/games/maze-walker',
+  }),
+});
+
+registerCommand({
+  name: 'untangle',
+  aliases: ['knots'],
+  description: 'Untangle the knots',
+  category: 'skill',
+  requiresPremium: false,
+  handler: async () => ({
+    type: 'navigation',
+    success: true,
+    message: '🪢 Opening Untangle...\n\n_Solve the puzzle by untangling lines._',
+    navigateTo: '/games/untangle',
+  }),
+});
@@ -19,6 +19,7 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, startTimer, endTimer } from './loggingService';
+import { registerReferenceProvider } from './slashCommandRegistry';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -817,3 +818,33 @@ export function formatDuration(seconds: number): string {
   const remainingMinutes = minutes % 60;
   return `${hours}h ${remainingMinutes}m`;
 }
+
+// ============================================================================
+// SLASH COMMAND REFERENCES
+// ============================================================================
+
+// Screens are app/games/<id with dashes>.tsx except these (null = no screen yet)
+const GAME_SCREEN_OVERRIDES: Record<string, string | null> = {
+  rain_window: 'rain-on-window',
+  color_sort: null,
+};
+
+/**
+ * Route of a game's screen, or null if it doesn't have one yet
+ */
+export function getGameRoute(gameId: string): string | null {
+  if (!getGameById(gameId)) return null;
+  const screen = gameId in GAME_SCREEN_OVERRIDES
+    ? GAME_SCREEN_OVERRIDES[gameId]
+    : gameId.replace(/_/g, '-');
+  return screen ? `/games/${screen}` : null;
+}
+
+// Lets commands take a game argument (/games <game>); only playable games
+registerReferenceProvider('game', () =>
+  ALL_GAMES.filter((game) => getGameRoute(game.id) !== null).map((game) => ({
+    id: game.id,
+    label: game.name,
+    description: game.description,
+  }))
+);
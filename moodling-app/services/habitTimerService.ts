@@ -14,6 +14,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, warn, error as logError } from './loggingService';
 import { Platform } from 'react-native';
+import { requestNotification, cancelNotificationRequest } from './notificationSchedulerService';
 
 // Optional dependencies
 let Notifications: typeof import('expo-notifications') | null = null;
@@ -441,36 +442,24 @@ async function scheduleHabitReminder(
   habit: CustomHabit,
   session: HabitSession
 ): Promise<void> {
-  if (!Notifications) return;
-
-  // Cancel existing notifications for this habit
-  const scheduledNotifications = await Notifications.getAllScheduledNotificationsAsync();
-  for (const notif of scheduledNotifications) {
-    if (notif.content.data?.habitId === habit.id) {
-      await Notifications.cancelScheduledNotificationAsync(notif.identifier);
-    }
-  }
-
-  // Don't schedule if at limit
+  // Don't schedule if at limit (and drop any pending reminder)
   if (habit.dailyLimit && session.occurrences.length >= habit.dailyLimit) {
+    await cancelNotificationRequest(`habit_${habit.id}`);
     return;
   }
 
-  // Schedule next reminder
-  const triggerSeconds = habit.intervalMinutes * 60;
-
-  await Notifications.scheduleNotificationAsync({
-    content: {
-      title: `${habit.emoji} ${habit.name} Timer`,
-      body: habit.dailyLimit
-        ? `Time for ${habit.name} (${session.occurrences.length + 1}/${habit.dailyLimit})`
-        : `${habit.intervalMinutes} minutes - ${habit.name} allowed`,
-      data: { type: 'habit_timer', habitId: habit.id },
-    },
-    trigger: {
-      seconds: triggerSeconds,
-      channelId: 'habit-timer',
-    },
+  // Schedule next reminder; replaces the previous one for this habit
+  await requestNotification({
+    id: `habit_${habit.id}`,
+    source: 'habit_timer',
+    priority: 'critical',
+    title: `${habit.emoji} ${habit.name} Timer`,
+    body: habit.dailyLimit
+      ? `Time for ${habit.name} (${session.occurrences.length + 1}/${habit.dailyLimit})`
+      : `${habit.intervalMinutes} minutes - ${habit.name} allowed`,
+    at: new Date(Date.now() + habit.intervalMinutes * 60 * 1000).toISOString(),
+    channelId: 'habit-timer',
+    data: { type: 'habit_timer', habitId: habit.id },
   });
 }
 
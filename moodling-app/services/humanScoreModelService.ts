@@ -0,0 +1,459 @@
+/**
+ * Human-ness Score Model
+ *
+ * The on-device scorer that replaces Claude for human-ness scoring.
+ * One ridge regression per breakdown dimension (plus the total) over
+ * simple text features of the exchange, trained from Claude-scored
+ * exchanges and checked with k-fold cross-validation.
+ *
+ * Models are versioned and the last few are kept so a bad retrain can be
+ * rolled back. A model trained on a different feature schema is ignored.
+ *
+ * Training and storage only; humanScoreService decides when to train and
+ * when the model is trusted over Claude.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { detectAITicks, detectUserEnergy } from './conversationController';
+import type { HumannessScoreBreakdown, ScoredExchange } from './humanScoreService';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const STORAGE_KEY = 'moodleaf_human_score_models';
+
+/** Bump when FEATURE_NAMES or extractFeatures change */
+const FEATURE_SCHEMA_VERSION = 1;
+
+const MAX_MODEL_VERSIONS = 5;
+
+/** Audit results kept for the active model */
+const MAX_AUDITS = 50;
+
+const DEFAULT_FOLDS = 5;
+const DEFAULT_LAMBDA = 1;
+
+/** A predicted total within this many points of Claude's counts as agreement */
+export const TOTAL_TOLERANCE = 10;
+
+/** A predicted dimension within this share of its range counts as agreement */
+const DIMENSION_TOLERANCE = 0.15;
+
+/** Maximum points per dimension (see CLAUDE_SCORING_PROMPT) */
+export const HUMAN_SCORE_DIMENSIONS: Record<keyof HumannessScoreBreakdown, number> = {
+  naturalLanguage: 15,
+  emotionalTiming: 20,
+  brevityControl: 15,
+  memoryUse: 15,
+  imperfection: 10,
+  personalityConsistency: 15,
+  avoidedAITicks: 10,
+};
+
+const VALIDATION_PHRASES = ['valid', 'understandable', 'makes sense', 'natural to feel'];
+const HEDGE_PHRASES = ['maybe', 'might', 'perhaps', 'not sure', 'i wonder', 'probably', 'kind of'];
+const MEMORY_PHRASES = ['last time', 'you mentioned', 'remember', 'earlier you', 'you said', 'you told me'];
+
+export const FEATURE_NAMES = [
+  'bias',
+  'responseWords',
+  'userWords',
+  'lengthRatio',
+  'sentences',
+  'wordsPerSentence',
+  'questions',
+  'exclamations',
+  'aiTicks',
+  'validationPhrases',
+  'startsWithI',
+  'hedges',
+  'memoryReferences',
+  'contractionRate',
+  'listMarkers',
+  'youRate',
+  'userEnergyLow',
+  'userEnergyHigh',
+  'userDistressed',
+  'responseEnergyHigh',
+  'lowEnergyLength',
+  'lowEnergyQuestions',
+  'messageCount',
+  'lateNight',
+];
+
+// ============================================
+// TYPES
+// ============================================
+
+export type HumanScoreTarget = keyof HumannessScoreBreakdown | 'total';
+
+export type ExchangeInput = Pick<ScoredExchange, 'userMessage' | 'aiResponse' | 'context'>;
+
+export interface TargetAccuracy {
+  /** Mean absolute error in points */
+  mae: number;
+  /** Share of held-out exchanges within tolerance of Claude's score */
+  agreement: number;
+}
+
+export interface CrossValidationReport {
+  folds: number;
+  examples: number;
+  targets: Record<HumanScoreTarget, TargetAccuracy>;
+  /** Agreement on the total; what the switch to local scoring is based on */
+  agreement: number;
+}
+
+export interface HumanScoreModel {
+  version: number;
+  featureSchema: number;
+  trainedAt: string;
+  /** Claude-scored exchanges the model was fitted on */
+  examples: number;
+  /** Claude score count at training time, used to decide when to retrain */
+  labelCount: number;
+  lambda: number;
+  means: number[];
+  stds: number[];
+  weights: Record<HumanScoreTarget, number[]>;
+  crossValidation: CrossValidationReport;
+}
+
+interface ModelStore {
+  activeVersion: number | null;
+  models: HumanScoreModel[];
+  /** Live agreement checks of the active model against Claude */
+  audits: boolean[];
+}
+
+const TARGETS: HumanScoreTarget[] = [...(Object.keys(HUMAN_SCORE_DIMENSIONS) as (keyof HumannessScoreBreakdown)[]), 'total'];
+
+// ============================================
+// FEATURES
+// ============================================
+
+function countPhrases(text: string, phrases: string[]): number {
+  return phrases.reduce((count, phrase) => count + (text.includes(phrase) ? 1 : 0), 0);
+}
+
+/**
+ * Numeric features for one exchange, in FEATURE_NAMES order
+ */
+export function extractFeatures(input: ExchangeInput): number[] {
+  const response = input.aiResponse.trim();
+  const lower = response.toLowerCase();
+  const responseWords = response.split(/\s+/).filter(Boolean);
+  const userWords = input.userMessage.split(/\s+/).filter(Boolean);
+  const sentences = Math.max(1, response.split(/[.!?]+/).filter(s => s.trim()).length);
+  const questions = (response.match(/\?/g) || []).length;
+  const wordCount = Math.max(1, responseWords.length);
+
+  const userEnergyLow = input.context.userEnergy === 'low' ? 1 : 0;
+  const userEnergyHigh = input.context.userEnergy === 'high' ? 1 : 0;
+  const hour = input.context.hourOfDay;
+
+  return [
+    1,
+    Math.log1p(responseWords.length),
+    Math.log1p(userWords.length),
+    Math.log((responseWords.length + 1) / (userWords.length + 1)),
+    sentences,
+    responseWords.length / sentences,
+    questions,
+    (response.match(/!/g) || []).length,
+    detectAITicks(response).length,
+    countPhrases(lower, VALIDATION_PHRASES),
+    response.startsWith('I ') ? 1 : 0,
+    countPhrases(lower, HEDGE_PHRASES),
+    countPhrases(lower, MEMORY_PHRASES),
+    (lower.match(/\b\w+'(s|re|ve|ll|d|t|m)\b/g) || []).length / wordCount,
+    (response.match(/^\s*([-*•]|\d+\.)\s/gm) || []).length + (response.match(/\*\*/g) || []).length / 2,
+    responseWords.filter(word => /^you\b/i.test(word)).length / wordCount,
+    userEnergyLow,
+    userEnergyHigh,
+    input.context.userMood === 'distressed' || input.context.userMood === 'anxious' ? 1 : 0,
+    detectUserEnergy(response) === 'high' ? 1 : 0,
+    userEnergyLow * Math.log1p(responseWords.length),
+    userEnergyLow * questions,
+    Math.log1p(input.context.messageCount),
+    hour < 6 || hour >= 22 ? 1 : 0,
+  ];
+}
+
+function standardize(features: number[], means: number[], stds: number[]): number[] {
+  return features.map((value, i) => (i === 0 ? 1 : (value - means[i]) / stds[i]));
+}
+
+// ============================================
+// REGRESSION
+// ============================================
+
+/**
+ * Solve A x = b by Gaussian elimination with partial pivoting
+ */
+function solve(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) continue;
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    if (Math.abs(m[row][row]) < 1e-12) continue;
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Ridge regression on standardized features; the bias is not penalized
+ */
+function fitRidge(X: number[][], y: number[], lambda: number): number[] {
+  const d = X[0].length;
+  const XtX = Array.from({ length: d }, () => new Array(d).fill(0));
+  const Xty = new Array(d).fill(0);
+
+  X.forEach((row, n) => {
+    for (let i = 0; i < d; i++) {
+      Xty[i] += row[i] * y[n];
+      for (let j = 0; j < d; j++) XtX[i][j] += row[i] * row[j];
+    }
+  });
+  for (let i = 1; i < d; i++) XtX[i][i] += lambda;
+
+  return solve(XtX, Xty);
+}
+
+function dot(weights: number[], features: number[]): number {
+  return weights.reduce((sum, weight, i) => sum + weight * features[i], 0);
+}
+
+function clampTarget(target: HumanScoreTarget, value: number): number {
+  const max = target === 'total' ? 100 : HUMAN_SCORE_DIMENSIONS[target];
+  const min = target === 'total' ? 1 : 0;
+  return Math.round(Math.min(max, Math.max(min, value)));
+}
+
+function targetValue(exchange: ScoredExchange, target: HumanScoreTarget): number {
+  return target === 'total' ? exchange.score.total : exchange.score.breakdown?.[target] ?? 0;
+}
+
+type FittedWeights = Pick<HumanScoreModel, 'means' | 'stds' | 'weights'>;
+
+function fit(examples: ScoredExchange[], lambda: number): FittedWeights {
+  const raw = examples.map(extractFeatures);
+  const d = FEATURE_NAMES.length;
+  const means = new Array(d).fill(0);
+  const stds = new Array(d).fill(1);
+
+  for (let i = 1; i < d; i++) {
+    means[i] = raw.reduce((sum, row) => sum + row[i], 0) / raw.length;
+    const variance = raw.reduce((sum, row) => sum + (row[i] - means[i]) ** 2, 0) / raw.length;
+    stds[i] = Math.sqrt(variance) || 1;
+  }
+
+  const X = raw.map(row => standardize(row, means, stds));
+  const weights = {} as Record<HumanScoreTarget, number[]>;
+  for (const target of TARGETS) {
+    weights[target] = fitRidge(X, examples.map(exchange => targetValue(exchange, target)), lambda);
+  }
+  return { means, stds, weights };
+}
+
+function predictWith(fitted: FittedWeights, input: ExchangeInput): Record<HumanScoreTarget, number> {
+  const features = standardize(extractFeatures(input), fitted.means, fitted.stds);
+  const prediction = {} as Record<HumanScoreTarget, number>;
+  for (const target of TARGETS) {
+    prediction[target] = clampTarget(target, dot(fitted.weights[target], features));
+  }
+  return prediction;
+}
+
+// ============================================
+// TRAINING
+// ============================================
+
+/**
+ * K-fold cross-validation. Folds interleave the examples (i % folds), so
+ * every fold spans the whole history.
+ */
+function crossValidate(examples: ScoredExchange[], folds: number, lambda: number): CrossValidationReport {
+  const errors = Object.fromEntries(TARGETS.map(target => [target, [] as number[]])) as Record<HumanScoreTarget, number[]>;
+
+  for (let fold = 0; fold < folds; fold++) {
+    const train = examples.filter((_, i) => i % folds !== fold);
+    const test = examples.filter((_, i) => i % folds === fold);
+    if (train.length === 0 || test.length === 0) continue;
+
+    const fitted = fit(train, lambda);
+    for (const exchange of test) {
+      const prediction = predictWith(fitted, exchange);
+      for (const target of TARGETS) {
+        errors[target].push(Math.abs(prediction[target] - targetValue(exchange, target)));
+      }
+    }
+  }
+
+  const targets = {} as Record<HumanScoreTarget, TargetAccuracy>;
+  for (const target of TARGETS) {
+    const tolerance = target === 'total' ? TOTAL_TOLERANCE : HUMAN_SCORE_DIMENSIONS[target] * DIMENSION_TOLERANCE;
+    const list = errors[target];
+    targets[target] = {
+      mae: list.length > 0 ? list.reduce((sum, e) => sum + e, 0) / list.length : 0,
+      agreement: list.length > 0 ? list.filter(e => e <= tolerance).length / list.length : 0,
+    };
+  }
+
+  return { folds, examples: examples.length, targets, agreement: targets.total.agreement };
+}
+
+/**
+ * Cross-validate, then fit on every example.
+ * Returns an unsaved model (version 0); saveHumanScoreModel numbers it.
+ */
+export function trainHumanScoreModel(
+  examples: ScoredExchange[],
+  labelCount: number,
+  options: { folds?: number; lambda?: number } = {}
+): HumanScoreModel {
+  const folds = Math.min(options.folds ?? DEFAULT_FOLDS, examples.length);
+  const lambda = options.lambda ?? DEFAULT_LAMBDA;
+
+  return {
+    version: 0,
+    featureSchema: FEATURE_SCHEMA_VERSION,
+    trainedAt: new Date().toISOString(),
+    examples: examples.length,
+    labelCount,
+    lambda,
+    ...fit(examples, lambda),
+    crossValidation: crossValidate(examples, folds, lambda),
+  };
+}
+
+/**
+ * Score an exchange with a trained model
+ */
+export function predictHumanScore(
+  model: HumanScoreModel,
+  input: ExchangeInput
+): { total: number; breakdown: HumannessScoreBreakdown } {
+  const { total, ...breakdown } = predictWith(model, input);
+  return { total, breakdown };
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+let store: ModelStore = { activeVersion: null, models: [], audits: [] };
+let loadPromise: Promise<ModelStore> | null = null;
+
+async function writeStore(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('[HumanScoreModel] Failed to save models:', error);
+  }
+}
+
+/**
+ * Load stored models (once). Models from another feature schema are dropped.
+ */
+export function loadHumanScoreModels(): Promise<ModelStore> {
+  if (!loadPromise) {
+    loadPromise = AsyncStorage.getItem(STORAGE_KEY)
+      .then(stored => {
+        if (stored) {
+          const parsed: ModelStore = JSON.parse(stored);
+          const models = parsed.models.filter(model => model.featureSchema === FEATURE_SCHEMA_VERSION);
+          const activeVersion = models.some(model => model.version === parsed.activeVersion) ? parsed.activeVersion : null;
+          store = { activeVersion, models, audits: activeVersion === parsed.activeVersion ? parsed.audits ?? [] : [] };
+        }
+        return store;
+      })
+      .catch(error => {
+        console.error('[HumanScoreModel] Failed to load models:', error);
+        loadPromise = null;
+        return store;
+      });
+  }
+  return loadPromise;
+}
+
+/**
+ * The model used for local scoring, or null before the first training
+ */
+export function getActiveHumanScoreModel(): HumanScoreModel | null {
+  return store.models.find(model => model.version === store.activeVersion) ?? null;
+}
+
+/**
+ * Every kept model version, newest first
+ */
+export function getHumanScoreModelVersions(): HumanScoreModel[] {
+  return [...store.models].reverse();
+}
+
+/**
+ * Number a freshly trained model, keep it and make it active
+ */
+export async function saveHumanScoreModel(model: HumanScoreModel): Promise<HumanScoreModel> {
+  await loadHumanScoreModels();
+  const version = store.models.reduce((max, existing) => Math.max(max, existing.version), 0) + 1;
+  const saved = { ...model, version };
+
+  store = {
+    activeVersion: version,
+    models: [...store.models, saved].slice(-MAX_MODEL_VERSIONS),
+    audits: [],
+  };
+  await writeStore();
+  return saved;
+}
+
+/**
+ * Roll back (or forward) to a kept model version
+ */
+export async function activateHumanScoreModel(version: number): Promise<boolean> {
+  await loadHumanScoreModels();
+  if (!store.models.some(model => model.version === version)) return false;
+  store = { ...store, activeVersion: version, audits: [] };
+  await writeStore();
+  return true;
+}
+
+/**
+ * Record whether the active model agreed with a Claude audit score
+ */
+export async function recordHumanScoreAudit(agreed: boolean): Promise<void> {
+  await loadHumanScoreModels();
+  store = { ...store, audits: [...store.audits, agreed].slice(-MAX_AUDITS) };
+  await writeStore();
+}
+
+/**
+ * Live agreement of the active model with Claude audits
+ */
+export function getHumanScoreAudits(): { count: number; agreement: number } {
+  const count = store.audits.length;
+  return {
+    count,
+    agreement: count > 0 ? store.audits.filter(Boolean).length / count : 0,
+  };
+}
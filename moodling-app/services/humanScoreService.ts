@@ -9,12 +9,29 @@
  * Over time, we collect enough examples that a small local
  * model can learn to score without Claude.
  *
+ * Once enough Claude scores exist, a local model is trained
+ * (humanScoreModelService) and retrained as more arrive. When its
+ * cross-validated agreement with Claude passes AGREEMENT_THRESHOLD,
+ * Claude only scores a small audit sample; if the audits stop agreeing,
+ * Claude scores everything again until a retrain catches up.
+ *
  * This is how we make Claude disappear-able.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, warn, error as logError } from './loggingService';
 import { quickHumannessScore, ConversationContext } from './conversationController';
+import {
+  HumanScoreModel,
+  TOTAL_TOLERANCE,
+  trainHumanScoreModel,
+  predictHumanScore,
+  loadHumanScoreModels,
+  saveHumanScoreModel,
+  getActiveHumanScoreModel,
+  recordHumanScoreAudit,
+  getHumanScoreAudits,
+} from './humanScoreModelService';
 
 // ============================================
 // TYPES
@@ -50,6 +67,8 @@ export interface ScoredExchange {
   };
   score: HumannessScore;
   scoredBy: 'local' | 'claude';
+  /** Learned model version behind a local score (absent for the heuristic) */
+  modelVersion?: number;
 }
 
 export interface ScoreStats {
@@ -73,6 +92,20 @@ const STORAGE_KEYS = {
 
 const MAX_STORED_EXCHANGES = 1000; // Keep this many for training
 
+const MINIMUM_FOR_TRAINING = 500;
+
+/** Cross-validated agreement needed before local scoring replaces Claude */
+export const AGREEMENT_THRESHOLD = 0.85;
+
+/** Share of exchanges Claude still scores once local scoring is trusted */
+const AUDIT_RATE = 0.1;
+
+/** Audits needed before live agreement can switch Claude back on */
+const MIN_AUDITS = 10;
+
+/** New Claude scores between retrains */
+const RETRAIN_EVERY = 50;
+
 /**
  * Save a scored exchange (for future local model training)
  */
@@ -84,8 +117,17 @@ async function saveScoredExchange(exchange: ScoredExchange): Promise<void> {
     // Add new exchange
     exchanges.push(exchange);
 
-    // Keep only the most recent MAX_STORED_EXCHANGES
+    // Keep only the most recent MAX_STORED_EXCHANGES, dropping local
+    // scores first since Claude scores are the training labels
     if (exchanges.length > MAX_STORED_EXCHANGES) {
+      let excess = exchanges.length - MAX_STORED_EXCHANGES;
+      exchanges = exchanges.filter(e => {
+        if (excess > 0 && e.scoredBy === 'local') {
+          excess--;
+          return false;
+        }
+        return true;
+      });
       exchanges = exchanges.slice(-MAX_STORED_EXCHANGES);
     }
 
@@ -151,8 +193,9 @@ async function updateScoreStats(newExchange: ScoredExchange): Promise<void> {
 // ============================================
 
 /**
- * Quick local scoring - runs immediately, no API needed
- * This is what will eventually replace Claude scoring
+ * Quick local scoring - runs immediately, no API needed.
+ * Uses the learned model once one is trained (see loadHumanScoreModels),
+ * otherwise splits the heuristic score across the breakdown.
  */
 export function scoreLocally(
   userMessage: string,
@@ -178,6 +221,20 @@ export function scoreLocally(
 
   const { score, issues } = quickHumannessScore(userMessage, aiResponse, fullCtx);
 
+  const model = getActiveHumanScoreModel();
+  if (model) {
+    const predicted = predictHumanScore(model, {
+      userMessage,
+      aiResponse,
+      context: toExchangeContext(ctx),
+    });
+    return {
+      ...predicted,
+      issues,
+      suggestions: issues.map(i => `Fix: ${i}`),
+    };
+  }
+
   // Build breakdown (simplified local version)
   const breakdown: HumannessScoreBreakdown = {
     naturalLanguage: Math.min(15, Math.floor(score * 0.15)),
@@ -350,9 +407,12 @@ export async function scoreExchange(
   ctx: Partial<ConversationContext>,
   options?: {
     apiKey?: string;
+    /** Keep the exchange on-device (no Claude scoring or audit), e.g. local provider replies */
     skipClaude?: boolean;
   }
 ): Promise<HumannessScore> {
+  await loadHumanScoreModels();
+
   // Always do local scoring first (fast, no API)
   const localScore = scoreLocally(userMessage, aiResponse, ctx);
 
@@ -362,27 +422,36 @@ export async function scoreExchange(
     timestamp: new Date().toISOString(),
     userMessage,
     aiResponse,
-    context: {
-      userEnergy: ctx.userEnergy ?? 'medium',
-      userMood: ctx.userMood ?? 'neutral',
-      messageCount: ctx.messageCount ?? 1,
-      hourOfDay: ctx.hourOfDay ?? new Date().getHours(),
-    },
+    context: toExchangeContext(ctx),
     score: localScore,
     scoredBy: 'local',
+    modelVersion: getActiveHumanScoreModel()?.version,
   };
 
   await saveScoredExchange(localExchange);
 
-  // If API key provided and not skipping, also do Claude scoring in background
+  // If API key provided and not skipping, also do Claude scoring in background.
+  // Once local scoring is trusted Claude only scores an audit sample.
   if (options?.apiKey && !options.skipClaude) {
-    // Don't await - run in background
-    scoreWithClaudeBackground(userMessage, aiResponse, ctx, options.apiKey);
+    const localTrusted = isLocalScorerTrusted();
+    if (!localTrusted || Math.random() < AUDIT_RATE) {
+      // Don't await - run in background
+      scoreWithClaudeBackground(userMessage, aiResponse, ctx, options.apiKey, localTrusted ? localScore : undefined);
+    }
   }
 
   return localScore;
 }
 
+function toExchangeContext(ctx: Partial<ConversationContext>): ScoredExchange['context'] {
+  return {
+    userEnergy: ctx.userEnergy ?? 'medium',
+    userMood: ctx.userMood ?? 'neutral',
+    messageCount: ctx.messageCount ?? 1,
+    hourOfDay: ctx.hourOfDay ?? new Date().getHours(),
+  };
+}
+
 /**
  * Background Claude scoring (doesn't block)
  */
@@ -390,7 +459,8 @@ async function scoreWithClaudeBackground(
   userMessage: string,
   aiResponse: string,
   ctx: Partial<ConversationContext>,
-  apiKey: string
+  apiKey: string,
+  auditedScore?: HumannessScore
 ): Promise<void> {
   try {
     const claudeScore = await scoreWithClaude(userMessage, aiResponse, ctx, apiKey);
@@ -401,17 +471,17 @@ async function scoreWithClaudeBackground(
         timestamp: new Date().toISOString(),
         userMessage,
         aiResponse,
-        context: {
-          userEnergy: ctx.userEnergy ?? 'medium',
-          userMood: ctx.userMood ?? 'neutral',
-          messageCount: ctx.messageCount ?? 1,
-          hourOfDay: ctx.hourOfDay ?? new Date().getHours(),
-        },
+        context: toExchangeContext(ctx),
         score: claudeScore,
         scoredBy: 'claude',
       };
 
       await saveScoredExchange(claudeExchange);
+
+      if (auditedScore) {
+        await recordHumanScoreAudit(Math.abs(auditedScore.total - claudeScore.total) <= TOTAL_TOLERANCE);
+      }
+      await maybeRetrainLocalScorer();
     }
   } catch (error) {
     console.error('[HumanScore] Background scoring failed:', error);
@@ -485,7 +555,6 @@ export async function canTrainLocalScorer(): Promise<{
   needed: number;
 }> {
   const stats = await getScoreStats();
-  const MINIMUM_FOR_TRAINING = 500;
 
   return {
     ready: stats.claudeScoreCount >= MINIMUM_FOR_TRAINING,
@@ -493,3 +562,94 @@ export async function canTrainLocalScorer(): Promise<{
     needed: MINIMUM_FOR_TRAINING,
   };
 }
+
+// ============================================
+// LOCAL SCORER TRAINING
+// ============================================
+
+export interface LocalScorerStatus {
+  /** Who scores exchanges now; 'local' means Claude only audits */
+  mode: 'claude' | 'local';
+  model: HumanScoreModel | null;
+  audits: { count: number; agreement: number };
+  threshold: number;
+}
+
+function isUsableLabel(exchange: ScoredExchange): boolean {
+  return (
+    exchange.scoredBy === 'claude' &&
+    typeof exchange.score?.total === 'number' &&
+    typeof exchange.score.breakdown === 'object' &&
+    exchange.score.breakdown !== null
+  );
+}
+
+/**
+ * Local scoring is trusted when the active model's cross-validated
+ * agreement passes the threshold and live audits haven't fallen below it
+ */
+function isLocalScorerTrusted(): boolean {
+  const model = getActiveHumanScoreModel();
+  if (!model || model.crossValidation.agreement < AGREEMENT_THRESHOLD) return false;
+  const audits = getHumanScoreAudits();
+  return audits.count < MIN_AUDITS || audits.agreement >= AGREEMENT_THRESHOLD;
+}
+
+/**
+ * Train a new model version from the stored Claude scores
+ */
+export async function trainLocalScorer(): Promise<{ success: boolean; error?: string; model?: HumanScoreModel }> {
+  const labeled = (await getScoredExchanges()).filter(isUsableLabel);
+  if (labeled.length < MINIMUM_FOR_TRAINING) {
+    return { success: false, error: `Need ${MINIMUM_FOR_TRAINING} Claude-scored exchanges, have ${labeled.length}` };
+  }
+
+  try {
+    const stats = await getScoreStats();
+    const model = await saveHumanScoreModel(trainHumanScoreModel(labeled, stats.claudeScoreCount));
+    info('services', 'Local human-ness scorer trained', {
+      version: model.version,
+      examples: model.examples,
+      agreement: model.crossValidation.agreement,
+      trusted: model.crossValidation.agreement >= AGREEMENT_THRESHOLD,
+    }, 'humanScoreService');
+    return { success: true, model };
+  } catch (error) {
+    await logError('services', 'Local human-ness scorer training failed', { error: String(error) }, 'humanScoreService');
+    return { success: false, error: 'Training failed' };
+  }
+}
+
+let retraining: Promise<unknown> | null = null;
+
+/**
+ * Train the first model once there are enough labels, then again every
+ * RETRAIN_EVERY new Claude scores
+ */
+async function maybeRetrainLocalScorer(): Promise<void> {
+  await loadHumanScoreModels();
+  const model = getActiveHumanScoreModel();
+  const { claudeScoreCount } = await getScoreStats();
+  const due = model
+    ? claudeScoreCount - model.labelCount >= RETRAIN_EVERY
+    : claudeScoreCount >= MINIMUM_FOR_TRAINING;
+  if (due && !retraining) {
+    retraining = trainLocalScorer().finally(() => {
+      retraining = null;
+    });
+    await retraining;
+  }
+}
+
+/**
+ * Current scorer, active model and live audit agreement
+ */
+export async function getLocalScorerStatus(): Promise<LocalScorerStatus> {
+  await loadHumanScoreModels();
+  return {
+    mode: isLocalScorerTrusted() ? 'local' : 'claude',
+    model: getActiveHumanScoreModel(),
+    audits: getHumanScoreAudits(),
+    threshold: AGREEMENT_THRESHOLD,
+  };
+}
@@ -13,6 +13,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, warn, error as logError, startTimer, endTimer } from './loggingService';
 import { getAllLogEntries } from './quickLogsService';
+import { getEventMoodStats, EventMoodStats } from './eventCoachingService';
 
 // ============================================
 // INSIGHT TYPES
@@ -70,15 +71,17 @@ export interface Insight {
   // Actionable
   suggestedExperiment?: string;     // "Try going to bed earlier for a week"
   relatedTwigIds?: string[];        // Twigs that contributed to this insight
+  experimentIds?: string[];         // N-of-1 experiments run on this insight
+  strengthOffset?: number;          // Strength steps from experiments, kept when analysis recalculates
 }
 
 export interface InsightEvidence {
   id: string;
-  type: 'twig' | 'conversation' | 'pattern' | 'calendar' | 'behavior';
+  type: 'twig' | 'conversation' | 'pattern' | 'calendar' | 'behavior' | 'experiment';
   sourceId: string;                 // ID of the twig/conversation/etc
   description: string;              // What this evidence shows
   timestamp: string;
-  weight: number;                   // How strongly this supports the insight
+  weight: number;                   // How strongly this supports the insight (negative = contradicts)
 }
 
 // ============================================
@@ -720,6 +723,74 @@ export async function updateInsightSettings(settings: Partial<InsightSettings>):
   await AsyncStorage.setItem(STORAGE_KEYS.INSIGHT_SETTINGS, JSON.stringify(updated));
 }
 
+// ============================================
+// EXPERIMENT FEEDBACK
+// ============================================
+
+const STRENGTH_ORDER: InsightStrength[] = ['emerging', 'developing', 'established', 'strong'];
+const MAX_EVIDENCE = 10;
+
+function clampStrengthIndex(index: number): number {
+  return Math.max(0, Math.min(STRENGTH_ORDER.length - 1, index));
+}
+
+/**
+ * Strength from how often the pattern repeated, moved by any experiment results
+ */
+function strengthWithOffset(timesReinforced: number, strengthOffset: number = 0): InsightStrength {
+  return STRENGTH_ORDER[clampStrengthIndex(STRENGTH_ORDER.indexOf(calculateStrength(timesReinforced)) + strengthOffset)];
+}
+
+/**
+ * Keep the last MAX_EVIDENCE points, plus every experiment result
+ * (they're rare and are what the strength offset rests on)
+ */
+function trimEvidence(evidence: InsightEvidence[]): InsightEvidence[] {
+  const recent = new Set(evidence.filter(e => e.type !== 'experiment').slice(-MAX_EVIDENCE));
+  return evidence.filter(e => e.type === 'experiment' || recent.has(e));
+}
+
+/**
+ * Attach evidence from outside the analysis run (e.g. an N-of-1 experiment)
+ * and move the insight's strength up or down by whole steps
+ */
+export async function addInsightEvidence(
+  insightId: string,
+  evidence: Omit<InsightEvidence, 'id'>,
+  adjustment: { strengthSteps: number; confidenceDelta: number }
+): Promise<Insight | null> {
+  const insights = await getInsights();
+  const insight = insights.find(i => i.id === insightId);
+  if (!insight) return null;
+
+  const strengthIndex = clampStrengthIndex(STRENGTH_ORDER.indexOf(insight.strength) + adjustment.strengthSteps);
+  const maxOffset = STRENGTH_ORDER.length - 1;
+  const strengthOffset = Math.max(-maxOffset, Math.min(maxOffset, (insight.strengthOffset || 0) + adjustment.strengthSteps));
+  const newEvidence: InsightEvidence = {
+    ...evidence,
+    id: `ev_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  };
+  const experimentIds = evidence.type === 'experiment'
+    ? Array.from(new Set([...(insight.experimentIds || []), evidence.sourceId]))
+    : insight.experimentIds;
+
+  const updated: Insight = {
+    ...insight,
+    evidence: trimEvidence([...insight.evidence, newEvidence]),
+    strength: STRENGTH_ORDER[strengthIndex],
+    strengthOffset,
+    confidence: Math.max(0.1, Math.min(0.95, insight.confidence + adjustment.confidenceDelta)),
+    lastUpdatedAt: new Date().toISOString(),
+    experimentIds,
+  };
+
+  await AsyncStorage.setItem(
+    STORAGE_KEYS.INSIGHTS,
+    JSON.stringify(insights.map(i => (i.id === insightId ? updated : i)))
+  );
+  return updated;
+}
+
 // ============================================
 // INSIGHT DISCOVERY
 // ============================================
@@ -869,10 +940,10 @@ export async function runInsightAnalysis(
       // Update existing insight with new evidence
       const updated = {
         ...existing,
-        evidence: [...existing.evidence, ...result.evidence].slice(-10), // Keep last 10 evidence points
+        evidence: trimEvidence([...existing.evidence, ...result.evidence]),
         timesReinforced: existing.timesReinforced + 1,
         lastUpdatedAt: new Date().toISOString(),
-        strength: calculateStrength(existing.timesReinforced + 1),
+        strength: strengthWithOffset(existing.timesReinforced + 1, existing.strengthOffset),
         confidence: Math.min(existing.confidence + 0.05, 0.95),
       };
       updatedInsights.push(updated);
@@ -910,12 +981,14 @@ async function runHeuristicAnalysis(
   dataSources?: InsightDataSources
 ): Promise<Insight[]> {
   const insights: Insight[] = [];
+  const eventMoodStats = await getEventMoodStats();
 
   // Need at least some data to analyze
   const hasEnoughData =
     (twigs && twigs.length >= 3) ||
     (dataSources?.calendarEvents && dataSources.calendarEvents.length >= 5) ||
-    (dataSources?.contacts && dataSources.contacts.length >= 5);
+    (dataSources?.contacts && dataSources.contacts.length >= 5) ||
+    eventMoodStats.some(s => s.events >= MIN_EVENTS_FOR_PATTERN);
 
   if (!hasEnoughData) {
     console.log('[Insights] Not enough data for analysis');
@@ -943,6 +1016,9 @@ async function runHeuristicAnalysis(
     insights.push(...calendarInsights);
   }
 
+  // Look for mood shifts after kinds of events (post-meeting dips, etc.)
+  insights.push(...analyzeEventMoodPatterns(eventMoodStats));
+
   // Look for contact/social patterns
   if (dataSources?.contacts) {
     const contactInsights = analyzeContactPatterns(dataPoints, dataSources.contacts);
@@ -1249,6 +1325,47 @@ function analyzeCalendarPatterns(dataPoints: DataPoint[]): Insight[] {
   return insights;
 }
 
+const MIN_EVENTS_FOR_PATTERN = 3;
+/** Sentiment difference (on the -1..1 scale) worth mentioning */
+const EVENT_MOOD_THRESHOLD = 0.2;
+
+/**
+ * Analyze mood after each kind of calendar event against the usual mood
+ */
+function analyzeEventMoodPatterns(stats: EventMoodStats[]): Insight[] {
+  const insights: Insight[] = [];
+
+  for (const stat of stats) {
+    if (stat.events < MIN_EVENTS_FOR_PATTERN || Math.abs(stat.afterDelta) < EVENT_MOOD_THRESHOLD) continue;
+    const dips = stat.afterDelta < 0;
+
+    insights.push({
+      id: `insight_event_mood_${stat.type}_${Date.now()}`,
+      category: dips ? 'trigger' : 'recovery',
+      title: dips ? `Dips after ${stat.label}` : `Lift after ${stat.label}`,
+      description: dips
+        ? `Your mood tends to dip after ${stat.label}, compared with your usual. They might take more out of you than it seems.`
+        : `You tend to feel better than usual after ${stat.label}. Whatever happens there seems to suit you.`,
+      evidence: [],
+      strength: stat.events >= 8 ? 'established' : 'developing',
+      sentiment: dips ? 'cautionary' : 'positive',
+      discoveredAt: new Date().toISOString(),
+      lastUpdatedAt: new Date().toISOString(),
+      timesReinforced: stat.events,
+      isNew: true,
+      isAcknowledged: false,
+      mentionedInConversation: false,
+      source: 'statistical',
+      confidence: Math.min(0.5 + stat.events / 20 + Math.abs(stat.afterDelta) / 2, 0.85),
+      suggestedExperiment: dips
+        ? `Try leaving 15 minutes after your next few ${stat.label} for a walk or a quick debrief.`
+        : undefined,
+    });
+  }
+
+  return insights;
+}
+
 /**
  * Analyze contact/social patterns
  */
@@ -1689,6 +1806,7 @@ export default {
   acknowledgeInsight,
   acknowledgeAllInsights,
   recordInsightReaction,
+  addInsightEvidence,
 
   // Settings
   getInsightSettings,
@@ -0,0 +1,658 @@
+/**
+ * Journal Search Service
+ *
+ * On-device full-text search over journal entries.
+ * All data stays on device (Mood Leaf Ethics).
+ *
+ * Keeps an inverted index (term -> entry -> positions) in AsyncStorage
+ * that journalStorage updates on every save, update and delete. Each
+ * change is appended as a small per-entry delta; the full index is only
+ * rewritten when the delta log is compacted.
+ *
+ * Query syntax:
+ * - plain words:          walk sister         (all words must match)
+ * - phrases:              "couldn't sleep"
+ * - prefixes:             anx*                (anxious, anxiety, ...)
+ * - mood filter:          mood:negative
+ * - date filters:         after:2024-01-01 before:2024-02-01
+ * - tag filter:           tag:coffee          (detected food / quick-log tags)
+ *
+ * Results are ranked with BM25 so rarer words and denser matches
+ * float to the top.
+ */
+
+import EncryptedStorage, { subscribeStorageScope } from './encryptedStorage';
+import { JournalEntry } from '@/types/JournalEntry';
+import { FOOD_KEYWORDS } from '@/types/FoodTracking';
+import { MoodCategory } from './sentimentAnalysis';
+import { getAllEntries, getEntryById } from './journalStorage';
+import { getAllQuickLogs } from './quickLogsService';
+import { info, error as logError, startTimer, endTimer } from './loggingService';
+
+// Storage keys
+const SEARCH_INDEX_KEY = '@moodling/journal_search_index';
+const SEARCH_DELTA_PREFIX = '@moodling/journal_search_delta/';
+const SEARCH_INDEX_VERSION = 2;
+
+// Fold the delta log back into the index after this many changes
+const COMPACT_AFTER_DELTAS = 50;
+
+// BM25 tuning
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const DEFAULT_RESULT_LIMIT = 20;
+const SNIPPET_RADIUS = 60;
+
+// Latin letters (incl. accented) and digits; apostrophes allowed inside words
+const TOKEN_PATTERN = /[a-z0-9\u00c0-\u024f]+(?:'[a-z0-9\u00c0-\u024f]+)*/g;
+
+const MOOD_VALUES: MoodCategory[] = [
+  'very_positive',
+  'positive',
+  'slightly_positive',
+  'neutral',
+  'slightly_negative',
+  'negative',
+  'very_negative',
+];
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Per-entry metadata kept alongside the postings
+ */
+interface IndexedDocument {
+  createdAt: string;
+  mood?: MoodCategory;
+  /** Number of tokens in the entry */
+  length: number;
+  /** Detected tags, e.g. "food:pizza_slice", "log:took_meds" */
+  tags: string[];
+  /** Distinct terms in the entry, so removal only touches its own postings */
+  terms: string[];
+}
+
+interface SearchIndex {
+  version: number;
+  docs: Record<string, IndexedDocument>;
+  /** term -> entryId -> token positions */
+  postings: Record<string, Record<string, number[]>>;
+  totalLength: number;
+  /** Last delta already folded into this snapshot */
+  compactedThrough: number;
+}
+
+/**
+ * One entry's change since the last compaction.
+ * Replaces whatever the index held for the entry; doc is null for deletes.
+ */
+interface IndexDelta {
+  entryId: string;
+  doc: IndexedDocument | null;
+  /** term -> token positions within the entry */
+  positions: Record<string, number[]>;
+}
+
+export interface SearchFilters {
+  moods?: MoodCategory[];
+  /** Inclusive lower bound (ISO date or datetime) */
+  from?: string;
+  /** Inclusive upper bound (ISO date or datetime) */
+  to?: string;
+  /** Tag names, with or without kind prefix ("coffee" or "food:coffee") */
+  tags?: string[];
+}
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  prefixes: string[];
+  phrases: string[][];
+  filters: SearchFilters;
+}
+
+export interface SearchResult {
+  entryId: string;
+  score: number;
+  createdAt: string;
+  mood?: MoodCategory;
+  tags: string[];
+  snippet: string;
+  entry: JournalEntry;
+}
+
+export interface SearchOptions {
+  filters?: SearchFilters;
+  limit?: number;
+}
+
+// ============================================
+// TOKENIZING & TAGGING
+// ============================================
+
+/**
+ * Split text into lowercase word tokens (keeps apostrophes inside words)
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[\u2018\u2019]/g, "'").match(TOKEN_PATTERN) || [];
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().trim().replace(/[^a-z0-9\u00c0-\u024f]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+async function loadQuickLogNames(): Promise<string[]> {
+  try {
+    const quickLogs = await getAllQuickLogs();
+    return quickLogs.map((q) => q.name);
+  } catch {
+    // Quick logs are optional context for tagging
+    return [];
+  }
+}
+
+const FOOD_KEYWORD_TOKENS = FOOD_KEYWORDS.map((mapping) => ({
+  foodId: mapping.foodId,
+  keywords: mapping.keywords.map(tokenize).filter((tokens) => tokens.length > 0),
+}));
+
+/**
+ * Whole-word match that also accepts plurals and possessives
+ * ("taco" matches "tacos", "wendy" matches "wendy's", "tea" never matches "steak")
+ */
+function wordMatches(token: string, word: string): boolean {
+  return token === word || token === `${word}s` || token === `${word}es` || token === `${word}'s`;
+}
+
+function containsWords(tokens: string[], words: string[]): boolean {
+  for (let start = 0; start + words.length <= tokens.length; start++) {
+    if (words.every((word, offset) => wordMatches(tokens[start + offset], word))) return true;
+  }
+  return false;
+}
+
+function tagText(text: string, quickLogNames: string[]): string[] {
+  const tokens = tokenize(text);
+  const tags = new Set<string>();
+
+  for (const mapping of FOOD_KEYWORD_TOKENS) {
+    if (mapping.keywords.some((keyword) => containsWords(tokens, keyword))) {
+      tags.add(`food:${mapping.foodId}`);
+    }
+  }
+
+  for (const name of quickLogNames) {
+    const nameTokens = tokenize(name);
+    if (nameTokens.join(' ').length >= 3 && containsWords(tokens, nameTokens)) {
+      tags.add(`log:${slugify(name)}`);
+    }
+  }
+
+  return Array.from(tags);
+}
+
+/**
+ * Detect food and quick-log tags mentioned in an entry
+ */
+export async function detectEntryTags(text: string): Promise<string[]> {
+  return tagText(text, await loadQuickLogNames());
+}
+
+// ============================================
+// INDEX STORAGE
+// ============================================
+
+let indexCache: SearchIndex | null = null;
+let indexPromise: Promise<SearchIndex> | null = null;
+let writeQueue: Promise<unknown> = Promise.resolve();
+/** Sequence number of the newest delta written */
+let deltaSeq = 0;
+/** Deltas written since the last compaction */
+let pendingDeltas = 0;
+
+subscribeStorageScope(() => {
+  indexCache = null;
+  indexPromise = null;
+  deltaSeq = 0;
+  pendingDeltas = 0;
+});
+
+function createEmptyIndex(): SearchIndex {
+  return { version: SEARCH_INDEX_VERSION, docs: {}, postings: {}, totalLength: 0, compactedThrough: 0 };
+}
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+function entryDelta(entry: JournalEntry, tags: string[]): IndexDelta {
+  const tokens = tokenize(entry.text);
+  const positions: Record<string, number[]> = {};
+  tokens.forEach((token, position) => {
+    (positions[token] ||= []).push(position);
+  });
+  return {
+    entryId: entry.id,
+    doc: {
+      createdAt: entry.createdAt,
+      mood: entry.sentiment?.mood,
+      length: tokens.length,
+      tags,
+      terms: Object.keys(positions),
+    },
+    positions,
+  };
+}
+
+function removeFromIndex(index: SearchIndex, entryId: string): void {
+  const doc = index.docs[entryId];
+  if (!doc) return;
+  for (const term of doc.terms) {
+    const postings = index.postings[term];
+    if (!postings) continue;
+    delete postings[entryId];
+    if (Object.keys(postings).length === 0) delete index.postings[term];
+  }
+  index.totalLength -= doc.length;
+  delete index.docs[entryId];
+}
+
+function applyDelta(index: SearchIndex, delta: IndexDelta): void {
+  removeFromIndex(index, delta.entryId);
+  if (!delta.doc) return;
+  for (const [term, positions] of Object.entries(delta.positions)) {
+    (index.postings[term] ||= {})[delta.entryId] = positions;
+  }
+  index.docs[delta.entryId] = delta.doc;
+  index.totalLength += delta.doc.length;
+}
+
+async function loadDeltaKeys(): Promise<{ key: string; seq: number }[]> {
+  const keys = await EncryptedStorage.getAllKeys();
+  return keys
+    .filter((key) => key.startsWith(SEARCH_DELTA_PREFIX))
+    .map((key) => ({ key, seq: Number(key.slice(SEARCH_DELTA_PREFIX.length)) }))
+    .filter(({ seq }) => Number.isInteger(seq))
+    .sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Apply deltas written after the stored snapshot, in order
+ */
+async function replayDeltas(index: SearchIndex): Promise<void> {
+  const deltaKeys = (await loadDeltaKeys()).filter(({ seq }) => seq > index.compactedThrough);
+  const pairs = await EncryptedStorage.multiGet(deltaKeys.map(({ key }) => key));
+  for (const [, value] of pairs) {
+    if (value) applyDelta(index, JSON.parse(value) as IndexDelta);
+  }
+  deltaSeq = Math.max(index.compactedThrough, ...deltaKeys.map(({ seq }) => seq));
+  pendingDeltas = deltaKeys.length;
+}
+
+/**
+ * Write the whole index as a new snapshot and drop the delta log.
+ * Replaying a leftover delta is harmless: each one replaces a whole entry.
+ */
+async function compactIndex(index: SearchIndex): Promise<void> {
+  const deltaKeys = await loadDeltaKeys();
+  deltaSeq = Math.max(deltaSeq, ...deltaKeys.map(({ seq }) => seq));
+  index.compactedThrough = deltaSeq;
+  await EncryptedStorage.setItem(SEARCH_INDEX_KEY, JSON.stringify(index));
+  if (deltaKeys.length > 0) {
+    await EncryptedStorage.multiRemove(deltaKeys.map(({ key }) => key));
+  }
+  pendingDeltas = 0;
+  indexCache = index;
+}
+
+/**
+ * Persist one entry's change without rewriting the whole index
+ */
+async function appendDelta(index: SearchIndex, delta: IndexDelta): Promise<void> {
+  if (pendingDeltas + 1 >= COMPACT_AFTER_DELTAS) {
+    await compactIndex(index);
+    return;
+  }
+  deltaSeq += 1;
+  await EncryptedStorage.setItem(`${SEARCH_DELTA_PREFIX}${deltaSeq}`, JSON.stringify(delta));
+  pendingDeltas += 1;
+}
+
+/**
+ * Load the index, rebuilding it from journal storage when missing
+ */
+function ensureIndex(): Promise<SearchIndex> {
+  if (indexCache) return Promise.resolve(indexCache);
+  if (!indexPromise) {
+    indexPromise = (async () => {
+      const stored = await EncryptedStorage.getItem(SEARCH_INDEX_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored) as SearchIndex;
+        if (parsed.version === SEARCH_INDEX_VERSION) {
+          await replayDeltas(parsed);
+          indexCache = parsed;
+          return parsed;
+        }
+      }
+      return buildIndex();
+    })().finally(() => {
+      indexPromise = null;
+    });
+  }
+  return indexPromise;
+}
+
+async function buildIndex(): Promise<SearchIndex> {
+  const timerId = startTimer('Build journal search index', 'storage');
+  const entries = await getAllEntries();
+  const quickLogNames = await loadQuickLogNames();
+  const index = createEmptyIndex();
+  for (const entry of entries) {
+    applyDelta(index, entryDelta(entry, tagText(entry.text, quickLogNames)));
+  }
+  await compactIndex(index);
+  await endTimer(timerId, { entriesIndexed: entries.length });
+  await info('storage', 'Journal search index built', { entriesIndexed: entries.length });
+  return index;
+}
+
+/**
+ * Add or refresh an entry in the search index.
+ * Called by journalStorage after saves and updates.
+ */
+export async function indexEntry(entry: JournalEntry): Promise<void> {
+  try {
+    await enqueueWrite(async () => {
+      const index = await ensureIndex();
+      const delta = entryDelta(entry, await detectEntryTags(entry.text));
+      applyDelta(index, delta);
+      await appendDelta(index, delta);
+    });
+  } catch (error: any) {
+    // A stale search index must never block journaling
+    console.error('[journalSearch] Failed to index entry:', error);
+    await logError('storage', 'Failed to index journal entry', { error: error.message, entryId: entry.id });
+  }
+}
+
+/**
+ * Remove an entry from the search index.
+ * Called by journalStorage after deletes.
+ */
+export async function removeEntryFromIndex(entryId: string): Promise<void> {
+  try {
+    await enqueueWrite(async () => {
+      const index = await ensureIndex();
+      if (!index.docs[entryId]) return;
+      const delta: IndexDelta = { entryId, doc: null, positions: {} };
+      applyDelta(index, delta);
+      await appendDelta(index, delta);
+    });
+  } catch (error: any) {
+    console.error('[journalSearch] Failed to remove entry from index:', error);
+    await logError('storage', 'Failed to remove journal entry from search index', { error: error.message, entryId });
+  }
+}
+
+/**
+ * Drop and rebuild the whole index from journal storage
+ */
+export async function rebuildSearchIndex(): Promise<number> {
+  return enqueueWrite(async () => {
+    indexCache = null;
+    const index = await buildIndex();
+    return Object.keys(index.docs).length;
+  });
+}
+
+/**
+ * Remove the index entirely (used when all entries are cleared)
+ */
+export async function clearSearchIndex(): Promise<void> {
+  await enqueueWrite(async () => {
+    const deltaKeys = await loadDeltaKeys();
+    await EncryptedStorage.multiRemove([SEARCH_INDEX_KEY, ...deltaKeys.map(({ key }) => key)]);
+    indexCache = createEmptyIndex();
+    pendingDeltas = 0;
+  });
+}
+
+// ============================================
+// QUERY PARSING
+// ============================================
+
+/**
+ * Parse a user query into terms, prefixes, phrases and filters
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], prefixes: [], phrases: [], filters: {} };
+
+  // Pull out quoted phrases first
+  const withoutPhrases = query.replace(/"([^"]+)"/g, (_, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length === 1) parsed.terms.push(tokens[0]);
+    else if (tokens.length > 1) parsed.phrases.push(tokens);
+    return ' ';
+  });
+
+  for (const part of withoutPhrases.split(/\s+/).filter(Boolean)) {
+    const filterMatch = part.match(/^(mood|tag|after|before|from|to):(.+)$/i);
+    if (filterMatch) {
+      const [, key, rawValue] = filterMatch;
+      const value = rawValue.toLowerCase();
+      switch (key.toLowerCase()) {
+        case 'mood': {
+          // "mood:negative" also matches slightly/very negative
+          const moods = MOOD_VALUES.filter((m) => m.includes(value));
+          if (moods.length > 0) {
+            parsed.filters.moods = [...(parsed.filters.moods || []), ...moods];
+          } else {
+            // Not a mood we track ("mood:happy"): search for the word instead
+            parsed.terms.push(...tokenize(rawValue));
+          }
+          break;
+        }
+        case 'tag':
+          parsed.filters.tags = [...(parsed.filters.tags || []), value];
+          break;
+        case 'after':
+        case 'from':
+          parsed.filters.from = value;
+          break;
+        case 'before':
+        case 'to':
+          parsed.filters.to = value;
+          break;
+      }
+      continue;
+    }
+
+    if (part.endsWith('*')) {
+      const [prefix] = tokenize(part.slice(0, -1));
+      if (prefix) parsed.prefixes.push(prefix);
+      continue;
+    }
+
+    parsed.terms.push(...tokenize(part));
+  }
+
+  return parsed;
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+function matchesFilters(doc: IndexedDocument, filters: SearchFilters): boolean {
+  if (filters.moods && filters.moods.length > 0) {
+    if (!doc.mood || !filters.moods.includes(doc.mood)) return false;
+  }
+  if (filters.from && doc.createdAt < filters.from) return false;
+  if (filters.to) {
+    // A bare date ("2024-02-01") includes the whole day
+    const upper = filters.to.length === 10 ? `${filters.to}T23:59:59.999Z` : filters.to;
+    if (doc.createdAt > upper) return false;
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    const wanted = filters.tags.map((t) => t.toLowerCase());
+    const hasTag = wanted.every((tag) =>
+      doc.tags.some((docTag) => docTag === tag || docTag.split(':')[1] === slugify(tag))
+    );
+    if (!hasTag) return false;
+  }
+  return true;
+}
+
+function bm25(termFrequency: number, docFrequency: number, docLength: number, index: SearchIndex): number {
+  const docCount = Object.keys(index.docs).length;
+  const avgLength = docCount > 0 ? index.totalLength / docCount : 1;
+  const idf = Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+  const norm = termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * (docLength / avgLength));
+  return idf * ((termFrequency * (BM25_K1 + 1)) / norm);
+}
+
+/**
+ * Positions where the whole phrase occurs in a document
+ */
+function phrasePositions(index: SearchIndex, phrase: string[], entryId: string): number[] {
+  const first = index.postings[phrase[0]]?.[entryId];
+  if (!first) return [];
+  return first.filter((start) =>
+    phrase.every((token, offset) => index.postings[token]?.[entryId]?.includes(start + offset))
+  );
+}
+
+function buildSnippet(text: string, needles: string[]): string {
+  const lowerText = text.toLowerCase();
+  let hit = -1;
+  for (const needle of needles) {
+    hit = lowerText.indexOf(needle);
+    if (hit !== -1) break;
+  }
+  if (hit === -1) {
+    return text.length > SNIPPET_RADIUS * 2 ? `${text.slice(0, SNIPPET_RADIUS * 2).trim()}...` : text;
+  }
+  const start = Math.max(0, hit - SNIPPET_RADIUS);
+  const end = Math.min(text.length, hit + SNIPPET_RADIUS);
+  return `${start > 0 ? '...' : ''}${text.slice(start, end).trim()}${end < text.length ? '...' : ''}`;
+}
+
+/**
+ * Search journal entries.
+ * Accepts the query syntax described at the top of this file; explicit
+ * filters in options are merged with any inline filters.
+ */
+export async function searchEntries(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+  const timerId = startTimer('Search journal', 'storage');
+  try {
+    const index = await ensureIndex();
+    const parsed = parseSearchQuery(query);
+    const filters: SearchFilters = { ...parsed.filters, ...options.filters };
+    const limit = options.limit ?? DEFAULT_RESULT_LIMIT;
+
+    const hasTextQuery = parsed.terms.length + parsed.prefixes.length + parsed.phrases.length > 0;
+    const scores = new Map<string, number>();
+
+    // Start from every doc passing the filters, then intersect each clause
+    let candidates = Object.keys(index.docs).filter((id) => matchesFilters(index.docs[id], filters));
+
+    for (const term of parsed.terms) {
+      const postings = index.postings[term] || {};
+      const docFrequency = Object.keys(postings).length;
+      candidates = candidates.filter((id) => postings[id]);
+      for (const id of candidates) {
+        const score = bm25(postings[id].length, docFrequency, index.docs[id].length, index);
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    for (const prefix of parsed.prefixes) {
+      const expansions = Object.keys(index.postings).filter((term) => term.startsWith(prefix));
+      const perDoc = new Map<string, number>();
+      for (const term of expansions) {
+        const postings = index.postings[term];
+        const docFrequency = Object.keys(postings).length;
+        for (const id of Object.keys(postings)) {
+          const score = bm25(postings[id].length, docFrequency, index.docs[id]?.length ?? 0, index);
+          perDoc.set(id, Math.max(perDoc.get(id) || 0, score));
+        }
+      }
+      candidates = candidates.filter((id) => perDoc.has(id));
+      for (const id of candidates) {
+        scores.set(id, (scores.get(id) || 0) + (perDoc.get(id) || 0));
+      }
+    }
+
+    for (const phrase of parsed.phrases) {
+      const matches = new Map<string, number>();
+      for (const id of candidates) {
+        const count = phrasePositions(index, phrase, id).length;
+        if (count > 0) matches.set(id, count);
+      }
+      const docFrequency = matches.size;
+      candidates = candidates.filter((id) => matches.has(id));
+      for (const id of candidates) {
+        // Phrases outrank the same words scattered through an entry
+        const score = bm25(matches.get(id) || 0, docFrequency, index.docs[id].length, index) * phrase.length;
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    const ranked = candidates
+      .map((id) => ({ id, score: scores.get(id) || 0 }))
+      .sort((a, b) =>
+        hasTextQuery && b.score !== a.score
+          ? b.score - a.score
+          : index.docs[b.id].createdAt.localeCompare(index.docs[a.id].createdAt)
+      )
+      .slice(0, limit);
+
+    const needles = [...parsed.phrases.map((p) => p.join(' ')), ...parsed.terms, ...parsed.prefixes];
+    const results: SearchResult[] = [];
+    for (const { id, score } of ranked) {
+      const entry = await getEntryById(id);
+      if (!entry) continue;
+      const doc = index.docs[id];
+      results.push({
+        entryId: id,
+        score,
+        createdAt: doc.createdAt,
+        mood: doc.mood,
+        tags: doc.tags,
+        snippet: buildSnippet(entry.text, needles),
+        entry,
+      });
+    }
+
+    await endTimer(timerId, { resultCount: results.length });
+    return results;
+  } catch (error: any) {
+    console.error('[journalSearch] Search failed:', error);
+    await logError('storage', 'Journal search failed', { error: error.message });
+    await endTimer(timerId, { error: error.message });
+    return [];
+  }
+}
+
+/**
+ * All tags currently present in the index with entry counts
+ */
+export async function getSearchTags(): Promise<{ tag: string; count: number }[]> {
+  try {
+    const index = await ensureIndex();
+    const counts = new Map<string, number>();
+    for (const doc of Object.values(index.docs)) {
+      for (const tag of doc.tags) counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+    return Array.from(counts.entries())
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count);
+  } catch (error) {
+    console.error('[journalSearch] Failed to load tags:', error);
+    return [];
+  }
+}
@@ -8,13 +8,325 @@
  * - Works on iOS, Android, and Web
  * - Simple key-value storage
  * - Data persists across app restarts
+ * - Values are encrypted at rest (encryptedStorage)
+ *
+ * Storage layout (v2):
+ * - One record per entry under `@moodling/journal_entry/<id>`
+ * - A small index under `@moodling/journal_index` with a date index
+ *   (newest first) and a mood index, so writes touch one entry plus
+ *   the index instead of re-serializing the whole history
+ * - Cursor-based pagination over the date index
+ * - Every write keeps the full-text search index in sync
+ *
+ * Entries stored under the legacy single-array key are migrated once,
+ * and the migration is verified against the entry count before the
+ * legacy key is removed.
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import EncryptedStorage, { subscribeStorageScope } from './encryptedStorage';
 import { JournalEntry, parseJournalEntry } from '@/types/JournalEntry';
+import { MoodCategory } from './sentimentAnalysis';
+import { indexEntry, removeEntryFromIndex, clearSearchIndex, rebuildSearchIndex } from './journalSearchService';
 import { log, info, warn, error as logError, startTimer, endTimer } from './loggingService';
 
-const STORAGE_KEY = '@moodling/journal_entries';
+// Storage keys
+const LEGACY_STORAGE_KEY = '@moodling/journal_entries';
+const ENTRY_KEY_PREFIX = '@moodling/journal_entry/';
+const INDEX_KEY = '@moodling/journal_index';
+const MIGRATION_KEY = '@moodling/journal_migrated_v2';
+
+const INDEX_VERSION = 2;
+const DEFAULT_PAGE_SIZE = 20;
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Lightweight record kept in the index for every entry
+ */
+export interface JournalIndexRecord {
+  id: string;
+  createdAt: string;
+  mood?: MoodCategory;
+  /** Last edit; missing on records indexed before edits were tracked */
+  updatedAt?: string;
+}
+
+/**
+ * Persisted index document
+ */
+interface JournalIndex {
+  version: number;
+  /** All entries, newest first (createdAt desc, then id desc) */
+  byDate: JournalIndexRecord[];
+  /** Entry IDs per mood, in the same order as byDate */
+  byMood: Partial<Record<MoodCategory, string[]>>;
+}
+
+export interface JournalPageOptions {
+  /** Cursor returned by a previous page (omit for the first page) */
+  cursor?: string | null;
+  /** Page size (default 20) */
+  limit?: number;
+  /** Only include entries with this mood */
+  mood?: MoodCategory;
+}
+
+export interface JournalPage {
+  entries: JournalEntry[];
+  /** Pass to the next call to continue, null when there are no more entries */
+  nextCursor: string | null;
+  /** Total entries matching the query (ignoring pagination) */
+  total: number;
+}
+
+export interface JournalMigrationResult {
+  migrated: boolean;
+  legacyCount: number;
+  migratedCount: number;
+}
+
+// ============================================
+// INDEX HELPERS
+// ============================================
+
+let indexCache: JournalIndex | null = null;
+let readyPromise: Promise<JournalIndex> | null = null;
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Switching to or from the decoy journal invalidates the cached index
+subscribeStorageScope(() => {
+  indexCache = null;
+  readyPromise = null;
+});
+
+function entryKey(id: string): string {
+  return `${ENTRY_KEY_PREFIX}${id}`;
+}
+
+function createEmptyIndex(): JournalIndex {
+  return { version: INDEX_VERSION, byDate: [], byMood: {} };
+}
+
+/**
+ * Ordering used by the date index: newest first, ties broken by id
+ */
+function compareRecords(a: { createdAt: string; id: string }, b: { createdAt: string; id: string }): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? 1 : -1;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? 1 : -1;
+}
+
+function toIndexRecord(entry: JournalEntry): JournalIndexRecord {
+  return { id: entry.id, createdAt: entry.createdAt, mood: entry.sentiment?.mood, updatedAt: entry.updatedAt };
+}
+
+function buildMoodIndex(byDate: JournalIndexRecord[]): JournalIndex['byMood'] {
+  const byMood: JournalIndex['byMood'] = {};
+  for (const record of byDate) {
+    if (!record.mood) continue;
+    (byMood[record.mood] ||= []).push(record.id);
+  }
+  return byMood;
+}
+
+function buildIndex(entries: JournalEntry[]): JournalIndex {
+  const byDate = entries.map(toIndexRecord).sort(compareRecords);
+  return { version: INDEX_VERSION, byDate, byMood: buildMoodIndex(byDate) };
+}
+
+/**
+ * First position in byDate whose record sorts at or after the target
+ */
+function lowerBound(records: JournalIndexRecord[], target: { createdAt: string; id: string }): number {
+  let lo = 0;
+  let hi = records.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (compareRecords(records[mid], target) < 0) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function insertRecord(index: JournalIndex, record: JournalIndexRecord): void {
+  const position = lowerBound(index.byDate, record);
+  index.byDate.splice(position, 0, record);
+  if (record.mood) {
+    const ids = index.byMood[record.mood] || [];
+    // Keep the mood list in date order by counting earlier records with the same mood
+    let moodPosition = 0;
+    for (let i = 0; i < position; i++) {
+      if (index.byDate[i].mood === record.mood) moodPosition++;
+    }
+    ids.splice(moodPosition, 0, record.id);
+    index.byMood[record.mood] = ids;
+  }
+}
+
+function removeRecord(index: JournalIndex, id: string): JournalIndexRecord | null {
+  const position = index.byDate.findIndex((r) => r.id === id);
+  if (position === -1) return null;
+  const [record] = index.byDate.splice(position, 1);
+  if (record.mood) {
+    const ids = (index.byMood[record.mood] || []).filter((moodId) => moodId !== id);
+    if (ids.length > 0) index.byMood[record.mood] = ids;
+    else delete index.byMood[record.mood];
+  }
+  return record;
+}
+
+function encodeCursor(record: JournalIndexRecord): string {
+  return `${record.createdAt}|${record.id}`;
+}
+
+function decodeCursor(cursor: string): { createdAt: string; id: string } | null {
+  const separator = cursor.indexOf('|');
+  if (separator === -1) return null;
+  return { createdAt: cursor.slice(0, separator), id: cursor.slice(separator + 1) };
+}
+
+async function readIndexFromStorage(): Promise<JournalIndex | null> {
+  const stored = await EncryptedStorage.getItem(INDEX_KEY);
+  if (!stored) return null;
+  const parsed = JSON.parse(stored) as JournalIndex;
+  return {
+    version: parsed.version ?? INDEX_VERSION,
+    byDate: parsed.byDate || [],
+    byMood: parsed.byMood || buildMoodIndex(parsed.byDate || []),
+  };
+}
+
+async function persistIndex(index: JournalIndex): Promise<void> {
+  await EncryptedStorage.setItem(INDEX_KEY, JSON.stringify(index));
+  indexCache = index;
+}
+
+/**
+ * Run storage writes one at a time so concurrent saves can't
+ * clobber each other's index updates
+ */
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Load the index, migrating legacy storage the first time
+ */
+function ensureReady(): Promise<JournalIndex> {
+  if (indexCache) return Promise.resolve(indexCache);
+  if (!readyPromise) {
+    readyPromise = (async () => {
+      const migrated = await EncryptedStorage.getItem(MIGRATION_KEY);
+      if (!migrated) {
+        await runLegacyMigration();
+      }
+      const index = (await readIndexFromStorage()) || createEmptyIndex();
+      indexCache = index;
+      return index;
+    })().catch((error) => {
+      // Allow a retry on the next call instead of caching the failure
+      readyPromise = null;
+      throw error;
+    });
+  }
+  return readyPromise;
+}
+
+async function loadEntries(ids: string[]): Promise<JournalEntry[]> {
+  if (ids.length === 0) return [];
+  const pairs = await EncryptedStorage.multiGet(ids.map(entryKey));
+  const entries: JournalEntry[] = [];
+  for (const [, value] of pairs) {
+    if (!value) continue;
+    entries.push(parseJournalEntry(JSON.parse(value) as JournalEntry));
+  }
+  return entries;
+}
+
+// ============================================
+// MIGRATION
+// ============================================
+
+/**
+ * Move entries from the legacy single-array key into per-entry records.
+ * The legacy key is only removed once the new index reports the same
+ * number of entries and every record can be read back.
+ */
+async function runLegacyMigration(): Promise<JournalMigrationResult> {
+  const stored = await EncryptedStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) {
+    await EncryptedStorage.setItem(MIGRATION_KEY, new Date().toISOString());
+    return { migrated: false, legacyCount: 0, migratedCount: 0 };
+  }
+
+  const timerId = startTimer('Migrate journal entries', 'storage');
+  const legacy = (JSON.parse(stored) as JournalEntry[]).map(parseJournalEntry);
+
+  // De-duplicate by id (newest copy wins, matching legacy newest-first order)
+  const unique = new Map<string, JournalEntry>();
+  for (const entry of legacy) {
+    if (!unique.has(entry.id)) unique.set(entry.id, entry);
+  }
+  const entries = Array.from(unique.values());
+
+  // Merge with anything already written in the new layout
+  const existing = (await readIndexFromStorage()) || createEmptyIndex();
+  const index = buildIndex(entries);
+  for (const record of existing.byDate) {
+    if (!unique.has(record.id)) insertRecord(index, record);
+  }
+
+  await EncryptedStorage.multiSet(entries.map((e) => [entryKey(e.id), JSON.stringify(e)] as [string, string]));
+  await EncryptedStorage.setItem(INDEX_KEY, JSON.stringify(index));
+
+  // Verify against what getEntryCount() will report
+  const verifiedIndex = await readIndexFromStorage();
+  const expectedCount = index.byDate.length;
+  const indexedCount = verifiedIndex?.byDate.length ?? 0;
+  const readBack = await EncryptedStorage.multiGet(entries.map((e) => entryKey(e.id)));
+  const missing = readBack.filter(([, value]) => !value).length;
+
+  if (indexedCount !== expectedCount || missing > 0) {
+    await logError('storage', 'Journal migration verification failed', {
+      legacyCount: entries.length,
+      indexedCount,
+      missing,
+    });
+    await endTimer(timerId, { error: 'verification failed' });
+    throw new Error('Journal migration verification failed');
+  }
+
+  await EncryptedStorage.multiSet([[MIGRATION_KEY, new Date().toISOString()]]);
+  await EncryptedStorage.removeItem(LEGACY_STORAGE_KEY);
+
+  await endTimer(timerId, { migratedCount: entries.length });
+  await info('storage', 'Journal entries migrated to indexed storage', {
+    legacyCount: legacy.length,
+    migratedCount: entries.length,
+  });
+
+  return { migrated: true, legacyCount: legacy.length, migratedCount: entries.length };
+}
+
+/**
+ * Run the legacy migration explicitly (normally happens on first access)
+ */
+export async function migrateLegacyEntries(): Promise<JournalMigrationResult> {
+  return enqueueWrite(async () => {
+    const result = await runLegacyMigration();
+    indexCache = null;
+    readyPromise = null;
+    return result;
+  });
+}
+
+// ============================================
+// CRUD
+// ============================================
 
 /**
  * Save a new entry to storage
@@ -22,10 +334,21 @@ const STORAGE_KEY = '@moodling/journal_entries';
 export async function saveEntry(entry: JournalEntry): Promise<void> {
   const timerId = startTimer('Save journal entry', 'storage');
   try {
-    const entries = await getAllEntries();
-    const updatedEntries = [entry, ...entries]; // Newest first
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedEntries));
-    await endTimer(timerId, { entryId: entry.id, totalEntries: updatedEntries.length });
+    const totalEntries = await enqueueWrite(async () => {
+      const index = await ensureReady();
+      const next: JournalIndex = {
+        ...index,
+        byDate: [...index.byDate],
+        byMood: { ...index.byMood },
+      };
+      removeRecord(next, entry.id);
+      insertRecord(next, toIndexRecord(entry));
+      await EncryptedStorage.setItem(entryKey(entry.id), JSON.stringify(entry));
+      await persistIndex(next);
+      return next.byDate.length;
+    });
+    await indexEntry(entry);
+    await endTimer(timerId, { entryId: entry.id, totalEntries });
     await info('storage', 'Journal entry saved', { entryId: entry.id });
   } catch (error: any) {
     // Errors are sacred - log and rethrow
@@ -37,19 +360,16 @@ export async function saveEntry(entry: JournalEntry): Promise<void> {
 }
 
 /**
- * Get all entries from storage
+ * Get all entries from storage (newest first)
+ *
+ * Prefer getEntriesPage / getEntriesBetween for lists that don't need
+ * the full history.
  */
 export async function getAllEntries(): Promise<JournalEntry[]> {
   const timerId = startTimer('Load journal entries', 'storage');
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEY);
-    if (!stored) {
-      await endTimer(timerId, { entriesLoaded: 0 });
-      return [];
-    }
-
-    const parsed = JSON.parse(stored) as JournalEntry[];
-    const entries = parsed.map(parseJournalEntry);
+    const index = await ensureReady();
+    const entries = await loadEntries(index.byDate.map((r) => r.id));
     await endTimer(timerId, { entriesLoaded: entries.length });
     return entries;
   } catch (error: any) {
@@ -61,13 +381,112 @@ export async function getAllEntries(): Promise<JournalEntry[]> {
   }
 }
 
+/**
+ * Get one page of entries, newest first
+ */
+export async function getEntriesPage(options: JournalPageOptions = {}): Promise<JournalPage> {
+  const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE);
+  try {
+    const index = await ensureReady();
+    let records = index.byDate;
+
+    if (options.mood) {
+      const moodIds = new Set(index.byMood[options.mood] || []);
+      records = records.filter((r) => moodIds.has(r.id));
+    }
+
+    let start = 0;
+    if (options.cursor) {
+      const after = decodeCursor(options.cursor);
+      if (after) {
+        start = lowerBound(records, after);
+        if (start < records.length && records[start].id === after.id) start++;
+      }
+    }
+
+    const pageRecords = records.slice(start, start + limit);
+    const entries = await loadEntries(pageRecords.map((r) => r.id));
+    const hasMore = start + limit < records.length;
+
+    return {
+      entries,
+      nextCursor: hasMore && pageRecords.length > 0 ? encodeCursor(pageRecords[pageRecords.length - 1]) : null,
+      total: records.length,
+    };
+  } catch (error: any) {
+    console.error('[journalStorage] Failed to load entry page:', error);
+    await logError('storage', 'Failed to load journal entry page', { error: error.message });
+    return { entries: [], nextCursor: null, total: 0 };
+  }
+}
+
+/**
+ * Get entries created between two dates (inclusive), newest first.
+ * Supports the same cursor/limit options as getEntriesPage.
+ */
+export async function getEntriesBetween(
+  start: Date | string,
+  end: Date | string,
+  options: Omit<JournalPageOptions, 'mood'> = {}
+): Promise<JournalPage> {
+  const startIso = typeof start === 'string' ? start : start.toISOString();
+  const endIso = typeof end === 'string' ? end : end.toISOString();
+  try {
+    const index = await ensureReady();
+    // Date index is newest first, so the range runs from `end` down to `start`
+    const from = lowerBound(index.byDate, { createdAt: endIso, id: '\uffff' });
+    let to = from;
+    while (to < index.byDate.length && index.byDate[to].createdAt >= startIso) to++;
+    const records = index.byDate.slice(from, to);
+
+    let offset = 0;
+    if (options.cursor) {
+      const after = decodeCursor(options.cursor);
+      if (after) {
+        offset = lowerBound(records, after);
+        if (offset < records.length && records[offset].id === after.id) offset++;
+      }
+    }
+
+    const limit = options.limit ?? records.length;
+    const pageRecords = records.slice(offset, offset + limit);
+    const entries = await loadEntries(pageRecords.map((r) => r.id));
+    const hasMore = offset + limit < records.length;
+
+    return {
+      entries,
+      nextCursor: hasMore && pageRecords.length > 0 ? encodeCursor(pageRecords[pageRecords.length - 1]) : null,
+      total: records.length,
+    };
+  } catch (error: any) {
+    console.error('[journalStorage] Failed to load entries in range:', error);
+    await logError('storage', 'Failed to load journal entries in range', { error: error.message });
+    return { entries: [], nextCursor: null, total: 0 };
+  }
+}
+
+/**
+ * Get the date index (id, createdAt, mood, updatedAt) without loading
+ * entry text. Useful for streaks, counts and spotting edited entries.
+ */
+export async function getEntryIndex(): Promise<JournalIndexRecord[]> {
+  try {
+    const index = await ensureReady();
+    return index.byDate.map((r) => ({ ...r }));
+  } catch (error) {
+    console.error('[journalStorage] Failed to load entry index:', error);
+    return [];
+  }
+}
+
 /**
  * Get a single entry by ID
  */
 export async function getEntryById(id: string): Promise<JournalEntry | null> {
   try {
-    const entries = await getAllEntries();
-    return entries.find((e) => e.id === id) || null;
+    await ensureReady();
+    const stored = await EncryptedStorage.getItem(entryKey(id));
+    return stored ? parseJournalEntry(JSON.parse(stored) as JournalEntry) : null;
   } catch (error) {
     console.error('[journalStorage] Failed to get entry:', error);
     return null;
@@ -82,20 +501,29 @@ export async function updateEntry(
   updates: Partial<Pick<JournalEntry, 'text'>>
 ): Promise<void> {
   try {
-    const entries = await getAllEntries();
-    const index = entries.findIndex((e) => e.id === id);
+    const updated = await enqueueWrite(async () => {
+      const index = await ensureReady();
+      const existing = await getEntryById(id);
 
-    if (index === -1) {
-      throw new Error('Entry not found');
-    }
+      if (!existing) {
+        throw new Error('Entry not found');
+      }
 
-    entries[index] = {
-      ...entries[index],
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
+      const updated: JournalEntry = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
 
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+      // Text-only updates keep the entry's place in the index; only the edit time changes
+      await EncryptedStorage.setItem(entryKey(id), JSON.stringify(updated));
+      await persistIndex({
+        ...index,
+        byDate: index.byDate.map((r) => (r.id === id ? { ...r, updatedAt: updated.updatedAt } : r)),
+      });
+      return updated;
+    });
+    await indexEntry(updated);
   } catch (error) {
     console.error('[journalStorage] Failed to update entry:', error);
     throw new Error('Failed to update journal entry');
@@ -107,21 +535,67 @@ export async function updateEntry(
  */
 export async function deleteEntry(id: string): Promise<void> {
   try {
-    const entries = await getAllEntries();
-    const filtered = entries.filter((e) => e.id !== id);
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    await enqueueWrite(async () => {
+      const index = await ensureReady();
+      const next: JournalIndex = {
+        ...index,
+        byDate: [...index.byDate],
+        byMood: { ...index.byMood },
+      };
+      if (!removeRecord(next, id)) return;
+      await EncryptedStorage.removeItem(entryKey(id));
+      await persistIndex(next);
+    });
+    await removeEntryFromIndex(id);
   } catch (error) {
     console.error('[journalStorage] Failed to delete entry:', error);
     throw new Error('Failed to delete journal entry');
   }
 }
 
+/**
+ * Insert or replace many entries in one write (used by sync and import).
+ * Entries are stored as given, including their timestamps.
+ */
+export async function upsertEntries(entries: JournalEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const timerId = startTimer('Upsert journal entries', 'storage');
+  try {
+    await enqueueWrite(async () => {
+      const index = await ensureReady();
+      const next: JournalIndex = {
+        ...index,
+        byDate: [...index.byDate],
+        byMood: { ...index.byMood },
+      };
+      for (const entry of entries) {
+        removeRecord(next, entry.id);
+        insertRecord(next, toIndexRecord(entry));
+      }
+      await EncryptedStorage.multiSet(entries.map((e) => [entryKey(e.id), JSON.stringify(e)] as [string, string]));
+      await persistIndex(next);
+    });
+    await rebuildSearchIndex();
+    await endTimer(timerId, { upserted: entries.length });
+  } catch (error: any) {
+    console.error('[journalStorage] Failed to upsert entries:', error);
+    await logError('storage', 'Failed to upsert journal entries', { error: error.message, count: entries.length });
+    await endTimer(timerId, { error: error.message });
+    throw new Error('Failed to save journal entries');
+  }
+}
+
 /**
  * Get entry count (useful for insights)
  */
 export async function getEntryCount(): Promise<number> {
-  const entries = await getAllEntries();
-  return entries.length;
+  try {
+    const index = await ensureReady();
+    return index.byDate.length;
+  } catch (error) {
+    console.error('[journalStorage] Failed to count entries:', error);
+    return 0;
+  }
 }
 
 /**
@@ -129,7 +603,15 @@ export async function getEntryCount(): Promise<number> {
  */
 export async function clearAllEntries(): Promise<void> {
   try {
-    await AsyncStorage.removeItem(STORAGE_KEY);
+    await enqueueWrite(async () => {
+      const allKeys = await EncryptedStorage.getAllKeys();
+      const entryKeys = allKeys.filter((k) => k.startsWith(ENTRY_KEY_PREFIX));
+      await EncryptedStorage.multiRemove([...entryKeys, INDEX_KEY, LEGACY_STORAGE_KEY]);
+      await EncryptedStorage.setItem(MIGRATION_KEY, new Date().toISOString());
+      indexCache = createEmptyIndex();
+      readyPromise = null;
+    });
+    await clearSearchIndex();
   } catch (error) {
     console.error('[journalStorage] Failed to clear entries:', error);
     throw new Error('Failed to clear journal entries');
@@ -142,8 +624,8 @@ export async function clearAllEntries(): Promise<void> {
  */
 export async function getRecentJournalContextForClaude(): Promise<string> {
   try {
-    const entries = await getAllEntries();
-    if (entries.length === 0) return '';
+    const records = await getEntryIndex();
+    if (records.length === 0) return '';
 
     const parts: string[] = ['RECENT JOURNAL ENTRIES (what user actually wrote):'];
 
@@ -151,13 +633,11 @@ export async function getRecentJournalContextForClaude(): Promise<string> {
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
-    const recentEntries = entries.filter(
-      e => new Date(e.createdAt) >= sevenDaysAgo
-    );
+    const { entries: recentEntries } = await getEntriesBetween(sevenDaysAgo, new Date());
 
     if (recentEntries.length === 0) {
       // Show last 3 entries if none in past week
-      const lastEntries = entries.slice(0, 3);
+      const { entries: lastEntries } = await getEntriesPage({ limit: 3 });
       parts.push('\n  (No entries in past week. Showing most recent:)');
 
       for (const entry of lastEntries) {
@@ -210,7 +690,7 @@ export async function getRecentJournalContextForClaude(): Promise<string> {
     }
 
     // Add total count
-    parts.push(`  Total journal entries all time: ${entries.length}`);
+    parts.push(`  Total journal entries all time: ${records.length}`);
 
     // Add journaling streak info
     // Helper to get local date as YYYY-MM-DD (avoids UTC timezone issues)
@@ -226,14 +706,14 @@ export async function getRecentJournalContextForClaude(): Promise<string> {
     const yesterdayDate = new Date(now);
     yesterdayDate.setDate(yesterdayDate.getDate() - 1);
     const yesterday = getLocalDate(yesterdayDate);
-    const hasToday = entries.some(e => e.createdAt.startsWith(today));
-    const hasYesterday = entries.some(e => e.createdAt.startsWith(yesterday));
+    const hasToday = records.some(r => r.createdAt.startsWith(today));
+    const hasYesterday = records.some(r => r.createdAt.startsWith(yesterday));
 
     let streak = 0;
     const checkDate = new Date();
     for (let i = 0; i < 365; i++) {
       const dateStr = getLocalDate(checkDate);
-      const hasEntry = entries.some(e => e.createdAt.startsWith(dateStr));
+      const hasEntry = records.some(r => r.createdAt.startsWith(dateStr));
       if (hasEntry) {
         streak++;
         checkDate.setDate(checkDate.getDate() - 1);
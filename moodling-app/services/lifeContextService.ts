@@ -11,13 +11,16 @@
  * - No diagnostic labels
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import EncryptedStorage, { subscribeStorageScope } from './encryptedStorage';
 import { log, info, warn, error as logError, startTimer, endTimer } from './loggingService';
-import { getAllEntries } from './journalStorage';
+import { getAllEntries, getEntryById, getEntryIndex, JournalIndexRecord } from './journalStorage';
+import { addRelationship, getLongTermMemory, RelationshipEntry } from './memoryTierService';
 import { JournalEntry } from '@/types/JournalEntry';
 
 const LIFE_CONTEXT_KEY = 'moodling_life_context';
 const LAST_PROCESSED_KEY = 'moodling_life_context_last_processed';
+const LIFE_CONTEXT_EXTRACTIONS_KEY = 'moodling_life_context_extractions';
+const PERSON_ALIASES_KEY = 'moodling_life_context_aliases';
 
 /**
  * A tracked topic in the user's life
@@ -49,6 +52,7 @@ export interface ExtractedEntity {
   type: 'person' | 'age' | 'location' | 'medication' | 'duration' | 'sobriety';
   value: string;
   detail?: string; // e.g., dosage for medication, role for person
+  aliases?: string[]; // Other names a person was mentioned by ("my mother", "mum")
   firstMentioned: string;
   lastMentioned: string;
   mentionCount: number;
@@ -103,7 +107,7 @@ export interface LifeContext {
 const EXTRACTION_PATTERNS = {
   // People - names often follow these patterns
   person: [
-    /\b(?:my|our)\s+(mom|dad|mother|father|brother|sister|grandma|grandpa|grandmother|grandfather|aunt|uncle|cousin|husband|wife|boyfriend|girlfriend|partner|friend|boss|coworker|therapist|doctor|counselor|psychiatrist|son|daughter)\b/gi,
+    /\b(?:my|our)\s+(mom|mum|dad|mother|father|brother|sister|grandma|grandpa|grandmother|grandfather|nana|granny|aunt|uncle|cousin|husband|wife|boyfriend|girlfriend|partner|friend|boss|coworker|therapist|doctor|counselor|psychiatrist|son|daughter)\b/gi,
     /\b([A-Z][a-z]+)\s+(?:and I|told me|said|called|texted|messaged)/g,
     /\bwith\s+([A-Z][a-z]+)\b/g,
     /\b([A-Z][a-z]+)'s\s+(?:birthday|house|place|car|dog|cat|funeral|wedding)/g,
@@ -207,7 +211,7 @@ const EXTRACTION_PATTERNS = {
  */
 const ENTITY_PATTERNS = {
   // Named person: "my therapist Dr. Chen", "my partner Sarah"
-  namedPerson: /\b(?:my\s+)?(mom|dad|partner|husband|wife|brother|sister|friend|boss|therapist|doctor|girlfriend|boyfriend)\s+([A-Z][a-z]+)/gi,
+  namedPerson: /\b(?:my\s+)?(mom|mum|mother|dad|father|grandma|grandpa|partner|husband|wife|brother|sister|friend|boss|therapist|doctor|girlfriend|boyfriend)\s+([A-Z][a-z]+)/gi,
 
   // Age mentions: "I'm 34", "turned 30"
   age: /\b(?:i'm|i am|turned|turning)\s+(\d{1,2})\b/gi,
@@ -364,7 +368,8 @@ function extractTopicsFromText(text: string): Array<{ name: string; category: Li
     if (textLower.includes(term)) {
       // Try to extract the name that follows
       const nameMatch = text.match(new RegExp(`(?:my\\s+)?${term}[,]?\\s+([A-Z][a-z]+)`, 'i'));
-      if (nameMatch) {
+      // Case-insensitive, so make sure it's a capitalized name and not "my partner about..."
+      if (nameMatch && /^[A-Z]/.test(nameMatch[1])) {
         topics.push({ name: `${nameMatch[1]} (${term})`, category: 'person' });
       } else {
         topics.push({ name: term, category: 'relationship' });
@@ -481,7 +486,8 @@ function extractEntities(text: string, entryDate: string): ExtractedEntity[] {
   let match;
   const personRegex = new RegExp(ENTITY_PATTERNS.namedPerson.source, 'gi');
   while ((match = personRegex.exec(text)) !== null) {
-    if (match[2]) {
+    // The pattern is case-insensitive for the role, so check the name is capitalized
+    if (match[2] && /^[A-Z]/.test(match[2])) {
       entities.push({
         type: 'person',
         value: match[2],
@@ -611,7 +617,7 @@ function updateSeverity(context: LifeContext, level: SeveritySnapshot['level'],
  */
 export async function getLifeContext(): Promise<LifeContext | null> {
   try {
-    const data = await AsyncStorage.getItem(LIFE_CONTEXT_KEY);
+    const data = await EncryptedStorage.getItem(LIFE_CONTEXT_KEY);
     return data ? JSON.parse(data) : null;
   } catch (error) {
     console.error('Failed to load life context:', error);
@@ -624,25 +630,288 @@ export async function getLifeContext(): Promise<LifeContext | null> {
  */
 async function saveLifeContext(context: LifeContext): Promise<void> {
   try {
-    await AsyncStorage.setItem(LIFE_CONTEXT_KEY, JSON.stringify(context));
-    await AsyncStorage.setItem(LAST_PROCESSED_KEY, new Date().toISOString());
+    await EncryptedStorage.setItem(LIFE_CONTEXT_KEY, JSON.stringify(context));
+    await EncryptedStorage.setItem(LAST_PROCESSED_KEY, new Date().toISOString());
   } catch (error) {
     console.error('Failed to save life context:', error);
   }
 }
 
+// ============================================
+// ENTITY RESOLUTION
+// ============================================
+
+/**
+ * Family words that always mean the same person. The first spelling
+ * is how they're shown.
+ */
+const KINSHIP_ALIASES: Record<string, string[]> = {
+  Mom: ['mom', 'mother', 'mum', 'mommy', 'mummy', 'mama', 'momma'],
+  Dad: ['dad', 'father', 'daddy', 'papa', 'pops'],
+  Grandma: ['grandma', 'grandmother', 'granny', 'gran', 'nana', 'nan'],
+  Grandpa: ['grandpa', 'grandfather', 'granddad', 'grandad', 'gramps'],
+};
+
+/** Capitalized words the name patterns pick up that aren't people */
+const NOT_PEOPLE = new Set([
+  'i', 'he', 'she', 'they', 'we', 'it', 'you', 'someone', 'everyone', 'nobody', 'then', 'today',
+  'yesterday', 'tomorrow', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+]);
+
+/**
+ * Roles most people have only one of at a time, so "my partner" can
+ * safely mean the partner they named (unlike "my friend")
+ */
+const SINGULAR_ROLES = new Set([
+  'mom', 'dad', 'grandma', 'grandpa', 'husband', 'wife', 'boyfriend', 'girlfriend', 'partner',
+  'fiancé', 'fiancée', 'boss', 'therapist', 'counselor', 'psychiatrist',
+]);
+
+/** Roles worth keeping as a person's relationship in coach memory */
+const ROLE_WORDS = new Set([
+  'mom', 'dad', 'grandma', 'grandpa', 'brother', 'sister', 'aunt', 'uncle', 'cousin', 'husband', 'wife',
+  'boyfriend', 'girlfriend', 'partner', 'fiancé', 'fiancée', 'friend', 'best friend', 'boss', 'coworker',
+  'therapist', 'doctor', 'counselor', 'psychiatrist', 'son', 'daughter',
+]);
+
+const MEMORY_SENTIMENT: Record<LifeTopic['sentiment'], RelationshipEntry['sentiment']> = {
+  positive: 'supportive',
+  negative: 'strained',
+  mixed: 'complicated',
+  neutral: 'neutral',
+};
+
+/** Mentions before a person is shared with coach memory */
+const MIN_MENTIONS_TO_SYNC = 2;
+
+export function normalizePersonName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/^(?:my|our)\s+/, '')
+    .replace(/'s$/, '')
+    .replace(/[^\w\s\u00C0-\u024F-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function kinshipName(key: string): string | undefined {
+  return Object.keys(KINSHIP_ALIASES).find(name => KINSHIP_ALIASES[name].includes(key));
+}
+
+function titleCase(name: string): string {
+  return name.replace(/\b\w/g, c => c.toUpperCase());
+}
+
+/**
+ * Maps every way the user refers to someone onto one name:
+ * user aliases, family words ("mum" → Mom), and roles that belong to
+ * exactly one named person ("my partner" → Sarah)
+ */
+interface PersonResolver {
+  resolve(mention: string): string | null;
+}
+
+function createPersonResolver(
+  aliases: Record<string, string>,
+  namedRoles: Array<{ name: string; role: string }>
+): PersonResolver {
+  const followAliases = (name: string): string => {
+    let current = name;
+    const seen = new Set<string>();
+    while (aliases[normalizePersonName(current)] && !seen.has(current)) {
+      seen.add(current);
+      current = aliases[normalizePersonName(current)];
+    }
+    return current;
+  };
+
+  // A role only stands for a name when it's never been used for anyone else
+  const roleOwners = new Map<string, Set<string>>();
+  for (const { name, role } of namedRoles) {
+    const normalizedRole = normalizePersonName(role);
+    if (!SINGULAR_ROLES.has(normalizedRole)) continue;
+    const roleKey = kinshipName(normalizedRole) || normalizedRole;
+    const owners = roleOwners.get(roleKey) || new Set<string>();
+    owners.add(followAliases(name));
+    roleOwners.set(roleKey, owners);
+  }
+
+  return {
+    resolve(mention: string): string | null {
+      const key = normalizePersonName(mention);
+      if (!key || NOT_PEOPLE.has(key) || /^\d+$/.test(key)) return null;
+      if (aliases[key]) return followAliases(aliases[key]);
+
+      const roleKey = kinshipName(key) || key;
+      const owners = roleOwners.get(roleKey);
+      if (owners && owners.size === 1) return [...owners][0];
+
+      const kin = kinshipName(key);
+      if (kin) return followAliases(kin);
+      // Keep the user's own capitalization of names
+      const cleaned = mention.trim().replace(/^(?:my|our)\s+/i, '').replace(/'s$/, '');
+      return followAliases(/^[A-Z]/.test(cleaned) ? cleaned : titleCase(key));
+    },
+  };
+}
+
+/**
+ * Get user-defined aliases (normalized alias → name)
+ */
+export async function getPersonAliases(): Promise<Record<string, string>> {
+  try {
+    const data = await EncryptedStorage.getItem(PERSON_ALIASES_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error('Failed to load person aliases:', error);
+    return {};
+  }
+}
+
+/**
+ * Say that `alias` is another way of referring to `name`
+ * ("mum" → "Linda", "Sam" → "Samantha"). Merges the two in the life
+ * context straight away.
+ */
+export async function addPersonAlias(alias: string, name: string): Promise<LifeContext | null> {
+  const key = normalizePersonName(alias);
+  const target = name.trim();
+  if (!key || !target || key === normalizePersonName(target)) return getLifeContext();
+
+  const aliases = await getPersonAliases();
+  // Don't create a loop back to the alias
+  if (normalizePersonName(createPersonResolver(aliases, []).resolve(target) || target) === key) {
+    return getLifeContext();
+  }
+  aliases[key] = target;
+  await EncryptedStorage.setItem(PERSON_ALIASES_KEY, JSON.stringify(aliases));
+  await info('services', 'Person alias added', { alias: key, name: target }, 'lifeContextService');
+  return buildLifeContext({ reaggregate: true });
+}
+
+/**
+ * Undo an alias, splitting the two back apart
+ */
+export async function removePersonAlias(alias: string): Promise<LifeContext | null> {
+  const key = normalizePersonName(alias);
+  const aliases = await getPersonAliases();
+  if (!(key in aliases)) return getLifeContext();
+  delete aliases[key];
+  await EncryptedStorage.setItem(PERSON_ALIASES_KEY, JSON.stringify(aliases));
+  return buildLifeContext({ reaggregate: true });
+}
+
+/**
+ * People in the life context, with every name they've gone by
+ */
+export async function getPeople(): Promise<ExtractedEntity[]> {
+  const context = await getLifeContext();
+  return (context?.entities || [])
+    .filter(e => e.type === 'person')
+    .sort((a, b) => b.mentionCount - a.mentionCount);
+}
+
+// ============================================
+// INCREMENTAL PROCESSING
+// ============================================
+
+/**
+ * What one entry contributed. Kept per entry so a new or edited entry
+ * only needs its own text re-read; the context is re-aggregated from
+ * these without touching the rest of the journal.
+ */
+interface EntryExtraction {
+  /** updatedAt (or createdAt) from the journal index when processed */
+  version: string;
+  createdAt: string;
+  sentiment: LifeTopic['sentiment'];
+  snippet?: string;
+  topics?: Array<{ name: string; category: LifeTopic['category'] }>;
+  milestone?: LifeMilestone;
+  entities?: ExtractedEntity[];
+  coping?: Array<{ mechanism: string; type: 'healthy' | 'unhealthy' }>;
+  severity?: { level: SeveritySnapshot['level']; indicator: string };
+}
+
+function entryVersion(record: JournalIndexRecord): string {
+  return record.updatedAt || record.createdAt;
+}
+
+/**
+ * Read everything this service tracks out of one entry
+ */
+function extractEntry(entry: JournalEntry, version: string): EntryExtraction {
+  const extraction: EntryExtraction = {
+    version,
+    createdAt: entry.createdAt,
+    sentiment: determineSentiment(entry.sentiment?.mood || 'neutral'),
+  };
+
+  if (entry.text.length > 100) extraction.snippet = entry.text.slice(0, 60) + '...';
+
+  const topics = extractTopicsFromText(entry.text);
+  if (topics.length > 0) extraction.topics = topics;
+
+  const milestone = detectMilestone(entry);
+  if (milestone) extraction.milestone = milestone;
+
+  const entities = extractEntities(entry.text, entry.createdAt);
+  if (entities.length > 0) extraction.entities = entities;
+
+  const coping = extractCopingMechanisms(entry.text);
+  if (coping.length > 0) extraction.coping = coping;
+
+  const severity = detectSeverity(entry.text);
+  if (severity) {
+    extraction.severity = { level: severity, indicator: entry.text.slice(0, 100).split(/[.!?]/)[0] };
+  }
+
+  return extraction;
+}
+
 /**
- * Process a single entry and update context
+ * Fold one entry's extraction into the context
  */
-function processEntry(entry: JournalEntry, context: LifeContext): void {
-  const extractedTopics = extractTopicsFromText(entry.text);
-  const mood = entry.sentiment?.mood || 'neutral';
-  const entryDate = entry.createdAt;
-  const entrySentiment = determineSentiment(mood);
+function applyExtraction(
+  entryId: string,
+  extraction: EntryExtraction,
+  context: LifeContext,
+  resolver: PersonResolver,
+  people: Map<string, { aliases: Set<string>; entryIds: string[] }>
+): void {
+  const entryDate = extraction.createdAt;
+  const entrySentiment = extraction.sentiment;
+
+  const notePerson = (name: string, mention: string) => {
+    const person = people.get(name) || { aliases: new Set<string>(), entryIds: [] };
+    if (mention.toLowerCase() !== name.toLowerCase()) person.aliases.add(mention);
+    if (person.entryIds[person.entryIds.length - 1] !== entryId) person.entryIds.push(entryId);
+    people.set(name, person);
+  };
+
+  // A topic counts once per entry, however many ways it was mentioned
+  const counted = new Set<string>();
+
+  for (const extracted of extraction.topics || []) {
+    let { name, category } = extracted;
+
+    // People (and bare relationship words that point at one) go by one name
+    if (category === 'person' || category === 'relationship') {
+      const roleMatch = name.match(/^(.+?) \((.+)\)$/);
+      const mention = roleMatch ? roleMatch[1] : name;
+      const resolved = resolver.resolve(mention);
+      if (!resolved) continue;
+      if (category === 'person' || normalizePersonName(resolved) !== normalizePersonName(mention)) {
+        notePerson(resolved, mention);
+        name = resolved;
+        category = 'person';
+      }
+    }
 
-  for (const { name, category } of extractedTopics) {
     // Normalize the name for matching
     const normalizedName = name.toLowerCase().trim();
+    if (counted.has(normalizedName)) continue;
+    counted.add(normalizedName);
 
     // Find existing topic
     const existingIndex = context.topics.findIndex(
@@ -667,11 +936,8 @@ function processEntry(entry: JournalEntry, context: LifeContext): void {
       }
 
       // Add note if significant (keep max 3)
-      if (entry.text.length > 100 && topic.notes.length < 3) {
-        const snippet = entry.text.slice(0, 60) + '...';
-        if (!topic.notes.includes(snippet)) {
-          topic.notes.push(snippet);
-        }
+      if (extraction.snippet && topic.notes.length < 3 && !topic.notes.includes(extraction.snippet)) {
+        topic.notes.push(extraction.snippet);
       }
     } else {
       // Create new topic
@@ -682,68 +948,100 @@ function processEntry(entry: JournalEntry, context: LifeContext): void {
         lastMentioned: entryDate,
         mentionCount: 1,
         sentiment: entrySentiment,
-        notes: entry.text.length > 100 ? [entry.text.slice(0, 60) + '...'] : [],
+        notes: extraction.snippet ? [extraction.snippet] : [],
       });
     }
   }
 
-  // Check for milestones
-  const milestone = detectMilestone(entry);
-  if (milestone) {
-    // Avoid duplicate milestones on same day
-    const existingMilestone = context.milestones.find(
-      m => m.date.slice(0, 10) === milestone.date.slice(0, 10)
-    );
-    if (!existingMilestone) {
-      context.milestones.push(milestone);
-    }
+  // Check for milestones (avoid duplicates on the same day)
+  const milestone = extraction.milestone;
+  if (milestone && !context.milestones.some(m => m.date.slice(0, 10) === milestone.date.slice(0, 10))) {
+    context.milestones.push({ ...milestone });
   }
 
-  // Extract and update entities (names, ages, locations, medications)
-  const entities = extractEntities(entry.text, entryDate);
+  // Entities (names, ages, locations, medications); people by their resolved name
+  const entities: ExtractedEntity[] = [];
+  for (const entity of extraction.entities || []) {
+    if (entity.type !== 'person') {
+      entities.push({ ...entity });
+      continue;
+    }
+    const resolved = resolver.resolve(entity.value);
+    if (!resolved) continue;
+    notePerson(resolved, entity.value);
+    entities.push({ ...entity, value: resolved });
+  }
   updateEntities(context, entities);
 
-  // Extract and update coping patterns
-  const copingMechanisms = extractCopingMechanisms(entry.text);
-  updateCopingPatterns(context, copingMechanisms, entryDate);
+  updateCopingPatterns(context, extraction.coping || [], entryDate);
 
-  // Detect and track severity
-  const severity = detectSeverity(entry.text);
-  if (severity) {
-    const indicators = entry.text.slice(0, 100).split(/[.!?]/)[0];
-    updateSeverity(context, severity, entryDate, [indicators]);
+  if (extraction.severity) {
+    updateSeverity(context, extraction.severity.level, entryDate, [extraction.severity.indicator]);
   }
 
   context.totalEntriesProcessed++;
 }
 
 /**
- * Build or update life context from all entries
+ * Build the context from per-entry extractions (oldest first)
  */
-export async function buildLifeContext(): Promise<LifeContext> {
-  const entries = await getAllEntries();
-
-  // Sort by date (oldest first for processing)
-  const sortedEntries = [...entries].sort(
-    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-  );
-
-  // Start fresh or load existing
-  let context: LifeContext = {
+function aggregateLifeContext(
+  extractions: Record<string, EntryExtraction>,
+  aliases: Record<string, string>,
+  memoryPeople: RelationshipEntry[]
+): { context: LifeContext; people: Map<string, { aliases: Set<string>; entryIds: string[] }>; resolver: PersonResolver } {
+  const ordered = Object.entries(extractions).sort(([, a], [, b]) => a.createdAt.localeCompare(b.createdAt));
+
+  // Roles that belong to one named person, from the journal and coach memory
+  const namedRoles = [
+    ...ordered.flatMap(([, e]) =>
+      (e.entities || []).filter(p => p.type === 'person' && p.detail).map(p => ({ name: p.value, role: p.detail! }))
+    ),
+    ...memoryPeople.map(r => ({ name: r.name, role: r.relationship })),
+  ];
+  const resolver = createPersonResolver(aliases, namedRoles);
+  const people = new Map<string, { aliases: Set<string>; entryIds: string[] }>();
+
+  const context: LifeContext = {
     topics: [],
     milestones: [],
     entities: [],
     copingPatterns: [],
     temporalPatterns: [],
     recentSeverity: [],
-    journeyStartDate: sortedEntries[0]?.createdAt || new Date().toISOString(),
+    journeyStartDate: ordered[0]?.[1].createdAt || new Date().toISOString(),
     totalEntriesProcessed: 0,
     lastUpdated: new Date().toISOString(),
   };
 
-  // Process all entries
-  for (const entry of sortedEntries) {
-    processEntry(entry, context);
+  for (const [entryId, extraction] of ordered) {
+    applyExtraction(entryId, extraction, context, resolver, people);
+  }
+
+  // Every person entity carries the other names they were mentioned by
+  for (const [name, person] of people) {
+    let entity = context.entities.find(e => e.type === 'person' && e.value === name);
+    const topic = context.topics.find(t => t.category === 'person' && t.name === name);
+    if (entity && topic) {
+      // The topic counts every mention, not just "my partner Sarah"
+      entity.mentionCount = Math.max(entity.mentionCount, topic.mentionCount);
+      if (topic.firstMentioned < entity.firstMentioned) entity.firstMentioned = topic.firstMentioned;
+      if (topic.lastMentioned > entity.lastMentioned) entity.lastMentioned = topic.lastMentioned;
+    }
+    if (!entity) {
+      if (!topic) continue;
+      entity = {
+        type: 'person',
+        value: name,
+        firstMentioned: topic.firstMentioned,
+        lastMentioned: topic.lastMentioned,
+        mentionCount: topic.mentionCount,
+      };
+      const kin = kinshipName(normalizePersonName(name));
+      if (kin) entity.detail = kin.toLowerCase();
+      context.entities.push(entity);
+    }
+    if (person.aliases.size > 0) entity.aliases = [...person.aliases].slice(0, 8);
   }
 
   // Sort topics by mention count (most mentioned first)
@@ -760,7 +1058,134 @@ export async function buildLifeContext(): Promise<LifeContext> {
   // Keep only top 30 milestones
   context.milestones = context.milestones.slice(0, 30);
 
+  return { context, people, resolver };
+}
+
+/**
+ * Share people mentioned repeatedly with coach memory, so the coach has
+ * one picture of who matters. Existing memory entries (including ones
+ * under another name for the same person) are kept; only their
+ * relationship and a neutral sentiment are filled in.
+ */
+async function syncPeopleToMemory(
+  context: LifeContext,
+  people: Map<string, { aliases: Set<string>; entryIds: string[] }>,
+  resolver: PersonResolver,
+  memoryPeople: RelationshipEntry[]
+): Promise<number> {
+  let synced = 0;
+
+  for (const entity of context.entities) {
+    if (entity.type !== 'person' || entity.mentionCount < MIN_MENTIONS_TO_SYNC) continue;
+    const role = entity.detail && ROLE_WORDS.has(entity.detail.toLowerCase()) ? entity.detail.toLowerCase() : undefined;
+    if (!role) continue;
+
+    const topic = context.topics.find(t => t.category === 'person' && t.name === entity.value);
+    const sentiment = MEMORY_SENTIMENT[topic?.sentiment || 'neutral'];
+    const existing = memoryPeople.find(r => resolver.resolve(r.name) === entity.value || r.name === entity.value);
+
+    const entry: RelationshipEntry = existing
+      ? {
+          ...existing,
+          relationship: existing.relationship || role,
+          sentiment: existing.sentiment === 'neutral' ? sentiment : existing.sentiment,
+        }
+      : { name: entity.value, relationship: role, sentiment };
+    if (existing && existing.relationship === entry.relationship && existing.sentiment === entry.sentiment) continue;
+
+    await addRelationship(entry, {
+      source: 'journal',
+      sourceIds: (people.get(entity.value)?.entryIds || []).slice(-5),
+      confidence: Math.min(0.4 + entity.mentionCount * 0.05, 0.8),
+    });
+    synced++;
+  }
+
+  return synced;
+}
+
+// Parsed once per session; this runs before every coach message
+let extractionsCache: Record<string, EntryExtraction> | null = null;
+
+subscribeStorageScope(() => {
+  extractionsCache = null;
+});
+
+async function loadExtractions(): Promise<Record<string, EntryExtraction>> {
+  if (extractionsCache) return extractionsCache;
+  try {
+    const data = await EncryptedStorage.getItem(LIFE_CONTEXT_EXTRACTIONS_KEY);
+    extractionsCache = data ? JSON.parse(data) : {};
+    return extractionsCache!;
+  } catch (error) {
+    console.error('Failed to load life context extractions:', error);
+    return {};
+  }
+}
+
+/**
+ * Bring the life context up to date. Only new or edited journal entries
+ * are read; deleted ones drop out. With nothing changed the stored
+ * context is returned as is.
+ *
+ * - full: forget every extraction and re-read the whole journal
+ * - reaggregate: rebuild from extractions even if no entry changed
+ *   (after alias changes)
+ */
+export async function buildLifeContext(
+  options: { full?: boolean; reaggregate?: boolean } = {}
+): Promise<LifeContext> {
+  const [index, stored, existing] = await Promise.all([
+    getEntryIndex(),
+    options.full ? Promise.resolve({} as Record<string, EntryExtraction>) : loadExtractions(),
+    getLifeContext(),
+  ]);
+
+  const extractions = { ...stored };
+  const current = new Set(index.map(r => r.id));
+  const removed = Object.keys(extractions).filter(id => !current.has(id));
+  for (const id of removed) delete extractions[id];
+
+  const changed = index.filter(r => extractions[r.id]?.version !== entryVersion(r));
+  if (existing && changed.length === 0 && removed.length === 0 && !options.reaggregate && !options.full) {
+    return existing;
+  }
+
+  const timerId = startTimer('Build life context', 'services');
+
+  // Large batches (first run, full rebuild) read everything in one go
+  const byId = new Map<string, JournalEntry>();
+  if (changed.length > 50) {
+    for (const entry of await getAllEntries()) byId.set(entry.id, entry);
+  } else {
+    for (const record of changed) {
+      const entry = await getEntryById(record.id);
+      if (entry) byId.set(entry.id, entry);
+    }
+  }
+  for (const record of changed) {
+    const entry = byId.get(record.id);
+    if (entry) extractions[record.id] = extractEntry(entry, entryVersion(record));
+  }
+
+  const [aliases, memory] = await Promise.all([getPersonAliases(), getLongTermMemory()]);
+  const memoryPeople = memory.lifeContext.relationships;
+  const { context, people, resolver } = aggregateLifeContext(extractions, aliases, memoryPeople);
+
+  await EncryptedStorage.setItem(LIFE_CONTEXT_EXTRACTIONS_KEY, JSON.stringify(extractions));
+  extractionsCache = extractions;
   await saveLifeContext(context);
+  const synced = await syncPeopleToMemory(context, people, resolver, memoryPeople);
+
+  await endTimer(timerId, { processed: changed.length, removed: removed.length, synced });
+  await info('services', 'Life context updated', {
+    processed: changed.length,
+    removed: removed.length,
+    total: context.totalEntriesProcessed,
+    people: people.size,
+    syncedToMemory: synced,
+  }, 'lifeContextService');
+
   return context;
 }
 
@@ -975,19 +1400,21 @@ function formatTimeAgo(dateStr: string): string {
  * Get formatted life context for Claude
  */
 export async function getLifeContextForClaude(): Promise<string> {
-  let context = await getLifeContext();
-
-  // Build if doesn't exist or is stale
-  if (!context || context.totalEntriesProcessed === 0) {
-    context = await buildLifeContext();
-  }
-
+  // Picks up new or edited entries; cheap when nothing changed
+  const context = await buildLifeContext();
   return formatLifeContextForPrompt(context);
 }
 
 /**
- * Trigger a rebuild of life context (call after new entries)
+ * Process new or edited entries (call after new entries)
  */
 export async function refreshLifeContext(): Promise<void> {
   await buildLifeContext();
 }
+
+/**
+ * Re-read the whole journal from scratch
+ */
+export async function rebuildLifeContext(): Promise<LifeContext> {
+  return buildLifeContext({ full: true });
+}
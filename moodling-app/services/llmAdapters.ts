@@ -0,0 +1,378 @@
+/**
+ * LLM Adapters
+ *
+ * HTTP chat adapters for self-hosted and OpenAI-compatible model
+ * servers. Registered with llmProviderService, which owns the adapter
+ * interface and per-provider configuration.
+ *
+ * - Ollama (native /api/chat, NDJSON streaming)
+ * - OpenAI-compatible /chat/completions (OpenAI, llama.cpp server,
+ *   vLLM, LM Studio...), SSE streaming
+ *
+ * Only type imports from llmProviderService here: it imports this file
+ * at load time to register the adapters.
+ */
+
+import type {
+  LLMChatMessage,
+  LLMChatOptions,
+  LLMChatRequest,
+  LLMChatResult,
+  LLMProvider,
+  LLMProviderAdapter,
+  LLMProviderConfig,
+  LLMProviderError,
+  LLMProviderErrorKind,
+} from './llmProviderService';
+
+// How long a readiness probe may take before the server counts as down
+const READY_TIMEOUT_MS = 2000;
+
+// ============================================
+// ERRORS
+// ============================================
+
+/**
+ * Create a classified provider error
+ */
+export function createProviderError(
+  provider: LLMProvider,
+  kind: LLMProviderErrorKind,
+  message: string,
+  status?: number
+): LLMProviderError {
+  const error = new Error(message) as LLMProviderError;
+  error.provider = provider;
+  error.kind = kind;
+  error.status = status;
+  return error;
+}
+
+/**
+ * Check whether an error came from a provider adapter
+ */
+export function isProviderError(error: unknown): error is LLMProviderError {
+  return error instanceof Error && 'provider' in error && typeof (error as LLMProviderError).kind === 'string';
+}
+
+/**
+ * Map an HTTP status to an error kind
+ */
+export function classifyHttpStatus(status: number): LLMProviderErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status >= 400 && status < 500) return 'bad_request';
+  return 'unavailable';
+}
+
+// ============================================
+// HTTP HELPERS
+// ============================================
+
+/**
+ * fetch that turns aborts, network failures and non-2xx responses into
+ * provider errors
+ */
+export async function providerFetch(
+  provider: LLMProvider,
+  url: string,
+  init: RequestInit,
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createProviderError(provider, 'cancelled', 'Request cancelled');
+    }
+    throw createProviderError(
+      provider,
+      'unavailable',
+      `Could not reach ${provider}: ${error instanceof Error ? error.message : 'network error'}`
+    );
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw createProviderError(
+      provider,
+      classifyHttpStatus(response.status),
+      `${provider} returned ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`,
+      response.status
+    );
+  }
+  return response;
+}
+
+/**
+ * Read a streamed response line by line.
+ * React Native's fetch has no readable body, so there the whole body
+ * is read once and replayed line by line.
+ */
+export async function readLines(
+  response: Response,
+  onLine: (line: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const reader =
+    typeof TextDecoder !== 'undefined' && response.body && typeof response.body.getReader === 'function'
+      ? response.body.getReader()
+      : null;
+
+  if (!reader) {
+    const text = await response.text();
+    for (const line of text.split('\n')) {
+      if (signal?.aborted) return;
+      if (line.trim()) onLine(line.trim());
+    }
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onLine(line);
+      newline = buffer.indexOf('\n');
+    }
+  }
+  if (buffer.trim()) onLine(buffer.trim());
+}
+
+/**
+ * GET a URL and report whether it answered in time
+ */
+async function probe(url: string, headers?: Record<string, string>): Promise<boolean> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), READY_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { headers, signal: controller.signal });
+    return response.ok;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Same ~4 characters per token estimate as llmProviderService.estimateTokens,
+ * used when a server doesn't report usage
+ */
+function approximateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function withSystem(request: LLMChatRequest): { role: string; content: string }[] {
+  const messages: { role: string; content: string }[] = [];
+  if (request.system) {
+    messages.push({ role: 'system', content: request.system });
+  }
+  return messages.concat(request.messages.map((m: LLMChatMessage) => ({ role: m.role, content: m.content })));
+}
+
+function parseJSONLine(provider: LLMProvider, line: string): any {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw createProviderError(provider, 'invalid_response', `Unreadable response from ${provider}`);
+  }
+}
+
+// ============================================
+// OLLAMA
+// ============================================
+
+/**
+ * Ollama's native chat API (http://localhost:11434 by default)
+ */
+export function createOllamaAdapter(): LLMProviderAdapter {
+  const provider: LLMProvider = 'ollama';
+
+  return {
+    provider,
+    defaultConfig: { baseURL: 'http://localhost:11434', model: 'llama3.1' },
+
+    isReady: (config: LLMProviderConfig) => probe(`${config.baseURL}/api/version`),
+
+    chat: async (
+      request: LLMChatRequest,
+      config: LLMProviderConfig,
+      options: LLMChatOptions = {}
+    ): Promise<LLMChatResult> => {
+      const model = config.model || 'llama3.1';
+      const stream = !!options.onToken;
+
+      const response = await providerFetch(
+        provider,
+        `${config.baseURL}/api/chat`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model,
+            messages: withSystem(request),
+            stream,
+            options: {
+              num_predict: request.maxTokens,
+              ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+            },
+          }),
+        },
+        options.signal
+      );
+
+      let text = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      // Streaming responses are one JSON object per line; the last has done: true
+      await readLines(
+        response,
+        (line) => {
+          const chunk = parseJSONLine(provider, line);
+          if (chunk.error) {
+            throw createProviderError(provider, 'invalid_response', String(chunk.error));
+          }
+          const token: string = chunk.message?.content ?? '';
+          if (token) {
+            text += token;
+            if (stream) options.onToken?.(token);
+          }
+          if (chunk.done) {
+            inputTokens = chunk.prompt_eval_count ?? 0;
+            outputTokens = chunk.eval_count ?? 0;
+          }
+        },
+        options.signal
+      );
+
+      if (options.signal?.aborted) {
+        throw createProviderError(provider, 'cancelled', 'Request cancelled');
+      }
+
+      return {
+        text,
+        provider,
+        model,
+        inputTokens: inputTokens || approximateTokens(request.system + request.messages.map(m => m.content).join('')),
+        outputTokens: outputTokens || approximateTokens(text),
+        cost: 0,
+      };
+    },
+  };
+}
+
+// ============================================
+// OPENAI-COMPATIBLE
+// ============================================
+
+/**
+ * Any server speaking the OpenAI /chat/completions API.
+ * Prices are USD per 1K tokens (0 for self-hosted servers).
+ */
+export function createOpenAICompatibleAdapter(
+  provider: LLMProvider,
+  defaultConfig: { baseURL: string; model: string },
+  inputPricePer1K: number = 0,
+  outputPricePer1K: number = 0
+): LLMProviderAdapter {
+  const headersFor = (config: LLMProviderConfig): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+  });
+
+  return {
+    provider,
+    defaultConfig,
+
+    isReady: async (config: LLMProviderConfig) => {
+      // Hosted APIs need a key; don't spend a request finding that out
+      if (provider === 'openai' && !config.apiKey) return false;
+      return probe(`${config.baseURL}/models`, headersFor(config));
+    },
+
+    chat: async (
+      request: LLMChatRequest,
+      config: LLMProviderConfig,
+      options: LLMChatOptions = {}
+    ): Promise<LLMChatResult> => {
+      const model = config.model || defaultConfig.model;
+      const stream = !!options.onToken;
+
+      const response = await providerFetch(
+        provider,
+        `${config.baseURL}/chat/completions`,
+        {
+          method: 'POST',
+          headers: headersFor(config),
+          body: JSON.stringify({
+            model,
+            messages: withSystem(request),
+            max_tokens: request.maxTokens,
+            stream,
+            ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+            // Usage in the final chunk; only OpenAI itself is known to accept this
+            ...(stream && provider === 'openai' ? { stream_options: { include_usage: true } } : {}),
+          }),
+        },
+        options.signal
+      );
+
+      let text = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      if (stream) {
+        // Server-sent events: "data: {...}" lines ending with "data: [DONE]"
+        await readLines(
+          response,
+          (line) => {
+            if (!line.startsWith('data:')) return;
+            const payload = line.slice(5).trim();
+            if (payload === '[DONE]') return;
+            const chunk = parseJSONLine(provider, payload);
+            const token: string = chunk.choices?.[0]?.delta?.content ?? '';
+            if (token) {
+              text += token;
+              options.onToken?.(token);
+            }
+            if (chunk.usage) {
+              inputTokens = chunk.usage.prompt_tokens ?? inputTokens;
+              outputTokens = chunk.usage.completion_tokens ?? outputTokens;
+            }
+          },
+          options.signal
+        );
+      } else {
+        const data = await response.json();
+        text = data.choices?.[0]?.message?.content ?? '';
+        inputTokens = data.usage?.prompt_tokens ?? 0;
+        outputTokens = data.usage?.completion_tokens ?? 0;
+      }
+
+      if (options.signal?.aborted) {
+        throw createProviderError(provider, 'cancelled', 'Request cancelled');
+      }
+
+      inputTokens = inputTokens || approximateTokens(request.system + request.messages.map(m => m.content).join(''));
+      outputTokens = outputTokens || approximateTokens(text);
+
+      return {
+        text,
+        provider,
+        model,
+        inputTokens,
+        outputTokens,
+        cost: (inputTokens / 1000) * inputPricePer1K + (outputTokens / 1000) * outputPricePer1K,
+      };
+    },
+  };
+}
@@ -0,0 +1,484 @@
+/**
+ * LLM Failover Service
+ *
+ * Retry and failover policy for coach responses. A chat request walks
+ * a chain of providers (active provider first), retrying transient
+ * failures with exponential backoff, enforcing a per-provider timeout,
+ * and skipping providers whose circuit breaker is open.
+ *
+ * Failover stays where the user chose to talk: cloud providers other
+ * than the active one are only added when allowCloudFailover is on.
+ * Readiness is probed lazily, just before a provider is tried.
+ *
+ * Following Mood Leaf Ethics:
+ * - Someone reaching out shouldn't get a canned reply because one
+ *   endpoint hiccupped; static fallbacks are the last resort
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  LLMChatOptions,
+  LLMChatRequest,
+  LLMChatResult,
+  LLMProvider,
+  LLMProviderError,
+  LLMProviderErrorKind,
+  createProviderError,
+  getActiveProvider,
+  getAvailableProviders,
+  getProviderAdapter,
+  getProviderCapabilities,
+  getProviderConfig,
+  isProviderError,
+  isProviderReady,
+} from './llmProviderService';
+import { info, warn } from './loggingService';
+
+const FAILOVER_POLICY_KEY = 'moodleaf_llm_failover_policy';
+
+// Readiness probes hit the network; reuse results for a short while
+const READINESS_CACHE_MS = 30 * 1000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface FailoverPolicy {
+  /** Explicit provider order; empty = active provider, then available providers */
+  chain: LLMProvider[];
+  /** Let failover reach cloud providers other than the active one (off = on-device only) */
+  allowCloudFailover: boolean;
+  /** Attempts per provider before moving on (1 = no retry) */
+  maxAttemptsPerProvider: number;
+  /** First retry delay; doubles each retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Per-attempt timeout */
+  timeoutMs: number;
+  /** Overrides for slow providers (e.g. local models on a laptop) */
+  providerTimeoutsMs: Partial<Record<LLMProvider, number>>;
+  /** Consecutive failures that open a provider's circuit */
+  circuitFailureThreshold: number;
+  /** How long an open circuit skips the provider before a trial request */
+  circuitCooldownMs: number;
+}
+
+export interface FailoverAttempt {
+  provider: LLMProvider;
+  attempt: number;
+  durationMs: number;
+  success: boolean;
+  errorKind?: LLMProviderErrorKind;
+}
+
+export interface FailoverResult {
+  result: LLMChatResult;
+  provider: LLMProvider;
+  attempts: FailoverAttempt[];
+}
+
+export interface FailoverOptions extends LLMChatOptions {
+  /**
+   * Called when a streamed reply failed part-way and is being retried,
+   * so the UI can discard tokens it already showed
+   */
+  onRestart?: () => void;
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface CircuitBreaker {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  /** A half-open trial request is running; others skip the provider */
+  trialInFlight: boolean;
+}
+
+const DEFAULT_POLICY: FailoverPolicy = {
+  chain: [],
+  allowCloudFailover: false,
+  maxAttemptsPerProvider: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  timeoutMs: 30000,
+  providerTimeoutsMs: {
+    ollama: 90000,
+    llamacpp: 90000,
+    llama_local: 90000,
+  },
+  circuitFailureThreshold: 3,
+  circuitCooldownMs: 60 * 1000,
+};
+
+// Errors worth retrying on the same provider
+const RETRYABLE_KINDS: LLMProviderErrorKind[] = ['unavailable', 'timeout', 'rate_limit', 'invalid_response'];
+
+// ============================================
+// POLICY
+// ============================================
+
+/**
+ * Get the failover policy (stored overrides on top of defaults)
+ */
+export async function getFailoverPolicy(): Promise<FailoverPolicy> {
+  try {
+    const stored = await AsyncStorage.getItem(FAILOVER_POLICY_KEY);
+    if (stored) {
+      const parsed: Partial<FailoverPolicy> = JSON.parse(stored);
+      return {
+        ...DEFAULT_POLICY,
+        ...parsed,
+        providerTimeoutsMs: { ...DEFAULT_POLICY.providerTimeoutsMs, ...parsed.providerTimeoutsMs },
+      };
+    }
+  } catch (error) {
+    console.error('[Failover] Failed to load policy:', error);
+  }
+  return DEFAULT_POLICY;
+}
+
+/**
+ * Update the failover policy
+ */
+export async function setFailoverPolicy(updates: Partial<FailoverPolicy>): Promise<FailoverPolicy> {
+  const current = await getFailoverPolicy();
+  const updated: FailoverPolicy = {
+    ...current,
+    ...updates,
+    maxAttemptsPerProvider: Math.max(1, updates.maxAttemptsPerProvider ?? current.maxAttemptsPerProvider),
+  };
+  await AsyncStorage.setItem(FAILOVER_POLICY_KEY, JSON.stringify(updated));
+  return updated;
+}
+
+/**
+ * Restore the default policy
+ */
+export async function resetFailoverPolicy(): Promise<void> {
+  await AsyncStorage.removeItem(FAILOVER_POLICY_KEY);
+}
+
+// ============================================
+// CIRCUIT BREAKERS
+// ============================================
+
+const circuits = new Map<LLMProvider, CircuitBreaker>();
+
+function getCircuit(provider: LLMProvider): CircuitBreaker {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { state: 'closed', consecutiveFailures: 0, openedAt: null, trialInFlight: false };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Whether a provider may be tried now. An open circuit moves to
+ * half-open once its cooldown has passed, allowing one trial request.
+ */
+function canAttempt(provider: LLMProvider, policy: FailoverPolicy): boolean {
+  const circuit = getCircuit(provider);
+  if (circuit.state === 'closed') return true;
+  if (circuit.state === 'half_open') return !circuit.trialInFlight;
+  if (circuit.openedAt !== null && Date.now() - circuit.openedAt >= policy.circuitCooldownMs) {
+    circuit.state = 'half_open';
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Claim a request slot right before sending. While half-open this takes
+ * the single trial, so concurrent requests skip the provider until the
+ * trial succeeds or fails.
+ */
+function beginAttempt(provider: LLMProvider, policy: FailoverPolicy): boolean {
+  if (!canAttempt(provider, policy)) return false;
+  const circuit = getCircuit(provider);
+  if (circuit.state === 'half_open') circuit.trialInFlight = true;
+  return true;
+}
+
+/**
+ * Give the trial back without a verdict (the caller cancelled)
+ */
+function releaseTrial(provider: LLMProvider): void {
+  getCircuit(provider).trialInFlight = false;
+}
+
+function recordSuccess(provider: LLMProvider): void {
+  const circuit = getCircuit(provider);
+  circuit.state = 'closed';
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+}
+
+function recordFailure(provider: LLMProvider, policy: FailoverPolicy): void {
+  const circuit = getCircuit(provider);
+  circuit.consecutiveFailures++;
+  circuit.trialInFlight = false;
+  // A failed trial re-opens immediately
+  if (circuit.state === 'half_open' || circuit.consecutiveFailures >= policy.circuitFailureThreshold) {
+    if (circuit.state !== 'open') {
+      warn('coach', 'LLM provider circuit opened', {
+        provider,
+        consecutiveFailures: circuit.consecutiveFailures,
+      });
+    }
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
+
+/**
+ * Circuit state for each provider that has been used (for diagnostics)
+ */
+export function getCircuitStates(): Partial<Record<LLMProvider, CircuitBreaker>> {
+  const states: Partial<Record<LLMProvider, CircuitBreaker>> = {};
+  circuits.forEach((circuit, provider) => {
+    states[provider] = { ...circuit };
+  });
+  return states;
+}
+
+/**
+ * Close all circuits (e.g. after the user fixes their settings)
+ */
+export function resetCircuits(): void {
+  circuits.clear();
+  readinessCache.clear();
+}
+
+// ============================================
+// CHAIN
+// ============================================
+
+const readinessCache = new Map<LLMProvider, { ready: boolean; checkedAt: number }>();
+
+async function isReadyCached(provider: LLMProvider): Promise<boolean> {
+  const cached = readinessCache.get(provider);
+  if (cached && Date.now() - cached.checkedAt < READINESS_CACHE_MS) {
+    return cached.ready;
+  }
+  const ready = await isProviderReady(provider);
+  readinessCache.set(provider, { ready, checkedAt: Date.now() });
+  return ready;
+}
+
+/**
+ * Whether failing over to a provider keeps the conversation where the
+ * user chose to have it: the active provider and on-device providers
+ * always qualify, other cloud providers only with the policy opt-in.
+ */
+function isWithinLocality(provider: LLMProvider, active: LLMProvider, policy: FailoverPolicy): boolean {
+  return provider === active || getProviderCapabilities(provider).isOnDevice || policy.allowCloudFailover;
+}
+
+/**
+ * Providers to try, in order: the active provider first, then the
+ * policy chain (or every available provider with an adapter). Only
+ * providers within the user's locality whose circuit allows a request
+ * are kept. Readiness is not probed here; see hasReadyProvider.
+ */
+export async function getFailoverChain(policy?: FailoverPolicy): Promise<LLMProvider[]> {
+  const resolvedPolicy = policy ?? (await getFailoverPolicy());
+  const active = await getActiveProvider();
+  const available = getAvailableProviders();
+  const candidates = resolvedPolicy.chain.length > 0 ? resolvedPolicy.chain : available;
+
+  const chain: LLMProvider[] = [];
+  for (const provider of [active, ...candidates]) {
+    if (
+      !chain.includes(provider) &&
+      available.includes(provider) &&
+      getProviderAdapter(provider) &&
+      isWithinLocality(provider, active, resolvedPolicy) &&
+      canAttempt(provider, resolvedPolicy)
+    ) {
+      chain.push(provider);
+    }
+  }
+  return chain;
+}
+
+/**
+ * Whether any provider in the chain is ready. Probes in order and stops
+ * at the first ready one, so usually only the active provider is checked
+ * (and the result is reused when it is tried).
+ */
+export async function hasReadyProvider(chain: LLMProvider[]): Promise<boolean> {
+  for (const provider of chain) {
+    if (await isReadyCached(provider)) return true;
+  }
+  return false;
+}
+
+// ============================================
+// EXECUTION
+// ============================================
+
+/**
+ * Exponential backoff with jitter for the given retry number (1-based)
+ */
+function backoffDelay(retry: number, policy: FailoverPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+/**
+ * One attempt against one provider, bounded by the policy timeout
+ */
+async function attemptProvider(
+  provider: LLMProvider,
+  request: LLMChatRequest,
+  policy: FailoverPolicy,
+  options: FailoverOptions,
+  onFirstToken: () => void
+): Promise<LLMChatResult> {
+  const adapter = getProviderAdapter(provider);
+  if (!adapter) {
+    throw createProviderError(provider, 'unavailable', `No adapter for ${provider}`);
+  }
+
+  const controller = new AbortController();
+  const onCallerAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onCallerAbort);
+
+  let timedOut = false;
+  const timeoutMs = policy.providerTimeoutsMs[provider] ?? policy.timeoutMs;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    const config = await getProviderConfig(provider);
+    return await adapter.chat(request, config, {
+      signal: controller.signal,
+      onToken: options.onToken
+        ? (token) => {
+            onFirstToken();
+            options.onToken?.(token);
+          }
+        : undefined,
+    });
+  } catch (error) {
+    if (timedOut && !options.signal?.aborted) {
+      throw createProviderError(provider, 'timeout', `${provider} did not answer within ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/**
+ * Send a chat request with retries and failover.
+ * Throws the last provider error if every provider in the chain fails,
+ * or a 'cancelled' error as soon as the caller aborts.
+ */
+export async function chatWithFailover(
+  request: LLMChatRequest,
+  options: FailoverOptions = {},
+  chain?: LLMProvider[]
+): Promise<FailoverResult> {
+  const policy = await getFailoverPolicy();
+  const providers = chain ?? (await getFailoverChain(policy));
+  const attempts: FailoverAttempt[] = [];
+  let lastError: LLMProviderError | null = null;
+  let streamedTokens = false;
+
+  if (providers.length === 0) {
+    throw createProviderError(await getActiveProvider(), 'unavailable', 'No LLM provider is ready');
+  }
+
+  for (const provider of providers) {
+    for (let attempt = 1; attempt <= policy.maxAttemptsPerProvider; attempt++) {
+      if (options.signal?.aborted) {
+        throw createProviderError(provider, 'cancelled', 'Request cancelled');
+      }
+      // Circuit may have opened during an earlier retry
+      if (!canAttempt(provider, policy)) break;
+      // Probed only when reached, so a healthy active provider costs no extra probes
+      if (!(await isReadyCached(provider))) {
+        lastError = createProviderError(provider, 'unavailable', `${provider} is not ready`);
+        break;
+      }
+      // Another request may have taken the half-open trial during the readiness probe
+      if (!beginAttempt(provider, policy)) break;
+
+      if (streamedTokens) {
+        options.onRestart?.();
+        streamedTokens = false;
+      }
+
+      const startedAt = Date.now();
+      try {
+        const result = await attemptProvider(provider, request, policy, options, () => {
+          streamedTokens = true;
+        });
+        recordSuccess(provider);
+        attempts.push({ provider, attempt, durationMs: Date.now() - startedAt, success: true });
+
+        if (attempts.length > 1) {
+          await info('coach', 'LLM request recovered via failover', {
+            provider,
+            attempts: attempts.length,
+            providersTried: Array.from(new Set(attempts.map(a => a.provider))),
+          });
+        }
+        return { result, provider, attempts };
+      } catch (error) {
+        const providerError = isProviderError(error)
+          ? error
+          : createProviderError(provider, 'invalid_response', error instanceof Error ? error.message : 'Unknown error');
+
+        // A caller abort (even mid-body, surfacing as another error) isn't the provider's fault
+        if (options.signal?.aborted) {
+          releaseTrial(provider);
+          throw providerError.kind === 'cancelled'
+            ? providerError
+            : createProviderError(provider, 'cancelled', 'Request cancelled');
+        }
+
+        lastError = providerError;
+        recordFailure(provider, policy);
+        attempts.push({
+          provider,
+          attempt,
+          durationMs: Date.now() - startedAt,
+          success: false,
+          errorKind: providerError.kind,
+        });
+        console.log(`[Failover] ${provider} attempt ${attempt} failed (${providerError.kind}):`, providerError.message);
+
+        // Auth/bad request won't fix themselves; go straight to the next provider
+        if (!RETRYABLE_KINDS.includes(providerError.kind)) break;
+        if (attempt < policy.maxAttemptsPerProvider) {
+          await sleep(backoffDelay(attempt, policy), options.signal);
+        }
+      }
+    }
+  }
+
+  await warn('coach', 'All LLM providers failed', {
+    attempts: attempts.length,
+    providersTried: Array.from(new Set(attempts.map(a => a.provider))),
+    lastErrorKind: lastError?.kind,
+  });
+  throw lastError ?? createProviderError(providers[0], 'unavailable', 'No LLM provider could be reached');
+}
@@ -11,11 +11,17 @@
  *
  * Each service that needs LLM context exports in a standardized format
  * that this provider translates for the active backend.
+ *
+ * Chat requests go through a provider adapter (see PROVIDER ADAPTERS):
+ * one streaming, cancellable interface that every backend implements.
  */
 
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, warn } from './loggingService';
+import { createOllamaAdapter, createOpenAICompatibleAdapter } from './llmAdapters';
+
+export { createProviderError, isProviderError, classifyHttpStatus } from './llmAdapters';
 
 // Storage keys
 const LLM_PROVIDER_KEY = 'moodleaf_llm_provider';
@@ -134,6 +140,84 @@ export interface TrainingExample {
   };
 }
 
+/**
+ * Message sent to a chat adapter
+ */
+export interface LLMChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Provider-neutral chat request
+ */
+export interface LLMChatRequest {
+  system: string;
+  messages: LLMChatMessage[];
+  maxTokens: number;
+  temperature?: number;
+}
+
+/**
+ * Streaming and cancellation hooks for a chat call
+ */
+export interface LLMChatOptions {
+  /** Called with each text fragment as it arrives */
+  onToken?: (token: string) => void;
+  /** Abort the request (rejects with a 'cancelled' provider error) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Normalized chat result from any adapter
+ */
+export interface LLMChatResult {
+  text: string;
+  provider: LLMProvider;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** USD; 0 for local/self-hosted providers */
+  cost: number;
+}
+
+/**
+ * Per-provider connection settings (stored under LLM_CONFIG_KEY)
+ */
+export interface LLMProviderConfig {
+  baseURL?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+/**
+ * A backend that can answer chat requests
+ */
+export interface LLMProviderAdapter {
+  provider: LLMProvider;
+  defaultConfig: Required<Pick<LLMProviderConfig, 'baseURL' | 'model'>>;
+  isReady: (config: LLMProviderConfig) => Promise<boolean>;
+  chat: (request: LLMChatRequest, config: LLMProviderConfig, options?: LLMChatOptions) => Promise<LLMChatResult>;
+}
+
+export type LLMProviderErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'bad_request'
+  | 'unavailable'
+  | 'timeout'
+  | 'cancelled'
+  | 'invalid_response';
+
+/**
+ * Error thrown by adapters, classified so callers can pick a message
+ */
+export type LLMProviderError = Error & {
+  provider: LLMProvider;
+  kind: LLMProviderErrorKind;
+  status?: number;
+};
+
 // ============================================
 // PROVIDER CAPABILITIES
 // ============================================
@@ -316,6 +400,94 @@ export function getOnDeviceProviders(): LLMProvider[] {
   );
 }
 
+// ============================================
+// PROVIDER ADAPTERS
+// ============================================
+
+const adapterRegistry = new Map<LLMProvider, LLMProviderAdapter>();
+
+/**
+ * Register (or replace) the adapter for a provider
+ */
+export function registerProviderAdapter(adapter: LLMProviderAdapter): void {
+  adapterRegistry.set(adapter.provider, adapter);
+}
+
+/**
+ * Get the adapter for a provider, if one is implemented
+ */
+export function getProviderAdapter(provider: LLMProvider): LLMProviderAdapter | null {
+  return adapterRegistry.get(provider) ?? null;
+}
+
+/**
+ * Providers that can actually serve chat requests
+ */
+export function getImplementedProviders(): LLMProvider[] {
+  return Array.from(adapterRegistry.keys());
+}
+
+registerProviderAdapter(createOllamaAdapter());
+registerProviderAdapter(
+  createOpenAICompatibleAdapter('openai', { baseURL: 'https://api.openai.com/v1', model: 'gpt-4o-mini' }, 0.00015, 0.0006)
+);
+registerProviderAdapter(
+  createOpenAICompatibleAdapter('llamacpp', { baseURL: 'http://localhost:8080/v1', model: 'local' })
+);
+registerProviderAdapter(
+  createOpenAICompatibleAdapter('llama_server', { baseURL: 'http://localhost:8000/v1', model: 'local' })
+);
+
+/**
+ * Get stored connection settings for a provider (merged over defaults)
+ */
+export async function getProviderConfig(provider: LLMProvider): Promise<LLMProviderConfig> {
+  const defaults = getProviderAdapter(provider)?.defaultConfig ?? {};
+  let stored: LLMProviderConfig = {};
+  try {
+    const raw = await AsyncStorage.getItem(LLM_CONFIG_KEY);
+    if (raw) {
+      stored = (JSON.parse(raw) as Partial<Record<LLMProvider, LLMProviderConfig>>)[provider] ?? {};
+    }
+  } catch {
+    // Defaults
+  }
+
+  // Keys saved by earlier settings screens
+  if (!stored.apiKey && provider === 'openai') {
+    stored = { ...stored, apiKey: (await AsyncStorage.getItem('openai_api_key')) ?? undefined };
+  }
+  if (!stored.baseURL && provider === 'llama_server') {
+    stored = { ...stored, baseURL: (await AsyncStorage.getItem('llama_server_url')) ?? undefined };
+  }
+
+  return { ...defaults, ...stripEmpty(stored) };
+}
+
+/**
+ * Save connection settings for a provider
+ */
+export async function setProviderConfig(provider: LLMProvider, config: LLMProviderConfig): Promise<void> {
+  let all: Partial<Record<LLMProvider, LLMProviderConfig>> = {};
+  try {
+    const raw = await AsyncStorage.getItem(LLM_CONFIG_KEY);
+    if (raw) all = JSON.parse(raw);
+  } catch {
+    // Start fresh
+  }
+  all[provider] = { ...all[provider], ...config };
+  await AsyncStorage.setItem(LLM_CONFIG_KEY, JSON.stringify(all));
+  await info('coach', 'LLM provider config updated', { provider, baseURL: all[provider]?.baseURL, model: all[provider]?.model });
+}
+
+function stripEmpty(config: LLMProviderConfig): LLMProviderConfig {
+  const result: LLMProviderConfig = {};
+  if (config.baseURL) result.baseURL = config.baseURL.replace(/\/+$/, '');
+  if (config.model) result.model = config.model;
+  if (config.apiKey) result.apiKey = config.apiKey;
+  return result;
+}
+
 // ============================================
 // CONTEXT FORMATTING
 // ============================================
@@ -522,6 +694,16 @@ export async function isProviderReady(provider: LLMProvider): Promise<boolean> {
     return false;
   }
 
+  // Providers with an adapter know how to check themselves
+  const adapter = getProviderAdapter(provider);
+  if (adapter) {
+    try {
+      return await adapter.isReady(await getProviderConfig(provider));
+    } catch {
+      return false;
+    }
+  }
+
   // Provider-specific checks
   switch (provider) {
     case 'claude':
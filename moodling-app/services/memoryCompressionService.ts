@@ -0,0 +1,365 @@
+/**
+ * Memory Compression Service
+ *
+ * Extractive, LLM-free compression of finished sessions into a weekly
+ * MidTermMemory. Used when there's no Claude key and no local model to
+ * write the summary, so offline users still get weekly memory.
+ *
+ * Nothing is generated - every summary line is built from:
+ * - Topics: session topics plus words the user kept coming back to
+ * - Mood arc: SessionMessage.mood across and within sessions
+ * - Key sentences: the user's own sentences that best cover the week
+ *
+ * Long-term facts (relationships, triggers) are left to the LLM paths;
+ * guessing them from keywords would put words in the user's mouth.
+ */
+
+import type { ShortTermMemory, SessionMessage, CompressionResult } from './memoryTierService';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MAX_THEMES = 5;
+const MAX_NOTABLE_MOMENTS = 3;
+const MAX_FLAGS = 3;
+const MIN_SENTENCE_WORDS = 4;
+const MAX_QUOTE_CHARS = 140;
+/** Two sentences sharing more than this share of words count as the same point */
+const REDUNDANCY_THRESHOLD = 0.5;
+
+/** Moods from conversationController.detectUserMood, on a -2..2 scale */
+const MOOD_VALENCE: Record<string, number> = {
+  distressed: -2,
+  anxious: -1,
+  neutral: 0,
+  calm: 1,
+  positive: 2,
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'had', 'has', 'have',
+  'he', 'her', 'him', 'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'my', 'of', 'on',
+  'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to', 'was',
+  'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'you', 'your', 'about', 'do', 'did', 'does',
+  'am', 'can', 'could', 'would', 'should', 'really', 'very', 'thing', 'things', 'like', 'get', 'got',
+  'also', 'still', 'some', 'all', 'any', 'how', 'why', 'not', 'no', 'up', 'out', 'know', 'feel', 'feeling',
+  'think', 'want', 'going', 'being', 'today', 'yeah', 'okay', 'ok', 'much', 'more', 'even', 'im',
+  "i'm", "don't", 'dont', "it's", "can't", 'cant', 'one', 'too', 'now', 'again', 'back', 'make', 'made',
+  'help', 'helped', 'keep', 'keeps', 'lot', 'bit',
+]);
+
+/** Phrases that usually mark a realization or a step forward */
+const INSIGHT_MARKERS = [
+  'i realized', 'i realised', 'i figured', 'i noticed', 'i learned', 'i finally', 'i managed',
+  'i decided', "i'm proud", 'proud of', 'it helped', 'helped me', 'made a difference', 'for the first time',
+  'breakthrough', 'it clicked', 'makes sense now',
+];
+
+/** Phrases worth keeping an eye on even when the mood tag missed them */
+const CONCERN_MARKERS = [
+  "can't sleep", 'cant sleep', 'not eating', "haven't eaten", 'no one', 'nobody cares', 'hopeless',
+  'worthless', 'give up', 'giving up', 'drinking', 'panic attack', 'alone', 'exhausted',
+];
+
+// ============================================
+// TEXT HELPERS
+// ============================================
+
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word
+    .replace(/'s$/, '')
+    .replace(/(ies)$/, 'y')
+    .replace(/(ing|ed|es|ly|s)$/, '');
+}
+
+function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z']+/g) || [])
+    .map(w => w.replace(/^'+|'+$/g, ''))
+    .filter(w => w.length > 2 && !STOPWORDS.has(w));
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+[.!?]*/g) || [])
+    .map(s => s.trim())
+    .filter(s => s.split(/\s+/).length >= MIN_SENTENCE_WORDS);
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(w => { if (b.has(w)) shared++; });
+  return shared / Math.min(a.size, b.size);
+}
+
+function quote(sentence: string): string {
+  const trimmed = sentence.length > MAX_QUOTE_CHARS
+    ? `${sentence.slice(0, MAX_QUOTE_CHARS - 1).trimEnd()}…`
+    : sentence;
+  return `"${trimmed}"`;
+}
+
+function formatList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function userMessages(sessions: ShortTermMemory[]): SessionMessage[] {
+  return sessions.flatMap(s => s.messages.filter(m => m.role === 'user' && m.content.trim()));
+}
+
+// ============================================
+// TOPICS
+// ============================================
+
+/**
+ * Recurring topics: session topics (from extractTopics) first, then
+ * words the user used in more than one message, ranked by how many
+ * messages they appear in.
+ */
+export function extractThemes(sessions: ShortTermMemory[], limit: number = MAX_THEMES): string[] {
+  const topicCounts = new Map<string, number>();
+  sessions.forEach(s => s.topicsDiscussed.forEach(t => topicCounts.set(t, (topicCounts.get(t) || 0) + 1)));
+  const themes = Array.from(topicCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([topic]) => topic.replace(/_/g, ' '));
+
+  // Count each stem once per message; remember the most used spelling
+  const messageCounts = new Map<string, number>();
+  const spellings = new Map<string, Map<string, number>>();
+  userMessages(sessions).forEach(message => {
+    const seen = new Set<string>();
+    contentWords(message.content).forEach(word => {
+      const key = stem(word);
+      const forms = spellings.get(key) || new Map<string, number>();
+      forms.set(word, (forms.get(word) || 0) + 1);
+      spellings.set(key, forms);
+      if (!seen.has(key)) {
+        seen.add(key);
+        messageCounts.set(key, (messageCounts.get(key) || 0) + 1);
+      }
+    });
+  });
+
+  const covered = new Set(themes.map(stem));
+  Array.from(messageCounts.entries())
+    .filter(([key, count]) => count >= 2 && !covered.has(key))
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .forEach(([key]) => {
+      const forms = Array.from(spellings.get(key)!.entries()).sort((a, b) => b[1] - a[1]);
+      themes.push(forms[0][0]);
+    });
+
+  return themes.slice(0, limit);
+}
+
+// ============================================
+// MOOD ARC
+// ============================================
+
+export interface MoodArc {
+  /** Most frequent mood across the week's user messages */
+  dominantMood: string | null;
+  /** Average valence (-2..2) of the first and last third of the week */
+  startValence: number | null;
+  endValence: number | null;
+  /** Sessions that ended in a better / worse mood than they started */
+  liftedSessions: number;
+  droppedSessions: number;
+  distressedMessages: number;
+}
+
+function averageValence(messages: SessionMessage[]): number | null {
+  const values = messages
+    .map(m => (m.mood ? MOOD_VALENCE[m.mood] : undefined))
+    .filter((v): v is number => v !== undefined);
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Mood trajectory from the mood tagged on each user message
+ */
+export function computeMoodArc(sessions: ShortTermMemory[]): MoodArc {
+  const messages = userMessages(sessions);
+  const counts = new Map<string, number>();
+  messages.forEach(m => { if (m.mood) counts.set(m.mood, (counts.get(m.mood) || 0) + 1); });
+  const dominant = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+
+  const third = Math.max(1, Math.floor(messages.length / 3));
+  let lifted = 0;
+  let dropped = 0;
+  sessions.forEach(session => {
+    const moods = session.messages
+      .filter(m => m.role === 'user' && m.mood && MOOD_VALENCE[m.mood] !== undefined)
+      .map(m => MOOD_VALENCE[m.mood!]);
+    if (moods.length < 2) return;
+    if (moods[moods.length - 1] > moods[0]) lifted++;
+    if (moods[moods.length - 1] < moods[0]) dropped++;
+  });
+
+  return {
+    dominantMood: dominant ? dominant[0] : null,
+    startValence: messages.length >= 2 ? averageValence(messages.slice(0, third)) : null,
+    endValence: messages.length >= 2 ? averageValence(messages.slice(-third)) : null,
+    liftedSessions: lifted,
+    droppedSessions: dropped,
+    distressedMessages: counts.get('distressed') || 0,
+  };
+}
+
+function describeValence(value: number): string {
+  if (value <= -1.25) return 'distressed';
+  if (value <= -0.4) return 'anxious';
+  if (value < 0.4) return 'steady';
+  if (value < 1.25) return 'calm';
+  return 'positive';
+}
+
+/**
+ * One sentence about the week's mood, e.g. "Mostly anxious; started
+ * anxious and ended calm. Mood lifted during 2 of 3 conversations."
+ */
+export function describeMoodArc(arc: MoodArc, sessionCount: number): string {
+  if (!arc.dominantMood) return 'No mood signals recorded this week.';
+
+  let sentence = `Mostly ${arc.dominantMood}`;
+  if (arc.startValence !== null && arc.endValence !== null) {
+    const start = describeValence(arc.startValence);
+    const end = describeValence(arc.endValence);
+    sentence += start === end
+      ? `, ${start} throughout`
+      : `; started ${start} and ended ${end}`;
+  }
+  sentence += '.';
+
+  if (arc.liftedSessions > 0) {
+    sentence += ` Mood lifted during ${arc.liftedSessions} of ${sessionCount} conversation${sessionCount === 1 ? '' : 's'}.`;
+  } else if (arc.droppedSessions > 0) {
+    sentence += ` Mood dipped during ${arc.droppedSessions} of ${sessionCount} conversation${sessionCount === 1 ? '' : 's'}.`;
+  }
+  return sentence;
+}
+
+// ============================================
+// KEY SENTENCES
+// ============================================
+
+interface ScoredSentence {
+  text: string;
+  words: Set<string>;
+  /** How much of the week's vocabulary the sentence covers */
+  coverage: number;
+  /** Coverage nudged up for realizations and strong moods */
+  score: number;
+  mood?: string;
+  insight: boolean;
+  concern: boolean;
+}
+
+/**
+ * Score each of the user's sentences by how much of the week's
+ * vocabulary it covers (words used across several messages score
+ * higher), with a nudge for realizations and strong moods.
+ */
+function scoreSentences(sessions: ShortTermMemory[]): ScoredSentence[] {
+  const messages = userMessages(sessions);
+  const documentFrequency = new Map<string, number>();
+  messages.forEach(m => {
+    new Set(contentWords(m.content).map(stem)).forEach(w =>
+      documentFrequency.set(w, (documentFrequency.get(w) || 0) + 1)
+    );
+  });
+
+  const scored: ScoredSentence[] = [];
+  messages.forEach(message => {
+    splitSentences(message.content).forEach(text => {
+      const lower = text.toLowerCase();
+      const words = new Set(contentWords(text).map(stem));
+      if (words.size === 0) return;
+
+      let weight = 0;
+      words.forEach(w => { weight += Math.log(1 + (documentFrequency.get(w) || 0)); });
+      const insight = INSIGHT_MARKERS.some(marker => lower.includes(marker));
+      const concern = message.mood === 'distressed' || CONCERN_MARKERS.some(marker => lower.includes(marker));
+      const intensity = Math.abs(message.mood ? MOOD_VALENCE[message.mood] ?? 0 : 0);
+
+      const coverage = weight / Math.sqrt(words.size);
+      scored.push({
+        text,
+        words,
+        coverage,
+        score: coverage * (1 + 0.15 * intensity) * (insight ? 1.5 : 1),
+        mood: message.mood,
+        insight,
+        concern,
+      });
+    });
+  });
+  return scored;
+}
+
+/**
+ * Pick the highest-scoring sentences, skipping ones that repeat a
+ * sentence already picked
+ */
+function selectDiverse(sentences: ScoredSentence[], limit: number, exclude: ScoredSentence[] = []): ScoredSentence[] {
+  const picked: ScoredSentence[] = [];
+  for (const sentence of [...sentences].sort((a, b) => b.score - a.score)) {
+    if (picked.length >= limit) break;
+    const redundant = [...exclude, ...picked].some(p => overlap(p.words, sentence.words) > REDUNDANCY_THRESHOLD);
+    if (!redundant) picked.push(sentence);
+  }
+  return picked;
+}
+
+// ============================================
+// COMPRESSION
+// ============================================
+
+/**
+ * Build the same CompressionResult the LLM paths produce, extractively
+ */
+export function compressSessionsExtractively(sessions: ShortTermMemory[]): CompressionResult {
+  const sessionCount = sessions.length;
+  const themes = extractThemes(sessions);
+  const arc = computeMoodArc(sessions);
+  const sentences = scoreSentences(sessions);
+
+  // The summary quotes the most representative sentence; notable moments
+  // favour realizations
+  const [keySentence] = [...sentences].sort((a, b) => b.coverage - a.coverage);
+  const notable = selectDiverse(sentences.filter(s => s.insight), MAX_NOTABLE_MOMENTS);
+  const concerns = selectDiverse(sentences.filter(s => s.concern), MAX_FLAGS);
+
+  const summaryParts = [
+    `${sessionCount} conversation${sessionCount === 1 ? '' : 's'} this week` +
+      (themes.length > 0 ? `, mostly about ${formatList(themes.slice(0, 3))}.` : '.'),
+  ];
+  if (keySentence) summaryParts.push(`In their words: ${quote(keySentence.text)}`);
+
+  const flags = concerns.map(s => `Said: ${quote(s.text)}`);
+  if (arc.distressedMessages > 0 && flags.length < MAX_FLAGS) {
+    flags.push(`Distress in ${arc.distressedMessages} message${arc.distressedMessages === 1 ? '' : 's'}`);
+  }
+  if (arc.droppedSessions > arc.liftedSessions && flags.length < MAX_FLAGS) {
+    flags.push('More conversations ended lower than they started');
+  }
+
+  return {
+    weekly: {
+      summary: summaryParts.join(' '),
+      themes,
+      emotionalPattern: describeMoodArc(arc, sessionCount),
+      notableMoments: notable.map(s => quote(s.text)),
+      flags: flags.slice(0, MAX_FLAGS),
+    },
+    longTerm: {
+      relationships: [],
+      lifeEvents: [],
+      triggers: [],
+      calmingFactors: [],
+    },
+  };
+}
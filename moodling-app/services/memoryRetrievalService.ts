@@ -0,0 +1,748 @@
+/**
+ * Memory Retrieval Service
+ *
+ * Semantic recall tier on top of memoryTierService. Past session exchanges,
+ * journal entries and MidTermMemory summaries are chunked, embedded and
+ * indexed on device. For each coach message, the chunks most relevant to
+ * it are retrieved within a token budget, so the coach can recall "that
+ * thing about my sister last spring" without every prompt carrying
+ * everything.
+ *
+ * Embeddings:
+ * - Hashing (default, always available): deterministic feature hashing of
+ *   words, word pairs and character trigrams. No model, no network. The
+ *   vectors are rebuilt from the text on load rather than stored.
+ * - A small local model (e.g. Ollama's nomic-embed-text) when enabled.
+ *   Model vectors are stored alongside; if the model is unreachable the
+ *   hashing vectors are used instead.
+ *
+ * Following Mood Leaf Ethics:
+ * - The index never leaves the device
+ * - Only what the user already shared is indexed
+ */
+
+import EncryptedStorage, { subscribeStorageScope } from './encryptedStorage';
+import { getAllEntries } from './journalStorage';
+import {
+  getCurrentSession,
+  getMidTermMemories,
+  getPendingForCompression,
+  ShortTermMemory,
+  MidTermMemory,
+} from './memoryTierService';
+import { estimateTokens, getProviderConfig } from './llmProviderService';
+import { info, warn } from './loggingService';
+
+// ============================================
+// STORAGE KEYS
+// ============================================
+
+const STORAGE_KEYS = {
+  INDEX: 'moodleaf_memory_index',
+  SETTINGS: 'moodleaf_memory_retrieval_settings',
+};
+
+/** Index chunks are split across numbered keys under this prefix */
+const INDEX_SHARD_PREFIX = 'moodleaf_memory_index/';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MemorySource = 'session' | 'journal' | 'mid_term';
+
+/** Sparse vector: parallel index/value arrays, L2-normalized */
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+export interface MemoryChunk {
+  id: string;
+  source: MemorySource;
+  /** Session, journal entry or week this chunk came from */
+  sourceId: string;
+  text: string;
+  /** When it happened (ISO) */
+  timestamp: string;
+  /** Hash of the text, to notice edits */
+  textHash: string;
+  /** Not stored; rebuilt from the text when the index loads */
+  hashVector: SparseVector;
+  /** Present when a model provider embedded this chunk */
+  modelVector?: SparseVector;
+  modelId?: string;
+}
+
+export interface RetrievedMemory {
+  chunk: MemoryChunk;
+  score: number;
+  /** How the score was computed */
+  via: 'model' | 'hashing';
+}
+
+export interface RetrievalOptions {
+  /** Max tokens (estimateTokens) for the formatted context */
+  tokenBudget?: number;
+  /** Max memories returned */
+  limit?: number;
+  /** Lowest similarity worth returning */
+  minScore?: number;
+}
+
+/**
+ * A local embedding model. Vectors are dense; they're stored sparse.
+ */
+export interface EmbeddingProvider {
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface RetrievalSettings {
+  enabled: boolean;
+  /** 'hashing' or a registered provider id */
+  embeddingProvider: string;
+}
+
+const DEFAULT_SETTINGS: RetrievalSettings = {
+  enabled: true,
+  embeddingProvider: 'hashing',
+};
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const HASH_DIMENSIONS = 1024;
+const MAX_CHUNK_CHARS = 600;
+const MAX_INDEXED_CHUNKS = 1500;
+// Serialized size caps (characters, before encryption). Each shard stays far
+// below Android's ~2 MB per-row CursorWindow limit and the whole index well
+// inside the 6 MB AsyncStorage database.
+const MAX_SHARD_CHARS = 200_000;
+const MAX_INDEX_CHARS = 1_500_000;
+const DEFAULT_TOKEN_BUDGET = 350;
+const DEFAULT_LIMIT = 6;
+const DEFAULT_MIN_SCORE = 0.12;
+// Near-duplicates of an already-picked memory are skipped
+const DUPLICATE_SIMILARITY = 0.9;
+// Memories inside a time the message mentions ("last spring") rank higher
+const TIME_MATCH_BOOST = 1.35;
+// Journal entries are re-read at most this often
+const JOURNAL_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+// Wait this long before asking an unreachable embedding model again
+const MODEL_RETRY_MS = 10 * 60 * 1000;
+// Chunks sent to the embedding model per sync; the rest follow on later syncs
+const MODEL_EMBED_BATCH = 100;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'had', 'has', 'have',
+  'he', 'her', 'him', 'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'my', 'of', 'on',
+  'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to', 'was',
+  'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'you', 'your', 'about', 'do', 'did', 'does',
+  'am', 'can', 'could', 'would', 'should', 'really', 'very', 'thing', 'things', 'remember', 'said', 'told',
+  'like', 'get', 'got', 'also', 'still', 'some', 'all', 'any', 'how', 'why', 'not', 'no', 'up', 'out',
+]);
+
+// ============================================
+// HASHING EMBEDDINGS
+// ============================================
+
+// Words, word pairs (bigrams) and character trigrams
+const FEATURE_WEIGHTS: Record<string, number> = { w: 1, b: 0.5, c: 0.25 };
+
+/**
+ * FNV-1a 32-bit
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Strip common English suffixes so "sisters"/"sister's" and
+ * "arguing"/"argued" share features
+ */
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word
+    .replace(/'s$/, '')
+    .replace(/(ies)$/, 'y')
+    .replace(/(ing|ed|es|ly|s)$/, '');
+}
+
+export function tokenizeForEmbedding(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9']+/g) || [])
+    .map(w => w.replace(/^'+|'+$/g, ''))
+    .filter(w => w.length > 1 && !STOPWORDS.has(w))
+    .map(stem);
+}
+
+function normalize(weights: Map<number, number>): SparseVector {
+  let norm = 0;
+  weights.forEach(v => { norm += v * v; });
+  norm = Math.sqrt(norm);
+
+  const indices: number[] = [];
+  const values: number[] = [];
+  if (norm === 0) return { indices, values };
+
+  Array.from(weights.keys()).sort((a, b) => a - b).forEach(index => {
+    const value = weights.get(index)! / norm;
+    if (Math.abs(value) < 1e-4) return;
+    indices.push(index);
+    // 4 decimals keeps the stored index small
+    values.push(Math.round(value * 10000) / 10000);
+  });
+  return { indices, values };
+}
+
+/**
+ * Deterministic embedding by feature hashing (signed, sublinear tf).
+ * Words weigh most, adjacent word pairs add phrase sense, character
+ * trigrams catch spelling variants.
+ */
+export function hashingEmbedding(text: string): SparseVector {
+  const tokens = tokenizeForEmbedding(text);
+  const counts = new Map<string, number>();
+  const add = (feature: string) => {
+    counts.set(feature, (counts.get(feature) || 0) + 1);
+  };
+
+  tokens.forEach((token, i) => {
+    add(`w:${token}`);
+    if (i > 0) add(`b:${tokens[i - 1]}_${token}`);
+    if (token.length > 3) {
+      const padded = `^${token}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`);
+    }
+  });
+
+  const weights = new Map<number, number>();
+  counts.forEach((count, feature) => {
+    const hash = hashString(feature);
+    const index = hash % HASH_DIMENSIONS;
+    const sign = hash & 0x80000000 ? -1 : 1;
+    const weight = sign * FEATURE_WEIGHTS[feature[0]] * (1 + Math.log(count));
+    weights.set(index, (weights.get(index) || 0) + weight);
+  });
+
+  return normalize(weights);
+}
+
+function toSparse(dense: number[]): SparseVector {
+  const weights = new Map<number, number>();
+  dense.forEach((value, index) => {
+    if (value !== 0) weights.set(index, value);
+  });
+  return normalize(weights);
+}
+
+/**
+ * Cosine similarity of two normalized sparse vectors
+ */
+export function sparseCosine(a: SparseVector, b: SparseVector): number {
+  let i = 0;
+  let j = 0;
+  let dot = 0;
+  while (i < a.indices.length && j < b.indices.length) {
+    if (a.indices[i] === b.indices[j]) {
+      dot += a.values[i] * b.values[j];
+      i++;
+      j++;
+    } else if (a.indices[i] < b.indices[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return dot;
+}
+
+// ============================================
+// EMBEDDING PROVIDERS
+// ============================================
+
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+/**
+ * Register a local embedding model (the hashing fallback needs none)
+ */
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProviders.set(provider.id, provider);
+}
+
+/**
+ * Ollama's embedding endpoint, using the configured Ollama base URL
+ */
+export function createOllamaEmbeddingProvider(model: string = 'nomic-embed-text'): EmbeddingProvider {
+  return {
+    id: `ollama:${model}`,
+    embed: async (texts: string[]) => {
+      const config = await getProviderConfig('ollama');
+      const response = await fetch(`${config.baseURL || 'http://localhost:11434'}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, input: texts }),
+      });
+      if (!response.ok) throw new Error(`Ollama embed returned ${response.status}`);
+      const data = await response.json();
+      return data.embeddings as number[][];
+    },
+  };
+}
+
+registerEmbeddingProvider(createOllamaEmbeddingProvider());
+
+export async function getRetrievalSettings(): Promise<RetrievalSettings> {
+  try {
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.SETTINGS);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export async function updateRetrievalSettings(settings: Partial<RetrievalSettings>): Promise<void> {
+  const current = await getRetrievalSettings();
+  await EncryptedStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify({ ...current, ...settings }));
+}
+
+async function getActiveModelProvider(): Promise<EmbeddingProvider | null> {
+  const settings = await getRetrievalSettings();
+  if (settings.embeddingProvider === 'hashing') return null;
+  return embeddingProviders.get(settings.embeddingProvider) || null;
+}
+
+/**
+ * Embed with the model provider; null if there isn't one or it failed
+ */
+async function embedWithModel(provider: EmbeddingProvider | null, texts: string[]): Promise<SparseVector[] | null> {
+  if (!provider || texts.length === 0) return null;
+  try {
+    const vectors = await provider.embed(texts);
+    return vectors.length === texts.length ? vectors.map(toSparse) : null;
+  } catch (error) {
+    warn('services', 'Embedding model unavailable, using hashing', { provider: provider.id, error: String(error) }, 'memoryRetrievalService');
+    return null;
+  }
+}
+
+// ============================================
+// CHUNKING
+// ============================================
+
+/**
+ * Split text into chunks of up to MAX_CHUNK_CHARS on sentence boundaries
+ */
+export function chunkText(text: string): string[] {
+  const sentences = text.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]*/g) || [];
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const raw of sentences) {
+    const sentence = raw.trim();
+    if (!sentence) continue;
+    if (current && current.length + sentence.length + 1 > MAX_CHUNK_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+    while (current.length > MAX_CHUNK_CHARS) {
+      chunks.push(current.slice(0, MAX_CHUNK_CHARS));
+      current = current.slice(MAX_CHUNK_CHARS);
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+interface ChunkDraft {
+  id: string;
+  source: MemorySource;
+  sourceId: string;
+  text: string;
+  timestamp: string;
+}
+
+/**
+ * One chunk per exchange: a user message and the coach's reply
+ */
+function chunkSession(session: ShortTermMemory): ChunkDraft[] {
+  const drafts: ChunkDraft[] = [];
+  session.messages.forEach((message, i) => {
+    if (message.role !== 'user') return;
+    const reply = session.messages[i + 1]?.role === 'assistant' ? session.messages[i + 1] : undefined;
+    const text = `User: ${message.content}${reply ? `\nCoach: ${reply.content}` : ''}`;
+    drafts.push({
+      id: `session:${session.sessionId}:${message.timestamp}`,
+      source: 'session',
+      sourceId: session.sessionId,
+      text: text.length > MAX_CHUNK_CHARS ? `${text.slice(0, MAX_CHUNK_CHARS - 1)}…` : text,
+      timestamp: message.timestamp,
+    });
+  });
+  return drafts;
+}
+
+function chunkMidTerm(memory: MidTermMemory): ChunkDraft {
+  const parts = [
+    memory.summary,
+    memory.themes.length > 0 ? `Themes: ${memory.themes.join(', ')}.` : '',
+    memory.notableMoments.length > 0 ? `Notable: ${memory.notableMoments.join('; ')}.` : '',
+  ].filter(Boolean);
+  return {
+    id: `mid_term:${memory.weekId}`,
+    source: 'mid_term',
+    sourceId: memory.weekId,
+    text: parts.join(' ').slice(0, MAX_CHUNK_CHARS),
+    timestamp: new Date(memory.startDate).toISOString(),
+  };
+}
+
+// ============================================
+// INDEX
+// ============================================
+
+/** Index in memory */
+interface StoredIndex {
+  chunks: MemoryChunk[];
+  /** Newest timestamp trimmed for space; older sources aren't indexed again */
+  evictedThrough?: string;
+}
+
+/**
+ * Stored under STORAGE_KEYS.INDEX; the chunks live in `shards` keys under
+ * INDEX_SHARD_PREFIX. Older builds stored a StoredIndex or the chunk array
+ * there instead.
+ */
+interface IndexManifest {
+  shards: number;
+  evictedThrough?: string;
+}
+
+let cachedIndex: StoredIndex | null = null;
+let lastJournalSync = 0;
+// After the model fails, chunks stay hashing-only until this time
+let modelRetryAt = 0;
+
+subscribeStorageScope(() => {
+  cachedIndex = null;
+  lastJournalSync = 0;
+});
+
+async function loadShardKeys(): Promise<string[]> {
+  return (await EncryptedStorage.getAllKeys()).filter(key => key.startsWith(INDEX_SHARD_PREFIX));
+}
+
+/** Serialized without the hashing vector, which is cheap to rebuild */
+function serializeChunk(chunk: MemoryChunk): string {
+  return JSON.stringify(chunk, (key, value) => (key === 'hashVector' ? undefined : value));
+}
+
+function withHashVector(chunk: MemoryChunk): MemoryChunk {
+  return chunk.hashVector ? chunk : { ...chunk, hashVector: hashingEmbedding(chunk.text) };
+}
+
+async function loadIndex(): Promise<StoredIndex> {
+  if (cachedIndex) return cachedIndex;
+  try {
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.INDEX);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (Array.isArray(parsed)) {
+      cachedIndex = { chunks: parsed };
+    } else if (parsed && typeof parsed.shards === 'number') {
+      const manifest = parsed as IndexManifest;
+      const keys = Array.from({ length: manifest.shards }, (_, i) => `${INDEX_SHARD_PREFIX}${i}`);
+      const pairs = await EncryptedStorage.multiGet(keys);
+      const chunks = pairs.flatMap(([, value]) => (value ? (JSON.parse(value) as MemoryChunk[]) : []));
+      cachedIndex = { chunks: chunks.map(withHashVector), evictedThrough: manifest.evictedThrough };
+    } else {
+      cachedIndex = parsed ?? { chunks: [] };
+    }
+  } catch (error) {
+    console.error('[MemoryRetrieval] Failed to load index:', error);
+    cachedIndex = { chunks: [] };
+  }
+  return cachedIndex!;
+}
+
+async function saveIndex(chunks: MemoryChunk[], evictedThrough?: string): Promise<void> {
+  // Newest chunks are kept; the oldest go first when the index is full
+  const newestFirst = [...chunks].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  const kept: MemoryChunk[] = [];
+  const shards: string[][] = [[]];
+  let shardChars = 0;
+  let totalChars = 0;
+
+  for (const chunk of newestFirst) {
+    const serialized = serializeChunk(chunk);
+    if (kept.length >= MAX_INDEXED_CHUNKS || totalChars + serialized.length > MAX_INDEX_CHARS) {
+      if (!evictedThrough || chunk.timestamp > evictedThrough) evictedThrough = chunk.timestamp;
+      break;
+    }
+    if (shardChars > 0 && shardChars + serialized.length > MAX_SHARD_CHARS) {
+      shards.push([]);
+      shardChars = 0;
+    }
+    shards[shards.length - 1].push(serialized);
+    shardChars += serialized.length + 1;
+    totalChars += serialized.length + 1;
+    kept.push(chunk);
+  }
+
+  cachedIndex = { chunks: kept, evictedThrough };
+  const manifest: IndexManifest = { shards: shards.length, evictedThrough };
+  await EncryptedStorage.multiSet([
+    ...shards.map((shard, i): [string, string] => [`${INDEX_SHARD_PREFIX}${i}`, `[${shard.join(',')}]`]),
+    [STORAGE_KEYS.INDEX, JSON.stringify(manifest)],
+  ]);
+
+  // Shards left over from a larger index
+  const stale = (await loadShardKeys()).filter(key => Number(key.slice(INDEX_SHARD_PREFIX.length)) >= shards.length);
+  if (stale.length > 0) await EncryptedStorage.multiRemove(stale);
+}
+
+/**
+ * Bring the index up to date with finished sessions, journal entries and
+ * weekly summaries. New or edited chunks are embedded; deleted journal
+ * entries are dropped. Nothing is written when nothing changed.
+ *
+ * The live session isn't indexed: its exchanges are already in the
+ * prompt, and it is picked up once it's waiting for compression.
+ */
+export async function syncMemoryIndex(options: { force?: boolean } = {}): Promise<{ added: number; removed: number }> {
+  const index = await loadIndex();
+  const byId = new Map(index.chunks.map(c => [c.id, c]));
+  const drafts: ChunkDraft[] = [];
+  let removed = 0;
+
+  (await getPendingForCompression()).forEach(session => drafts.push(...chunkSession(session)));
+
+  // Weekly summaries
+  (await getMidTermMemories()).forEach(memory => drafts.push(chunkMidTerm(memory)));
+
+  // Journal entries (throttled; they're the largest source)
+  const syncJournal = options.force || Date.now() - lastJournalSync > JOURNAL_SYNC_INTERVAL_MS;
+  if (syncJournal) {
+    lastJournalSync = Date.now();
+    const entries = await getAllEntries();
+    const journalIds = new Set<string>();
+    for (const entry of entries) {
+      chunkText(entry.text || '').forEach((text, i) => {
+        const id = `journal:${entry.id}:${i}`;
+        journalIds.add(id);
+        drafts.push({ id, source: 'journal', sourceId: entry.id, text, timestamp: entry.createdAt });
+      });
+    }
+    index.chunks.forEach(chunk => {
+      if (chunk.source === 'journal' && !journalIds.has(chunk.id)) {
+        byId.delete(chunk.id);
+        removed++;
+      }
+    });
+  }
+
+  // New or edited text; sources trimmed for space stay out
+  const changed = drafts.filter(draft => {
+    const existing = byId.get(draft.id);
+    if (!existing) return !index.evictedThrough || draft.timestamp > index.evictedThrough;
+    return existing.textHash !== String(hashString(draft.text));
+  });
+  changed.forEach(draft => {
+    byId.set(draft.id, {
+      ...draft,
+      textHash: String(hashString(draft.text)),
+      hashVector: hashingEmbedding(draft.text),
+    });
+  });
+
+  // Model vectors only for chunks without one, and only once the model answers
+  let embedded = 0;
+  const modelProvider = await getActiveModelProvider();
+  if (modelProvider && Date.now() >= modelRetryAt) {
+    const missing = Array.from(byId.values())
+      .filter(chunk => chunk.modelId !== modelProvider.id)
+      .slice(0, MODEL_EMBED_BATCH);
+    const modelVectors = await embedWithModel(modelProvider, missing.map(chunk => chunk.text));
+    if (modelVectors) {
+      missing.forEach((chunk, i) => {
+        byId.set(chunk.id, { ...chunk, modelVector: modelVectors[i], modelId: modelProvider.id });
+      });
+      embedded = missing.length;
+    } else if (missing.length > 0) {
+      modelRetryAt = Date.now() + MODEL_RETRY_MS;
+    }
+  }
+
+  if (changed.length === 0 && removed === 0 && embedded === 0) return { added: 0, removed: 0 };
+
+  await saveIndex(Array.from(byId.values()), index.evictedThrough);
+  info('services', 'Memory index synced', { added: changed.length, removed, embedded, total: byId.size }, 'memoryRetrievalService');
+  return { added: changed.length, removed };
+}
+
+/**
+ * Drop the index (it rebuilds from the sources on the next sync)
+ */
+export async function clearMemoryIndex(): Promise<void> {
+  cachedIndex = null;
+  lastJournalSync = 0;
+  modelRetryAt = 0;
+  await EncryptedStorage.multiRemove([STORAGE_KEYS.INDEX, ...(await loadShardKeys())]);
+}
+
+// ============================================
+// TIME HINTS
+// ============================================
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Northern-hemisphere seasons as [first month, last month] (0-based)
+const SEASONS: Record<string, [number, number]> = {
+  spring: [2, 4],
+  summer: [5, 7],
+  autumn: [8, 10],
+  fall: [8, 10],
+  winter: [11, 13], // Dec-Feb (13 = next February)
+};
+
+/**
+ * Find a time range the message refers to: "yesterday", "last week",
+ * "last month", "last year", "last spring", "in march"
+ */
+export function parseTimeHint(text: string, now: Date = new Date()): { start: Date; end: Date } | null {
+  const lower = text.toLowerCase();
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  const daysAgo = (n: number) => startOfDay(new Date(now.getTime() - n * 24 * 60 * 60 * 1000));
+
+  if (/\byesterday\b/.test(lower)) return { start: daysAgo(1), end: daysAgo(0) };
+  if (/\blast week\b/.test(lower)) return { start: daysAgo(14), end: daysAgo(6) };
+  if (/\blast month\b/.test(lower)) {
+    return { start: new Date(now.getFullYear(), now.getMonth() - 1, 1), end: new Date(now.getFullYear(), now.getMonth(), 1) };
+  }
+  if (/\blast year\b/.test(lower)) {
+    return { start: new Date(now.getFullYear() - 1, 0, 1), end: new Date(now.getFullYear(), 0, 1) };
+  }
+
+  const seasonMatch = lower.match(/\b(last|this)?\s*(spring|summer|autumn|fall|winter)\b/);
+  if (seasonMatch) {
+    const [firstMonth, lastMonth] = SEASONS[seasonMatch[2]];
+    // Most recent occurrence that has started ("last": that has ended)
+    for (let year = now.getFullYear(); year >= now.getFullYear() - 2; year--) {
+      const start = new Date(year, firstMonth, 1);
+      const end = new Date(year, lastMonth + 1, 1);
+      const usable = seasonMatch[1] === 'last' ? end <= now : start <= now;
+      if (usable) return seasonMatch[1] === 'this' && end <= now ? null : { start, end };
+    }
+  }
+
+  const monthMatch = lower.match(new RegExp(`\\b(last |in )(${MONTHS.join('|')})\\b`));
+  if (monthMatch) {
+    const month = MONTHS.indexOf(monthMatch[2]);
+    const passedThisYear = month < now.getMonth() || (month === now.getMonth() && monthMatch[1] === 'in ');
+    const year = passedThisYear ? now.getFullYear() : now.getFullYear() - 1;
+    return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+  }
+
+  return null;
+}
+
+// ============================================
+// RETRIEVAL
+// ============================================
+
+/**
+ * Most relevant memories for a message, best first
+ */
+export async function retrieveRelevantMemories(
+  query: string,
+  options: RetrievalOptions = {}
+): Promise<RetrievedMemory[]> {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+
+  const { chunks } = await loadIndex();
+  if (chunks.length === 0 || tokenizeForEmbedding(query).length === 0) return [];
+
+  const queryHash = hashingEmbedding(query);
+  const modelProvider = await getActiveModelProvider();
+  const queryModel = (await embedWithModel(modelProvider, [query]))?.[0] ?? null;
+  const timeHint = parseTimeHint(query);
+
+  // Messages still in the live session window are already in the prompt
+  const session = await getCurrentSession();
+  const windowStart = session?.messages[0]?.timestamp;
+
+  const scored: RetrievedMemory[] = [];
+  for (const chunk of chunks) {
+    if (session && chunk.sourceId === session.sessionId && windowStart && chunk.timestamp >= windowStart) continue;
+
+    const useModel = !!queryModel && !!chunk.modelVector && chunk.modelId === modelProvider?.id;
+    let score = useModel ? sparseCosine(queryModel!, chunk.modelVector!) : sparseCosine(queryHash, chunk.hashVector);
+
+    if (timeHint) {
+      const when = new Date(chunk.timestamp);
+      if (when >= timeHint.start && when < timeHint.end) score *= TIME_MATCH_BOOST;
+    }
+    if (score >= minScore) scored.push({ chunk, score, via: useModel ? 'model' : 'hashing' });
+  }
+
+  scored.sort((a, b) => b.score - a.score);
+
+  // Skip near-duplicates (the same story told twice)
+  const picked: RetrievedMemory[] = [];
+  for (const candidate of scored) {
+    if (picked.length >= limit) break;
+    const duplicate = picked.some(p => sparseCosine(p.chunk.hashVector, candidate.chunk.hashVector) >= DUPLICATE_SIMILARITY);
+    if (!duplicate) picked.push(candidate);
+  }
+  return picked;
+}
+
+const SOURCE_LABELS: Record<MemorySource, string> = {
+  session: 'conversation',
+  journal: 'journal',
+  mid_term: 'week summary',
+};
+
+function formatMemory(memory: RetrievedMemory): string {
+  const date = new Date(memory.chunk.timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return `- [${date}, ${SOURCE_LABELS[memory.chunk.source]}] ${memory.chunk.text.replace(/\n/g, ' / ')}`;
+}
+
+/**
+ * Retrieved memories formatted for the prompt, within the token budget
+ * (header included). Syncs the index first.
+ */
+export async function getRelevantMemoryContext(message: string, options: RetrievalOptions = {}): Promise<string> {
+  const settings = await getRetrievalSettings();
+  if (!settings.enabled) return '';
+
+  await syncMemoryIndex();
+  const memories = await retrieveRelevantMemories(message, options);
+  if (memories.length === 0) return '';
+
+  const budget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+  const header = 'RELEVANT MEMORIES (past moments related to this message; mention only if it helps):';
+  const lines: string[] = [];
+  let used = estimateTokens(header);
+
+  for (const memory of memories) {
+    const line = formatMemory(memory);
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > budget) continue; // a shorter one further down may still fit
+    lines.push(line);
+    used += cost;
+  }
+
+  return lines.length > 0 ? `${header}\n${lines.join('\n')}` : '';
+}
@@ -9,13 +9,22 @@
  * 2. MID-TERM: Recent weeks (compressed summaries)
  * 3. LONG-TERM: Core identity (facts, events, patterns)
  *
- * Compression happens via Claude NOW, but the compressed data
- * is stored locally. When we switch to local LLM, it just reads
- * the same compressed memory.
+ * Compression happens via Claude when available, otherwise through the
+ * active local model or extractively on device (memoryCompressionService).
+ * Either way the compressed data is stored locally in the same shape.
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import EncryptedStorage from './encryptedStorage';
 import { log, info, warn, error as logError, startTimer, endTimer } from './loggingService';
+import {
+  getActiveProvider,
+  getProviderAdapter,
+  getProviderCapabilities,
+  getProviderConfig,
+  isProviderReady,
+  LLMProvider,
+} from './llmProviderService';
+import { compressSessionsExtractively } from './memoryCompressionService';
 
 // ============================================
 // TYPES
@@ -42,6 +51,11 @@ export interface SessionMessage {
   energy?: string;
 }
 
+/**
+ * How a weekly summary was written
+ */
+export type CompressionMethod = 'claude' | 'local_llm' | 'extractive';
+
 /**
  * Mid-term memory: Weekly summaries
  */
@@ -55,6 +69,7 @@ export interface MidTermMemory {
   emotionalPattern: string; // e.g., "anxious mornings, calmer evenings"
   notableMoments: string[]; // Breakthroughs, insights
   flags: string[]; // Things to monitor
+  compressionMethod?: CompressionMethod; // Missing on older summaries
 }
 
 /**
@@ -100,6 +115,12 @@ export interface LongTermMemory {
   // Topics to handle carefully
   sensitivities: string[];
 
+  // Where each fact came from, by fact id (see getMemoryFacts)
+  provenance?: Record<string, MemoryProvenance>;
+
+  // Facts the user asked to forget; never re-learned
+  forgotten?: ForgottenFact[];
+
   // Last updated
   lastUpdated: string;
 }
@@ -118,6 +139,53 @@ export interface LifeEvent {
   stillProcessing: boolean;
 }
 
+/**
+ * Long-term facts that can be listed, edited and forgotten one by one
+ */
+export type MemoryFactKind = 'relationship' | 'life_event' | 'trigger' | 'calming_factor' | 'sensitivity';
+
+export type MemoryFactSource = 'session' | 'journal' | 'user' | 'unknown';
+
+export interface MemoryProvenance {
+  source: MemoryFactSource;
+  /** Session ids or journal entry ids the fact was learned from */
+  sourceIds: string[];
+  learnedAt: string;
+  lastSeenAt: string;
+  /** 0-1; user-entered and user-edited facts are 1 */
+  confidence: number;
+  timesSeen: number;
+  method?: CompressionMethod;
+  editedAt?: string;
+}
+
+/**
+ * Where a fact is coming from when it's added
+ */
+export interface MemoryProvenanceInput {
+  source: MemoryFactSource;
+  sourceIds?: string[];
+  confidence?: number;
+  method?: CompressionMethod;
+}
+
+export interface MemoryFact {
+  id: string;
+  kind: MemoryFactKind;
+  /** What the user sees and edits */
+  text: string;
+  /** Extra display detail (relationship sentiment, event date) */
+  detail?: string;
+  provenance: MemoryProvenance;
+}
+
+export interface ForgottenFact {
+  id: string;
+  kind: MemoryFactKind;
+  text: string;
+  forgottenAt: string;
+}
+
 /**
  * Complete memory state
  */
@@ -159,7 +227,7 @@ export async function startSession(): Promise<ShortTermMemory> {
     emotionalArc: '',
   };
 
-  await AsyncStorage.setItem(STORAGE_KEYS.SHORT_TERM, JSON.stringify(session));
+  await EncryptedStorage.setItem(STORAGE_KEYS.SHORT_TERM, JSON.stringify(session));
   return session;
 }
 
@@ -168,7 +236,7 @@ export async function startSession(): Promise<ShortTermMemory> {
  */
 export async function getCurrentSession(): Promise<ShortTermMemory | null> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.SHORT_TERM);
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.SHORT_TERM);
     return stored ? JSON.parse(stored) : null;
   } catch (error) {
     console.error('[Memory] Failed to get session:', error);
@@ -212,7 +280,7 @@ export async function addMessageToSession(
       if (energy) session.currentEnergy = energy;
     }
 
-    await AsyncStorage.setItem(STORAGE_KEYS.SHORT_TERM, JSON.stringify(session));
+    await EncryptedStorage.setItem(STORAGE_KEYS.SHORT_TERM, JSON.stringify(session));
   } catch (error) {
     console.error('[Memory] Failed to add message:', error);
   }
@@ -232,7 +300,7 @@ export async function updateSessionTopics(topics: string[]): Promise<void> {
       }
     }
 
-    await AsyncStorage.setItem(STORAGE_KEYS.SHORT_TERM, JSON.stringify(session));
+    await EncryptedStorage.setItem(STORAGE_KEYS.SHORT_TERM, JSON.stringify(session));
   } catch (error) {
     console.error('[Memory] Failed to update topics:', error);
   }
@@ -258,7 +326,7 @@ export async function endSession(): Promise<void> {
     await queueForCompression(session);
 
     // Clear short-term
-    await AsyncStorage.removeItem(STORAGE_KEYS.SHORT_TERM);
+    await EncryptedStorage.removeItem(STORAGE_KEYS.SHORT_TERM);
   } catch (error) {
     console.error('[Memory] Failed to end session:', error);
   }
@@ -273,10 +341,10 @@ export async function endSession(): Promise<void> {
  */
 async function queueForCompression(session: ShortTermMemory): Promise<void> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.PENDING_COMPRESSION);
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.PENDING_COMPRESSION);
     const pending: ShortTermMemory[] = stored ? JSON.parse(stored) : [];
     pending.push(session);
-    await AsyncStorage.setItem(STORAGE_KEYS.PENDING_COMPRESSION, JSON.stringify(pending));
+    await EncryptedStorage.setItem(STORAGE_KEYS.PENDING_COMPRESSION, JSON.stringify(pending));
   } catch (error) {
     console.error('[Memory] Failed to queue for compression:', error);
   }
@@ -287,7 +355,7 @@ async function queueForCompression(session: ShortTermMemory): Promise<void> {
  */
 export async function getPendingForCompression(): Promise<ShortTermMemory[]> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.PENDING_COMPRESSION);
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.PENDING_COMPRESSION);
     return stored ? JSON.parse(stored) : [];
   } catch (error) {
     console.error('[Memory] Failed to get pending:', error);
@@ -299,7 +367,7 @@ export async function getPendingForCompression(): Promise<ShortTermMemory[]> {
  * Clear pending after compression
  */
 export async function clearPendingCompression(): Promise<void> {
-  await AsyncStorage.removeItem(STORAGE_KEYS.PENDING_COMPRESSION);
+  await EncryptedStorage.removeItem(STORAGE_KEYS.PENDING_COMPRESSION);
 }
 
 /**
@@ -307,7 +375,7 @@ export async function clearPendingCompression(): Promise<void> {
  */
 export async function getMidTermMemories(): Promise<MidTermMemory[]> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.MID_TERM);
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.MID_TERM);
     return stored ? JSON.parse(stored) : [];
   } catch (error) {
     console.error('[Memory] Failed to get mid-term:', error);
@@ -336,7 +404,7 @@ export async function saveMidTermMemory(memory: MidTermMemory): Promise<void> {
     );
     const trimmed = sorted.slice(0, MAX_MID_TERM_WEEKS);
 
-    await AsyncStorage.setItem(STORAGE_KEYS.MID_TERM, JSON.stringify(trimmed));
+    await EncryptedStorage.setItem(STORAGE_KEYS.MID_TERM, JSON.stringify(trimmed));
   } catch (error) {
     console.error('[Memory] Failed to save mid-term:', error);
   }
@@ -389,7 +457,7 @@ const DEFAULT_LONG_TERM: LongTermMemory = {
  */
 export async function getLongTermMemory(): Promise<LongTermMemory> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.LONG_TERM);
+    const stored = await EncryptedStorage.getItem(STORAGE_KEYS.LONG_TERM);
     return stored ? { ...DEFAULT_LONG_TERM, ...JSON.parse(stored) } : DEFAULT_LONG_TERM;
   } catch (error) {
     console.error('[Memory] Failed to get long-term:', error);
@@ -410,7 +478,7 @@ export async function updateLongTermMemory(
       ...updates,
       lastUpdated: new Date().toISOString(),
     };
-    await AsyncStorage.setItem(STORAGE_KEYS.LONG_TERM, JSON.stringify(updated));
+    await EncryptedStorage.setItem(STORAGE_KEYS.LONG_TERM, JSON.stringify(updated));
   } catch (error) {
     console.error('[Memory] Failed to update long-term:', error);
   }
@@ -419,67 +487,371 @@ export async function updateLongTermMemory(
 /**
  * Add a relationship to long-term memory
  */
-export async function addRelationship(entry: RelationshipEntry): Promise<void> {
+export async function addRelationship(
+  entry: RelationshipEntry,
+  provenance?: MemoryProvenanceInput
+): Promise<void> {
   const memory = await getLongTermMemory();
+  if (isForgotten(memory, 'relationship', entry.name)) return;
+
+  const id = getFactId('relationship', entry.name);
   const existing = memory.lifeContext.relationships.findIndex(
     r => r.name.toLowerCase() === entry.name.toLowerCase()
   );
 
+  // Don't let a learned guess overwrite what the user corrected
+  const userEdited = !!memory.provenance?.[id]?.editedAt && provenance?.source !== 'user';
   if (existing >= 0) {
-    memory.lifeContext.relationships[existing] = entry;
+    if (!userEdited) memory.lifeContext.relationships[existing] = entry;
   } else {
     memory.lifeContext.relationships.push(entry);
   }
 
-  await updateLongTermMemory({ lifeContext: memory.lifeContext });
+  await updateLongTermMemory({
+    lifeContext: memory.lifeContext,
+    provenance: recordProvenance(memory, id, provenance),
+  });
 }
 
 /**
  * Add a life event to long-term memory
  */
-export async function addLifeEvent(event: LifeEvent): Promise<void> {
+export async function addLifeEvent(event: LifeEvent, provenance?: MemoryProvenanceInput): Promise<void> {
   const memory = await getLongTermMemory();
-  memory.lifeContext.majorLifeEvents.push(event);
+  if (isForgotten(memory, 'life_event', event.description)) return;
+
+  const id = getFactId('life_event', event.description);
+  const duplicate = memory.lifeContext.majorLifeEvents.some(e => getFactId('life_event', e.description) === id);
+  if (!duplicate) {
+    memory.lifeContext.majorLifeEvents.push(event);
+  }
 
   // Keep only last 50 events
   if (memory.lifeContext.majorLifeEvents.length > 50) {
     memory.lifeContext.majorLifeEvents = memory.lifeContext.majorLifeEvents.slice(-50);
   }
 
-  await updateLongTermMemory({ lifeContext: memory.lifeContext });
+  await updateLongTermMemory({
+    lifeContext: memory.lifeContext,
+    provenance: recordProvenance(memory, id, provenance),
+  });
 }
 
 /**
  * Add a pattern trigger
  */
-export async function addTrigger(trigger: string): Promise<void> {
+export async function addTrigger(trigger: string, provenance?: MemoryProvenanceInput): Promise<void> {
   const memory = await getLongTermMemory();
+  if (isForgotten(memory, 'trigger', trigger)) return;
   if (!memory.patterns.triggers.includes(trigger)) {
     memory.patterns.triggers.push(trigger);
-    await updateLongTermMemory({ patterns: memory.patterns });
   }
+  await updateLongTermMemory({
+    patterns: memory.patterns,
+    provenance: recordProvenance(memory, getFactId('trigger', trigger), provenance),
+  });
 }
 
 /**
  * Add a calming factor
  */
-export async function addCalmingFactor(factor: string): Promise<void> {
+export async function addCalmingFactor(factor: string, provenance?: MemoryProvenanceInput): Promise<void> {
   const memory = await getLongTermMemory();
+  if (isForgotten(memory, 'calming_factor', factor)) return;
   if (!memory.patterns.calmingFactors.includes(factor)) {
     memory.patterns.calmingFactors.push(factor);
-    await updateLongTermMemory({ patterns: memory.patterns });
   }
+  await updateLongTermMemory({
+    patterns: memory.patterns,
+    provenance: recordProvenance(memory, getFactId('calming_factor', factor), provenance),
+  });
 }
 
 /**
  * Add a sensitivity topic
  */
-export async function addSensitivity(topic: string): Promise<void> {
+export async function addSensitivity(topic: string, provenance?: MemoryProvenanceInput): Promise<void> {
   const memory = await getLongTermMemory();
+  if (isForgotten(memory, 'sensitivity', topic)) return;
   if (!memory.sensitivities.includes(topic)) {
     memory.sensitivities.push(topic);
-    await updateLongTermMemory({ sensitivities: memory.sensitivities });
   }
+  await updateLongTermMemory({
+    sensitivities: memory.sensitivities,
+    provenance: recordProvenance(memory, getFactId('sensitivity', topic), provenance),
+  });
+}
+
+// ============================================
+// PROVENANCE, EDITING & FORGETTING
+// ============================================
+
+const MAX_SOURCE_IDS = 10;
+/** Confidence gained each time a learned fact is seen again */
+const CONFIDENCE_STEP = 0.05;
+const MAX_LEARNED_CONFIDENCE = 0.95;
+const DEFAULT_CONFIDENCE = 0.5;
+
+const FACT_STOPWORDS = new Set(['a', 'an', 'the', 'my', 'of', 'to', 'and', 'or', 'with', 'about', 'at', 'in', 'on', 'for']);
+
+function normalizeFactText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9' ]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function factWords(text: string): string[] {
+  return normalizeFactText(text).split(' ').filter(w => w && !FACT_STOPWORDS.has(w));
+}
+
+function getFactId(kind: MemoryFactKind, text: string): string {
+  return `${kind}:${normalizeFactText(text)}`;
+}
+
+/**
+ * A fact counts as forgotten if it has the same kind and contains every
+ * word of something the user forgot ("deadlines" also blocks "work
+ * deadlines"), so a rephrased version isn't quietly learned back.
+ * Relationships match on the person's name.
+ */
+function isForgotten(memory: LongTermMemory, kind: MemoryFactKind, text: string): boolean {
+  const words = new Set(factWords(text));
+  return (memory.forgotten || []).some(f => {
+    if (f.kind !== kind) return false;
+    if (f.id === getFactId(kind, text)) return true;
+    // People are matched by name only
+    if (kind === 'relationship') return false;
+    const forgottenWords = factWords(f.text);
+    return forgottenWords.length > 0 && forgottenWords.every(w => words.has(w));
+  });
+}
+
+/**
+ * Merge a sighting of a fact into its provenance record
+ */
+function recordProvenance(
+  memory: LongTermMemory,
+  id: string,
+  input: MemoryProvenanceInput = { source: 'unknown' }
+): Record<string, MemoryProvenance> {
+  const now = new Date().toISOString();
+  const all = { ...(memory.provenance || {}) };
+  const existing = all[id];
+  const confidence = input.source === 'user' ? 1 : input.confidence ?? DEFAULT_CONFIDENCE;
+
+  if (!existing) {
+    all[id] = {
+      source: input.source,
+      sourceIds: (input.sourceIds || []).slice(-MAX_SOURCE_IDS),
+      learnedAt: now,
+      lastSeenAt: now,
+      confidence,
+      timesSeen: 1,
+      method: input.method,
+    };
+    return all;
+  }
+
+  const sourceIds = Array.from(new Set([...existing.sourceIds, ...(input.sourceIds || [])]));
+  all[id] = {
+    ...existing,
+    sourceIds: sourceIds.slice(-MAX_SOURCE_IDS),
+    lastSeenAt: now,
+    timesSeen: existing.timesSeen + 1,
+    confidence: existing.confidence >= 1 || confidence >= 1
+      ? 1
+      : Math.min(MAX_LEARNED_CONFIDENCE, Math.max(existing.confidence, confidence) + CONFIDENCE_STEP),
+  };
+  return all;
+}
+
+function getProvenance(memory: LongTermMemory, id: string): MemoryProvenance {
+  return memory.provenance?.[id] ?? {
+    source: 'unknown',
+    sourceIds: [],
+    learnedAt: memory.lastUpdated,
+    lastSeenAt: memory.lastUpdated,
+    confidence: DEFAULT_CONFIDENCE,
+    timesSeen: 1,
+  };
+}
+
+/**
+ * Every editable long-term fact with where it came from
+ */
+export async function getMemoryFacts(): Promise<MemoryFact[]> {
+  const memory = await getLongTermMemory();
+  const facts: MemoryFact[] = [];
+  const add = (kind: MemoryFactKind, key: string, text: string, detail?: string) => {
+    const id = getFactId(kind, key);
+    facts.push({ id, kind, text, detail, provenance: getProvenance(memory, id) });
+  };
+
+  memory.lifeContext.relationships.forEach(r =>
+    add('relationship', r.name, `${r.name} (${r.relationship})`, r.sentiment)
+  );
+  memory.lifeContext.majorLifeEvents.forEach(e =>
+    add('life_event', e.description, e.description, e.date)
+  );
+  memory.patterns.triggers.forEach(t => add('trigger', t, t));
+  memory.patterns.calmingFactors.forEach(f => add('calming_factor', f, f));
+  memory.sensitivities.forEach(t => add('sensitivity', t, t));
+
+  return facts;
+}
+
+/**
+ * Facts matching what the user typed ("/forget my sister"): exact text
+ * first, otherwise every fact containing all the typed words
+ */
+export async function findMemoryFacts(query: string): Promise<MemoryFact[]> {
+  const facts = await getMemoryFacts();
+  const normalized = normalizeFactText(query);
+  if (!normalized) return [];
+
+  const exact = facts.filter(f => normalizeFactText(f.text) === normalized || f.id.endsWith(`:${normalized}`));
+  if (exact.length > 0) return exact;
+
+  const words = factWords(query);
+  if (words.length === 0) return [];
+  return facts.filter(f => {
+    const factText = normalizeFactText(`${f.text} ${f.detail || ''}`);
+    return words.every(w => factText.includes(w));
+  });
+}
+
+/**
+ * Remove a fact from long-term memory without remembering it was there
+ */
+function removeFact(memory: LongTermMemory, fact: MemoryFact): void {
+  const matches = (text: string) => getFactId(fact.kind, text) === fact.id;
+  switch (fact.kind) {
+    case 'relationship':
+      memory.lifeContext.relationships = memory.lifeContext.relationships.filter(r => !matches(r.name));
+      break;
+    case 'life_event':
+      memory.lifeContext.majorLifeEvents = memory.lifeContext.majorLifeEvents.filter(e => !matches(e.description));
+      break;
+    case 'trigger':
+      memory.patterns.triggers = memory.patterns.triggers.filter(t => !matches(t));
+      break;
+    case 'calming_factor':
+      memory.patterns.calmingFactors = memory.patterns.calmingFactors.filter(f => !matches(f));
+      break;
+    case 'sensitivity':
+      memory.sensitivities = memory.sensitivities.filter(t => !matches(t));
+      break;
+  }
+  if (memory.provenance) {
+    delete memory.provenance[fact.id];
+  }
+}
+
+/**
+ * Forget a fact and stop it from being learned again
+ */
+export async function forgetMemoryFact(factId: string): Promise<MemoryFact | null> {
+  const fact = (await getMemoryFacts()).find(f => f.id === factId);
+  if (!fact) return null;
+
+  const memory = await getLongTermMemory();
+  removeFact(memory, fact);
+  const forgotten = (memory.forgotten || []).filter(f => f.id !== fact.id);
+  forgotten.push({
+    id: fact.id,
+    kind: fact.kind,
+    text: fact.text,
+    forgottenAt: new Date().toISOString(),
+  });
+
+  await updateLongTermMemory({
+    lifeContext: memory.lifeContext,
+    patterns: memory.patterns,
+    sensitivities: memory.sensitivities,
+    provenance: memory.provenance,
+    forgotten,
+  });
+  info('services', 'Memory fact forgotten', { kind: fact.kind }, 'memoryTierService');
+  return fact;
+}
+
+/**
+ * Facts the user has forgotten, newest first
+ */
+export async function getForgottenFacts(): Promise<ForgottenFact[]> {
+  const memory = await getLongTermMemory();
+  return [...(memory.forgotten || [])].sort((a, b) => b.forgottenAt.localeCompare(a.forgottenAt));
+}
+
+/**
+ * Let a forgotten fact be learned again (it doesn't come back by itself)
+ */
+export async function unforgetMemoryFact(factId: string): Promise<void> {
+  const memory = await getLongTermMemory();
+  await updateLongTermMemory({
+    forgotten: (memory.forgotten || []).filter(f => f.id !== factId),
+  });
+}
+
+/**
+ * Correct a fact's text. Relationships take "Name (relationship)" or just
+ * the relationship. The edit is marked as the user's and kept at full
+ * confidence; later compressions won't overwrite it.
+ */
+export async function updateMemoryFact(factId: string, text: string): Promise<MemoryFact | null> {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const fact = (await getMemoryFacts()).find(f => f.id === factId);
+  if (!fact) return null;
+
+  const memory = await getLongTermMemory();
+  const now = new Date().toISOString();
+  const previous = getProvenance(memory, fact.id);
+  let newKey = trimmed;
+
+  const replace = (list: string[]) =>
+    list.map(item => (getFactId(fact.kind, item) === fact.id ? trimmed : item));
+
+  switch (fact.kind) {
+    case 'relationship': {
+      const match = trimmed.match(/^(.+?)\s*\((.+)\)$/);
+      memory.lifeContext.relationships = memory.lifeContext.relationships.map(r => {
+        if (getFactId('relationship', r.name) !== fact.id) return r;
+        const updated = match
+          ? { ...r, name: match[1].trim(), relationship: match[2].trim() }
+          : { ...r, relationship: trimmed };
+        newKey = updated.name;
+        return updated;
+      });
+      break;
+    }
+    case 'life_event':
+      memory.lifeContext.majorLifeEvents = memory.lifeContext.majorLifeEvents.map(e =>
+        getFactId('life_event', e.description) === fact.id ? { ...e, description: trimmed } : e
+      );
+      break;
+    case 'trigger':
+      memory.patterns.triggers = replace(memory.patterns.triggers);
+      break;
+    case 'calming_factor':
+      memory.patterns.calmingFactors = replace(memory.patterns.calmingFactors);
+      break;
+    case 'sensitivity':
+      memory.sensitivities = replace(memory.sensitivities);
+      break;
+  }
+
+  const newId = getFactId(fact.kind, newKey);
+  const provenance = { ...(memory.provenance || {}) };
+  delete provenance[fact.id];
+  provenance[newId] = { ...previous, confidence: 1, editedAt: now, lastSeenAt: now };
+
+  await updateLongTermMemory({
+    lifeContext: memory.lifeContext,
+    patterns: memory.patterns,
+    sensitivities: memory.sensitivities,
+    provenance,
+  });
+  return (await getMemoryFacts()).find(f => f.id === newId) ?? null;
 }
 
 // ============================================
@@ -541,6 +913,118 @@ export interface CompressionResult {
   };
 }
 
+/** How much to trust facts each compression path extracts */
+const COMPRESSION_CONFIDENCE: Record<CompressionMethod, number> = {
+  claude: 0.7,
+  local_llm: 0.6,
+  extractive: 0.5,
+};
+
+/**
+ * Format pending sessions as transcripts for an LLM compression prompt
+ */
+function formatSessionsForCompression(pending: ShortTermMemory[]): string {
+  return pending.map((s, i) => {
+    const messages = s.messages.map(m =>
+      `[${m.role}${m.mood ? ` (${m.mood})` : ''}]: ${m.content}`
+    ).join('\n');
+    return `SESSION ${i + 1} (${s.startTime}):\nTopics: ${s.topicsDiscussed.join(', ')}\nArc: ${s.emotionalArc}\n${messages}`;
+  }).join('\n\n---\n\n');
+}
+
+/**
+ * Pull the JSON compression result out of an LLM reply
+ */
+function parseCompressionResult(text: string | undefined): CompressionResult | null {
+  if (!text) {
+    console.error('[Memory] No compression response');
+    return null;
+  }
+
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    console.error('[Memory] Could not parse compression result');
+    return null;
+  }
+
+  try {
+    const result = JSON.parse(jsonMatch[0]) as CompressionResult;
+    if (!result.weekly?.summary) return null;
+    return {
+      weekly: {
+        summary: result.weekly.summary,
+        themes: result.weekly.themes || [],
+        emotionalPattern: result.weekly.emotionalPattern || '',
+        notableMoments: result.weekly.notableMoments || [],
+        flags: result.weekly.flags || [],
+      },
+      longTerm: {
+        relationships: result.longTerm?.relationships || [],
+        lifeEvents: result.longTerm?.lifeEvents || [],
+        triggers: result.longTerm?.triggers || [],
+        calmingFactors: result.longTerm?.calmingFactors || [],
+      },
+    };
+  } catch (error) {
+    console.error('[Memory] Invalid compression JSON:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a compression result as this week's summary, fold the extracted
+ * facts into long-term memory and clear the pending queue
+ */
+async function applyCompressionResult(
+  pending: ShortTermMemory[],
+  result: CompressionResult,
+  method: CompressionMethod
+): Promise<void> {
+  const weekId = getCurrentWeekId();
+  const firstSession = pending[0];
+  const lastSession = pending[pending.length - 1];
+
+  const midTermMemory: MidTermMemory = {
+    weekId,
+    startDate: firstSession.startTime,
+    endDate: lastSession.startTime,
+    sessionCount: pending.length,
+    summary: result.weekly.summary,
+    themes: result.weekly.themes,
+    emotionalPattern: result.weekly.emotionalPattern,
+    notableMoments: result.weekly.notableMoments,
+    flags: result.weekly.flags,
+    compressionMethod: method,
+  };
+
+  await saveMidTermMemory(midTermMemory);
+
+  // Update long-term memory with extracted info
+  const provenance: MemoryProvenanceInput = {
+    source: 'session',
+    sourceIds: pending.map(session => session.sessionId),
+    confidence: COMPRESSION_CONFIDENCE[method],
+    method,
+  };
+  for (const rel of result.longTerm.relationships) {
+    await addRelationship(rel, provenance);
+  }
+  for (const event of result.longTerm.lifeEvents) {
+    await addLifeEvent(event, provenance);
+  }
+  for (const trigger of result.longTerm.triggers) {
+    await addTrigger(trigger, provenance);
+  }
+  for (const factor of result.longTerm.calmingFactors) {
+    await addCalmingFactor(factor, provenance);
+  }
+
+  // Clear pending
+  await clearPendingCompression();
+
+  console.log('[Memory] Compression complete:', weekId, `(${method})`);
+}
+
 /**
  * Compress pending sessions into mid-term memory
  * Uses Claude for compression, stores result locally
@@ -550,15 +1034,7 @@ export async function compressToMidTerm(apiKey: string): Promise<boolean> {
     const pending = await getPendingForCompression();
     if (pending.length === 0) return false;
 
-    // Format sessions for Claude
-    const sessionsText = pending.map((s, i) => {
-      const messages = s.messages.map(m =>
-        `[${m.role}${m.mood ? ` (${m.mood})` : ''}]: ${m.content}`
-      ).join('\n');
-      return `SESSION ${i + 1} (${s.startTime}):\nTopics: ${s.topicsDiscussed.join(', ')}\nArc: ${s.emotionalArc}\n${messages}`;
-    }).join('\n\n---\n\n');
-
-    const prompt = COMPRESSION_PROMPT.replace('{sessions}', sessionsText);
+    const prompt = COMPRESSION_PROMPT.replace('{sessions}', formatSessionsForCompression(pending));
 
     // Call Claude for compression
     const response = await fetch('https://api.anthropic.com/v1/messages', {
@@ -582,64 +1058,81 @@ export async function compressToMidTerm(apiKey: string): Promise<boolean> {
     }
 
     const data = await response.json();
-    const text = data.content?.[0]?.text;
+    const result = parseCompressionResult(data.content?.[0]?.text);
+    if (!result) return false;
 
-    if (!text) {
-      console.error('[Memory] No compression response');
-      return false;
-    }
-
-    // Parse result
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error('[Memory] Could not parse compression result');
-      return false;
-    }
-
-    const result: CompressionResult = JSON.parse(jsonMatch[0]);
-
-    // Save weekly summary to mid-term
-    const weekId = getCurrentWeekId();
-    const firstSession = pending[0];
-    const lastSession = pending[pending.length - 1];
-
-    const midTermMemory: MidTermMemory = {
-      weekId,
-      startDate: firstSession.startTime,
-      endDate: lastSession.startTime,
-      sessionCount: pending.length,
-      summary: result.weekly.summary,
-      themes: result.weekly.themes,
-      emotionalPattern: result.weekly.emotionalPattern,
-      notableMoments: result.weekly.notableMoments,
-      flags: result.weekly.flags,
-    };
+    await applyCompressionResult(pending, result, 'claude');
+    return true;
+  } catch (error) {
+    console.error('[Memory] Compression failed:', error);
+    return false;
+  }
+}
 
-    await saveMidTermMemory(midTermMemory);
+/**
+ * The active provider, if it runs without a cloud API key (Ollama,
+ * llama.cpp, a self-hosted server) and is reachable right now
+ */
+async function getReadyLocalProvider(): Promise<LLMProvider | null> {
+  const provider = await getActiveProvider();
+  if (getProviderCapabilities(provider).requiresAPIKey) return null;
+  if (!getProviderAdapter(provider)) return null;
+  return (await isProviderReady(provider)) ? provider : null;
+}
 
-    // Update long-term memory with extracted info
-    for (const rel of result.longTerm.relationships) {
-      await addRelationship(rel);
-    }
-    for (const event of result.longTerm.lifeEvents) {
-      await addLifeEvent(event);
-    }
-    for (const trigger of result.longTerm.triggers) {
-      await addTrigger(trigger);
-    }
-    for (const factor of result.longTerm.calmingFactors) {
-      await addCalmingFactor(factor);
+/**
+ * Compress pending sessions without Claude: through the active local
+ * provider when one is ready, otherwise extractively on device (no
+ * network at all). Never fails for lack of a model.
+ */
+export async function compressToMidTermLocally(): Promise<CompressionMethod | null> {
+  try {
+    const pending = await getPendingForCompression();
+    if (pending.length === 0) return null;
+
+    const provider = await getReadyLocalProvider();
+    if (provider) {
+      try {
+        const adapter = getProviderAdapter(provider)!;
+        const reply = await adapter.chat(
+          {
+            system: 'You compress conversation transcripts into structured memory. Reply with JSON only.',
+            messages: [{ role: 'user', content: COMPRESSION_PROMPT.replace('{sessions}', formatSessionsForCompression(pending)) }],
+            maxTokens: 1000,
+            temperature: 0.2,
+          },
+          await getProviderConfig(provider)
+        );
+        const result = parseCompressionResult(reply.text);
+        if (result) {
+          await applyCompressionResult(pending, result, 'local_llm');
+          return 'local_llm';
+        }
+      } catch (error) {
+        console.warn('[Memory] Local model compression failed, using extractive:', error);
+      }
     }
 
-    // Clear pending
-    await clearPendingCompression();
-
-    console.log('[Memory] Compression complete:', weekId);
-    return true;
+    await applyCompressionResult(pending, compressSessionsExtractively(pending), 'extractive');
+    return 'extractive';
   } catch (error) {
-    console.error('[Memory] Compression failed:', error);
-    return false;
+    console.error('[Memory] Local compression failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Compress whatever is pending the best way available: Claude when it's
+ * the active provider and a key is set, otherwise compressToMidTermLocally
+ */
+export async function compressPendingMemories(apiKey?: string | null): Promise<CompressionMethod | null> {
+  const pending = await getPendingForCompression();
+  if (pending.length === 0) return null;
+
+  if (apiKey && (await getActiveProvider()) === 'claude') {
+    if (await compressToMidTerm(apiKey)) return 'claude';
   }
+  return compressToMidTermLocally();
 }
 
 // ============================================
@@ -649,8 +1142,11 @@ export async function compressToMidTerm(apiKey: string): Promise<boolean> {
 /**
  * Generate memory context for LLM prompt
  * This is what gets injected into Claude/local LLM
+ *
+ * recentWeeks: how many weekly summaries to include. The coach uses 1 and
+ * lets memoryRetrievalService pull in older weeks when they're relevant.
  */
-export async function getMemoryContextForLLM(): Promise<string> {
+export async function getMemoryContextForLLM(options: { recentWeeks?: number } = {}): Promise<string> {
   const parts: string[] = [];
 
   // Long-term context (most important)
@@ -694,7 +1190,7 @@ export async function getMemoryContextForLLM(): Promise<string> {
 
   // Recent mid-term context (last 2 weeks)
   const midTerm = await getMidTermMemories();
-  const recentWeeks = midTerm.slice(0, 2);
+  const recentWeeks = midTerm.slice(0, options.recentWeeks ?? 2);
 
   if (recentWeeks.length > 0) {
     const weekSummaries = recentWeeks.map(w =>
@@ -755,13 +1251,13 @@ export async function importMemory(json: string): Promise<boolean> {
     const data = JSON.parse(json);
 
     if (data.shortTerm) {
-      await AsyncStorage.setItem(STORAGE_KEYS.SHORT_TERM, JSON.stringify(data.shortTerm));
+      await EncryptedStorage.setItem(STORAGE_KEYS.SHORT_TERM, JSON.stringify(data.shortTerm));
     }
     if (data.midTerm) {
-      await AsyncStorage.setItem(STORAGE_KEYS.MID_TERM, JSON.stringify(data.midTerm));
+      await EncryptedStorage.setItem(STORAGE_KEYS.MID_TERM, JSON.stringify(data.midTerm));
     }
     if (data.longTerm) {
-      await AsyncStorage.setItem(STORAGE_KEYS.LONG_TERM, JSON.stringify(data.longTerm));
+      await EncryptedStorage.setItem(STORAGE_KEYS.LONG_TERM, JSON.stringify(data.longTerm));
     }
 
     return true;
@@ -775,7 +1271,7 @@ export async function importMemory(json: string): Promise<boolean> {
  * Clear all memory (factory reset)
  */
 export async function clearAllMemory(): Promise<void> {
-  await AsyncStorage.multiRemove([
+  await EncryptedStorage.multiRemove([
     STORAGE_KEYS.SHORT_TERM,
     STORAGE_KEYS.MID_TERM,
     STORAGE_KEYS.LONG_TERM,
@@ -0,0 +1,767 @@
+/**
+ * Notification Scheduler Service
+ *
+ * One place that decides when Mood Leaf pings. Services either register
+ * a collector for recurring reminders (journal check-ins, skill practice,
+ * cycle, sparks) or push a one-off with requestNotification (limit
+ * alerts, habit and drink timers, macros).
+ *
+ * Each refresh plans the next 7 days, so reminders keep coming when the
+ * app isn't opened for a while:
+ * - Quiet hours: nothing lands inside them except timers the user started
+ * - Daily budget: lowest-priority reminders are dropped first
+ * - Spacing: reminders are spread out instead of clustering
+ * - Calendar: flexible reminders move out of meetings
+ * - Learned hours: flexible reminders drift toward hours the user
+ *   actually responds in
+ *
+ * Following Mood Leaf Ethics: fewer, better-timed nudges.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, Platform } from 'react-native';
+import { info } from './loggingService';
+import { fetchUpcomingEvents } from './calendarService';
+
+// Optional dependency (native scheduled notifications)
+let Notifications: typeof import('expo-notifications') | null = null;
+
+try {
+  Notifications = require('expo-notifications');
+} catch {
+  console.log('[NotificationScheduler] expo-notifications not available');
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ReminderSource =
+  | 'journal'
+  | 'skill'
+  | 'cycle'
+  | 'spark'
+  | 'limit_alert'
+  | 'habit_timer'
+  | 'drink_pacing'
+  | 'command'
+  | 'event_prep'
+  | 'event_debrief';
+
+/**
+ * - critical: timers the user just started; exact, no rules apply
+ * - high: alerts about something that just happened; skip budget and spacing
+ * - normal: reminders the user set up
+ * - low: suggestions, first to go
+ */
+export type ReminderPriority = 'critical' | 'high' | 'normal' | 'low';
+
+export interface ReminderRequest {
+  /** Stable id; requesting the same id again replaces it */
+  id: string;
+  source: ReminderSource;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  priority: ReminderPriority;
+  /** When it should fire (ISO); omit for as soon as allowed */
+  at?: string;
+  /** How far it may move either way, in minutes (0 = only later if blocked) */
+  flexMinutes?: number;
+  /** Don't deliver after this (ISO) */
+  expiresAt?: string;
+  /** Android notification channel */
+  channelId?: string;
+  sound?: boolean;
+}
+
+/**
+ * Returns the reminders a service wants between start and end
+ */
+export type ReminderCollector = (start: Date, end: Date) => Promise<ReminderRequest[]>;
+
+export interface NotificationSchedulerSettings {
+  quietHoursEnabled: boolean;
+  quietStartHour: number;
+  quietEndHour: number;
+  /** Most reminders per day (critical timers don't count) */
+  dailyBudget: number;
+  minSpacingMinutes: number;
+  avoidCalendarEvents: boolean;
+  learnResponseTimes: boolean;
+  /** A daily creative spark, timed for when you tend to respond */
+  sparkNudges: boolean;
+  /** Prep before stressful calendar events and a debrief prompt after */
+  eventCoaching: boolean;
+}
+
+export type ScheduleAdjustment = 'quiet_hours' | 'calendar' | 'spacing' | 'learned_hour';
+export type SuppressReason = 'quiet_hours' | 'budget' | 'expired' | 'no_slot' | 'pending_limit';
+
+export interface PlannedNotification {
+  id: string;
+  source: ReminderSource;
+  priority: ReminderPriority;
+  title: string;
+  body: string;
+  requestedFor: string;
+  status: 'scheduled' | 'suppressed';
+  scheduledFor?: string;
+  /** Why it moved from the requested time */
+  adjustment?: ScheduleAdjustment;
+  reason?: SuppressReason;
+}
+
+interface SentNotification {
+  id: string;
+  source: ReminderSource;
+  priority: ReminderPriority;
+  sentAt: string;
+  respondedAt?: string;
+}
+
+/**
+ * Per-hour delivery and response counts (index = hour of day)
+ */
+export interface ResponseStats {
+  sent: number[];
+  responded: number[];
+}
+
+export interface PlanContext {
+  now: Date;
+  settings: NotificationSchedulerSettings;
+  /** Calendar events to avoid, already padded */
+  busy: { start: number; end: number }[];
+  /** Recently sent, for budget and spacing */
+  sent: { sentAt: string; priority: ReminderPriority }[];
+  stats: ResponseStats;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const STORAGE_KEYS = {
+  SETTINGS: 'moodleaf_notification_scheduler_settings',
+  REQUESTS: 'moodleaf_notification_requests',
+  PLAN: 'moodleaf_notification_plan',
+  SENT: 'moodleaf_notification_sent',
+  STATS: 'moodleaf_notification_response_stats',
+};
+
+const DEFAULT_SETTINGS: NotificationSchedulerSettings = {
+  quietHoursEnabled: true,
+  quietStartHour: 22,
+  quietEndHour: 7,
+  dailyBudget: 3,
+  minSpacingMinutes: 90,
+  avoidCalendarEvents: true,
+  learnResponseTimes: true,
+  sparkNudges: false,
+  eventCoaching: true,
+};
+
+const PRIORITY_RANK: Record<ReminderPriority, number> = {
+  critical: 3,
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+const DEFAULT_FLEX_MINUTES: Record<ReminderPriority, number> = {
+  critical: 0,
+  high: 0,
+  normal: 60,
+  low: 180,
+};
+
+const HORIZON_HOURS = 7 * 24;
+/** Most notifications queued with the OS at once (iOS keeps only 64) */
+const MAX_PENDING_NOTIFICATIONS = 60;
+const SLOT_STEP_MINUTES = 15;
+/** Padding around calendar events */
+const CALENDAR_BUFFER_MINUTES = 10;
+/** Sent notifications kept for budget, spacing and response matching */
+const SENT_RETENTION_DAYS = 7;
+/** A response this long after delivery still counts */
+const RESPONSE_WINDOW_MINUTES = 120;
+/** Deliveries needed before learned hours influence timing */
+const MIN_LEARNING_SAMPLES = 10;
+/** How much a fully better hour outweighs moving a whole flex window */
+const LEARNING_WEIGHT = 1;
+const MINUTE = 60 * 1000;
+
+// ============================================
+// SETTINGS
+// ============================================
+
+export async function getSchedulerSettings(): Promise<NotificationSchedulerSettings> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('[NotificationScheduler] Failed to load settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Save settings and replan
+ */
+export async function updateSchedulerSettings(
+  updates: Partial<NotificationSchedulerSettings>
+): Promise<NotificationSchedulerSettings> {
+  const settings = { ...(await getSchedulerSettings()), ...updates };
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+  } catch (error) {
+    console.error('[NotificationScheduler] Failed to save settings:', error);
+  }
+  await refreshNotificationSchedule();
+  return settings;
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+const collectors = new Map<string, ReminderCollector>();
+
+/**
+ * Register (or replace) a collector for a service's recurring reminders
+ */
+export function registerReminderCollector(id: string, collector: ReminderCollector): void {
+  collectors.set(id, collector);
+}
+
+export function unregisterReminderCollector(id: string): boolean {
+  return collectors.delete(id);
+}
+
+/**
+ * Ask for a one-off notification. Returns how it was planned.
+ */
+export async function requestNotification(request: ReminderRequest): Promise<PlannedNotification | undefined> {
+  const requests = await loadJSON<ReminderRequest[]>(STORAGE_KEYS.REQUESTS, []);
+  const updated = [...requests.filter(r => r.id !== request.id), request];
+  await AsyncStorage.setItem(STORAGE_KEYS.REQUESTS, JSON.stringify(updated));
+
+  const plan = await refreshNotificationSchedule();
+  return plan.find(p => p.id === request.id);
+}
+
+/**
+ * Withdraw a one-off notification that hasn't fired yet
+ */
+export async function cancelNotificationRequest(id: string): Promise<void> {
+  const requests = await loadJSON<ReminderRequest[]>(STORAGE_KEYS.REQUESTS, []);
+  if (!requests.some(r => r.id === id)) return;
+  await AsyncStorage.setItem(STORAGE_KEYS.REQUESTS, JSON.stringify(requests.filter(r => r.id !== id)));
+  await refreshNotificationSchedule();
+}
+
+// ============================================
+// PLANNING
+// ============================================
+
+function isQuietTime(date: Date, settings: NotificationSchedulerSettings): boolean {
+  if (!settings.quietHoursEnabled || settings.quietStartHour === settings.quietEndHour) return false;
+  const hour = date.getHours() + date.getMinutes() / 60;
+  return settings.quietStartHour > settings.quietEndHour
+    ? hour >= settings.quietStartHour || hour < settings.quietEndHour
+    : hour >= settings.quietStartHour && hour < settings.quietEndHour;
+}
+
+/**
+ * First moment at or after date that's outside quiet hours
+ */
+function nextAllowedTime(date: Date, settings: NotificationSchedulerSettings): Date {
+  if (!isQuietTime(date, settings)) return date;
+  const end = new Date(date);
+  end.setHours(settings.quietEndHour, 0, 0, 0);
+  if (end <= date) end.setDate(end.getDate() + 1);
+  return end;
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+/**
+ * Smoothed response rate for an hour, or null while there's too little data
+ */
+function getResponseRate(stats: ResponseStats, hour: number): number | null {
+  const total = stats.sent.reduce((a, b) => a + b, 0);
+  if (total < MIN_LEARNING_SAMPLES) return null;
+  return (stats.responded[hour] + 1) / (stats.sent[hour] + 2);
+}
+
+/**
+ * Place every request into the next HORIZON_HOURS. Pure, so it can be
+ * reasoned about and previewed without touching the OS scheduler.
+ */
+export function planReminders(requests: ReminderRequest[], context: PlanContext): PlannedNotification[] {
+  const { now, settings, busy, stats } = context;
+  const nowMs = now.getTime();
+  const horizonEnd = nowMs + HORIZON_HOURS * 60 * MINUTE;
+
+  // Times already taken, for spacing; counts per day, for the budget
+  const taken: number[] = [];
+  const perDay = new Map<string, number>();
+  for (const sent of context.sent) {
+    if (sent.priority === 'critical') continue;
+    const sentAt = new Date(sent.sentAt);
+    taken.push(sentAt.getTime());
+    perDay.set(dayKey(sentAt), (perDay.get(dayKey(sentAt)) || 0) + 1);
+  }
+
+  const requestedTime = (r: ReminderRequest) => Math.max(nowMs, r.at ? new Date(r.at).getTime() : nowMs);
+  const ordered = [...requests].sort((a, b) =>
+    PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || requestedTime(a) - requestedTime(b)
+  );
+
+  const plan: PlannedNotification[] = [];
+  let scheduledCount = 0;
+  for (const request of ordered) {
+    const requested = requestedTime(request);
+    // Later requests wait for a future refresh
+    if (requested > horizonEnd) continue;
+    const expires = request.expiresAt ? new Date(request.expiresAt).getTime() : Infinity;
+    const entry: PlannedNotification = {
+      id: request.id,
+      source: request.source,
+      priority: request.priority,
+      title: request.title,
+      body: request.body,
+      requestedFor: new Date(requested).toISOString(),
+      status: 'suppressed',
+    };
+    plan.push(entry);
+
+    if (expires <= nowMs) {
+      entry.reason = 'expired';
+      continue;
+    }
+
+    // Highest priority first, so whatever is left waits for a later refresh
+    if (scheduledCount >= MAX_PENDING_NOTIFICATIONS) {
+      entry.reason = 'pending_limit';
+      continue;
+    }
+
+    if (request.priority === 'critical') {
+      entry.status = 'scheduled';
+      entry.scheduledFor = entry.requestedFor;
+      scheduledCount++;
+      continue;
+    }
+
+    const isReminder = request.priority === 'normal' || request.priority === 'low';
+    const flex = (request.flexMinutes ?? DEFAULT_FLEX_MINUTES[request.priority]) * MINUTE;
+    const requestedRate = settings.learnResponseTimes
+      ? getResponseRate(stats, new Date(requested).getHours())
+      : null;
+
+    // Why a time can't be used (null = usable)
+    const blockedBy = (time: number): ScheduleAdjustment | null => {
+      const date = new Date(time);
+      if (isQuietTime(date, settings)) return 'quiet_hours';
+      if (isReminder && busy.some(b => time >= b.start && time < b.end)) return 'calendar';
+      if (isReminder && taken.some(t => Math.abs(t - time) < settings.minSpacingMinutes * MINUTE)) return 'spacing';
+      return null;
+    };
+
+    const candidates: number[] = [];
+    for (let offset = -flex; offset <= flex; offset += SLOT_STEP_MINUTES * MINUTE) {
+      const time = requested + offset;
+      if (time >= nowMs && time < expires) candidates.push(time);
+    }
+    if (!candidates.includes(requested) && requested < expires) candidates.push(requested);
+    // Alerts that land in quiet hours wait for morning instead of moving a few minutes
+    if (!isReminder) {
+      const morning = nextAllowedTime(new Date(requested), settings).getTime();
+      if (morning !== requested && morning < expires) candidates.push(morning);
+    }
+
+    let best: number | null = null;
+    let bestScore = -Infinity;
+    for (const time of candidates) {
+      if (blockedBy(time)) continue;
+      let score = -Math.abs(time - requested) / Math.max(flex, MINUTE);
+      if (requestedRate !== null) {
+        const rate = getResponseRate(stats, new Date(time).getHours()) ?? requestedRate;
+        score += LEARNING_WEIGHT * (rate - requestedRate);
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = time;
+      }
+    }
+
+    const blocker = blockedBy(requested);
+    if (best === null) {
+      entry.reason = blocker === 'quiet_hours' ? 'quiet_hours' : 'no_slot';
+      continue;
+    }
+
+    const day = dayKey(new Date(best));
+    if (isReminder && (perDay.get(day) || 0) >= settings.dailyBudget) {
+      entry.reason = 'budget';
+      continue;
+    }
+
+    entry.status = 'scheduled';
+    entry.scheduledFor = new Date(best).toISOString();
+    scheduledCount++;
+    if (best !== requested) entry.adjustment = blocker || 'learned_hour';
+    taken.push(best);
+    perDay.set(day, (perDay.get(day) || 0) + 1);
+  }
+
+  return plan.sort((a, b) =>
+    (a.scheduledFor || a.requestedFor).localeCompare(b.scheduledFor || b.requestedFor)
+  );
+}
+
+// ============================================
+// REFRESH & DELIVERY
+// ============================================
+
+// Web timers by notification id
+const webTimers = new Map<string, ReturnType<typeof setTimeout>>();
+let refreshChain: Promise<PlannedNotification[]> = Promise.resolve([]);
+
+async function loadJSON<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function emptyStats(): ResponseStats {
+  return { sent: new Array(24).fill(0), responded: new Array(24).fill(0) };
+}
+
+async function ensurePermission(): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    if (typeof window === 'undefined' || !('Notification' in window)) return false;
+    if (Notification.permission === 'granted') return true;
+    if (Notification.permission === 'denied') return false;
+    return (await Notification.requestPermission()) === 'granted';
+  }
+  if (!Notifications) return false;
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    return (await Notifications.requestPermissionsAsync()).granted;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar events in the planning window, padded so reminders don't
+ * land right before or after a meeting
+ */
+async function getBusyIntervals(now: Date): Promise<{ start: number; end: number }[]> {
+  try {
+    const events = await fetchUpcomingEvents(Math.ceil(HORIZON_HOURS / 24));
+    return events
+      .filter(e => !e.isAllDay)
+      .map(e => ({
+        start: new Date(e.startDate).getTime() - CALENDAR_BUFFER_MINUTES * MINUTE,
+        end: new Date(e.endDate).getTime() + CALENDAR_BUFFER_MINUTES * MINUTE,
+      }))
+      .filter(b => b.end > now.getTime());
+  } catch (error) {
+    console.log('[NotificationScheduler] Could not load calendar events:', error);
+    return [];
+  }
+}
+
+async function deliver(entry: PlannedNotification, request: ReminderRequest): Promise<void> {
+  const when = new Date(entry.scheduledFor!).getTime();
+
+  if (Platform.OS === 'web') {
+    const timer = setTimeout(() => {
+      webTimers.delete(entry.id);
+      if (typeof window === 'undefined' || !('Notification' in window) || Notification.permission !== 'granted') return;
+      const notification = new Notification(entry.title, { body: entry.body, icon: '/favicon.ico', tag: entry.id });
+      notification.onclick = () => {
+        recordNotificationResponse(entry.id);
+        notifyOpened(request.data || {});
+      };
+    }, Math.max(0, when - Date.now()));
+    webTimers.set(entry.id, timer);
+    return;
+  }
+
+  if (!Notifications) return;
+  const content = {
+    title: entry.title,
+    body: entry.body,
+    data: { ...request.data, schedulerId: entry.id },
+    ...(request.sound === false ? { sound: false } : {}),
+  };
+  const trigger = when <= Date.now() + 1000
+    ? null
+    : { type: Notifications.SchedulableTriggerInputTypes.DATE, date: when, channelId: request.channelId } as const;
+  await Notifications.scheduleNotificationAsync({ identifier: entry.id, content, trigger });
+}
+
+async function cancelDelivery(id: string): Promise<void> {
+  const timer = webTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    webTimers.delete(id);
+  }
+  if (Platform.OS !== 'web' && Notifications) {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(id);
+    } catch {
+      // Already delivered or never scheduled
+    }
+  }
+}
+
+async function runRefresh(): Promise<PlannedNotification[]> {
+  const now = new Date();
+  const nowMs = now.getTime();
+  const [settings, previousPlan, storedRequests, storedSent, stats] = await Promise.all([
+    getSchedulerSettings(),
+    loadJSON<PlannedNotification[]>(STORAGE_KEYS.PLAN, []),
+    loadJSON<ReminderRequest[]>(STORAGE_KEYS.REQUESTS, []),
+    loadJSON<SentNotification[]>(STORAGE_KEYS.SENT, []),
+    loadJSON<ResponseStats>(STORAGE_KEYS.STATS, emptyStats()),
+  ]);
+
+  // Anything from the last plan whose time has passed has gone out
+  const sent = [...storedSent];
+  const delivered = new Set<string>();
+  for (const entry of previousPlan) {
+    if (entry.status !== 'scheduled' || !entry.scheduledFor) continue;
+    if (new Date(entry.scheduledFor).getTime() > nowMs) continue;
+    delivered.add(entry.id);
+    sent.push({ id: entry.id, source: entry.source, priority: entry.priority, sentAt: entry.scheduledFor });
+    stats.sent[new Date(entry.scheduledFor).getHours()]++;
+  }
+  const retentionCutoff = nowMs - SENT_RETENTION_DAYS * 24 * 60 * MINUTE;
+  const recentSent = sent.filter(s => new Date(s.sentAt).getTime() > retentionCutoff);
+
+  // One-offs are done once delivered or expired
+  const requests = storedRequests.filter(r =>
+    !delivered.has(r.id) && !(r.expiresAt && new Date(r.expiresAt).getTime() <= nowMs)
+  );
+
+  const horizonEnd = new Date(nowMs + HORIZON_HOURS * 60 * MINUTE);
+  const sentIds = new Set(recentSent.map(s => s.id));
+  for (const [id, collector] of collectors) {
+    try {
+      const collected = await collector(now, horizonEnd);
+      // Recurring occurrences that already went out aren't planned again
+      requests.push(...collected.filter(r => !sentIds.has(r.id) && !delivered.has(r.id)));
+    } catch (error) {
+      console.log(`[NotificationScheduler] Collector ${id} failed:`, error);
+    }
+  }
+
+  const busy = settings.avoidCalendarEvents ? await getBusyIntervals(now) : [];
+  const plan = planReminders(requests, { now, settings, busy, sent: recentSent, stats });
+
+  // Replace what the OS has queued with the new plan
+  for (const entry of previousPlan) {
+    if (entry.status === 'scheduled' && !delivered.has(entry.id)) {
+      await cancelDelivery(entry.id);
+    }
+  }
+  const scheduled = plan.filter(p => p.status === 'scheduled');
+  if (scheduled.length > 0 && await ensurePermission()) {
+    const byId = new Map(requests.map(r => [r.id, r]));
+    for (const entry of scheduled) {
+      try {
+        await deliver(entry, byId.get(entry.id)!);
+      } catch (error) {
+        console.error('[NotificationScheduler] Failed to schedule notification:', error);
+      }
+    }
+  }
+
+  await AsyncStorage.multiSet([
+    [STORAGE_KEYS.PLAN, JSON.stringify(plan)],
+    [STORAGE_KEYS.REQUESTS, JSON.stringify(storedRequests.filter(r => requests.some(q => q.id === r.id)))],
+    [STORAGE_KEYS.SENT, JSON.stringify(recentSent)],
+    [STORAGE_KEYS.STATS, JSON.stringify(stats)],
+  ]);
+
+  const suppressed = plan.filter(p => p.status === 'suppressed').length;
+  if (suppressed > 0) {
+    info('services', 'Notifications held back by scheduler', {
+      scheduled: scheduled.length,
+      suppressed,
+    }, 'notificationSchedulerService');
+  }
+
+  return plan;
+}
+
+/**
+ * Re-collect every reminder and replan the next 7 days.
+ * Calls are queued so overlapping refreshes don't race.
+ */
+export function refreshNotificationSchedule(): Promise<PlannedNotification[]> {
+  refreshChain = refreshChain
+    .catch(() => [])
+    .then(() => runRefresh())
+    .catch(error => {
+      console.error('[NotificationScheduler] Refresh failed:', error);
+      return [];
+    });
+  return refreshChain;
+}
+
+/**
+ * Current plan, including what was held back and why
+ */
+export async function getNotificationPlan(): Promise<PlannedNotification[]> {
+  return loadJSON<PlannedNotification[]>(STORAGE_KEYS.PLAN, []);
+}
+
+// ============================================
+// LEARNING RESPONSE TIMES
+// ============================================
+
+/**
+ * Record that the user opened a notification. Counts toward the hour it
+ * was delivered in if it's recent enough.
+ */
+export async function recordNotificationResponse(id: string): Promise<void> {
+  try {
+    const [sent, plan, stats, requests] = await Promise.all([
+      loadJSON<SentNotification[]>(STORAGE_KEYS.SENT, []),
+      loadJSON<PlannedNotification[]>(STORAGE_KEYS.PLAN, []),
+      loadJSON<ResponseStats>(STORAGE_KEYS.STATS, emptyStats()),
+      loadJSON<ReminderRequest[]>(STORAGE_KEYS.REQUESTS, []),
+    ]);
+
+    let entry = sent.find(s => s.id === id);
+    if (!entry) {
+      // Delivered since the last refresh
+      const planned = plan.find(p =>
+        p.id === id && p.status === 'scheduled' && p.scheduledFor && new Date(p.scheduledFor).getTime() <= Date.now()
+      );
+      if (!planned) return;
+      entry = { id, source: planned.source, priority: planned.priority, sentAt: planned.scheduledFor! };
+      sent.push(entry);
+      stats.sent[new Date(entry.sentAt).getHours()]++;
+      // Move it out of the plan (and the one-off queue) so it isn't sent again
+      await AsyncStorage.multiSet([
+        [STORAGE_KEYS.PLAN, JSON.stringify(plan.filter(p => p.id !== id))],
+        [STORAGE_KEYS.REQUESTS, JSON.stringify(requests.filter(r => r.id !== id))],
+      ]);
+    }
+    if (entry.respondedAt) return;
+
+    const sentAt = new Date(entry.sentAt);
+    if (Date.now() - sentAt.getTime() > RESPONSE_WINDOW_MINUTES * MINUTE) return;
+    entry.respondedAt = new Date().toISOString();
+    stats.responded[sentAt.getHours()]++;
+
+    await AsyncStorage.multiSet([
+      [STORAGE_KEYS.SENT, JSON.stringify(sent)],
+      [STORAGE_KEYS.STATS, JSON.stringify(stats)],
+    ]);
+  } catch (error) {
+    console.error('[NotificationScheduler] Failed to record response:', error);
+  }
+}
+
+export async function getResponseStats(): Promise<ResponseStats> {
+  return loadJSON<ResponseStats>(STORAGE_KEYS.STATS, emptyStats());
+}
+
+/**
+ * The waking hour the user responds in most, if it's clearly better
+ * than currentHour. Used by checkAdaptiveReminder.
+ */
+export async function getBetterResponseHour(
+  currentHour: number
+): Promise<{ hour: number; rate: number; currentRate: number } | null> {
+  const [stats, settings] = await Promise.all([getResponseStats(), getSchedulerSettings()]);
+  const currentRate = getResponseRate(stats, currentHour);
+  if (currentRate === null) return null;
+
+  let best: { hour: number; rate: number } | null = null;
+  for (let hour = 0; hour < 24; hour++) {
+    // Only hours with real evidence, outside quiet hours
+    if (stats.sent[hour] < 3) continue;
+    const probe = new Date();
+    probe.setHours(hour, 30, 0, 0);
+    if (isQuietTime(probe, settings)) continue;
+    const rate = getResponseRate(stats, hour)!;
+    if (!best || rate > best.rate) best = { hour, rate };
+  }
+
+  if (!best || best.hour === currentHour || best.rate - currentRate < 0.2) return null;
+  return { ...best, currentRate };
+}
+
+// ============================================
+// TAP HANDLING
+// ============================================
+
+type NotificationOpenedListener = (data: Record<string, any>) => void;
+
+const openedListeners = new Set<NotificationOpenedListener>();
+
+/**
+ * Called with a notification's data when the user taps it (e.g. to
+ * navigate). Returns an unsubscribe function.
+ */
+export function onNotificationOpened(listener: NotificationOpenedListener): () => void {
+  openedListeners.add(listener);
+  return () => {
+    openedListeners.delete(listener);
+  };
+}
+
+function notifyOpened(data: Record<string, any>): void {
+  for (const listener of openedListeners) {
+    try {
+      listener(data);
+    } catch (error) {
+      console.error('[NotificationScheduler] Tap listener failed:', error);
+    }
+  }
+}
+
+// ============================================
+// INITIALIZATION
+// ============================================
+
+let initialized = false;
+
+/**
+ * Listen for notification taps and replan whenever the app comes
+ * to the foreground. Safe to call more than once.
+ */
+export async function initNotificationScheduler(): Promise<void> {
+  if (initialized) return;
+  initialized = true;
+
+  if (Platform.OS !== 'web' && Notifications) {
+    Notifications.addNotificationResponseReceivedListener(response => {
+      const data = response.notification.request.content.data || {};
+      recordNotificationResponse(data.schedulerId || response.notification.request.identifier);
+      notifyOpened(data);
+    });
+  }
+
+  AppState.addEventListener('change', state => {
+    if (state === 'active') refreshNotificationSchedule();
+  });
+
+  await refreshNotificationSchedule();
+}
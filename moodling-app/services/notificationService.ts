@@ -1,7 +1,9 @@
 /**
  * Notification Service
  *
- * Handles scheduling daily journal reminders.
+ * Journal reminder settings, and daily or immediate notifications for
+ * scheduled slash command macros. Reminders are timed and delivered by
+ * notificationSchedulerService (quiet hours, daily budget, calendar).
  * Following Mood Leaf Ethics:
  * - Compassionate, not pushy
  * - No streaks, no guilt
@@ -14,6 +16,20 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import { log, info, warn, error as logError } from './loggingService';
 import { getUsageStats } from './usageTrackingService';
+import {
+  refreshNotificationSchedule,
+  requestNotification,
+  getBetterResponseHour,
+} from './notificationSchedulerService';
+
+// Optional dependency (native scheduled notifications)
+let Notifications: typeof import('expo-notifications') | null = null;
+
+try {
+  Notifications = require('expo-notifications');
+} catch {
+  console.log('[Notifications] expo-notifications not available');
+}
 
 // Storage keys
 const STORAGE_KEYS = {
@@ -56,13 +72,10 @@ export const FREQUENCY_OPTIONS: { value: ReminderFrequency; label: string; descr
   { value: 'weekly', label: 'Weekly', description: 'Gentle check-in' },
 ];
 
-// Track scheduled timer for web
-let scheduledTimer: ReturnType<typeof setTimeout> | null = null;
-
 /**
  * Get a random compassionate notification message
  */
-function getRandomMessage() {
+export function getRandomReminderMessage() {
   const index = Math.floor(Math.random() * NOTIFICATION_MESSAGES.length);
   return NOTIFICATION_MESSAGES[index];
 }
@@ -151,7 +164,7 @@ export async function requestNotificationPermissions(): Promise<boolean> {
 /**
  * Calculate milliseconds until the next occurrence of the specified time
  */
-function getMillisecondsUntil(hour: number, minute: number): number {
+export function getMillisecondsUntil(hour: number, minute: number): number {
   const now = new Date();
   const target = new Date();
   target.setHours(hour, minute, 0, 0);
@@ -165,60 +178,23 @@ function getMillisecondsUntil(hour: number, minute: number): number {
 }
 
 /**
- * Show a notification with a random compassionate message
- */
-function showScheduledNotification(): void {
-  const message = getRandomMessage();
-
-  if (Platform.OS === 'web' && 'Notification' in window && Notification.permission === 'granted') {
-    new Notification(message.title, {
-      body: message.body,
-      icon: '/favicon.ico',
-      tag: 'moodling-reminder',
-    });
-  }
-}
-
-/**
- * Schedule a daily notification
- * On web: Uses setTimeout (works while browser is open)
- * On native: Would use expo-notifications for background delivery
+ * Apply reminder settings. The scheduler picks up the journal reminder
+ * from getReminderSettings and fits it around quiet hours, the daily
+ * budget and calendar events.
  */
 export async function scheduleDailyReminder(settings: ReminderSettings): Promise<void> {
-  // Clear any existing timer
-  if (scheduledTimer) {
-    clearTimeout(scheduledTimer);
-    scheduledTimer = null;
-  }
-
-  if (!settings.enabled) {
-    console.log('Reminders disabled');
-    return;
-  }
-
-  const hasPermission = await requestNotificationPermissions();
-  if (!hasPermission) {
-    console.log('Notification permission not granted');
-    return;
+  if (settings.enabled) {
+    const hasPermission = await requestNotificationPermissions();
+    if (!hasPermission) {
+      console.log('Notification permission not granted');
+      return;
+    }
   }
 
-  if (Platform.OS === 'web') {
-    const msUntilReminder = getMillisecondsUntil(settings.hour, settings.minute);
-    const minutesUntil = Math.round(msUntilReminder / 60000);
-
-    console.log(`Reminder scheduled for ${formatTime(settings.hour, settings.minute)} (in ${minutesUntil} minutes)`);
-
-    // Schedule the notification
-    scheduledTimer = setTimeout(() => {
-      showScheduledNotification();
-
-      // Reschedule for tomorrow (if still enabled)
-      getReminderSettings().then((currentSettings) => {
-        if (currentSettings.enabled) {
-          scheduleDailyReminder(currentSettings);
-        }
-      });
-    }, msUntilReminder);
+  const plan = await refreshNotificationSchedule();
+  const next = plan.find(p => p.source === 'journal' && p.status === 'scheduled');
+  if (next?.scheduledFor) {
+    console.log(`Reminder scheduled for ${new Date(next.scheduledFor).toLocaleString()}`);
   }
 }
 
@@ -226,12 +202,10 @@ export async function scheduleDailyReminder(settings: ReminderSettings): Promise
  * Cancel all scheduled reminders
  */
 export async function cancelAllReminders(): Promise<void> {
-  if (scheduledTimer) {
-    clearTimeout(scheduledTimer);
-    scheduledTimer = null;
-  }
+  const settings = await getReminderSettings();
+  await saveReminderSettings({ ...settings, enabled: false });
+  await refreshNotificationSchedule();
   console.log('Reminders cancelled');
-  // Native: would call Notifications.cancelAllScheduledNotificationsAsync()
 }
 
 /**
@@ -244,7 +218,7 @@ export async function showTestNotification(): Promise<void> {
     return;
   }
 
-  const message = getRandomMessage();
+  const message = getRandomReminderMessage();
 
   if (Platform.OS === 'web' && 'Notification' in window) {
     new Notification(message.title, {
@@ -276,6 +250,8 @@ export interface AdaptiveSuggestion {
   shouldSuggest: boolean;
   currentFrequency: ReminderFrequency;
   suggestedFrequency: ReminderFrequency;
+  /** Set when the suggestion is to move the reminder, not change frequency */
+  suggestedHour?: number;
   message: string;
 }
 
@@ -331,15 +307,16 @@ export async function checkAdaptiveReminder(): Promise<AdaptiveSuggestion> {
     return noSuggestion;
   }
 
-  // Need at least 2 weeks of data
-  if (stats.totalDaysUsed < 14) {
-    return noSuggestion;
-  }
-
-  // Calculate consistency (entries on most days)
-  const isConsistent = stats.averageEntriesPerDay >= 0.8; // Journaling ~6 days/week
+  // Need at least 2 weeks of data, and entries on most days
+  const isConsistent = stats.totalDaysUsed >= 14 && stats.averageEntriesPerDay >= 0.8; // Journaling ~6 days/week
 
   if (!isConsistent) {
+    // Not a habit yet: maybe the reminder just arrives at the wrong time
+    const timeSuggestion = await suggestBetterReminderTime(settings);
+    if (timeSuggestion) {
+      await markAdaptiveCheckDone();
+      return timeSuggestion;
+    }
     return noSuggestion;
   }
 
@@ -382,10 +359,31 @@ export async function checkAdaptiveReminder(): Promise<AdaptiveSuggestion> {
 }
 
 /**
- * Check if today is a reminder day based on frequency
+ * Suggest moving the reminder to the hour notifications actually get
+ * opened in (learned by notificationSchedulerService)
  */
-export function shouldShowReminderToday(frequency: ReminderFrequency): boolean {
-  const today = new Date();
+async function suggestBetterReminderTime(settings: ReminderSettings): Promise<AdaptiveSuggestion | null> {
+  try {
+    const better = await getBetterResponseHour(settings.hour);
+    if (!better) return null;
+    return {
+      shouldSuggest: true,
+      currentFrequency: settings.frequency,
+      suggestedFrequency: settings.frequency,
+      suggestedHour: better.hour,
+      message: `You tend to open reminders around ${formatTime(better.hour, 0)}. Want your check-in then instead?`,
+    };
+  } catch (error) {
+    console.error('Failed to check reminder timing:', error);
+    return null;
+  }
+}
+
+/**
+ * Check if a day (default today) is a reminder day based on frequency
+ */
+export function shouldShowReminderToday(frequency: ReminderFrequency, date: Date = new Date()): boolean {
+  const today = date;
   const dayOfWeek = today.getDay(); // 0 = Sunday, 6 = Saturday
   const dayOfMonth = today.getDate();
 
@@ -405,3 +403,48 @@ export function shouldShowReminderToday(frequency: ReminderFrequency): boolean {
       return true;
   }
 }
+
+// ============================================
+// SCHEDULED COMMAND NOTIFICATIONS
+// ============================================
+
+/**
+ * A notification for a scheduled slash command macro.
+ * `id` is stable so rescheduling replaces the previous one.
+ */
+export interface CommandNotification {
+  id: string;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * Cancel a daily notification that older builds scheduled straight with
+ * the OS. Macro times now come from a scheduler collector instead.
+ */
+export async function cancelCommandNotification(id: string): Promise<void> {
+  if (Platform.OS === 'web' || !Notifications) return;
+  try {
+    await Notifications.cancelScheduledNotificationAsync(id);
+  } catch (error) {
+    console.error('Failed to cancel command notification:', error);
+  }
+}
+
+/**
+ * Show a command notification right away (event-triggered macros).
+ * Goes through the scheduler, so it waits out quiet hours.
+ */
+export async function showCommandNotification(notification: CommandNotification): Promise<void> {
+  const expiresAt = new Date(Date.now() + 12 * 60 * 60 * 1000).toISOString();
+  await requestNotification({
+    id: notification.id,
+    source: 'command',
+    priority: 'high',
+    title: notification.title,
+    body: notification.body,
+    data: notification.data,
+    expiresAt,
+  });
+}
@@ -0,0 +1,224 @@
+/**
+ * Notification Sources
+ *
+ * Registers each service's recurring reminders with
+ * notificationSchedulerService. Collectors only say what a service would
+ * like to send and when; the scheduler decides what actually goes out.
+ *
+ * One-off alerts and timers (limits, habit and drink timers, quick-log
+ * macros) call requestNotification from their own services.
+ */
+
+import { registerReminderCollector, getSchedulerSettings, ReminderRequest } from './notificationSchedulerService';
+import { getReminderSettings, shouldShowReminderToday, getRandomReminderMessage } from './notificationService';
+import { getSkillReminders } from './accountabilityService';
+import { checkReminders as checkCycleReminders } from './cycleTrackingService';
+import { getRandomSpark } from './sparkService';
+import { syncCoachedEvents, getEventTypeDefinition, getPrepSkill } from './eventCoachingService';
+import { getMacroReminders } from './commandMacroService';
+import { AVAILABLE_SKILLS } from '@/types/SkillProgression';
+
+/**
+ * Each calendar day touched by [start, end], at hour:minute, that is
+ * still inside the window
+ */
+function occurrencesBetween(start: Date, end: Date, hour: number, minute: number): Date[] {
+  const dates: Date[] = [];
+  const day = new Date(start);
+  day.setHours(hour, minute, 0, 0);
+  if (day < start) day.setDate(day.getDate() + 1);
+  while (day <= end) {
+    dates.push(new Date(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return dates;
+}
+
+function dateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// ============================================
+// JOURNAL CHECK-IN
+// ============================================
+
+registerReminderCollector('journal', async (start, end) => {
+  const settings = await getReminderSettings();
+  if (!settings.enabled) return [];
+
+  return occurrencesBetween(start, end, settings.hour, settings.minute)
+    .filter(date => shouldShowReminderToday(settings.frequency, date))
+    .map((date): ReminderRequest => {
+      const message = getRandomReminderMessage();
+      return {
+        id: `journal_${dateKey(date)}`,
+        source: 'journal',
+        priority: 'normal',
+        title: message.title,
+        body: message.body,
+        at: date.toISOString(),
+        flexMinutes: 60,
+        data: { type: 'journal_reminder' },
+      };
+    });
+});
+
+// ============================================
+// SKILL PRACTICE
+// ============================================
+
+registerReminderCollector('skill', async (start, end) => {
+  const reminders = (await getSkillReminders()).filter(r => r.enabled);
+  const requests: ReminderRequest[] = [];
+
+  for (const reminder of reminders) {
+    const [hour, minute] = reminder.time.split(':').map(Number);
+    if (Number.isNaN(hour)) continue;
+    const skill = AVAILABLE_SKILLS.find(s => s.id === reminder.skillId);
+
+    for (const date of occurrencesBetween(start, end, hour, minute || 0)) {
+      if (reminder.days.length > 0 && !reminder.days.includes(date.getDay())) continue;
+      requests.push({
+        id: `skill_${reminder.id}_${dateKey(date)}`,
+        source: 'skill',
+        priority: 'normal',
+        title: skill ? `${skill.emoji} ${skill.name}` : 'Skill practice',
+        body: reminder.message || 'A few minutes of practice, whenever it suits you.',
+        at: date.toISOString(),
+        flexMinutes: 90,
+        data: { type: 'skill_reminder', skillId: reminder.skillId },
+      });
+    }
+  }
+
+  return requests;
+});
+
+// ============================================
+// COMMAND MACROS
+// ============================================
+
+registerReminderCollector('command', async (start, end) => {
+  const requests: ReminderRequest[] = [];
+
+  for (const { macro, hour, minute } of await getMacroReminders()) {
+    const time = `${String(hour).padStart(2, '0')}${String(minute).padStart(2, '0')}`;
+    for (const date of occurrencesBetween(start, end, hour, minute)) {
+      requests.push({
+        id: `command_${macro.id}_${time}_${dateKey(date)}`,
+        source: 'command',
+        priority: 'normal',
+        title: `Time for /${macro.name}`,
+        body: 'Open Mood Leaf to run it. 🌿',
+        at: date.toISOString(),
+        flexMinutes: 30,
+        data: { type: 'command_macro', macroId: macro.id },
+      });
+    }
+  }
+
+  return requests;
+});
+
+// ============================================
+// CYCLE
+// ============================================
+
+registerReminderCollector('cycle', async start => {
+  const reminder = await checkCycleReminders();
+  if (!reminder) return [];
+
+  // Only today's phase is known; late morning, moved to a better hour if there is one
+  const at = new Date(start);
+  at.setHours(10, 0, 0, 0);
+  const endOfDay = new Date(start);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  return [{
+    id: `cycle_${reminder.type}_${dateKey(start)}`,
+    source: 'cycle',
+    priority: 'low',
+    title: 'Cycle check-in',
+    body: reminder.message,
+    at: (at > start ? at : start).toISOString(),
+    flexMinutes: 240,
+    expiresAt: endOfDay.toISOString(),
+    data: { type: 'cycle_reminder', reminderType: reminder.type },
+  }];
+});
+
+// ============================================
+// CALENDAR EVENTS
+// ============================================
+
+registerReminderCollector('event', async (start, end) => {
+  const settings = await getSchedulerSettings();
+  if (!settings.eventCoaching) return [];
+
+  const requests: ReminderRequest[] = [];
+  for (const event of await syncCoachedEvents()) {
+    const definition = getEventTypeDefinition(event.type);
+    const eventStart = new Date(event.startDate);
+    const eventEnd = new Date(event.endDate);
+
+    // Prep: a short skill before it starts; pointless once it has
+    const skill = getPrepSkill(event.type);
+    const prepAt = new Date(eventStart.getTime() - definition.prepLeadMinutes * 60 * 1000);
+    if (skill && eventStart > start && prepAt <= end) {
+      requests.push({
+        id: `event_prep_${event.key}`,
+        source: 'event_prep',
+        priority: 'high',
+        title: `${definition.emoji} ${event.title} soon`,
+        body: `A couple of minutes of ${skill.name} first? ${skill.description}.`,
+        at: (prepAt > start ? prepAt : start).toISOString(),
+        flexMinutes: 20,
+        expiresAt: eventStart.toISOString(),
+        data: { type: 'event_prep', eventKey: event.key, skillId: skill.id },
+      });
+    }
+
+    // Debrief: a journal prompt once it's over, until the next morning-ish
+    const debriefAt = new Date(eventEnd.getTime() + 30 * 60 * 1000);
+    const debriefUntil = new Date(eventEnd.getTime() + 12 * 60 * 60 * 1000);
+    if (definition.debriefPrompt && event.debriefEntryIds.length === 0 && debriefUntil > start && debriefAt <= end) {
+      requests.push({
+        id: `event_debrief_${event.key}`,
+        source: 'event_debrief',
+        priority: 'normal',
+        title: `How did it go? ${definition.emoji}`,
+        body: definition.debriefPrompt,
+        at: (debriefAt > start ? debriefAt : start).toISOString(),
+        flexMinutes: 120,
+        expiresAt: debriefUntil.toISOString(),
+        data: { type: 'event_debrief', eventKey: event.key, prompt: definition.debriefPrompt },
+      });
+    }
+  }
+
+  return requests;
+});
+
+// ============================================
+// SPARKS
+// ============================================
+
+registerReminderCollector('spark', async (start, end) => {
+  const settings = await getSchedulerSettings();
+  if (!settings.sparkNudges) return [];
+
+  // Mid-afternoon with a wide window, so learned hours decide the actual time
+  return occurrencesBetween(start, end, 15, 0).map((date): ReminderRequest => {
+    const spark = getRandomSpark('random');
+    return {
+      id: `spark_${dateKey(date)}`,
+      source: 'spark',
+      priority: 'low',
+      title: 'A little spark ✨',
+      body: spark.text,
+      at: date.toISOString(),
+      flexMinutes: 300,
+      data: { type: 'spark', sparkId: spark.id },
+    };
+  });
+});
@@ -72,12 +72,9 @@ async function loadAllFactors(): Promise<Record<string, LifestyleFactors>> {
 }
 
 /**
- * Get daily summary for a specific date
+ * Build one day's summary from already-loaded entries and factors
  */
-export async function getDailySummary(date: string): Promise<DailySummary> {
-  const entries = await getAllEntries();
-  const factors = await getFactors(date);
-
+function summarizeDay(date: string, entries: JournalEntry[], factors: LifestyleFactors): DailySummary {
   // Filter entries for this date
   const dayEntries = entries.filter((entry) => {
     const entryDate = formatDateString(new Date(entry.createdAt));
@@ -106,19 +103,30 @@ export async function getDailySummary(date: string): Promise<DailySummary> {
   };
 }
 
+/**
+ * Get daily summary for a specific date
+ */
+export async function getDailySummary(date: string): Promise<DailySummary> {
+  const entries = await getAllEntries();
+  const factors = await getFactors(date);
+  return summarizeDay(date, entries, factors);
+}
+
 /**
  * Get summaries for a range of dates
+ * (entries and factors are loaded once, so long ranges stay cheap)
  */
 export async function getDailySummaries(startDate: string, endDate: string): Promise<DailySummary[]> {
   const summaries: DailySummary[] = [];
   const start = parseDateString(startDate);
   const end = parseDateString(endDate);
+  const entries = await getAllEntries();
+  const allFactors = await loadAllFactors();
 
   const current = new Date(start);
   while (current <= end) {
     const dateString = formatDateString(current);
-    const summary = await getDailySummary(dateString);
-    summaries.push(summary);
+    summaries.push(summarizeDay(dateString, entries, allFactors[dateString] || {}));
     current.setDate(current.getDate() + 1);
   }
 
@@ -0,0 +1,148 @@
+/**
+ * Persona Commands
+ *
+ * /flint, /luna, /willow... switch the coach persona, optionally just
+ * for this conversation (--temp). /random picks one.
+ *
+ * Unit: Slash Command System
+ */
+
+import {
+  CoachPersona,
+  PERSONAS,
+  getCoachSettings,
+  saveCoachSettings,
+} from './coachPersonalityService';
+import {
+  registerCommand,
+  CommandArgSpec,
+  CommandArgValues,
+  CommandContext,
+  CommandResult,
+} from './slashCommandRegistry';
+
+// ============================================
+// PERSONA COMMANDS
+// ============================================
+
+// --temp switches for this conversation only; anything else is the reason
+const PERSONA_ARGS: CommandArgSpec[] = [
+  { name: 'temp', type: 'flag', flags: ['--temp', '-t'], description: 'Only for this conversation' },
+  { name: 'reason', type: 'text', description: 'Why you are switching' },
+];
+
+async function handlePersonaSwitch(
+  persona: CoachPersona,
+  values: CommandArgValues,
+  context: CommandContext
+): Promise<CommandResult> {
+  const personaDef = PERSONAS[persona];
+  if (!personaDef) {
+    return {
+      type: 'error',
+      success: false,
+      message: `Unknown persona: ${persona}`,
+    };
+  }
+
+  const previousPersona = context.currentPersona;
+  const isTemporary = values.temp === true;
+
+  try {
+    // Update coach settings if not temporary
+    if (!isTemporary) {
+      const settings = await getCoachSettings();
+      settings.selectedPersona = persona;
+      await saveCoachSettings(settings);
+    }
+
+    // Build response message
+    const switchMessages: Record<CoachPersona, string> = {
+      flint: `Switching to Flint ${personaDef.emoji} — no fluff mode activated. What do you need?`,
+      luna: `Luna ${personaDef.emoji} is here. Take a breath. I'm listening.`,
+      willow: `Willow ${personaDef.emoji} listening. Take your time.`,
+      spark: `Spark ${personaDef.emoji} ready! Let's do this!`,
+      clover: `Clover ${personaDef.emoji} here — hey friend, what's up?`,
+      ridge: `Ridge ${personaDef.emoji} reporting in. Let's make a plan.`,
+      fern: `Fern ${personaDef.emoji} wrapping you in warmth. I'm here for you.`,
+    };
+
+    return {
+      type: 'persona_switch',
+      success: true,
+      message: switchMessages[persona],
+      newPersona: persona,
+      previousPersona,
+      isTemporary,
+      data: {
+        persona: personaDef,
+        reason: values.reason || undefined,
+      },
+    };
+  } catch (error) {
+    return {
+      type: 'error',
+      success: false,
+      message: `Failed to switch persona: ${error}`,
+    };
+  }
+}
+
+// Register persona commands
+const personaCommands: { name: CoachPersona; aliases: string[] }[] = [
+  { name: 'flint', aliases: ['f', 'direct', 'honest'] },
+  { name: 'luna', aliases: ['l', 'mindful'] },
+  { name: 'willow', aliases: ['w', 'wise', 'sage'] },
+  { name: 'spark', aliases: ['s', 'hype', 'energy'] },
+  { name: 'clover', aliases: ['c', 'friend', 'bestie'] },
+  { name: 'ridge', aliases: ['r', 'coach', 'action'] },
+  { name: 'fern', aliases: ['fe', 'gentle', 'soft'] },
+];
+
+personaCommands.forEach(({ name, aliases }) => {
+  const personaDef = PERSONAS[name];
+  registerCommand({
+    name,
+    aliases,
+    description: `Switch to ${personaDef.name} — ${personaDef.tagline}`,
+    category: 'persona',
+    requiresPremium: false,
+    usage: `/${name} [reason] [--temp]`,
+    examples: [`/${name}`, `/${name} I need real talk`, `/${name} --temp`],
+    args: PERSONA_ARGS,
+    handler: async (args, context, values) => handlePersonaSwitch(name, values, context),
+  });
+});
+
+// Switch by name (/persona luna), with autocomplete over all personas
+registerCommand({
+  name: 'persona',
+  aliases: ['switch'],
+  description: 'Switch to a persona by name',
+  category: 'persona',
+  requiresPremium: false,
+  usage: '/persona <name> [reason] [--temp]',
+  examples: ['/persona luna', '/persona ridge --temp'],
+  args: [
+    { name: 'persona', type: 'reference', reference: 'persona', required: true },
+    ...PERSONA_ARGS,
+  ],
+  handler: async (args, context, values) =>
+    handlePersonaSwitch(values.persona.id as CoachPersona, values, context),
+});
+
+// Random persona command
+registerCommand({
+  name: 'random',
+  aliases: ['surprise', 'rng'],
+  description: 'Switch to a random persona',
+  category: 'persona',
+  requiresPremium: false,
+  usage: '/random [reason] [--temp]',
+  args: PERSONA_ARGS,
+  handler: async (args, context, values) => {
+    const personas = Object.keys(PERSONAS) as CoachPersona[];
+    const randomPersona = personas[Math.floor(Math.random() * personas.length)];
+    return handlePersonaSwitch(randomPersona, values, context);
+  },
+});
@@ -0,0 +1,393 @@
+/**
+ * Prompt Assembly Service
+ *
+ * Builds the coach's context block from registered context providers
+ * within a token budget. Each provider declares:
+ * - priority: how much it matters in general (0-100)
+ * - relevance: how much it matters for this message (0-1)
+ * - estimateTokens: its typical size, so obviously-too-big sections
+ *   aren't fetched when the budget is tight
+ *
+ * The budget comes from ProviderCapabilities.maxContextLength of the
+ * smallest provider that might answer, minus the rest of the prompt.
+ * Providers are fetched in parallel, then kept in score order until the
+ * budget runs out; what didn't fit is recorded for the debug view.
+ *
+ * Providers register in coachContextProviders.ts; per-message sections
+ * (user name, accountability) are passed to assembleContext directly.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  estimateTokens,
+  getProviderCapabilities,
+  LLMProvider,
+} from './llmProviderService';
+import { logCoachAccess, info } from './loggingService';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * What providers can look at when deciding relevance and building context
+ */
+export interface PromptAssemblyRequest {
+  message: string;
+  mood?: string;
+  recentMessages?: { role: 'user' | 'assistant'; content: string }[];
+}
+
+export interface ContextProvider {
+  /** Coach access id, used for logCoachAccess and the debug view */
+  id: string;
+  name: string;
+  /** 0-100; higher survives budget cuts */
+  priority: number;
+  /** Position in the assembled prompt (lower comes first) */
+  order: number;
+  /** Typical size in tokens, checked before fetching */
+  estimateTokens: number | ((request: PromptAssemblyRequest) => number);
+  /** 0-1 for this message (default 0.5); scales priority by 0.5x-1.5x */
+  relevance?: (request: PromptAssemblyRequest) => number;
+  /** Always included, even over budget */
+  required?: boolean;
+  /** May be cut short to fit instead of dropped */
+  truncatable?: boolean;
+  /** Record retrieval in the coach access log */
+  logAccess?: boolean;
+  /** Skip entirely when false (feature off, permission missing) */
+  isAvailable?: () => Promise<boolean>;
+  getContext: (request: PromptAssemblyRequest) => Promise<string>;
+}
+
+export type ContextSectionStatus =
+  | 'included'
+  | 'truncated'
+  | 'dropped'       // Fetched but didn't fit
+  | 'skipped'       // Estimate didn't fit, never fetched
+  | 'empty'
+  | 'unavailable'
+  | 'failed';
+
+export interface ContextSectionReport {
+  id: string;
+  name: string;
+  status: ContextSectionStatus;
+  score: number;
+  estimatedTokens: number;
+  /** Actual size before any truncation (0 if not fetched) */
+  tokens: number;
+  /** Size that made it into the prompt */
+  includedTokens: number;
+  error?: string;
+}
+
+export interface PromptAssemblyReport {
+  id: string;
+  timestamp: string;
+  /** Start of the user's message, to find the report again */
+  messagePreview: string;
+  budgetTokens: number;
+  usedTokens: number;
+  /** Provider whose context window set the budget */
+  limitingProvider?: LLMProvider;
+  sections: ContextSectionReport[];
+}
+
+export interface AssembledContext {
+  text: string;
+  report: PromptAssemblyReport;
+  /** Sources that returned data / were available (for usage stats) */
+  sourcesAvailable: number;
+  sourcesUsed: number;
+}
+
+export interface AssembleOptions {
+  budgetTokens: number;
+  limitingProvider?: LLMProvider;
+  /** One-off sections for this message, fitted alongside the registry */
+  extraProviders?: ContextProvider[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const REPORTS_KEY = 'moodleaf_prompt_assembly_reports';
+const MAX_REPORTS = 30;
+const DEFAULT_RELEVANCE = 0.5;
+/** Don't bother truncating a section to less than this */
+const MIN_TRUNCATED_TOKENS = 80;
+/** Headroom for the chars/4 estimate being off */
+const SAFETY_MARGIN = 0.1;
+const MESSAGE_PREVIEW_CHARS = 60;
+
+// ============================================
+// REGISTRY
+// ============================================
+
+const providers = new Map<string, ContextProvider>();
+
+/**
+ * Register (or replace) a context provider
+ */
+export function registerContextProvider(provider: ContextProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function unregisterContextProvider(id: string): boolean {
+  return providers.delete(id);
+}
+
+export function getContextProviders(): ContextProvider[] {
+  return Array.from(providers.values()).sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Relevance helper: full relevance when the message mentions any of the
+ * words, low otherwise
+ */
+export function keywordRelevance(keywords: string[], miss: number = 0.3): (request: PromptAssemblyRequest) => number {
+  const patterns = keywords.map(k => new RegExp(`\\b${k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'i'));
+  return request => (patterns.some(p => p.test(request.message)) ? 1 : miss);
+}
+
+// ============================================
+// BUDGET
+// ============================================
+
+/**
+ * Tokens left for context: the smallest context window among the
+ * providers that may answer, minus everything else in the request
+ */
+export function getContextTokenBudget(
+  providerChain: LLMProvider[],
+  reservedTokens: number
+): { budgetTokens: number; limitingProvider?: LLMProvider } {
+  let limitingProvider: LLMProvider | undefined;
+  let window = Infinity;
+  for (const provider of providerChain) {
+    const length = getProviderCapabilities(provider).maxContextLength;
+    if (length < window) {
+      window = length;
+      limitingProvider = provider;
+    }
+  }
+  if (!Number.isFinite(window)) return { budgetTokens: 0 };
+
+  const budgetTokens = Math.max(0, Math.floor(window * (1 - SAFETY_MARGIN)) - reservedTokens);
+  return { budgetTokens, limitingProvider };
+}
+
+/**
+ * Cut text to roughly maxTokens, at a line break when there is one
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+  const marker = '\n...[truncated]';
+  const maxChars = Math.max(0, maxTokens * 4 - marker.length);
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, maxChars);
+  const lineBreak = cut.lastIndexOf('\n');
+  return (lineBreak > maxChars * 0.5 ? cut.slice(0, lineBreak) : cut).trimEnd() + marker;
+}
+
+// ============================================
+// ASSEMBLY
+// ============================================
+
+interface Candidate {
+  provider: ContextProvider;
+  report: ContextSectionReport;
+  text: string;
+  /** Characters fetched, before truncation */
+  fetchedLength: number;
+}
+
+function scoreProvider(provider: ContextProvider, request: PromptAssemblyRequest): number {
+  let relevance = DEFAULT_RELEVANCE;
+  try {
+    relevance = provider.relevance ? provider.relevance(request) : DEFAULT_RELEVANCE;
+  } catch {
+    // Keep the default
+  }
+  const clamped = Math.min(1, Math.max(0, relevance));
+  return Math.round(provider.priority * (0.5 + clamped) * 10) / 10;
+}
+
+function getEstimate(provider: ContextProvider, request: PromptAssemblyRequest): number {
+  try {
+    return typeof provider.estimateTokens === 'function'
+      ? provider.estimateTokens(request)
+      : provider.estimateTokens;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Build the context block for one message within the budget
+ */
+export async function assembleContext(
+  request: PromptAssemblyRequest,
+  options: AssembleOptions
+): Promise<AssembledContext> {
+  const all = [...getContextProviders(), ...(options.extraProviders || [])];
+
+  const candidates: Candidate[] = all.map(provider => ({
+    provider,
+    text: '',
+    fetchedLength: 0,
+    report: {
+      id: provider.id,
+      name: provider.name,
+      status: 'empty',
+      score: provider.required ? Infinity : scoreProvider(provider, request),
+      estimatedTokens: getEstimate(provider, request),
+      tokens: 0,
+      includedTokens: 0,
+    },
+  }));
+  candidates.sort((a, b) => b.report.score - a.report.score);
+
+  // Decide what's worth fetching from the estimates
+  let estimatedRemaining = options.budgetTokens;
+  const toFetch: Candidate[] = [];
+  for (const candidate of candidates) {
+    const { provider, report } = candidate;
+    const fits = report.estimatedTokens <= estimatedRemaining ||
+      (provider.truncatable && estimatedRemaining >= MIN_TRUNCATED_TOKENS);
+    if (provider.required || fits) {
+      toFetch.push(candidate);
+      estimatedRemaining -= report.estimatedTokens;
+    } else {
+      report.status = 'skipped';
+    }
+  }
+
+  // Fetch in parallel; one failing source never breaks the prompt
+  let sourcesAvailable = 0;
+  await Promise.all(toFetch.map(async candidate => {
+    const { provider, report } = candidate;
+    try {
+      if (provider.isAvailable && !(await provider.isAvailable())) {
+        report.status = 'unavailable';
+        return;
+      }
+      if (provider.logAccess) sourcesAvailable++;
+      candidate.text = ((await provider.getContext(request)) || '').trim();
+      candidate.fetchedLength = candidate.text.length;
+      report.tokens = candidate.text ? estimateTokens(candidate.text) : 0;
+    } catch (error: any) {
+      report.status = 'failed';
+      report.error = error?.message || String(error);
+    }
+  }));
+
+  // Fit actual sizes in score order
+  let remaining = options.budgetTokens;
+  const included: Candidate[] = [];
+  for (const candidate of toFetch) {
+    const { provider, report } = candidate;
+    if (report.status === 'unavailable' || report.status === 'failed') continue;
+    if (!candidate.text) {
+      report.status = 'empty';
+      continue;
+    }
+
+    if (provider.required || report.tokens <= remaining) {
+      report.status = 'included';
+    } else if (provider.truncatable && remaining >= MIN_TRUNCATED_TOKENS) {
+      candidate.text = truncateToTokens(candidate.text, remaining);
+      report.status = 'truncated';
+    } else {
+      report.status = 'dropped';
+      continue;
+    }
+
+    report.includedTokens = estimateTokens(candidate.text);
+    remaining -= report.includedTokens;
+    included.push(candidate);
+  }
+
+  // Coach access log: retrieved, and whether it made it into the prompt
+  for (const { provider, report, fetchedLength } of candidates) {
+    if (!provider.logAccess) continue;
+    if (report.status === 'failed') {
+      await logCoachAccess(provider.id, provider.name, false);
+    } else if (fetchedLength > 0) {
+      const used = report.status === 'included' || report.status === 'truncated';
+      await logCoachAccess(provider.id, provider.name, true, fetchedLength, used);
+    }
+  }
+
+  const text = included
+    .sort((a, b) => a.provider.order - b.provider.order)
+    .map(c => c.text)
+    .join('\n\n');
+
+  const report: PromptAssemblyReport = {
+    id: `assembly_${Date.now()}`,
+    timestamp: new Date().toISOString(),
+    messagePreview: request.message.slice(0, MESSAGE_PREVIEW_CHARS),
+    budgetTokens: options.budgetTokens,
+    usedTokens: options.budgetTokens - remaining,
+    limitingProvider: options.limitingProvider,
+    sections: candidates
+      .map(c => ({ ...c.report, score: Number.isFinite(c.report.score) ? c.report.score : 100 }))
+      .sort((a, b) => b.score - a.score),
+  };
+
+  await saveReport(report);
+  const dropped = report.sections.filter(s => s.status === 'dropped' || s.status === 'skipped').length;
+  if (dropped > 0) {
+    info('coach', 'Context trimmed to budget', {
+      budgetTokens: report.budgetTokens,
+      usedTokens: report.usedTokens,
+      dropped,
+    }, 'promptAssemblyService');
+  }
+
+  return {
+    text,
+    report,
+    sourcesAvailable,
+    sourcesUsed: included.filter(c => c.provider.logAccess).length,
+  };
+}
+
+// ============================================
+// DEBUG REPORTS
+// ============================================
+
+let cachedReports: PromptAssemblyReport[] | null = null;
+
+async function saveReport(report: PromptAssemblyReport): Promise<void> {
+  try {
+    const reports = [report, ...(await getAssemblyReports())].slice(0, MAX_REPORTS);
+    cachedReports = reports;
+    await AsyncStorage.setItem(REPORTS_KEY, JSON.stringify(reports));
+  } catch (error) {
+    console.error('[PromptAssembly] Failed to save report:', error);
+  }
+}
+
+/**
+ * Recent assembly reports, newest first
+ */
+export async function getAssemblyReports(): Promise<PromptAssemblyReport[]> {
+  if (cachedReports) return cachedReports;
+  try {
+    const stored = await AsyncStorage.getItem(REPORTS_KEY);
+    cachedReports = stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('[PromptAssembly] Failed to load reports:', error);
+    cachedReports = [];
+  }
+  return cachedReports!;
+}
+
+export async function clearAssemblyReports(): Promise<void> {
+  cachedReports = [];
+  await AsyncStorage.removeItem(REPORTS_KEY);
+}
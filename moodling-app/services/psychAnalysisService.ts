@@ -6,7 +6,9 @@
  *
  * AI INTEGRATION:
  * 1. Each entry is analyzed for patterns (cognitive distortions, defenses, etc.)
+ *    by the analyzers registered in psychAnalyzerRegistry
  * 2. Profile is updated incrementally (weighted by recency)
+ *    and each entry's signals are kept as a timeline (psychTimelineService)
  * 3. Compressed profile is included in Claude API context
  * 4. Enables personalized, psychologically-informed responses
  *
@@ -14,7 +16,18 @@
  * but why patterns emerge and how to help.
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import EncryptedStorage from './encryptedStorage';
+import { getEntryIndex, getEntryById } from './journalStorage';
+import {
+  AnalyzedEntry,
+  recordEntryAnalysis,
+  recordEntryAnalyses,
+  getAnalyzedEntries,
+  pruneTimeline,
+  clearTimeline,
+} from './psychTimelineService';
+import { runPsychAnalyzers, loadAnalyzerSettings } from './psychAnalyzerRegistry';
+import './psychAnalyzers';
 import { log, info, warn, error as logError, startTimer, endTimer } from './loggingService';
 import {
   // Types
@@ -33,18 +46,8 @@ import {
   PsychologicalProfile,
   DEFAULT_PSYCHOLOGICAL_PROFILE,
   // Patterns
-  COGNITIVE_DISTORTION_PATTERNS,
   DEFENSE_MECHANISM_PATTERNS,
-  ATTACHMENT_PATTERNS,
-  LOCUS_OF_CONTROL_PATTERNS,
   EMOTION_REGULATION_PATTERNS,
-  POLYVAGAL_PATTERNS,
-  MINDSET_PATTERNS,
-  VALUES_PATTERNS,
-  PERMA_PATTERNS,
-  GRIEF_STYLE_PATTERNS,
-  MONEY_SCRIPT_PATTERNS,
-  GOTTMAN_PATTERNS,
 } from './psychTypes';
 
 const STORAGE_KEY = 'moodleaf_psychological_profile';
@@ -138,9 +141,10 @@ class PsychAnalysisService {
    */
   async initialize(): Promise<void> {
     if (this.initialized) return;
+    await loadAnalyzerSettings();
 
     try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const stored = await EncryptedStorage.getItem(STORAGE_KEY);
       if (stored) {
         this.profile = JSON.parse(stored);
       }
@@ -157,31 +161,40 @@ class PsychAnalysisService {
    */
   private async saveProfile(): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.profile));
+      await EncryptedStorage.setItem(STORAGE_KEY, JSON.stringify(this.profile));
     } catch (error) {
       console.error('Failed to save psychological profile:', error);
     }
   }
 
   /**
-   * Main analysis function - analyzes text for all psychological patterns
+   * Main analysis function - runs every enabled analyzer
+   * (psychAnalyzerRegistry) and collects the results by framework
    */
   analyzeEntry(text: string): EntryAnalysis {
-    const lowerText = text.toLowerCase();
+    const results = runPsychAnalyzers(text);
+    const signals = (id: string) => results[id] ?? [];
+    const polyvagal = signals('polyvagal_state')[0];
 
     return {
-      cognitiveDistortions: this.detectCognitiveDistortions(lowerText, text),
-      defenseMechanisms: this.detectDefenseMechanisms(lowerText),
-      attachmentSignals: this.detectAttachmentSignals(lowerText),
-      locusSignals: this.detectLocusSignals(lowerText),
-      regulationStrategies: this.detectRegulationStrategies(lowerText),
-      polyvagalState: this.detectPolyvagalState(lowerText),
-      mindsetSignals: this.detectMindsetSignals(lowerText),
-      valuesDetected: this.detectValues(lowerText),
-      permaElements: this.detectPermaElements(lowerText),
-      griefSignals: this.detectGriefSignals(lowerText),
-      moneySignals: this.detectMoneySignals(lowerText),
-      gottmanSignals: this.detectGottmanSignals(lowerText),
+      cognitiveDistortions: signals('cognitive_distortion').map(s => ({
+        distortion: s.pattern as CognitiveDistortion,
+        matches: s.matches,
+        confidence: s.confidence,
+      })),
+      defenseMechanisms: signals('defense_mechanism').map(s => ({ mechanism: s.pattern as DefenseMechanism, matches: s.matches })),
+      attachmentSignals: signals('attachment').map(s => ({ style: s.pattern as AttachmentStyle, matches: s.matches })),
+      locusSignals: signals('locus_of_control').map(s => ({ type: s.pattern as 'internal' | 'external', matches: s.matches })),
+      regulationStrategies: signals('emotion_regulation').map(s => ({ strategy: s.pattern as EmotionRegulationStrategy, matches: s.matches })),
+      polyvagalState: polyvagal
+        ? { state: polyvagal.pattern as PolyvagalState, matches: polyvagal.matches, confidence: polyvagal.confidence }
+        : null,
+      mindsetSignals: signals('mindset').map(s => ({ type: s.pattern as Mindset, matches: s.matches })),
+      valuesDetected: signals('values').map(s => ({ value: s.pattern as SchwartzValue, matches: s.matches })),
+      permaElements: signals('perma').map(s => ({ element: s.pattern as PermaElement, matches: s.matches })),
+      griefSignals: signals('grief').map(s => ({ style: s.pattern as GriefStyle, matches: s.matches })),
+      moneySignals: signals('money_script').map(s => ({ script: s.pattern as MoneyScript, matches: s.matches })),
+      gottmanSignals: signals('gottman').map(s => ({ horseman: s.pattern as GottmanHorseman, matches: s.matches })),
       alerts: [], // Populated after all detection
     };
   }
@@ -189,7 +202,11 @@ class PsychAnalysisService {
   /**
    * Analyze entry AND update profile
    */
-  async analyzeAndUpdateProfile(text: string, entryId: string): Promise<EntryAnalysis> {
+  async analyzeAndUpdateProfile(
+    text: string,
+    entryId: string,
+    createdAt: string = new Date().toISOString()
+  ): Promise<EntryAnalysis> {
     await this.initialize();
 
     const analysis = this.analyzeEntry(text);
@@ -203,297 +220,42 @@ class PsychAnalysisService {
     // Save updated profile
     await this.saveProfile();
 
-    return analysis;
-  }
-
-  // ============================================
-  // DETECTION METHODS
-  // ============================================
-
-  private detectCognitiveDistortions(lowerText: string, originalText: string): EntryAnalysis['cognitiveDistortions'] {
-    const results: EntryAnalysis['cognitiveDistortions'] = [];
-
-    for (const [distortion, patterns] of Object.entries(COGNITIVE_DISTORTION_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          // Find the actual phrase containing the keyword
-          const regex = new RegExp(`[^.]*\\b${keyword}\\b[^.]*`, 'gi');
-          const found = originalText.match(regex);
-          if (found) {
-            matches.push(...found.map(m => m.trim()));
-          }
-        }
-      }
-
-      if (matches.length > 0) {
-        results.push({
-          distortion: distortion as CognitiveDistortion,
-          matches: [...new Set(matches)], // Dedupe
-          confidence: Math.min(matches.length / 3, 1), // More matches = higher confidence
-        });
-      }
-    }
-
-    return results;
-  }
-
-  private detectDefenseMechanisms(lowerText: string): EntryAnalysis['defenseMechanisms'] {
-    const results: EntryAnalysis['defenseMechanisms'] = [];
+    // Keep the per-entry history for the timeline
+    await recordEntryAnalysis({ id: entryId, createdAt, text }, analysis);
 
-    for (const [mechanism, patterns] of Object.entries(DEFENSE_MECHANISM_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
-
-      if (matches.length > 0) {
-        results.push({
-          mechanism: mechanism as DefenseMechanism,
-          matches,
-        });
-      }
-    }
-
-    return results;
-  }
-
-  private detectAttachmentSignals(lowerText: string): EntryAnalysis['attachmentSignals'] {
-    const results: EntryAnalysis['attachmentSignals'] = [];
-
-    for (const [style, patterns] of Object.entries(ATTACHMENT_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
-
-      if (matches.length > 0) {
-        results.push({
-          style: style as AttachmentStyle,
-          matches,
-        });
-      }
-    }
-
-    return results;
-  }
-
-  private detectLocusSignals(lowerText: string): EntryAnalysis['locusSignals'] {
-    const results: EntryAnalysis['locusSignals'] = [];
-
-    for (const [locus, patterns] of Object.entries(LOCUS_OF_CONTROL_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
-
-      if (matches.length > 0) {
-        results.push({
-          type: locus as 'internal' | 'external',
-          matches,
-        });
-      }
-    }
-
-    return results;
-  }
-
-  private detectRegulationStrategies(lowerText: string): EntryAnalysis['regulationStrategies'] {
-    const results: EntryAnalysis['regulationStrategies'] = [];
-
-    for (const [strategy, patterns] of Object.entries(EMOTION_REGULATION_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
-
-      if (matches.length > 0) {
-        results.push({
-          strategy: strategy as EmotionRegulationStrategy,
-          matches,
-        });
-      }
-    }
-
-    return results;
-  }
-
-  private detectPolyvagalState(lowerText: string): EntryAnalysis['polyvagalState'] {
-    let bestMatch: { state: PolyvagalState; matches: string[]; confidence: number } | null = null;
-
-    for (const [state, patterns] of Object.entries(POLYVAGAL_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
-
-      if (matches.length > 0) {
-        const confidence = matches.length / patterns.keywords.length;
-        if (!bestMatch || confidence > bestMatch.confidence) {
-          bestMatch = {
-            state: state as PolyvagalState,
-            matches,
-            confidence,
-          };
-        }
-      }
-    }
-
-    return bestMatch;
-  }
-
-  private detectMindsetSignals(lowerText: string): EntryAnalysis['mindsetSignals'] {
-    const results: EntryAnalysis['mindsetSignals'] = [];
-
-    for (const [mindset, patterns] of Object.entries(MINDSET_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
-
-      if (matches.length > 0) {
-        results.push({
-          type: mindset as Mindset,
-          matches,
-        });
-      }
-    }
-
-    return results;
-  }
-
-  private detectValues(lowerText: string): EntryAnalysis['valuesDetected'] {
-    const results: EntryAnalysis['valuesDetected'] = [];
-
-    for (const [value, patterns] of Object.entries(VALUES_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
-
-      if (matches.length > 0) {
-        results.push({
-          value: value as SchwartzValue,
-          matches,
-        });
-      }
-    }
-
-    return results;
-  }
-
-  private detectPermaElements(lowerText: string): EntryAnalysis['permaElements'] {
-    const results: EntryAnalysis['permaElements'] = [];
-
-    for (const [element, patterns] of Object.entries(PERMA_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
-
-      if (matches.length > 0) {
-        results.push({
-          element: element as PermaElement,
-          matches,
-        });
-      }
-    }
-
-    return results;
-  }
-
-  private detectGriefSignals(lowerText: string): EntryAnalysis['griefSignals'] {
-    const results: EntryAnalysis['griefSignals'] = [];
-
-    for (const [style, patterns] of Object.entries(GRIEF_STYLE_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
-
-      if (matches.length > 0) {
-        results.push({
-          style: style as GriefStyle,
-          matches,
-        });
-      }
-    }
-
-    return results;
+    return analysis;
   }
 
-  private detectMoneySignals(lowerText: string): EntryAnalysis['moneySignals'] {
-    const results: EntryAnalysis['moneySignals'] = [];
-
-    for (const [script, patterns] of Object.entries(MONEY_SCRIPT_PATTERNS)) {
-      const matches: string[] = [];
+  /**
+   * Bring the timeline up to date with the journal: analyze entries that
+   * were never recorded or were edited since, and drop deleted ones.
+   * Only the timeline is touched; the aggregate profile is not re-counted.
+   */
+  async syncTimelineWithJournal(): Promise<number> {
+    const timer = startTimer('psychTimelineSync', 'services');
+    await loadAnalyzerSettings();
+    const index = await getEntryIndex();
+    const analyzed = await getAnalyzedEntries();
+    await pruneTimeline(new Set(index.map(record => record.id)));
 
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
+    const batch: AnalyzedEntry[] = [];
+    for (const record of index) {
+      const analyzedAt = analyzed[record.id];
+      const edited = analyzedAt !== undefined && record.updatedAt !== undefined && record.updatedAt > analyzedAt;
+      if (analyzedAt !== undefined && !edited) continue;
 
-      if (matches.length > 0) {
-        results.push({
-          script: script as MoneyScript,
-          matches,
-        });
-      }
+      const entry = await getEntryById(record.id);
+      if (!entry) continue;
+      batch.push({ entry, analysis: this.analyzeEntry(entry.text) });
     }
+    await recordEntryAnalyses(batch);
 
-    return results;
-  }
-
-  private detectGottmanSignals(lowerText: string): EntryAnalysis['gottmanSignals'] {
-    const results: EntryAnalysis['gottmanSignals'] = [];
-
-    for (const [horseman, patterns] of Object.entries(GOTTMAN_PATTERNS)) {
-      const matches: string[] = [];
-
-      for (const keyword of patterns.keywords) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-          matches.push(keyword);
-        }
-      }
-
-      if (matches.length > 0) {
-        results.push({
-          horseman: horseman as GottmanHorseman,
-          matches,
-        });
-      }
+    const recorded = batch.length;
+    await endTimer(timer, { entries: index.length, recorded });
+    if (recorded > 0) {
+      info('services', 'Psychological timeline synced', { recorded }, 'psychAnalysisService');
     }
-
-    return results;
+    return recorded;
   }
 
   // ============================================
@@ -1116,6 +878,7 @@ class PsychAnalysisService {
   async resetProfile(): Promise<void> {
     this.profile = DEFAULT_PSYCHOLOGICAL_PROFILE;
     await this.saveProfile();
+    await clearTimeline();
   }
 }
 
@@ -0,0 +1,285 @@
+/**
+ * Psych Analyzer Evaluation
+ *
+ * Runs the registered analyzers over labeled sample entries and reports
+ * precision and recall per analyzer, so lexicon changes (in code or via
+ * user tuning) can be checked before they reach the profile.
+ *
+ * A sample only scores the analyzers it has labels for; an empty label
+ * list means nothing should be detected (used for negation cases).
+ * Disabled analyzers are evaluated too, with their tuned lexicons.
+ */
+
+import {
+  getPsychAnalyzers,
+  runPsychAnalyzer,
+  isPsychAnalyzerEnabled,
+} from './psychAnalyzerRegistry';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LabeledSample {
+  id: string;
+  text: string;
+  /** analyzerId -> patterns a reviewer expects to be found */
+  labels: Record<string, string[]>;
+}
+
+export interface EvaluationError {
+  sampleId: string;
+  pattern: string;
+  kind: 'missed' | 'unexpected';
+}
+
+export interface AnalyzerEvaluation {
+  analyzerId: string;
+  name: string;
+  enabled: boolean;
+  /** Samples labeled for this analyzer */
+  samples: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** 0-1; 1 when nothing was predicted */
+  precision: number;
+  /** 0-1; 1 when nothing was expected */
+  recall: number;
+  f1: number;
+  errors: EvaluationError[];
+}
+
+export interface EvaluationReport {
+  evaluatedAt: string;
+  sampleCount: number;
+  analyzers: AnalyzerEvaluation[];
+  overall: { precision: number; recall: number; f1: number };
+}
+
+// ============================================
+// SAMPLE ENTRIES
+// ============================================
+
+export const PSYCH_EVALUATION_SAMPLES: LabeledSample[] = [
+  // Thinking patterns
+  {
+    id: 'distortion-all-or-nothing',
+    text: 'I always ruin everything. Nothing ever works out for me.',
+    labels: { cognitive_distortion: ['all_or_nothing'] },
+  },
+  {
+    id: 'distortion-catastrophizing',
+    text: 'If I fail this exam it\'s the end of the world. I can\'t handle this, it will be a disaster.',
+    labels: { cognitive_distortion: ['catastrophizing', 'fortune_telling'] },
+  },
+  {
+    id: 'distortion-mind-reading',
+    text: 'They probably think I\'m an idiot. Everyone thinks I talk too much.',
+    labels: { cognitive_distortion: ['mind_reading'] },
+  },
+  {
+    id: 'distortion-should-labeling',
+    text: 'I should have called her back. I\'m such a failure.',
+    labels: { cognitive_distortion: ['should_statements', 'labeling'] },
+  },
+
+  // Nervous system
+  {
+    id: 'polyvagal-sympathetic',
+    text: 'Heart pounding, on edge all day, couldn\'t sit still.',
+    labels: { polyvagal_state: ['sympathetic'] },
+  },
+  {
+    id: 'polyvagal-dorsal',
+    text: 'Just numb. Going through motions, everything feels foggy.',
+    labels: { polyvagal_state: ['dorsal_vagal'] },
+  },
+  {
+    id: 'polyvagal-ventral',
+    text: 'Spent the morning by the lake and felt calm and grounded.',
+    labels: { polyvagal_state: ['ventral_vagal'] },
+  },
+  {
+    id: 'polyvagal-negated',
+    text: 'I didn\'t feel anxious at the party, and I wasn\'t restless either.',
+    labels: { polyvagal_state: [] },
+  },
+
+  // Wellbeing
+  {
+    id: 'perma-mixed',
+    text: 'Felt so proud after the run, lost track of time in the garden and I\'m grateful for my friends.',
+    labels: { perma: ['accomplishment', 'engagement', 'positive_emotion'] },
+  },
+  {
+    id: 'perma-negated',
+    text: 'I\'m not happy with how today went, and I don\'t feel calm at all.',
+    labels: { perma: [], polyvagal_state: [] },
+  },
+  {
+    id: 'values-benevolence',
+    text: 'Family comes first. I want to be kind and helpful to the people around me.',
+    labels: { values: ['benevolence'] },
+  },
+
+  // Mindset & control
+  {
+    id: 'mindset-growth',
+    text: 'I\'m not good at this yet but with practice I can learn it.',
+    labels: { mindset: ['growth'] },
+  },
+  {
+    id: 'mindset-fixed',
+    text: 'That\'s just how I am, I\'m not smart enough for coding.',
+    labels: { mindset: ['fixed'] },
+  },
+  {
+    id: 'locus-external',
+    text: 'It was out of my control, they made me stay late again.',
+    labels: { locus_of_control: ['external'] },
+  },
+  {
+    id: 'locus-internal',
+    text: 'I decided to start running and my effort paid off.',
+    labels: { locus_of_control: ['internal'] },
+  },
+
+  // Coping
+  {
+    id: 'regulation-rumination',
+    text: 'I can\'t stop thinking about what he said, replaying it over and over.',
+    labels: { emotion_regulation: ['rumination'] },
+  },
+  {
+    id: 'regulation-reappraisal',
+    text: 'Instead of spiralling I reframed it and looked at it another way.',
+    labels: { emotion_regulation: ['cognitive_reappraisal'] },
+  },
+  {
+    id: 'defense-denial',
+    text: 'Honestly I\'m fine, it\'s not that bad. Nothing\'s wrong.',
+    labels: { defense_mechanism: ['denial'] },
+  },
+
+  // Relationships, money, grief
+  {
+    id: 'attachment-anxious',
+    text: 'I constantly need reassurance, I worry they\'ll leave me.',
+    labels: { attachment: ['anxious'] },
+  },
+  {
+    id: 'gottman-criticism-stonewalling',
+    text: 'You never listen, what\'s wrong with you? Then he said whatever and walked off.',
+    labels: { gottman: ['criticism', 'stonewalling'] },
+  },
+  {
+    id: 'money-worship',
+    text: 'There\'s never enough. If I just had more money everything would be fine.',
+    labels: { money_script: ['money_worship'] },
+  },
+  {
+    id: 'grief-instrumental',
+    text: 'Since Dad died I\'ve been keeping busy. I made a list of everything to sort.',
+    labels: { grief: ['instrumental'] },
+  },
+];
+
+// ============================================
+// EVALUATION
+// ============================================
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 1 : numerator / denominator;
+}
+
+function f1Score(precision: number, recall: number): number {
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+}
+
+/**
+ * Score every registered analyzer against the samples
+ */
+export function evaluatePsychAnalyzers(samples: LabeledSample[] = PSYCH_EVALUATION_SAMPLES): EvaluationReport {
+  const results: AnalyzerEvaluation[] = [];
+
+  for (const analyzer of getPsychAnalyzers()) {
+    const labeled = samples.filter(sample => sample.labels[analyzer.id] !== undefined);
+    if (labeled.length === 0) continue;
+
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    const errors: EvaluationError[] = [];
+
+    for (const sample of labeled) {
+      const expected = new Set(sample.labels[analyzer.id]);
+      const found = new Set(runPsychAnalyzer(analyzer, sample.text).map(signal => signal.pattern));
+
+      found.forEach(pattern => {
+        if (expected.has(pattern)) {
+          truePositives++;
+        } else {
+          falsePositives++;
+          errors.push({ sampleId: sample.id, pattern, kind: 'unexpected' });
+        }
+      });
+      expected.forEach(pattern => {
+        if (!found.has(pattern)) {
+          falseNegatives++;
+          errors.push({ sampleId: sample.id, pattern, kind: 'missed' });
+        }
+      });
+    }
+
+    const precision = ratio(truePositives, truePositives + falsePositives);
+    const recall = ratio(truePositives, truePositives + falseNegatives);
+    results.push({
+      analyzerId: analyzer.id,
+      name: analyzer.name,
+      enabled: isPsychAnalyzerEnabled(analyzer.id),
+      samples: labeled.length,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision,
+      recall,
+      f1: f1Score(precision, recall),
+      errors,
+    });
+  }
+
+  const totals = results.reduce(
+    (sum, result) => ({
+      tp: sum.tp + result.truePositives,
+      fp: sum.fp + result.falsePositives,
+      fn: sum.fn + result.falseNegatives,
+    }),
+    { tp: 0, fp: 0, fn: 0 }
+  );
+  const precision = ratio(totals.tp, totals.tp + totals.fp);
+  const recall = ratio(totals.tp, totals.tp + totals.fn);
+
+  return {
+    evaluatedAt: new Date().toISOString(),
+    sampleCount: samples.length,
+    analyzers: results,
+    overall: { precision, recall, f1: f1Score(precision, recall) },
+  };
+}
+
+/**
+ * Plain-text summary, one line per analyzer (for logs and sharing)
+ */
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const lines = report.analyzers.map(result =>
+    `${result.name}${result.enabled ? '' : ' (off)'}: precision ${percent(result.precision)}, ` +
+    `recall ${percent(result.recall)} over ${result.samples} samples`
+  );
+  lines.push(
+    `Overall: precision ${percent(report.overall.precision)}, recall ${percent(report.overall.recall)}, ` +
+    `F1 ${percent(report.overall.f1)}`
+  );
+  return lines.join('\n');
+}
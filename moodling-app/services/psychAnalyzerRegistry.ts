@@ -0,0 +1,373 @@
+/**
+ * Psych Analyzer Registry
+ *
+ * Plugin interface for the per-framework detectors behind
+ * psychAnalysisService.analyzeEntry. Each analyzer brings its own
+ * lexicon (pattern -> phrases), says whether negation cancels a match
+ * and how matches turn into confidence. The built-in frameworks are
+ * registered in psychAnalyzers.ts; anything else can call
+ * registerPsychAnalyzer the same way.
+ *
+ * User tuning (frameworks switched off, phrases added or muted) is kept
+ * here and applied on every run, so clinicians can adjust the lexicons
+ * without touching code. psychAnalyzerEvaluation.ts scores the tuned
+ * analyzers against labeled sample entries.
+ *
+ * Has no dependencies on psychAnalysisService so analyzers can be
+ * registered without import cycles.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { info } from './loggingService';
+
+const SETTINGS_KEY = 'moodleaf_psych_analyzer_settings';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Phrases per pattern, e.g. { all_or_nothing: ['always', 'never'] } */
+export type AnalyzerLexicon = Record<string, string[]>;
+
+export interface AnalyzerSignal {
+  pattern: string;
+  /** Matched phrases, or the sentences containing them */
+  matches: string[];
+  /** 0-1 */
+  confidence: number;
+}
+
+export interface PsychAnalyzer {
+  /** Stable id; the built-ins use the timeline dimension names */
+  id: string;
+  name: string;
+  /** Research framework, shown in settings (e.g. 'CBT', 'Gottman') */
+  framework: string;
+  description?: string;
+  /** Built-in phrases; user additions and mutes are applied on top */
+  lexicon: AnalyzerLexicon;
+  /** Skip matches with a negation just before them (default true) */
+  negation?: boolean;
+  /** Report the matched phrase or the sentence around it (default 'phrase') */
+  evidence?: 'phrase' | 'sentence';
+  /** Report every pattern found, or only the most confident (default 'all') */
+  select?: 'all' | 'best';
+  /** Turns the number of phrases matched into 0-1; lexiconSize is the pattern's phrase count */
+  confidence: (matchCount: number, lexiconSize: number) => number;
+}
+
+export interface AnalyzerSettings {
+  /** Analyzer ids switched off */
+  disabled: string[];
+  /** analyzerId -> pattern -> extra phrases */
+  addedPhrases: Record<string, AnalyzerLexicon>;
+  /** analyzerId -> pattern -> built-in phrases to ignore */
+  mutedPhrases: Record<string, AnalyzerLexicon>;
+}
+
+const DEFAULT_SETTINGS: AnalyzerSettings = {
+  disabled: [],
+  addedPhrases: {},
+  mutedPhrases: {},
+};
+
+// ============================================
+// REGISTRY
+// ============================================
+
+const analyzers = new Map<string, PsychAnalyzer>();
+
+/**
+ * Register an analyzer. An analyzer with the same id is replaced.
+ */
+export function registerPsychAnalyzer(analyzer: PsychAnalyzer): void {
+  analyzers.set(analyzer.id, analyzer);
+}
+
+export function unregisterPsychAnalyzer(id: string): boolean {
+  return analyzers.delete(id);
+}
+
+export function getPsychAnalyzer(id: string): PsychAnalyzer | undefined {
+  return analyzers.get(id);
+}
+
+/**
+ * All registered analyzers, in registration order
+ */
+export function getPsychAnalyzers(): PsychAnalyzer[] {
+  return Array.from(analyzers.values());
+}
+
+// ============================================
+// CONFIDENCE MODELS
+// ============================================
+
+/**
+ * Confidence grows with each match and is full at `saturation` matches
+ */
+export function countConfidence(saturation: number): PsychAnalyzer['confidence'] {
+  return (matchCount) => Math.min(matchCount / saturation, 1);
+}
+
+/**
+ * Share of the pattern's phrases that matched
+ */
+export function coverageConfidence(matchCount: number, lexiconSize: number): number {
+  return lexiconSize > 0 ? Math.min(matchCount / lexiconSize, 1) : 0;
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'nor', 'without', 'hardly', 'barely',
+  "don't", "doesn't", "didn't", "isn't", "wasn't", "aren't", "weren't",
+  "won't", "wouldn't", "can't", 'cannot', "couldn't", "haven't", "hasn't",
+]);
+
+/** Words before a match that are checked for a negator */
+const NEGATION_WINDOW = 3;
+
+function normalize(text: string): string {
+  // Same length as the input, so offsets map back to the original text
+  return text.toLowerCase().replace(/[‘’]/g, "'");
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[a-z0-9']/.test(char);
+}
+
+function containsNegator(phrase: string): boolean {
+  return phrase.split(/\s+/).some(word => NEGATORS.has(word));
+}
+
+/**
+ * A negator in the few words before the phrase, or a contraction right
+ * after it ('i can' in "i can't")
+ */
+function isNegated(text: string, index: number, length: number): boolean {
+  if (/^n?'t(?![a-z])/.test(text.slice(index + length))) return true;
+  const clause = text.slice(0, index).split(/[.,;:!?\n]/).pop() ?? '';
+  const words = clause.trim().split(/\s+/).filter(Boolean).slice(-NEGATION_WINDOW);
+  return words.some(word => NEGATORS.has(word));
+}
+
+function sentenceAt(text: string, index: number): string {
+  const start = Math.max(
+    text.lastIndexOf('.', index),
+    text.lastIndexOf('!', index),
+    text.lastIndexOf('?', index),
+    text.lastIndexOf('\n', index)
+  ) + 1;
+  const ends = ['.', '!', '?', '\n']
+    .map(mark => text.indexOf(mark, index))
+    .filter(position => position >= 0);
+  const end = ends.length > 0 ? Math.min(...ends) : text.length;
+  return text.slice(start, end).trim();
+}
+
+/**
+ * Positions where the phrase occurs as a word start; trailing letters are
+ * allowed so 'improve' also finds 'improving'
+ */
+function findPhrase(text: string, phrase: string): number[] {
+  const positions: number[] = [];
+  let index = text.indexOf(phrase);
+  while (index >= 0) {
+    if (!isWordChar(text[index - 1])) positions.push(index);
+    index = text.indexOf(phrase, index + 1);
+  }
+  return positions;
+}
+
+/**
+ * Run one analyzer over a text with the given lexicon
+ */
+export function runPsychAnalyzer(
+  analyzer: PsychAnalyzer,
+  text: string,
+  lexicon: AnalyzerLexicon = getEffectiveLexicon(analyzer)
+): AnalyzerSignal[] {
+  const normalized = normalize(text);
+  const checkNegation = analyzer.negation !== false;
+  const signals: AnalyzerSignal[] = [];
+
+  for (const [pattern, phrases] of Object.entries(lexicon)) {
+    const matchedPhrases: string[] = [];
+    const evidence = new Set<string>();
+
+    for (const rawPhrase of phrases) {
+      const phrase = normalize(rawPhrase.trim());
+      if (!phrase) continue;
+      const skipNegation = !checkNegation || containsNegator(phrase);
+      const positions = findPhrase(normalized, phrase)
+        .filter(position => skipNegation || !isNegated(normalized, position, phrase.length));
+      if (positions.length === 0) continue;
+
+      matchedPhrases.push(rawPhrase);
+      if (analyzer.evidence === 'sentence') {
+        positions.forEach(position => evidence.add(sentenceAt(text, position)));
+      } else {
+        evidence.add(rawPhrase);
+      }
+    }
+
+    if (matchedPhrases.length > 0) {
+      signals.push({
+        pattern,
+        matches: Array.from(evidence).filter(Boolean),
+        confidence: analyzer.confidence(matchedPhrases.length, phrases.length),
+      });
+    }
+  }
+
+  if (analyzer.select === 'best' && signals.length > 1) {
+    return [signals.reduce((best, signal) => (signal.confidence > best.confidence ? signal : best))];
+  }
+  return signals;
+}
+
+/**
+ * Run every enabled analyzer. Disabled analyzers are absent from the result.
+ */
+export function runPsychAnalyzers(text: string): Record<string, AnalyzerSignal[]> {
+  const results: Record<string, AnalyzerSignal[]> = {};
+  for (const analyzer of analyzers.values()) {
+    if (!isPsychAnalyzerEnabled(analyzer.id)) continue;
+    results[analyzer.id] = runPsychAnalyzer(analyzer, text);
+  }
+  return results;
+}
+
+// ============================================
+// USER TUNING
+// ============================================
+
+let settings: AnalyzerSettings = DEFAULT_SETTINGS;
+let settingsPromise: Promise<AnalyzerSettings> | null = null;
+
+/**
+ * Load tuning from storage (once). Analysis before this uses the
+ * built-in lexicons with every analyzer on.
+ */
+export function loadAnalyzerSettings(): Promise<AnalyzerSettings> {
+  if (!settingsPromise) {
+    settingsPromise = AsyncStorage.getItem(SETTINGS_KEY)
+      .then(stored => {
+        settings = stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+        return settings;
+      })
+      .catch(error => {
+        console.error('[PsychAnalyzers] Failed to load settings:', error);
+        settingsPromise = null;
+        return settings;
+      });
+  }
+  return settingsPromise;
+}
+
+export function getAnalyzerSettings(): AnalyzerSettings {
+  return settings;
+}
+
+async function saveSettings(update: AnalyzerSettings): Promise<void> {
+  await loadAnalyzerSettings();
+  settings = update;
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('[PsychAnalyzers] Failed to save settings:', error);
+  }
+}
+
+export function isPsychAnalyzerEnabled(id: string): boolean {
+  return !settings.disabled.includes(id);
+}
+
+export async function setPsychAnalyzerEnabled(id: string, enabled: boolean): Promise<void> {
+  const disabled = settings.disabled.filter(existing => existing !== id);
+  if (!enabled) disabled.push(id);
+  await saveSettings({ ...settings, disabled });
+  info('services', 'Psych analyzer toggled', { id, enabled }, 'psychAnalyzerRegistry');
+}
+
+function withPhrase(lexicons: Record<string, AnalyzerLexicon>, id: string, pattern: string, phrase: string): Record<string, AnalyzerLexicon> {
+  const lexicon = lexicons[id] ?? {};
+  const phrases = lexicon[pattern] ?? [];
+  if (phrases.includes(phrase)) return lexicons;
+  return { ...lexicons, [id]: { ...lexicon, [pattern]: [...phrases, phrase] } };
+}
+
+function withoutPhrase(lexicons: Record<string, AnalyzerLexicon>, id: string, pattern: string, phrase: string): Record<string, AnalyzerLexicon> {
+  const phrases = lexicons[id]?.[pattern];
+  if (!phrases?.includes(phrase)) return lexicons;
+  return { ...lexicons, [id]: { ...lexicons[id], [pattern]: phrases.filter(existing => existing !== phrase) } };
+}
+
+/**
+ * Add a phrase to one of an analyzer's patterns. Un-mutes it if it was a
+ * muted built-in phrase.
+ */
+export async function addAnalyzerPhrase(
+  id: string,
+  pattern: string,
+  phrase: string
+): Promise<{ success: boolean; error?: string }> {
+  const analyzer = analyzers.get(id);
+  const cleaned = phrase.trim().toLowerCase();
+  if (!analyzer) return { success: false, error: 'Unknown analyzer' };
+  if (!(pattern in analyzer.lexicon)) return { success: false, error: 'Unknown pattern' };
+  if (!cleaned) return { success: false, error: 'Phrase is empty' };
+
+  const builtIn = analyzer.lexicon[pattern].some(existing => existing.toLowerCase() === cleaned);
+  await saveSettings({
+    ...settings,
+    addedPhrases: builtIn ? settings.addedPhrases : withPhrase(settings.addedPhrases, id, pattern, cleaned),
+    mutedPhrases: withoutPhrase(settings.mutedPhrases, id, pattern, cleaned),
+  });
+  return { success: true };
+}
+
+/**
+ * Remove a phrase: user-added phrases are deleted, built-in ones are muted
+ */
+export async function removeAnalyzerPhrase(id: string, pattern: string, phrase: string): Promise<void> {
+  const analyzer = analyzers.get(id);
+  if (!analyzer) return;
+  const cleaned = phrase.trim().toLowerCase();
+  const builtIn = analyzer.lexicon[pattern]?.some(existing => existing.toLowerCase() === cleaned);
+
+  await saveSettings({
+    ...settings,
+    addedPhrases: withoutPhrase(settings.addedPhrases, id, pattern, cleaned),
+    mutedPhrases: builtIn ? withPhrase(settings.mutedPhrases, id, pattern, cleaned) : settings.mutedPhrases,
+  });
+}
+
+/**
+ * Put every analyzer back to its built-in lexicon, all enabled
+ */
+export async function resetAnalyzerSettings(): Promise<void> {
+  await saveSettings(DEFAULT_SETTINGS);
+  info('services', 'Psych analyzer settings reset', undefined, 'psychAnalyzerRegistry');
+}
+
+/**
+ * Built-in lexicon with the user's additions and mutes applied
+ */
+export function getEffectiveLexicon(analyzer: PsychAnalyzer): AnalyzerLexicon {
+  const added = settings.addedPhrases[analyzer.id] ?? {};
+  const muted = settings.mutedPhrases[analyzer.id] ?? {};
+  const lexicon: AnalyzerLexicon = {};
+
+  for (const [pattern, phrases] of Object.entries(analyzer.lexicon)) {
+    const mutedSet = new Set(muted[pattern] ?? []);
+    lexicon[pattern] = [
+      ...phrases.filter(phrase => !mutedSet.has(phrase.toLowerCase())),
+      ...(added[pattern] ?? []),
+    ];
+  }
+  return lexicon;
+}
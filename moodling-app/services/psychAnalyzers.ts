@@ -0,0 +1,164 @@
+/**
+ * Built-in Psych Analyzers
+ *
+ * Registers one analyzer per framework in psychTypes with
+ * psychAnalyzerRegistry. Ids match the psychTimelineService dimensions.
+ *
+ * Negation is on unless the framework's phrases are themselves negative
+ * statements ("nothing ever", "can't handle"), where a nearby "not" is
+ * part of the pattern rather than a denial of it.
+ */
+
+import {
+  registerPsychAnalyzer,
+  countConfidence,
+  coverageConfidence,
+  AnalyzerLexicon,
+} from './psychAnalyzerRegistry';
+import {
+  COGNITIVE_DISTORTION_PATTERNS,
+  DEFENSE_MECHANISM_PATTERNS,
+  ATTACHMENT_PATTERNS,
+  LOCUS_OF_CONTROL_PATTERNS,
+  EMOTION_REGULATION_PATTERNS,
+  POLYVAGAL_PATTERNS,
+  MINDSET_PATTERNS,
+  VALUES_PATTERNS,
+  PERMA_PATTERNS,
+  GRIEF_STYLE_PATTERNS,
+  MONEY_SCRIPT_PATTERNS,
+  GOTTMAN_PATTERNS,
+} from './psychTypes';
+
+function lexiconOf(patterns: Record<string, { keywords: string[] }>): AnalyzerLexicon {
+  const lexicon: AnalyzerLexicon = {};
+  for (const [pattern, definition] of Object.entries(patterns)) {
+    lexicon[pattern] = definition.keywords;
+  }
+  return lexicon;
+}
+
+// ============================================
+// THINKING & COPING
+// ============================================
+
+registerPsychAnalyzer({
+  id: 'cognitive_distortion',
+  name: 'Thinking patterns',
+  framework: 'CBT',
+  description: 'Cognitive distortions such as all-or-nothing thinking and catastrophizing',
+  lexicon: lexiconOf(COGNITIVE_DISTORTION_PATTERNS),
+  negation: false,
+  evidence: 'sentence',
+  confidence: countConfidence(3),
+});
+
+registerPsychAnalyzer({
+  id: 'defense_mechanism',
+  name: 'Defense mechanisms',
+  framework: 'Vaillant',
+  description: 'Mature, neurotic and immature defenses',
+  lexicon: lexiconOf(DEFENSE_MECHANISM_PATTERNS),
+  negation: false,
+  confidence: countConfidence(2),
+});
+
+registerPsychAnalyzer({
+  id: 'emotion_regulation',
+  name: 'Emotion regulation',
+  framework: 'Gross process model',
+  description: 'How feelings are handled, from reappraisal to rumination',
+  lexicon: lexiconOf(EMOTION_REGULATION_PATTERNS),
+  confidence: countConfidence(2),
+});
+
+registerPsychAnalyzer({
+  id: 'mindset',
+  name: 'Mindset',
+  framework: 'Dweck',
+  description: 'Fixed and growth mindset language',
+  lexicon: lexiconOf(MINDSET_PATTERNS),
+  confidence: countConfidence(2),
+});
+
+registerPsychAnalyzer({
+  id: 'locus_of_control',
+  name: 'Locus of control',
+  framework: 'Rotter',
+  description: 'Whether outcomes are framed as in or out of one\'s hands',
+  lexicon: lexiconOf(LOCUS_OF_CONTROL_PATTERNS),
+  confidence: countConfidence(2),
+});
+
+// ============================================
+// BODY & RELATIONSHIPS
+// ============================================
+
+registerPsychAnalyzer({
+  id: 'polyvagal_state',
+  name: 'Nervous system',
+  framework: 'Polyvagal theory',
+  description: 'Safe and social, fight/flight or shutdown; only the strongest state is kept',
+  lexicon: lexiconOf(POLYVAGAL_PATTERNS),
+  select: 'best',
+  confidence: coverageConfidence,
+});
+
+registerPsychAnalyzer({
+  id: 'attachment',
+  name: 'Attachment',
+  framework: 'Attachment theory',
+  description: 'Secure, anxious, avoidant and disorganized relating',
+  lexicon: lexiconOf(ATTACHMENT_PATTERNS),
+  confidence: countConfidence(3),
+});
+
+registerPsychAnalyzer({
+  id: 'gottman',
+  name: 'Relationship patterns',
+  framework: 'Gottman',
+  description: 'The four horsemen: criticism, contempt, defensiveness, stonewalling',
+  lexicon: lexiconOf(GOTTMAN_PATTERNS),
+  negation: false,
+  confidence: countConfidence(2),
+});
+
+// ============================================
+// WELLBEING & MEANING
+// ============================================
+
+registerPsychAnalyzer({
+  id: 'values',
+  name: 'Values',
+  framework: 'Schwartz',
+  description: 'The ten basic human values',
+  lexicon: lexiconOf(VALUES_PATTERNS),
+  confidence: countConfidence(3),
+});
+
+registerPsychAnalyzer({
+  id: 'perma',
+  name: 'Wellbeing (PERMA)',
+  framework: 'Seligman',
+  description: 'Positive emotion, engagement, relationships, meaning, accomplishment',
+  lexicon: lexiconOf(PERMA_PATTERNS),
+  confidence: countConfidence(2),
+});
+
+registerPsychAnalyzer({
+  id: 'grief',
+  name: 'Grief',
+  framework: 'Doka & Martin',
+  description: 'Intuitive, instrumental and dissonant grieving',
+  lexicon: lexiconOf(GRIEF_STYLE_PATTERNS),
+  confidence: countConfidence(2),
+});
+
+registerPsychAnalyzer({
+  id: 'money_script',
+  name: 'Money scripts',
+  framework: 'Klontz',
+  description: 'Money avoidance, worship, status and vigilance',
+  lexicon: lexiconOf(MONEY_SCRIPT_PATTERNS),
+  confidence: countConfidence(2),
+});
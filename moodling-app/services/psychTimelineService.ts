@@ -0,0 +1,455 @@
+/**
+ * Psychological Profile Timeline
+ *
+ * Keeps the per-entry history behind the aggregate PsychologicalProfile:
+ * for every analyzed journal entry, which patterns were detected and the
+ * sentences that matched. From that it builds time series such as
+ * "how often did catastrophizing show up each week over three months",
+ * where every data point links back to its entries.
+ *
+ * psychAnalysisService records entries as they are analyzed and backfills
+ * older entries (syncTimelineWithJournal); this service only stores,
+ * aggregates and exports.
+ *
+ * Following Mood Leaf Ethics:
+ * - Observations, not diagnoses - rates of wording, not clinical scores
+ * - Stored encrypted on device; only leaves it when the user exports
+ */
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import EncryptedStorage, { subscribeStorageScope } from './encryptedStorage';
+import type { EntryAnalysis } from './psychAnalysisService';
+import { formatDateString } from '@/types/DailySummary';
+import { info, error as logError } from './loggingService';
+
+const STORAGE_KEY = 'moodleaf_psychological_timeline';
+const STORE_VERSION = 1;
+
+/** Longest evidence phrase kept per match */
+const MAX_PHRASE_LENGTH = 200;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TimelineDimension =
+  | 'cognitive_distortion'
+  | 'defense_mechanism'
+  | 'attachment'
+  | 'locus_of_control'
+  | 'emotion_regulation'
+  | 'polyvagal_state'
+  | 'mindset'
+  | 'values'
+  | 'perma'
+  | 'grief'
+  | 'money_script'
+  | 'gottman';
+
+export const TIMELINE_DIMENSIONS: Record<TimelineDimension, string> = {
+  cognitive_distortion: 'Thinking patterns',
+  defense_mechanism: 'Defense mechanisms',
+  attachment: 'Attachment',
+  locus_of_control: 'Locus of control',
+  emotion_regulation: 'Emotion regulation',
+  polyvagal_state: 'Nervous system',
+  mindset: 'Mindset',
+  values: 'Values',
+  perma: 'Wellbeing (PERMA)',
+  grief: 'Grief',
+  money_script: 'Money scripts',
+  gottman: 'Relationship patterns',
+};
+
+export type TimelineBucket = 'week' | 'month';
+
+export type TimelineExportFormat = 'csv' | 'json';
+
+export interface TimelineSignal {
+  dimension: TimelineDimension;
+  pattern: string;
+  /** Sentences from the entry that matched */
+  phrases: string[];
+}
+
+export interface TimelineRecord {
+  entryId: string;
+  /** When the entry was written */
+  createdAt: string;
+  /** When it was analyzed (re-analyzed after edits) */
+  analyzedAt: string;
+  signals: TimelineSignal[];
+}
+
+interface TimelineStore {
+  version: number;
+  records: Record<string, TimelineRecord>;
+}
+
+export interface TimelineEvidence {
+  entryId: string;
+  createdAt: string;
+  phrases: string[];
+}
+
+export interface TimelinePoint {
+  /** Local date the week (Monday) or month starts */
+  periodStart: string;
+  /** Entries analyzed in this period */
+  entriesAnalyzed: number;
+  /** Entries where the pattern showed up */
+  entriesWithPattern: number;
+  /** entriesWithPattern / entriesAnalyzed (0 when nothing was written) */
+  rate: number;
+  evidence: TimelineEvidence[];
+}
+
+export interface PatternSeries {
+  dimension: TimelineDimension;
+  pattern: string;
+  label: string;
+  /** Entries with this pattern across the whole range */
+  totalEntries: number;
+  points: TimelinePoint[];
+}
+
+export interface AnalyzedEntry {
+  entry: { id: string; createdAt: string; text: string };
+  analysis: EntryAnalysis;
+}
+
+export interface TimelineQuery {
+  bucket?: TimelineBucket;
+  /** How far back to look (default 3) */
+  months?: number;
+  /** Last day included (default today) */
+  endDate?: Date;
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+let storeCache: TimelineStore | null = null;
+
+subscribeStorageScope(() => {
+  storeCache = null;
+});
+
+async function loadStore(): Promise<TimelineStore> {
+  if (storeCache) return storeCache;
+  try {
+    const stored = await EncryptedStorage.getItem(STORAGE_KEY);
+    storeCache = stored ? JSON.parse(stored) : { version: STORE_VERSION, records: {} };
+  } catch (error) {
+    console.error('Failed to load psychological timeline:', error);
+    storeCache = { version: STORE_VERSION, records: {} };
+  }
+  return storeCache!;
+}
+
+async function saveStore(store: TimelineStore): Promise<void> {
+  storeCache = store;
+  await EncryptedStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+/**
+ * The sentence of the entry containing a match (matches from most
+ * detectors are bare keywords)
+ */
+function phraseFor(text: string, match: string): string {
+  const lowerText = text.toLowerCase();
+  const position = lowerText.indexOf(match.toLowerCase());
+  if (position === -1) return match.slice(0, MAX_PHRASE_LENGTH);
+
+  const boundary = /[.!?\n]/;
+  let start = position;
+  while (start > 0 && !boundary.test(text[start - 1])) start--;
+  let end = position + match.length;
+  while (end < text.length && !boundary.test(text[end])) end++;
+  return text.slice(start, Math.min(end + 1, text.length)).trim().slice(0, MAX_PHRASE_LENGTH);
+}
+
+function toSignals(text: string, analysis: EntryAnalysis): TimelineSignal[] {
+  const signals: TimelineSignal[] = [];
+  const add = (dimension: TimelineDimension, pattern: string, matches: string[]) => {
+    const phrases = [...new Set(matches.map(match => phraseFor(text, match)))];
+    signals.push({ dimension, pattern, phrases });
+  };
+
+  analysis.cognitiveDistortions.forEach(d => add('cognitive_distortion', d.distortion, d.matches));
+  analysis.defenseMechanisms.forEach(d => add('defense_mechanism', d.mechanism, d.matches));
+  analysis.attachmentSignals.forEach(s => add('attachment', s.style, s.matches));
+  analysis.locusSignals.forEach(s => add('locus_of_control', s.type, s.matches));
+  analysis.regulationStrategies.forEach(s => add('emotion_regulation', s.strategy, s.matches));
+  if (analysis.polyvagalState) {
+    add('polyvagal_state', analysis.polyvagalState.state, analysis.polyvagalState.matches);
+  }
+  analysis.mindsetSignals.forEach(s => add('mindset', s.type, s.matches));
+  analysis.valuesDetected.forEach(v => add('values', v.value, v.matches));
+  analysis.permaElements.forEach(p => add('perma', p.element, p.matches));
+  analysis.griefSignals.forEach(g => add('grief', g.style, g.matches));
+  analysis.moneySignals.forEach(m => add('money_script', m.script, m.matches));
+  analysis.gottmanSignals.forEach(g => add('gottman', g.horseman, g.matches));
+
+  return signals;
+}
+
+/**
+ * Store (or replace) the timeline records for analyzed entries in one write
+ */
+export async function recordEntryAnalyses(analyzed: AnalyzedEntry[]): Promise<void> {
+  if (analyzed.length === 0) return;
+  const store = await loadStore();
+  const analyzedAt = new Date().toISOString();
+  for (const { entry, analysis } of analyzed) {
+    store.records[entry.id] = {
+      entryId: entry.id,
+      createdAt: entry.createdAt,
+      analyzedAt,
+      signals: toSignals(entry.text, analysis),
+    };
+  }
+  await saveStore(store);
+}
+
+export async function recordEntryAnalysis(
+  entry: AnalyzedEntry['entry'],
+  analysis: EntryAnalysis
+): Promise<void> {
+  await recordEntryAnalyses([{ entry, analysis }]);
+}
+
+/**
+ * When each recorded entry was last analyzed, by entry ID
+ */
+export async function getAnalyzedEntries(): Promise<Record<string, string>> {
+  const store = await loadStore();
+  const analyzed: Record<string, string> = {};
+  for (const record of Object.values(store.records)) {
+    analyzed[record.entryId] = record.analyzedAt;
+  }
+  return analyzed;
+}
+
+/**
+ * Drop records for entries that no longer exist. Returns how many were removed.
+ */
+export async function pruneTimeline(existingEntryIds: Set<string>): Promise<number> {
+  const store = await loadStore();
+  const stale = Object.keys(store.records).filter(id => !existingEntryIds.has(id));
+  if (stale.length === 0) return 0;
+  stale.forEach(id => delete store.records[id]);
+  await saveStore(store);
+  return stale.length;
+}
+
+export async function clearTimeline(): Promise<void> {
+  storeCache = { version: STORE_VERSION, records: {} };
+  await EncryptedStorage.removeItem(STORAGE_KEY);
+}
+
+// ============================================
+// SERIES
+// ============================================
+
+export function formatPatternLabel(pattern: string): string {
+  const words = pattern.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function periodStartOf(date: Date, bucket: TimelineBucket): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (bucket === 'month') {
+    start.setDate(1);
+  } else {
+    // Weeks start on Monday
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  return start;
+}
+
+function nextPeriod(start: Date, bucket: TimelineBucket): Date {
+  const next = new Date(start);
+  if (bucket === 'month') next.setMonth(next.getMonth() + 1);
+  else next.setDate(next.getDate() + 7);
+  return next;
+}
+
+/**
+ * Period starts covering the query range, oldest first
+ */
+function periodsFor(query: TimelineQuery): { bucket: TimelineBucket; starts: string[]; from: Date; to: Date } {
+  const bucket = query.bucket ?? 'week';
+  const to = query.endDate ?? new Date();
+  const from = new Date(to.getFullYear(), to.getMonth() - (query.months ?? 3), to.getDate());
+
+  const starts: string[] = [];
+  for (let cursor = periodStartOf(from, bucket); cursor <= to; cursor = nextPeriod(cursor, bucket)) {
+    starts.push(formatDateString(cursor));
+  }
+  return { bucket, starts, from, to };
+}
+
+/**
+ * Series for every pattern of a dimension seen in the range, most frequent first
+ */
+export async function getDimensionTimeline(
+  dimension: TimelineDimension,
+  query: TimelineQuery = {}
+): Promise<PatternSeries[]> {
+  const store = await loadStore();
+  const { bucket, starts, from, to } = periodsFor(query);
+  const slot = new Map(starts.map((start, i) => [start, i]));
+
+  const analyzedPerPeriod = starts.map(() => 0);
+  const series = new Map<string, PatternSeries>();
+
+  for (const record of Object.values(store.records)) {
+    const created = new Date(record.createdAt);
+    if (created < from || created > to) continue;
+    const index = slot.get(formatDateString(periodStartOf(created, bucket)));
+    if (index === undefined) continue;
+    analyzedPerPeriod[index]++;
+
+    for (const signal of record.signals) {
+      if (signal.dimension !== dimension) continue;
+      let patternSeries = series.get(signal.pattern);
+      if (!patternSeries) {
+        patternSeries = {
+          dimension,
+          pattern: signal.pattern,
+          label: formatPatternLabel(signal.pattern),
+          totalEntries: 0,
+          points: starts.map(periodStart => ({
+            periodStart,
+            entriesAnalyzed: 0,
+            entriesWithPattern: 0,
+            rate: 0,
+            evidence: [],
+          })),
+        };
+        series.set(signal.pattern, patternSeries);
+      }
+      patternSeries.totalEntries++;
+      const point = patternSeries.points[index];
+      point.entriesWithPattern++;
+      point.evidence.push({ entryId: record.entryId, createdAt: record.createdAt, phrases: signal.phrases });
+    }
+  }
+
+  for (const patternSeries of series.values()) {
+    patternSeries.points.forEach((point, i) => {
+      point.entriesAnalyzed = analyzedPerPeriod[i];
+      point.rate = point.entriesAnalyzed > 0 ? point.entriesWithPattern / point.entriesAnalyzed : 0;
+      point.evidence.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    });
+  }
+
+  return [...series.values()].sort((a, b) => b.totalEntries - a.totalEntries);
+}
+
+/**
+ * Series for a single pattern (null if it never showed up in the range)
+ */
+export async function getPatternTimeline(
+  dimension: TimelineDimension,
+  pattern: string,
+  query: TimelineQuery = {}
+): Promise<PatternSeries | null> {
+  const series = await getDimensionTimeline(dimension, query);
+  return series.find(s => s.pattern === pattern) ?? null;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderTimelineCsv(series: PatternSeries[]): string {
+  const rows = [
+    ['period_start', 'dimension', 'pattern', 'entries_analyzed', 'entries_with_pattern', 'rate', 'entry_ids', 'phrases'],
+  ];
+  for (const patternSeries of series) {
+    for (const point of patternSeries.points) {
+      rows.push([
+        point.periodStart,
+        patternSeries.dimension,
+        patternSeries.pattern,
+        String(point.entriesAnalyzed),
+        String(point.entriesWithPattern),
+        point.rate.toFixed(3),
+        point.evidence.map(e => e.entryId).join(' '),
+        point.evidence.flatMap(e => e.phrases).join(' | '),
+      ]);
+    }
+  }
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+/**
+ * Export the series of one dimension (or all dimensions) as CSV or JSON
+ * and open the share sheet
+ */
+export async function exportPsychTimeline(
+  format: TimelineExportFormat,
+  dimension: TimelineDimension | 'all',
+  query: TimelineQuery = {}
+): Promise<{ success: boolean; filePath?: string; message: string }> {
+  try {
+    const dimensions = dimension === 'all'
+      ? (Object.keys(TIMELINE_DIMENSIONS) as TimelineDimension[])
+      : [dimension];
+    const series: PatternSeries[] = [];
+    for (const d of dimensions) {
+      series.push(...(await getDimensionTimeline(d, query)));
+    }
+
+    const content = format === 'csv'
+      ? renderTimelineCsv(series)
+      : JSON.stringify({
+          exportedAt: new Date().toISOString(),
+          bucket: query.bucket ?? 'week',
+          months: query.months ?? 3,
+          series,
+        }, null, 2);
+    const mimeType = format === 'csv' ? 'text/csv' : 'application/json';
+    const fileName = `moodleaf_patterns_${dimension}_${formatDateString(new Date())}.${format}`;
+
+    if (Platform.OS === 'web') {
+      const blob = new Blob([content], { type: mimeType });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      return { success: true, message: 'Downloaded timeline' };
+    }
+
+    const filePath = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(filePath, content);
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(filePath, { mimeType, dialogTitle: 'Share Pattern Timeline' });
+    }
+
+    info('services', 'Psychological timeline exported', { format, dimension, series: series.length }, 'psychTimelineService');
+    return { success: true, filePath, message: 'Timeline exported' };
+  } catch (error) {
+    await logError('services', 'Psychological timeline export failed', { error: String(error) }, 'psychTimelineService');
+    return {
+      success: false,
+      message: `Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
@@ -229,6 +229,20 @@ export async function getAllQuickLogs(): Promise<QuickLog[]> {
   }
 }
 
+/**
+ * Find an active log by name, as typed in chat ("water" -> "Drank water").
+ * Exact name first, then a unique partial match.
+ */
+export async function findQuickLogByName(name: string): Promise<QuickLog | null> {
+  const needle = name.trim().toLowerCase();
+  if (!needle) return null;
+  const logs = await getQuickLogs();
+  const exact = logs.find(l => l.name.toLowerCase() === needle);
+  if (exact) return exact;
+  const partial = logs.filter(l => l.name.toLowerCase().includes(needle));
+  return partial.length === 1 ? partial[0] : null;
+}
+
 /**
  * Create a new quick log
  */
@@ -377,9 +391,35 @@ export async function logEntry(
   // Update streak
   await updateStreak(logId);
 
+  notifyLogEntryListeners(entry);
+
   return entry;
 }
 
+// Called after every logEntry (scheduled command macros, etc.)
+type LogEntryListener = (entry: LogEntry) => void;
+const logEntryListeners = new Set<LogEntryListener>();
+
+/**
+ * Subscribe to new log entries. Returns an unsubscribe function.
+ */
+export function subscribeToLogEntries(listener: LogEntryListener): () => void {
+  logEntryListeners.add(listener);
+  return () => {
+    logEntryListeners.delete(listener);
+  };
+}
+
+function notifyLogEntryListeners(entry: LogEntry): void {
+  logEntryListeners.forEach((listener) => {
+    try {
+      listener(entry);
+    } catch (error) {
+      console.error('Log entry listener failed:', error);
+    }
+  });
+}
+
 /**
  * Remove the last entry for a log (undo)
  */
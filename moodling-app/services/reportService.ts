@@ -0,0 +1,731 @@
+/**
+ * Report Service
+ *
+ * Assembles a weekly or monthly review from the data other services
+ * already keep: journal mood and lifestyle factors (patternService), twigs
+ * (quickLogsService), skills practiced (skillsService), food, cycle,
+ * screen time and discovered insights.
+ *
+ * The review is rendered as a single self-contained HTML document
+ * (inline CSS and SVG charts, no external assets) so it can be shared as a
+ * file or printed to PDF and brought to a therapist.
+ *
+ * Following Mood Leaf Ethics:
+ * - Observations, not diagnoses
+ * - Describes what happened without grading the user
+ * - Generated on-device, only leaves it when the user shares it
+ */
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as Print from 'expo-print';
+import { getDailySummaries } from './patternService';
+import { getQuickLogs, getAllLogEntries } from './quickLogsService';
+import { getSkillUsageHistory, getSkillById } from './skillsService';
+import { getEntriesForRange as getFoodEntriesForRange } from './foodTrackingService';
+import { getCycleSettings, getCycleData } from './cycleTrackingService';
+import { getDailyScreenTime } from './screenTimeService';
+import { getInsights } from './insightService';
+import { formatDateString, parseDateString } from '@/types/DailySummary';
+import { info, startTimer, endTimer } from './loggingService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ReportPeriod = 'week' | 'month';
+
+export type ReportFormat = 'html' | 'pdf';
+
+export interface ReportDay {
+  date: string; // YYYY-MM-DD
+  entryCount: number;
+  mood: number | null; // average sentiment, -1 to 1
+  sleepHours: number | null;
+  twigCount: number;
+  skillCount: number;
+  screenMinutes: number | null;
+  calories: number | null;
+}
+
+export interface ReportTwigSummary {
+  logId: string;
+  name: string;
+  emoji: string;
+  total: number;
+  daysLogged: number;
+}
+
+export interface ReportSkillSummary {
+  skillId: string;
+  name: string;
+  emoji: string;
+  times: number;
+  minutes: number;
+}
+
+export interface ReportCycleSummary {
+  periodDays: number;
+  symptomCount: number;
+  topSymptoms: { type: string; count: number }[];
+}
+
+export interface ReportInsight {
+  title: string;
+  description: string;
+  category: string;
+}
+
+export interface Report {
+  period: ReportPeriod;
+  startDate: string;
+  endDate: string;
+  generatedAt: string;
+  days: ReportDay[];
+  mood: {
+    average: number | null;
+    previousAverage: number | null;
+    brightestDay: string | null;
+    daysWithEntries: number;
+    totalEntries: number;
+  };
+  sleep: {
+    averageHours: number | null;
+    nightsLogged: number;
+  };
+  twigs: ReportTwigSummary[];
+  skills: ReportSkillSummary[];
+  food: { averageCalories: number; daysLogged: number } | null;
+  cycle: ReportCycleSummary | null;
+  screenTime: { dailyAverageMinutes: number; daysTracked: number } | null;
+  insights: ReportInsight[];
+  narrative: string[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PERIOD_DAYS: Record<ReportPeriod, number> = { week: 7, month: 30 };
+
+const MAX_INSIGHTS = 3;
+
+// Mood shift (on the -1..1 scale) before we call a period brighter or heavier
+const MOOD_SHIFT_THRESHOLD = 0.1;
+
+// Minimum days on each side before comparing mood after good and short sleep
+const MIN_SLEEP_COMPARISON_DAYS = 2;
+
+const RESTED_SLEEP_HOURS = 7;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number, places: number = 1): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function formatDayLabel(date: string, style: 'short' | 'long'): string {
+  const options: Intl.DateTimeFormatOptions = style === 'short'
+    ? { month: 'short', day: 'numeric' }
+    : { weekday: 'long', month: 'short', day: 'numeric' };
+  return parseDateString(date).toLocaleDateString('en-US', options);
+}
+
+function formatSymptomType(type: string): string {
+  return type.replace(/([A-Z])/g, ' $1').toLowerCase();
+}
+
+function localDateOf(timestamp: string): string {
+  return formatDateString(new Date(timestamp));
+}
+
+// ============================================
+// DATA ASSEMBLY
+// ============================================
+
+async function collectTwigs(startDate: string, endDate: string): Promise<{
+  summaries: ReportTwigSummary[];
+  countsByDate: Record<string, number>;
+}> {
+  const [logs, entries] = await Promise.all([getQuickLogs(), getAllLogEntries()]);
+  const countsByDate: Record<string, number> = {};
+  const byLog = new Map<string, { total: number; dates: Set<string> }>();
+
+  for (const entry of entries) {
+    const date = localDateOf(entry.timestamp);
+    if (date < startDate || date > endDate) continue;
+    countsByDate[date] = (countsByDate[date] || 0) + 1;
+    const stats = byLog.get(entry.logId) || { total: 0, dates: new Set<string>() };
+    stats.total++;
+    stats.dates.add(date);
+    byLog.set(entry.logId, stats);
+  }
+
+  const summaries = logs
+    .filter(log => byLog.has(log.id))
+    .map(log => ({
+      logId: log.id,
+      name: log.name,
+      emoji: log.emoji,
+      total: byLog.get(log.id)!.total,
+      daysLogged: byLog.get(log.id)!.dates.size,
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  return { summaries, countsByDate };
+}
+
+async function collectSkills(startDate: string, endDate: string): Promise<{
+  summaries: ReportSkillSummary[];
+  countsByDate: Record<string, number>;
+}> {
+  const history = await getSkillUsageHistory(undefined, 200);
+  const countsByDate: Record<string, number> = {};
+  const bySkill = new Map<string, ReportSkillSummary>();
+
+  for (const log of history) {
+    const date = localDateOf(log.timestamp);
+    if (date < startDate || date > endDate) continue;
+    countsByDate[date] = (countsByDate[date] || 0) + 1;
+
+    const skill = getSkillById(log.skillId);
+    const summary = bySkill.get(log.skillId) || {
+      skillId: log.skillId,
+      name: skill?.name || log.skillId,
+      emoji: skill?.emoji || '🌱',
+      times: 0,
+      minutes: 0,
+    };
+    summary.times++;
+    summary.minutes += log.duration / 60;
+    bySkill.set(log.skillId, summary);
+  }
+
+  const summaries = Array.from(bySkill.values())
+    .map(s => ({ ...s, minutes: Math.round(s.minutes) }))
+    .sort((a, b) => b.times - a.times);
+
+  return { summaries, countsByDate };
+}
+
+async function collectCalories(startDate: string, endDate: string): Promise<Record<string, number>> {
+  const entries = await getFoodEntriesForRange(startDate, endDate);
+  const byDate: Record<string, number> = {};
+  for (const entry of entries) {
+    byDate[entry.date] = (byDate[entry.date] || 0) + entry.totalCalories;
+  }
+  return byDate;
+}
+
+async function collectCycle(startDate: string, endDate: string, dates: string[]): Promise<ReportCycleSummary | null> {
+  const settings = await getCycleSettings();
+  if (!settings.enabled) return null;
+
+  const data = await getCycleData();
+  const today = formatDateString(new Date());
+
+  const periodDays = dates.filter(date =>
+    data.periods.some(period => {
+      const start = localDateOf(period.startDate);
+      const end = period.endDate ? localDateOf(period.endDate) : today;
+      return date >= start && date <= end;
+    })
+  ).length;
+
+  const counts = new Map<string, number>();
+  let symptomCount = 0;
+  for (const symptom of data.symptoms) {
+    const date = localDateOf(symptom.date);
+    if (date < startDate || date > endDate) continue;
+    symptomCount++;
+    counts.set(symptom.type, (counts.get(symptom.type) || 0) + 1);
+  }
+
+  if (periodDays === 0 && symptomCount === 0) return null;
+
+  const topSymptoms = Array.from(counts.entries())
+    .map(([type, count]) => ({ type: formatSymptomType(type), count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 3);
+
+  return { periodDays, symptomCount, topSymptoms };
+}
+
+async function collectScreenMinutes(dates: string[]): Promise<Record<string, number>> {
+  const byDate: Record<string, number> = {};
+  for (const date of dates) {
+    const day = await getDailyScreenTime(date);
+    if (day && day.totalSeconds > 0) byDate[date] = Math.round(day.totalSeconds / 60);
+  }
+  return byDate;
+}
+
+async function collectInsights(startDate: string, endDate: string): Promise<ReportInsight[]> {
+  const insights = await getInsights();
+  const touched = (iso: string) => {
+    const date = localDateOf(iso);
+    return date >= startDate && date <= endDate;
+  };
+
+  // Prefer what was noticed or reinforced during the period; otherwise the strongest overall
+  const recent = insights.filter(i => touched(i.discoveredAt) || touched(i.lastUpdatedAt));
+  const pool = recent.length > 0 ? recent : insights;
+
+  return [...pool]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_INSIGHTS)
+    .map(i => ({ title: i.title, description: i.description, category: i.category }));
+}
+
+// ============================================
+// NARRATIVE
+// ============================================
+
+function buildNarrative(report: Omit<Report, 'narrative'>): string[] {
+  const lines: string[] = [];
+  const span = report.period === 'week' ? 'week' : 'month';
+  const { mood, sleep } = report;
+
+  if (mood.totalEntries === 0) {
+    lines.push(`No journal entries this ${span} — that's okay. The rest of this review is built from what was logged.`);
+  } else {
+    lines.push(
+      `You wrote ${mood.totalEntries} ${mood.totalEntries === 1 ? 'entry' : 'entries'} ` +
+      `on ${mood.daysWithEntries} of ${report.days.length} days.`
+    );
+  }
+
+  if (mood.average !== null && mood.previousAverage !== null) {
+    const shift = mood.average - mood.previousAverage;
+    if (shift >= MOOD_SHIFT_THRESHOLD) {
+      lines.push(`Overall, entries read a little brighter than the ${span} before.`);
+    } else if (shift <= -MOOD_SHIFT_THRESHOLD) {
+      lines.push(`Entries read a bit heavier than the ${span} before — worth being gentle with yourself.`);
+    } else {
+      lines.push(`Overall mood was about the same as the ${span} before.`);
+    }
+  }
+  if (mood.brightestDay) {
+    lines.push(`Your brightest day was ${formatDayLabel(mood.brightestDay, 'long')}.`);
+  }
+
+  if (sleep.averageHours !== null) {
+    lines.push(`You logged sleep on ${sleep.nightsLogged} nights, averaging ${round(sleep.averageHours)} hours.`);
+
+    const rested = report.days.filter(d => d.mood !== null && d.sleepHours !== null && d.sleepHours >= RESTED_SLEEP_HOURS);
+    const short = report.days.filter(d => d.mood !== null && d.sleepHours !== null && d.sleepHours < RESTED_SLEEP_HOURS);
+    if (rested.length >= MIN_SLEEP_COMPARISON_DAYS && short.length >= MIN_SLEEP_COMPARISON_DAYS) {
+      const restedMood = average(rested.map(d => d.mood!))!;
+      const shortMood = average(short.map(d => d.mood!))!;
+      if (restedMood - shortMood >= MOOD_SHIFT_THRESHOLD) {
+        lines.push(`Days after ${RESTED_SLEEP_HOURS}+ hours of sleep tended to feel brighter.`);
+      }
+    }
+  }
+
+  if (report.twigs.length > 0) {
+    const top = report.twigs[0];
+    lines.push(`Most-logged twig: ${top.emoji} ${top.name} (${top.total} ${top.total === 1 ? 'time' : 'times'} across ${top.daysLogged} ${top.daysLogged === 1 ? 'day' : 'days'}).`);
+  }
+
+  if (report.skills.length > 0) {
+    const times = report.skills.reduce((sum, s) => sum + s.times, 0);
+    const top = report.skills[0];
+    lines.push(
+      `You practiced ${report.skills.length === 1 ? 'a skill' : `${report.skills.length} skills`} ` +
+      `${times} ${times === 1 ? 'time' : 'times'}, most often ${top.emoji} ${top.name}.`
+    );
+  }
+
+  if (report.cycle && report.cycle.topSymptoms.length > 0) {
+    lines.push(`Most logged cycle symptoms: ${report.cycle.topSymptoms.map(s => s.type).join(', ')}.`);
+  }
+
+  if (report.screenTime) {
+    lines.push(`Time in Mood Leaf averaged ${report.screenTime.dailyAverageMinutes} minutes on days you opened it.`);
+  }
+
+  return lines;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Build a review of the week or month ending on endDate (default today)
+ */
+export async function generateReport(period: ReportPeriod, endDate: Date = new Date()): Promise<Report> {
+  const timerId = startTimer('generateReport', 'services');
+  const dayCount = PERIOD_DAYS[period];
+  const end = new Date(endDate);
+  end.setHours(0, 0, 0, 0);
+  const start = addDays(end, -(dayCount - 1));
+  const startDate = formatDateString(start);
+  const endDateString = formatDateString(end);
+
+  const [summaries, previousSummaries, twigs, skills, calories, insights] = await Promise.all([
+    getDailySummaries(startDate, endDateString),
+    getDailySummaries(formatDateString(addDays(start, -dayCount)), formatDateString(addDays(start, -1))),
+    collectTwigs(startDate, endDateString),
+    collectSkills(startDate, endDateString),
+    collectCalories(startDate, endDateString),
+    collectInsights(startDate, endDateString),
+  ]);
+  const dates = summaries.map(s => s.date);
+  const [cycle, screenMinutes] = await Promise.all([
+    collectCycle(startDate, endDateString, dates),
+    collectScreenMinutes(dates),
+  ]);
+
+  const days: ReportDay[] = summaries.map(summary => ({
+    date: summary.date,
+    entryCount: summary.entryCount,
+    mood: summary.averageSentiment,
+    sleepHours: summary.factors.sleepHours ?? null,
+    twigCount: twigs.countsByDate[summary.date] || 0,
+    skillCount: skills.countsByDate[summary.date] || 0,
+    screenMinutes: screenMinutes[summary.date] ?? null,
+    calories: calories[summary.date] ?? null,
+  }));
+
+  const moodDays = days.filter(d => d.mood !== null);
+  const brightest = moodDays.reduce<ReportDay | null>(
+    (best, d) => (best === null || d.mood! > best.mood! ? d : best),
+    null
+  );
+  const sleepValues = days.map(d => d.sleepHours).filter((h): h is number => h !== null);
+  const calorieValues = Object.values(calories).filter(c => c > 0);
+  const screenValues = Object.values(screenMinutes);
+
+  const partial: Omit<Report, 'narrative'> = {
+    period,
+    startDate,
+    endDate: endDateString,
+    generatedAt: new Date().toISOString(),
+    days,
+    mood: {
+      average: average(moodDays.map(d => d.mood!)),
+      previousAverage: average(
+        previousSummaries.map(s => s.averageSentiment).filter((m): m is number => m !== null)
+      ),
+      // Only worth naming when there is more than one day to compare
+      brightestDay: moodDays.length > 1 && brightest ? brightest.date : null,
+      daysWithEntries: days.filter(d => d.entryCount > 0).length,
+      totalEntries: days.reduce((sum, d) => sum + d.entryCount, 0),
+    },
+    sleep: {
+      averageHours: average(sleepValues),
+      nightsLogged: sleepValues.length,
+    },
+    twigs: twigs.summaries,
+    skills: skills.summaries,
+    food: calorieValues.length > 0
+      ? { averageCalories: Math.round(average(calorieValues)!), daysLogged: calorieValues.length }
+      : null,
+    cycle,
+    screenTime: screenValues.length > 0
+      ? { dailyAverageMinutes: Math.round(average(screenValues)!), daysTracked: screenValues.length }
+      : null,
+    insights,
+  };
+
+  const report: Report = { ...partial, narrative: buildNarrative(partial) };
+  await endTimer(timerId, { period, days: days.length });
+  info('services', 'Report generated', { period, startDate, endDate: endDateString }, 'reportService');
+  return report;
+}
+
+// ============================================
+// HTML RENDERING
+// ============================================
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = { top: 12, right: 8, bottom: 24, left: 32 };
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Axis labels: every day for a week, roughly weekly for a month
+ */
+function chartLabels(days: ReportDay[]): string[] {
+  const step = days.length > 7 ? 5 : 1;
+  return days.map((d, i) => {
+    if (i % step !== 0 && i !== days.length - 1) return '';
+    return days.length > 7
+      ? formatDayLabel(d.date, 'short')
+      : parseDateString(d.date).toLocaleDateString('en-US', { weekday: 'short' });
+  });
+}
+
+function chartFrame(inner: string, labels: string[], yLabels: { y: number; text: string }[]): string {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const slot = plotWidth / Math.max(labels.length, 1);
+  const xLabels = labels
+    .map((label, i) => label
+      ? `<text x="${round(CHART_PADDING.left + slot * (i + 0.5), 2)}" y="${CHART_HEIGHT - 6}" text-anchor="middle" class="axis">${escapeHtml(label)}</text>`
+      : '')
+    .join('');
+  const yAxis = yLabels
+    .map(l => `<text x="${CHART_PADDING.left - 6}" y="${l.y + 4}" text-anchor="end" class="axis">${escapeHtml(l.text)}</text>` +
+      `<line x1="${CHART_PADDING.left}" x2="${CHART_WIDTH - CHART_PADDING.right}" y1="${l.y}" y2="${l.y}" class="grid"/>`)
+    .join('');
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="100%" role="img">${yAxis}${inner}${xLabels}</svg>`;
+}
+
+function barChart(values: (number | null)[], labels: string[], color: string, minMax: number): string {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const max = Math.max(minMax, ...values.map(v => v ?? 0));
+  const slot = plotWidth / Math.max(values.length, 1);
+  const barWidth = Math.max(slot * 0.6, 2);
+  const baseline = CHART_PADDING.top + plotHeight;
+
+  const bars = values
+    .map((value, i) => {
+      if (!value) return '';
+      const height = (value / max) * plotHeight;
+      const x = CHART_PADDING.left + slot * i + (slot - barWidth) / 2;
+      return `<rect x="${round(x, 2)}" y="${round(baseline - height, 2)}" width="${round(barWidth, 2)}" height="${round(height, 2)}" rx="2" fill="${color}"><title>${round(value)}</title></rect>`;
+    })
+    .join('');
+
+  return chartFrame(bars, labels, [
+    { y: CHART_PADDING.top, text: String(round(max)) },
+    { y: baseline, text: '0' },
+  ]);
+}
+
+function moodChart(days: ReportDay[], labels: string[]): string {
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const slot = plotWidth / Math.max(days.length, 1);
+  const yFor = (mood: number) => CHART_PADDING.top + ((1 - mood) / 2) * plotHeight;
+
+  // Days without entries break the line rather than pretending to be neutral
+  const segments: string[][] = [];
+  let current: string[] = [];
+  const points: string[] = [];
+  days.forEach((day, i) => {
+    if (day.mood === null) {
+      if (current.length > 0) segments.push(current);
+      current = [];
+      return;
+    }
+    const x = round(CHART_PADDING.left + slot * (i + 0.5), 2);
+    const y = round(yFor(day.mood), 2);
+    current.push(`${x},${y}`);
+    points.push(`<circle cx="${x}" cy="${y}" r="3.5" fill="#6B8E6B"><title>${round(day.mood, 2)}</title></circle>`);
+  });
+  if (current.length > 0) segments.push(current);
+
+  const lines = segments
+    .filter(s => s.length > 1)
+    .map(s => `<polyline points="${s.join(' ')}" fill="none" stroke="#6B8E6B" stroke-width="2"/>`)
+    .join('');
+
+  return chartFrame(lines + points.join(''), labels, [
+    { y: yFor(1), text: 'bright' },
+    { y: yFor(0), text: 'even' },
+    { y: yFor(-1), text: 'heavy' },
+  ]);
+}
+
+function section(title: string, body: string): string {
+  return `<section><h2>${escapeHtml(title)}</h2>${body}</section>`;
+}
+
+function table(headers: string[], rows: string[][]): string {
+  const head = headers.map(h => `<th>${escapeHtml(h)}</th>`).join('');
+  const body = rows.map(r => `<tr>${r.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+const REPORT_CSS = `
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #2F3A2F; margin: 0 auto; max-width: 720px; padding: 24px; line-height: 1.5; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 17px; margin: 0 0 8px; color: #4A6B4A; }
+  .subtitle { color: #7A857A; margin: 0 0 24px; }
+  section { margin-bottom: 28px; page-break-inside: avoid; }
+  .narrative p { margin: 0 0 6px; }
+  .axis { font-size: 10px; fill: #7A857A; }
+  .grid { stroke: #E4E9E4; stroke-width: 1; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #E4E9E4; }
+  th { color: #7A857A; font-weight: 600; }
+  .insight { background: #F3F6F1; border-radius: 8px; padding: 10px 12px; margin-bottom: 8px; }
+  .insight strong { display: block; }
+  .empty { color: #7A857A; font-style: italic; }
+  footer { color: #7A857A; font-size: 12px; border-top: 1px solid #E4E9E4; padding-top: 12px; }
+`;
+
+/**
+ * Render a report as a standalone HTML document
+ */
+export function renderReportHtml(report: Report): string {
+  const labels = chartLabels(report.days);
+  const title = report.period === 'week' ? 'Weekly Review' : 'Monthly Review';
+  const range = `${formatDayLabel(report.startDate, 'short')} – ${formatDayLabel(report.endDate, 'short')}, ` +
+    `${parseDateString(report.endDate).getFullYear()}`;
+  const sections: string[] = [];
+
+  sections.push(section('Summary', `<div class="narrative">${report.narrative.map(l => `<p>${escapeHtml(l)}</p>`).join('')}</div>`));
+
+  sections.push(section('Mood', report.mood.average !== null
+    ? moodChart(report.days, labels)
+    : '<p class="empty">No journal entries to chart.</p>'));
+
+  sections.push(section('Sleep (hours)', report.sleep.nightsLogged > 0
+    ? barChart(report.days.map(d => d.sleepHours), labels, '#7B9BC4', 8)
+    : '<p class="empty">No sleep logged.</p>'));
+
+  let twigBody = '<p class="empty">No twigs logged.</p>';
+  if (report.twigs.length > 0) {
+    twigBody = barChart(report.days.map(d => d.twigCount), labels, '#C4A56B', 3) +
+      table(['Twig', 'Times', 'Days'], report.twigs.map(t => [`${t.emoji} ${t.name}`, String(t.total), String(t.daysLogged)]));
+  }
+  sections.push(section('Twigs', twigBody));
+
+  let skillBody = '<p class="empty">No skills practiced.</p>';
+  if (report.skills.length > 0) {
+    skillBody = barChart(report.days.map(d => d.skillCount), labels, '#9B7BC4', 2) +
+      table(['Skill', 'Times', 'Minutes'], report.skills.map(s => [`${s.emoji} ${s.name}`, String(s.times), String(s.minutes)]));
+  }
+  sections.push(section('Skills Practiced', skillBody));
+
+  const otherRows: string[][] = [];
+  if (report.food) {
+    otherRows.push(['Food', `${report.food.averageCalories} kcal/day average (${report.food.daysLogged} days logged)`]);
+  }
+  if (report.cycle) {
+    const symptoms = report.cycle.topSymptoms.map(s => `${s.type} (${s.count})`).join(', ');
+    otherRows.push(['Cycle', `${report.cycle.periodDays} period days${symptoms ? `; symptoms: ${symptoms}` : ''}`]);
+  }
+  if (report.screenTime) {
+    otherRows.push(['Time in app', `${report.screenTime.dailyAverageMinutes} min/day (${report.screenTime.daysTracked} days)`]);
+  }
+  if (otherRows.length > 0) {
+    sections.push(section('Also Tracked', table(['', ''], otherRows)));
+  }
+
+  if (report.insights.length > 0) {
+    sections.push(section('Insights', report.insights
+      .map(i => `<div class="insight"><strong>${escapeHtml(i.title)}</strong>${escapeHtml(i.description)}</div>`)
+      .join('')));
+  }
+
+  const generated = new Date(report.generatedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Mood Leaf ${title} · ${escapeHtml(range)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>🍃 ${title}</h1>
+<p class="subtitle">${escapeHtml(range)}</p>
+${sections.join('\n')}
+<footer>Generated by Mood Leaf on ${escapeHtml(generated)}. These are observations from self-logged data, not a diagnosis.</footer>
+</body>
+</html>`;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Save a report as HTML or PDF and open the share sheet.
+ * PDF is rendered with expo-print on native and the browser's print
+ * dialog on web; if a popup blocker stops the dialog, HTML is downloaded.
+ */
+export async function exportReport(report: Report, format: ReportFormat): Promise<{
+  success: boolean;
+  filePath?: string;
+  format?: ReportFormat;
+  message: string;
+}> {
+  try {
+    const html = renderReportHtml(report);
+    const baseName = `moodleaf_${report.period}_review_${report.endDate}`;
+
+    if (Platform.OS === 'web') {
+      if (format === 'pdf' && typeof window !== 'undefined') {
+        const printWindow = window.open('', '_blank');
+        if (printWindow) {
+          printWindow.document.write(html);
+          printWindow.document.close();
+          printWindow.focus();
+          printWindow.print();
+          return { success: true, format: 'pdf', message: 'Opened print dialog' };
+        }
+      }
+      const blob = new Blob([html], { type: 'text/html' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${baseName}.html`;
+      link.click();
+      URL.revokeObjectURL(url);
+      return { success: true, format: 'html', message: 'Downloaded report' };
+    }
+
+    let filePath: string;
+    if (format === 'pdf') {
+      const { uri } = await Print.printToFileAsync({ html });
+      filePath = `${FileSystem.cacheDirectory}${baseName}.pdf`;
+      // A second export on the same day reuses the name; moveAsync won't overwrite
+      await FileSystem.deleteAsync(filePath, { idempotent: true });
+      await FileSystem.moveAsync({ from: uri, to: filePath });
+    } else {
+      filePath = `${FileSystem.cacheDirectory}${baseName}.html`;
+      await FileSystem.writeAsStringAsync(filePath, html);
+    }
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(filePath, {
+        mimeType: format === 'pdf' ? 'application/pdf' : 'text/html',
+        dialogTitle: 'Share Mood Leaf Review',
+      });
+    }
+
+    info('services', 'Report exported', { format, period: report.period }, 'reportService');
+    return {
+      success: true,
+      filePath,
+      format,
+      message: 'Report exported',
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
@@ -0,0 +1,532 @@
+/**
+ * Safeguard Locales
+ *
+ * Keyword packs, response wording and regional crisis resources used by
+ * safeguardService. Data only - detection lives in safeguardService.
+ *
+ * Keywords are written naturally (accents, apostrophes); the safeguard
+ * engine normalizes them the same way it normalizes messages.
+ *
+ * IMPORTANT: Phone numbers here are shown to people in crisis. Check
+ * them against the service's own site before changing or adding any.
+ */
+
+import type { SafeguardCategory, SafeguardResource } from './safeguardService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SafeguardLanguage = 'en' | 'es' | 'fr' | 'de';
+
+export interface SafeguardKeywordPack {
+  language: SafeguardLanguage;
+  keywords: Record<SafeguardCategory, string[]>;
+  /** Phrases signalling intent/planning (raise severity) */
+  intentMarkers: string[];
+  /**
+   * Softer self-harm risk signals. None triggers a response alone; they
+   * add up within a message and across a conversation (weight 0-1).
+   */
+  distressSignals: { phrase: string; weight: number }[];
+  /** Words that negate a following keyword ("I would never...") */
+  negators: string[];
+  /** Words allowed between a negator and the keyword ("not going to...") */
+  negationFillers: string[];
+  /**
+   * Words that, when negated themselves, put a later negation in doubt:
+   * "I'm not sure I won't..." is not a denial.
+   */
+  negationDoubts: string[];
+  /**
+   * Speech verbs and sources next to a quote that attribute it to someone
+   * or something else ("the song goes", "she said", "in the movie").
+   * Pronouns alone don't count ("she doesn't know that ..."). Other
+   * quotes are treated as the person's own words.
+   */
+  quoteSources: string[];
+  /** First-person subjects; next to a quote they make it the person's own ("I keep thinking") */
+  firstPerson: string[];
+}
+
+export interface RegionalResources {
+  /** ISO 3166-1 alpha-2, or 'INTL' for the fallback */
+  region: string;
+  name: string;
+  /** null when unknown (international fallback) */
+  emergencyNumber: string | null;
+  /** Suicide/crisis lines, most important first */
+  crisis: SafeguardResource[];
+  sexualViolence?: SafeguardResource[];
+  animalWelfare?: SafeguardResource[];
+  /** General mental-health helplines, listed for non-self-harm categories */
+  supportLines?: SafeguardResource[];
+}
+
+export interface ResponseWording {
+  intro: Record<SafeguardCategory, string>;
+  closing: Record<SafeguardCategory, string>;
+  emergency: (emergencyNumber: string | null) => string;
+  directory: string;
+}
+
+export const SUPPORTED_LANGUAGES: SafeguardLanguage[] = ['en', 'es', 'fr', 'de'];
+
+// ============================================
+// KEYWORD PACKS
+// ============================================
+
+export const KEYWORD_PACKS: Record<SafeguardLanguage, SafeguardKeywordPack> = {
+  en: {
+    language: 'en',
+    keywords: {
+      self_harm: [
+        'suicide', 'suicidal', 'kill myself', 'end my life', 'want to die',
+        'hurt myself', 'self-harm', 'self harm', 'cutting myself',
+        "don't want to live", 'better off dead', 'no reason to live',
+        'end it all', 'no point in living', 'rather be dead',
+      ],
+      violence: [
+        'kill someone', 'kill him', 'kill her', 'kill them',
+        'murder', 'homicide', 'going to shoot', 'going to stab',
+        'planning to hurt', 'planning to kill', 'going to attack',
+        'want to hurt someone', 'beat them up', 'hurt them bad',
+      ],
+      animal_abuse: [
+        'hurt animals', 'kill animals', 'harm animals', 'torture animals',
+        'kill my pet', 'hurt my pet', 'abuse animals', 'hurt the cat',
+        'hurt the dog', 'kill the cat', 'kill the dog', 'animal cruelty',
+      ],
+      sexual_violence: [
+        'want to rape', 'going to rape', 'rape her', 'rape him',
+        'force myself on', 'sexual assault', 'molest',
+      ],
+      illegal_activity: [
+        'make a bomb', 'build explosives', 'poison someone',
+        'how to kill without', 'get away with murder',
+      ],
+    },
+    intentMarkers: ['planning to', 'going to', 'will kill', 'will shoot'],
+    distressSignals: [
+      { phrase: 'hopeless', weight: 0.25 },
+      { phrase: 'worthless', weight: 0.2 },
+      { phrase: 'pointless', weight: 0.15 },
+      { phrase: 'empty inside', weight: 0.2 },
+      { phrase: 'trapped', weight: 0.2 },
+      { phrase: 'no way out', weight: 0.35 },
+      { phrase: "can't go on", weight: 0.4 },
+      { phrase: 'tired of everything', weight: 0.2 },
+      { phrase: 'tired of living', weight: 0.5 },
+      { phrase: 'burden', weight: 0.3 },
+      { phrase: 'better off without me', weight: 0.5 },
+      { phrase: 'nobody would miss me', weight: 0.5 },
+      { phrase: 'nobody would care', weight: 0.35 },
+      { phrase: 'want to disappear', weight: 0.4 },
+      { phrase: 'nothing matters', weight: 0.2 },
+      { phrase: 'want it all to stop', weight: 0.45 },
+      { phrase: 'want it to end', weight: 0.45 },
+      { phrase: 'give away my things', weight: 0.45 },
+      { phrase: 'saying goodbye', weight: 0.3 },
+      { phrase: 'wrote a note', weight: 0.3 },
+      { phrase: 'saved up pills', weight: 0.5 },
+      { phrase: "can't stop thinking", weight: 0.25 },
+      { phrase: 'keep thinking', weight: 0.2 },
+    ],
+    negators: ['not', 'never', 'no', "don't", "doesn't", "didn't", "won't", "wouldn't", "can't", "couldn't", "shouldn't"],
+    negationFillers: ['going', 'to', 'gonna', 'want', 'wanna', 'ever', 'really', 'actually', 'would', 'will', 'do'],
+    negationDoubts: ['sure', 'certain', 'know', 'promise', 'think'],
+    quoteSources: [
+      'song', 'lyrics', 'movie', 'film', 'show', 'book', 'character', 'poem', 'meme',
+      'says', 'said', 'sings', 'sang', 'goes',
+    ],
+    firstPerson: ['i', "i'm", "i've"],
+  },
+
+  es: {
+    language: 'es',
+    keywords: {
+      self_harm: [
+        'suicidio', 'suicidarme', 'suicidarse', 'suicida', 'me quiero suicidar',
+        'quiero morir', 'quiero morirme', 'matarme', 'me voy a matar',
+        'quitarme la vida', 'acabar con mi vida', 'no quiero vivir',
+        'no quiero seguir viviendo', 'hacerme daño', 'autolesión', 'autolesiones',
+        'cortarme las venas', 'cortarme las muñecas', 'cortarme los brazos',
+        'cortarme la piel', 'mejor muerto', 'mejor muerta', 'no vale la pena vivir',
+      ],
+      violence: [
+        'matar a alguien', 'voy a matarlo', 'voy a matarla', 'lo voy a matar',
+        'la voy a matar', 'los voy a matar', 'asesinar', 'asesinato', 'homicidio',
+        'voy a disparar', 'voy a apuñalar', 'quiero lastimar a alguien',
+        'hacerle daño a alguien', 'planeo matar',
+      ],
+      animal_abuse: [
+        'maltratar animales', 'matar animales', 'lastimar animales', 'torturar animales',
+        'matar a mi mascota', 'lastimar a mi mascota', 'maltrato animal',
+        'matar al gato', 'matar al perro',
+      ],
+      sexual_violence: [
+        'quiero violar', 'voy a violar', 'violarla', 'violarlo',
+        'agresión sexual', 'abusar sexualmente',
+      ],
+      illegal_activity: [
+        'hacer una bomba', 'fabricar explosivos', 'envenenar a alguien',
+        'cómo matar sin',
+      ],
+    },
+    intentMarkers: ['voy a', 'planeo', 'pienso matar'],
+    distressSignals: [
+      { phrase: 'sin esperanza', weight: 0.25 },
+      { phrase: 'no hay salida', weight: 0.35 },
+      { phrase: 'no puedo más', weight: 0.4 },
+      { phrase: 'soy una carga', weight: 0.45 },
+      { phrase: 'nadie me extrañaría', weight: 0.5 },
+      { phrase: 'estarían mejor sin mí', weight: 0.5 },
+      { phrase: 'cansado de vivir', weight: 0.5 },
+      { phrase: 'cansada de vivir', weight: 0.5 },
+      { phrase: 'quiero desaparecer', weight: 0.4 },
+    ],
+    negators: ['no', 'nunca', 'jamás'],
+    negationFillers: ['voy', 'a', 'quiero', 'me', 'lo'],
+    negationDoubts: ['seguro', 'segura', 'sé', 'prometo', 'creo'],
+    quoteSources: [
+      'canción', 'letra', 'película', 'serie', 'libro', 'personaje', 'poema',
+      'dice', 'dijo', 'canta', 'cantaba',
+    ],
+    firstPerson: ['yo'],
+  },
+
+  fr: {
+    language: 'fr',
+    keywords: {
+      self_harm: [
+        'suicide', 'suicidaire', 'me suicider', 'me tuer', 'je veux mourir',
+        'envie de mourir', 'mettre fin à mes jours', 'en finir avec la vie',
+        'je ne veux plus vivre', 'plus envie de vivre', 'me faire du mal',
+        'automutilation', 'me scarifier', 'me couper les veines', 'me couper les poignets',
+        'me taillader les veines', 'me couper les bras', 'mieux vaut mourir',
+      ],
+      violence: [
+        "tuer quelqu'un", 'je vais le tuer', 'je vais la tuer', 'je vais les tuer',
+        'meurtre', 'assassiner', 'homicide', 'je vais tirer sur', 'poignarder',
+        "faire du mal à quelqu'un", 'je compte le tuer',
+      ],
+      animal_abuse: [
+        'maltraiter les animaux', 'tuer des animaux', 'torturer des animaux',
+        'faire du mal aux animaux', 'tuer mon chat', 'tuer mon chien',
+        'cruauté envers les animaux', 'maltraitance animale',
+      ],
+      sexual_violence: [
+        'veux violer', 'vais violer', 'la violer', 'le violer', 'agression sexuelle',
+      ],
+      illegal_activity: [
+        'fabriquer une bombe', 'faire une bombe', 'fabriquer des explosifs',
+        "empoisonner quelqu'un",
+      ],
+    },
+    intentMarkers: ['je vais', 'je compte', "j'ai prévu"],
+    distressSignals: [
+      { phrase: 'sans espoir', weight: 0.25 },
+      { phrase: 'aucune issue', weight: 0.35 },
+      { phrase: "je n'en peux plus", weight: 0.35 },
+      { phrase: 'je suis un fardeau', weight: 0.45 },
+      { phrase: 'personne ne me regretterait', weight: 0.5 },
+      { phrase: 'mieux sans moi', weight: 0.5 },
+      { phrase: 'fatigué de vivre', weight: 0.5 },
+      { phrase: 'fatiguée de vivre', weight: 0.5 },
+      { phrase: 'je veux disparaître', weight: 0.4 },
+    ],
+    negators: ['ne', 'pas', 'jamais'],
+    negationFillers: ['vais', 'veux', 'compte'],
+    negationDoubts: ['sûr', 'sûre', 'certain', 'certaine', 'sais', 'promets', 'crois'],
+    quoteSources: [
+      'chanson', 'paroles', 'film', 'série', 'livre', 'personnage', 'poème',
+      'dit', 'disait', 'chante',
+    ],
+    firstPerson: ['je', "j'ai", 'moi'],
+  },
+
+  de: {
+    language: 'de',
+    keywords: {
+      self_harm: [
+        'selbstmord', 'suizid', 'mich umbringen', 'bringe mich um', 'mich töten',
+        'will sterben', 'will nicht mehr leben', 'mir das leben nehmen',
+        'meinem leben ein ende setzen', 'mich selbst verletzen', 'selbstverletzung',
+        'mich ritzen', 'ritze mich', 'lieber tot', 'kein grund zu leben',
+      ],
+      violence: [
+        'jemanden umbringen', 'jemanden töten', 'bringe ihn um', 'bringe sie um',
+        'ermorden', 'mord', 'totschlag', 'erschießen', 'erstechen',
+        'jemandem wehtun', 'zusammenschlagen',
+      ],
+      animal_abuse: [
+        'tiere quälen', 'tiere töten', 'tiere verletzen', 'tierquälerei',
+        'meine katze töten', 'meinen hund töten', 'meinem haustier wehtun',
+      ],
+      sexual_violence: [
+        'vergewaltigen', 'vergewaltigung', 'sexueller übergriff', 'sexuelle nötigung',
+      ],
+      illegal_activity: [
+        'bombe bauen', 'sprengstoff herstellen', 'jemanden vergiften',
+      ],
+    },
+    intentMarkers: ['ich werde', 'werde ich', 'ich plane'],
+    distressSignals: [
+      { phrase: 'hoffnungslos', weight: 0.25 },
+      { phrase: 'kein ausweg', weight: 0.35 },
+      { phrase: 'ich kann nicht mehr', weight: 0.4 },
+      { phrase: 'bin eine last', weight: 0.45 },
+      { phrase: 'niemand würde mich vermissen', weight: 0.5 },
+      { phrase: 'besser ohne mich', weight: 0.5 },
+      { phrase: 'lebensmüde', weight: 0.5 },
+      { phrase: 'will verschwinden', weight: 0.4 },
+    ],
+    negators: ['nicht', 'nie', 'niemals', 'kein', 'keine'],
+    negationFillers: ['werde', 'will', 'würde', 'mich'],
+    negationDoubts: ['sicher', 'weiß', 'versprechen', 'glaube'],
+    quoteSources: [
+      'lied', 'songtext', 'film', 'serie', 'buch', 'figur', 'gedicht',
+      'sagt', 'sagte', 'singt', 'sang',
+    ],
+    firstPerson: ['ich'],
+  },
+};
+
+// ============================================
+// RESPONSE WORDING
+// ============================================
+
+export const RESPONSE_WORDING: Record<SafeguardLanguage, ResponseWording> = {
+  en: {
+    intro: {
+      self_harm: "I hear that you're going through something really difficult. Your safety matters.\n\nIf you're in crisis, please reach out:",
+      violence: "I'm not able to engage with thoughts about harming others.\n\nIf you're having intrusive or distressing thoughts, please know that help is available:",
+      animal_abuse: "I'm not able to engage with content about harming animals.\n\nIf you're having distressing thoughts about harming animals, please reach out for support:",
+      sexual_violence: "I'm not able to engage with content about sexual violence.\n\nIf you're having intrusive thoughts that distress you, please know that help is available:",
+      illegal_activity: "I'm not able to help with that request.\n\nIf you're going through a difficult time and having distressing thoughts, support is available:",
+    },
+    closing: {
+      self_harm: "You don't have to face this alone. A trained counselor can help right now.",
+      violence: 'A trained professional can help you work through difficult thoughts safely.',
+      animal_abuse: 'Professional support can help you work through difficult thoughts.',
+      sexual_violence: 'A trained professional can help you work through difficult thoughts safely.',
+      illegal_activity: '',
+    },
+    emergency: (n) => n
+      ? `If someone is in immediate danger, please call ${n}.`
+      : 'If someone is in immediate danger, please contact your local emergency services.',
+    directory: 'International Association for Suicide Prevention',
+  },
+
+  es: {
+    intro: {
+      self_harm: 'Escucho que estás pasando por algo muy difícil. Tu seguridad importa.\n\nSi estás en crisis, por favor busca ayuda:',
+      violence: 'No puedo participar en pensamientos sobre hacer daño a otras personas.\n\nSi tienes pensamientos intrusivos o angustiantes, hay ayuda disponible:',
+      animal_abuse: 'No puedo participar en contenido sobre hacer daño a animales.\n\nSi tienes pensamientos angustiantes sobre dañar animales, por favor busca apoyo:',
+      sexual_violence: 'No puedo participar en contenido sobre violencia sexual.\n\nSi tienes pensamientos intrusivos que te angustian, hay ayuda disponible:',
+      illegal_activity: 'No puedo ayudar con esa petición.\n\nSi estás pasando por un momento difícil, hay apoyo disponible:',
+    },
+    closing: {
+      self_harm: 'No tienes que enfrentar esto a solas. Una persona capacitada puede ayudarte ahora mismo.',
+      violence: 'Un profesional puede ayudarte a manejar estos pensamientos de forma segura.',
+      animal_abuse: 'El apoyo profesional puede ayudarte con estos pensamientos.',
+      sexual_violence: 'Un profesional puede ayudarte a manejar estos pensamientos de forma segura.',
+      illegal_activity: '',
+    },
+    emergency: (n) => n
+      ? `Si alguien está en peligro inmediato, llama al ${n}.`
+      : 'Si alguien está en peligro inmediato, contacta con los servicios de emergencia locales.',
+    directory: 'Asociación Internacional para la Prevención del Suicidio',
+  },
+
+  fr: {
+    intro: {
+      self_harm: "J'entends que tu traverses quelque chose de vraiment difficile. Ta sécurité compte.\n\nSi tu es en crise, n'hésite pas à appeler :",
+      violence: "Je ne peux pas m'engager sur des pensées visant à faire du mal à autrui.\n\nSi tu as des pensées intrusives ou angoissantes, de l'aide existe :",
+      animal_abuse: "Je ne peux pas m'engager sur du contenu visant à faire du mal aux animaux.\n\nSi tu as des pensées angoissantes à ce sujet, tu peux chercher du soutien :",
+      sexual_violence: "Je ne peux pas m'engager sur du contenu lié aux violences sexuelles.\n\nSi tu as des pensées intrusives qui t'angoissent, de l'aide existe :",
+      illegal_activity: "Je ne peux pas t'aider avec cette demande.\n\nSi tu traverses une période difficile, du soutien est disponible :",
+    },
+    closing: {
+      self_harm: "Tu n'as pas à affronter ça seul·e. Une personne formée peut t'aider dès maintenant.",
+      violence: "Un·e professionnel·le peut t'aider à traverser ces pensées en sécurité.",
+      animal_abuse: "Un soutien professionnel peut t'aider avec ces pensées.",
+      sexual_violence: "Un·e professionnel·le peut t'aider à traverser ces pensées en sécurité.",
+      illegal_activity: '',
+    },
+    emergency: (n) => n
+      ? `Si quelqu'un est en danger immédiat, appelle le ${n}.`
+      : "Si quelqu'un est en danger immédiat, contacte les services d'urgence locaux.",
+    directory: 'Association internationale pour la prévention du suicide',
+  },
+
+  de: {
+    intro: {
+      self_harm: 'Ich höre, dass du gerade etwas sehr Schweres durchmachst. Deine Sicherheit ist wichtig.\n\nWenn du in einer Krise bist, wende dich bitte an:',
+      violence: 'Ich kann mich nicht mit Gedanken beschäftigen, anderen zu schaden.\n\nWenn du belastende oder aufdringliche Gedanken hast, gibt es Hilfe:',
+      animal_abuse: 'Ich kann mich nicht mit Inhalten beschäftigen, Tieren zu schaden.\n\nWenn dich solche Gedanken belasten, hol dir bitte Unterstützung:',
+      sexual_violence: 'Ich kann mich nicht mit Inhalten zu sexueller Gewalt beschäftigen.\n\nWenn dich aufdringliche Gedanken belasten, gibt es Hilfe:',
+      illegal_activity: 'Bei dieser Anfrage kann ich nicht helfen.\n\nWenn du gerade eine schwere Zeit hast, gibt es Unterstützung:',
+    },
+    closing: {
+      self_harm: 'Du musst das nicht allein durchstehen. Geschulte Berater:innen können dir jetzt helfen.',
+      violence: 'Fachleute können dir helfen, sicher mit diesen Gedanken umzugehen.',
+      animal_abuse: 'Professionelle Unterstützung kann dir mit diesen Gedanken helfen.',
+      sexual_violence: 'Fachleute können dir helfen, sicher mit diesen Gedanken umzugehen.',
+      illegal_activity: '',
+    },
+    emergency: (n) => n
+      ? `Wenn jemand in akuter Gefahr ist, ruf bitte ${n} an.`
+      : 'Wenn jemand in akuter Gefahr ist, wende dich bitte an den örtlichen Notruf.',
+    directory: 'Internationale Vereinigung für Suizidprävention',
+  },
+};
+
+// ============================================
+// REGIONAL RESOURCES
+// ============================================
+
+export const IASP_DIRECTORY: SafeguardResource = {
+  name: 'IASP Crisis Centres',
+  contact: 'https://www.iasp.info/resources/Crisis_Centres/',
+  type: 'web',
+};
+
+export const INTERNATIONAL_RESOURCES: RegionalResources = {
+  region: 'INTL',
+  name: 'International',
+  emergencyNumber: null,
+  crisis: [
+    { name: 'Find A Helpline', contact: 'https://findahelpline.com', type: 'web' },
+    IASP_DIRECTORY,
+  ],
+};
+
+export const REGIONAL_RESOURCES: RegionalResources[] = [
+  {
+    region: 'US',
+    name: 'United States',
+    emergencyNumber: '911',
+    crisis: [
+      { name: '988 Suicide & Crisis Lifeline', contact: '988', type: 'phone' },
+      { name: 'Crisis Text Line', contact: 'Text HOME to 741741', type: 'text' },
+    ],
+    sexualViolence: [{ name: 'RAINN Hotline', contact: '1-800-656-4673', type: 'phone' }],
+    animalWelfare: [{ name: 'ASPCA', contact: '1-888-426-4435', type: 'phone' }],
+    supportLines: [{ name: 'SAMHSA Helpline', contact: '1-800-662-4357', type: 'phone' }],
+  },
+  {
+    region: 'CA',
+    name: 'Canada',
+    emergencyNumber: '911',
+    crisis: [{ name: '9-8-8 Suicide Crisis Helpline', contact: '988', type: 'phone' }],
+  },
+  {
+    region: 'GB',
+    name: 'United Kingdom',
+    emergencyNumber: '999',
+    crisis: [
+      { name: 'Samaritans', contact: '116 123', type: 'phone' },
+      { name: 'Shout', contact: 'Text SHOUT to 85258', type: 'text' },
+    ],
+    sexualViolence: [{ name: 'Rape Crisis', contact: '0808 500 2222', type: 'phone' }],
+    animalWelfare: [{ name: 'RSPCA', contact: '0300 1234 999', type: 'phone' }],
+  },
+  {
+    region: 'IE',
+    name: 'Ireland',
+    emergencyNumber: '112',
+    crisis: [
+      { name: 'Samaritans', contact: '116 123', type: 'phone' },
+      { name: '50808', contact: 'Text HELLO to 50808', type: 'text' },
+    ],
+    sexualViolence: [{ name: 'Rape Crisis Helpline', contact: '1800 77 8888', type: 'phone' }],
+  },
+  {
+    region: 'AU',
+    name: 'Australia',
+    emergencyNumber: '000',
+    crisis: [{ name: 'Lifeline', contact: '13 11 14', type: 'phone' }],
+    sexualViolence: [{ name: '1800RESPECT', contact: '1800 737 732', type: 'phone' }],
+  },
+  {
+    region: 'NZ',
+    name: 'New Zealand',
+    emergencyNumber: '111',
+    crisis: [
+      { name: '1737 Need to Talk?', contact: 'Call or text 1737', type: 'phone' },
+      { name: 'Lifeline Aotearoa', contact: '0800 543 354', type: 'phone' },
+    ],
+  },
+  {
+    region: 'ES',
+    name: 'España',
+    emergencyNumber: '112',
+    crisis: [{ name: 'Línea 024', contact: '024', type: 'phone' }],
+    sexualViolence: [{ name: 'Teléfono 016', contact: '016', type: 'phone' }],
+  },
+  {
+    region: 'MX',
+    name: 'México',
+    emergencyNumber: '911',
+    crisis: [{ name: 'Línea de la Vida', contact: '800 911 2000', type: 'phone' }],
+  },
+  {
+    region: 'AR',
+    name: 'Argentina',
+    emergencyNumber: '911',
+    crisis: [{ name: 'Centro de Asistencia al Suicida', contact: '135', type: 'phone' }],
+  },
+  {
+    region: 'FR',
+    name: 'France',
+    emergencyNumber: '112',
+    crisis: [{ name: '3114 Prévention du suicide', contact: '3114', type: 'phone' }],
+    sexualViolence: [{ name: 'Violences Femmes Info', contact: '3919', type: 'phone' }],
+  },
+  {
+    region: 'BE',
+    name: 'Belgique / België',
+    emergencyNumber: '112',
+    crisis: [
+      { name: 'Centre de Prévention du Suicide', contact: '0800 32 123', type: 'phone' },
+      { name: 'Zelfmoordlijn', contact: '1813', type: 'phone' },
+    ],
+  },
+  {
+    region: 'CH',
+    name: 'Schweiz / Suisse',
+    emergencyNumber: '112',
+    crisis: [{ name: 'Die Dargebotene Hand / La Main Tendue', contact: '143', type: 'phone' }],
+  },
+  {
+    region: 'DE',
+    name: 'Deutschland',
+    emergencyNumber: '112',
+    crisis: [
+      { name: 'TelefonSeelsorge', contact: '0800 111 0 111', type: 'phone' },
+      { name: 'TelefonSeelsorge', contact: '0800 111 0 222', type: 'phone' },
+    ],
+    sexualViolence: [{ name: 'Hilfetelefon Gewalt gegen Frauen', contact: '116 016', type: 'phone' }],
+  },
+  {
+    region: 'AT',
+    name: 'Österreich',
+    emergencyNumber: '112',
+    crisis: [{ name: 'TelefonSeelsorge', contact: '142', type: 'phone' }],
+    sexualViolence: [{ name: 'Frauenhelpline', contact: '0800 222 555', type: 'phone' }],
+  },
+];
+
+/**
+ * Default response language for a region when the device language
+ * isn't supported
+ */
+export const REGION_DEFAULT_LANGUAGE: Record<string, SafeguardLanguage> = {
+  ES: 'es',
+  MX: 'es',
+  AR: 'es',
+  FR: 'fr',
+  DE: 'de',
+  AT: 'de',
+};
@@ -10,6 +10,16 @@
  *
  * This service can be updated independently to improve safety.
  *
+ * Detection runs every language pack (English, Spanish, French, German)
+ * over a normalized message, tolerating misspellings and leetspeak.
+ * Responses list hotlines for the user's region (safeguardLocales.ts).
+ *
+ * Matches are scored rather than simply counted: negated ("I'd never")
+ * phrases and quotes attributed to someone else ("the song goes") weigh
+ * less, softer distress signals add up, and checkSafeguardsInContext also
+ * scores the recent session so risk that builds over several messages is
+ * caught. All on-device.
+ *
  * IMPORTANT: This is a harm reduction tool, not a content filter.
  * The goal is to:
  * 1. Never engage with harmful content
@@ -18,8 +28,22 @@
  * 4. Support users who may be struggling with intrusive thoughts
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import EncryptedStorage from './encryptedStorage';
 import { log, info, warn, error as logError } from './loggingService';
+import { getCurrentSession } from './memoryTierService';
+import {
+  IASP_DIRECTORY,
+  INTERNATIONAL_RESOURCES,
+  KEYWORD_PACKS,
+  REGION_DEFAULT_LANGUAGE,
+  REGIONAL_RESOURCES,
+  RESPONSE_WORDING,
+  SUPPORTED_LANGUAGES,
+  RegionalResources,
+  SafeguardLanguage,
+} from './safeguardLocales';
+
+export type { RegionalResources, SafeguardLanguage } from './safeguardLocales';
 
 // Storage keys
 const SAFEGUARD_LOG_KEY = 'moodleaf_safeguard_log';
@@ -42,6 +66,14 @@ export interface SafeguardResult {
   response?: SafeguardResponse;
   keywords?: string[];
   severity?: 'low' | 'medium' | 'high' | 'critical';
+  /** Language the response is written in */
+  language?: SafeguardLanguage;
+  /** Region whose resources were listed */
+  region?: string;
+  /** Triggered by the conversation trend rather than this message alone */
+  escalation?: boolean;
+  /** Window assessment (checkSafeguardsInContext only) */
+  assessment?: ConversationRiskAssessment;
 }
 
 export interface SafeguardResponse {
@@ -69,189 +101,781 @@ export interface SafeguardLog {
 }
 
 // ============================================
-// KEYWORD DEFINITIONS
-// Organized by category for easy updates
+// LOCALE & REGION
 // ============================================
 
-const KEYWORD_PATTERNS: Record<SafeguardCategory, string[]> = {
-  self_harm: [
-    'suicide', 'suicidal', 'kill myself', 'end my life', 'want to die',
-    'hurt myself', 'self-harm', 'self harm', 'cutting myself',
-    "don't want to live", 'better off dead', 'no reason to live',
-    'end it all', 'no point in living', 'rather be dead',
-  ],
-
-  violence: [
-    'kill someone', 'kill him', 'kill her', 'kill them',
-    'murder', 'homicide', 'going to shoot', 'going to stab',
-    'planning to hurt', 'planning to kill', 'going to attack',
-    'want to hurt someone', 'beat them up', 'hurt them bad',
-  ],
-
-  animal_abuse: [
-    'hurt animals', 'kill animals', 'harm animals', 'torture animals',
-    'kill my pet', 'hurt my pet', 'abuse animals', 'hurt the cat',
-    'hurt the dog', 'kill the cat', 'kill the dog', 'animal cruelty',
-  ],
-
-  sexual_violence: [
-    'want to rape', 'going to rape', 'rape her', 'rape him',
-    'force myself on', 'sexual assault', 'molest',
-  ],
-
-  illegal_activity: [
-    'make a bomb', 'build explosives', 'poison someone',
-    'how to kill without', 'get away with murder',
-  ],
-};
+// Checked in order of severity
+const CATEGORY_PRIORITY: SafeguardCategory[] = [
+  'self_harm',       // Highest priority - user safety
+  'sexual_violence',
+  'violence',
+  'animal_abuse',
+  'illegal_activity',
+];
+
+export interface SafeguardLocaleSettings {
+  /** Response language; 'auto' = device language, or the language the message was written in */
+  language: SafeguardLanguage | 'auto';
+  /** ISO country code for resources; 'auto' = device region */
+  region: string | 'auto';
+}
+
+const DEFAULT_LOCALE_SETTINGS: SafeguardLocaleSettings = { language: 'auto', region: 'auto' };
+
+// Cached so checkSafeguards can stay synchronous
+let localeSettings: SafeguardLocaleSettings = DEFAULT_LOCALE_SETTINGS;
+let customKeywords: Partial<Record<SafeguardCategory, string[]>> = {};
+let settingsLoaded = false;
+
+const regionRegistry = new Map<string, RegionalResources>(
+  REGIONAL_RESOURCES.map(resources => [resources.region, resources])
+);
+
+/**
+ * Load locale settings and admin keywords into memory.
+ * Safe to call repeatedly; only reads storage once unless forced.
+ */
+export async function loadSafeguardSettings(force: boolean = false): Promise<void> {
+  if (settingsLoaded && !force) return;
+  const config = await getConfig();
+  localeSettings = { ...DEFAULT_LOCALE_SETTINGS, ...config.locale };
+  customKeywords = (config.additionalKeywords || {}) as Partial<Record<SafeguardCategory, string[]>>;
+  compiledPacks = null;
+  settingsLoaded = true;
+}
+
+/**
+ * Get the saved language/region settings
+ */
+export function getSafeguardLocale(): SafeguardLocaleSettings {
+  return { ...localeSettings };
+}
+
+/**
+ * Set the response language and/or resource region
+ */
+export async function setSafeguardLocale(updates: Partial<SafeguardLocaleSettings>): Promise<void> {
+  const config = await getConfig();
+  const locale = { ...DEFAULT_LOCALE_SETTINGS, ...config.locale, ...updates };
+  if (locale.region !== 'auto') {
+    locale.region = locale.region.toUpperCase();
+  }
+  await saveConfig({ ...config, locale });
+  localeSettings = locale;
+  await info('privacy', 'Safeguard locale updated', { ...locale });
+}
+
+/**
+ * Register (or replace) crisis resources for a region
+ */
+export function registerRegionalResources(resources: RegionalResources): void {
+  regionRegistry.set(resources.region.toUpperCase(), { ...resources, region: resources.region.toUpperCase() });
+}
+
+/**
+ * Regions with dedicated resources
+ */
+export function getSupportedRegions(): { region: string; name: string }[] {
+  return Array.from(regionRegistry.values()).map(r => ({ region: r.region, name: r.name }));
+}
+
+/**
+ * Device locale from Intl, e.g. { language: 'es', region: 'MX' }
+ */
+function getDeviceLocale(): { language: string; region: string | null } {
+  try {
+    const tag = Intl.DateTimeFormat().resolvedOptions().locale || 'en-US';
+    const [language, ...rest] = tag.split('-');
+    const region = rest.find(part => /^[A-Za-z]{2}$/.test(part));
+    return { language: language.toLowerCase(), region: region ? region.toUpperCase() : null };
+  } catch {
+    return { language: 'en', region: 'US' };
+  }
+}
+
+/**
+ * Resources for a region (configured region by default).
+ * Unknown regions get the international directory.
+ */
+export function getRegionalResources(region?: string): RegionalResources {
+  let code = region ?? localeSettings.region;
+  if (code === 'auto') {
+    code = getDeviceLocale().region ?? 'INTL';
+  }
+  return regionRegistry.get(code.toUpperCase()) ?? INTERNATIONAL_RESOURCES;
+}
+
+function resolveLanguage(detected?: SafeguardLanguage, region?: RegionalResources): SafeguardLanguage {
+  if (localeSettings.language !== 'auto') return localeSettings.language;
+  // Answer in the language the person wrote in
+  if (detected) return detected;
+  const device = getDeviceLocale().language as SafeguardLanguage;
+  if (SUPPORTED_LANGUAGES.includes(device)) return device;
+  return (region && REGION_DEFAULT_LANGUAGE[region.region]) || 'en';
+}
 
 // ============================================
-// RESPONSE DEFINITIONS
+// NORMALIZATION
 // ============================================
 
-const RESPONSES: Record<SafeguardCategory, SafeguardResponse> = {
-  self_harm: {
-    text: `I hear that you're going through something really difficult. Your safety matters.
+// Common character substitutions ("k1ll", "su1c1de", "$elf harm")
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l',
+};
 
-If you're in crisis, please reach out:
-• **988 Suicide & Crisis Lifeline**: Call or text 988
-• **Crisis Text Line**: Text HOME to 741741
-• **International Association for Suicide Prevention**: https://www.iasp.info/resources/Crisis_Centres/
+const isLetter = (ch: string | undefined) => !!ch && ch >= 'a' && ch <= 'z';
 
-You don't have to face this alone. A trained counselor can help right now.`,
-    showResources: true,
-    resources: [
-      { name: '988 Suicide & Crisis Lifeline', contact: '988', type: 'phone' },
-      { name: 'Crisis Text Line', contact: 'Text HOME to 741741', type: 'text' },
-    ],
-    logEvent: true,
-    blockAI: true,
-  },
+/**
+ * Normalize text for matching: lowercase, strip accents, undo leetspeak,
+ * drop apostrophes, turn other punctuation into spaces and collapse
+ * repeated letters ("diiie" -> "die", "kill" -> "kil"). Keywords go
+ * through the same function so both sides compare equal.
+ */
+export function normalizeForSafeguards(text: string): string {
+  const lower = text
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
 
-  violence: {
-    text: `I'm not able to engage with thoughts about harming others.
+  // Leet characters only count inside words, so "die!" stays "die"
+  let unleet = '';
+  for (let i = 0; i < lower.length; i++) {
+    const ch = lower[i];
+    const mapped = LEET_MAP[ch];
+    const prevLetter = isLetter(lower[i - 1]);
+    const nextLetter = isLetter(lower[i + 1]);
+    // "!" is usually punctuation, so it only counts between letters
+    const inWord = ch === '!' ? prevLetter && nextLetter : prevLetter || nextLetter;
+    if (mapped && inWord) {
+      unleet += mapped;
+    } else {
+      unleet += ch;
+    }
+  }
 
-If you're having intrusive or distressing thoughts, please know that help is available:
-• **988 Suicide & Crisis Lifeline**: Call or text 988 (they help with all crises)
-• **SAMHSA National Helpline**: 1-800-662-4357
-• **Crisis Text Line**: Text HOME to 741741
+  return unleet
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z]+/g, ' ')
+    .replace(/([a-z])\1+/g, '$1')
+    .trim();
+}
 
-A trained professional can help you work through difficult thoughts safely.
+/**
+ * Edit distance with adjacent transpositions, capped at max + 1
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) d[0][j] = j;
 
-If someone is in immediate danger, please call 911.`,
-    showResources: true,
-    resources: [
-      { name: '988 Crisis Lifeline', contact: '988', type: 'phone' },
-      { name: 'SAMHSA Helpline', contact: '1-800-662-4357', type: 'phone' },
-    ],
-    logEvent: true,
-    blockAI: true,
-  },
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
 
-  animal_abuse: {
-    text: `I'm not able to engage with content about harming animals.
+// Shortest keyword word that tolerates a typo, normally and inside self-harm phrases
+const MIN_FUZZY_LENGTH = 5;
+const MIN_FUZZY_LENGTH_IN_PHRASE = 4;
 
-If you're having distressing thoughts about harming animals, please reach out for support:
-• **988 Crisis Lifeline**: Call or text 988
-• **SAMHSA National Helpline**: 1-800-662-4357
+/**
+ * Token comparison tolerant of one typo in longer words ("sucide", "suicdie").
+ * With `inPhrase`, four-letter words are tolerated too, since the rest of
+ * the phrase pins the meaning ("i wnat to die").
+ */
+function tokenMatches(messageToken: string, keywordToken: string, inPhrase: boolean = false): boolean {
+  if (messageToken === keywordToken) return true;
+  const minLength = inPhrase ? MIN_FUZZY_LENGTH_IN_PHRASE : MIN_FUZZY_LENGTH;
+  if (keywordToken.length < minLength || messageToken.length < 4) return false;
+  return editDistance(messageToken, keywordToken, 1) <= 1;
+}
 
-To report animal abuse: **ASPCA** at 1-888-426-4435
+/**
+ * A normalized word plus where it sat in the original message
+ */
+interface MessageToken {
+  text: string;
+  /** Inside quotation marks */
+  quoted: boolean;
+  /** Inside a quote attributed to someone or something else ("she said", "the song goes") */
+  attributed: boolean;
+  /** Index of the clause (split on punctuation and "but") */
+  clause: number;
+}
 
-Professional support can help you work through difficult thoughts.`,
-    showResources: true,
-    resources: [
-      { name: '988 Crisis Lifeline', contact: '988', type: 'phone' },
-      { name: 'ASPCA', contact: '1-888-426-4435', type: 'phone' },
-    ],
-    logEvent: true,
-    blockAI: true,
-  },
+const QUOTE_PATTERN = /["“”«»„]/;
+// "!" only ends a clause when it's not inside a word ("k!ll")
+const CLAUSE_PATTERN = /[,.;:?\n]+|!+(?=\s|$)|\s(?:but|pero|mais|aber)\s/i;
+const SENTENCE_PATTERN = /[.?!\n]/;
 
-  sexual_violence: {
-    text: `I'm not able to engage with content about sexual violence.
+// Words around a quote that are checked for who it belongs to
+const ATTRIBUTION_WORDS_BEFORE = 4;
+const ATTRIBUTION_WORDS_AFTER = 3;
 
-If you're having intrusive thoughts that distress you, please know that help is available:
-• **988 Crisis Lifeline**: Call or text 988
-• **RAINN National Sexual Assault Hotline**: 1-800-656-4673
+/**
+ * Does the text around a quote give it to someone else? It needs a
+ * speech verb or a source ("she said", "the song goes"); a first-person
+ * subject ("I keep thinking", "I wrote") makes it the person's own, and
+ * so does no attribution at all.
+ */
+function isAttributedQuote(before: string, after: string): boolean {
+  const { quoteSources, firstPerson } = getCompiledPacks();
+  const sentenceBefore = before.split(SENTENCE_PATTERN).pop() || '';
+  const sentenceAfter = after.split(SENTENCE_PATTERN)[0] || '';
+  const context = [
+    ...normalizeForSafeguards(sentenceBefore).split(' ').filter(Boolean).slice(-ATTRIBUTION_WORDS_BEFORE),
+    ...normalizeForSafeguards(sentenceAfter).split(' ').filter(Boolean).slice(0, ATTRIBUTION_WORDS_AFTER),
+  ];
+  if (context.some(word => firstPerson.has(word))) return false;
+  return context.some(word => quoteSources.has(word));
+}
 
-A trained professional can help you work through difficult thoughts safely.
+/**
+ * Split a message into normalized tokens, remembering quotes and clauses
+ */
+function tokenizeForSafeguards(message: string): MessageToken[] {
+  const tokens: MessageToken[] = [];
+  let clause = 0;
+  const segments = message.split(QUOTE_PATTERN);
+  segments.forEach((segment, segmentIndex) => {
+    const quoted = segmentIndex % 2 === 1;
+    const attributed = quoted && isAttributedQuote(segments[segmentIndex - 1], segments[segmentIndex + 1] || '');
+    for (const part of segment.split(CLAUSE_PATTERN)) {
+      const words = normalizeForSafeguards(part).split(' ').filter(Boolean);
+      for (const text of words) {
+        tokens.push({ text, quoted, attributed, clause });
+      }
+      clause++;
+    }
+  });
+  return tokens;
+}
 
-If someone is in immediate danger, please call 911.`,
-    showResources: true,
-    resources: [
-      { name: '988 Crisis Lifeline', contact: '988', type: 'phone' },
-      { name: 'RAINN Hotline', contact: '1-800-656-4673', type: 'phone' },
-    ],
-    logEvent: true,
-    blockAI: true,
-  },
+interface CompiledKeyword {
+  keyword: string;
+  tokens: string[];
+  language: SafeguardLanguage;
+  /** 1 for keywords; less for distress signals */
+  weight: number;
+  /** Multi-word self-harm phrase: one four-letter word may have a typo */
+  phraseTypos: boolean;
+}
+
+interface CompiledPacks {
+  keywords: Record<SafeguardCategory, CompiledKeyword[]>;
+  distressSignals: CompiledKeyword[];
+  negators: Set<string>;
+  negationFillers: Set<string>;
+  negationDoubts: Set<string>;
+  quoteSources: Set<string>;
+  firstPerson: Set<string>;
+}
+
+let compiledPacks: CompiledPacks | null = null;
+
+function compileKeyword(
+  keyword: string,
+  language: SafeguardLanguage,
+  category: SafeguardCategory,
+  weight: number = 1
+): CompiledKeyword {
+  const tokens = normalizeForSafeguards(keyword).split(' ').filter(Boolean);
+  // Only self-harm: a missed crisis costs more than a false alarm ("going to tape" is not "going to rape")
+  const phraseTypos = category === 'self_harm' && tokens.length > 1;
+  return { keyword, tokens, language, weight, phraseTypos };
+}
+
+function getCompiledPacks(): CompiledPacks {
+  if (compiledPacks) return compiledPacks;
+  const compiled: CompiledPacks = {
+    keywords: {} as Record<SafeguardCategory, CompiledKeyword[]>,
+    distressSignals: [],
+    negators: new Set(),
+    negationFillers: new Set(),
+    negationDoubts: new Set(),
+    quoteSources: new Set(),
+    firstPerson: new Set(),
+  };
+  for (const category of CATEGORY_PRIORITY) {
+    compiled.keywords[category] = [];
+    for (const language of SUPPORTED_LANGUAGES) {
+      for (const keyword of KEYWORD_PACKS[language].keywords[category]) {
+        compiled.keywords[category].push(compileKeyword(keyword, language, category));
+      }
+    }
+    for (const keyword of customKeywords[category] || []) {
+      compiled.keywords[category].push(compileKeyword(keyword, 'en', category));
+    }
+  }
+  for (const language of SUPPORTED_LANGUAGES) {
+    const pack = KEYWORD_PACKS[language];
+    for (const signal of pack.distressSignals) {
+      compiled.distressSignals.push(compileKeyword(signal.phrase, language, 'self_harm', signal.weight));
+    }
+    pack.negators.forEach(word => compiled.negators.add(normalizeForSafeguards(word)));
+    pack.negationFillers.forEach(word => compiled.negationFillers.add(normalizeForSafeguards(word)));
+    pack.negationDoubts.forEach(word => compiled.negationDoubts.add(normalizeForSafeguards(word)));
+    pack.quoteSources.forEach(word => compiled.quoteSources.add(normalizeForSafeguards(word)));
+    pack.firstPerson.forEach(word => compiled.firstPerson.add(normalizeForSafeguards(word)));
+  }
+  compiledPacks = compiled;
+  return compiled;
+}
+
+// Tokens checked before a negator for a negated doubt ("not sure I won't")
+const NEGATION_DOUBT_WINDOW = 4;
+
+/**
+ * Is the negator at `index` itself doubted? "I'm not sure I won't",
+ * "I don't know if I won't": a negated doubt word earlier in the clause.
+ */
+function isNegationDoubted(tokens: MessageToken[], index: number): boolean {
+  const { negators, negationDoubts } = getCompiledPacks();
+  const clause = tokens[index].clause;
+  for (let i = index - 1; i >= 0 && i >= index - NEGATION_DOUBT_WINDOW; i--) {
+    if (tokens[i].clause !== clause) return false;
+    if (!negationDoubts.has(tokens[i].text)) continue;
+    for (let j = i - 1; j >= 0 && j >= i - 2 && tokens[j].clause === clause; j--) {
+      if (negators.has(tokens[j].text)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Is the phrase starting at `start` negated? Walks back through the
+ * same clause, skipping filler words, looking for a negator:
+ * "I would never hurt myself", "I'm not going to kill myself".
+ * A negator that is itself in doubt doesn't count ("I'm not sure I won't").
+ */
+function isNegated(tokens: MessageToken[], start: number): boolean {
+  const { negators, negationFillers } = getCompiledPacks();
+  const clause = tokens[start].clause;
+  for (let i = start - 1; i >= 0 && i >= start - 4; i--) {
+    if (tokens[i].clause !== clause) return false;
+    if (negators.has(tokens[i].text)) return !isNegationDoubted(tokens, i);
+    if (!negationFillers.has(tokens[i].text)) return false;
+  }
+  return false;
+}
+
+interface KeywordHit {
+  keyword: CompiledKeyword;
+  quoted: boolean;
+  attributed: boolean;
+  negated: boolean;
+}
 
-  illegal_activity: {
-    text: `I'm not able to help with that request.
+/**
+ * Every place the keyword's token sequence appears in the message.
+ * Single long keywords also match as a word prefix, which covers
+ * inflections and German compounds ("selbstmordgedanken"). In self-harm
+ * phrases at most one short word may be misspelled.
+ */
+function findHits(tokens: MessageToken[], keyword: CompiledKeyword): KeywordHit[] {
+  const hits: KeywordHit[] = [];
+  const length = keyword.tokens.length;
+  if (length === 0) return hits;
+
+  for (let start = 0; start + length <= tokens.length; start++) {
+    let all = true;
+    let shortTypos = 0;
+    for (let k = 0; k < length; k++) {
+      const token = tokens[start + k].text;
+      const target = keyword.tokens[k];
+      const prefixMatch = length === 1 && target.length >= 6 && token.startsWith(target);
+      const matched = prefixMatch || tokenMatches(token, target, keyword.phraseTypos);
+      if (matched && token !== target && target.length < MIN_FUZZY_LENGTH) shortTypos++;
+      if (!matched || shortTypos > 1) {
+        all = false;
+        break;
+      }
+    }
+    if (all) {
+      hits.push({
+        keyword,
+        quoted: tokens[start].quoted,
+        attributed: tokens[start].attributed,
+        negated: isNegated(tokens, start),
+      });
+    }
+  }
+  return hits;
+}
+
+// Risk contributed by a keyword hit, by how it was used
+const HIT_WEIGHTS = {
+  direct: 1,
+  quoted: 0.5,   // "the song goes 'I want to die'" - not alone, but it counts
+  negated: 0.1,  // "I would never hurt myself"
+};
+
+/**
+ * Is the hit someone else's words? For self-harm only quotes attributed
+ * to another source count; 'I keep thinking "I want to die"' is the
+ * person's own thought.
+ */
+function isReported(hit: KeywordHit, category: SafeguardCategory): boolean {
+  return hit.quoted && (category !== 'self_harm' || hit.attributed);
+}
+
+function hitWeight(hit: KeywordHit, category: SafeguardCategory): number {
+  const usage = hit.negated
+    ? HIT_WEIGHTS.negated
+    : isReported(hit, category) ? HIT_WEIGHTS.quoted : HIT_WEIGHTS.direct;
+  return hit.keyword.weight * usage;
+}
+
+/**
+ * Combine independent signals: 1 - (1 - a)(1 - b)...
+ */
+function combineWeights(weights: number[]): number {
+  return 1 - weights.reduce((remaining, w) => remaining * (1 - Math.min(1, w)), 1);
+}
+
+/**
+ * Risk found in one message for one category
+ */
+interface CategoryRisk {
+  score: number;
+  /** Keywords/signals that counted (no message content) */
+  matched: string[];
+  /** At least one full keyword used directly (not reported speech or negated) */
+  direct: boolean;
+  language?: SafeguardLanguage;
+}
+
+function scoreCategory(tokens: MessageToken[], category: SafeguardCategory): CategoryRisk {
+  const packs = getCompiledPacks();
+  const candidates = category === 'self_harm'
+    ? [...packs.keywords[category], ...packs.distressSignals]
+    : packs.keywords[category];
+
+  const hits = candidates.flatMap(keyword => findHits(tokens, keyword));
+  if (hits.length === 0) return { score: 0, matched: [], direct: false };
+
+  const counting = hits.filter(hit => !hit.negated);
+
+  // Language with the most hits decides the response language
+  const counts = new Map<SafeguardLanguage, number>();
+  for (const hit of counting.length > 0 ? counting : hits) {
+    counts.set(hit.keyword.language, (counts.get(hit.keyword.language) || 0) + 1);
+  }
+  const language = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
 
-If you're going through a difficult time and having distressing thoughts, support is available:
-• **988 Crisis Lifeline**: Call or text 988
-• **SAMHSA National Helpline**: 1-800-662-4357`,
+  return {
+    score: combineWeights(hits.map(hit => hitWeight(hit, category))),
+    matched: Array.from(new Set(counting.map(hit => hit.keyword.keyword))),
+    direct: counting.some(hit => !isReported(hit, category) && hit.keyword.weight >= 1),
+    language,
+  };
+}
+
+function scoreMessage(message: string): Record<SafeguardCategory, CategoryRisk> {
+  const tokens = tokenizeForSafeguards(message);
+  const risks = {} as Record<SafeguardCategory, CategoryRisk>;
+  for (const category of CATEGORY_PRIORITY) {
+    risks[category] = scoreCategory(tokens, category);
+  }
+  return risks;
+}
+
+// ============================================
+// RESPONSES
+// ============================================
+
+function dedupeResources(resources: SafeguardResource[]): SafeguardResource[] {
+  const seen = new Set<string>();
+  return resources.filter(r => {
+    const key = `${r.name}|${r.contact}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function resourcesForCategory(category: SafeguardCategory, regional: RegionalResources): SafeguardResource[] {
+  const support = regional.supportLines || [];
+  switch (category) {
+    case 'self_harm':
+      return dedupeResources([...regional.crisis, IASP_DIRECTORY]);
+    case 'violence':
+      return dedupeResources([...regional.crisis, ...support]);
+    case 'animal_abuse':
+      return dedupeResources([...regional.crisis.slice(0, 1), ...support, ...(regional.animalWelfare || [])]);
+    case 'sexual_violence':
+      return dedupeResources([...regional.crisis.slice(0, 1), ...(regional.sexualViolence || [])]);
+    case 'illegal_activity':
+      return dedupeResources([...regional.crisis.slice(0, 1), ...support]);
+  }
+}
+
+/**
+ * Get the appropriate response for a detected category, with hotlines
+ * for the user's region (or the given region/language)
+ */
+export function getResponse(
+  category: SafeguardCategory,
+  options: { region?: string; language?: SafeguardLanguage } = {}
+): SafeguardResponse {
+  const regional = getRegionalResources(options.region);
+  const language = options.language ?? resolveLanguage(undefined, regional);
+  const wording = RESPONSE_WORDING[language];
+  const resources = resourcesForCategory(category, regional).map(r =>
+    r.contact === IASP_DIRECTORY.contact ? { ...r, name: wording.directory } : r
+  );
+
+  const lines = [
+    wording.intro[category],
+    ...resources.map(r => `• **${r.name}**: ${r.contact}`),
+  ];
+  if (wording.closing[category]) {
+    lines.push('', wording.closing[category]);
+  }
+  if (category === 'violence' || category === 'sexual_violence') {
+    lines.push('', wording.emergency(regional.emergencyNumber));
+  }
+
+  return {
+    text: lines.join('\n'),
     showResources: true,
-    resources: [
-      { name: '988 Crisis Lifeline', contact: '988', type: 'phone' },
-    ],
+    resources,
     logEvent: true,
     blockAI: true,
-  },
-};
+  };
+}
 
 // ============================================
 // DETECTION FUNCTIONS
 // ============================================
 
+// Risk score at which a response is shown (maps to 'high')
+const TRIGGER_SCORE = 0.65;
+
+// Conversation window for context-aware checks
+const DEFAULT_WINDOW_SIZE = 8;
+// Older messages count for less (per message of age)
+const RECENCY_DECAY = 0.8;
+// Most an earlier message adds on its own, so one that already triggered
+// doesn't trigger again on the next harmless reply
+const HISTORY_SCORE_CAP = 0.5;
+// Slope (score per message) that counts as escalating
+const ESCALATION_SLOPE = 0.08;
+
+/**
+ * Map a 0-1 risk score onto the severity levels
+ */
+export function severityForScore(score: number): SafeguardResult['severity'] | null {
+  if (score >= 0.85) return 'critical';
+  if (score >= TRIGGER_SCORE) return 'high';
+  if (score >= 0.45) return 'medium';
+  if (score >= 0.25) return 'low';
+  return null;
+}
+
+/**
+ * Build (and log) a triggered result
+ */
+function triggerSafeguard(
+  category: SafeguardCategory,
+  keywords: string[],
+  severity: NonNullable<SafeguardResult['severity']>,
+  detectedLanguage: SafeguardLanguage | undefined,
+  extra: { escalation?: boolean; assessment?: ConversationRiskAssessment } = {}
+): SafeguardResult {
+  const regional = getRegionalResources();
+  const language = resolveLanguage(detectedLanguage, regional);
+
+  // Log the event (anonymized) - internal log
+  logSafeguardEvent(category, keywords, severity);
+
+  // Log to central logging service for developer dashboard
+  warn('privacy', 'Safeguard triggered', {
+    category,
+    severity,
+    keywordCount: keywords.length,
+    language: detectedLanguage,
+    region: regional.region,
+    escalation: extra.escalation === true,
+  });
+
+  return {
+    triggered: true,
+    category,
+    response: getResponse(category, { region: regional.region, language }),
+    keywords,
+    severity,
+    language,
+    region: regional.region,
+    ...extra,
+  };
+}
+
 /**
- * Check a message against all safeguard categories
+ * Check a message against all safeguard categories.
+ * Every language pack is checked regardless of settings - people switch
+ * languages, and a missed crisis costs far more than a false alarm.
+ * Negated phrases ("I'd never hurt myself") don't trigger; quotes
+ * attributed to someone else only do together with other signals.
  */
 export function checkSafeguards(message: string): SafeguardResult {
-  const lower = message.toLowerCase();
-
-  // Check each category in order of severity
-  const categories: SafeguardCategory[] = [
-    'self_harm',       // Highest priority - user safety
-    'sexual_violence',
-    'violence',
-    'animal_abuse',
-    'illegal_activity',
-  ];
+  const risks = scoreMessage(message);
 
-  for (const category of categories) {
-    const keywords = KEYWORD_PATTERNS[category];
-    const matched = keywords.filter(kw => lower.includes(kw));
+  for (const category of CATEGORY_PRIORITY) {
+    const risk = risks[category];
+    if (risk.score < TRIGGER_SCORE) continue;
 
-    if (matched.length > 0) {
-      // Log the event (anonymized) - internal log
-      logSafeguardEvent(category, matched);
+    const severity = risk.direct
+      ? getSeverity(category, risk.matched, tokenizeForSafeguards(message).map(t => t.text))
+      : severityForScore(risk.score) ?? 'high';
+    return triggerSafeguard(category, risk.matched, severity, risk.language);
+  }
 
-      // Log to central logging service for developer dashboard
-      warn('privacy', 'Safeguard triggered', {
-        category,
-        severity: getSeverity(category, matched),
-        keywordCount: matched.length,
-      });
+  return { triggered: false };
+}
+
+// ============================================
+// CONVERSATION CONTEXT
+// ============================================
+
+export interface ConversationRiskAssessment {
+  /** Combined 0-1 risk for the window */
+  score: number;
+  /** Risk of the newest message alone */
+  messageScore: number;
+  /** Least-squares slope of per-message risk (per message) */
+  trend: number;
+  escalating: boolean;
+  severity: SafeguardResult['severity'] | null;
+  category?: SafeguardCategory;
+  /** Keywords/signals that contributed (no message content) */
+  signals: string[];
+  messagesConsidered: number;
+}
+
+function slope(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((a, b) => a + b, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((y, x) => {
+    numerator += (x - meanX) * (y - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  return denominator === 0 ? 0 : numerator / denominator;
+}
 
-      return {
-        triggered: true,
-        category,
-        response: RESPONSES[category],
-        keywords: matched,
-        severity: getSeverity(category, matched),
+/**
+ * Score a message in the context of the user's earlier messages
+ * (oldest first). Pure and on-device; nothing is stored.
+ *
+ * Risk that builds gradually counts: each message's risk, decayed by age,
+ * is combined like independent signals, so several distress messages can
+ * cross the trigger between them. A bonus is added when risk has been
+ * climbing.
+ */
+export function assessConversationRisk(
+  message: string,
+  history: string[],
+  windowSize: number = DEFAULT_WINDOW_SIZE
+): ConversationRiskAssessment {
+  const window = [...(windowSize > 1 ? history.slice(-(windowSize - 1)) : []), message];
+  const scored = window.map(scoreMessage);
+
+  let best: ConversationRiskAssessment | null = null;
+  for (const category of CATEGORY_PRIORITY) {
+    const series = scored.map(risks => risks[category].score);
+    const messageScore = series[series.length - 1];
+
+    const accumulated = combineWeights(
+      series.map((score, index) => {
+        const age = series.length - 1 - index;
+        return age === 0 ? score : Math.min(score, HISTORY_SCORE_CAP) * RECENCY_DECAY ** age;
+      })
+    );
+
+    const trend = slope(series);
+    const escalating = series.length >= 3 && trend >= ESCALATION_SLOPE && messageScore > series[0];
+    const score = Math.min(1, accumulated + (escalating ? trend * 2 : 0));
+
+    if (!best || score > best.score) {
+      best = {
+        score,
+        messageScore,
+        trend,
+        escalating,
+        severity: severityForScore(score),
+        category: score > 0 ? category : undefined,
+        signals: Array.from(new Set(scored.flatMap(risks => risks[category].matched))),
+        messagesConsidered: window.length,
       };
     }
   }
 
-  return { triggered: false };
+  return best as ConversationRiskAssessment;
+}
+
+/**
+ * checkSafeguards plus the recent session (memoryTierService), so a
+ * conversation that escalates gradually still gets a response.
+ */
+export async function checkSafeguardsInContext(
+  message: string,
+  options: { windowSize?: number } = {}
+): Promise<SafeguardResult> {
+  let history: string[] = [];
+  try {
+    const session = await getCurrentSession();
+    history = (session?.messages || []).filter(m => m.role === 'user').map(m => m.content);
+  } catch (error) {
+    console.error('[Safeguard] Failed to load session for context:', error);
+  }
+
+  const assessment = assessConversationRisk(message, history, options.windowSize);
+
+  // The message on its own is enough
+  const direct = checkSafeguards(message);
+  if (direct.triggered) {
+    return { ...direct, assessment };
+  }
+
+  if (assessment.category && assessment.score >= TRIGGER_SCORE) {
+    return triggerSafeguard(
+      assessment.category,
+      assessment.signals,
+      assessment.severity ?? 'high',
+      scoreMessage(message)[assessment.category].language,
+      { escalation: true, assessment }
+    );
+  }
+
+  return { triggered: false, assessment };
 }
 
 /**
- * Determine severity based on category and keywords
+ * Determine severity based on category, keywords and intent phrasing
  */
-function getSeverity(category: SafeguardCategory, keywords: string[]): 'low' | 'medium' | 'high' | 'critical' {
+function getSeverity(
+  category: SafeguardCategory,
+  keywords: string[],
+  messageTokens: string[] = []
+): 'low' | 'medium' | 'high' | 'critical' {
   // Self-harm is always critical
   if (category === 'self_harm') return 'critical';
 
@@ -259,10 +883,19 @@ function getSeverity(category: SafeguardCategory, keywords: string[]): 'low' | '
   if (keywords.length >= 3) return 'critical';
   if (keywords.length >= 2) return 'high';
 
-  // Specific high-severity keywords
-  const criticalKeywords = ['planning to', 'going to', 'will kill', 'will shoot'];
-  if (keywords.some(kw => criticalKeywords.some(ck => kw.includes(ck)))) {
-    return 'critical';
+  // Intent/planning phrasing in any language
+  const normalizedKeywords = keywords.map(normalizeForSafeguards);
+  const normalizedMessage = ` ${messageTokens.join(' ')} `;
+  for (const language of SUPPORTED_LANGUAGES) {
+    for (const marker of KEYWORD_PACKS[language].intentMarkers) {
+      const normalizedMarker = normalizeForSafeguards(marker);
+      if (
+        normalizedKeywords.some(kw => kw.includes(normalizedMarker)) ||
+        normalizedMessage.includes(` ${normalizedMarker} `)
+      ) {
+        return 'critical';
+      }
+    }
   }
 
   return 'medium';
@@ -277,14 +910,15 @@ function getSeverity(category: SafeguardCategory, keywords: string[]): 'low' | '
  */
 async function logSafeguardEvent(
   category: SafeguardCategory,
-  keywordsMatched: string[]
+  keywordsMatched: string[],
+  severity: string
 ): Promise<void> {
   try {
     const log: SafeguardLog = {
       id: `sg_${Date.now()}`,
       timestamp: new Date().toISOString(),
       category,
-      severity: getSeverity(category, keywordsMatched),
+      severity,
       keywordsMatched, // Only store which keywords matched, not the message
     };
 
@@ -294,7 +928,7 @@ async function logSafeguardEvent(
 
     // Keep last 100 logs only
     const trimmed = existing.slice(-100);
-    await AsyncStorage.setItem(SAFEGUARD_LOG_KEY, JSON.stringify(trimmed));
+    await EncryptedStorage.setItem(SAFEGUARD_LOG_KEY, JSON.stringify(trimmed));
 
     console.log('[Safeguard] Event logged:', category, keywordsMatched);
   } catch (error) {
@@ -307,7 +941,7 @@ async function logSafeguardEvent(
  */
 export async function getSafeguardLogs(): Promise<SafeguardLog[]> {
   try {
-    const data = await AsyncStorage.getItem(SAFEGUARD_LOG_KEY);
+    const data = await EncryptedStorage.getItem(SAFEGUARD_LOG_KEY);
     return data ? JSON.parse(data) : [];
   } catch {
     return [];
@@ -365,6 +999,7 @@ export async function addKeyword(
   if (!config.additionalKeywords[category].includes(keyword.toLowerCase())) {
     config.additionalKeywords[category].push(keyword.toLowerCase());
     await saveConfig(config);
+    await loadSafeguardSettings(true);
   }
 }
 
@@ -373,9 +1008,10 @@ export async function addKeyword(
  */
 async function getConfig(): Promise<{
   additionalKeywords?: Record<string, string[]>;
+  locale?: Partial<SafeguardLocaleSettings>;
 }> {
   try {
-    const data = await AsyncStorage.getItem(SAFEGUARD_CONFIG_KEY);
+    const data = await EncryptedStorage.getItem(SAFEGUARD_CONFIG_KEY);
     return data ? JSON.parse(data) : {};
   } catch {
     return {};
@@ -386,14 +1022,14 @@ async function getConfig(): Promise<{
  * Save configuration
  */
 async function saveConfig(config: any): Promise<void> {
-  await AsyncStorage.setItem(SAFEGUARD_CONFIG_KEY, JSON.stringify(config));
+  await EncryptedStorage.setItem(SAFEGUARD_CONFIG_KEY, JSON.stringify(config));
 }
 
 /**
  * Clear safeguard logs (admin function)
  */
 export async function clearSafeguardLogs(): Promise<void> {
-  await AsyncStorage.removeItem(SAFEGUARD_LOG_KEY);
+  await EncryptedStorage.removeItem(SAFEGUARD_LOG_KEY);
 }
 
 // ============================================
@@ -404,26 +1040,15 @@ export async function clearSafeguardLogs(): Promise<void> {
  * Quick check for self-harm only
  */
 export function isSelfHarmContent(message: string): boolean {
-  const lower = message.toLowerCase();
-  return KEYWORD_PATTERNS.self_harm.some(kw => lower.includes(kw));
+  return scoreMessage(message).self_harm.score >= TRIGGER_SCORE;
 }
 
 /**
  * Quick check for violence content
  */
 export function isViolenceContent(message: string): boolean {
-  const lower = message.toLowerCase();
-  const allViolence = [
-    ...KEYWORD_PATTERNS.violence,
-    ...KEYWORD_PATTERNS.animal_abuse,
-    ...KEYWORD_PATTERNS.sexual_violence,
-  ];
-  return allViolence.some(kw => lower.includes(kw));
-}
-
-/**
- * Get the appropriate response for a detected category
- */
-export function getResponse(category: SafeguardCategory): SafeguardResponse {
-  return RESPONSES[category];
+  const risks = scoreMessage(message);
+  return (['violence', 'animal_abuse', 'sexual_violence'] as SafeguardCategory[]).some(
+    category => risks[category].score >= TRIGGER_SCORE
+  );
 }
@@ -6,6 +6,8 @@
  * - Verification of deletion
  * - All storage keys covered
  * - No data remnants
+ * - Encrypted keys are overwritten as ciphertext, then the storage key
+ *   itself is destroyed so nothing left behind can be decrypted
  *
  * Following Mood Leaf Ethics:
  * - User has full control over their data
@@ -14,6 +16,7 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import EncryptedStorage, { isEncryptedKey, destroyStorageKey } from './encryptedStorage';
 import { log, info, warn, error as logError } from './loggingService';
 
 /**
@@ -181,7 +184,7 @@ export async function secureDeleteAllData(passes: number = 3): Promise<SecureDel
   }
 
   // Combine known keys with discovered keys
-  const moodlingKeys = allKeys.filter(k => k.startsWith('moodling_'));
+  const moodlingKeys = allKeys.filter(k => k.startsWith('moodling_') || isEncryptedKey(k));
   const allKeysToDelete = [...new Set([...ALL_STORAGE_KEYS, ...moodlingKeys])];
 
   // Secure delete each key
@@ -206,10 +209,18 @@ export async function secureDeleteAllData(passes: number = 3): Promise<SecureDel
     }
   }
 
+  // Crypto-shred: without the key, any copy of the ciphertext is useless
+  try {
+    await destroyStorageKey();
+  } catch (error) {
+    result.errors.push(`Failed to destroy storage key: ${error}`);
+    result.success = false;
+  }
+
   // Final check - are there any moodling keys left?
   try {
     const remainingKeys = await AsyncStorage.getAllKeys();
-    const remainingMoodling = remainingKeys.filter(k => k.startsWith('moodling_'));
+    const remainingMoodling = remainingKeys.filter(k => k.startsWith('moodling_') || isEncryptedKey(k));
     if (remainingMoodling.length > 0) {
       result.errors.push(`Remaining keys found: ${remainingMoodling.join(', ')}`);
       result.success = false;
@@ -378,11 +389,11 @@ export async function exportBeforeDelete(): Promise<Record<string, unknown>> {
 
   try {
     const allKeys = await AsyncStorage.getAllKeys();
-    const moodlingKeys = allKeys.filter(k => k.startsWith('moodling_'));
+    const moodlingKeys = allKeys.filter(k => k.startsWith('moodling_') || isEncryptedKey(k));
 
     for (const key of moodlingKeys) {
       try {
-        const value = await AsyncStorage.getItem(key);
+        const value = await EncryptedStorage.getItem(key);
         if (value) {
           try {
             exportData[key] = JSON.parse(value);
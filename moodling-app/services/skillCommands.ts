@@ -0,0 +1,462 @@
+/**
+ * Skill & Exercise Commands
+ *
+ * /skills menus and the guided exercise commands (/breathe, /ground,
+ * /body, /calm, /prep).
+ *
+ * Unit: Slash Command System
+ */
+
+import {
+  EXERCISES,
+  getSkillsMenuData,
+  getExerciseById,
+} from './skillsService';
+import { formatCollectionForChat } from './collectionService';
+import { registerCommand, ExerciseConfig } from './slashCommandRegistry';
+
+// ============================================
+// SKILL COMMANDS
+// ============================================
+
+registerCommand({
+  name: 'skills',
+  aliases: ['skill'],
+  description: 'Open the skills menu (use subcommands: info, store, collection, manage)',
+  category: 'skill',
+  requiresPremium: false,
+  usage: '/skills [subcommand]',
+  examples: ['/skills', '/skills info', '/skills store', '/skills collection', '/skills manage'],
+  args: [
+    {
+      name: 'subcommand',
+      type: 'enum',
+      values: ['info', 'store', 'collection', 'manage', 'help'],
+      valueAliases: {
+        list: 'info',
+        shop: 'store',
+        upgrade: 'store',
+        collected: 'collection',
+        settings: 'manage',
+        toggle: 'manage',
+      },
+    },
+  ],
+  handler: async (args, context, values) => {
+    const menuData = await getSkillsMenuData(context.isPremium);
+
+    const subCommand: string | undefined = values.subcommand;
+
+    // /skills info - Show activity tracking
+    if (subCommand === 'info') {
+      let infoText = `📋 Your Skills\n`;
+      infoText += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+      let totalSkills = 0;
+      let activeSkills = 0;
+
+      for (const category of menuData.categories) {
+        const skills = menuData.skillsByCategory[category.id];
+        if (skills.length === 0) continue;
+
+        infoText += `${category.emoji} ${category.name}\n`;
+
+        for (const item of skills) {
+          totalSkills++;
+          const isActive = item.progress.timesUsed > 0;
+          if (isActive) activeSkills++;
+
+          const statusIcon = isActive ? '✅' : '○';
+          const timesUsed = item.progress.timesUsed;
+          const lastUsed = item.progress.lastUsed
+            ? new Date(item.progress.lastUsed).toLocaleDateString()
+            : 'Never';
+
+          infoText += `   ${statusIcon} ${item.skill.emoji} ${item.skill.name}\n`;
+          infoText += `      Used: ${timesUsed}x  |  Last: ${lastUsed}\n`;
+        }
+        infoText += '\n';
+      }
+
+      infoText += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+      infoText += `📊 Summary: ${activeSkills}/${totalSkills} skills practiced\n`;
+      infoText += `\nOther commands: /skills store, /skills manage`;
+
+      return {
+        type: 'menu',
+        success: true,
+        message: infoText,
+        menuType: 'skills',
+        data: menuData,
+      };
+    }
+
+    // /skills store - Show skills available to unlock
+    if (subCommand === 'store') {
+      let storeText = `🛒 Skills Store\n`;
+      storeText += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+      const freeSkills = [];
+      const premiumSkills = [];
+
+      for (const category of menuData.categories) {
+        for (const item of menuData.skillsByCategory[category.id]) {
+          if (item.skill.tier === 'free') {
+            freeSkills.push(item);
+          } else {
+            premiumSkills.push(item);
+          }
+        }
+      }
+
+      storeText += `FREE SKILLS (${freeSkills.length})\n`;
+      for (const item of freeSkills) {
+        const level = item.progress.level;
+        storeText += `   ${item.skill.emoji} ${item.skill.name} — Lv ${level}/${item.skill.maxLevel}\n`;
+      }
+
+      storeText += `\nPREMIUM SKILLS (${premiumSkills.length})\n`;
+      for (const item of premiumSkills) {
+        const lockIcon = item.isLocked ? '🔒 ' : '';
+        storeText += `   ${lockIcon}${item.skill.emoji} ${item.skill.name}\n`;
+      }
+
+      if (!context.isPremium) {
+        storeText += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+        storeText += `⭐ Upgrade to Premium to unlock all skills!\n`;
+      }
+
+      return {
+        type: 'menu',
+        success: true,
+        message: storeText,
+        menuType: 'skills',
+        data: { freeSkills, premiumSkills },
+      };
+    }
+
+    // /skills collection - Show unlocked/discovered items
+    if (subCommand === 'collection') {
+      const collectionText = await formatCollectionForChat();
+      return {
+        type: 'menu',
+        success: true,
+        message: collectionText,
+        menuType: 'skills',
+      };
+    }
+
+    // /skills manage - Navigate to management screen
+    if (subCommand === 'manage') {
+      return {
+        type: 'navigation',
+        success: true,
+        message: '⚙️ Opening Skills Manager...\n\nEnable or disable skills to customize your menus.',
+        navigateTo: '/skills/manage',
+      };
+    }
+
+    // /skills help - Show available subcommands
+    if (subCommand === 'help') {
+      let helpText = `🎯 Skills Commands\n`;
+      helpText += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+      helpText += `/skills — Browse all skills\n`;
+      helpText += `/skills info — View your activity\n`;
+      helpText += `/skills store — Browse available skills\n`;
+      helpText += `/skills collection — View unlocked items\n`;
+      helpText += `/skills manage — Enable/disable skills\n`;
+
+      return {
+        type: 'message',
+        success: true,
+        message: helpText,
+      };
+    }
+
+    // Default: Show browse menu
+    let menuText = `✨ Skills & Exercises\n`;
+    menuText += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+    for (const category of menuData.categories) {
+      const skills = menuData.skillsByCategory[category.id];
+      if (skills.length === 0) continue;
+
+      menuText += `${category.emoji} ${category.name.toUpperCase()}\n`;
+
+      for (const item of skills) {
+        const filledDots = item.progress.level;
+        const emptyDots = item.skill.maxLevel - item.progress.level;
+        const progressBar = '■'.repeat(filledDots) + '□'.repeat(emptyDots);
+        const lockIcon = item.isLocked ? ' 🔒' : '';
+        menuText += `   ${item.skill.emoji} ${item.skill.name}${lockIcon}  [${progressBar}]\n`;
+      }
+      menuText += '\n';
+    }
+
+    menuText += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+    menuText += `⚡ Quick Start\n`;
+    menuText += `   /breathe — Breathing exercise\n`;
+    menuText += `   /ground — 5-4-3-2-1 grounding\n`;
+    menuText += `   /calm — Auto-pick technique\n`;
+    menuText += `\n💡 Type /skills help for more options`;
+
+    if (!context.isPremium) {
+      menuText += `\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+      menuText += `⭐ Unlock All: /skills store\n`;
+    }
+
+    return {
+      type: 'menu',
+      success: true,
+      message: menuText,
+      menuType: 'skills',
+      data: menuData,
+    };
+  },
+});
+
+// ============================================
+// EXERCISE COMMANDS
+// ============================================
+
+// Breathing exercise types and the exercise each starts
+const BREATHING_EXERCISES: Record<string, string> = {
+  'box': 'box_breathing',
+  '478': '478_breathing',
+  'coherent': 'coherent_breathing',
+  'sigh': 'physiological_sigh',
+};
+
+// Other names people use for them
+const BREATHING_ALIASES: Record<string, string> = {
+  '4444': 'box',
+  '4-7-8': '478',
+  'sleep': '478',
+  'hrv': 'coherent',
+  'quick': 'sigh',
+};
+
+registerCommand({
+  name: 'breathe',
+  aliases: ['breath', 'breathing'],
+  description: 'Start a breathing exercise',
+  category: 'exercise',
+  requiresPremium: false,
+  usage: '/breathe [type]',
+  examples: ['/breathe', '/breathe box', '/breathe 478', '/breathe sigh'],
+  args: [
+    {
+      name: 'type',
+      type: 'enum',
+      values: ['box', '478', 'coherent', 'sigh'],
+      valueAliases: BREATHING_ALIASES,
+      description: 'Breathing pattern',
+    },
+  ],
+  handler: async (args, context, values) => {
+    const exerciseArg: string = values.type || 'box';
+    const exerciseId = BREATHING_EXERCISES[exerciseArg];
+
+    const exercise = getExerciseById(exerciseId);
+    if (!exercise) {
+      return {
+        type: 'error',
+        success: false,
+        message: `Unknown breathing exercise: ${exerciseArg}\n\nTry: box, 478, sigh, coherent`,
+      };
+    }
+
+    // Check premium
+    if (exercise.tier === 'premium' && !context.isPremium) {
+      return {
+        type: 'error',
+        success: false,
+        message: `${exercise.emoji} ${exercise.name} is a premium exercise.\n\nType /skills to see upgrade options.\n\nTry /breathe box or /breathe sigh for free alternatives.`,
+      };
+    }
+
+    // Convert to ExerciseConfig format
+    const config: ExerciseConfig = {
+      name: exercise.name,
+      type: exercise.type as any,
+      duration: exercise.duration,
+      steps: exercise.steps.map((s) => ({
+        instruction: s.instruction,
+        duration: s.duration,
+        visualType: s.visualType === 'circle_expand' || s.visualType === 'circle_shrink' ? 'circle' : s.visualType,
+        waitForTap: !s.duration,
+      })),
+    };
+
+    return {
+      type: 'exercise',
+      success: true,
+      message: `${exercise.emoji} **${exercise.name}**\n\n${exercise.description}\n\n_Starting in 3 seconds..._`,
+      exerciseType: 'breathing',
+      exerciseConfig: config,
+      data: { exercise },
+    };
+  },
+});
+
+registerCommand({
+  name: 'ground',
+  aliases: ['grounding', '54321'],
+  description: 'Start a grounding exercise (5-4-3-2-1)',
+  category: 'exercise',
+  requiresPremium: false,
+  handler: async () => {
+    const exercise = getExerciseById('54321_grounding');
+    if (!exercise) {
+      return {
+        type: 'error',
+        success: false,
+        message: 'Exercise not found',
+      };
+    }
+
+    const config: ExerciseConfig = {
+      name: exercise.name,
+      type: 'grounding',
+      duration: exercise.duration,
+      steps: exercise.steps.map((s) => ({
+        instruction: s.instruction,
+        duration: s.duration,
+        visualType: s.visualType === 'text' ? 'text' : 'progress',
+        waitForTap: !s.duration,
+      })),
+    };
+
+    return {
+      type: 'exercise',
+      success: true,
+      message: `${exercise.emoji} **${exercise.name}**\n\n${exercise.description}\n\nTap to continue through each step.`,
+      exerciseType: 'grounding',
+      exerciseConfig: config,
+      data: { exercise },
+    };
+  },
+});
+
+registerCommand({
+  name: 'body',
+  aliases: ['bodyscan', 'scan'],
+  description: 'Start a body scan exercise',
+  category: 'exercise',
+  requiresPremium: false,
+  handler: async () => {
+    const exercise = getExerciseById('quick_body_scan');
+    if (!exercise) {
+      return {
+        type: 'error',
+        success: false,
+        message: 'Exercise not found',
+      };
+    }
+
+    const config: ExerciseConfig = {
+      name: exercise.name,
+      type: 'body_scan',
+      duration: exercise.duration,
+      steps: exercise.steps.map((s) => ({
+        instruction: s.instruction,
+        duration: s.duration,
+        visualType: 'text',
+        waitForTap: !s.duration,
+      })),
+    };
+
+    return {
+      type: 'exercise',
+      success: true,
+      message: `${exercise.emoji} **${exercise.name}**\n\n${exercise.description}`,
+      exerciseType: 'body_scan',
+      exerciseConfig: config,
+      data: { exercise },
+    };
+  },
+});
+
+registerCommand({
+  name: 'calm',
+  aliases: ['relax', 'chill'],
+  description: 'Auto-pick a calming technique based on what you need',
+  category: 'exercise',
+  requiresPremium: false,
+  handler: async (args, context) => {
+    // Pick based on quick exercises
+    const quickExercises = EXERCISES.filter(
+      (e) => e.tags.includes('quick') && (e.tier === 'free' || context.isPremium)
+    );
+
+    if (quickExercises.length === 0) {
+      return {
+        type: 'error',
+        success: false,
+        message: 'No quick exercises available.',
+      };
+    }
+
+    const exercise = quickExercises[Math.floor(Math.random() * quickExercises.length)];
+
+    const config: ExerciseConfig = {
+      name: exercise.name,
+      type: exercise.type as any,
+      duration: exercise.duration,
+      steps: exercise.steps.map((s) => ({
+        instruction: s.instruction,
+        duration: s.duration,
+        visualType: s.visualType === 'circle_expand' || s.visualType === 'circle_shrink' ? 'circle' : s.visualType,
+        waitForTap: !s.duration,
+      })),
+    };
+
+    return {
+      type: 'exercise',
+      success: true,
+      message: `Let's try **${exercise.name}** ${exercise.emoji}\n\n${exercise.description}`,
+      exerciseType: exercise.type,
+      exerciseConfig: config,
+      data: { exercise },
+    };
+  },
+});
+
+registerCommand({
+  name: 'prep',
+  aliases: ['prepare', 'event'],
+  description: 'Prepare for an upcoming social event',
+  category: 'exercise',
+  requiresPremium: false,
+  handler: async () => {
+    const exercise = getExerciseById('event_prep');
+    if (!exercise) {
+      return {
+        type: 'error',
+        success: false,
+        message: 'Exercise not found',
+      };
+    }
+
+    const config: ExerciseConfig = {
+      name: exercise.name,
+      type: 'social_prep',
+      duration: exercise.duration,
+      steps: exercise.steps.map((s) => ({
+        instruction: s.instruction,
+        duration: s.duration,
+        visualType: 'text',
+        waitForTap: !s.duration,
+      })),
+    };
+
+    return {
+      type: 'exercise',
+      success: true,
+      message: `${exercise.emoji} **${exercise.name}**\n\nLet's mentally prepare for what's coming up.`,
+      exerciseType: 'social_prep',
+      exerciseConfig: config,
+      data: { exercise },
+    };
+  },
+});
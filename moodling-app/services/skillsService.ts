@@ -18,6 +18,7 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, warn, error as logError } from './loggingService';
+import { registerReferenceProvider } from './slashCommandRegistry';
 
 // ============================================
 // STORAGE KEYS
@@ -1149,3 +1150,28 @@ export function getQuickExercises(isPremium: boolean): ExerciseMenuItem[] {
       };
     });
 }
+
+// ============================================
+// SLASH COMMAND REFERENCES
+// ============================================
+
+// Lets commands take skill and exercise arguments
+registerReferenceProvider('skill', () =>
+  SKILLS.map((skill) => ({
+    id: skill.id,
+    label: skill.name,
+    emoji: skill.emoji,
+    description: skill.description,
+    premium: skill.tier === 'premium',
+  }))
+);
+
+registerReferenceProvider('exercise', () =>
+  EXERCISES.map((exercise) => ({
+    id: exercise.id,
+    label: exercise.name,
+    emoji: exercise.emoji,
+    description: exercise.description,
+    premium: exercise.tier === 'premium',
+  }))
+);
@@ -0,0 +1,695 @@
+/**
+ * Slash Command Registry
+ *
+ * Command types, the command registry, argument schemas and
+ * autocomplete. Has no dependencies on feature services so any of them
+ * (skillsService, gamesService, ...) can register commands or argument
+ * references without import cycles.
+ *
+ * Commands declare their arguments:
+ *   args: [
+ *     { name: 'type', type: 'enum', values: ['box', '478'] },
+ *     { name: 'reason', type: 'text' },
+ *   ]
+ * and receive validated values as the handler's third parameter.
+ * Invalid input never reaches the handler; executeCommand returns an
+ * 'error' result with the problem and the command's usage instead.
+ *
+ * Unit: Slash Command System
+ */
+
+import type { CoachPersona } from './coachPersonalityService';
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export type CommandCategory =
+  | 'persona'    // Switch coach persona
+  | 'skill'      // Skills menu and upgrades
+  | 'exercise'   // Guided exercises
+  | 'power'      // Utility commands
+  | 'info'       // Information commands
+  | 'secret';    // Easter eggs
+
+export type CommandResultType =
+  | 'message'           // Display a message
+  | 'persona_switch'    // Changed persona
+  | 'menu'              // Show interactive menu
+  | 'exercise'          // Start guided exercise
+  | 'navigation'        // Navigate to screen
+  | 'action'            // Perform action (clear, export, etc.)
+  | 'lesson'            // Start a teaching lesson
+  | 'error';            // Error occurred
+
+export interface CommandResult {
+  type: CommandResultType;
+  success: boolean;
+  message?: string;
+  data?: any;
+
+  // For persona switches
+  newPersona?: CoachPersona;
+  previousPersona?: CoachPersona;
+  isTemporary?: boolean;
+
+  // For menus
+  menuType?: 'skills' | 'exercises' | 'help' | 'games' | 'teach';
+  menuItems?: MenuItem[];
+
+  // For teaching
+  lessonData?: any;
+
+  // For exercises
+  exerciseType?: string;
+  exerciseConfig?: ExerciseConfig;
+
+  // For navigation
+  navigateTo?: string;
+  navigationParams?: Record<string, any>;
+}
+
+export interface MenuItem {
+  id: string;
+  label: string;
+  emoji: string;
+  description?: string;
+  isPremium: boolean;
+  isLocked: boolean;
+  onSelect: () => void | Promise<void>;
+}
+
+export interface ExerciseConfig {
+  name: string;
+  type: 'breathing' | 'grounding' | 'body_scan' | 'thought_challenge';
+  steps: ExerciseStep[];
+  duration?: number; // in seconds
+}
+
+export interface ExerciseStep {
+  instruction: string;
+  duration?: number; // in seconds
+  visualType?: 'circle' | 'text' | 'progress';
+  waitForTap?: boolean;
+}
+
+export interface SlashCommand {
+  name: string;
+  aliases: string[];
+  description: string;
+  category: CommandCategory;
+  requiresPremium: boolean;
+  usage?: string;
+  examples?: string[];
+  /** Argument schema; commands without one get raw args unvalidated */
+  args?: CommandArgSpec[];
+  handler: (args: string[], context: CommandContext, values: CommandArgValues) => Promise<CommandResult>;
+}
+
+export interface CommandContext {
+  currentPersona: CoachPersona;
+  isPremium: boolean;
+  conversationId?: string;
+  messageHistory?: any[];
+}
+
+export interface ParsedCommand {
+  isCommand: boolean;
+  commandName: string;
+  args: string[];
+  rawInput: string;
+}
+
+// ============================================
+// ARGUMENT SCHEMA TYPES
+// ============================================
+
+export type CommandArgType =
+  | 'string'     // One word
+  | 'text'       // Rest of the line (must be last)
+  | 'enum'       // One of `values`
+  | 'number'
+  | 'date'       // YYYY-MM-DD, today, yesterday, tomorrow
+  | 'flag'       // --temp / -t anywhere on the line
+  | 'reference'; // Id of a skill, exercise, game, persona or subject
+
+export type ReferenceKind = 'skill' | 'exercise' | 'game' | 'persona' | 'subject';
+
+export interface CommandArgSpec {
+  name: string;
+  type: CommandArgType;
+  description?: string;
+  required?: boolean;
+
+  // enum
+  values?: string[];
+  /** Extra spellings for enum values ("4-7-8" -> "478") */
+  valueAliases?: Record<string, string>;
+
+  // number
+  min?: number;
+  max?: number;
+  integer?: boolean;
+
+  // reference
+  reference?: ReferenceKind;
+  /** Only list references the user can use (premium, unlocked...) */
+  referenceFilter?: (option: ReferenceOption, context?: CommandContext) => boolean;
+
+  // flag (defaults to --name)
+  flags?: string[];
+}
+
+/**
+ * Validated argument values by name:
+ * enum -> string, number -> number, date -> YYYY-MM-DD,
+ * flag -> boolean, reference -> ReferenceOption
+ */
+export type CommandArgValues = Record<string, any>;
+
+/**
+ * Something a reference argument can point at
+ */
+export interface ReferenceOption {
+  id: string;
+  label: string;
+  emoji?: string;
+  description?: string;
+  aliases?: string[];
+  premium?: boolean;
+}
+
+export type ReferenceProvider = () => ReferenceOption[];
+
+export interface ArgValidationResult {
+  values: CommandArgValues;
+  errors: string[];
+}
+
+export interface CommandSuggestion {
+  kind: 'command' | 'argument';
+  /** What to show in the suggestion list */
+  label: string;
+  description?: string;
+  emoji?: string;
+  /** Full input text after picking this suggestion */
+  insertText: string;
+  requiresPremium?: boolean;
+}
+
+// ============================================
+// COMMAND PARSING
+// ============================================
+
+/**
+ * Parse a message to check if it's a slash command
+ */
+export function parseCommand(input: string): ParsedCommand {
+  const trimmed = input.trim();
+
+  // Check if it starts with /
+  if (!trimmed.startsWith('/')) {
+    return {
+      isCommand: false,
+      commandName: '',
+      args: [],
+      rawInput: input,
+    };
+  }
+
+  // Remove the / and split by spaces
+  const withoutSlash = trimmed.slice(1);
+  const parts = withoutSlash.split(/\s+/);
+
+  const commandName = parts[0]?.toLowerCase() || '';
+  const args = parts.slice(1);
+
+  return {
+    isCommand: true,
+    commandName,
+    args,
+    rawInput: input,
+  };
+}
+
+/**
+ * Check if a message is a slash command
+ */
+export function isSlashCommand(input: string): boolean {
+  return input.trim().startsWith('/');
+}
+
+// ============================================
+// COMMAND REGISTRY
+// ============================================
+
+// Map of command names and aliases to their definitions
+const commandRegistry = new Map<string, SlashCommand>();
+
+/**
+ * Register a command with the registry.
+ * Other services can call this to add their own commands; a name or
+ * alias already taken by another command is reassigned with a warning.
+ */
+export function registerCommand(command: SlashCommand): void {
+  const textIndex = (command.args || []).findIndex((arg) => arg.type === 'text');
+  if (textIndex >= 0 && textIndex !== (command.args || []).length - 1) {
+    throw new Error(`/${command.name}: a 'text' argument must be the last argument`);
+  }
+
+  for (const key of [command.name, ...command.aliases].map((k) => k.toLowerCase())) {
+    const existing = commandRegistry.get(key);
+    if (existing && existing.name !== command.name) {
+      console.warn(`[SlashCommands] /${key} moved from /${existing.name} to /${command.name}`);
+    }
+    commandRegistry.set(key, command);
+  }
+}
+
+/**
+ * Remove a command and its aliases
+ */
+export function unregisterCommand(name: string): boolean {
+  const command = commandRegistry.get(name.toLowerCase());
+  if (!command) return false;
+  commandRegistry.forEach((registered, key) => {
+    if (registered === command) commandRegistry.delete(key);
+  });
+  return true;
+}
+
+/**
+ * Get a command from the registry
+ */
+export function getCommand(name: string): SlashCommand | undefined {
+  return commandRegistry.get(name.toLowerCase());
+}
+
+/**
+ * Get all registered commands
+ */
+export function getAllCommands(): SlashCommand[] {
+  // Get unique commands (not aliases)
+  const uniqueCommands = new Set<SlashCommand>();
+  commandRegistry.forEach((command) => {
+    uniqueCommands.add(command);
+  });
+  return Array.from(uniqueCommands);
+}
+
+/**
+ * Get commands by category
+ */
+export function getCommandsByCategory(category: CommandCategory): SlashCommand[] {
+  return getAllCommands().filter((cmd) => cmd.category === category);
+}
+
+/**
+ * All registered names and aliases, sorted (debugging)
+ */
+export function getRegisteredCommandNames(): string[] {
+  return Array.from(commandRegistry.keys()).sort();
+}
+
+// ============================================
+// REFERENCE PROVIDERS
+// ============================================
+
+const referenceProviders = new Map<ReferenceKind, ReferenceProvider>();
+
+/**
+ * Register the list a reference argument resolves against.
+ * Called by the service that owns the data (skillsService registers
+ * 'skill' and 'exercise', gamesService registers 'game', ...).
+ */
+export function registerReferenceProvider(kind: ReferenceKind, provider: ReferenceProvider): void {
+  referenceProviders.set(kind, provider);
+}
+
+/**
+ * Everything a reference argument of this kind can point at
+ */
+export function getReferenceOptions(kind: ReferenceKind): ReferenceOption[] {
+  const provider = referenceProviders.get(kind);
+  if (!provider) return [];
+  try {
+    return provider();
+  } catch (error) {
+    console.error(`[SlashCommands] Reference provider '${kind}' failed:`, error);
+    return [];
+  }
+}
+
+function optionKeys(option: ReferenceOption): string[] {
+  return [option.id, option.label, ...(option.aliases || [])].map((key) => key.toLowerCase());
+}
+
+/**
+ * Resolve user input to a reference: exact id/name/alias first, then a
+ * unique partial match ("med" -> meditation_basics)
+ */
+function resolveReference(
+  input: string,
+  options: ReferenceOption[]
+): { option?: ReferenceOption; candidates: ReferenceOption[] } {
+  const needle = input.toLowerCase();
+  const exact = options.find((option) => optionKeys(option).includes(needle));
+  if (exact) return { option: exact, candidates: [exact] };
+
+  const partial = options.filter((option) => optionKeys(option).some((key) => key.includes(needle)));
+  return { option: partial.length === 1 ? partial[0] : undefined, candidates: partial };
+}
+
+// ============================================
+// ARGUMENT VALIDATION
+// ============================================
+
+const RELATIVE_DATES: Record<string, number> = {
+  yesterday: -1,
+  today: 0,
+  tomorrow: 1,
+};
+
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * YYYY-MM-DD for "today"/"tomorrow"/"yesterday" or a real calendar date
+ */
+function parseDateArg(input: string): string | null {
+  const relative = RELATIVE_DATES[input.toLowerCase()];
+  if (relative !== undefined) {
+    const date = new Date();
+    date.setDate(date.getDate() + relative);
+    return toDateString(date);
+  }
+
+  const match = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Rejects 2024-02-31 and friends, which Date would roll over
+  if (date.getMonth() !== Number(match[2]) - 1 || date.getDate() !== Number(match[3])) return null;
+  return toDateString(date);
+}
+
+function flagNames(spec: CommandArgSpec): string[] {
+  return (spec.flags || [`--${spec.name}`]).map((flag) => flag.toLowerCase());
+}
+
+function enumValue(spec: CommandArgSpec, input: string): string | undefined {
+  const lower = input.toLowerCase();
+  const aliased = spec.valueAliases?.[lower] ?? lower;
+  return (spec.values || []).find((value) => value.toLowerCase() === aliased);
+}
+
+function referenceOptionsFor(spec: CommandArgSpec, context?: CommandContext): ReferenceOption[] {
+  const options = spec.reference ? getReferenceOptions(spec.reference) : [];
+  return spec.referenceFilter ? options.filter((option) => spec.referenceFilter!(option, context)) : options;
+}
+
+/**
+ * Check one positional value against its spec
+ */
+function validateArg(
+  spec: CommandArgSpec,
+  input: string,
+  context?: CommandContext
+): { value?: any; error?: string } {
+  switch (spec.type) {
+    case 'enum': {
+      const value = enumValue(spec, input);
+      if (value === undefined) {
+        return { error: `"${input}" isn't a valid ${spec.name}. Try: ${(spec.values || []).join(', ')}` };
+      }
+      return { value };
+    }
+
+    case 'number': {
+      const value = Number(input);
+      if (input.trim() === '' || !isFinite(value)) {
+        return { error: `${spec.name} must be a number (got "${input}")` };
+      }
+      if (spec.integer && !Number.isInteger(value)) {
+        return { error: `${spec.name} must be a whole number` };
+      }
+      if (spec.min !== undefined && value < spec.min) {
+        return { error: `${spec.name} must be at least ${spec.min}` };
+      }
+      if (spec.max !== undefined && value > spec.max) {
+        return { error: `${spec.name} must be at most ${spec.max}` };
+      }
+      return { value };
+    }
+
+    case 'date': {
+      const value = parseDateArg(input);
+      if (!value) {
+        return { error: `${spec.name} must be a date like 2024-03-15, today, or tomorrow` };
+      }
+      return { value };
+    }
+
+    case 'reference': {
+      const options = referenceOptionsFor(spec, context);
+      const { option, candidates } = resolveReference(input, options);
+      if (option) return { value: option };
+      if (candidates.length > 1) {
+        const listed = candidates.slice(0, 5).map((c) => c.id).join(', ');
+        return { error: `"${input}" matches more than one ${spec.reference}: ${listed}` };
+      }
+      return { error: `No ${spec.reference} called "${input}"` };
+    }
+
+    default:
+      return { value: input };
+  }
+}
+
+/**
+ * Validate raw args against a command's schema.
+ * Flags are picked out first, then positional args fill the schema in
+ * order; a trailing 'text' arg takes the rest of the line.
+ */
+export function validateCommandArgs(
+  command: SlashCommand,
+  args: string[],
+  context?: CommandContext
+): ArgValidationResult {
+  const values: CommandArgValues = {};
+  const errors: string[] = [];
+  const specs = command.args;
+
+  if (!specs) return { values, errors };
+
+  const flagSpecs = specs.filter((spec) => spec.type === 'flag');
+  const positionalSpecs = specs.filter((spec) => spec.type !== 'flag');
+
+  for (const spec of flagSpecs) values[spec.name] = false;
+
+  const positional: string[] = [];
+  for (const arg of args) {
+    const flag = flagSpecs.find((spec) => flagNames(spec).includes(arg.toLowerCase()));
+    if (flag) {
+      values[flag.name] = true;
+    } else if (arg) {
+      positional.push(arg);
+    }
+  }
+
+  let index = 0;
+  for (const spec of positionalSpecs) {
+    if (spec.type === 'text') {
+      const rest = positional.slice(index).join(' ').trim();
+      index = positional.length;
+      if (rest) {
+        values[spec.name] = rest;
+      } else if (spec.required) {
+        errors.push(`Missing ${spec.name}`);
+      }
+      continue;
+    }
+
+    const input = positional[index];
+    if (input === undefined) {
+      if (spec.required) errors.push(`Missing ${spec.name}`);
+      continue;
+    }
+    index++;
+
+    const { value, error } = validateArg(spec, input, context);
+    if (error) {
+      errors.push(error);
+    } else {
+      values[spec.name] = value;
+    }
+  }
+
+  if (index < positional.length) {
+    errors.push(`Unexpected: ${positional.slice(index).join(' ')}`);
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Usage line built from the schema when a command doesn't give one
+ */
+export function getCommandUsage(command: SlashCommand): string {
+  if (command.usage) return command.usage;
+  const parts = (command.args || []).map((spec) => {
+    const label = spec.type === 'flag'
+      ? flagNames(spec)[0]
+      : spec.type === 'enum' && spec.values
+        ? spec.values.join('|')
+        : spec.name;
+    return spec.required ? `<${label}>` : `[${label}]`;
+  });
+  return [`/${command.name}`, ...parts].join(' ');
+}
+
+// ============================================
+// AUTOCOMPLETE
+// ============================================
+
+const DEFAULT_SUGGESTION_LIMIT = 6;
+
+function commandSuggestion(command: SlashCommand, matchedAlias?: string): CommandSuggestion {
+  const hasArgs = (command.args && command.args.length > 0) || !!command.usage;
+  return {
+    kind: 'command',
+    label: matchedAlias ? `/${command.name} (/${matchedAlias})` : `/${command.name}`,
+    description: command.description,
+    insertText: `/${command.name}${hasArgs ? ' ' : ''}`,
+    requiresPremium: command.requiresPremium,
+  };
+}
+
+/**
+ * Commands whose name or alias starts with (then contains) the partial name
+ */
+function suggestCommands(partial: string, limit: number): CommandSuggestion[] {
+  const needle = partial.toLowerCase();
+  const visible = getAllCommands().filter((cmd) => cmd.category !== 'secret');
+
+  const ranked: { command: SlashCommand; alias?: string; rank: number }[] = [];
+  for (const command of visible) {
+    if (command.name.startsWith(needle)) {
+      ranked.push({ command, rank: 0 });
+      continue;
+    }
+    const alias = command.aliases.find((a) => a.toLowerCase().startsWith(needle));
+    if (alias && needle) {
+      ranked.push({ command, alias, rank: 1 });
+    } else if (needle && command.name.includes(needle)) {
+      ranked.push({ command, rank: 2 });
+    }
+  }
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.command.name.localeCompare(b.command.name))
+    .slice(0, limit)
+    .map(({ command, alias }) => commandSuggestion(command, alias));
+}
+
+/**
+ * Values the argument at this position could take
+ */
+function suggestArgValues(
+  spec: CommandArgSpec,
+  partial: string,
+  context?: CommandContext
+): { value: string; label: string; description?: string; emoji?: string; premium?: boolean }[] {
+  const needle = partial.toLowerCase();
+
+  switch (spec.type) {
+    case 'enum':
+      return (spec.values || [])
+        .filter((value) => value.toLowerCase().startsWith(needle))
+        .map((value) => ({ value, label: value }));
+
+    case 'reference':
+      return referenceOptionsFor(spec, context)
+        .filter((option) => optionKeys(option).some((key) => key.includes(needle)))
+        .sort((a, b) => Number(!a.id.startsWith(needle)) - Number(!b.id.startsWith(needle)))
+        .map((option) => ({
+          value: option.id,
+          label: option.label,
+          description: option.description,
+          emoji: option.emoji,
+          premium: option.premium,
+        }));
+
+    case 'date':
+      return Object.keys(RELATIVE_DATES)
+        .filter((value) => value.startsWith(needle))
+        .map((value) => ({ value, label: value, description: parseDateArg(value) || undefined }));
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Autocomplete for the chat input.
+ * While the command name is being typed, suggests commands; after it,
+ * suggests values for the argument under the cursor (enum values,
+ * references, flags). Returns [] for anything that isn't a command.
+ */
+export function getCommandSuggestions(
+  input: string,
+  context?: CommandContext,
+  limit: number = DEFAULT_SUGGESTION_LIMIT
+): CommandSuggestion[] {
+  const leading = input.replace(/^\s+/, '');
+  if (!leading.startsWith('/') || input.includes('\n')) return [];
+
+  const body = leading.slice(1);
+  const firstSpace = body.search(/\s/);
+  if (firstSpace < 0) {
+    return suggestCommands(body, limit);
+  }
+
+  const command = getCommand(body.slice(0, firstSpace));
+  if (!command || !command.args || command.args.length === 0) return [];
+
+  // Everything before the word being typed stays as-is
+  const words = body.slice(firstSpace).split(/\s+/).filter(Boolean);
+  const endsWithSpace = /\s$/.test(body);
+  const partial = endsWithSpace ? '' : words.pop() || '';
+  const prefix = `/${body.slice(0, firstSpace)} ${words.length > 0 ? `${words.join(' ')} ` : ''}`;
+
+  const flagSpecs = command.args.filter((spec) => spec.type === 'flag');
+  const positionalSpecs = command.args.filter((spec) => spec.type !== 'flag');
+
+  if (partial.startsWith('-')) {
+    return flagSpecs
+      .flatMap((spec) => flagNames(spec).map((flag) => ({ spec, flag })))
+      .filter(({ flag }) => flag.startsWith(partial.toLowerCase()))
+      .slice(0, limit)
+      .map(({ spec, flag }) => ({
+        kind: 'argument' as const,
+        label: flag,
+        description: spec.description,
+        insertText: `${prefix}${flag} `,
+      }));
+  }
+
+  const usedFlags = new Set(flagSpecs.flatMap(flagNames));
+  const position = words.filter((word) => !usedFlags.has(word.toLowerCase())).length;
+  const spec = positionalSpecs[position];
+  if (!spec) return [];
+
+  return suggestArgValues(spec, partial, context)
+    .slice(0, limit)
+    .map((option) => ({
+      kind: 'argument' as const,
+      label: option.label,
+      description: option.description ?? spec.description,
+      emoji: option.emoji,
+      insertText: `${prefix}${option.value} `,
+      requiresPremium: option.premium,
+    }));
+}
@@ -15,6 +15,7 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, warn, error as logError } from './loggingService';
+import { registerReferenceProvider } from './slashCommandRegistry';
 
 // ============================================
 // STORAGE KEYS
@@ -653,3 +654,18 @@ export function formatTimeSpent(seconds: number): string {
   const remainingMins = minutes % 60;
   return `${hours}h ${remainingMins}m`;
 }
+
+// ============================================
+// SLASH COMMAND REFERENCES
+// ============================================
+
+// Lets commands take a subject argument (/teach <subject>)
+registerReferenceProvider('subject', () =>
+  SUBJECTS.map((subject) => ({
+    id: subject.id,
+    label: subject.name,
+    emoji: subject.emoji,
+    description: subject.description,
+    premium: subject.tier === 'premium',
+  }))
+);
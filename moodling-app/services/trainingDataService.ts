@@ -13,7 +13,7 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { log, info, warn, error as logError, startTimer, endTimer } from './loggingService';
-import { getScoredExchanges, getScoreStats, ScoredExchange } from './humanScoreService';
+import { getScoredExchanges, getScoreStats, getLocalScorerStatus, ScoredExchange } from './humanScoreService';
 
 // ============================================
 // STORAGE KEYS
@@ -364,8 +364,14 @@ export async function getTrainingReadiness(): Promise<TrainingReadiness> {
       { name: 'Interview insights', current: insightCount, needed: 20, met: insightCount >= 20 }
     );
   } else if (phase === 2) {
+    const scorer = await getLocalScorerStatus();
     requirements.push(
-      { name: 'Local scorer accuracy', current: 0, needed: 85, met: false },
+      {
+        name: 'Local scorer accuracy',
+        current: Math.round((scorer.model?.crossValidation.agreement ?? 0) * 100),
+        needed: Math.round(scorer.threshold * 100),
+        met: scorer.mode === 'local',
+      },
       { name: 'Claude-scored examples', current: claudeExamples, needed: 1000, met: claudeExamples >= 1000 }
     );
   } else if (phase === 3) {
@@ -0,0 +1,111 @@
+/**
+ * Sync Server for Mood Leaf
+ *
+ * Local stand-in for the cloud sync endpoint used by
+ * dataPersistenceService.syncToCloud(). Use it to test multi-device
+ * sync and conflict handling without a real backend.
+ *
+ * The server never sees plaintext: every record payload is encrypted
+ * on device. It only stores ciphertext, a version vector per record,
+ * and the key-derivation salt + verifier (which are not secret).
+ *
+ * SETUP:
+ *   1. cd sync-server
+ *   2. npm install
+ *   3. npm start
+ *
+ * The server runs on http://localhost:3334
+ * Point the app at it with:
+ *   updateSyncConfig({ enabled: true, endpoint: 'http://<your-ip>:3334/sync' })
+ */
+
+const express = require('express');
+const cors = require('cors');
+const fs = require('fs');
+const path = require('path');
+const { createAccount, handleSync } = require('./syncProtocol');
+
+const app = express();
+const PORT = process.env.PORT || 3334;
+const DATA_FILE = process.env.SYNC_DATA_FILE || path.join(__dirname, 'data', 'store.json');
+
+app.use(cors());
+app.use(express.json({ limit: '50mb' }));
+
+// ============================================
+// STORAGE
+// ============================================
+
+// Account shape and the protocol itself live in syncProtocol.js
+let accounts = {};
+
+function load() {
+  try {
+    accounts = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  } catch {
+    accounts = {};
+  }
+}
+
+function save() {
+  fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+  fs.writeFileSync(DATA_FILE, JSON.stringify(accounts, null, 2));
+}
+
+function getAccount(req) {
+  // Bearer token doubles as the account id; no token = shared "default" account
+  const auth = req.headers.authorization || '';
+  const accountId = auth.startsWith('Bearer ') ? auth.slice(7) : 'default';
+  if (!accounts[accountId]) {
+    accounts[accountId] = createAccount();
+  }
+  return accounts[accountId];
+}
+
+// ============================================
+// ROUTES
+// ============================================
+
+// Health check
+app.get('/', (req, res) => {
+  res.json({
+    status: 'ok',
+    message: 'Mood Leaf sync server is running',
+    endpoints: {
+      sync: 'POST /sync { action: keyinfo | init | pull | push }',
+      reset: 'POST /reset (wipe all stored data)',
+    },
+  });
+});
+
+app.post('/sync', (req, res) => {
+  const body = req.body || {};
+  const result = handleSync(getAccount(req), body);
+  if (result.changed) save();
+  if (body.action === 'push') {
+    console.log(`[sync] ${body.deviceId}: accepted ${result.body.accepted.length}, rejected ${result.body.rejected.length}`);
+  }
+  return res.status(result.status).json(result.body);
+});
+
+app.post('/reset', (req, res) => {
+  accounts = {};
+  save();
+  res.json({ ok: true });
+});
+
+load();
+
+app.listen(PORT, () => {
+  console.log(`
+╔════════════════════════════════════════════════════════╗
+║     Mood Leaf Sync Server (encrypted stand-in)         ║
+║     Running on http://localhost:${PORT}                  ║
+╠════════════════════════════════════════════════════════╣
+║  Endpoints:                                            ║
+║    POST /sync   { action: keyinfo|init|pull|push }     ║
+║    POST /reset  (wipe stored data)                     ║
+╚════════════════════════════════════════════════════════╝
+  `);
+  console.log(`Data file: ${DATA_FILE}`);
+});
@@ -0,0 +1,97 @@
+/**
+ * Sync protocol for one account, without HTTP or persistence.
+ *
+ * server.js wraps it in express; the app's tests call it directly so
+ * they run against the same rules as the server.
+ */
+
+/**
+ * accounts[accountId] = {
+ *   kdf, verifier,          // set by the first device
+ *   seq,                    // last sequence number issued
+ *   records: { [key]: { key, vector, payload, deviceId, seq } }
+ * }
+ */
+function createAccount() {
+  return { kdf: null, verifier: null, seq: 0, records: {} };
+}
+
+// ============================================
+// VERSION VECTORS
+// ============================================
+
+/**
+ * True when vector a has seen everything vector b has
+ */
+function dominatesOrEquals(a, b) {
+  return Object.keys(b).every((device) => (a[device] || 0) >= b[device]);
+}
+
+// ============================================
+// ACTIONS
+// ============================================
+
+/**
+ * Handle one POST /sync body.
+ * Returns { status, body, changed } where changed means the account
+ * needs saving.
+ */
+function handleSync(account, request) {
+  const { action } = request || {};
+
+  switch (action) {
+    case 'keyinfo': {
+      return {
+        status: 200,
+        body: account.kdf ? { kdf: account.kdf, verifier: account.verifier } : {},
+        changed: false,
+      };
+    }
+
+    case 'init': {
+      if (account.kdf) {
+        return { status: 409, body: { error: 'Sync passphrase already set for this account' }, changed: false };
+      }
+      account.kdf = request.kdf;
+      account.verifier = request.verifier;
+      return { status: 200, body: { ok: true }, changed: true };
+    }
+
+    case 'pull': {
+      const since = Number(request.since) || 0;
+      const records = Object.values(account.records).filter((r) => r.seq > since);
+      return { status: 200, body: { records, cursor: account.seq }, changed: false };
+    }
+
+    case 'push': {
+      const { deviceId, records = [] } = request;
+      const accepted = [];
+      const rejected = [];
+
+      for (const record of records) {
+        const existing = account.records[record.key];
+        // Reject writes that haven't seen the stored version; the client pulls and merges
+        if (existing && !dominatesOrEquals(record.vector, existing.vector)) {
+          rejected.push(record.key);
+          continue;
+        }
+        account.seq += 1;
+        account.records[record.key] = {
+          key: record.key,
+          vector: record.vector,
+          payload: record.payload,
+          deviceId,
+          seq: account.seq,
+        };
+        accepted.push(record.key);
+      }
+
+      return { status: 200, body: { accepted, rejected, cursor: account.seq }, changed: true };
+    }
+
+    default:
+      return { status: 400, body: { error: `Unknown action: ${action}` }, changed: false };
+  }
+}
+
+module.exports = { createAccount, handleSync };